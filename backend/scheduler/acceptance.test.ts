@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { SchedulingAlgorithm } from "./algorithm";
-import { CAST_MEMBERS, ROLES, FEMALE_ONLY_ROLES, Show, Assignment, Role } from "./types";
+import { CAST_MEMBERS, DEFAULT_ROLE_CATALOGUE, Show, Assignment, Role } from "./types";
 import { areDatesConsecutive } from "./date_rules";
 
 // Phase 7 — full-system acceptance suite.
@@ -106,7 +106,8 @@ describe("Phase 7 — acceptance", () => {
         for (const x of stage) {
           const member = eligibleByName.get(x.performer)!;
           expect(member.eligibleRoles).toContain(x.role as Role);
-          if (FEMALE_ONLY_ROLES.includes(x.role as Role)) expect(member.gender).toBe("female");
+          const preferred = DEFAULT_ROLE_CATALOGUE.find(r => r.name === x.role)?.preferredGender;
+          if (preferred) expect(member.gender).toBe(preferred);
         }
       }
 
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { SchedulingAlgorithm } from './algorithm';
-import { Show, CastMember, Role, Assignment, CAST_MEMBERS } from './types';
+import { SchedulingAlgorithm, DEFAULT_RULE_LIMITS } from './algorithm';
+import type { ValidationItem } from './algorithm';
+import { formatShowDate } from './rules';
+import { Show, CastMember, Role, Assignment, CAST_MEMBERS, DEFAULT_ROLE_CATALOGUE, WeekCarryOver, TourBalance, RuleSettings } from './types';
 
 describe('SchedulingAlgorithm - Critical Bug Fixes', () => {
   const defaultCastMembers: CastMember[] = [
@@ -514,16 +516,16 @@ describe('SchedulingAlgorithm - Critical Bug Fixes', () => {
     it('gender comes from the explicit field, with a role-based fallback for legacy records', () => {
       // Cast WITHOUT a gender field -> female inferred from Bin/Cornish eligibility.
       const legacy = new SchedulingAlgorithm(weekShows, defaultCastMembers) as any;
-      expect(legacy.isFemalePerformer('MOLLY')).toBe(true);
-      expect(legacy.isFemalePerformer('PHIL')).toBe(false);
+      expect(legacy.performerGender('MOLLY')).toBe('female');
+      expect(legacy.performerGender('PHIL')).toBe('male');
 
       // Cast WITH an explicit gender field -> field wins.
       const gendered = new SchedulingAlgorithm(weekShows, [
         { name: 'ALEX', eligibleRoles: ['Sarge'], gender: 'female' },
         { name: 'PHIL', eligibleRoles: ['Sarge'], gender: 'male' }
       ]) as any;
-      expect(gendered.isFemalePerformer('ALEX')).toBe(true);
-      expect(gendered.isFemalePerformer('PHIL')).toBe(false);
+      expect(gendered.performerGender('ALEX')).toBe('female');
+      expect(gendered.performerGender('PHIL')).toBe('male');
     });
 
     it('auto-generation still defaults to a female performer for Bin/Cornish', () => {
@@ -782,9 +784,7 @@ describe('SchedulingAlgorithm - Critical Bug Fixes', () => {
     });
 
     it('never leaks the string "Invalid Date" into a user-facing message', () => {
-      const format = (date: string, time: string) =>
-        (new SchedulingAlgorithm(weekShows, defaultCastMembers) as any)
-          .formatDateForValidation(date, time) as string;
+      const format = formatShowDate;
 
       for (const unknown of ["TBC", ""]) {
         expect(format("2024-01-04", unknown)).not.toContain("Invalid Date");
@@ -1200,3 +1200,545 @@ describe('OVERWORKED warning — fair share is per STAGE SLOT, not per show', ()
     expect(validation.items.some(i => i.code === 'OVERWORKED' && i.performer === 'PHIL')).toBe(true);
   });
 });
+
+describe('performer unavailability', () => {
+  const standardWeek = (): Show[] => ([
+    { id: "tue", date: "2024-01-02", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "fri", date: "2024-01-05", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sat_mat", date: "2024-01-06", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sat_eve", date: "2024-01-06", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sun_mat", date: "2024-01-07", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sun_eve", date: "2024-01-07", time: "19:30", callTime: "18:00", status: "show" },
+  ]);
+  const joseAway = [{ performer: "JOSE", startDate: "2024-01-03", endDate: "2024-01-04", reason: "visa run" }];
+
+  it('generation forces the performer OFF for every show on an unavailable date', async () => {
+    const shows = standardWeek();
+    for (let run = 0; run < 5; run++) {
+      const algorithm = new SchedulingAlgorithm(shows, CAST_MEMBERS, undefined, { unavailability: joseAway });
+      const result = await algorithm.autoGenerate();
+      expect(result.success).toBe(true);
+
+      const joseOnAwayDates = result.assignments.filter(a =>
+        a.performer === "JOSE" && (a.showId === "wed" || a.showId === "thu"));
+      expect(joseOnAwayDates.length).toBe(2);
+      expect(joseOnAwayDates.every(a => a.role === 'OFF')).toBe(true);
+
+      // Not vacuous: the shows JOSE misses are still fully cast.
+      expect(result.assignments.filter(a => a.role !== 'OFF' && (a.showId === "wed" || a.showId === "thu"))).toHaveLength(16);
+      expect(algorithm.validateSchedule(result.assignments).items.filter(i => i.code === 'PERFORMER_UNAVAILABLE')).toEqual([]);
+    }
+  });
+
+  it('flags a performer cast on an unavailable date as a PERFORMER_UNAVAILABLE error', () => {
+    const algorithm = new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { unavailability: joseAway });
+    const result = algorithm.validateSchedule([{ showId: "wed", role: "Mozzie", performer: "JOSE" }]);
+
+    const items = result.items.filter(i => i.code === 'PERFORMER_UNAVAILABLE');
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ severity: 'error', performer: 'JOSE', showId: 'wed' });
+    expect(items[0].message).toContain('visa run');
+  });
+
+  it('downgrades to a warning when the RD marks the pick as an override', () => {
+    const algorithm = new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { unavailability: joseAway });
+    const result = algorithm.validateSchedule([{ showId: "wed", role: "Mozzie", performer: "JOSE", isOverride: true }]);
+
+    expect(result.items.filter(i => i.code === 'PERFORMER_UNAVAILABLE').map(i => i.severity)).toEqual(['warning']);
+  });
+
+  it('says nothing about dates outside the window', () => {
+    const algorithm = new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { unavailability: joseAway });
+    const result = algorithm.validateSchedule([
+      { showId: "tue", role: "Mozzie", performer: "JOSE" },
+      { showId: "fri", role: "Mozzie", performer: "JOSE" },
+    ]);
+
+    expect(result.items.filter(i => i.code === 'PERFORMER_UNAVAILABLE')).toEqual([]);
+  });
+});
+
+describe('continuity across the week boundary', () => {
+  const standardWeek = (): Show[] => ([
+    { id: "tue", date: "2024-01-02", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "fri", date: "2024-01-05", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sat_mat", date: "2024-01-06", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sat_eve", date: "2024-01-06", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sun_mat", date: "2024-01-07", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sun_eve", date: "2024-01-07", time: "19:30", callTime: "18:00", status: "show" },
+  ]);
+  const previousWeek = (performers: WeekCarryOver["performers"]): WeekCarryOver =>
+    ({ scheduleId: "prev", week: "Week 1", location: "London", performers });
+
+  // JOSE closed last week on six shows in a row, the last on the Monday.
+  const joseOnSix = previousWeek([
+    { performer: "JOSE", trailingRun: 6, runStartDate: "2023-12-28", runEndDate: "2024-01-01" },
+  ]);
+
+  it('flags a run that only exceeds the limit because of last week, and says so', () => {
+    const algorithm = new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { carryOver: joseOnSix });
+    const result = algorithm.validateSchedule([{ showId: "tue", role: "Mozzie", performer: "JOSE" }]);
+
+    const items = result.items.filter(i => i.code === 'CONSECUTIVE_EXCEEDED');
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ severity: 'error', performer: 'JOSE', carriedOver: true });
+    expect(items[0].message).toContain('last week');
+  });
+
+  it('ignores a carried run that was already broken by a gap day', () => {
+    const broken = previousWeek([
+      { performer: "JOSE", trailingRun: 6, runStartDate: "2023-12-25", runEndDate: "2023-12-30" },
+    ]);
+    const algorithm = new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { carryOver: broken });
+    const result = algorithm.validateSchedule([{ showId: "tue", role: "Mozzie", performer: "JOSE" }]);
+
+    expect(result.items.filter(i => i.code === 'CONSECUTIVE_EXCEEDED')).toEqual([]);
+  });
+
+  it('generation rests a performer who arrives on a full run', async () => {
+    for (let run = 0; run < 5; run++) {
+      const algorithm = new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { carryOver: joseOnSix });
+      const result = await algorithm.autoGenerate();
+      expect(result.success).toBe(true);
+
+      const joseTuesday = result.assignments.find(a => a.performer === "JOSE" && a.showId === "tue");
+      expect(joseTuesday?.role).toBe('OFF');
+      expect(algorithm.validateSchedule(result.assignments).items.filter(i => i.code === 'CONSECUTIVE_EXCEEDED')).toEqual([]);
+    }
+  });
+
+  it('warns when RED days fall too far apart across the boundary', () => {
+    const lastRed = previousWeek([{ performer: "JOSE", trailingRun: 0, lastRedDate: "2023-12-26" }]);
+    const algorithm = new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { carryOver: lastRed });
+
+    const late = algorithm.validateSchedule([
+      { showId: "sun_mat", role: "OFF", performer: "JOSE", isRedDay: true },
+      { showId: "sun_eve", role: "OFF", performer: "JOSE", isRedDay: true },
+    ]);
+    const spacing = late.items.filter(i => i.code === 'RED_DAY_SPACING');
+    expect(spacing).toHaveLength(1);
+    expect(spacing[0]).toMatchObject({ severity: 'warning', performer: 'JOSE', carriedOver: true });
+
+    const early = algorithm.validateSchedule([{ showId: "wed", role: "OFF", performer: "JOSE", isRedDay: true }]);
+    expect(early.items.filter(i => i.code === 'RED_DAY_SPACING')).toEqual([]);
+  });
+
+  it('generation picks a RED day that keeps the spacing', async () => {
+    const lastRed = previousWeek([{ performer: "JOSE", trailingRun: 0, lastRedDate: "2023-12-25" }]);
+    for (let run = 0; run < 5; run++) {
+      const algorithm = new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { carryOver: lastRed });
+      const result = await algorithm.autoGenerate();
+      expect(result.success).toBe(true);
+      expect(algorithm.validateSchedule(result.assignments).items.filter(i => i.code === 'RED_DAY_SPACING')).toEqual([]);
+    }
+  });
+});
+
+describe('tour-wide balance', () => {
+  const standardWeek = (): Show[] => ([
+    { id: "tue", date: "2024-01-02", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "fri", date: "2024-01-05", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sat_mat", date: "2024-01-06", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sat_eve", date: "2024-01-06", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sun_mat", date: "2024-01-07", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sun_eve", date: "2024-01-07", time: "19:30", callTime: "18:00", status: "show" },
+  ]);
+  const stageCount = (assignments: Assignment[], performer: string) =>
+    assignments.filter(a => a.performer === performer && a.role !== 'OFF').length;
+
+  it('gives fewer shows to a performer who is ahead on the tour', async () => {
+    // SEAN (Sarge/Potato) shares Sarge with PHIL and Potato with JAMIE and CADE.
+    // Far ahead on the tour, he should lose shows to them this week.
+    const ahead: TourBalance = { showCounts: { SEAN: 40 }, redWeekdays: {} };
+    let withBalance = 0;
+    let without = 0;
+    for (let run = 0; run < 5; run++) {
+      const balanced = await new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { tourBalance: ahead }).autoGenerate();
+      const plain = await new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS).autoGenerate();
+      expect(balanced.success).toBe(true);
+      withBalance += stageCount(balanced.assignments, "SEAN");
+      without += stageCount(plain.assignments, "SEAN");
+    }
+    expect(withBalance).toBeLessThan(without);
+  });
+
+  it('rotates RED days away from weekdays already rested on', async () => {
+    // Every performer has rested on four Tuesdays already.
+    const tuesdays: TourBalance = {
+      showCounts: {},
+      redWeekdays: Object.fromEntries(CAST_MEMBERS.map(m => [m.name, [0, 0, 4, 0, 0, 0, 0]])),
+    };
+    const tuesdayReds = (assignments: Assignment[]) =>
+      assignments.filter(a => a.showId === "tue" && a.isRedDay === true).length;
+    let withBalance = 0;
+    let without = 0;
+    for (let run = 0; run < 5; run++) {
+      const balanced = await new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { tourBalance: tuesdays }).autoGenerate();
+      const plain = await new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS).autoGenerate();
+      expect(balanced.success).toBe(true);
+      withBalance += tuesdayReds(balanced.assignments);
+      without += tuesdayReds(plain.assignments);
+    }
+    expect(withBalance).toBeLessThan(without);
+  });
+});
+
+describe('role catalogue', () => {
+  const standardWeek = (): Show[] => ([
+    { id: "tue", date: "2024-01-02", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "fri", date: "2024-01-05", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sat_mat", date: "2024-01-06", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sat_eve", date: "2024-01-06", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sun_mat", date: "2024-01-07", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sun_eve", date: "2024-01-07", time: "19:30", callTime: "18:00", status: "show" },
+  ]);
+  const withoutWho = DEFAULT_ROLE_CATALOGUE.map(r => (r.name === "Who" ? { ...r, active: false } : r));
+
+  it('casts only the active roles, leaving the rest of the company OFF', async () => {
+    const shows = standardWeek();
+    const algorithm = new SchedulingAlgorithm(shows, CAST_MEMBERS, undefined, { roles: withoutWho });
+    const result = await algorithm.autoGenerate();
+    expect(result.success).toBe(true);
+
+    for (const show of shows) {
+      const stage = result.assignments.filter(a => a.showId === show.id && a.role !== 'OFF');
+      expect(stage).toHaveLength(7);
+      expect(stage.some(a => a.role === "Who")).toBe(false);
+      expect(result.assignments.filter(a => a.showId === show.id && a.role === 'OFF')).toHaveLength(5);
+    }
+    expect(algorithm.validateSchedule(result.assignments).items.filter(i => i.code.startsWith('CASTING'))).toEqual([]);
+  });
+
+  it('checks a show against the active roles only', () => {
+    const shows = standardWeek().slice(0, 1);
+    const cast = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish"];
+    const performers = ["PHIL", "JAMIE", "JOSE", "ADAM", "CARY", "MOLLY", "JASMINE"];
+    const assignments: Assignment[] = cast.map((role, i) => ({ showId: "tue", role, performer: performers[i] }));
+
+    const trimmed = new SchedulingAlgorithm(shows, CAST_MEMBERS, undefined, { roles: withoutWho }).validateSchedule(assignments);
+    expect(trimmed.items.filter(i => i.code === 'CASTING_INCOMPLETE')).toEqual([]);
+
+    const full = new SchedulingAlgorithm(shows, CAST_MEMBERS).validateSchedule(assignments);
+    const missing = full.items.filter(i => i.code === 'CASTING_INCOMPLETE').map(i => i.message);
+    expect(missing.some(m => m.includes('Missing roles: Who'))).toBe(true);
+  });
+
+  it('follows each role\'s casting convention rather than a fixed female-only list', () => {
+    // Sarge conventionally male, Bin with no convention at all.
+    const catalogue = DEFAULT_ROLE_CATALOGUE.map(r =>
+      r.name === "Sarge" ? { ...r, preferredGender: "male" as const }
+        : r.name === "Bin" ? { ...r, preferredGender: undefined } : r);
+    const cast: CastMember[] = [
+      { name: "ALEX", eligibleRoles: ["Sarge"], gender: "female" },
+      { name: "PHIL", eligibleRoles: ["Bin"], gender: "male" },
+    ];
+    const algorithm = new SchedulingAlgorithm(standardWeek().slice(0, 1), cast, undefined, { roles: catalogue });
+    const result = algorithm.validateSchedule([
+      { showId: "tue", role: "Sarge", performer: "ALEX" },
+      { showId: "tue", role: "Bin", performer: "PHIL" },
+    ]);
+
+    const gender = result.items.filter(i => i.code === 'GENDER_VIOLATION');
+    expect(gender).toHaveLength(1);
+    expect(gender[0]).toMatchObject({ severity: 'warning', performer: 'ALEX' });
+    expect(gender[0].message).toContain('male performer');
+  });
+});
+
+describe('minimum rest between shows', () => {
+  const sargeOnly = DEFAULT_ROLE_CATALOGUE.map(r => ({ ...r, active: r.name === "Sarge" }));
+  const sarges = CAST_MEMBERS.filter(m => m.name === "PHIL" || m.name === "SEAN");
+  // Curtain down at 00:30 after the late show; the matinee calls at 10:00.
+  const lateThenEarly = (): Show[] => ([
+    { id: "thu", date: "2024-01-04", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "fri", date: "2024-01-05", time: "22:30", callTime: "21:00", status: "show" },
+    { id: "sat_mat", date: "2024-01-06", time: "11:00", callTime: "10:00", status: "show" },
+    { id: "sun", date: "2024-01-07", time: "", callTime: "", status: "dayoff" },
+  ]);
+  const restItems = (result: { items: ValidationItem[] }): ValidationItem[] => result.items.filter(i => i.code === 'MINIMUM_REST');
+
+  it('flags 9h 30m between curtain down and the next call as a MINIMUM_REST error on the later show', () => {
+    const algorithm = new SchedulingAlgorithm(lateThenEarly(), sarges, undefined, { roles: sargeOnly });
+    const result = algorithm.validateSchedule([
+      { showId: "fri", role: "Sarge", performer: "PHIL" },
+      { showId: "sat_mat", role: "Sarge", performer: "PHIL" },
+    ]);
+
+    const items = restItems(result);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ severity: 'error', performer: 'PHIL', showId: 'sat_mat' });
+    expect(items[0].message).toContain('9h 30m');
+    expect(result.isValid).toBe(false);
+  });
+
+  it('follows the configured minimum and show length, and can be turned off', () => {
+    const assignments: Assignment[] = [
+      { showId: "fri", role: "Sarge", performer: "PHIL" },
+      { showId: "sat_mat", role: "Sarge", performer: "PHIL" },
+    ];
+    const validate = (minRestMinutes: number, showMinutes = DEFAULT_RULE_LIMITS.showMinutes) => {
+      const rules: RuleSettings = { limits: { ...DEFAULT_RULE_LIMITS, minRestMinutes, showMinutes }, severities: {} };
+      return restItems(new SchedulingAlgorithm(lateThenEarly(), sarges, undefined, { roles: sargeOnly, rules })
+        .validateSchedule(assignments));
+    };
+
+    expect(validate(9 * 60)).toEqual([]);
+    expect(validate(9 * 60, 180)).toHaveLength(1);
+    expect(validate(0, 180)).toEqual([]);
+  });
+
+  it('never compares the two shows of a double, or a show whose call is TBC', () => {
+    const shows: Show[] = [
+      { id: "sat_mat", date: "2024-01-06", time: "14:00", callTime: "12:30", status: "show" },
+      { id: "sat_eve", date: "2024-01-06", time: "19:30", callTime: "18:00", status: "show" },
+      { id: "sun_mat", date: "2024-01-07", time: "11:00", callTime: "TBC", status: "show" },
+    ];
+    const algorithm = new SchedulingAlgorithm(shows, sarges, undefined, { roles: sargeOnly });
+    const result = algorithm.validateSchedule(shows.map(s => ({ showId: s.id, role: "Sarge", performer: "PHIL" })));
+
+    expect(restItems(result)).toEqual([]);
+  });
+
+  it('counts rest after a travel day from the end of that day, not from the last curtain', () => {
+    const shows: Show[] = [
+      { id: "mon", date: "2024-01-01", time: "19:30", callTime: "18:00", status: "show" },
+      { id: "tue", date: "2024-01-02", time: "Travel", callTime: "Travel", status: "travel" },
+      { id: "wed_mat", date: "2024-01-03", time: "11:00", callTime: "10:00", status: "show" },
+    ];
+    const algorithm = new SchedulingAlgorithm(shows, sarges, undefined, { roles: sargeOnly });
+    const result = algorithm.validateSchedule([
+      { showId: "mon", role: "Sarge", performer: "PHIL" },
+      { showId: "wed_mat", role: "Sarge", performer: "PHIL" },
+    ]);
+
+    const items = restItems(result);
+    expect(items).toHaveLength(1);
+    expect(items[0].message).toContain('10h off');
+  });
+
+  it('measures across time zones in real time', () => {
+    // Curtain down at midnight in London is 01:00 in Paris: 10 hours to an
+    // 11:00 call there, though the wall clocks read 11.
+    const shows: Show[] = [
+      { id: "fri", date: "2025-07-18", time: "22:00", callTime: "20:30", status: "show", timeZone: "Europe/London" },
+      { id: "sat", date: "2025-07-19", time: "12:00", callTime: "11:00", status: "show", timeZone: "Europe/Paris" },
+    ];
+    const assignments: Assignment[] = shows.map(s => ({ showId: s.id, role: "Sarge", performer: "PHIL" }));
+
+    const zoned = new SchedulingAlgorithm(shows, sarges, undefined, { roles: sargeOnly }).validateSchedule(assignments);
+    expect(restItems(zoned)).toHaveLength(1);
+
+    const oneZone = shows.map(s => ({ ...s, timeZone: "Europe/London" }));
+    expect(restItems(new SchedulingAlgorithm(oneZone, sarges, undefined, { roles: sargeOnly }).validateSchedule(assignments))).toEqual([]);
+  });
+
+  it('downgrades to a warning when the RD marks the pick as an override', () => {
+    const algorithm = new SchedulingAlgorithm(lateThenEarly(), sarges, undefined, { roles: sargeOnly });
+    const result = algorithm.validateSchedule([
+      { showId: "fri", role: "Sarge", performer: "PHIL" },
+      { showId: "sat_mat", role: "Sarge", performer: "PHIL", isOverride: true },
+    ]);
+
+    expect(restItems(result).map(i => i.severity)).toEqual(['warning']);
+  });
+
+  it('generation gives the early matinee to someone who was not in the late show', async () => {
+    for (let run = 0; run < 5; run++) {
+      const algorithm = new SchedulingAlgorithm(lateThenEarly(), sarges, undefined, { roles: sargeOnly });
+      const result = await algorithm.autoGenerate();
+      expect(result.success).toBe(true);
+
+      const sargeIn = (showId: string) => result.assignments.find(a => a.showId === showId && a.role === "Sarge")?.performer;
+      expect(sargeIn("fri")).toBeDefined();
+      expect(sargeIn("sat_mat")).toBeDefined();
+      expect(sargeIn("sat_mat")).not.toBe(sargeIn("fri"));
+      expect(restItems(algorithm.validateSchedule(result.assignments))).toEqual([]);
+    }
+  });
+});
+
+describe('labour-rule profiles', () => {
+  const sargeOnly = DEFAULT_ROLE_CATALOGUE.map(r => ({ ...r, active: r.name === "Sarge" }));
+  const sarges = CAST_MEMBERS.filter(m => m.name === "PHIL" || m.name === "SEAN");
+  // Six evening shows, Monday to Saturday, and Sunday off.
+  const sixShows = (): Show[] => ([
+    ...["2024-01-01", "2024-01-02", "2024-01-03", "2024-01-04", "2024-01-05", "2024-01-06"].map((date, i) =>
+      ({ id: `d${i}`, date, time: "19:30", callTime: "18:00", status: "show" as const })),
+    { id: "sun", date: "2024-01-07", time: "", callTime: "", status: "dayoff" },
+  ]);
+  const philPlaysAll = (): Assignment[] => sixShows()
+    .filter(s => s.status === "show")
+    .map(s => ({ showId: s.id, role: "Sarge", performer: "PHIL" }));
+  const profile = (limits: Partial<RuleSettings["limits"]>, severities: RuleSettings["severities"] = {}): RuleSettings =>
+    ({ limits: { ...DEFAULT_RULE_LIMITS, ...limits }, severities });
+  const validate = (rules?: RuleSettings) =>
+    new SchedulingAlgorithm(sixShows(), sarges, undefined, { roles: sargeOnly, rules }).validateSchedule(philPlaysAll());
+  const codes = (result: { items: Array<{ code: string; severity: string }> }, code: string) =>
+    result.items.filter(i => i.code === code).map(i => i.severity);
+
+  it("holds a week to the profile's weekly cap and run length", () => {
+    expect(codes(validate(), 'WEEKLY_LIMIT_EXCEEDED')).toEqual([]);
+    expect(codes(validate(), 'CONSECUTIVE_EXCEEDED')).toEqual([]);
+
+    const strict = validate(profile({ maxShowsPerWeek: 5, maxConsecutiveShows: 4 }));
+    expect(codes(strict, 'WEEKLY_LIMIT_EXCEEDED')).toEqual(['error']);
+    expect(codes(strict, 'CONSECUTIVE_EXCEEDED')).toEqual(['error']);
+    expect(strict.errors.some(e => e.includes('maximum of 5 shows per week'))).toBe(true);
+    expect(strict.errors.some(e => e.includes('maximum of 4 consecutive shows'))).toBe(true);
+  });
+
+  it('reports a rule at the severity the profile gives it, or not at all', () => {
+    const lowered = validate(profile({ maxShowsPerWeek: 5 }, { WEEKLY_LIMIT_EXCEEDED: 'warning' }));
+    expect(codes(lowered, 'WEEKLY_LIMIT_EXCEEDED')).toEqual(['warning']);
+
+    const off = validate(profile({ maxShowsPerWeek: 5 }, { WEEKLY_LIMIT_EXCEEDED: 'off', RED_DAY_MISSING: 'off' }));
+    expect(codes(off, 'WEEKLY_LIMIT_EXCEEDED')).toEqual([]);
+    expect(codes(off, 'RED_DAY_MISSING')).toEqual([]);
+
+    // A code a profile may not set keeps its built-in severity.
+    const casting = new SchedulingAlgorithm(sixShows(), sarges, undefined, { roles: sargeOnly, rules: profile({}, { CASTING_INCOMPLETE: 'off' }) })
+      .validateSchedule([]);
+    expect(codes(casting, 'CASTING_INCOMPLETE').length).toBeGreaterThan(0);
+  });
+
+  it("generates within the profile's weekly cap", async () => {
+    const rules = profile({ maxShowsPerWeek: 3 });
+    const algorithm = new SchedulingAlgorithm(sixShows(), sarges, undefined, { roles: sargeOnly, rules });
+    const result = await algorithm.autoGenerate();
+
+    expect(result.success).toBe(true);
+    for (const name of ["PHIL", "SEAN"]) {
+      expect(result.assignments.filter(a => a.performer === name && a.role === "Sarge")).toHaveLength(3);
+    }
+  });
+
+  it('gives out no RED days when the RED-day policy is off', async () => {
+    const shows: Show[] = [
+      { id: "mon", date: "2024-01-01", time: "", callTime: "", status: "dayoff" },
+      ...sixShows().filter(s => s.status === "show").slice(1),
+    ];
+    const withRed = await new SchedulingAlgorithm(shows, CAST_MEMBERS).autoGenerate();
+    expect(withRed.assignments.some(a => a.isRedDay)).toBe(true);
+
+    const rules = profile({}, { RED_DAY_MISSING: 'off' });
+    const algorithm = new SchedulingAlgorithm(shows, CAST_MEMBERS, undefined, { rules });
+    const result = await algorithm.autoGenerate();
+    expect(result.success).toBe(true);
+    expect(result.assignments.some(a => a.isRedDay)).toBe(false);
+    expect(codes(algorithm.validateSchedule(result.assignments), 'RED_DAY_MISSING')).toEqual([]);
+  });
+});
+
+describe('seeded generation', () => {
+  const standardWeek = (): Show[] => ([
+    { id: "tue", date: "2024-01-02", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "fri", date: "2024-01-05", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sat_mat", date: "2024-01-06", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sat_eve", date: "2024-01-06", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sun_mat", date: "2024-01-07", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sun_eve", date: "2024-01-07", time: "19:30", callTime: "18:00", status: "show" },
+  ]);
+  const generate = (seed?: number) => new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { seed }).autoGenerate();
+
+  it('gives the same week for the same seed and returns the seed it used', async () => {
+    const first = await generate(12345);
+    const second = await generate(12345);
+
+    expect(first.success).toBe(true);
+    expect(first.seed).toBe(12345);
+    expect(second.assignments).toEqual(first.assignments);
+    expect(second.warnings).toEqual(first.warnings);
+  });
+
+  it('draws a seed when none is given, which reproduces the week', async () => {
+    const drawn = await generate();
+    expect(Number.isInteger(drawn.seed)).toBe(true);
+
+    const again = await generate(drawn.seed);
+    expect(again.assignments).toEqual(drawn.assignments);
+  });
+
+  it('restarts from the seed on every run of the same instance', async () => {
+    const algorithm = new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { seed: 7 });
+    const first = await algorithm.autoGenerate();
+    const second = await algorithm.autoGenerate();
+    expect(second.assignments).toEqual(first.assignments);
+  });
+
+  it('casts the week differently for some other seed', async () => {
+    const first = await generate(1);
+    const others = await Promise.all([2, 3, 4, 5, 6].map(seed => generate(seed)));
+    expect(others.some(r => JSON.stringify(r.assignments) !== JSON.stringify(first.assignments))).toBe(true);
+  });
+});
+
+describe('casting explanations', () => {
+  const standardWeek = (): Show[] => ([
+    { id: "tue", date: "2024-01-02", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "fri", date: "2024-01-05", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sat_mat", date: "2024-01-06", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sat_eve", date: "2024-01-06", time: "19:30", callTime: "18:00", status: "show" },
+    { id: "sun_mat", date: "2024-01-07", time: "14:00", callTime: "12:30", status: "show" },
+    { id: "sun_eve", date: "2024-01-07", time: "19:30", callTime: "18:00", status: "show" },
+  ]);
+
+  it('explains every stage slot with the whole company, the cast performer first', async () => {
+    const result = await new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { seed: 1 }).autoGenerate();
+
+    expect(result.explanations).toHaveLength(8 * 8);
+    for (const explanation of result.explanations!) {
+      const cast = result.assignments.find(a => a.showId === explanation.showId && a.role === explanation.role);
+      expect(explanation.performer).toBe(cast?.performer);
+      expect(explanation.candidates).toHaveLength(CAST_MEMBERS.length);
+      expect(explanation.candidates[0].performer).toBe(cast?.performer);
+      expect(explanation.candidates[0].rejectedBy).toBeUndefined();
+    }
+
+    const sarge = result.explanations!.find(e => e.showId === "tue" && e.role === "Sarge")!;
+    expect(sarge.candidates.find(c => c.performer === "MOLLY")).toMatchObject({ rejectedBy: "role", detail: "doesn't play Sarge" });
+    expect(sarge.reason).toMatch(/most even cast of the whole week/);
+  });
+
+  it('names what ruled everyone out of a slot nobody could play', async () => {
+    const sargeOnlyPhil = CAST_MEMBERS.map(m => m.name === "SEAN" ? { ...m, eligibleRoles: ["Potato"] } : m);
+    const result = await new SchedulingAlgorithm(standardWeek(), sargeOnlyPhil, undefined, {
+      seed: 1,
+      unavailability: [{ performer: "PHIL", startDate: "2024-01-02", endDate: "2024-01-02" }]
+    }).autoGenerate();
+
+    const sarge = result.explanations!.find(e => e.showId === "tue" && e.role === "Sarge")!;
+    expect(sarge.performer).toBeUndefined();
+    expect(sarge.reason).toBe("Nobody could play it: 11 don't play the role, 1 unavailable");
+    expect(sarge.candidates.find(c => c.performer === "PHIL")).toMatchObject({ rejectedBy: "unavailable" });
+  });
+
+  it('marks a locked pick as locked and everyone else as locked out', async () => {
+    const existing: Assignment[] = [{ showId: "wed", role: "Who", performer: "CADE" }];
+    const result = await new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, existing, { seed: 1 }).autoGenerate();
+
+    const who = result.explanations!.find(e => e.showId === "wed" && e.role === "Who")!;
+    expect(who.performer).toBe("CADE");
+    expect(who.reason).toBe("CADE was locked here before generating");
+    expect(who.candidates[0].detail).toBe("locked on the grid");
+    expect(who.candidates.slice(1).every(c => c.rejectedBy === "locked")).toBe(true);
+  });
+
+  it('says the restarts picked the least played when they cast the week', async () => {
+    const result = await new SchedulingAlgorithm(standardWeek(), CAST_MEMBERS, undefined, { seed: 1, solver: "heuristic" }).autoGenerate();
+
+    const reasons = result.explanations!.filter(e => e.performer).map(e => e.reason);
+    expect(reasons.some(r => /least played/.test(r))).toBe(true);
+  });
+});
@@ -1,6 +1,12 @@
-import { Role, Show, Assignment, CastMember, FEMALE_ONLY_ROLES } from "./types";
-import { areDatesConsecutive } from "./date_rules";
-import { TBC, isKnownTime, showSortKey } from "./time";
+import { Role, Show, Assignment, CastMember, UnavailableWindow, PerformerCarryOver, WeekCarryOver, TourBalance, RoleDefinition, RuleLimits, RuleSettings, CandidateTrace, CastingCheck, SlotExplanation, DEFAULT_ROLE_CATALOGUE } from "./types";
+import { addDays, areDatesConsecutive, dayDiff } from "./date_rules";
+import { TBC, compareShows, isKnownTime, restMinutesBetween } from "./time";
+import { BlockingConstraint, CastingModel, SolveStatus, SolverRules, blockingConstraints, solveCasting } from "./solver";
+import { DEFAULT_RULE_LIMITS, RuleWeek, evaluateRules, formatRest, formatShowDate, ruleSeverity } from "./rules";
+import type { QuickFix } from "./fixes";
+
+// Re-exported from the registry for the modules that import them from here.
+export { BUILT_IN_SEVERITY, DEFAULT_RULE_LIMITS, PROFILE_RULE_CODES, ruleSeverity } from "./rules";
 
 export interface AutoGenerateResult {
   success: boolean;
@@ -10,16 +16,31 @@ export interface AutoGenerateResult {
   dayOffStats?: Record<string, number>;
   generationId?: string;
   generatedAt?: string;
+  // The seed the run used (see SchedulingOptions.seed).
+  seed?: number;
+  // How the exact solver settled the week, when it ran (see
+  // SchedulingOptions.solver). "unknown": it ran out of budget and the
+  // randomised restarts cast the week instead.
+  solver?: {
+    status: SolveStatus;
+    nodes: number;
+    // Why no valid cast exists, when it proved none does.
+    blocking?: BlockingConstraint[];
+  };
+  // Every stage slot: who was cast and why, or why it is empty.
+  explanations?: SlotExplanation[];
 }
 
-// Stable, message-independent identity for each validation rule. Generation
-// retry decisions and any UI branching key off these codes, never off the
-// human-readable message text (which may be reworded freely).
+// Stable, message-independent identity for each validation rule (see the
+// registry in rules.ts). Generation retry decisions and any UI branching key
+// off these codes, never off the human-readable message text (which may be
+// reworded freely).
 export type RuleCode =
   | "CASTING_INCOMPLETE" | "CASTING_DUPLICATE" | "ROLE_INELIGIBLE" | "GENDER_VIOLATION"
   | "CONSECUTIVE_EXCEEDED" | "BACK_TO_BACK_DOUBLES" | "WEEKLY_LIMIT_EXCEEDED"
   | "RED_DAY_MULTIPLE" | "RED_DAY_NOT_FULL_DAY" | "RED_DAY_MISSING"
-  | "OVERRIDE_ACKNOWLEDGED" | "UNDERUTILIZED" | "OVERWORKED" | "CONSECUTIVE_DAYS_OFF";
+  | "UNDERUTILIZED" | "OVERWORKED"
+  | "PERFORMER_UNAVAILABLE" | "RED_DAY_SPACING" | "MINIMUM_REST";
 
 export interface ValidationItem {
   code: RuleCode;
@@ -27,19 +48,83 @@ export interface ValidationItem {
   message: string;
   performer?: string;
   showId?: string;
+  // Set when the issue only exists because of the previous week (a run carried
+  // across the boundary, or RED days too far apart), so the editor can say so.
+  carriedOver?: boolean;
+  // Edits that would put it right. Only the validate endpoints fill these in,
+  // when asked (see fixes.ts).
+  fixes?: QuickFix[];
+}
+
+// A fresh generation seed: any unsigned 32-bit integer.
+export function newSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// mulberry32: a small PRNG whose whole state is one 32-bit integer, so a run
+// can be replayed from its seed alone.
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
 }
 
 // Codes that make a generated schedule unusable (must retry / cannot ship).
 // Deliberately excludes RED_DAY_* (RED assignment is a separate post-pass with
 // its own retry signal) and the soft advisory codes. GENDER_VIOLATION is also
-// excluded: Bin/Cornish are typically cast with a female performer, but that's
-// a casting convention, not a hard rule, so a mismatch is a warning, not an
-// error.
+// excluded: a role's preferredGender (Bin/Cornish are typically cast with a
+// female performer) is a casting convention, not a hard rule, so a mismatch is
+// a warning, not an error.
 const CRITICAL_RULE_CODES: ReadonlySet<RuleCode> = new Set<RuleCode>([
   "CASTING_INCOMPLETE", "CASTING_DUPLICATE", "ROLE_INELIGIBLE",
-  "CONSECUTIVE_EXCEEDED", "BACK_TO_BACK_DOUBLES", "WEEKLY_LIMIT_EXCEEDED"
+  "CONSECUTIVE_EXCEEDED", "BACK_TO_BACK_DOUBLES", "WEEKLY_LIMIT_EXCEEDED",
+  "PERFORMER_UNAVAILABLE", "MINIMUM_REST"
 ]);
 
+// Optional inputs beyond the week itself. Every field defaults to "absent",
+// which reproduces the behaviour of the plain 3-argument constructor.
+export interface SchedulingOptions {
+  // Dates performers cannot work. Every show on a covered date is forced OFF
+  // for that performer during generation, and casting them there anyway is a
+  // PERFORMER_UNAVAILABLE error (a warning when marked isOverride).
+  unavailability?: UnavailableWindow[];
+  // The tail of the previous week (see continuity.ts). Runs that reach the
+  // boundary keep counting toward the consecutive-show limit, and RED days are
+  // kept within maxDaysBetweenRedDays of the previous one.
+  carryOver?: WeekCarryOver;
+  // Totals from the tour's earlier weeks (see generateTour in tours.ts). Casting
+  // prefers performers who are behind on shows, and RED days avoid weekdays a
+  // performer has already rested on.
+  tourBalance?: TourBalance;
+  // The company's role catalogue (see roles.ts). Active roles, in order, are
+  // the stage tracks every show casts; the rest of the company is OFF.
+  // Defaults to DEFAULT_ROLE_CATALOGUE.
+  roles?: RoleDefinition[];
+  // The labour-rule profile in force (see RuleSettings and
+  // loadScheduleRules in rule_profiles.ts). Defaults to DEFAULT_RULE_LIMITS at
+  // the built-in severities.
+  rules?: RuleSettings;
+  // Drives every random choice autoGenerate makes: the same seed and inputs
+  // give the same week. Defaults to a fresh one (newSeed), returned on the
+  // result either way.
+  seed?: number;
+  // The weeks of earlier candidates (see candidates.ts). Among performers
+  // equally due a show, casting prefers one who didn't play that role in that
+  // show in them, and a performer's RED day prefers a date it wasn't on, so
+  // the run comes out different rather than a near-copy.
+  avoid?: Assignment[];
+  // How autoGenerate casts the week. "exact" (the default): the solver in
+  // solver.ts, which finds the fairest valid cast or proves there is none.
+  // "heuristic": randomised restarts, as before the solver; also what "exact"
+  // falls back to when the week is too big to settle within its budget.
+  solver?: "exact" | "heuristic";
+}
+
 export interface ConstraintResult {
   isValid: boolean;
   errors: string[];
@@ -51,26 +136,33 @@ interface ShowAssignment {
   [role: string]: string;
 }
 
-interface ConsecutiveSequence {
-  startIndex: number;
-  endIndex: number;
-  count: number;
-  startDate: string;
-  endDate: string;
-}
-
-interface PerformerShowData {
-  showIndexes: Set<number>;
-  sortedShows: Array<{ show: Show; index: number }>;
-  maxConsecutive: number;
-  sequences: ConsecutiveSequence[];
-}
+// CastingCheck in the order castingRejection makes the checks.
+const CASTING_CHECKS: CastingCheck[] = [
+  "role", "locked", "red_date", "unavailable", "same_show", "consecutive",
+  "back_to_back_doubles", "weekly_limit", "gender", "minimum_rest"
+];
+
+// How an explanation counts the performers a check ruled out of a slot.
+const RULED_OUT_BY: Record<CastingCheck, string> = {
+  role: "don't play the role",
+  locked: "locked out",
+  red_date: "on their RED day",
+  unavailable: "unavailable",
+  same_show: "already in the show",
+  consecutive: "at the run limit",
+  back_to_back_doubles: "would play back-to-back doubles",
+  weekly_limit: "at the weekly limit",
+  gender: "outside the role's casting convention",
+  minimum_rest: "short of rest"
+};
 
 export class SchedulingAlgorithm {
   private shows: Show[];
   private assignments: Map<string, ShowAssignment>;
   private castMembers: CastMember[];
-  private roles: Role[] = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
+  private roles: Role[];
+  // role -> the gender it is conventionally cast with, for roles that have one.
+  private preferredGender: Map<Role, "male" | "female"> = new Map();
   private offAssignments: Map<string, string[]> = new Map();
   
   // Warnings produced by the most recent assignRedDays() call (e.g. a performer
@@ -84,6 +176,34 @@ export class SchedulingAlgorithm {
   private lockedCells: Set<string> = new Set();            // `${showId}:${role}`
   private lockedRedDates: Map<string, string> = new Map(); // performer -> RED date (YYYY-MM-DD)
 
+  // performer -> the windows they cannot work. Empty unless the caller passes
+  // options.unavailability.
+  private unavailability: Map<string, UnavailableWindow[]> = new Map();
+
+  // performer -> what they bring in from the previous week. Empty unless the
+  // caller passes options.carryOver.
+  private carryOver: Map<string, PerformerCarryOver> = new Map();
+
+  // Totals from earlier weeks of the tour. Empty unless the caller passes
+  // options.tourBalance.
+  private tourBalance: TourBalance = { showCounts: {}, redWeekdays: {} };
+
+  // The labour rules in force. Built-in unless the caller passes options.rules.
+  private rules: RuleSettings | undefined;
+  private limits: RuleLimits = DEFAULT_RULE_LIMITS;
+
+  // The run's seed, and the random stream drawn from it. autoGenerate restarts
+  // the stream, so calling it twice gives the same result.
+  private seed: number;
+  private random: () => number;
+
+  // options.avoid counted by "showId:role:performer" (stage picks) and
+  // "performer:date" (RED days).
+  private avoidedPicks = new Map<string, number>();
+  private avoidedRedDates = new Map<string, number>();
+
+  private solverMethod: "exact" | "heuristic";
+
   // How many shows in the current generation attempt fell back from fair
   // OFF-selection to the random old logic (day-off fairness may be reduced).
   private fairnessFallbackCount = 0;
@@ -91,29 +211,64 @@ export class SchedulingAlgorithm {
   // Cached data structures for performance
   private _sortedActiveShows: Show[] | null = null;
   private _showIndexMap: Map<string, number> | null = null;
-  private _performerShowCache: Map<string, PerformerShowData> | null = null;
-  // Identity of the assignments array the cache above was computed from —
-  // assignRedDays returns a new array, so keying on reference means the
-  // pre-RED and post-RED validateSchedule calls never share a stale cache.
-  private _performerShowCacheKey: Assignment[] | null = null;
 
   // Fisher-Yates shuffle for proper randomization
   private shuffle<T>(array: T[]): T[] {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     return shuffled;
   }
 
-  constructor(shows: Show[], castMembers?: CastMember[], existingAssignments?: Assignment[]) {
+  constructor(shows: Show[], castMembers?: CastMember[], existingAssignments?: Assignment[], options: SchedulingOptions = {}) {
     this.shows = shows;
     this.assignments = new Map();
     this.offAssignments = new Map();
 
     this.castMembers = castMembers || [];
 
+    for (const window of options.unavailability ?? []) {
+      const list = this.unavailability.get(window.performer) ?? [];
+      list.push(window);
+      this.unavailability.set(window.performer, list);
+    }
+
+    for (const entry of options.carryOver?.performers ?? []) {
+      this.carryOver.set(entry.performer, entry);
+    }
+
+    if (options.tourBalance) {
+      this.tourBalance = options.tourBalance;
+    }
+
+    if (options.rules) {
+      this.rules = options.rules;
+      this.limits = options.rules.limits;
+    }
+
+    this.seed = (options.seed ?? newSeed()) >>> 0;
+    this.random = seededRandom(this.seed);
+    this.solverMethod = options.solver ?? "exact";
+
+    const dateOf = new Map(shows.map(s => [s.id, s.date]));
+    for (const a of options.avoid ?? []) {
+      const key = a.role === 'OFF'
+        ? (a.isRedDay ? `${a.performer}:${dateOf.get(a.showId)}` : null)
+        : `${a.showId}:${a.role}:${a.performer}`;
+      const counts = a.role === 'OFF' ? this.avoidedRedDates : this.avoidedPicks;
+      if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    const activeRoles = (options.roles ?? DEFAULT_ROLE_CATALOGUE)
+      .filter(r => r.active)
+      .sort((a, b) => a.order - b.order);
+    this.roles = activeRoles.map(r => r.name);
+    for (const role of activeRoles) {
+      if (role.preferredGender) this.preferredGender.set(role.name, role.preferredGender);
+    }
+
     // Initialize empty assignments for all shows
     shows.forEach(show => {
       const showAssignment: ShowAssignment = {};
@@ -163,18 +318,17 @@ export class SchedulingAlgorithm {
   private clearCaches(): void {
     this._sortedActiveShows = null;
     this._showIndexMap = null;
-    this._performerShowCache = null;
-    this._performerShowCacheKey = null;
   }
 
   // Get sorted active shows with caching
   private getSortedActiveShows(): Show[] {
     if (this._sortedActiveShows === null) {
-      // showSortKey, not a Date difference: a TBC show yields an Invalid Date,
-      // whose NaN comparator silently leaves the sort in an arbitrary order.
+      // compareShows, not a raw Date difference: a TBC show yields an Invalid
+      // Date, whose NaN comparator silently leaves the sort in an arbitrary
+      // order. It also orders a week that crosses time zones by real time.
       this._sortedActiveShows = this.shows
         .filter(show => show.status === "show")
-        .sort((a, b) => showSortKey(a.date, a.time).localeCompare(showSortKey(b.date, b.time)));
+        .sort(compareShows);
     }
     return this._sortedActiveShows;
   }
@@ -358,7 +512,7 @@ export class SchedulingAlgorithm {
       });
     }
     
-    // Get all performers (we'll select 4 to be OFF from those not assigned)
+    // Get all performers (we'll select offCount() to be OFF from those not assigned)
     const eligibleForOff = this.castMembers
       .map(m => m.name)
       .filter(name => !assignedToShow.has(name));
@@ -451,9 +605,12 @@ export class SchedulingAlgorithm {
         return a.wouldCreateConsecutiveDaysOff ? 1 : -1;
       }
       
-      // Priority 3: Workload balance (prefer those with more shows)
-      if (a.totalShows !== b.totalShows) {
-        return b.totalShows - a.totalShows;
+      // Priority 3: Workload balance (prefer those with more shows, counting
+      // earlier weeks of the tour)
+      const aTotal = a.totalShows + this.tourShowCount(a.performer);
+      const bTotal = b.totalShows + this.tourShowCount(b.performer);
+      if (aTotal !== bTotal) {
+        return bTotal - aTotal;
       }
       
       // Priority 4: Consecutive show count (help those working many in a row)
@@ -462,11 +619,11 @@ export class SchedulingAlgorithm {
       }
       
       // Random tiebreaker
-      return Math.random() - 0.5;
+      return this.random() - 0.5;
     });
     
-    // Return top 4 performers
-    return performerStats.slice(0, 4).map(stat => stat.performer);
+    // Everyone not on stage sits this show out
+    return performerStats.slice(0, this.offCount()).map(stat => stat.performer);
   }
 
   private getConsecutiveShowCount(performer: string, showId: string): number {
@@ -493,9 +650,11 @@ export class SchedulingAlgorithm {
       .filter(index => index !== undefined)
       .sort((a, b) => a! - b!);
     
-    // Find longest consecutive sequence
-    let maxConsecutive = 1;
-    let currentConsecutive = 1;
+    // Find longest consecutive sequence (including any run carried in)
+    let currentConsecutive = 1 + (performerShowIndices.length > 0
+      ? this.carriedRunInto(performer, sortedShows[performerShowIndices[0]!].date)
+      : 0);
+    let maxConsecutive = currentConsecutive;
     
     for (let i = 1; i < performerShowIndices.length; i++) {
       const prevShow = sortedShows[performerShowIndices[i - 1]!];
@@ -555,8 +714,11 @@ export class SchedulingAlgorithm {
     return { warnings, performerDayOffCounts };
   }
 
-  // FIXED: Check if assigning performer to show would violate consecutive show rule (max 6, not 3)
+  // Whether assigning performer to show keeps their run within the profile's
+  // maxConsecutiveShows (6 by default)
   private canAssignPerformerToShow(performer: string, showId: string): boolean {
+    if (!this.enforces("CONSECUTIVE_EXCEEDED")) return true;
+    const max = this.limits.maxConsecutiveShows;
     const sortedShows = this.getSortedActiveShows();
     const showIndexMap = this.getShowIndexMap();
     
@@ -583,10 +745,14 @@ export class SchedulingAlgorithm {
     // Check consecutive shows with the new assignment
     const newIndices = [...performerShowIndices, targetIndex].filter(index => index !== undefined).sort((a, b) => a! - b!);
     
-    // Find the longest consecutive sequence
-    let maxConsecutive = 1;
-    let currentConsecutive = 1;
-    
+    // Find the longest consecutive sequence. The first run may continue one
+    // carried in from last week.
+    let currentConsecutive = 1 + this.carriedRunInto(performer, sortedShows[newIndices[0]!].date);
+    let maxConsecutive = currentConsecutive;
+    if (maxConsecutive > max) {
+      return false;
+    }
+
     for (let i = 1; i < newIndices.length; i++) {
       const prevShow = sortedShows[newIndices[i - 1]!];
       const currentShow = sortedShows[newIndices[i]!];
@@ -598,8 +764,7 @@ export class SchedulingAlgorithm {
         currentConsecutive = 1;
       }
       
-      // FIXED: Allow up to 6 consecutive shows (not 3)
-      if (maxConsecutive > 6) {
+      if (maxConsecutive > max) {
         return false;
       }
     }
@@ -609,6 +774,7 @@ export class SchedulingAlgorithm {
 
   // NEW: Check back-to-back double days rule (4 shows across 2 consecutive days)
   private wouldViolateBackToBackDoubleDays(performer: string, showId: string): boolean {
+    if (!this.enforces("BACK_TO_BACK_DOUBLES")) return false;
     const allShows = this.getSortedActiveShows();
     const targetShow = allShows.find(s => s.id === showId);
     if (!targetShow) return false;
@@ -647,8 +813,9 @@ export class SchedulingAlgorithm {
     return false;
   }
 
-  // Check if performer has exceeded weekly show limit
+  // Check if performer has reached the weekly show limit
   private hasExceededWeeklyLimit(performer: string): boolean {
+    if (!this.enforces("WEEKLY_LIMIT_EXCEEDED")) return false;
     const performerShows = new Set<string>();
     for (const [showId, showAssignment] of this.assignments) {
       for (const [role, assignedPerformer] of Object.entries(showAssignment)) {
@@ -658,7 +825,7 @@ export class SchedulingAlgorithm {
         }
       }
     }
-    return performerShows.size >= 6; // Maximum 6 shows per week
+    return performerShows.size >= this.limits.maxShowsPerWeek;
   }
 
   // Check if performer is already assigned to this show
@@ -683,14 +850,96 @@ export class SchedulingAlgorithm {
     return performerShows.size;
   }
 
-  // Whether a performer is female. Prefers the explicit CastMember.gender field;
-  // falls back to eligibility for a female-only role (Bin/Cornish are female-only
-  // by definition) for legacy records that predate the gender field.
-  private isFemalePerformer(performer: string): boolean {
+  // How many performers are OFF each show: the company minus the active roles.
+  private offCount(): number {
+    return Math.max(0, this.castMembers.length - this.roles.length);
+  }
+
+  // A performer's gender. Prefers the explicit CastMember.gender field; legacy
+  // records that predate it are taken as female when eligible for a role
+  // conventionally cast female (Bin/Cornish), else male.
+  private performerGender(performer: string): "male" | "female" | undefined {
     const castMember = this.castMembers.find(m => m.name === performer);
-    if (!castMember) return false;
-    if (castMember.gender) return castMember.gender === "female";
-    return castMember.eligibleRoles.some(r => FEMALE_ONLY_ROLES.includes(r));
+    if (!castMember) return undefined;
+    if (castMember.gender) return castMember.gender;
+    return castMember.eligibleRoles.some(r => this.preferredGender.get(r) === "female") ? "female" : "male";
+  }
+
+  // Whether generation must keep the performer off this date: they are
+  // unavailable, and the profile has that as an error.
+  private cannotWork(performer: string, date: string): boolean {
+    return this.enforces("PERFORMER_UNAVAILABLE") && this.unavailabilityOn(performer, date) !== undefined;
+  }
+
+  // The unavailability window covering this date for the performer, if any.
+  // Dates are zero-padded YYYY-MM-DD, so string comparison is date order.
+  private unavailabilityOn(performer: string, date: string): UnavailableWindow | undefined {
+    return this.unavailability.get(performer)?.find(w => w.startDate <= date && date <= w.endDate);
+  }
+
+  // Shows the performer's run already holds coming into this week, given the
+  // date of their first show in it. Only a run that ended on that date or the
+  // day before is still live — an earlier one was broken by a gap day.
+  private carriedRunInto(performer: string, firstDate: string): number {
+    const carry = this.carryOver.get(performer);
+    if (!carry?.runEndDate || carry.trailingRun === 0) return 0;
+    if (carry.runEndDate > firstDate || !areDatesConsecutive(carry.runEndDate, firstDate)) return 0;
+    return carry.trailingRun;
+  }
+
+  // Minutes off between a performer's show and their next one on a later day:
+  // from curtain down to the call, or from the end of a travel day in between,
+  // which is work, not rest. Null while either time is TBC.
+  private restBetween(from: Show, to: Show): number | null {
+    const travelDate = this.shows
+      .filter(s => s.status === "travel" && from.date < s.date && s.date < to.date)
+      .map(s => s.date)
+      .sort()
+      .pop();
+    if (travelDate) {
+      return restMinutesBetween({ date: addDays(travelDate, 1), time: "00:00", timeZone: to.timeZone }, to, 0);
+    }
+    return restMinutesBetween(from, to, this.limits.showMinutes);
+  }
+
+  // Whether casting a performer in `show`, on top of the shows they already
+  // play, leaves them the minimum rest before and after it. Shows on the same
+  // day are a double, not a rest (see RuleLimits.minRestMinutes).
+  private keepsMinimumRest(performerShows: Show[], show: Show): boolean {
+    if (!this.enforces("MINIMUM_REST")) return true;
+    const enough = (from: Show, to: Show) => {
+      const rest = this.restBetween(from, to);
+      return rest === null || rest >= this.limits.minRestMinutes;
+    };
+    const before = performerShows.filter(s => s.date < show.date).sort(compareShows).pop();
+    const after = performerShows.filter(s => s.date > show.date).sort(compareShows)[0];
+    return (!before || enough(before, show)) && (!after || enough(show, after));
+  }
+
+  // The shows a performer is currently cast in (stage roles only).
+  private castShowsOf(performer: string): Show[] {
+    return this.getSortedActiveShows().filter(show =>
+      Object.values(this.assignments.get(show.id) ?? {}).includes(performer)
+    );
+  }
+
+  // Whether resting on `date` keeps the performer's RED days within
+  // maxDaysBetweenRedDays of the one they had last week.
+  private keepsRedDaySpacing(performer: string, date: string): boolean {
+    const last = this.carryOver.get(performer)?.lastRedDate;
+    if (!last || ruleSeverity(this.rules, "RED_DAY_SPACING") === "off") return true;
+    return dayDiff(last, date) <= this.limits.maxDaysBetweenRedDays;
+  }
+
+  // Stage shows the performer played in the tour's earlier weeks.
+  private tourShowCount(performer: string): number {
+    return this.tourBalance.showCounts[performer] ?? 0;
+  }
+
+  // How many of the performer's earlier RED days fell on this date's weekday.
+  private priorRedDaysOnWeekday(performer: string, date: string): number {
+    const weekday = new Date(`${date}T12:00:00Z`).getUTCDay();
+    return this.tourBalance.redWeekdays[performer]?.[weekday] ?? 0;
   }
 
   // Check if performer is eligible for role (including gender constraints)
@@ -701,8 +950,11 @@ export class SchedulingAlgorithm {
     // Check if performer can do this role
     if (!castMember.eligibleRoles.includes(role)) return false;
 
-    // Female-only roles require a female performer.
-    if (FEMALE_ONLY_ROLES.includes(role) && !this.isFemalePerformer(performer)) {
+    // A role with a casting convention is only auto-cast to that gender,
+    // unless the profile has switched the convention off. Unlike the other
+    // rules it holds even at its usual warning severity.
+    const preferred = this.preferredGender.get(role);
+    if (preferred && ruleSeverity(this.rules, "GENDER_VIOLATION") !== "off" && this.performerGender(performer) !== preferred) {
       return false;
     }
 
@@ -717,14 +969,28 @@ export class SchedulingAlgorithm {
     return items.some(item => item.severity === "error" && CRITICAL_RULE_CODES.has(item.code));
   }
 
+  // Whether generation has to work around a rule: only while the profile has
+  // it reporting as an error (see RuleSettings).
+  private enforces(code: RuleCode): boolean {
+    return ruleSeverity(this.rules, code) === "error";
+  }
+
   public async autoGenerate(): Promise<AutoGenerateResult> {
+    const result = await this.castWeek();
+    if (result.assignments.length === 0) return result;
+    const bySolver = result.solver?.status === "optimal" || result.solver?.status === "feasible";
+    return { ...result, explanations: this.explainCasting(result.assignments, bySolver) };
+  }
+
+  private async castWeek(): Promise<AutoGenerateResult> {
+    this.random = seededRandom(this.seed);
     try {
       this.clearCaches();
 
       // An empty week has nothing to cast: succeed with no assignments instead
       // of burning 100 attempts and failing on RED-day coverage no day can hold.
       if (this.shows.length === 0) {
-        return { success: true, assignments: [] };
+        return { success: true, assignments: [], seed: this.seed };
       }
 
       // If no cast members provided, fetch from company system
@@ -745,6 +1011,18 @@ export class SchedulingAlgorithm {
       // Clear existing assignments
       this.clearAllAssignments();
 
+      // The exact solver settles most weeks outright: the fairest valid cast,
+      // or a proof that there is none, whose blocking rules then head the
+      // partial result's errors. The restarts below are for the weeks it
+      // can't settle within its budget, or when asked for by name.
+      let exactReport: AutoGenerateResult["solver"];
+      if (this.solverMethod === "exact") {
+        const exact = this.solveExactly();
+        if (exact.result) return exact.result;
+        exactReport = exact.report;
+      }
+      const attempts = exactReport?.status === "infeasible" ? 0 : 100;
+
       // The closest critically-clean attempt seen so far when none manages to
       // seat every individual RED day — fewest RED-day warnings wins. A week
       // that structurally can't seat all 12 (e.g. too few show dates) should
@@ -754,7 +1032,7 @@ export class SchedulingAlgorithm {
       let bestAttempt: { assignments: Assignment[]; warnings: string[]; redDayWarningCount: number; dayOffStats: Record<string, number> } | null = null;
 
       // Try multiple attempts to find a valid assignment with corrected constraints
-      for (let attempt = 0; attempt < 100; attempt++) {
+      for (let attempt = 0; attempt < attempts; attempt++) {
         this.clearAllAssignments();
 
         if (this.generateScheduleAttempt()) {
@@ -808,7 +1086,9 @@ export class SchedulingAlgorithm {
               warnings: [...this.lastRedDayWarnings, ...fallbackWarnings, ...warnings],
               dayOffStats: performerDayOffCounts,
               generationId: Date.now().toString(36) + Math.random().toString(36).substring(2),
-              generatedAt: new Date().toISOString()
+              generatedAt: new Date().toISOString(),
+              seed: this.seed,
+              solver: exactReport
             };
           }
         }
@@ -821,7 +1101,9 @@ export class SchedulingAlgorithm {
           warnings: bestAttempt.warnings,
           dayOffStats: bestAttempt.dayOffStats,
           generationId: Date.now().toString(36) + Math.random().toString(36).substring(2),
-          generatedAt: new Date().toISOString()
+          generatedAt: new Date().toISOString(),
+          seed: this.seed,
+          solver: exactReport
         };
       }
 
@@ -843,25 +1125,179 @@ export class SchedulingAlgorithm {
         return {
           success: true,
           assignments: finalAssignments,
-          errors: [...(partialResult.errors ?? []), ...postValidation.errors],
+          errors: [
+            ...(exactReport?.blocking?.map(b => b.message) ?? []),
+            ...(partialResult.errors ?? []),
+            ...postValidation.errors
+          ],
           warnings: [...this.lastRedDayWarnings, ...warnings],
           dayOffStats: performerDayOffCounts,
           generationId: Date.now().toString(36) + Math.random().toString(36).substring(2),
-          generatedAt: new Date().toISOString()
+          generatedAt: new Date().toISOString(),
+          seed: this.seed,
+          solver: exactReport
         };
       }
 
-      return partialResult;
+      return { ...partialResult, seed: this.seed, solver: exactReport };
 
     } catch (error) {
       return {
         success: false,
         assignments: [],
-        errors: [`Algorithm error: ${error instanceof Error ? error.message : String(error)}`]
+        errors: [`Algorithm error: ${error instanceof Error ? error.message : String(error)}`],
+        seed: this.seed
       };
     }
   }
 
+  // Casts the week with the exact solver (solver.ts). Returns the result when
+  // it found a valid cast, and how the search ended either way, naming the
+  // rules in the way when it proved there is no valid cast.
+  private solveExactly(): { result?: AutoGenerateResult; report: NonNullable<AutoGenerateResult["solver"]> } {
+    const model = this.castingModel();
+    const options = {
+      random: this.random,
+      // The solver's pruning is sound but can't see everything (a TBC time
+      // between two shows, say), so each cast it settles on is validated.
+      verify: (picks: number[]) => !this.hasCriticalErrors(this.validateSchedule(this.castFromPicks(model, picks)).items)
+    };
+
+    let solved = solveCasting(model, options);
+    let nodes = solved.nodes;
+    let blocking: BlockingConstraint[] | undefined;
+    if (solved.status === "infeasible") {
+      blocking = blockingConstraints(model, options);
+      // A RED day for everyone is the one rule a week still ships without:
+      // cast it with as few going without as possible, each one warned about,
+      // as the restarts always have.
+      if (model.rules.redDays === "required" && blocking.some(b => b.code === "RED_DAY_MISSING")) {
+        solved = solveCasting({ ...model, rules: { ...model.rules, redDays: "preferred" } }, options);
+        nodes += solved.nodes;
+      }
+    }
+
+    const report = { status: solved.status, nodes, blocking };
+    if (!solved.picks) return { report };
+
+    const assignments = this.assignRedDays(this.castFromPicks(model, solved.picks));
+    // RED days come from the free dates the solver left everyone, so nothing
+    // is vacated; should that ever not hold, the restarts take over.
+    if (this.hasCriticalErrors(this.validateSchedule(assignments).items)) {
+      return { report: { ...report, status: "unknown" } };
+    }
+
+    const { warnings, performerDayOffCounts } = this.validateDayOffFairness(assignments);
+    return {
+      report,
+      result: {
+        success: true,
+        assignments,
+        warnings: [...this.lastRedDayWarnings, ...warnings],
+        dayOffStats: performerDayOffCounts,
+        generationId: Date.now().toString(36) + Math.random().toString(36).substring(2),
+        generatedAt: new Date().toISOString(),
+        seed: this.seed,
+        solver: report
+      }
+    };
+  }
+
+  // The week as the solver sees it: every open or locked stage slot with the
+  // performers eligible for it, and the rules generation holds the cast to.
+  private castingModel(): CastingModel {
+    const shows = this.getSortedActiveShows();
+    const dates = [...new Set(shows.map(s => s.date))].sort();
+    const dateIndex = new Map(dates.map((date, i) => [date, i]));
+    const names = this.castMembers.map(m => m.name);
+    const performerIndex = new Map(names.map((name, i) => [name, i]));
+
+    const slots: CastingModel["slots"] = [];
+    shows.forEach((show, showIndex) => {
+      for (const role of this.roles) {
+        const locked = this.lockedCells.has(`${show.id}:${role}`) ? this.assignments.get(show.id)?.[role] : undefined;
+        // A pick of someone no longer in the company stays as it is, outside
+        // the search.
+        if (locked && !performerIndex.has(locked)) continue;
+        const preferred = this.preferredGender.get(role);
+        slots.push({
+          show: showIndex,
+          role,
+          candidates: this.castMembers.flatMap((m, performer) =>
+            m.eligibleRoles.includes(role)
+              ? [{ performer, genderBlocked: preferred !== undefined && this.performerGender(m.name) !== preferred }]
+              : []
+          ),
+          fixed: locked ? performerIndex.get(locked) : undefined,
+          avoided: this.avoidedPicks.size > 0
+            ? names.map(name => this.avoidedPicks.get(`${show.id}:${role}:${name}`) ?? 0)
+            : undefined
+        });
+      }
+    });
+
+    // Two shows conflict on rest when the gap between them is short and no
+    // show with a TBC time could come between them for the performer.
+    const restConflicts: number[][] = shows.map(() => []);
+    shows.forEach((from, i) => {
+      shows.forEach((to, j) => {
+        if (from.date >= to.date) return;
+        const rest = this.restBetween(from, to);
+        if (rest === null || rest >= this.limits.minRestMinutes) return;
+        const tbcBetween = shows.some((s, k) => k !== i && k !== j && !isKnownTime(s.time) && from.date <= s.date && s.date <= to.date);
+        if (tbcBetween) return;
+        restConflicts[i].push(j);
+        restConflicts[j].push(i);
+      });
+    });
+
+    const redSeverity = ruleSeverity(this.rules, "RED_DAY_MISSING");
+    const rules: SolverRules = {
+      maxConsecutiveShows: this.enforces("CONSECUTIVE_EXCEEDED") ? this.limits.maxConsecutiveShows : null,
+      maxShowsPerWeek: this.enforces("WEEKLY_LIMIT_EXCEEDED") ? this.limits.maxShowsPerWeek : null,
+      backToBackDoubles: this.enforces("BACK_TO_BACK_DOUBLES"),
+      minimumRest: this.enforces("MINIMUM_REST"),
+      unavailability: this.enforces("PERFORMER_UNAVAILABLE"),
+      // Held even at its usual warning severity (see isPerformerEligibleForRole).
+      genderConvention: ruleSeverity(this.rules, "GENDER_VIOLATION") !== "off",
+      redDays: this.detectCompanyRedDate() || redSeverity === "off" ? "none" : redSeverity === "error" ? "required" : "preferred"
+    };
+
+    return {
+      dates,
+      nextAdjacent: dates.map((date, i) => i + 1 < dates.length && areDatesConsecutive(date, dates[i + 1])),
+      shows: shows.map(s => ({ id: s.id, date: dateIndex.get(s.date)!, label: formatShowDate(s.date, s.time) })),
+      slots,
+      performers: names.map(name => {
+        const lockedRed = this.castingRedDateFor(name);
+        // Dates that keep the RED-day spacing, when any do; assignRedDays
+        // prefers those.
+        const spaced = dates.flatMap((date, i) => (this.keepsRedDaySpacing(name, date) ? [i] : []));
+        return {
+          name,
+          tourShows: this.tourShowCount(name),
+          unavailable: dates.flatMap((date, i) => (this.unavailabilityOn(name, date) ? [i] : [])),
+          lockedRedDate: lockedRed !== undefined ? dateIndex.get(lockedRed) : undefined,
+          redDates: spaced.length > 0 ? spaced : dates.map((_, i) => i),
+          carriedRun: dates.map(date => this.carriedRunInto(name, date))
+        };
+      }),
+      restConflicts,
+      rules,
+      limits: { maxConsecutiveShows: this.limits.maxConsecutiveShows, maxShowsPerWeek: this.limits.maxShowsPerWeek }
+    };
+  }
+
+  // Puts a cast from the solver on the grid (keeping any pick it left out)
+  // and returns its stage assignments.
+  private castFromPicks(model: CastingModel, picks: number[]): Assignment[] {
+    this.clearAllAssignments();
+    model.slots.forEach((slot, i) => {
+      this.assignments.get(model.shows[slot.show].id)![slot.role] = model.performers[picks[i]].name;
+    });
+    return this.convertToAssignments();
+  }
+
   private generateScheduleAttempt(): boolean {
     const sortedShows = this.getSortedActiveShows();
     this.fairnessFallbackCount = 0; // reset per attempt
@@ -936,61 +1372,160 @@ export class SchedulingAlgorithm {
   // Helper methods for the new assignRolesForShow structure
 
   private getEligiblePerformers(role: Role, showId: string): CastMember[] {
+    return this.castMembers.filter(member => this.castingRejection(member.name, role, showId) === null);
+  }
+
+  // The first check that keeps a performer out of an open slot, in the order
+  // generation makes them, or null when they can be cast there.
+  private castingRejection(performer: string, role: Role, showId: string): { check: CastingCheck; detail: string } | null {
+    const member = this.castMembers.find(m => m.name === performer);
+    if (!member || !member.eligibleRoles.includes(role)) {
+      return { check: "role", detail: `doesn't play ${role}` };
+    }
     const show = this.shows.find(s => s.id === showId);
-    return this.castMembers
-      .filter(member => member.eligibleRoles.includes(role))
-      .filter(member => {
-        // CHECK 0: Don't staff a performer onto an empty slot on their manually
-        // locked RED date — otherwise the final OFF-marker loop emits no RED for
-        // them and post-validation fails, destroying the user's picks. No-op
-        // when lockedRedDates is empty, and bypassed entirely under a company
-        // RED day, where the pick is dormant (see castingRedDateFor).
-        if (show && this.castingRedDateFor(member.name) === show.date) {
-          return false;
-        }
 
-        // CHECK 1: Not already assigned to this show
-        if (this.isPerformerAssignedToShow(member.name, showId)) {
-          return false;
-        }
-        
-        // CHECK 2: Won't create consecutive show violation (max 6)
-        if (!this.canAssignPerformerToShow(member.name, showId)) {
-          return false;
-        }
+    // CHECK 0: Don't staff a performer onto an empty slot on their manually
+    // locked RED date — otherwise the final OFF-marker loop emits no RED for
+    // them and post-validation fails, destroying the user's picks. No-op
+    // when lockedRedDates is empty, and bypassed entirely under a company
+    // RED day, where the pick is dormant (see castingRedDateFor).
+    if (show && this.castingRedDateFor(performer) === show.date) {
+      return { check: "red_date", detail: "RED day on this date" };
+    }
 
-        // CHECK 3: Won't create back-to-back double days violation
-        // (This governs weekend fatigue; there is no standalone Fri-Sun cap.)
-        if (this.wouldViolateBackToBackDoubleDays(member.name, showId)) {
-          return false;
-        }
+    // CHECK 0b: Never cast a performer on a date they cannot work. Unlike
+    // the fatigue checks below this is not a preference — they are simply
+    // not there.
+    if (show && this.cannotWork(performer, show.date)) {
+      return { check: "unavailable", detail: "unavailable on this date" };
+    }
 
-        // CHECK 4: Haven't exceeded weekly limit (max 6 shows)
-        if (this.hasExceededWeeklyLimit(member.name)) {
-          return false;
-        }
+    // CHECK 1: Not already assigned to this show
+    if (this.isPerformerAssignedToShow(performer, showId)) {
+      return { check: "same_show", detail: "already in this show" };
+    }
 
-        // CHECK 5: Gender constraints for female-only roles
-        if (!this.isPerformerEligibleForRole(member.name, role)) {
-          return false;
+    // CHECK 2: Won't create consecutive show violation
+    if (!this.canAssignPerformerToShow(performer, showId)) {
+      return { check: "consecutive", detail: `would play more than ${this.limits.maxConsecutiveShows} shows in a row` };
+    }
+
+    // CHECK 3: Won't create back-to-back double days violation
+    // (This governs weekend fatigue; there is no standalone Fri-Sun cap.)
+    if (this.wouldViolateBackToBackDoubleDays(performer, showId)) {
+      return { check: "back_to_back_doubles", detail: "would play doubles two days running" };
+    }
+
+    // CHECK 4: Haven't reached the weekly limit
+    if (this.hasExceededWeeklyLimit(performer)) {
+      return { check: "weekly_limit", detail: `already ${this.limits.maxShowsPerWeek} shows this week` };
+    }
+
+    // CHECK 5: Gender constraints for female-only roles
+    if (!this.isPerformerEligibleForRole(performer, role)) {
+      return { check: "gender", detail: `${role} is cast ${this.preferredGender.get(role)} by convention` };
+    }
+
+    // CHECK 6: Enough time off on the clock since their last show, and
+    // before their next
+    if (show && !this.keepsMinimumRest(this.castShowsOf(performer), show)) {
+      return { check: "minimum_rest", detail: `less than ${formatRest(this.limits.minRestMinutes)} off between shows` };
+    }
+
+    return null;
+  }
+
+  // Why each stage slot of a generated week holds who it does, or is empty:
+  // everyone in the company run through castingRejection against the rest of
+  // the week as cast, as if the slot were open. bySolver: the cast came from
+  // the exact solver rather than the restarts.
+  private explainCasting(assignments: Assignment[], bySolver: boolean): SlotExplanation[] {
+    this.clearAllAssignments();
+    for (const a of assignments) {
+      const showAssignment = this.assignments.get(a.showId);
+      if (showAssignment && a.role !== "OFF" && a.performer) showAssignment[a.role] = a.performer;
+    }
+
+    return this.getSortedActiveShows().flatMap(show => this.roles.map(role => {
+      const showAssignment = this.assignments.get(show.id)!;
+      const performer = showAssignment[role] || undefined;
+      const locked = !!performer && this.lockedCells.has(`${show.id}:${role}`);
+
+      showAssignment[role] = "";
+      const candidates: CandidateTrace[] = this.castMembers.map(m => {
+        const shows = this.getCurrentShowCount(m.name);
+        if (m.name !== performer && locked) {
+          return { performer: m.name, rejectedBy: "locked", detail: `${performer} is locked here`, shows };
         }
-        
-        return true;
+        const rejection = this.castingRejection(m.name, role, show.id);
+        if (m.name === performer) {
+          // A locked pick, or one the restarts' partial casting made, may
+          // break a rule; the cast performer is never "ruled out".
+          const detail = locked ? "locked on the grid" : "cast";
+          return { performer: m.name, detail: rejection ? `${detail}, though ${rejection.detail}` : detail, shows };
+        }
+        return { performer: m.name, rejectedBy: rejection?.check, detail: rejection?.detail ?? "could play it", shows };
       });
+      showAssignment[role] = performer ?? "";
+
+      const order = (c: CandidateTrace) => (c.performer === performer ? -1 : c.rejectedBy ? CASTING_CHECKS.indexOf(c.rejectedBy) + 1 : 0);
+      candidates.sort((a, b) => order(a) - order(b) || a.shows - b.shows || a.performer.localeCompare(b.performer));
+
+      return {
+        showId: show.id,
+        role,
+        performer,
+        reason: this.explainPick(performer, locked, candidates, bySolver),
+        candidates
+      };
+    }));
+  }
+
+  // The reason line of a slot's explanation (see explainCasting).
+  private explainPick(performer: string | undefined, locked: boolean, candidates: CandidateTrace[], bySolver: boolean): string {
+    if (locked) return `${performer} was locked here before generating`;
+    const others = candidates.filter(c => c.performer !== performer && !c.rejectedBy);
+
+    if (!performer) {
+      if (others.length > 0) {
+        return `Left empty, though ${others.map(c => c.performer).join(", ")} could play it with the week as it stands`;
+      }
+      const ruledOut = new Map<CastingCheck, number>();
+      for (const c of candidates) ruledOut.set(c.rejectedBy!, (ruledOut.get(c.rejectedBy!) ?? 0) + 1);
+      const why = CASTING_CHECKS.filter(check => ruledOut.has(check)).map(check => `${ruledOut.get(check)} ${RULED_OUT_BY[check]}`);
+      return `Nobody could play it: ${why.join(", ")}`;
+    }
+
+    if (others.length === 0) return `${performer} was the only one who could play it`;
+    const load = (c: CandidateTrace) => c.shows + this.tourShowCount(c.performer);
+    const mine = load(candidates[0]);
+    const theirs = others.map(load);
+    const range = Math.min(...theirs) === Math.max(...theirs) ? `${Math.min(...theirs)}` : `${Math.min(...theirs)}–${Math.max(...theirs)}`;
+    const when = this.tourBalance.showCounts[performer] !== undefined ? "this tour" : "this week";
+    const rivals = others.length === 1 ? `the other who could play it has ${range}` : `the ${others.length} others who could play it have ${range}`;
+    const how = bySolver
+      ? "Picked as part of the most even cast of the whole week."
+      : "Picked as the least played, near-ties broken at random.";
+    return `${performer} has ${mine} other ${mine === 1 ? "show" : "shows"} ${when}; ${rivals}. ${how}`;
   }
 
   private selectBestPerformer(eligiblePerformers: CastMember[], showId: string, role: Role): string | null {
     if (eligiblePerformers.length === 0) return null;
     
     const sortedPerformers = eligiblePerformers.sort((a, b) => {
-      // Prioritize by show count (balance workload) with randomization
-      const aCount = this.getCurrentShowCount(a.name);
-      const bCount = this.getCurrentShowCount(b.name);
+      // Prioritize by show count (balance workload, tour-wide when generating
+      // a tour) with randomization
+      const aCount = this.getCurrentShowCount(a.name) + this.tourShowCount(a.name);
+      const bCount = this.getCurrentShowCount(b.name) + this.tourShowCount(b.name);
       const countDiff = aCount - bCount;
       
-      // If counts are close, add randomization
+      // If counts are close, prefer someone earlier candidates didn't cast
+      // here, then randomize
       if (Math.abs(countDiff) <= 1) {
-        return Math.random() - 0.5; // Keep simple randomization for small tie-breaking
+        const avoidDiff = (this.avoidedPicks.get(`${showId}:${role}:${a.name}`) ?? 0)
+          - (this.avoidedPicks.get(`${showId}:${role}:${b.name}`) ?? 0);
+        if (avoidDiff !== 0) return avoidDiff;
+        return this.random() - 0.5; // Keep simple randomization for small tie-breaking
       }
       
       return countDiff;
@@ -1000,7 +1535,7 @@ export class SchedulingAlgorithm {
   }
 
   private selectOffMembersOld(showId: string): string[] {
-    // Fallback logic: simple selection of 4 people not assigned to this show
+    // Fallback logic: simple random selection of the people not assigned to this show
     const assignedToShow = new Set<string>();
     const showAssignment = this.assignments.get(showId);
     if (showAssignment) {
@@ -1012,9 +1547,9 @@ export class SchedulingAlgorithm {
     const availableForOff = this.castMembers
       .map(m => m.name)
       .filter(name => !assignedToShow.has(name))
-      .sort(() => Math.random() - 0.5); // Random selection
+      .sort(() => this.random() - 0.5); // Random selection
     
-    return availableForOff.slice(0, 4);
+    return availableForOff.slice(0, this.offCount());
   }
 
   private generatePartialSchedule(): AutoGenerateResult {
@@ -1038,6 +1573,12 @@ export class SchedulingAlgorithm {
               return false;
             }
 
+            // Unavailability is never relaxed, even here: the performer
+            // isn't there to cast.
+            if (this.cannotWork(member.name, show.date)) {
+              return false;
+            }
+
             // Be more lenient in partial schedule generation
             if (this.isPerformerAssignedToShow(member.name, show.id)) {
               return false;
@@ -1058,14 +1599,14 @@ export class SchedulingAlgorithm {
           
           if (availableCast.length > 0) {
             const sortedCast = availableCast.sort((a, b) => {
-              const aCount = this.getCurrentShowCount(a.name);
-              const bCount = this.getCurrentShowCount(b.name);
+              const aCount = this.getCurrentShowCount(a.name) + this.tourShowCount(a.name);
+              const bCount = this.getCurrentShowCount(b.name) + this.tourShowCount(b.name);
               return aCount - bCount;
             });
             
             showAssignment[role] = sortedCast[0].name;
           } else {
-            errors.push(`Could not assign ${role} for show on ${this.formatDateForValidation(show.date, show.time)} - no available performers`);
+            errors.push(`Could not assign ${role} for show on ${formatShowDate(show.date, show.time)} - no available performers`);
           }
         }
       }
@@ -1099,7 +1640,9 @@ export class SchedulingAlgorithm {
     const allPerformers = this.castMembers.map(m => m.name);
 
     // If a day off is nominated as the company RED day, handle it differently.
-    if (companyRedDate) {
+    // With the RED-day policy off in the rule profile nobody is owed one, so
+    // the OFF rows are rebuilt the same way, with only hand-picked RED days.
+    if (companyRedDate || ruleSeverity(this.rules, "RED_DAY_MISSING") === "off") {
       // The company RED day IS every performer's RED day. That is DERIVED at
       // read time from Show.isCompanyRedDay, so nothing is written for it here.
       //
@@ -1191,13 +1734,28 @@ export class SchedulingAlgorithm {
       if (naturalDaysOff.length > 0) {
         // Per §0 rule 6 the real preference is single-show days (Tue-Fri),
         // so order by fewest shows first, then weekday as a tiebreak.
+        // A date that keeps them within maxDaysBetweenRedDays of last
+        // week's RED day beats everything else.
         const sortedDaysOff = naturalDaysOff.sort((a, b) => {
+          const spacedA = this.keepsRedDaySpacing(performer, a);
+          const spacedB = this.keepsRedDaySpacing(performer, b);
+          if (spacedA !== spacedB) {
+            return spacedA ? -1 : 1;
+          }
+
           const showsOnA = showsByDate[a]?.length || 99;
           const showsOnB = showsByDate[b]?.length || 99;
           if (showsOnA !== showsOnB) {
             return showsOnA - showsOnB;
           }
 
+          // Across a tour, rotate RED days through the weekdays.
+          const priorA = this.priorRedDaysOnWeekday(performer, a);
+          const priorB = this.priorRedDaysOnWeekday(performer, b);
+          if (priorA !== priorB) {
+            return priorA - priorB;
+          }
+
           // Then prefer weekdays over weekends
           const aIsWeekend = this.isWeekend(a);
           const bIsWeekend = this.isWeekend(b);
@@ -1207,14 +1765,18 @@ export class SchedulingAlgorithm {
           return 0;
         });
         
-        performerRedDays[performer] = sortedDaysOff[0];
+        // When none of them keeps the spacing, leave the performer to the
+        // forced pass below, which can clear an earlier date that does.
+        if (this.keepsRedDaySpacing(performer, sortedDaysOff[0]) || !availableDates.some(d => this.keepsRedDaySpacing(performer, d))) {
+          performerRedDays[performer] = sortedDaysOff[0];
+        }
       }
     }
     
     // For performers without natural days off, create forced RED days.
     // Removing a performer from every show on a date vacates the stage roles
     // they held, so each vacated (show, role) must be REFILLED by a
-    // constraint-clean substitute — otherwise the show ships with < 8 on stage.
+    // constraint-clean substitute — otherwise the show ships short on stage.
     // Pin manually locked RED days: they override the natural pick, exclude the
     // performer from the force-vacate pass below (they already have a RED day),
     // and findRefillCandidate refuses to sub them onto their own RED date.
@@ -1231,7 +1793,7 @@ export class SchedulingAlgorithm {
     for (const performer of performersWithoutRedDays) {
       // Rank candidate dates by preference: single-show days first (§0 rule 6),
       // then avoid back-to-back double days, then a small weekday tiebreak.
-      const rankedDates = [...availableDates].sort((a, b) => this.scoreRedDate(b, showsByDate) - this.scoreRedDate(a, showsByDate));
+      const rankedDates = [...availableDates].sort((a, b) => this.scoreRedDate(b, showsByDate, performer) - this.scoreRedDate(a, showsByDate, performer));
 
       // Performers who still need their own free day must not be pulled onto
       // stage to cover this vacancy (it could erase their only day off).
@@ -1275,6 +1837,12 @@ export class SchedulingAlgorithm {
           finalAssignments.push(...trial);
           performerRedDays[performer] = date;
           placed = true;
+          // Every date that keeps the spacing was infeasible this attempt.
+          // Count it like an unseated RED day so autoGenerate keeps retrying
+          // for an attempt that does keep it.
+          if (!this.keepsRedDaySpacing(performer, date) && availableDates.some(d => this.keepsRedDaySpacing(performer, d))) {
+            this.lastRedDayWarnings.push(`RED day for ${performer} is more than ${this.limits.maxDaysBetweenRedDays} days after last week's`);
+          }
           break;
         }
       }
@@ -1308,23 +1876,31 @@ export class SchedulingAlgorithm {
     return finalAssignments;
   }
 
-  // RED-day date preference (higher = better). Single-show days dominate
-  // (§0 rule 6), then avoid back-to-back double days, then a small weekday
-  // tiebreak.
-  private scoreRedDate(date: string, showsByDate: Record<string, Show[]>): number {
+  // RED-day date preference (higher = better). Keeping the performer within
+  // maxDaysBetweenRedDays of last week's RED day dominates, then
+  // single-show days (§0 rule 6), then avoid back-to-back double days, then a
+  // small weekday tiebreak that also steers away from weekdays the performer
+  // has already rested on earlier in the tour, and from dates earlier
+  // candidates gave them.
+  private scoreRedDate(date: string, showsByDate: Record<string, Show[]>, performer: string): number {
     const showsOnDate = showsByDate[date]?.length ?? 0;
     let score = (2 - showsOnDate) * 10; // 1-show day (=10) >> 2-show day (=0)
+    if (!this.keepsRedDaySpacing(performer, date)) score -= 30;
     if (!this.isBackToBackDoubleDay(date)) score += 5;
     if (!this.isWeekend(date)) score += 3;
+    score -= Math.min(4, this.priorRedDaysOnWeekday(performer, date));
+    // A date earlier candidates already rested them on (options.avoid).
+    score -= Math.min(4, 2 * (this.avoidedRedDates.get(`${performer}:${date}`) ?? 0));
     return score;
   }
 
   // Find a substitute to fill a stage (show, role) vacated by a forced RED day.
   // Pure over `current` (does not touch this.assignments): the candidate must be
   // role/gender eligible, not already on stage in the show, not on their own RED
-  // day, not a performer who still needs their own free day, and must stay within
-  // the consecutive (<=6), back-to-back-double, and weekly (<=6) limits. Picks the
-  // eligible performer with the fewest shows so far (balance).
+  // day, not unavailable on the date, not a performer who still needs their own
+  // free day, and must stay within the profile's consecutive, back-to-back-
+  // double, weekly and minimum-rest limits. Picks the eligible performer with the fewest shows
+  // so far, tour-wide when generating a tour (balance).
   private findRefillCandidate(
     current: Assignment[],
     show: Show,
@@ -1358,6 +1934,7 @@ export class SchedulingAlgorithm {
       if (onStageInShow.has(name)) continue;
       if (performerRedDays[name] === show.date) continue;
       if (stillNeedsRedDay.has(name)) continue;
+      if (this.cannotWork(name, show.date)) continue;
       if (!this.isPerformerEligibleForRole(name, role)) continue;
 
       // Hypothetical schedule with this performer added to the show.
@@ -1365,11 +1942,16 @@ export class SchedulingAlgorithm {
       dates[show.date] = (dates[show.date] || 0) + 1;
 
       const total = Object.values(dates).reduce((sum, n) => sum + n, 0);
-      if (total > 6) continue; // weekly cap
-      if (this.maxConsecutiveFromDateCounts(dates) > 6) continue;
-      if (this.hasBackToBackDoublesFromDateCounts(dates)) continue;
+      if (this.enforces("WEEKLY_LIMIT_EXCEEDED") && total > this.limits.maxShowsPerWeek) continue;
+      if (this.enforces("CONSECUTIVE_EXCEEDED") && this.maxConsecutiveFromDateCounts(dates, name) > this.limits.maxConsecutiveShows) continue;
+      if (this.enforces("BACK_TO_BACK_DOUBLES") && this.hasBackToBackDoublesFromDateCounts(dates)) continue;
+      const castShows = current
+        .filter(a => a.performer === name && a.role !== 'OFF')
+        .map(a => this.shows.find(s => s.id === a.showId && s.status === 'show'))
+        .filter((s): s is Show => s !== undefined);
+      if (!this.keepsMinimumRest(castShows, show)) continue;
 
-      candidates.push({ name, showCount: total - 1 });
+      candidates.push({ name, showCount: total - 1 + this.tourShowCount(name) });
     }
 
     if (candidates.length === 0) return null;
@@ -1379,7 +1961,9 @@ export class SchedulingAlgorithm {
 
   // Longest consecutive run given a performer's shows-per-date map. Same-date
   // shows (a double) add their count; a gap day resets the run. §0 rule 2.
-  private maxConsecutiveFromDateCounts(dateCounts: Record<string, number>): number {
+  // With a performer, their first run also counts any run carried in from last
+  // week.
+  private maxConsecutiveFromDateCounts(dateCounts: Record<string, number>, performer?: string): number {
     const dates = Object.keys(dateCounts).sort();
     let max = 0;
     let run = 0;
@@ -1387,6 +1971,8 @@ export class SchedulingAlgorithm {
     for (const date of dates) {
       if (prev && areDatesConsecutive(prev, date)) {
         run += dateCounts[date];
+      } else if (prev === null && performer) {
+        run = this.carriedRunInto(performer, date) + dateCounts[date];
       } else {
         run = dateCounts[date];
       }
@@ -1460,8 +2046,7 @@ export class SchedulingAlgorithm {
   }
 
   private getRolesByDifficulty(): Role[] {
-    const roles: Role[] = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
-    return [...roles].sort((a, b) => {
+    return [...this.roles].sort((a, b) => {
       const aEligible = this.castMembers.filter(member => member.eligibleRoles.includes(a)).length;
       const bEligible = this.castMembers.filter(member => member.eligibleRoles.includes(b)).length;
       return aEligible - bEligible;
@@ -1500,119 +2085,6 @@ export class SchedulingAlgorithm {
     return assignments;
   }
 
-  // Optimized consecutive show analysis for validation
-  private analyzeConsecutiveShows(assignments: Assignment[]): Map<string, PerformerShowData> {
-    if (this._performerShowCache !== null && this._performerShowCacheKey === assignments) {
-      return this._performerShowCache;
-    }
-
-    const sortedShows = this.getSortedActiveShows();
-    const showIndexMap = this.getShowIndexMap();
-    const performerData = new Map<string, PerformerShowData>();
-
-    // Initialize data for all cast members
-    for (const member of this.castMembers) {
-      performerData.set(member.name, {
-        showIndexes: new Set<number>(),
-        sortedShows: [],
-        maxConsecutive: 0,
-        sequences: []
-      });
-    }
-
-    // Build performer show indexes efficiently (only for show roles, not OFF)
-    for (const assignment of assignments) {
-      if (assignment.role !== "OFF") {
-        const showIndex = showIndexMap.get(assignment.showId);
-        if (showIndex !== undefined) {
-          const data = performerData.get(assignment.performer);
-          if (data) {
-            data.showIndexes.add(showIndex);
-          }
-        }
-      }
-    }
-
-    // Analyze consecutive sequences for each performer
-    for (const [performerName, data] of performerData) {
-      if (data.showIndexes.size === 0) continue;
-
-      // Convert to sorted array of indexes
-      const sortedIndexes = Array.from(data.showIndexes).sort((a, b) => a - b);
-      
-      // Build show data
-      data.sortedShows = sortedIndexes.map(index => ({
-        show: sortedShows[index],
-        index
-      }));
-
-      // Find consecutive sequences using optimized algorithm
-      this.findConsecutiveSequences(data, sortedShows);
-    }
-
-    this._performerShowCache = performerData;
-    this._performerShowCacheKey = assignments;
-    return performerData;
-  }
-
-  // Optimized consecutive sequence detection
-  private findConsecutiveSequences(data: PerformerShowData, sortedShows: Show[]): void {
-    const sortedIndexes = Array.from(data.showIndexes).sort((a, b) => a - b);
-    if (sortedIndexes.length === 0) return;
-
-    const sequences: ConsecutiveSequence[] = [];
-    let currentSequenceStart = 0;
-    let maxConsecutive = 1;
-
-    // Single pass algorithm to find consecutive sequences
-    for (let i = 1; i < sortedIndexes.length; i++) {
-      const currentIndex = sortedIndexes[i];
-      const prevIndex = sortedIndexes[i - 1];
-      
-      // Check if shows are consecutive (considering date gaps)
-      const isConsecutive = this.areShowsConsecutive(
-        sortedShows[prevIndex],
-        sortedShows[currentIndex]
-      );
-
-      if (!isConsecutive) {
-        // End current sequence if it's significant
-        const sequenceLength = i - currentSequenceStart;
-        if (sequenceLength > 6) {
-          const startIndex = sortedIndexes[currentSequenceStart];
-          const endIndex = sortedIndexes[i - 1];
-          sequences.push({
-            startIndex,
-            endIndex,
-            count: sequenceLength,
-            startDate: this.formatDateForValidation(sortedShows[startIndex].date, sortedShows[startIndex].time),
-            endDate: this.formatDateForValidation(sortedShows[endIndex].date, sortedShows[endIndex].time)
-          });
-        }
-        maxConsecutive = Math.max(maxConsecutive, sequenceLength);
-        currentSequenceStart = i;
-      }
-    }
-
-    // Handle final sequence
-    const finalSequenceLength = sortedIndexes.length - currentSequenceStart;
-    if (finalSequenceLength > 6) {
-      const startIndex = sortedIndexes[currentSequenceStart];
-      const endIndex = sortedIndexes[sortedIndexes.length - 1];
-      sequences.push({
-        startIndex,
-        endIndex,
-        count: finalSequenceLength,
-        startDate: this.formatDateForValidation(sortedShows[startIndex].date, sortedShows[startIndex].time),
-        endDate: this.formatDateForValidation(sortedShows[endIndex].date, sortedShows[endIndex].time)
-      });
-    }
-    maxConsecutive = Math.max(maxConsecutive, finalSequenceLength);
-
-    data.maxConsecutive = maxConsecutive;
-    data.sequences = sequences;
-  }
-
   // Two shows count toward the same consecutive run only when they are on the
   // same calendar date (a matinee + evening double) or on directly adjacent
   // dates. Any calendar day with zero shows resets the run. Compares DATES ONLY
@@ -1625,409 +2097,58 @@ export class SchedulingAlgorithm {
     }
   }
 
+  // Runs the rule registry (rules.ts) over the week. errors/warnings are
+  // derived views over the structured items so the public ConstraintResult
+  // stays backward-compatible.
   public validateSchedule(assignments: Assignment[], options?: { ignoreUnstartedShows?: boolean }): ConstraintResult {
-    const items: ValidationItem[] = [];
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    // errors/warnings are derived views over the structured items so the public
-    // ConstraintResult stays backward-compatible.
-    const addError = (code: RuleCode, message: string, meta?: { performer?: string; showId?: string }) => {
-      errors.push(message);
-      items.push({ code, severity: "error", message, ...meta });
-    };
-    const addWarning = (code: RuleCode, message: string, meta?: { performer?: string; showId?: string }) => {
-      warnings.push(message);
-      items.push({ code, severity: "warning", message, ...meta });
+    const items = evaluateRules(this.ruleWeek(assignments, options?.ignoreUnstartedShows ?? false), this.rules);
+    return {
+      isValid: !items.some(item => item.severity === "error"),
+      errors: items.filter(item => item.severity === "error").map(item => item.message),
+      warnings: items.filter(item => item.severity === "warning").map(item => item.message),
+      items
     };
+  }
 
-    // Filter active shows for validation
-    const activeShows = this.shows.filter(show => show.status === "show");
-
-    // Group assignments by show
-    const showAssignments = new Map<string, Assignment[]>();
-    assignments.forEach(assignment => {
-      if (!showAssignments.has(assignment.showId)) {
-        showAssignments.set(assignment.showId, []);
-      }
-      showAssignments.get(assignment.showId)!.push(assignment);
-    });
-
-    // Validate each active show
-    for (const show of activeShows) {
-      const showAssignmentList = showAssignments.get(show.id) || [];
-      const showDate = this.formatDateForValidation(show.date, show.time);
-      
-      // Filter only stage assignments (not OFF)
-      const stageAssignments = showAssignmentList.filter(a => a.role !== "OFF");
-
-      // An untouched show (no assignments at all) hasn't been started yet -
-      // it's a to-do, not a defect. Display-facing callers (validate.ts,
-      // validate_comprehensive.ts) opt into hiding this noise via
-      // ignoreUnstartedShows; the internal auto-generate retry loop never
-      // sets it, so it still catches a show a bug vacated back to empty.
-      const isUnstartedShow = options?.ignoreUnstartedShows && stageAssignments.length === 0;
-
-      if (!isUnstartedShow) {
-        // CRITICAL: Check if exactly 8 performers per show
-        const uniquePerformers = new Set(stageAssignments.map(a => a.performer));
-        if (uniquePerformers.size !== 8) {
-          if (uniquePerformers.size < 8) {
-            const missingCount = 8 - uniquePerformers.size;
-            addError("CASTING_INCOMPLETE", `Show ${showDate}: Missing ${missingCount} performer${missingCount > 1 ? 's' : ''} - must have exactly 8 on stage`, { showId: show.id });
-          } else {
-            addError("CASTING_DUPLICATE", `Show ${showDate}: Has ${uniquePerformers.size} performers but can only have 8 - remove duplicate assignments`, { showId: show.id });
-          }
-        }
-
-        // Check if all roles are filled
-        const filledRoles = new Set(stageAssignments.map(a => a.role));
-        if (filledRoles.size !== 8) {
-          if (filledRoles.size < 8) {
-            const missingRoles = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"]
-              .filter(role => !filledRoles.has(role as Role));
-            addError("CASTING_INCOMPLETE", `Show ${showDate}: Missing roles: ${missingRoles.join(", ")} - assign performers to these roles`, { showId: show.id });
-          }
-        }
-      }
-
-      // Check role eligibility; flag (but don't block on) an atypical gender pairing.
-      for (const assignment of stageAssignments) {
-        const castMember = this.castMembers.find(m => m.name === assignment.performer);
-        if (!castMember) {
-          addError("ROLE_INELIGIBLE", `Show ${showDate}: Unknown performer "${assignment.performer}" assigned to ${assignment.role}`, { performer: assignment.performer, showId: assignment.showId });
-        } else if (!castMember.eligibleRoles.includes(assignment.role as Role)) {
-          addError("ROLE_INELIGIBLE", `Show ${showDate}: ${assignment.performer} cannot perform ${assignment.role} - not in eligible roles`, { performer: assignment.performer, showId: assignment.showId });
-        } else if (FEMALE_ONLY_ROLES.includes(assignment.role as Role) && !this.isFemalePerformer(assignment.performer)) {
-          addWarning("GENDER_VIOLATION", `Show ${showDate}: ${assignment.performer} is assigned to ${assignment.role}, which is usually cast with a female performer - double-check this assignment`, { performer: assignment.performer, showId: assignment.showId });
-        }
-      }
-
-      // Check for duplicate performers in same show
-      const performerCounts = new Map<string, Assignment[]>();
-      stageAssignments.forEach(assignment => {
-        if (!performerCounts.has(assignment.performer)) {
-          performerCounts.set(assignment.performer, []);
-        }
-        performerCounts.get(assignment.performer)!.push(assignment);
-      });
-      
-      for (const [performer, duplicateAssignments] of performerCounts) {
-        if (duplicateAssignments.length > 1) {
-          const roles = duplicateAssignments.map(a => a.role);
-          addError("CASTING_DUPLICATE", `Show ${showDate}: ${performer} assigned to multiple roles (${roles.join(", ")}) - each performer can only have one role per show`, { performer, showId: show.id });
-        }
-      }
-    }
-
-    // CRITICAL: Use optimized consecutive shows analysis (max 6, not 3)
-    const performerData = this.analyzeConsecutiveShows(assignments);
-    for (const [memberName, data] of performerData) {
-      for (const sequence of data.sequences) {
-        if (sequence.count > 6) {
-          addError("CONSECUTIVE_EXCEEDED", `${memberName} has ${sequence.count} consecutive shows (${sequence.startDate} to ${sequence.endDate}) - exceeds maximum of 6 consecutive shows`, { performer: memberName });
-        }
-      }
-    }
-
-    // Fatigue rules (back-to-back double days, weekly cap). Both are
-    // OVERRIDABLE: when the RD flags the involved assignments as an
-    // injury/sickness override (isOverride), the violation is reported as a
-    // warning instead of an error. Casting/eligibility/gender/>6-consecutive/
-    // RED-day errors are never softened.
-    const stageByPerformer = new Map<string, Assignment[]>();
-    for (const a of assignments) {
-      if (a.role === 'OFF') continue;
-      const list = stageByPerformer.get(a.performer) ?? [];
-      list.push(a);
-      stageByPerformer.set(a.performer, list);
-    }
-    const activeShowById = new Map(activeShows.map(s => [s.id, s]));
-
-    // Validate back-to-back double days rule (§0 rule 3).
-    for (const member of this.castMembers) {
-      const memberStage = stageByPerformer.get(member.name) ?? [];
-      const showsByDate: Record<string, Assignment[]> = {};
-      for (const a of memberStage) {
-        const show = activeShowById.get(a.showId);
-        if (!show) continue;
-        (showsByDate[show.date] ??= []).push(a);
-      }
-
-      const dates = Object.keys(showsByDate).sort();
-      for (let i = 0; i < dates.length - 1; i++) {
-        const d1 = dates[i], d2 = dates[i + 1];
-        if (showsByDate[d1].length === 2 && showsByDate[d2].length === 2 && areDatesConsecutive(d1, d2)) {
-          const overridden = [...showsByDate[d1], ...showsByDate[d2]].some(a => a.isOverride);
-          if (overridden) {
-            addWarning("BACK_TO_BACK_DOUBLES", `⚠ ${member.name}: 4 shows across ${d1}/${d2} — manual override (injury cover)`, { performer: member.name });
-          } else {
-            addError("BACK_TO_BACK_DOUBLES", `${member.name} has 4 shows across 2 consecutive days (${d1} and ${d2}) - violates back-to-back double days rule`, { performer: member.name });
-          }
-        }
-      }
-    }
-
-    // Validate weekly cap (§0 rule 5): max 6 shows per performer.
-    for (const member of this.castMembers) {
-      const memberStage = stageByPerformer.get(member.name) ?? [];
-      if (memberStage.length > 6) {
-        if (memberStage.some(a => a.isOverride)) {
-          addWarning("WEEKLY_LIMIT_EXCEEDED", `⚠ ${member.name}: ${memberStage.length} shows this week — manual override (injury cover)`, { performer: member.name });
-        } else {
-          addError("WEEKLY_LIMIT_EXCEEDED", `${member.name} has ${memberStage.length} shows this week - exceeds maximum of 6 shows per week`, { performer: member.name });
-        }
-      }
-    }
-
-    // RED Day Validation.
-    //
-    // A performer's effective RED date is DERIVED, never read straight off the
-    // stored flags: it is the company RED date if the week has one, and only
-    // otherwise the date of their own isRedDay OFF row. So while a company RED
-    // day is set, individual flags are dormant — still in assignments_data, so
-    // removing the day off restores them, but ignored here.
+  // The week as the rules see it.
+  //
+  // A performer's effective RED date is DERIVED, never read straight off the
+  // stored flags: it is the company RED date if the week has one, and only
+  // otherwise the date of their own isRedDay OFF row. So while a company RED
+  // day is set, individual flags are dormant — still in assignments_data, so
+  // removing the day off restores them, but ignored here.
+  private ruleWeek(assignments: Assignment[], ignoreUnstartedShows: boolean): RuleWeek {
     const companyRedDate = this.detectCompanyRedDate();
-    const performerRedDays: Record<string, string[]> = {};
-    this.castMembers.forEach(m => performerRedDays[m.name] = companyRedDate ? [companyRedDate] : []);
-
+    const redDays: Record<string, string[]> = {};
+    this.castMembers.forEach(m => redDays[m.name] = companyRedDate ? [companyRedDate] : []);
     if (!companyRedDate) {
-      const offAssignments = assignments.filter(a => a.role === 'OFF' && a.isRedDay);
-      offAssignments.forEach(a => {
+      for (const a of assignments) {
+        if (a.role !== 'OFF' || !a.isRedDay) continue;
         // Resolve against ALL shows, not just 'show'-status ones: a full-company
         // RED day sits on a 'dayoff'-status show (see §7), so restricting to
-        // activeShows here would drop it and falsely flag everyone as missing a
-        // RED day.
+        // active shows here would drop it and falsely flag everyone as missing
+        // a RED day.
         const show = this.shows.find(s => s.id === a.showId);
-        if (show) {
-            if (!performerRedDays[a.performer].includes(show.date)) {
-                performerRedDays[a.performer].push(show.date);
-            }
-        }
-      });
-    }
-
-    for (const performer in performerRedDays) {
-        if (performerRedDays[performer].length > 1) {
-            addError("RED_DAY_MULTIPLE", `${performer} has more than one RED day assigned.`, { performer });
-        }
-        if (this.castMembers.some(m => m.name === performer) && performerRedDays[performer].length === 0) {
-            addWarning("RED_DAY_MISSING", `${performer} does not have a RED day assigned.`, { performer });
-        }
-
-        for (const redDate of performerRedDays[performer]) {
-            const showsOnRedDate = activeShows.filter(s => s.date === redDate);
-            const assignmentsOnRedDate = assignments.filter(a => a.performer === performer && showsOnRedDate.some(s => s.id === a.showId));
-            const isFullDayOff = assignmentsOnRedDate.every(a => a.role === 'OFF');
-            if (!isFullDayOff) {
-                addError("RED_DAY_NOT_FULL_DAY", `${performer} has a RED day on ${redDate} but is also assigned to a role on that day.`, { performer });
-            }
-        }
-    }
-
-    // Check show distribution with specific suggestions.
-    //
-    // The fair share is per STAGE SLOT, not per show: every show puts
-    // roles.length performers on stage, so a 12-strong company covering an
-    // 8-show week averages 8 * 8 / 12 = 5.33 shows each. Dividing shows by cast
-    // size instead (8 / 12 = 0.67) put the threshold at 2 shows and warned that
-    // all twelve performers were "potentially overworked" in a perfectly legal,
-    // evenly-balanced week.
-    //
-    // Derived from the week's SHAPE rather than from `assignments`, so the
-    // threshold doesn't drift while a schedule is being filled in and flag an
-    // early pick as overworked. Note the hard weekly cap (rule 5, max 6 shows)
-    // is the real protection and errors independently; this warning only speaks
-    // to lopsided distribution, so with a full 12/8 company it correctly stays
-    // silent — there is no room to be overworked relative to your peers without
-    // already breaching the cap.
-    const showCounts = this.getShowCounts(assignments, activeShows);
-    const averageShows = this.castMembers.length > 0
-      ? (activeShows.length * this.roles.length) / this.castMembers.length
-      : 0;
-
-    for (const [performer, count] of Object.entries(showCounts)) {
-      if (count < 2 && count > 0 && activeShows.length >= 4) {
-        addWarning("UNDERUTILIZED", `${performer} only has ${count} show${count === 1 ? '' : 's'} (underutilized)`, { performer });
-      } else if (count > Math.ceil(averageShows * 1.5) && activeShows.length > 4) {
-        addWarning("OVERWORKED", `${performer} has ${count} shows (potentially overworked)`, { performer });
+        const dates = redDays[a.performer];
+        if (show && dates && !dates.includes(show.date)) dates.push(show.date);
       }
     }
 
     return {
-      isValid: errors.length === 0,
-      errors,
-      warnings,
-      items
+      shows: this.shows,
+      activeShows: this.getSortedActiveShows(),
+      assignments,
+      castMembers: this.castMembers,
+      roles: this.roles,
+      limits: this.limits,
+      carryOver: this.carryOver,
+      ignoreUnstartedShows,
+      redDays,
+      preferredGender: role => this.preferredGender.get(role),
+      performerGender: performer => this.performerGender(performer),
+      unavailabilityOn: (performer, date) => this.unavailabilityOn(performer, date),
+      restBetween: (from, to) => this.restBetween(from, to),
+      keepsRedDaySpacing: (performer, date) => this.keepsRedDaySpacing(performer, date)
     };
   }
-
-  private formatDateForValidation(date: string, time: string): string {
-    try {
-      // Noon-UTC anchor + explicit UTC formatting so the weekday/date match the
-      // calendar date in every timezone.
-      const dateObj = new Date(date + "T12:00:00Z");
-      const dayName = dateObj.toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
-      const monthDay = dateObj.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
-
-      // An unknown time must not be parsed: parseInt("TBC") is NaN, setHours(NaN)
-      // makes an Invalid Date, and toLocaleTimeString then renders the literal
-      // string "Invalid Date" straight into a user-facing error. No throw, so the
-      // catch below never fires.
-      if (!isKnownTime(time)) return `${dayName} ${monthDay} ${TBC}`;
-
-      const [hours, minutes] = time.split(':');
-      const timeObj = new Date();
-      timeObj.setHours(parseInt(hours), parseInt(minutes));
-      const timeStr = timeObj.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
-
-      return `${dayName} ${monthDay} ${timeStr}`;
-    } catch (error) {
-      return `${date} ${time}`;
-    }
-  }
-
-  private getAlternativePerformers(currentPerformer: string, roles: Role[], showId: string): string[] {
-    const alternatives: string[] = [];
-    
-    // Get currently assigned performers in this show
-    const showAssignments = this.convertToAssignments().filter(a => a.showId === showId && a.role !== "OFF");
-    const assignedPerformers = new Set(showAssignments.map(a => a.performer));
-    
-    // Find alternative performers for each role (excluding current performer and already assigned)
-    for (const role of roles) {
-      const eligiblePerformers = this.castMembers
-        .filter(member => 
-          member.eligibleRoles.includes(role) && 
-          member.name !== currentPerformer &&
-          !assignedPerformers.has(member.name)
-        )
-        .map(member => member.name);
-      
-      alternatives.push(...eligiblePerformers);
-    }
-    
-    return [...new Set(alternatives)]; // Remove duplicates
-  }
-
-  private getConsecutiveShowSuggestions(memberName: string, sequence: ConsecutiveSequence, assignments: Assignment[], activeShows: Show[]): string {
-    const suggestions: string[] = [];
-    
-    // Find shows in the middle of the sequence where we could make substitutions
-    const memberAssignments = assignments.filter(a => a.performer === memberName && a.role !== "OFF");
-    const showIndexMap = this.getShowIndexMap();
-    const sortedShows = this.getSortedActiveShows();
-    
-    // Get middle show index from the sequence
-    const middleIndex = Math.floor((sequence.startIndex + sequence.endIndex) / 2);
-    if (middleIndex < sortedShows.length) {
-      const middleShow = sortedShows[middleIndex];
-      const memberRoleInShow = memberAssignments.find(a => a.showId === middleShow.id)?.role;
-      
-      if (memberRoleInShow && memberRoleInShow !== "OFF") {
-        const alternatives = this.getAlternativePerformers(memberName, [memberRoleInShow as Role], middleShow.id);
-        if (alternatives.length > 0) {
-          const showDate = this.formatDateForValidation(middleShow.date, middleShow.time);
-          suggestions.push(`Replace ${memberName} with ${alternatives[0]} for ${memberRoleInShow} on ${showDate}`);
-        }
-      }
-    }
-    
-    // If no specific suggestions, give general advice
-    if (suggestions.length === 0) {
-      suggestions.push("Consider redistributing some shows to other cast members");
-    }
-    
-    return suggestions.join(". ");
-  }
-
-  private getUnderutilizedSuggestions(performer: string, assignments: Assignment[], activeShows: Show[]): string {
-    const suggestions: string[] = [];
-    
-    // Find shows where this performer is not assigned but could be
-    const performerMember = this.castMembers.find(m => m.name === performer);
-    if (!performerMember) return "verify performer availability";
-    
-    const assignedShowIds = new Set(assignments.filter(a => a.performer === performer && a.role !== "OFF").map(a => a.showId));
-    const unassignedShows = activeShows.filter(show => !assignedShowIds.has(show.id));
-    
-    if (unassignedShows.length > 0) {
-      // Look for roles this performer could fill in unassigned shows
-      for (const show of unassignedShows.slice(0, 2)) { // Check first 2 shows
-        const showAssignments = assignments.filter(a => a.showId === show.id && a.role !== "OFF");
-        const unfilledRoles = performerMember.eligibleRoles.filter(role => 
-          !showAssignments.some(a => a.role === role)
-        );
-        
-        if (unfilledRoles.length > 0) {
-          const showDate = this.formatDateForValidation(show.date, show.time);
-          suggestions.push(`assign ${unfilledRoles[0]} role on ${showDate}`);
-          break;
-        }
-      }
-    }
-    
-    if (suggestions.length === 0) {
-      suggestions.push("look for opportunities to assign additional roles");
-    }
-    
-    return suggestions.join(", ");
-  }
-
-  private getOverworkedSuggestions(performer: string, assignments: Assignment[], activeShows: Show[]): string {
-    const suggestions: string[] = [];
-    
-    // Find this performer's assignments and suggest redistributing some
-    const performerAssignments = assignments.filter(a => a.performer === performer && a.role !== "OFF");
-    
-    if (performerAssignments.length > 2) {
-      // Suggest redistributing the last few assignments
-      const lastAssignment = performerAssignments[performerAssignments.length - 1];
-      const show = activeShows.find(s => s.id === lastAssignment.showId);
-      
-      if (show) {
-        const alternatives = this.getAlternativePerformers(performer, [lastAssignment.role as Role], show.id);
-        if (alternatives.length > 0) {
-          const showDate = this.formatDateForValidation(show.date, show.time);
-          suggestions.push(`reassign ${lastAssignment.role} on ${showDate} to ${alternatives[0]}`);
-        }
-      }
-    }
-    
-    if (suggestions.length === 0) {
-      suggestions.push("redistribute some assignments to other cast members");
-    }
-    
-    return suggestions.join(", ");
-  }
-
-  private getShowCounts(assignments: Assignment[], activeShows?: Show[]): Record<string, number> {
-    const showsToCheck = activeShows || this.shows.filter(show => show.status === "show");
-    const counts: Record<string, number> = {};
-    
-    // Initialize all cast members
-    this.castMembers.forEach(member => {
-      counts[member.name] = 0;
-    });
-
-    // Count shows per performer (only active shows, only stage roles)
-    const showPerformers = new Map<string, Set<string>>();
-    assignments.forEach(assignment => {
-      // Only count if the show is in our active shows list and it's not an OFF assignment
-      if (assignment.role !== "OFF" && showsToCheck.some(show => show.id === assignment.showId)) {
-        if (!showPerformers.has(assignment.showId)) {
-          showPerformers.set(assignment.showId, new Set());
-        }
-        showPerformers.get(assignment.showId)!.add(assignment.performer);
-      }
-    });
-
-    // Count unique shows per performer
-    for (const [, performers] of showPerformers) {
-      for (const performer of performers) {
-        counts[performer]++;
-      }
-    }
-
-    return counts;
-  }
 }
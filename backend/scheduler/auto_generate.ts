@@ -1,6 +1,6 @@
 import { api } from "encore.dev/api";
-import { Show, Assignment } from "./types";
-import { SchedulingAlgorithm, AutoGenerateResult } from "./algorithm";
+import { Show, Assignment, SlotExplanation } from "./types";
+import type { AutoGenerateResult } from "./algorithm";
 
 export interface AutoGenerateRequest {
   shows: Show[];
@@ -8,6 +8,13 @@ export interface AutoGenerateRequest {
   // slots and preserves these picks (including a manually toggled RED day).
   // Omitted/empty -> generates from a blank slate, exactly as before.
   existingAssignments?: Assignment[];
+  // The saved schedule being generated, if any. Its previous week (same tour,
+  // else same venue) is loaded so runs and RED days continue across the
+  // boundary. Omitted -> the week is generated in isolation.
+  scheduleId?: string;
+  // Seeds the run's random choices, to reproduce an earlier week (see
+  // generations.ts). Omitted -> a fresh seed, returned on the response.
+  seed?: number;
 }
 
 export interface AutoGenerateResponse {
@@ -15,26 +22,64 @@ export interface AutoGenerateResponse {
   assignments: Assignment[];
   errors?: string[];
   warnings?: string[];
+  // Finds the run in the generation log (getGeneration).
   generationId?: string;
+  seed?: number;
+  // How the exact solver settled the week: "infeasible" with the constraints
+  // that rule out every cast, or "unknown" when it ran out of nodes first.
+  solver?: AutoGenerateResult["solver"];
+  // Why each stage slot holds who it does, or is empty (shown on hover in the
+  // editor). Not recorded in the generation log.
+  explanations?: SlotExplanation[];
 }
 
 // Generates optimal cast assignments for the given shows using constraint satisfaction.
 export const autoGenerate = api<AutoGenerateRequest, AutoGenerateResponse>(
-  { expose: true, method: "POST", path: "/schedules/auto-generate" },
+  { expose: true, method: "POST", path: "/schedules/auto-generate", auth: true },
   async (req) => {
-    // Get current cast members from company system
-    const { getCastMembers } = await import("./cast_members");
-    const castData = await getCastMembers();
-    
-    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers, req.existingAssignments);
-    const result = await algorithm.autoGenerate();
-    
+    const { checkedSeed, recordGeneration, runGeneration } = await import("./generations");
+    const seed = checkedSeed(req.seed);
+
+    // Get cast members from the schedule's own company, which the caller must
+    // be able to edit — only its tour segment's cast when it is a tour week
+    const { requireCompanyRole, scheduleCompanyId } = await import("./companies");
+    const companyId = await requireCompanyRole("manager", await scheduleCompanyId(req.scheduleId));
+    const { loadScheduleCast } = await import("./cast_members");
+    const castData = await loadScheduleCast(companyId, req.scheduleId);
+
+    // Dates performers can't work are forced OFF during generation.
+    const { loadUnavailabilityForShows } = await import("./availability");
+    const unavailability = await loadUnavailabilityForShows(req.shows, companyId);
+
+    // Runs and RED days carried in from the week before.
+    const { loadCarryOver } = await import("./continuity");
+    const carryOver = await loadCarryOver(req.scheduleId, req.shows, companyId);
+
+    // Thresholds and severities from the tour's or company's rule profile.
+    const { loadScheduleRules } = await import("./rule_profiles");
+    const rules = await loadScheduleRules(companyId, req.scheduleId);
+
+    const inputs = {
+      shows: req.shows,
+      existingAssignments: req.existingAssignments ?? [],
+      castMembers: castData.castMembers,
+      roles: castData.roleCatalogue,
+      unavailability,
+      carryOver,
+      rules
+    };
+    const result = await runGeneration(inputs, seed);
+    const generationId = await recordGeneration(companyId, { scheduleId: req.scheduleId }, inputs, result);
+
     return {
       success: result.success,
       assignments: result.assignments,
       errors: result.errors,
       warnings: result.warnings,
-      generationId: result.generationId
+      generationId,
+      seed: result.seed,
+      solver: result.solver,
+      explanations: result.explanations
     };
   }
 );
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { addMember, deleteMember } from './company';
+import { currentCompanyId } from './companies';
+import {
+  addUnavailability,
+  deleteUnavailability,
+  listUnavailability,
+  loadUnavailabilityForShows,
+  updateUnavailability,
+} from './availability';
+import type { Show } from './types';
+
+const week: Show[] = [
+  { id: 'tue', date: '2024-03-05', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sun', date: '2024-03-10', time: '19:30', callTime: '18:00', status: 'show' },
+];
+
+describe('Member unavailability', () => {
+  it('round-trips a window through add / update / list / delete', async () => {
+    const { member } = await addMember({ name: 'TEMP AWAY', eligibleRoles: ['Sarge'] });
+    try {
+      const { entry } = await addUnavailability({ memberId: member.id, startDate: '2024-03-06', reason: 'dentist' });
+      // A single day: endDate defaults to startDate.
+      expect(entry).toMatchObject({ performer: 'TEMP AWAY', startDate: '2024-03-06', endDate: '2024-03-06', reason: 'dentist' });
+
+      const updated = await updateUnavailability({ id: entry.id, endDate: '2024-03-08' });
+      expect(updated.entry).toMatchObject({ startDate: '2024-03-06', endDate: '2024-03-08', reason: 'dentist' });
+
+      const { entries } = await listUnavailability();
+      expect(entries.some(e => e.id === entry.id)).toBe(true);
+
+      await deleteUnavailability({ id: entry.id });
+      const after = await listUnavailability();
+      expect(after.entries.some(e => e.id === entry.id)).toBe(false);
+    } finally {
+      await deleteMember({ id: member.id });
+    }
+  });
+
+  it('rejects a reversed or malformed range', async () => {
+    const { member } = await addMember({ name: 'TEMP BADRANGE', eligibleRoles: ['Sarge'] });
+    try {
+      await expect(addUnavailability({ memberId: member.id, startDate: '2024-03-08', endDate: '2024-03-06' }))
+        .rejects.toMatchObject({ code: 'invalid_argument' });
+      await expect(addUnavailability({ memberId: member.id, startDate: '8/3/2024' }))
+        .rejects.toMatchObject({ code: 'invalid_argument' });
+    } finally {
+      await deleteMember({ id: member.id });
+    }
+  });
+
+  it('loads only windows overlapping the week, keyed by performer name', async () => {
+    const { member } = await addMember({ name: 'TEMP OVERLAP', eligibleRoles: ['Sarge'] });
+    try {
+      await addUnavailability({ memberId: member.id, startDate: '2024-03-01', endDate: '2024-03-05' });
+      await addUnavailability({ memberId: member.id, startDate: '2024-03-11', endDate: '2024-03-12' });
+
+      const windows = (await loadUnavailabilityForShows(week, await currentCompanyId())).filter(w => w.performer === 'TEMP OVERLAP');
+      expect(windows).toEqual([{ performer: 'TEMP OVERLAP', startDate: '2024-03-01', endDate: '2024-03-05', reason: undefined }]);
+    } finally {
+      // ON DELETE CASCADE removes the member's windows with them.
+      await deleteMember({ id: member.id });
+    }
+  });
+});
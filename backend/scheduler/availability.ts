@@ -0,0 +1,193 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { currentCompanyId, requireCompanyRole } from "./companies";
+import { Show, UnavailableWindow } from "./types";
+
+export interface MemberUnavailability {
+  id: string;
+  memberId: string;
+  // The member's current name, joined in at read time — what the algorithm and
+  // the grid key on.
+  performer: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;   // YYYY-MM-DD, inclusive
+  reason?: string;
+  createdAt: Date;
+}
+
+export interface ListUnavailabilityResponse {
+  entries: MemberUnavailability[];
+}
+
+export interface AddUnavailabilityRequest {
+  memberId: string;
+  startDate: string;
+  // Omitted -> a single day (endDate = startDate).
+  endDate?: string;
+  reason?: string;
+}
+
+export interface UpdateUnavailabilityRequest {
+  id: string;
+  startDate?: string;
+  endDate?: string;
+  reason?: string;
+}
+
+export interface UnavailabilityResponse {
+  entry: MemberUnavailability;
+}
+
+interface UnavailabilityRow {
+  id: string;
+  member_id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  created_at: string | Date;
+}
+
+function mapRow(row: UnavailabilityRow): MemberUnavailability {
+  return {
+    id: row.id,
+    memberId: row.member_id,
+    performer: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    reason: row.reason ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Dates are compared as strings everywhere (here, in SQL and in the
+// algorithm), which is only sound for zero-padded YYYY-MM-DD.
+function assertValidRange(startDate: string, endDate: string): void {
+  for (const date of [startDate, endDate]) {
+    if (!DATE_ONLY.test(date) || Number.isNaN(new Date(`${date}T12:00:00Z`).getTime())) {
+      throw APIError.invalidArgument(`invalid date "${date}" - expected YYYY-MM-DD`);
+    }
+  }
+  if (startDate > endDate) {
+    throw APIError.invalidArgument("startDate must not be after endDate");
+  }
+}
+
+// A window belongs to the company of the member it's for.
+async function getEntry(id: string, companyId: string): Promise<MemberUnavailability | null> {
+  const row = await scheduleDB.queryRow<UnavailabilityRow>`
+    SELECT u.id, u.member_id, m.name, u.start_date, u.end_date, u.reason, u.created_at
+    FROM member_unavailability u
+    JOIN company_members m ON m.id = u.member_id
+    WHERE u.id = ${id} AND m.company_id = ${companyId}
+  `;
+  return row ? mapRow(row) : null;
+}
+
+// Loads every window of `companyId`'s members overlapping the dates of `shows`,
+// in the shape SchedulingAlgorithm consumes. Not an endpoint: auto-generate and
+// the validators call it directly for the week they are working on.
+export async function loadUnavailabilityForShows(shows: Show[], companyId: string): Promise<UnavailableWindow[]> {
+  if (shows.length === 0) return [];
+  const dates = shows.map(s => s.date).sort();
+  const fromDate = dates[0];
+  const toDate = dates[dates.length - 1];
+
+  const rows = await scheduleDB.queryAll<UnavailabilityRow>`
+    SELECT u.id, u.member_id, m.name, u.start_date, u.end_date, u.reason, u.created_at
+    FROM member_unavailability u
+    JOIN company_members m ON m.id = u.member_id
+    WHERE m.company_id = ${companyId} AND u.start_date <= ${toDate} AND u.end_date >= ${fromDate}
+  `;
+  return rows.map(row => ({
+    performer: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    reason: row.reason ?? undefined,
+  }));
+}
+
+// Lists every unavailability window in the current company, earliest first.
+export const listUnavailability = api<void, ListUnavailabilityResponse>(
+  { expose: true, method: "GET", path: "/company/unavailability", auth: true },
+  async () => {
+    const companyId = await currentCompanyId();
+    const rows = await scheduleDB.queryAll<UnavailabilityRow>`
+      SELECT u.id, u.member_id, m.name, u.start_date, u.end_date, u.reason, u.created_at
+      FROM member_unavailability u
+      JOIN company_members m ON m.id = u.member_id
+      WHERE m.company_id = ${companyId}
+      ORDER BY u.start_date ASC, m.name ASC
+    `;
+    return { entries: rows.map(mapRow) };
+  }
+);
+
+// Records dates a cast member cannot work.
+export const addUnavailability = api<AddUnavailabilityRequest, UnavailabilityResponse>(
+  { expose: true, method: "POST", path: "/company/members/:memberId/unavailability", auth: true },
+  async (req) => {
+    const endDate = req.endDate ?? req.startDate;
+    assertValidRange(req.startDate, endDate);
+    const companyId = await requireCompanyRole("manager");
+
+    const member = await scheduleDB.queryRow<{ id: string }>`
+      SELECT id FROM company_members WHERE id = ${req.memberId} AND company_id = ${companyId}
+    `;
+    if (!member) {
+      throw APIError.notFound("member not found");
+    }
+
+    const id = generateId();
+    await scheduleDB.exec`
+      INSERT INTO member_unavailability (id, member_id, start_date, end_date, reason, created_at)
+      VALUES (${id}, ${req.memberId}, ${req.startDate}, ${endDate}, ${req.reason ?? null}, ${new Date()})
+    `;
+
+    const entry = await getEntry(id, companyId);
+    return { entry: entry! };
+  }
+);
+
+// Updates the dates or reason of an unavailability window.
+export const updateUnavailability = api<UpdateUnavailabilityRequest, UnavailabilityResponse>(
+  { expose: true, method: "PUT", path: "/company/unavailability/:id", auth: true },
+  async (req) => {
+    const existing = await getEntry(req.id, await requireCompanyRole("manager"));
+    if (!existing) {
+      throw APIError.notFound("unavailability not found");
+    }
+
+    const startDate = req.startDate ?? existing.startDate;
+    const endDate = req.endDate ?? existing.endDate;
+    assertValidRange(startDate, endDate);
+    const reason = req.reason !== undefined ? req.reason : existing.reason;
+
+    await scheduleDB.exec`
+      UPDATE member_unavailability
+      SET start_date = ${startDate}, end_date = ${endDate}, reason = ${reason || null}
+      WHERE id = ${req.id}
+    `;
+
+    return { entry: { ...existing, startDate, endDate, reason: reason || undefined } };
+  }
+);
+
+// Deletes an unavailability window.
+export const deleteUnavailability = api<{ id: string }, void>(
+  { expose: true, method: "DELETE", path: "/company/unavailability/:id", auth: true },
+  async (req) => {
+    const existing = await getEntry(req.id, await requireCompanyRole("manager"));
+    if (!existing) {
+      throw APIError.notFound("unavailability not found");
+    }
+
+    await scheduleDB.exec`DELETE FROM member_unavailability WHERE id = ${req.id}`;
+  }
+);
+
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { addMember, deleteMember } from './company';
+import { calendarFeed, downloadCalendar } from './calendar';
+import { scheduleDB } from './db';
+
+describe('Calendar feeds', () => {
+  it('makes a feed for someone on the roster and refuses a name that is not', async () => {
+    const { member } = await addMember({ name: 'TEMP ON FEED', eligibleRoles: ['Sarge'] });
+    try {
+      const { feed } = await calendarFeed({ performer: ' TEMP ON FEED ' });
+      expect(feed.performer).toBe('TEMP ON FEED');
+      await scheduleDB.exec`DELETE FROM calendar_feeds WHERE token = ${feed.token}`;
+
+      await expect(calendarFeed({ performer: 'TEMP ON FEDD' })).rejects.toMatchObject({ code: 'invalid_argument' });
+      await expect(downloadCalendar({ performer: 'TEMP ON FEDD' })).rejects.toMatchObject({ code: 'invalid_argument' });
+      const minted = await scheduleDB.queryRow`SELECT token FROM calendar_feeds WHERE performer = ${'TEMP ON FEDD'}`;
+      expect(minted).toBeNull();
+    } finally {
+      await deleteMember({ id: member.id });
+    }
+  });
+});
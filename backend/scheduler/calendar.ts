@@ -0,0 +1,177 @@
+// iCalendar feeds of a company's published schedules, for one performer or the
+// whole company: a one-off .ics download for the signed-in user, and a
+// subscription URL (/ical/:token) that calendar apps poll without logging in.
+// The feed is rendered from the schedules on every request, so a subscriber
+// sees a change as soon as their app next refreshes (see ical.ts for how
+// events update in place). Drafts are never included, whoever asks.
+
+import { api, APIError } from "encore.dev/api";
+import { currentRequest, type APICallMeta } from "encore.dev";
+import { getAuthData } from "encore.dev/internal/codegen/auth";
+import crypto from "node:crypto";
+import type { AuthData } from "../auth/encore_auth";
+import { scheduleDB } from "./db";
+import { requireCompanyRole } from "./companies";
+import { scheduleFromRow } from "./get";
+import { CalendarEvent, companyEvents, performerEvents, renderCalendar } from "./ical";
+import { loadTourRules } from "./rule_profiles";
+import { SHOW_MINUTES } from "./time";
+
+export interface CalendarFeedRequest {
+  // Omit for the whole company's calendar.
+  performer?: string;
+}
+
+export interface CalendarDownloadResponse {
+  filename: string;
+  ics: string;
+}
+
+export interface CalendarFeed {
+  token: string;
+  performer?: string;
+  // Relative to the API's base URL; the subscriber fetches it with no login.
+  path: string;
+  createdAt: Date;
+}
+
+export interface CalendarFeedResponse {
+  feed: CalendarFeed;
+}
+
+// The requested performer, or null for the whole company. A name that isn't
+// on the company's active roster (a typo, or someone since archived) would
+// only ever give an empty calendar, so it is refused rather than fed.
+async function performerOf(companyId: string, req: CalendarFeedRequest): Promise<string | null> {
+  const performer = req.performer?.trim();
+  if (!performer) return null;
+
+  const member = await scheduleDB.queryRow`
+    SELECT id FROM company_members
+    WHERE company_id = ${companyId} AND name = ${performer} AND status = 'active'
+  `;
+  if (!member) {
+    throw APIError.invalidArgument(`${performer} isn't on this company's roster`);
+  }
+  return performer;
+}
+
+async function buildCalendar(companyId: string, performer: string | null): Promise<string> {
+  const company = await scheduleDB.queryRow<{ name: string }>`
+    SELECT name FROM companies WHERE id = ${companyId}
+  `;
+  const rows = await scheduleDB.queryAll`
+    SELECT id, location, week, shows_data, assignments_data, published, version, created_at, updated_at, tour_id
+    FROM schedules
+    WHERE company_id = ${companyId} AND published
+    ORDER BY created_at
+  `;
+
+  // Shows end when the week's rule profile says they do: its tour's, else the
+  // company's. One lookup per tour.
+  const showMinutesOf = new Map<string | null, number>();
+  for (const tourId of new Set(rows.map(row => (row.tour_id ?? null) as string | null))) {
+    const rules = await loadTourRules(companyId, tourId ?? undefined);
+    showMinutesOf.set(tourId, rules?.limits.showMinutes ?? SHOW_MINUTES);
+  }
+
+  const events: CalendarEvent[] = rows.flatMap(row => {
+    const schedule = scheduleFromRow(row);
+    const showMinutes = showMinutesOf.get(row.tour_id ?? null)!;
+    return performer ? performerEvents(schedule, performer, showMinutes) : companyEvents(schedule, showMinutes);
+  });
+  const name = company?.name ?? "STOMP";
+  return renderCalendar(performer ? `${name}: ${performer}` : name, events);
+}
+
+function feedFromRow(row: { token: string; performer: string | null; created_at: Date }): CalendarFeed {
+  return {
+    token: row.token,
+    performer: row.performer ?? undefined,
+    path: `/ical/${row.token}.ics`,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+async function insertFeed(companyId: string, performer: string | null): Promise<CalendarFeed> {
+  const authData = await getAuthData<AuthData>();
+  const row = await scheduleDB.queryRow<{ token: string; performer: string | null; created_at: Date }>`
+    INSERT INTO calendar_feeds (token, company_id, performer, created_by)
+    VALUES (${crypto.randomBytes(24).toString("base64url")}, ${companyId}, ${performer}, ${authData?.userID ?? "system"})
+    ON CONFLICT DO NOTHING
+    RETURNING token, performer, created_at
+  `;
+  if (row) return feedFromRow(row);
+  // Someone else created this feed at the same moment; theirs stands.
+  const existing = await findFeed(companyId, performer);
+  if (!existing) throw APIError.aborted("calendar feed was changed by someone else");
+  return existing;
+}
+
+async function findFeed(companyId: string, performer: string | null): Promise<CalendarFeed | null> {
+  const row = await scheduleDB.queryRow<{ token: string; performer: string | null; created_at: Date }>`
+    SELECT token, performer, created_at FROM calendar_feeds
+    WHERE company_id = ${companyId} AND COALESCE(performer, '') = ${performer ?? ""}
+  `;
+  return row ? feedFromRow(row) : null;
+}
+
+// Downloads the current company's published schedules as an .ics file.
+export const downloadCalendar = api<CalendarFeedRequest, CalendarDownloadResponse>(
+  { expose: true, method: "GET", path: "/calendar/download", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("viewer");
+    const performer = await performerOf(companyId, req);
+    const slug = (performer ?? "company").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    return { filename: `stomp-${slug}.ics`, ics: await buildCalendar(companyId, performer) };
+  }
+);
+
+// Returns the subscription feed for a performer or the company, creating it on first use.
+export const calendarFeed = api<CalendarFeedRequest, CalendarFeedResponse>(
+  { expose: true, method: "POST", path: "/calendar/feeds", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("viewer");
+    const performer = await performerOf(companyId, req);
+    return { feed: (await findFeed(companyId, performer)) ?? (await insertFeed(companyId, performer)) };
+  }
+);
+
+// Replaces a feed's token, so the old subscription URL stops working.
+export const rotateCalendarFeed = api<CalendarFeedRequest, CalendarFeedResponse>(
+  { expose: true, method: "POST", path: "/calendar/feeds/rotate", auth: true },
+  async (req) => {
+    // Everyone subscribed to the old URL loses it, so this is a manager's call.
+    const companyId = await requireCompanyRole("manager");
+    const performer = await performerOf(companyId, req);
+    await scheduleDB.exec`
+      DELETE FROM calendar_feeds
+      WHERE company_id = ${companyId} AND COALESCE(performer, '') = ${performer ?? ""}
+    `;
+    return { feed: await insertFeed(companyId, performer) };
+  }
+);
+
+// Serves a subscription feed. The token in the URL is the only credential.
+export const subscribeCalendar = api.raw(
+  { expose: true, method: "GET", path: "/ical/:token", auth: false },
+  async (_req, resp) => {
+    const meta = currentRequest() as APICallMeta;
+    const token = String(meta.pathParams.token ?? "").replace(/\.ics$/, "");
+    const feed = await scheduleDB.queryRow<{ company_id: string; performer: string | null }>`
+      SELECT company_id, performer FROM calendar_feeds WHERE token = ${token}
+    `;
+    if (!feed) {
+      resp.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+      resp.end("calendar not found");
+      return;
+    }
+    const ics = await buildCalendar(feed.company_id, feed.performer);
+    resp.writeHead(200, {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="stomp.ics"',
+      "Cache-Control": "no-cache",
+    });
+    resp.end(ics);
+  }
+);
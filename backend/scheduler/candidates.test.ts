@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the pure helpers and the algorithm are under test; keep the database
+// and auth runtime out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('./live', () => ({}));
+vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn, APIError: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { candidateDistance, minimumDistance, redDayWeekdays } from './candidates';
+import { SchedulingAlgorithm } from './algorithm';
+import { CAST_MEMBERS, DEFAULT_ROLE_CATALOGUE } from './types';
+import type { Assignment, Show } from './types';
+
+const week: Show[] = [
+  { id: 'tue', date: '2024-01-02', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'wed', date: '2024-01-03', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'thu', date: '2024-01-04', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'fri', date: '2024-01-05', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sat_mat', date: '2024-01-06', time: '14:00', callTime: '12:30', status: 'show' },
+  { id: 'sat_eve', date: '2024-01-06', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sun_mat', date: '2024-01-07', time: '14:00', callTime: '12:30', status: 'show' },
+  { id: 'sun_eve', date: '2024-01-07', time: '19:30', callTime: '18:00', status: 'show' },
+];
+const roles = DEFAULT_ROLE_CATALOGUE.filter(r => r.active).map(r => r.name);
+
+describe('candidate helpers', () => {
+  const a: Assignment[] = [
+    { showId: 'tue', role: 'Sarge', performer: 'PHIL' },
+    { showId: 'wed', role: 'Sarge', performer: 'PHIL' },
+    { showId: 'tue', role: 'OFF', performer: 'SEAN', isRedDay: true },
+  ];
+
+  it('counts differing stage picks and RED days', () => {
+    const b: Assignment[] = [
+      { showId: 'tue', role: 'Sarge', performer: 'SEAN' },
+      { showId: 'wed', role: 'Sarge', performer: 'PHIL' },
+      { showId: 'wed', role: 'OFF', performer: 'SEAN', isRedDay: true },
+    ];
+    expect(candidateDistance(week, a, a)).toBe(0);
+    expect(candidateDistance(week, a, b)).toBe(2);
+  });
+
+  it('asks for a tenth of the slots left free', () => {
+    expect(minimumDistance(week, roles, [])).toBe(Math.ceil(8 * roles.length / 10));
+    expect(minimumDistance(week, ['Sarge'], a)).toBe(1);
+  });
+
+  it('counts each performer once on the weekday they rest', () => {
+    expect(redDayWeekdays(week, [
+      ...a,
+      { showId: 'sat_mat', role: 'OFF', performer: 'JOSE', isRedDay: true },
+      { showId: 'sat_eve', role: 'OFF', performer: 'JOSE', isRedDay: true },
+    ])).toEqual([0, 0, 1, 0, 0, 0, 1]);
+  });
+});
+
+describe('steering away from earlier candidates', () => {
+  it('casts a genuinely different week when told what to avoid', async () => {
+    const first = await new SchedulingAlgorithm(week, CAST_MEMBERS, undefined, { seed: 1 }).autoGenerate();
+    const second = await new SchedulingAlgorithm(week, CAST_MEMBERS, undefined, { seed: 1, avoid: first.assignments }).autoGenerate();
+
+    expect(second.success).toBe(true);
+    expect(candidateDistance(week, first.assignments, second.assignments)).toBeGreaterThanOrEqual(minimumDistance(week, roles, []));
+  });
+
+  it('keeps the locked picks in every candidate', async () => {
+    const locked: Assignment[] = [{ showId: 'tue', role: roles[0], performer: CAST_MEMBERS.find(m => m.eligibleRoles.includes(roles[0]))!.name }];
+    const first = await new SchedulingAlgorithm(week, CAST_MEMBERS, locked, { seed: 2 }).autoGenerate();
+    const second = await new SchedulingAlgorithm(week, CAST_MEMBERS, locked, { seed: 2, avoid: first.assignments }).autoGenerate();
+
+    for (const result of [first, second]) {
+      expect(result.assignments).toContainEqual(expect.objectContaining(locked[0]));
+    }
+  });
+});
@@ -0,0 +1,191 @@
+import { api, APIError } from "encore.dev/api";
+import { Show, Assignment } from "./types";
+import { AutoGenerateResult, newSeed } from "./algorithm";
+import { diffSnapshots } from "./revisions";
+import { ConsecutiveShowAnalysis, LoadBalancingStats } from "./validate_comprehensive";
+
+export interface GenerateCandidatesRequest {
+  shows: Show[];
+  // Picks every candidate keeps, exactly as AutoGenerateRequest.existingAssignments.
+  existingAssignments?: Assignment[];
+  scheduleId?: string;
+  // How many to offer, 1 to MAX_CANDIDATES. Defaults to 3.
+  count?: number;
+  // Seeds the first run; later runs take the next numbers. Omitted -> fresh.
+  seed?: number;
+}
+
+// How a candidate scores under validateComprehensive, cut down to what tells
+// candidates apart.
+export interface CandidateMetrics {
+  overallScore: number;
+  isValid: boolean;
+  criticalErrors: number;
+  warnings: number;
+  completionPercentage: number;
+  // Stage shows per performer, fewest and most.
+  showRange: { min: number; max: number };
+  // Performers outside their expected range (validateComprehensive's
+  // underutilized, overworked and critical).
+  unbalanced: number;
+  // The longest run anyone plays, counting shows carried in from last week.
+  longestRun: number;
+  // Performers resting on each weekday, Sunday first.
+  redDayWeekdays: number[];
+  // The most performers resting on any one weekday. Lower spreads the week's
+  // RED days more evenly.
+  busiestRedDay: number;
+}
+
+export interface ScheduleCandidate {
+  // Its run in the generation log (see generations.ts).
+  generationId: string;
+  seed: number;
+  success: boolean;
+  assignments: Assignment[];
+  errors?: string[];
+  warnings?: string[];
+  metrics: CandidateMetrics;
+  loadBalancing: LoadBalancingStats[];
+  consecutiveAnalysis: ConsecutiveShowAnalysis[];
+  // Stage picks and RED days that differ from the nearest other candidate.
+  differences: number;
+}
+
+export interface GenerateCandidatesResponse {
+  // Best overallScore first.
+  candidates: ScheduleCandidate[];
+}
+
+interface GeneratedRun {
+  generationId: string;
+  seed: number;
+  result: AutoGenerateResult;
+}
+
+export const MAX_CANDIDATES = 6;
+// Runs tried per candidate asked for before settling for fewer.
+const ATTEMPTS_PER_CANDIDATE = 4;
+
+// Stage picks and RED days that differ between two weeks of the same shows.
+export function candidateDistance(shows: Show[], a: Assignment[], b: Assignment[]): number {
+  const diff = diffSnapshots(
+    { location: "", week: "", shows, assignments: a },
+    { location: "", week: "", shows, assignments: b }
+  );
+  return diff.assignments.length + diff.redDays.length;
+}
+
+// A candidate must differ from every other in at least a tenth of the slots
+// generation was free to fill, so near-copies are dropped rather than offered.
+export function minimumDistance(shows: Show[], roles: string[], existing: Assignment[]): number {
+  const stageSlots = shows.filter(s => s.status === "show").length * roles.length;
+  const locked = existing.filter(a => a.role !== "OFF" && a.performer).length;
+  return Math.max(1, Math.ceil((stageSlots - locked) / 10));
+}
+
+// Performers resting on each weekday (Sunday first), one per performer.
+export function redDayWeekdays(shows: Show[], assignments: Assignment[]): number[] {
+  const dates = new Map(shows.map(s => [s.id, s.date]));
+  const restDates = new Map<string, string>();
+  for (const a of assignments) {
+    const date = dates.get(a.showId);
+    if (a.isRedDay && date && !restDates.has(a.performer)) restDates.set(a.performer, date);
+  }
+  const counts = [0, 0, 0, 0, 0, 0, 0];
+  for (const date of restDates.values()) {
+    counts[new Date(`${date}T12:00:00Z`).getUTCDay()]++;
+  }
+  return counts;
+}
+
+// Generates several different weeks for the same shows, each scored like
+// validateComprehensive, so one can be picked and applied. Nothing is saved.
+export const generateCandidates = api<GenerateCandidatesRequest, GenerateCandidatesResponse>(
+  { expose: true, method: "POST", path: "/schedules/candidates", auth: true },
+  async (req) => {
+    const count = req.count ?? 3;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_CANDIDATES) {
+      throw APIError.invalidArgument(`count must be a whole number from 1 to ${MAX_CANDIDATES}`);
+    }
+    const { checkedSeed, recordGeneration, runGeneration } = await import("./generations");
+    const firstSeed = checkedSeed(req.seed) ?? newSeed();
+
+    const { requireCompanyRole, scheduleCompanyId } = await import("./companies");
+    const companyId = await requireCompanyRole("manager", await scheduleCompanyId(req.scheduleId));
+    const { analyzeComprehensive, loadComprehensiveContext } = await import("./validate_comprehensive");
+    const context = await loadComprehensiveContext(companyId, req.shows, req.scheduleId);
+
+    const existingAssignments = req.existingAssignments ?? [];
+    const minimum = minimumDistance(req.shows, context.roles, existingAssignments);
+    const accepted: GeneratedRun[] = [];
+    let firstFailure: GeneratedRun | undefined;
+
+    for (let attempt = 0; attempt < count * ATTEMPTS_PER_CANDIDATE && accepted.length < count; attempt++) {
+      const inputs = {
+        shows: req.shows,
+        existingAssignments,
+        castMembers: context.castMembers,
+        roles: context.roleCatalogue,
+        unavailability: context.unavailability,
+        carryOver: context.carryOver,
+        rules: context.rules,
+        // Each run is steered away from the candidates kept so far.
+        avoid: accepted.length > 0 ? accepted.flatMap(c => c.result.assignments) : undefined
+      };
+      const seed = (firstSeed + attempt) >>> 0;
+      const result = await runGeneration(inputs, seed);
+
+      if (!result.success) {
+        if (!firstFailure) {
+          firstFailure = { generationId: await recordGeneration(companyId, { scheduleId: req.scheduleId }, inputs, result), seed, result };
+        }
+        continue;
+      }
+      if (accepted.some(c => candidateDistance(req.shows, c.result.assignments, result.assignments) < minimum)) {
+        continue;
+      }
+      // Only the runs offered are logged; near-copies and repeat failures are
+      // dropped unrecorded.
+      accepted.push({ generationId: await recordGeneration(companyId, { scheduleId: req.scheduleId }, inputs, result), seed, result });
+    }
+
+    // Nothing generated: offer the first failure, so the editor can say why.
+    const offered = accepted.length > 0 ? accepted : firstFailure ? [firstFailure] : [];
+
+    const candidates = offered.map(({ generationId, seed, result }) => {
+      const analysis = analyzeComprehensive(context, result.assignments);
+      const showCounts = analysis.loadBalancing.map(s => s.showCount);
+      const weekdays = redDayWeekdays(req.shows, result.assignments);
+      const others = offered.filter(o => o.generationId !== generationId);
+      return {
+        generationId,
+        seed,
+        success: result.success,
+        assignments: result.assignments,
+        errors: result.errors,
+        warnings: result.warnings,
+        metrics: {
+          overallScore: analysis.overallScore,
+          isValid: analysis.isValid,
+          criticalErrors: analysis.summary.criticalErrors,
+          warnings: analysis.summary.warnings,
+          completionPercentage: analysis.summary.completionPercentage,
+          showRange: { min: showCounts.length ? Math.min(...showCounts) : 0, max: showCounts.length ? Math.max(...showCounts) : 0 },
+          unbalanced: analysis.loadBalancing.filter(s => s.status !== "optimal").length,
+          longestRun: Math.max(0, ...analysis.consecutiveAnalysis.map(c => c.maxConsecutive)),
+          redDayWeekdays: weekdays,
+          busiestRedDay: Math.max(...weekdays)
+        },
+        loadBalancing: analysis.loadBalancing,
+        consecutiveAnalysis: analysis.consecutiveAnalysis,
+        differences: others.length > 0
+          ? Math.min(...others.map(o => candidateDistance(req.shows, o.result.assignments, result.assignments)))
+          : 0
+      };
+    });
+
+    candidates.sort((a, b) => b.metrics.overallScore - a.metrics.overallScore);
+    return { candidates };
+  }
+);
@@ -1,39 +1,126 @@
 import { api } from "encore.dev/api";
-import { CAST_MEMBERS, ROLES, CastMember, Role } from "./types";
+import { scheduleDB } from "./db";
+import { CAST_MEMBERS, DEFAULT_ROLE_CATALOGUE, CastMember, Role, RoleDefinition } from "./types";
 
 export interface GetCastMembersResponse {
   castMembers: CastMember[];
+  // Active role names in catalogue order.
   roles: Role[];
+  // The full catalogue; pass it to SchedulingOptions.roles.
+  roleCatalogue: RoleDefinition[];
 }
 
-// Retrieves all cast members and their role eligibility from the company management system.
+export interface ScheduleTour {
+  id: string;
+  name: string;
+  segmentName: string;
+  castMemberIds: string[];
+}
+
+export interface ScheduleCastResponse extends GetCastMembersResponse {
+  // Set when the schedule is a tour week: castMembers is that segment's cast.
+  tour?: Omit<ScheduleTour, "castMemberIds">;
+}
+
+// One company's active roster as CastMembers. Generation and validation pass
+// the company of the schedule they're working on (see scheduleCompanyId), so a
+// week is always cast from its own company, whichever one the caller has open.
+//
+// With `castMemberIds` (a tour segment's cast list, see loadScheduleCast) the
+// roster is that list instead: archived members included, so a guest kept on
+// the archive can join one segment without joining the company.
+export async function loadCastMembers(companyId: string, castMemberIds?: string[]): Promise<GetCastMembersResponse> {
+  // Import the company module dynamically to avoid circular dependencies
+  try {
+    const { loadCompany } = await import("./company");
+
+    // Get active company members
+    const companyData = await loadCompany(companyId);
+    const tourCast = pickTourCast([...companyData.currentCompany, ...companyData.archive], castMemberIds ?? []);
+    const members = tourCast.length > 0 ? tourCast : companyData.currentCompany;
+
+    // Convert company members to CastMember format (carry gender through)
+    const castMembers: CastMember[] = members.map(member => ({
+      name: member.name,
+      eligibleRoles: member.eligibleRoles,
+      gender: member.gender
+    }));
+
+    // An empty roster is genuinely empty: a new user's company is seeded when
+    // it is made (see currentCompanyId), not on read.
+    return {
+      castMembers,
+      roles: companyData.roles,
+      roleCatalogue: companyData.roleCatalogue
+    };
+  } catch (error) {
+    // Fallback to default cast members if company system fails
+    return {
+      castMembers: CAST_MEMBERS,
+      roles: DEFAULT_ROLE_CATALOGUE.map(r => r.name),
+      roleCatalogue: DEFAULT_ROLE_CATALOGUE
+    };
+  }
+}
+
+/**
+ * The members a tour cast list names, in roster order. Entries are member ids;
+ * tours created before ids were stable name performers instead, so a name
+ * matches too. Callers treat a list that names nobody still on the books
+ * (every member since deleted) as no list at all, rather than leaving the tour
+ * with no cast.
+ */
+export function pickTourCast<M extends { name: string; id?: string }>(members: M[], castMemberIds: string[]): M[] {
+  const wanted = new Set(castMemberIds);
+  return members.filter(m => wanted.has(m.name) || (m.id !== undefined && wanted.has(m.id)));
+}
+
+// The tour segment a saved schedule belongs to, if any, with its cast list.
+export async function loadScheduleTour(companyId: string, scheduleId: string | undefined): Promise<ScheduleTour | null> {
+  if (!scheduleId) return null;
+  const row = await scheduleDB.queryRow<{ id: string; name: string; segment_name: string; cast_member_ids: unknown }>`
+    SELECT t.id, t.name, t.segment_name, t.cast_member_ids
+    FROM schedules s
+    JOIN tours t ON t.id = s.tour_id
+    WHERE s.id = ${scheduleId} AND s.company_id = ${companyId}
+  `;
+  if (!row) return null;
+  return { id: row.id, name: row.name, segmentName: row.segment_name, castMemberIds: castMemberIdsOf(row.cast_member_ids) };
+}
+
+// tours.cast_member_ids as read back from the database (JSON text or already
+// parsed, depending on the driver path).
+export function castMemberIdsOf(value: unknown): string[] {
+  try {
+    const ids = typeof value === "string" ? JSON.parse(value) : value;
+    return Array.isArray(ids) ? ids.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// The cast a week is generated and validated against: its tour segment's cast
+// list when it belongs to a tour, otherwise the company's active roster.
+export async function loadScheduleCast(companyId: string, scheduleId: string | undefined): Promise<ScheduleCastResponse> {
+  const tour = await loadScheduleTour(companyId, scheduleId);
+  const cast = await loadCastMembers(companyId, tour?.castMemberIds);
+  return tour ? { ...cast, tour: { id: tour.id, name: tour.name, segmentName: tour.segmentName } } : cast;
+}
+
+// Retrieves the current company's cast members and their role eligibility.
 export const getCastMembers = api<void, GetCastMembersResponse>(
   { expose: true, method: "GET", path: "/cast-members", auth: true },
   async () => {
-    // Import the company module dynamically to avoid circular dependencies
-    try {
-      const { getCompany } = await import("./company");
-      
-      // Get active company members
-      const companyData = await getCompany();
-      
-      // Convert company members to CastMember format (carry gender through)
-      const castMembers: CastMember[] = companyData.currentCompany.map(member => ({
-        name: member.name,
-        eligibleRoles: member.eligibleRoles,
-        gender: member.gender
-      }));
-      
-      return {
-        castMembers: castMembers.length > 0 ? castMembers : CAST_MEMBERS,
-        roles: ROLES
-      };
-    } catch (error) {
-      // Fallback to default cast members if company system fails
-      return {
-        castMembers: CAST_MEMBERS,
-        roles: ROLES
-      };
-    }
+    const { currentCompanyId } = await import("./companies");
+    return loadCastMembers(await currentCompanyId());
+  }
+);
+
+// Retrieves the cast a schedule is worked against: its tour segment's, or the company's.
+export const getScheduleCast = api<{ id: string }, ScheduleCastResponse>(
+  { expose: true, method: "GET", path: "/schedules/:id/cast", auth: true },
+  async (req) => {
+    const { scheduleCompanyId } = await import("./companies");
+    return loadScheduleCast(await scheduleCompanyId(req.id), req.id);
   }
 );
@@ -0,0 +1,129 @@
+import { describe, it, expect, afterEach, beforeAll } from 'vitest';
+import { addMember, deleteMember, getCompany } from './company';
+import { addRole, listRoles } from './roles';
+import { createCompany, currentCompanyId, listCompanies, listCompanyUsers, renameCompany, setCompanyUserRole, switchCompany } from './companies';
+import { create } from './create';
+import { get } from './get';
+import { list } from './list';
+import { update } from './update';
+import { scheduleDB } from './db';
+
+describe('Companies', () => {
+  const created: string[] = [];
+  // The caller's own company, made on their first request.
+  let home: string;
+
+  beforeAll(async () => {
+    home = await currentCompanyId();
+  });
+
+  afterEach(async () => {
+    // Switch back first so the other suites keep running in their own company.
+    await switchCompany({ id: home });
+    for (const id of created.splice(0)) {
+      await scheduleDB.exec`DELETE FROM company_members WHERE company_id = ${id}`;
+      await scheduleDB.exec`DELETE FROM schedules WHERE company_id = ${id}`;
+      await scheduleDB.exec`DELETE FROM companies WHERE id = ${id}`;
+    }
+  });
+
+  it('creates a company, switches to it and lists it', async () => {
+    const { company } = await createCompany({ name: '  TEMP Tour B  ' });
+    created.push(company.id);
+    expect(company.name).toBe('TEMP Tour B');
+
+    const listed = await listCompanies();
+    expect(listed.currentCompanyId).toBe(company.id);
+    expect(listed.companies.map(c => c.id)).toEqual(expect.arrayContaining([home, company.id]));
+
+    await renameCompany({ id: company.id, name: 'TEMP Tour C' });
+    expect((await listCompanies()).companies.find(c => c.id === company.id)?.name).toBe('TEMP Tour C');
+  });
+
+  it('keeps each company\'s roster to itself', async () => {
+    const { company } = await createCompany({ name: 'TEMP Sit-down' });
+    created.push(company.id);
+
+    // A new company starts empty; afterEach removes what it gains.
+    const { member } = await addMember({ name: 'TEMP ONLY HERE', eligibleRoles: ['Sarge'] });
+    expect((await getCompany()).currentCompany.map(m => m.id)).toEqual([member.id]);
+
+    await switchCompany({ id: home });
+    expect((await getCompany()).currentCompany.some(m => m.id === member.id)).toBe(false);
+    await expect(deleteMember({ id: member.id })).rejects.toThrow('Member not found');
+  });
+
+  it("gives a user with no company one of their own, not someone else's", async () => {
+    const mine = (await listCompanies()).companies.find(c => c.id === home);
+    expect(mine?.role).toBe('admin');
+    expect((await listCompanyUsers({ id: home })).users).toHaveLength(1);
+    expect((await getCompany()).currentCompany.length).toBeGreaterThan(0);
+  });
+
+  it('does not give a removed user their own company back', async () => {
+    const [{ user_id: userId, role }] = await scheduleDB.queryAll<{ user_id: string; role: string }>`
+      SELECT user_id, role FROM company_users WHERE company_id = ${home}
+    `;
+    await scheduleDB.exec`DELETE FROM company_users WHERE company_id = ${home} AND user_id = ${userId}`;
+    try {
+      await expect(currentCompanyId()).rejects.toMatchObject({ code: 'permission_denied' });
+      expect(await scheduleDB.queryRow`SELECT 1 FROM company_users WHERE user_id = ${userId}`).toBeNull();
+    } finally {
+      await scheduleDB.exec`
+        INSERT INTO company_users (company_id, user_id, role) VALUES (${home}, ${userId}, ${role})
+      `;
+    }
+  });
+
+  it('keeps each company\'s role catalogue to itself', async () => {
+    const { company } = await createCompany({ name: 'TEMP Other tracks' });
+    created.push(company.id);
+
+    // A new company starts from the STOMP tracks, under its own ids.
+    const { roles } = await listRoles();
+    expect(roles.map(r => r.name)).toEqual(['Sarge', 'Potato', 'Mozzie', 'Ringo', 'Particle', 'Bin', 'Cornish', 'Who']);
+    const { role } = await addRole({ name: 'TempOnlyHere' });
+
+    await switchCompany({ id: home });
+    const homeRoles = (await listRoles()).roles;
+    expect(homeRoles.some(r => r.id === role.id || r.name === 'TempOnlyHere')).toBe(false);
+    expect(homeRoles.some(r => roles.some(other => other.id === r.id))).toBe(false);
+  });
+
+  it('makes the creator admin and keeps a company from losing its last admin', async () => {
+    const { company } = await createCompany({ name: 'TEMP Admins' });
+    created.push(company.id);
+    expect(company.role).toBe('admin');
+
+    const { users } = await listCompanyUsers({ id: company.id });
+    expect(users).toHaveLength(1);
+    await expect(setCompanyUserRole({ id: company.id, userId: users[0].userId, role: 'viewer' }))
+      .rejects.toMatchObject({ code: 'failed_precondition' });
+  });
+
+  it('lets a viewer read published schedules but not edit or see drafts', async () => {
+    const { company } = await createCompany({ name: 'TEMP Viewers' });
+    created.push(company.id);
+    const { schedule: draft } = await create({ location: 'TEMP Draft', week: '1', shows: [] });
+    const { schedule: published } = await create({ location: 'TEMP Published', week: '2', shows: [] });
+    await update({ id: published.id, published: true });
+
+    // Hand admin to someone else, then step down to viewer.
+    await scheduleDB.exec`
+      INSERT INTO company_users (company_id, user_id, role) VALUES (${company.id}, 'other-admin', 'admin')
+    `;
+    const me = (await listCompanyUsers({ id: company.id })).users.find(u => u.userId !== 'other-admin')!;
+    await setCompanyUserRole({ id: company.id, userId: me.userId, role: 'viewer' });
+
+    expect((await list()).schedules.map(s => s.id)).toEqual([published.id]);
+    await expect(get({ id: draft.id })).rejects.toMatchObject({ code: 'not_found' });
+    await expect(update({ id: published.id, week: '3' })).rejects.toMatchObject({ code: 'permission_denied' });
+    await expect(addMember({ name: 'TEMP NOPE', eligibleRoles: ['Sarge'] }))
+      .rejects.toMatchObject({ code: 'permission_denied' });
+  });
+
+  it('rejects a blank name and companies the caller is not in', async () => {
+    await expect(createCompany({ name: ' ' })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(switchCompany({ id: 'company_nobody' })).rejects.toMatchObject({ code: 'not_found' });
+  });
+});
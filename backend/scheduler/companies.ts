@@ -0,0 +1,360 @@
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "encore.dev/internal/codegen/auth";
+import type { AuthData } from "../auth/encore_auth";
+import { inTransaction, scheduleDB } from "./db";
+
+// What a member may do in a company, weakest first. A viewer reads published
+// schedules and the roster; a manager edits schedules, tours, templates and the
+// roster; an admin also manages the company, its users and its role catalogue.
+export type CompanyRole = "viewer" | "manager" | "admin";
+
+const ROLE_RANK: Record<CompanyRole, number> = { viewer: 0, manager: 1, admin: 2 };
+
+export interface Company {
+  id: string;
+  name: string;
+  // The caller's role in this company.
+  role: CompanyRole;
+}
+
+export interface ListCompaniesResponse {
+  companies: Company[];
+  // The company every list and create is scoped to.
+  currentCompanyId: string;
+}
+
+export interface CreateCompanyRequest {
+  name: string;
+}
+
+export interface CompanyResponse {
+  company: Company;
+}
+
+export interface RenameCompanyRequest {
+  id: string;
+  name: string;
+}
+
+export interface AddCompanyUserRequest {
+  id: string;
+  // An existing account's email; they can switch to the company straight away.
+  email: string;
+  // Defaults to viewer.
+  role?: CompanyRole;
+}
+
+export interface CompanyUser {
+  userId: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  role: CompanyRole;
+}
+
+export interface ListCompanyUsersResponse {
+  users: CompanyUser[];
+}
+
+export interface SetCompanyUserRoleRequest {
+  id: string;
+  userId: string;
+  role: CompanyRole;
+}
+
+async function currentUserId(): Promise<string> {
+  const authData = await getAuthData<AuthData>();
+  return authData?.userID ?? 'system';
+}
+
+// The caller's current company: the membership they selected most recently.
+// A user with no membership at all — a new sign-up — gets a company of their
+// own; nobody joins another company except through addCompanyUser.
+export async function currentCompanyId(): Promise<string> {
+  const userId = await currentUserId();
+  return await selectedCompanyId(userId) ?? createOwnCompany(userId);
+}
+
+async function selectedCompanyId(userId: string): Promise<string | null> {
+  const row = await scheduleDB.queryRow<{ company_id: string }>`
+    SELECT company_id FROM company_users
+    WHERE user_id = ${userId}
+    ORDER BY selected_at DESC
+    LIMIT 1
+  `;
+  return row?.company_id ?? null;
+}
+
+// A user's own company, with them as its admin and the default roster and
+// track list to start from. Its id is company_<user id>, as migration 15 gave
+// every existing user, so only their first request ever creates it. If it
+// already exists they were either racing that first request, which has made
+// them a member by the time its insert lets ours through, or were removed
+// from it since, which doesn't make them its admin again.
+async function createOwnCompany(userId: string): Promise<string> {
+  const companyId = `company_${userId}`;
+  const created = await inTransaction(async tx => {
+    const company = await tx.queryRow`
+      INSERT INTO companies (id, name) VALUES (${companyId}, ${"STOMP"})
+      ON CONFLICT (id) DO NOTHING
+      RETURNING id
+    `;
+    if (company) {
+      await tx.exec`
+        INSERT INTO company_users (company_id, user_id, role) VALUES (${companyId}, ${userId}, ${"admin"})
+      `;
+    }
+    return company !== null;
+  });
+  if (!created) {
+    const selected = await selectedCompanyId(userId);
+    if (selected) return selected;
+    throw APIError.permissionDenied("you don't belong to any company; ask an admin to add you");
+  }
+
+  // Imported dynamically: both modules import this one.
+  const { seedRoleCatalogue } = await import("./roles");
+  const { seedRoster } = await import("./company");
+  await seedRoleCatalogue(companyId);
+  await seedRoster(companyId);
+  return companyId;
+}
+
+// The caller's role in a company, or null if they don't belong to it.
+export async function companyRole(companyId: string): Promise<CompanyRole | null> {
+  const userId = await currentUserId();
+  const row = await scheduleDB.queryRow<{ role: CompanyRole }>`
+    SELECT role FROM company_users
+    WHERE company_id = ${companyId} AND user_id = ${userId}
+  `;
+  return row?.role ?? null;
+}
+
+// Throws permissionDenied unless the caller holds at least `minimum` in the
+// company (their current one by default), and returns that company's id so
+// an endpoint can check and scope in one line.
+export async function requireCompanyRole(minimum: CompanyRole, companyId?: string): Promise<string> {
+  const id = companyId ?? await currentCompanyId();
+  const role = await companyRole(id);
+  if (!role) {
+    throw APIError.notFound("company not found");
+  }
+  if (ROLE_RANK[role] < ROLE_RANK[minimum]) {
+    throw APIError.permissionDenied(`this needs the ${minimum} role in this company`);
+  }
+  return id;
+}
+
+// Whether the caller sees unpublished schedules in a company: anyone who can
+// edit them does.
+export async function canSeeDrafts(companyId: string): Promise<boolean> {
+  const role = await companyRole(companyId);
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK.manager;
+}
+
+// The company a saved schedule belongs to, when the caller belongs to it too;
+// otherwise (no id, an unsaved week, or someone else's schedule) the caller's
+// current company.
+export async function scheduleCompanyId(scheduleId: string | undefined): Promise<string> {
+  if (scheduleId) {
+    const userId = await currentUserId();
+    const row = await scheduleDB.queryRow<{ company_id: string }>`
+      SELECT s.company_id
+      FROM schedules s
+      JOIN company_users cu ON cu.company_id = s.company_id AND cu.user_id = ${userId}
+      WHERE s.id = ${scheduleId}
+    `;
+    if (row) return row.company_id;
+  }
+  return currentCompanyId();
+}
+
+async function loadCompanyFor(companyId: string, userId: string): Promise<Company> {
+  const company = await scheduleDB.queryRow<Company>`
+    SELECT c.id, c.name, cu.role
+    FROM companies c
+    JOIN company_users cu ON cu.company_id = c.id
+    WHERE c.id = ${companyId} AND cu.user_id = ${userId}
+  `;
+  // Companies outside the caller's memberships read as not-found, the same way
+  // another company's template does.
+  if (!company) {
+    throw APIError.notFound("company not found");
+  }
+  return company;
+}
+
+function assertRole(role: string): asserts role is CompanyRole {
+  if (!Object.keys(ROLE_RANK).includes(role)) {
+    throw APIError.invalidArgument(`unknown company role ${role}`);
+  }
+}
+
+// Lists the companies the caller belongs to.
+export const listCompanies = api<void, ListCompaniesResponse>(
+  { expose: true, method: "GET", path: "/companies", auth: true },
+  async () => {
+    const userId = await currentUserId();
+    const currentId = await currentCompanyId();
+
+    const companies = await scheduleDB.queryAll<Company>`
+      SELECT c.id, c.name, cu.role
+      FROM companies c
+      JOIN company_users cu ON cu.company_id = c.id
+      WHERE cu.user_id = ${userId}
+      ORDER BY c.name ASC
+    `;
+
+    return { companies, currentCompanyId: currentId };
+  }
+);
+
+// Creates a company with an empty roster and the default track list, makes
+// the caller its admin and switches them to it.
+export const createCompany = api<CreateCompanyRequest, CompanyResponse>(
+  { expose: true, method: "POST", path: "/companies", auth: true },
+  async (req) => {
+    const name = req.name.trim();
+    if (!name) {
+      throw APIError.invalidArgument("company name is required");
+    }
+
+    const userId = await currentUserId();
+    const company: Company = {
+      id: `company_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      role: "admin",
+    };
+
+    await scheduleDB.exec`
+      INSERT INTO companies (id, name) VALUES (${company.id}, ${company.name})
+    `;
+    await scheduleDB.exec`
+      INSERT INTO company_users (company_id, user_id, role, selected_at)
+      VALUES (${company.id}, ${userId}, ${company.role}, ${new Date()})
+    `;
+    const { seedRoleCatalogue } = await import("./roles");
+    await seedRoleCatalogue(company.id);
+
+    return { company };
+  }
+);
+
+// Renames a company. Admins only.
+export const renameCompany = api<RenameCompanyRequest, CompanyResponse>(
+  { expose: true, method: "PUT", path: "/companies/:id", auth: true },
+  async (req) => {
+    const name = req.name.trim();
+    if (!name) {
+      throw APIError.invalidArgument("company name is required");
+    }
+    await requireCompanyRole("admin", req.id);
+
+    await scheduleDB.exec`UPDATE companies SET name = ${name} WHERE id = ${req.id}`;
+    return { company: { id: req.id, name, role: "admin" } };
+  }
+);
+
+// Makes a company the caller's current one.
+export const switchCompany = api<{ id: string }, CompanyResponse>(
+  { expose: true, method: "POST", path: "/companies/:id/switch", auth: true },
+  async (req) => {
+    const userId = await currentUserId();
+    const company = await loadCompanyFor(req.id, userId);
+
+    await scheduleDB.exec`
+      UPDATE company_users SET selected_at = ${new Date()}
+      WHERE company_id = ${req.id} AND user_id = ${userId}
+    `;
+    return { company };
+  }
+);
+
+// Lists who belongs to a company and as what.
+export const listCompanyUsers = api<{ id: string }, ListCompanyUsersResponse>(
+  { expose: true, method: "GET", path: "/companies/:id/users", auth: true },
+  async (req) => {
+    await requireCompanyRole("viewer", req.id);
+
+    const rows = await scheduleDB.queryAll<{
+      user_id: string;
+      email: string | null;
+      first_name: string | null;
+      last_name: string | null;
+      role: CompanyRole;
+    }>`
+      SELECT cu.user_id, u.email, u.first_name, u.last_name, cu.role
+      FROM company_users cu
+      LEFT JOIN users u ON u.id = cu.user_id
+      WHERE cu.company_id = ${req.id}
+      ORDER BY u.email ASC
+    `;
+
+    return {
+      users: rows.map(row => ({
+        userId: row.user_id,
+        email: row.email ?? row.user_id,
+        firstName: row.first_name ?? undefined,
+        lastName: row.last_name ?? undefined,
+        role: row.role,
+      })),
+    };
+  }
+);
+
+// Gives another account access to a company. Admins only.
+export const addCompanyUser = api<AddCompanyUserRequest, void>(
+  { expose: true, method: "POST", path: "/companies/:id/users", auth: true },
+  async (req) => {
+    const role = req.role ?? "viewer";
+    assertRole(role);
+    await requireCompanyRole("admin", req.id);
+
+    const user = await scheduleDB.queryRow<{ id: string }>`
+      SELECT id FROM users WHERE LOWER(email) = LOWER(${req.email.trim()})
+    `;
+    if (!user) {
+      throw APIError.notFound("no account with that email");
+    }
+
+    // Joining doesn't switch them: selected_at starts in the past, so their
+    // current company stays put until they pick this one.
+    await scheduleDB.exec`
+      INSERT INTO company_users (company_id, user_id, role, selected_at)
+      VALUES (${req.id}, ${user.id}, ${role}, ${new Date(0)})
+      ON CONFLICT DO NOTHING
+    `;
+  }
+);
+
+// Changes a user's role in a company. Admins only; a company always keeps at
+// least one admin.
+export const setCompanyUserRole = api<SetCompanyUserRoleRequest, void>(
+  { expose: true, method: "PUT", path: "/companies/:id/users/:userId", auth: true },
+  async (req) => {
+    assertRole(req.role);
+    await requireCompanyRole("admin", req.id);
+
+    const existing = await scheduleDB.queryRow<{ role: CompanyRole }>`
+      SELECT role FROM company_users WHERE company_id = ${req.id} AND user_id = ${req.userId}
+    `;
+    if (!existing) {
+      throw APIError.notFound("company user not found");
+    }
+
+    if (existing.role === "admin" && req.role !== "admin") {
+      const others = await scheduleDB.queryRow<{ n: number }>`
+        SELECT COUNT(*)::int AS n FROM company_users
+        WHERE company_id = ${req.id} AND role = 'admin' AND user_id != ${req.userId}
+      `;
+      if ((others?.n ?? 0) === 0) {
+        throw APIError.failedPrecondition("a company needs at least one admin");
+      }
+    }
+
+    await scheduleDB.exec`
+      UPDATE company_users SET role = ${req.role}
+      WHERE company_id = ${req.id} AND user_id = ${req.userId}
+    `;
+  }
+);
@@ -1,10 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { getCompany, deleteMember, updateMember, addMember } from './company';
+import { getCompany, deleteMember, updateMember, addMember, seedRoster } from './company';
+import { currentCompanyId } from './companies';
 import { CAST_MEMBERS } from './types';
 import { scheduleDB } from './db';
 
 describe('Company roster seeding', () => {
-  it('seeds exactly the 12 defaults on first call', async () => {
+  it("seeds exactly the 12 defaults into a new user's own company", async () => {
     const { currentCompany } = await getCompany();
     expect(currentCompany.length).toBeGreaterThanOrEqual(CAST_MEMBERS.length);
 
@@ -52,24 +53,24 @@ describe('Company roster seeding', () => {
     const guarded = await getCompany();
     expect(guarded.currentCompany.map(m => m.id)).toEqual([last.id]);
 
-    // Empty the table directly (bypassing the API) to exercise the
-    // seed-marker behavior on a truly empty roster.
-    await scheduleDB.exec`DELETE FROM company_members`;
+    // Empty the roster directly (bypassing the API) to check a truly empty
+    // roster stays empty.
+    const companyId = await currentCompanyId();
+    await scheduleDB.exec`DELETE FROM company_members WHERE company_id = ${companyId}`;
 
     const emptied = await getCompany();
     expect(emptied.currentCompany).toEqual([]);
     expect(emptied.archive).toEqual([]);
 
     // The old COUNT(*)==0 check would have reseeded the 12 defaults here.
-    // The marker-gated check must not.
+    // Seeding happens once, when the company is made, so nothing does.
     const afterAnotherCall = await getCompany();
     expect(afterAnotherCall.currentCompany).toEqual([]);
     expect(afterAnotherCall.archive).toEqual([]);
 
     // Restore the FULL default roster so later test files (which share this
-    // database) see the real 12-member company, not an empty one: wipe the
-    // seed marker and let ensureSeeded() run again on the next getCompany().
-    await scheduleDB.exec`DELETE FROM company_seed_marker`;
+    // database) see the real 12-member company, not an empty one.
+    await seedRoster(companyId);
     const restored = await getCompany();
     const reseeded = restored.currentCompany.filter(m => m.id.startsWith('member_seed_'));
     expect(reseeded.length).toBe(CAST_MEMBERS.length);
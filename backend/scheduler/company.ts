@@ -1,11 +1,25 @@
 import { api, APIError } from "encore.dev/api";
 import { scheduleDB } from "./db";
-import { CAST_MEMBERS, ROLES, FEMALE_ONLY_ROLES, CastMember, Role } from "./types";
+import { CAST_MEMBERS, DEFAULT_ROLE_CATALOGUE, CastMember, Role, RoleDefinition } from "./types";
+import { loadRoleCatalogue } from "./roles";
+import { currentCompanyId, requireCompanyRole } from "./companies";
+
+// Roles conventionally cast female (Bin/Cornish in the seeded catalogue) imply
+// a female performer, so a member's gender can be derived from eligibility
+// when not explicitly provided.
+function deriveGender(eligibleRoles: Role[], catalogue: RoleDefinition[]): "male" | "female" {
+  const femaleRoles = new Set(catalogue.filter(r => r.preferredGender === "female").map(r => r.name));
+  return eligibleRoles.some(r => femaleRoles.has(r)) ? "female" : "male";
+}
 
-// Female-only roles (Bin/Cornish) imply a female performer, so a member's
-// gender can be derived from eligibility when not explicitly provided.
-function deriveGender(eligibleRoles: Role[]): "male" | "female" {
-  return eligibleRoles.some(r => FEMALE_ONLY_ROLES.includes(r)) ? "female" : "male";
+// Eligibility may name inactive roles (a track cut for now, not forever), but
+// never one the catalogue doesn't know.
+function assertKnownRoles(eligibleRoles: Role[], catalogue: RoleDefinition[]): void {
+  const known = new Set(catalogue.map(r => r.name));
+  const unknown = eligibleRoles.find(r => !known.has(r));
+  if (unknown !== undefined) {
+    throw APIError.invalidArgument(`unknown role ${unknown}`);
+  }
 }
 
 export interface CompanyMember {
@@ -22,7 +36,10 @@ export interface CompanyMember {
 export interface GetCompanyResponse {
   currentCompany: CompanyMember[];
   archive: CompanyMember[];
+  // Active role names in catalogue order — the tracks each show casts.
   roles: Role[];
+  // The full catalogue, inactive roles included.
+  roleCatalogue: RoleDefinition[];
 }
 
 export interface AddMemberRequest {
@@ -84,28 +101,19 @@ function mapRow(row: CompanyRow): CompanyMember {
   };
 }
 
-// Seed the 12 default cast members exactly once. Gated on a durable marker
-// row (company_seed_marker), not a COUNT(*) check — a count-based check would
-// re-seed the defaults whenever company_members is empty, resurrecting a
-// roster a user intentionally deleted down to zero. Deterministic ids
-// (member_seed_0..11) + ON CONFLICT DO NOTHING keep concurrent cold starts
-// race-safe and let a partial seed (crash mid-loop, marker never written)
-// heal itself on the next call instead of getting stuck half-seeded.
-async function ensureSeeded(): Promise<void> {
-  const marker = await scheduleDB.queryRow<{ id: number }>`
-    SELECT id FROM company_seed_marker WHERE id = 1
-  `;
-  if (marker) {
-    return;
-  }
-
+// Fills a new user's own company with the 12 default cast members (see
+// currentCompanyId). Companies made with createCompany start empty instead.
+// Deterministic ids (member_seed_0..11, suffixed with the company's) + ON
+// CONFLICT DO NOTHING keep concurrent first requests race-safe.
+export async function seedRoster(companyId: string): Promise<void> {
   for (let index = 0; index < CAST_MEMBERS.length; index++) {
     const member = CAST_MEMBERS[index];
-    const gender = member.gender ?? deriveGender(member.eligibleRoles);
+    const gender = member.gender ?? deriveGender(member.eligibleRoles, DEFAULT_ROLE_CATALOGUE);
     await scheduleDB.exec`
-      INSERT INTO company_members (id, name, eligible_roles, gender, status, "order")
+      INSERT INTO company_members (id, company_id, name, eligible_roles, gender, status, "order")
       VALUES (
-        ${`member_seed_${index}`},
+        ${`member_seed_${index}_${companyId}`},
+        ${companyId},
         ${member.name},
         ${JSON.stringify(member.eligibleRoles)},
         ${gender},
@@ -115,51 +123,53 @@ async function ensureSeeded(): Promise<void> {
       ON CONFLICT (id) DO NOTHING
     `;
   }
-
-  // Recorded only after every insert above succeeds — see comment above.
-  await scheduleDB.exec`
-    INSERT INTO company_seed_marker (id) VALUES (1)
-    ON CONFLICT (id) DO NOTHING
-  `;
 }
 
-// The roster is shared by every user, so it must never be emptied through the
-// API: the seed marker deliberately prevents re-seeding (see ensureSeeded), so
-// losing the last active member would leave every user with a blank company.
-async function assertNotLastActiveMember(memberId: string, action: string): Promise<void> {
+// A roster is shared by every user in its company, so it must never be
+// emptied through the API: nothing re-seeds it, so losing the last active
+// member would leave every user with a blank company.
+async function assertNotLastActiveMember(companyId: string, memberId: string, action: string): Promise<void> {
   const others = await scheduleDB.queryRow<{ n: number }>`
     SELECT COUNT(*)::int AS n FROM company_members
-    WHERE status = 'active' AND id != ${memberId}
+    WHERE company_id = ${companyId} AND status = 'active' AND id != ${memberId}
   `;
   if ((others?.n ?? 0) === 0) {
     throw APIError.failedPrecondition(`Cannot ${action} the last active company member`);
   }
 }
 
-// Retrieves the current company and archive.
-export const getCompany = api<void, GetCompanyResponse>(
-  { expose: true, method: "GET", path: "/company", auth: true },
-  async () => {
-    await ensureSeeded();
+// A company's roster and archive. getCompany serves the caller's current
+// company; loadCastMembers loads whichever company a schedule belongs to.
+export async function loadCompany(companyId: string): Promise<GetCompanyResponse> {
+  const rows = await scheduleDB.queryAll<CompanyRow>`
+    SELECT id, name, eligible_roles, gender, status, date_added, date_archived, "order"
+    FROM company_members
+    WHERE company_id = ${companyId}
+    ORDER BY "order" ASC
+  `;
+  const members = rows.map(mapRow);
 
-    const rows = await scheduleDB.queryAll<CompanyRow>`
-      SELECT id, name, eligible_roles, gender, status, date_added, date_archived, "order"
-      FROM company_members
-      ORDER BY "order" ASC
-    `;
-    const members = rows.map(mapRow);
+  const currentCompany = members.filter(m => m.status === "active");
 
-    const currentCompany = members.filter(m => m.status === "active");
+  const archive = members
+    .filter(m => m.status === "archived")
+    .sort((a, b) => (b.dateArchived?.getTime() || 0) - (a.dateArchived?.getTime() || 0));
 
-    const archive = members
-      .filter(m => m.status === "archived")
-      .sort((a, b) => (b.dateArchived?.getTime() || 0) - (a.dateArchived?.getTime() || 0));
+  const roleCatalogue = await loadRoleCatalogue(companyId);
 
-    return {
-      currentCompany,
-      archive,
-      roles: ROLES
-    };
+  return {
+    currentCompany,
+    archive,
+    roles: roleCatalogue.filter(r => r.active).map(r => r.name),
+    roleCatalogue
+  };
+}
+
+// Retrieves the current company and archive.
+export const getCompany = api<void, GetCompanyResponse>(
+  { expose: true, method: "GET", path: "/company", auth: true },
+  async () => {
+    return loadCompany(await currentCompanyId());
   }
 );
 
@@ -167,17 +177,20 @@ export const getCompany = api<void, GetCompanyResponse>(
 export const addMember = api<AddMemberRequest, AddMemberResponse>(
   { expose: true, method: "POST", path: "/company/members", auth: true },
   async (req) => {
-    await ensureSeeded();
+    const companyId = await requireCompanyRole("manager");
+
+    const catalogue = await loadRoleCatalogue(companyId);
+    assertKnownRoles(req.eligibleRoles, catalogue);
 
     const id = `member_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const now = new Date();
     const status = req.status || "active";
-    const gender = req.gender ?? deriveGender(req.eligibleRoles);
+    const gender = req.gender ?? deriveGender(req.eligibleRoles, catalogue);
 
     // Next order at the end of the active list (archived members share order 0).
     const orderRow = await scheduleDB.queryRow<{ next: number }>`
       SELECT COALESCE(MAX("order"), -1) + 1 AS next
-      FROM company_members WHERE status = 'active'
+      FROM company_members WHERE company_id = ${companyId} AND status = 'active'
     `;
     const order = status === "active" ? (orderRow?.next ?? 0) : 0;
     const dateArchived = status === "archived" ? now : null;
@@ -194,9 +207,10 @@ export const addMember = api<AddMemberRequest, AddMemberResponse>(
     };
 
     await scheduleDB.exec`
-      INSERT INTO company_members (id, name, eligible_roles, gender, status, date_added, date_archived, "order")
+      INSERT INTO company_members (id, company_id, name, eligible_roles, gender, status, date_added, date_archived, "order")
       VALUES (
         ${member.id},
+        ${companyId},
         ${member.name},
         ${JSON.stringify(member.eligibleRoles)},
         ${member.gender},
@@ -215,11 +229,11 @@ export const addMember = api<AddMemberRequest, AddMemberResponse>(
 export const updateMember = api<UpdateMemberRequest, UpdateMemberResponse>(
   { expose: true, method: "PUT", path: "/company/members/:id", auth: true },
   async (req) => {
-    await ensureSeeded();
+    const companyId = await requireCompanyRole("manager");
 
     const existing = await scheduleDB.queryRow<CompanyRow>`
       SELECT id, name, eligible_roles, gender, status, date_added, date_archived, "order"
-      FROM company_members WHERE id = ${req.id}
+      FROM company_members WHERE id = ${req.id} AND company_id = ${companyId}
     `;
     if (!existing) {
       throw new Error("Member not found");
@@ -230,14 +244,17 @@ export const updateMember = api<UpdateMemberRequest, UpdateMemberResponse>(
 
     // Coalesce provided fields.
     if (req.name !== undefined) member.name = req.name.toUpperCase();
-    if (req.eligibleRoles !== undefined) member.eligibleRoles = req.eligibleRoles;
+    if (req.eligibleRoles !== undefined) {
+      assertKnownRoles(req.eligibleRoles, await loadRoleCatalogue(companyId));
+      member.eligibleRoles = req.eligibleRoles;
+    }
     if (req.gender !== undefined) member.gender = req.gender;
     if (req.order !== undefined) member.order = req.order;
 
     // Handle status changes.
     if (req.status !== undefined && req.status !== member.status) {
       if (req.status === "archived") {
-        await assertNotLastActiveMember(req.id, "archive");
+        await assertNotLastActiveMember(companyId, req.id, "archive");
       }
 
       member.status = req.status;
@@ -251,7 +268,7 @@ export const updateMember = api<UpdateMemberRequest, UpdateMemberResponse>(
 
         const orderRow = await scheduleDB.queryRow<{ next: number }>`
           SELECT COALESCE(MAX("order"), -1) + 1 AS next
-          FROM company_members WHERE status = 'active' AND id != ${req.id}
+          FROM company_members WHERE company_id = ${companyId} AND status = 'active' AND id != ${req.id}
         `;
         member.order = orderRow?.next ?? 0;
       }
@@ -276,17 +293,17 @@ export const updateMember = api<UpdateMemberRequest, UpdateMemberResponse>(
 export const deleteMember = api<DeleteMemberRequest, void>(
   { expose: true, method: "DELETE", path: "/company/members/:id", auth: true },
   async (req) => {
-    await ensureSeeded();
+    const companyId = await requireCompanyRole("manager");
 
     const existing = await scheduleDB.queryRow<{ id: string; status: string }>`
-      SELECT id, status FROM company_members WHERE id = ${req.id}
+      SELECT id, status FROM company_members WHERE id = ${req.id} AND company_id = ${companyId}
     `;
     if (!existing) {
       throw new Error("Member not found");
     }
 
     if (existing.status === "active") {
-      await assertNotLastActiveMember(req.id, "delete");
+      await assertNotLastActiveMember(companyId, req.id, "delete");
     }
 
     await scheduleDB.exec`DELETE FROM company_members WHERE id = ${req.id}`;
@@ -297,13 +314,13 @@ export const deleteMember = api<DeleteMemberRequest, void>(
 export const reorderMembers = api<ReorderMembersRequest, void>(
   { expose: true, method: "PUT", path: "/company/reorder", auth: true },
   async (req) => {
-    await ensureSeeded();
+    const companyId = await requireCompanyRole("manager");
 
     // Update order based on the provided array (active members only).
     for (let index = 0; index < req.memberIds.length; index++) {
       await scheduleDB.exec`
         UPDATE company_members SET "order" = ${index}
-        WHERE id = ${req.memberIds[index]} AND status = 'active'
+        WHERE id = ${req.memberIds[index]} AND company_id = ${companyId} AND status = 'active'
       `;
     }
   }
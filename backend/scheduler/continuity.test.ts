@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the pure helpers are under test; keep the database and auth runtime out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { addWeekToBalance, buildCarryOver, pickPreviousSchedule, ScheduleSnapshot } from './continuity';
+import type { Assignment, Show } from './types';
+
+const show = (id: string, date: string, status: Show["status"] = "show"): Show =>
+  ({ id, date, time: status === "show" ? "19:30" : "", callTime: "", status });
+
+const snapshot = (id: string, shows: Show[], assignments: Assignment[] = []): ScheduleSnapshot =>
+  ({ id, week: id, location: "London", shows, assignments });
+
+describe('pickPreviousSchedule', () => {
+  const early = snapshot("early", [show("a", "2024-01-02"), show("b", "2024-01-07")]);
+  const late = snapshot("late", [show("c", "2024-01-09"), show("d", "2024-01-14")]);
+  const overlapping = snapshot("overlap", [show("e", "2024-01-14"), show("f", "2024-01-18")]);
+
+  it('picks the week that ends latest before the first date', () => {
+    expect(pickPreviousSchedule([early, late, overlapping], "2024-01-16")?.id).toBe("late");
+  });
+
+  it('never picks a week that reaches the first date', () => {
+    expect(pickPreviousSchedule([late, overlapping], "2024-01-14")).toBeNull();
+    expect(pickPreviousSchedule([snapshot("empty", [])], "2024-01-14")).toBeNull();
+  });
+});
+
+describe('buildCarryOver', () => {
+  const shows = [
+    show("tue", "2024-01-02"),
+    show("wed", "2024-01-03"),
+    show("thu", "2024-01-04", "dayoff"),
+    show("fri", "2024-01-05"),
+    show("sat_mat", "2024-01-06"),
+    show("sat_eve", "2024-01-06"),
+    show("sun", "2024-01-07"),
+  ];
+
+  it('counts the trailing run, doubles included, back to the last gap day', () => {
+    const carry = buildCarryOver(snapshot("prev", shows, [
+      { showId: "tue", role: "Sarge", performer: "PHIL" },
+      { showId: "wed", role: "Sarge", performer: "PHIL" },
+      { showId: "fri", role: "Sarge", performer: "PHIL" },
+      { showId: "sat_mat", role: "Sarge", performer: "PHIL" },
+      { showId: "sat_eve", role: "Sarge", performer: "PHIL" },
+      { showId: "sun", role: "Sarge", performer: "PHIL" },
+    ]));
+    expect(carry.performers).toEqual([
+      { performer: "PHIL", trailingRun: 4, runStartDate: "2024-01-05", runEndDate: "2024-01-07" },
+    ]);
+  });
+
+  it('takes the performer\'s own RED day, or the company RED day when one is set', () => {
+    const assignments: Assignment[] = [
+      { showId: "tue", role: "OFF", performer: "JOSE", isRedDay: true },
+      { showId: "wed", role: "Mozzie", performer: "JOSE" },
+    ];
+    expect(buildCarryOver(snapshot("prev", shows, assignments)).performers[0])
+      .toMatchObject({ performer: "JOSE", trailingRun: 1, lastRedDate: "2024-01-02" });
+
+    const companyRed = shows.map(s => (s.id === "thu" ? { ...s, isCompanyRedDay: true } : s));
+    expect(buildCarryOver(snapshot("prev", companyRed, assignments)).performers[0].lastRedDate).toBe("2024-01-04");
+  });
+});
+
+describe('addWeekToBalance', () => {
+  const shows = [
+    show("tue", "2024-01-02"),
+    show("wed", "2024-01-03"),
+    show("thu", "2024-01-04", "travel"),
+  ];
+  const week = snapshot("w1", shows, [
+    { showId: "tue", role: "Sarge", performer: "PHIL" },
+    { showId: "wed", role: "OFF", performer: "PHIL", isRedDay: true },
+    { showId: "thu", role: "Sarge", performer: "PHIL" },
+  ]);
+
+  it('adds stage shows and the RED day\'s weekday to the running totals', () => {
+    const start = { showCounts: { PHIL: 5 }, redWeekdays: { PHIL: [0, 1, 0, 0, 0, 0, 0] } };
+    const balance = addWeekToBalance(start, week);
+
+    // The travel-day row is not a show.
+    expect(balance.showCounts).toEqual({ PHIL: 6 });
+    // 2024-01-03 is a Wednesday.
+    expect(balance.redWeekdays.PHIL).toEqual([0, 1, 0, 1, 0, 0, 0]);
+    expect(start.redWeekdays.PHIL).toEqual([0, 1, 0, 0, 0, 0, 0]);
+  });
+});
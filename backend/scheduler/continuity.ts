@@ -0,0 +1,182 @@
+// Multi-week continuity.
+//
+// SchedulingAlgorithm only ever sees one week, but the consecutive-show limit
+// and the RED-day rhythm do not reset at midnight on Sunday: a performer who
+// closed last week on five shows in a row can only play one more before they
+// need a gap day. This module finds the week before the one being generated or
+// validated and reduces it to a WeekCarryOver the algorithm can apply at the
+// boundary. It also keeps the running TourBalance that whole-tour generation
+// threads from week to week. Everything except loadCarryOver is pure.
+
+import { scheduleDB } from "./db";
+import { areDatesConsecutive } from "./date_rules";
+import { Assignment, PerformerCarryOver, Show, TourBalance, WeekCarryOver } from "./types";
+
+export interface ScheduleSnapshot {
+  id: string;
+  week: string;
+  location: string;
+  shows: Show[];
+  assignments: Assignment[];
+}
+
+function lastDateOf(shows: Show[]): string | null {
+  return shows.reduce<string | null>((max, s) => (max === null || s.date > max ? s.date : max), null);
+}
+
+function firstDateOf(shows: Show[]): string | null {
+  return shows.reduce<string | null>((min, s) => (min === null || s.date < min ? s.date : min), null);
+}
+
+// The candidate that ends latest while still ending strictly before
+// `firstDate`. Overlapping or later weeks are never "previous".
+export function pickPreviousSchedule(candidates: ScheduleSnapshot[], firstDate: string): ScheduleSnapshot | null {
+  let best: { snapshot: ScheduleSnapshot; lastDate: string } | null = null;
+  for (const snapshot of candidates) {
+    const lastDate = lastDateOf(snapshot.shows);
+    if (lastDate === null || lastDate >= firstDate) continue;
+    if (!best || lastDate > best.lastDate) {
+      best = { snapshot, lastDate };
+    }
+  }
+  return best?.snapshot ?? null;
+}
+
+// Each performer's effective RED date in a week, derived the way
+// validateSchedule derives it — the company RED day when one is nominated,
+// otherwise the latest of the performer's own isRedDay flags.
+export function effectiveRedDates(week: ScheduleSnapshot): Map<string, string> {
+  const showDate = new Map(week.shows.map(s => [s.id, s.date]));
+  const companyRedDate = firstDateOf(week.shows.filter(s => s.status === "dayoff" && s.isCompanyRedDay === true));
+
+  const redDates = new Map<string, string>();
+  for (const a of week.assignments) {
+    if (!a.performer) continue;
+    if (companyRedDate) {
+      redDates.set(a.performer, companyRedDate);
+      continue;
+    }
+    const date = showDate.get(a.showId);
+    if (a.role === "OFF" && a.isRedDay === true && date && (!redDates.has(a.performer) || date > redDates.get(a.performer)!)) {
+      redDates.set(a.performer, date);
+    }
+  }
+  return redDates;
+}
+
+// Reduce a finished week to each performer's trailing run and last RED date.
+// The run is walked backwards from the performer's last played date using the
+// same dates-only adjacency as the algorithm (see date_rules.ts).
+export function buildCarryOver(previous: ScheduleSnapshot): WeekCarryOver {
+  const showDate = new Map(previous.shows.map(s => [s.id, s.date]));
+  const activeIds = new Set(previous.shows.filter(s => s.status === "show").map(s => s.id));
+  const redDates = effectiveRedDates(previous);
+
+  const dateCounts = new Map<string, Record<string, number>>();
+  for (const a of previous.assignments) {
+    if (!a.performer) continue;
+    if (!dateCounts.has(a.performer)) dateCounts.set(a.performer, {});
+    const date = showDate.get(a.showId);
+    if (!date || a.role === "OFF" || !activeIds.has(a.showId)) continue;
+    const counts = dateCounts.get(a.performer)!;
+    counts[date] = (counts[date] || 0) + 1;
+  }
+
+  const performers: PerformerCarryOver[] = [];
+  for (const [performer, counts] of dateCounts) {
+    const dates = Object.keys(counts).sort();
+    const entry: PerformerCarryOver = { performer, trailingRun: 0 };
+
+    if (dates.length > 0) {
+      let start = dates.length - 1;
+      while (start > 0 && areDatesConsecutive(dates[start - 1], dates[start])) {
+        start--;
+      }
+      entry.trailingRun = dates.slice(start).reduce((sum, d) => sum + counts[d], 0);
+      entry.runStartDate = dates[start];
+      entry.runEndDate = dates[dates.length - 1];
+    }
+
+    const lastRedDate = redDates.get(performer);
+    if (lastRedDate) entry.lastRedDate = lastRedDate;
+
+    performers.push(entry);
+  }
+
+  return {
+    scheduleId: previous.id,
+    week: previous.week,
+    location: previous.location,
+    performers,
+  };
+}
+
+// Fold one more week into the tour's running totals. Returns a new balance;
+// the input is left untouched.
+export function addWeekToBalance(balance: TourBalance, week: ScheduleSnapshot): TourBalance {
+  const showCounts = { ...balance.showCounts };
+  const redWeekdays: Record<string, number[]> = {};
+  for (const [performer, counts] of Object.entries(balance.redWeekdays)) {
+    redWeekdays[performer] = [...counts];
+  }
+
+  const activeIds = new Set(week.shows.filter(s => s.status === "show").map(s => s.id));
+  for (const a of week.assignments) {
+    if (!a.performer || a.role === "OFF" || !activeIds.has(a.showId)) continue;
+    showCounts[a.performer] = (showCounts[a.performer] ?? 0) + 1;
+  }
+
+  for (const [performer, date] of effectiveRedDates(week)) {
+    const counts = redWeekdays[performer] ?? [0, 0, 0, 0, 0, 0, 0];
+    counts[new Date(`${date}T12:00:00Z`).getUTCDay()]++;
+    redWeekdays[performer] = counts;
+  }
+
+  return { showCounts, redWeekdays };
+}
+
+// Loads the carry-over for the saved schedule `scheduleId`, whose (possibly
+// unsaved) shows are `shows`, in company `companyId`. The previous week is the
+// company's schedule that ends latest before this one starts, from the same
+// tour — or any segment of the same parent tour — when this week belongs to
+// one, else from the same venue. Returns undefined when there is nothing to carry (new or unsaved
+// schedule, first week of a run), which every consumer treats as "no history".
+export async function loadCarryOver(scheduleId: string | undefined, shows: Show[], companyId: string): Promise<WeekCarryOver | undefined> {
+  const firstDate = firstDateOf(shows);
+  if (!scheduleId || firstDate === null) return undefined;
+
+  const current = await scheduleDB.queryRow<{ location: string; tour_id: string | null }>`
+    SELECT location, tour_id FROM schedules
+    WHERE id = ${scheduleId} AND company_id = ${companyId}
+  `;
+  if (!current) return undefined;
+
+  const rows = current.tour_id
+    ? await scheduleDB.queryAll`
+        SELECT s.id, s.week, s.location, s.shows_data, s.assignments_data
+        FROM schedules s
+        JOIN tours t ON t.id = s.tour_id
+        WHERE s.company_id = ${companyId} AND s.id != ${scheduleId}
+          AND (
+            s.tour_id = ${current.tour_id}
+            OR (t.parent_tour_name IS NOT NULL
+                AND t.parent_tour_name = (SELECT parent_tour_name FROM tours WHERE id = ${current.tour_id}))
+          )
+      `
+    : await scheduleDB.queryAll`
+        SELECT id, week, location, shows_data, assignments_data
+        FROM schedules
+        WHERE company_id = ${companyId} AND id != ${scheduleId} AND location = ${current.location}
+      `;
+
+  const candidates: ScheduleSnapshot[] = rows.map(row => ({
+    id: row.id,
+    week: row.week,
+    location: row.location,
+    shows: JSON.parse(row.shows_data) as Show[],
+    assignments: JSON.parse(row.assignments_data) as Assignment[],
+  }));
+
+  const previous = pickPreviousSchedule(candidates, firstDate);
+  return previous ? buildCarryOver(previous) : undefined;
+}
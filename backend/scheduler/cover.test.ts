@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the planner and the algorithm are under test; keep the database and
+// auth runtime out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('./live', () => ({}));
+vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn, APIError: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { planCover, vacate } from './cover';
+import type { CoverWeek } from './cover';
+import { DEFAULT_RULE_LIMITS, SchedulingAlgorithm } from './algorithm';
+import { CAST_MEMBERS } from './types';
+import type { Assignment, RuleSettings, Show } from './types';
+
+const tue: Show = { id: 'tue', date: '2024-01-02', time: '19:30', callTime: '18:00', status: 'show' };
+const wed: Show = { id: 'wed', date: '2024-01-03', time: '19:30', callTime: '18:00', status: 'show' };
+
+// Everyone in their first role but SEAN, who plays Potato, and JAMIE, who
+// plays Ringo; ADAM, JOE, CADE and SERENA are OFF.
+function cast(showId: string): Assignment[] {
+  const stage: Array<[string, string]> = [
+    ['Sarge', 'PHIL'], ['Potato', 'SEAN'], ['Mozzie', 'JOSE'], ['Ringo', 'JAMIE'],
+    ['Particle', 'CARY'], ['Bin', 'MOLLY'], ['Cornish', 'JASMINE'], ['Who', 'JOSH'],
+  ];
+  return [
+    ...stage.map(([role, performer]) => ({ showId, role, performer })),
+    ...['ADAM', 'JOE', 'CADE', 'SERENA'].map(performer => ({ showId, role: 'OFF', performer, isRedDay: false })),
+  ];
+}
+
+function coverWeek(shows: Show[], assignments: Assignment[], rules?: RuleSettings): CoverWeek {
+  const algorithm = new SchedulingAlgorithm(shows, CAST_MEMBERS, undefined, { rules });
+  return { shows, assignments, castMembers: CAST_MEMBERS, validate: a => algorithm.validateSchedule(a).items };
+}
+
+describe('vacate', () => {
+  it('takes the absent performer out of the shows they miss and lists them OFF', () => {
+    const { week, vacated } = vacate([...cast('tue'), ...cast('wed')], [{ performer: 'PHIL', showIds: ['wed'] }]);
+
+    expect(vacated).toEqual([{ showId: 'wed', role: 'Sarge', performer: 'PHIL' }]);
+    expect(week).toContainEqual({ showId: 'wed', role: 'OFF', performer: 'PHIL', isRedDay: false });
+    expect(week).toContainEqual({ showId: 'tue', role: 'Sarge', performer: 'PHIL' });
+    expect(week.some(a => a.showId === 'wed' && a.role === 'Sarge')).toBe(false);
+  });
+});
+
+describe('planCover', () => {
+  it('calls in someone OFF when they can play the role', () => {
+    const plan = planCover(coverWeek([tue], cast('tue')), [{ performer: 'JOSE', showIds: ['tue'] }], 3);
+
+    expect(plan.vacated).toEqual([{ showId: 'tue', role: 'Mozzie', performer: 'JOSE' }]);
+    expect(plan.patches[0].changes).toEqual([{ showId: 'tue', role: 'Mozzie', from: 'JOSE', to: 'JOE', isOverride: false }]);
+    expect(plan.patches[0].newErrors).toBe(0);
+    expect(plan.patches[0].assignments).toContainEqual(expect.objectContaining({ showId: 'tue', role: 'OFF', performer: 'JOSE' }));
+    expect(plan.patches[0].assignments.some(a => a.role === 'OFF' && a.performer === 'JOE')).toBe(false);
+  });
+
+  it('moves someone over when only a cast performer can play the role', () => {
+    const plan = planCover(coverWeek([tue], cast('tue')), [{ performer: 'PHIL', showIds: ['tue'] }], 3);
+
+    expect(plan.patches).toHaveLength(1);
+    expect(plan.patches[0].changes).toEqual([
+      { showId: 'tue', role: 'Sarge', from: 'PHIL', to: 'SEAN', isOverride: false },
+      { showId: 'tue', role: 'Potato', from: 'SEAN', to: 'CADE', isOverride: false },
+    ]);
+    expect(plan.patches[0].newErrors).toBe(0);
+  });
+
+  it('marks the pick isOverride when the weekly limit has to bend', () => {
+    const rules: RuleSettings = { limits: { ...DEFAULT_RULE_LIMITS, maxShowsPerWeek: 1 }, severities: {} };
+    // SEAN is OFF on Wednesday, having played Tuesday.
+    const wednesday = cast('wed').map(a =>
+      a.performer === 'SEAN' ? { ...a, role: 'OFF', isRedDay: false } : a.performer === 'CADE' ? { ...a, role: 'Potato' } : a
+    );
+    const plan = planCover(coverWeek([tue, wed], [...cast('tue'), ...wednesday], rules), [{ performer: 'PHIL', showIds: ['wed'] }], 3);
+
+    const patch = plan.patches[0];
+    expect(patch.changes).toEqual([{ showId: 'wed', role: 'Sarge', from: 'PHIL', to: 'SEAN', isOverride: true }]);
+    expect(patch.overrides).toBe(1);
+    expect(patch.newErrors).toBe(0);
+    expect(patch.assignments).toContainEqual(expect.objectContaining({ showId: 'wed', role: 'Sarge', performer: 'SEAN', isOverride: true }));
+    expect(patch.items).toContainEqual(expect.objectContaining({ code: 'WEEKLY_LIMIT_EXCEEDED', performer: 'SEAN', severity: 'warning' }));
+  });
+
+  it('never calls someone in on their RED day', () => {
+    // SEAN, the only other Sarge, has Tuesday as his RED day.
+    const tuesday = cast('tue').map(a =>
+      a.performer === 'SEAN' ? { ...a, role: 'OFF', isRedDay: true } : a.performer === 'CADE' ? { ...a, role: 'Potato' } : a
+    );
+    const plan = planCover(coverWeek([tue], tuesday), [{ performer: 'PHIL', showIds: ['tue'] }], 3);
+
+    expect(plan.vacated).toHaveLength(1);
+    expect(plan.patches).toEqual([]);
+  });
+
+  it('ranks several patches without repeating one', () => {
+    const plan = planCover(coverWeek([tue], cast('tue')), [{ performer: 'JAMIE', showIds: ['tue'] }], 5);
+
+    const keys = plan.patches.map(p => p.changes.map(c => `${c.role}:${c.to}`).join(','));
+    expect(plan.patches.length).toBeGreaterThan(1);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(plan.patches[0].changes).toHaveLength(1);
+    for (const patch of plan.patches) {
+      expect(patch.changes.every(c => c.to !== 'JAMIE')).toBe(true);
+    }
+  });
+});
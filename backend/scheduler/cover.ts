@@ -0,0 +1,329 @@
+// Emergency cover.
+//
+// A performer calls in sick for some of a saved week's shows; planCover recasts
+// just the roles they leave empty, changing as few other cells as it can. A
+// role is covered by someone OFF that show, or by moving someone already on
+// stage into it and covering their role instead. Where a cover only works by
+// bending a fatigue rule (back-to-back doubles, the weekly limit, the minimum
+// rest) the cover's picks are marked isOverride, as the RD would for injury
+// cover, so the rule reports a warning. Nothing is saved: each patch comes
+// with the validation it would get, to look at before applying it.
+
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { Assignment, CastMember, Role, Show } from "./types";
+import type { RuleCode, ValidationItem } from "./algorithm";
+
+export interface Absence {
+  performer: string;
+  // The shows they miss.
+  showIds: string[];
+}
+
+export interface CoverRequest {
+  // The saved schedule.
+  id: string;
+  absences: Absence[];
+  // How many patches to offer, 1 to MAX_PATCHES. Defaults to 3.
+  count?: number;
+}
+
+// A role an absence leaves empty.
+export interface VacatedRole {
+  showId: string;
+  role: Role;
+  performer: string;
+}
+
+export interface CoverChange {
+  showId: string;
+  role: Role;
+  // Who played it in the saved week, and who plays it with the patch.
+  from: string;
+  to: string;
+  // Set when a fatigue rule bends for this pick.
+  isOverride: boolean;
+}
+
+export interface CoverPatch {
+  changes: CoverChange[];
+  // The whole week with the patch applied, ready to put on the grid.
+  assignments: Assignment[];
+  // validateSchedule on it.
+  items: ValidationItem[];
+  // Errors it has that the saved week didn't; 0 for a clean cover.
+  newErrors: number;
+  overrides: number;
+}
+
+export interface CoverResponse {
+  vacated: VacatedRole[];
+  // Fewest new errors first, then fewest changes, then fewest overrides.
+  patches: CoverPatch[];
+}
+
+// The saved week a cover is planned on.
+export interface CoverWeek {
+  shows: Show[];
+  assignments: Assignment[];
+  castMembers: CastMember[];
+  // validateSchedule's items for a version of the week.
+  validate: (assignments: Assignment[]) => ValidationItem[];
+}
+
+export const MAX_PATCHES = 10;
+
+// The rules isOverride softens for a cover's picks (see Assignment.isOverride).
+const BENDABLE: ReadonlySet<RuleCode> = new Set<RuleCode>(["BACK_TO_BACK_DOUBLES", "WEEKLY_LIMIT_EXCEEDED", "MINIMUM_REST"]);
+
+// Ways to cover each vacated role kept for combining, and partial patches
+// kept between roles.
+const OPTIONS_PER_ROLE = 4;
+const BEAM_WIDTH = 12;
+
+// One way to fill a vacated role: the cells it changes, in order.
+type CoverMove = Array<{ showId: string; role: Role; to: string }>;
+
+interface Scored {
+  moves: CoverMove[];
+  patch: CoverPatch;
+  load: number;
+}
+
+// An error's identity across versions of the week; messages carry counts.
+function errorKey(item: ValidationItem): string {
+  return `${item.code}|${item.performer ?? ""}|${item.showId ?? ""}`;
+}
+
+function comparePatches(a: Scored, b: Scored): number {
+  return a.patch.newErrors - b.patch.newErrors
+    || a.patch.changes.length - b.patch.changes.length
+    || a.patch.overrides - b.patch.overrides
+    || a.patch.items.length - b.patch.items.length
+    || a.load - b.load;
+}
+
+// The week without the absent performers in the shows they miss, and the roles
+// that leaves empty. They go OFF in a show that lists its OFF performers.
+export function vacate(assignments: Assignment[], absences: Absence[]): { week: Assignment[]; vacated: VacatedRole[] } {
+  const away = new Set(absences.flatMap(a => a.showIds.map(showId => `${showId}:${a.performer}`)));
+  const vacated: VacatedRole[] = [];
+  const week: Assignment[] = [];
+  for (const a of assignments) {
+    if (a.role !== "OFF" && away.has(`${a.showId}:${a.performer}`)) {
+      vacated.push({ showId: a.showId, role: a.role, performer: a.performer });
+    } else {
+      week.push(a);
+    }
+  }
+  const listsOff = new Set(assignments.filter(a => a.role === "OFF").map(a => a.showId));
+  for (const v of vacated) {
+    if (listsOff.has(v.showId)) week.push({ showId: v.showId, role: "OFF", performer: v.performer, isRedDay: false });
+  }
+  return { week, vacated };
+}
+
+// Puts moves on the week. Whoever is cast in a show leaves its OFF list; a
+// swap's second cell recasts the role its first moved someone out of.
+function applyMoves(week: Assignment[], moves: CoverMove[], overrides: Set<string>): Assignment[] {
+  const result = week.map(a => ({ ...a }));
+  for (const move of moves) {
+    for (const cell of move) {
+      const at = result.findIndex(a => a.showId === cell.showId && a.role === cell.role);
+      if (at >= 0) result.splice(at, 1);
+      const off = result.findIndex(a => a.showId === cell.showId && a.role === "OFF" && a.performer === cell.to);
+      if (off >= 0) result.splice(off, 1);
+      result.push({
+        showId: cell.showId,
+        role: cell.role,
+        performer: cell.to,
+        isRedDay: false,
+        ...(overrides.has(`${cell.showId}:${cell.to}`) ? { isOverride: true } : {})
+      });
+    }
+  }
+  return result;
+}
+
+// Validates a version of the week with moves on it, bending the fatigue rules
+// the moves' performers break where the saved week didn't.
+function scorePatch(cover: CoverWeek, week: Assignment[], moves: CoverMove[], saved: Set<string>): Scored {
+  const cells = moves.flat();
+  const covering = new Set(cells.map(c => c.to));
+  let overrides = new Set<string>();
+  let assignments = applyMoves(week, moves, overrides);
+  let items = cover.validate(assignments);
+
+  const bend = items.filter(i =>
+    i.severity === "error" && BENDABLE.has(i.code) && i.performer && covering.has(i.performer) && !saved.has(errorKey(i))
+  );
+  if (bend.length > 0) {
+    const bent = new Set(bend.map(i => i.performer!));
+    overrides = new Set(cells.filter(c => bent.has(c.to)).map(c => `${c.showId}:${c.to}`));
+    assignments = applyMoves(week, moves, overrides);
+    items = cover.validate(assignments);
+  }
+
+  const before = new Map(cover.assignments.filter(a => a.role !== "OFF").map(a => [`${a.showId}:${a.role}`, a.performer]));
+  const changes = cells.map(c => ({
+    showId: c.showId,
+    role: c.role,
+    from: before.get(`${c.showId}:${c.role}`) ?? "",
+    to: c.to,
+    isOverride: overrides.has(`${c.showId}:${c.to}`)
+  }));
+
+  // Ties go to the cover that leaves the week's load most even.
+  const shows = new Map<string, number>();
+  for (const a of assignments) {
+    if (a.role !== "OFF") shows.set(a.performer, (shows.get(a.performer) ?? 0) + 1);
+  }
+  return {
+    moves,
+    patch: {
+      changes,
+      assignments,
+      items,
+      newErrors: items.filter(i => i.severity === "error" && !saved.has(errorKey(i))).length,
+      overrides: changes.filter(c => c.isOverride).length
+    },
+    load: [...shows.values()].reduce((sum, n) => sum + n * n, 0)
+  };
+}
+
+// Every way to fill one vacated role: someone OFF that show steps in, or
+// someone on stage moves over and someone OFF takes their role.
+function coverMoves(cover: CoverWeek, week: Assignment[], vacated: VacatedRole, absent: Set<string>): CoverMove[] {
+  const show = cover.shows.find(s => s.id === vacated.showId);
+  const inShow = week.filter(a => a.showId === vacated.showId);
+  const onStage = new Map(inShow.filter(a => a.role !== "OFF").map(a => [a.performer, a.role as Role]));
+  // A RED day is off the whole day: they can't be called in.
+  const resting = new Set(
+    week.filter(a => a.isRedDay && cover.shows.find(s => s.id === a.showId)?.date === show?.date).map(a => a.performer)
+  );
+  const plays = (name: string, role: Role) => cover.castMembers.find(m => m.name === name)?.eligibleRoles.includes(role) ?? false;
+  const free = cover.castMembers
+    .map(m => m.name)
+    .filter(name => !onStage.has(name) && !resting.has(name) && !absent.has(`${vacated.showId}:${name}`));
+
+  const moves: CoverMove[] = free
+    .filter(name => plays(name, vacated.role))
+    .map(name => [{ showId: vacated.showId, role: vacated.role, to: name }]);
+  for (const [moved, theirRole] of onStage) {
+    if (!plays(moved, vacated.role)) continue;
+    for (const name of free) {
+      if (!plays(name, theirRole)) continue;
+      moves.push([
+        { showId: vacated.showId, role: vacated.role, to: moved },
+        { showId: vacated.showId, role: theirRole, to: name }
+      ]);
+    }
+  }
+  return moves;
+}
+
+// Whether a move can go on a patch: it touches none of the patch's cells and
+// casts no one already moved into the same show.
+function compatible(moves: CoverMove[], move: CoverMove): boolean {
+  const cells = new Set(moves.flat().map(c => `${c.showId}:${c.role}`));
+  const cast = new Set(moves.flat().map(c => `${c.showId}:${c.to}`));
+  return move.every(c => !cells.has(`${c.showId}:${c.role}`) && !cast.has(`${c.showId}:${c.to}`));
+}
+
+// Plans ranked patches covering the absences: each vacated role's best few
+// moves on their own, then a beam over the roles in show order combining them.
+export function planCover(cover: CoverWeek, absences: Absence[], count: number): CoverResponse {
+  const { week, vacated } = vacate(cover.assignments, absences);
+  if (vacated.length === 0) return { vacated, patches: [] };
+
+  const saved = new Set(cover.validate(cover.assignments).filter(i => i.severity === "error").map(errorKey));
+  const absent = new Set(absences.flatMap(a => a.showIds.map(showId => `${showId}:${a.performer}`)));
+  const order = new Map(cover.shows.map((s, i) => [s.id, i]));
+  const roles = [...vacated].sort((a, b) => order.get(a.showId)! - order.get(b.showId)!);
+
+  // Each role's moves are first judged on their own, against the week with
+  // every absence still open.
+  const vacancies = new Set(cover.validate(week).filter(i => i.severity === "error").map(errorKey));
+  let beam: Scored[] = [{ moves: [], patch: { changes: [], assignments: week, items: [], newErrors: 0, overrides: 0 }, load: 0 }];
+  for (const role of roles) {
+    const best = coverMoves(cover, week, role, absent)
+      .map(move => scorePatch(cover, week, [move], vacancies))
+      .sort(comparePatches)
+      .slice(0, OPTIONS_PER_ROLE)
+      .map(s => s.moves[0]);
+
+    const next: Scored[] = [];
+    for (const partial of beam) {
+      for (const move of best) {
+        if (compatible(partial.moves, move)) next.push(scorePatch(cover, week, [...partial.moves, move], saved));
+      }
+    }
+    // No one can cover the role: it stays empty in every patch.
+    if (next.length > 0) beam = next.sort(comparePatches).slice(0, BEAM_WIDTH);
+  }
+
+  const seen = new Set<string>();
+  const patches = beam
+    .filter(s => s.moves.length > 0)
+    .sort(comparePatches)
+    .filter(s => {
+      const key = s.patch.changes.map(c => `${c.showId}:${c.role}:${c.to}`).sort().join(",");
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, count)
+    .map(s => s.patch);
+  return { vacated, patches };
+}
+
+// Plans ranked minimal-change patches covering performers who are out for some
+// of a saved week's shows. Nothing is saved.
+export const coverAbsences = api<CoverRequest, CoverResponse>(
+  { expose: true, method: "POST", path: "/schedules/:id/cover", auth: true },
+  async (req) => {
+    const count = req.count ?? 3;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_PATCHES) {
+      throw APIError.invalidArgument(`count must be a whole number from 1 to ${MAX_PATCHES}`);
+    }
+    if (!req.absences?.length) {
+      throw APIError.invalidArgument("name at least one absence");
+    }
+
+    const { requireCompanyRole, scheduleCompanyId } = await import("./companies");
+    const companyId = await requireCompanyRole("manager", await scheduleCompanyId(req.id));
+    const row = await scheduleDB.queryRow`
+      SELECT shows_data, assignments_data FROM schedules WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!row) {
+      throw APIError.notFound("schedule not found");
+    }
+    const shows = JSON.parse(row.shows_data) as Show[];
+    const assignments = JSON.parse(row.assignments_data) as Assignment[];
+
+    const { loadComprehensiveContext } = await import("./validate_comprehensive");
+    const context = await loadComprehensiveContext(companyId, shows, req.id);
+    for (const absence of req.absences) {
+      if (!context.castMembers.some(m => m.name === absence.performer)) {
+        throw APIError.invalidArgument(`${absence.performer} isn't in this week's cast`);
+      }
+      const unknown = absence.showIds.find(id => !shows.some(s => s.id === id && s.status === "show"));
+      if (unknown !== undefined) {
+        throw APIError.invalidArgument(`${unknown} isn't a show in this week`);
+      }
+    }
+
+    const { SchedulingAlgorithm } = await import("./algorithm");
+    const algorithm = new SchedulingAlgorithm(shows, context.castMembers, undefined, {
+      unavailability: context.unavailability,
+      carryOver: context.carryOver,
+      roles: context.roleCatalogue,
+      rules: context.rules
+    });
+    return planCover(
+      { shows, assignments, castMembers: context.castMembers, validate: a => algorithm.validateSchedule(a).items },
+      req.absences,
+      count
+    );
+  }
+);
@@ -1,7 +1,11 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
 import { getAuthData } from "encore.dev/internal/codegen/auth";
 import type { AuthData } from "../auth/encore_auth";
-import { scheduleDB } from "./db";
+import { inTransaction } from "./db";
+import { requireCompanyRole } from "./companies";
+import { recordRevision } from "./revisions";
+import { requireVenue } from "./venues";
+import { unknownShowZone, withShowZones } from "./zones";
 import { Schedule, Show, Assignment } from "./types";
 
 export interface CreateScheduleRequest {
@@ -15,6 +19,8 @@ export interface CreateScheduleRequest {
   // shows from it client-side); recorded so the editor can offer "Update
   // template" later. Omitted for a blank week.
   templateId?: string;
+  // The venue library entry the week is played at.
+  venueId?: string;
 }
 
 export interface CreateScheduleResponse {
@@ -27,27 +33,41 @@ export const create = api<CreateScheduleRequest, CreateScheduleResponse>(
   async (req) => {
     const authData = await getAuthData<AuthData>();
     const userId = authData?.userID ?? 'system';
+    const companyId = await requireCompanyRole("manager");
 
     const id = generateId();
     const now = new Date();
     const assignments = req.assignments ?? [];
 
     const templateId = req.templateId ?? null;
+    const venueId = req.venueId || null;
+    const venue = venueId ? await requireVenue(companyId, venueId) : undefined;
+    const badZone = unknownShowZone(req.shows);
+    if (badZone) {
+      throw APIError.invalidArgument(`${badZone} is not a time zone`);
+    }
+    const shows = withShowZones(req.shows, req.location, venue?.timeZone);
     const schedule: Schedule = {
       id,
       location: req.location,
       week: req.week,
-      shows: req.shows,
+      shows,
       assignments,
       templateId: req.templateId,
+      venueId: venueId ?? undefined,
+      published: false,
+      version: 1,
       createdAt: now,
       updatedAt: now
     };
 
-    await scheduleDB.exec`
-      INSERT INTO schedules (id, location, week, shows_data, assignments_data, template_id, user_id, created_at, updated_at)
-      VALUES (${id}, ${req.location}, ${req.week}, ${JSON.stringify(req.shows)}, ${JSON.stringify(assignments)}, ${templateId}, ${userId}, ${now}, ${now})
-    `;
+    await inTransaction(async tx => {
+      await tx.exec`
+        INSERT INTO schedules (id, location, week, shows_data, assignments_data, template_id, venue_id, user_id, company_id, created_at, updated_at)
+        VALUES (${id}, ${req.location}, ${req.week}, ${JSON.stringify(shows)}, ${JSON.stringify(assignments)}, ${templateId}, ${venueId}, ${userId}, ${companyId}, ${now}, ${now})
+      `;
+      await recordRevision(tx, id, schedule, "create");
+    });
 
     return { schedule };
   }
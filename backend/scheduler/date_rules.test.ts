@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { areDatesConsecutive, dayDiff } from "./date_rules";
+import { addDays, areDatesConsecutive, dayDiff } from "./date_rules";
 
 describe("date_rules", () => {
   describe("areDatesConsecutive", () => {
@@ -43,4 +43,12 @@ describe("date_rules", () => {
       expect(dayDiff("2024-03-09", "2024-03-11")).toBe(2);
     });
   });
+
+  describe("addDays", () => {
+    it("moves across month and year ends, both ways", () => {
+      expect(addDays("2024-01-29", 7)).toBe("2024-02-05");
+      expect(addDays("2025-01-03", -7)).toBe("2024-12-27");
+      expect(addDays("2024-03-09", 2)).toBe("2024-03-11");
+    });
+  });
 });
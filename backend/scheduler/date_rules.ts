@@ -30,3 +30,8 @@ export function areDatesConsecutive(date1: string, date2: string): boolean {
   const diff = Math.abs(dayDiff(date1, date2));
   return diff === 0 || diff === 1;
 }
+
+// The "YYYY-MM-DD" date `days` calendar days after `date` (before, if negative).
+export function addDays(date: string, days: number): string {
+  return new Date(parseDateOnly(date) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
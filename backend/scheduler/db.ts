@@ -1,5 +1,19 @@
-import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
 
 export const scheduleDB = new SQLDatabase("scheduler", {
   migrations: "./migrations"
 });
+
+// Runs `work` in one transaction: committed when it returns, rolled back when
+// it throws.
+export async function inTransaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+  const tx = await scheduleDB.begin();
+  try {
+    const result = await work(tx);
+    await tx.commit();
+    return result;
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
@@ -1,7 +1,6 @@
 import { api, APIError } from "encore.dev/api";
-import { getAuthData } from "encore.dev/internal/codegen/auth";
-import type { AuthData } from "../auth/encore_auth";
 import { scheduleDB } from "./db";
+import { requireCompanyRole } from "./companies";
 
 export interface DeleteScheduleRequest {
   id: string;
@@ -11,11 +10,10 @@ export interface DeleteScheduleRequest {
 export const deleteSchedule = api<DeleteScheduleRequest, void>(
   { expose: true, method: "DELETE", path: "/schedules/:id", auth: true },
   async (req) => {
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? 'system';
+    const companyId = await requireCompanyRole("manager");
 
     const result = await scheduleDB.queryRow`
-      SELECT id FROM schedules WHERE id = ${req.id} AND user_id = ${userId}
+      SELECT id FROM schedules WHERE id = ${req.id} AND company_id = ${companyId}
     `;
 
     if (!result) {
@@ -23,7 +21,7 @@ export const deleteSchedule = api<DeleteScheduleRequest, void>(
     }
 
     await scheduleDB.exec`
-      DELETE FROM schedules WHERE id = ${req.id} AND user_id = ${userId}
+      DELETE FROM schedules WHERE id = ${req.id} AND company_id = ${companyId}
     `;
   }
 );
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { scheduleDB } from './db';
 import { create } from './create';
 import { update } from './update';
+import { toggleRedDay } from './toggle_red_day';
+import { restoreRevision } from './revisions';
 import { get } from './get';
 import { list } from './list';
 import { deleteSchedule } from './delete';
@@ -257,6 +259,55 @@ describe('E2E Integration Tests', () => {
       // Remove from cleanup list since we deleted it
       createdScheduleIds = createdScheduleIds.filter(id => id !== scheduleId);
     });
+
+    it('should refuse a write made against a stale version and return the current copy', async () => {
+      const createResponse = await create({ location: 'Version Test', week: '46', shows: testShows.slice(0, 3) });
+      const scheduleId = createResponse.schedule.id;
+      createdScheduleIds.push(scheduleId);
+      expect(createResponse.schedule.version).toBe(1);
+
+      // Two editors open version 1; the first one saves.
+      const first = await update({ id: scheduleId, location: 'First Editor', version: 1 });
+      expect(first.schedule.version).toBe(2);
+
+      // The second is refused, and told what the first one saved.
+      const stale = await update({ id: scheduleId, location: 'Second Editor', version: 1 }).catch(e => e);
+      expect(stale.code).toBe('aborted');
+      expect(stale.details.schedule.location).toBe('First Editor');
+      expect(stale.details.schedule.version).toBe(2);
+
+      // A RED-day toggle is checked the same way.
+      const staleToggle = await toggleRedDay({ id: scheduleId, performer: 'PHIL', date: '2024-10-15', version: 1 }).catch(e => e);
+      expect(staleToggle.code).toBe('aborted');
+
+      // Publishing doesn't change the content, so it doesn't move the version.
+      const published = await update({ id: scheduleId, published: true });
+      expect(published.schedule.version).toBe(2);
+
+      const getResponse = await get({ id: scheduleId });
+      expect(getResponse.schedule.location).toBe('First Editor');
+      expect(getResponse.schedule.version).toBe(2);
+    });
+
+    it('should refuse a restore chosen against a stale version', async () => {
+      const createResponse = await create({ location: 'Restore Test', week: '47', shows: testShows.slice(0, 3) });
+      const scheduleId = createResponse.schedule.id;
+      createdScheduleIds.push(scheduleId);
+
+      // One manager opens history at version 1 while another saves.
+      await update({ id: scheduleId, location: 'Saved Meanwhile', version: 1 });
+
+      const stale = await restoreRevision({ id: scheduleId, revision: 1, version: 1 }).catch(e => e);
+      expect(stale.code).toBe('aborted');
+      expect(stale.details.schedule.location).toBe('Saved Meanwhile');
+      expect((await get({ id: scheduleId })).schedule.location).toBe('Saved Meanwhile');
+
+      // Against the current version the restore goes through.
+      const restored = await restoreRevision({ id: scheduleId, revision: 1, version: 2 });
+      expect(restored.schedule.location).toBe('Restore Test');
+      expect(restored.schedule.version).toBe(3);
+      expect(restored.revision).toBe(3);
+    });
   });
 
   describe('Cast Management Integration', () => {
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the fixes and the algorithm are under test; keep the database and auth
+// runtime out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('./live', () => ({}));
+vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn, APIError: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { applyFix, quickFixes } from './fixes';
+import type { FixWeek } from './fixes';
+import { DEFAULT_RULE_LIMITS, SchedulingAlgorithm } from './algorithm';
+import { CAST_MEMBERS, DEFAULT_ROLE_CATALOGUE } from './types';
+import type { Assignment, RuleSettings, Show } from './types';
+
+const tue: Show = { id: 'tue', date: '2024-01-02', time: '19:30', callTime: '18:00', status: 'show' };
+const wed: Show = { id: 'wed', date: '2024-01-03', time: '19:30', callTime: '18:00', status: 'show' };
+
+// Everyone in their first role but SEAN, who plays Potato, and JAMIE, who
+// plays Ringo; ADAM, JOE, CADE and SERENA are OFF.
+function cast(showId: string): Assignment[] {
+  const stage: Array<[string, string]> = [
+    ['Sarge', 'PHIL'], ['Potato', 'SEAN'], ['Mozzie', 'JOSE'], ['Ringo', 'JAMIE'],
+    ['Particle', 'CARY'], ['Bin', 'MOLLY'], ['Cornish', 'JASMINE'], ['Who', 'JOSH'],
+  ];
+  return [
+    ...stage.map(([role, performer]) => ({ showId, role, performer })),
+    ...['ADAM', 'JOE', 'CADE', 'SERENA'].map(performer => ({ showId, role: 'OFF', performer, isRedDay: false })),
+  ];
+}
+
+function fixWeek(shows: Show[], assignments: Assignment[], rules?: RuleSettings): FixWeek & { items: ReturnType<FixWeek['validate']> } {
+  const algorithm = new SchedulingAlgorithm(shows, CAST_MEMBERS, undefined, { rules });
+  const validate = (a: Assignment[]) => algorithm.validateSchedule(a).items;
+  return {
+    shows,
+    assignments,
+    castMembers: CAST_MEMBERS,
+    roles: DEFAULT_ROLE_CATALOGUE.map(r => r.name),
+    validate,
+    items: validate(assignments),
+  };
+}
+
+describe('applyFix', () => {
+  it('moves a RED day, clearing the one it replaces', () => {
+    const week = [...cast('tue'), ...cast('wed')].map(a =>
+      a.showId === 'tue' && a.performer === 'JOE' ? { ...a, isRedDay: true } : a
+    );
+    const after = applyFix([tue, wed], week, { kind: 'move_red_day', performer: 'JOE', date: '2024-01-03' });
+
+    expect(after.filter(a => a.performer === 'JOE' && a.isRedDay)).toEqual([
+      { showId: 'wed', role: 'OFF', performer: 'JOE', isRedDay: true },
+    ]);
+  });
+
+  it('flags only the stage picks as an override', () => {
+    const after = applyFix([tue], cast('tue'), { kind: 'override', performer: 'PHIL' });
+
+    expect(after).toContainEqual({ showId: 'tue', role: 'Sarge', performer: 'PHIL', isOverride: true });
+    expect(after.filter(a => a.isOverride)).toHaveLength(1);
+  });
+});
+
+describe('quickFixes', () => {
+  it('offers who could fill an empty role', () => {
+    const week = fixWeek([tue], cast('tue').filter(a => a.role !== 'Ringo'));
+    const incomplete = quickFixes(week, week.items).find(i => i.code === 'CASTING_INCOMPLETE')!;
+
+    expect(incomplete.fixes?.length).toBeGreaterThan(0);
+    expect(incomplete.fixes![0]).toMatchObject({
+      operation: { kind: 'reassign', showId: 'tue', role: 'Ringo', from: '' },
+      delta: { introduced: [] },
+    });
+    expect(incomplete.fixes![0].delta.errors).toBeLessThan(0);
+  });
+
+  it('recasts before it offers an override for the weekly limit', () => {
+    const rules: RuleSettings = { limits: { ...DEFAULT_RULE_LIMITS, maxShowsPerWeek: 1 }, severities: {} };
+    // Only PHIL and SEAN play Sarge, and SEAN plays neither show.
+    const benchSean = (a: Assignment) =>
+      a.performer === 'SEAN' ? { ...a, role: 'OFF', isRedDay: false } : a.performer === 'CADE' ? { ...a, role: 'Potato' } : a;
+    const week = fixWeek([tue, wed], [...cast('tue'), ...cast('wed')].map(benchSean), rules);
+    const phil = quickFixes(week, week.items).find(i => i.code === 'WEEKLY_LIMIT_EXCEEDED' && i.performer === 'PHIL')!;
+    const fixes = phil.fixes!;
+
+    expect(fixes[0].operation).toEqual({ kind: 'reassign', showId: 'wed', role: 'Sarge', from: 'PHIL', to: 'SEAN' });
+    expect(fixes[fixes.length - 1].operation).toEqual({ kind: 'override', performer: 'PHIL' });
+    expect(fixes[fixes.length - 1].delta).toMatchObject({ errors: -1, warnings: 1 });
+  });
+
+  it('gives a performer without a RED day the dates they are free', () => {
+    const week = fixWeek([tue, wed], [...cast('tue'), ...cast('wed')]);
+    const joe = quickFixes(week, week.items).find(i => i.code === 'RED_DAY_MISSING' && i.performer === 'JOE')!;
+
+    expect(joe.fixes?.map(f => f.operation)).toEqual([
+      { kind: 'move_red_day', performer: 'JOE', date: '2024-01-02' },
+      { kind: 'move_red_day', performer: 'JOE', date: '2024-01-03' },
+    ]);
+    expect(quickFixes(week, week.items).find(i => i.code === 'RED_DAY_MISSING' && i.performer === 'PHIL')?.fixes).toBeUndefined();
+  });
+
+  it('never offers a fix that adds an error', () => {
+    const week = fixWeek([tue, wed], [...cast('tue'), ...cast('wed')].filter(a => !(a.showId === 'wed' && a.role === 'Sarge')));
+    for (const item of quickFixes(week, week.items)) {
+      for (const fix of item.fixes ?? []) {
+        expect(fix.delta.introduced.filter(i => i.severity === 'error')).toEqual([]);
+      }
+    }
+  });
+});
@@ -0,0 +1,168 @@
+// Quick fixes for validation issues.
+//
+// validateSchedule says what is wrong in words; this works out edits that put
+// it right, as operations the editor can apply: put someone else in a cell
+// (reassign), trade two or three cells (swap), move a performer's RED day, or
+// mark their picks as an RD override. Each fix is checked by validating the
+// week with it applied: it must clear its issue, or at least an error, and
+// add none.
+
+import { Assignment, Role, Show } from "./types";
+import type { ValidationItem } from "./algorithm";
+import { ruleFor } from "./rules";
+import { applySwap, compareItems, itemKey, suggestSwaps } from "./swaps";
+import type { SwapDelta, SwapOperation, SwapWeek } from "./swaps";
+
+export type FixOperation =
+  // Put `to` in one cell.
+  | { kind: "reassign"; showId: string; role: Role; from: string; to: string }
+  // Change two or three cells at once (see swaps.ts).
+  | { kind: "swap"; operations: SwapOperation[] }
+  // Make `date` the performer's one RED day this week, clearing any other.
+  | { kind: "move_red_day"; performer: string; date: string }
+  // Flag all the performer's stage picks as an RD injury/sickness override.
+  | { kind: "override"; performer: string };
+
+export interface QuickFix {
+  operation: FixOperation;
+  // What it does to the week's validation.
+  delta: SwapDelta;
+}
+
+// The week fixes are worked out for: a swap week plus the roles every show
+// must fill.
+export interface FixWeek extends SwapWeek {
+  roles: Role[];
+}
+
+export const MAX_FIXES_PER_ISSUE = 3;
+
+// Cells searched for swaps per week; each search validates the week a few
+// dozen times, and the editor asks on every edit.
+const CELL_SEARCHES = 8;
+// A performer-wide issue (the weekly limit, a run) tries their latest cells.
+const CELLS_PER_PERFORMER = 2;
+
+const KIND_ORDER: FixOperation["kind"][] = ["reassign", "swap", "move_red_day", "override"];
+
+// Applies a fix the way the editor does.
+export function applyFix(shows: Show[], assignments: Assignment[], operation: FixOperation): Assignment[] {
+  switch (operation.kind) {
+    case "reassign":
+      return applySwap(assignments, [operation]);
+    case "swap":
+      return applySwap(assignments, operation.operations);
+    case "move_red_day": {
+      // One OFF entry on the date's first show carries it, as the grid sets it.
+      const first = shows.find(s => s.date === operation.date && s.status === "show");
+      const cleared = assignments.filter(a => !(a.performer === operation.performer && a.isRedDay));
+      return first ? [...cleared, { showId: first.id, role: "OFF", performer: operation.performer, isRedDay: true }] : cleared;
+    }
+    case "override":
+      return assignments.map(a =>
+        a.performer === operation.performer && a.role !== "OFF" ? { ...a, isOverride: true } : a
+      );
+  }
+}
+
+// The cells a swap could fix an issue in: the empty roles of an incomplete
+// show, the performer's cell in the show the issue names, or their latest
+// cells for one about the whole week.
+function issueCells(week: FixWeek, item: ValidationItem): Array<{ showId: string; role: Role }> {
+  const order = new Map(week.shows.map((s, i) => [s.id, i]));
+  const stage = week.assignments.filter(a => a.role !== "OFF" && a.performer);
+  switch (item.code) {
+    case "CASTING_INCOMPLETE":
+      return week.roles
+        .filter(role => !stage.some(a => a.showId === item.showId && a.role === role))
+        .map(role => ({ showId: item.showId!, role }));
+    case "CASTING_DUPLICATE":
+      // Keep their first role and recast the others.
+      return stage.filter(a => a.showId === item.showId && a.performer === item.performer).slice(1);
+    case "ROLE_INELIGIBLE":
+    case "PERFORMER_UNAVAILABLE":
+    case "MINIMUM_REST":
+      return stage.filter(a => a.showId === item.showId && a.performer === item.performer);
+    case "CONSECUTIVE_EXCEEDED":
+    case "BACK_TO_BACK_DOUBLES":
+    case "WEEKLY_LIMIT_EXCEEDED":
+      return stage
+        .filter(a => a.performer === item.performer)
+        .sort((a, b) => order.get(b.showId)! - order.get(a.showId)!)
+        .slice(0, CELLS_PER_PERFORMER);
+    default:
+      return [];
+  }
+}
+
+function compareFixes(a: QuickFix, b: QuickFix): number {
+  return a.delta.errors - b.delta.errors
+    || a.delta.warnings - b.delta.warnings
+    || KIND_ORDER.indexOf(a.operation.kind) - KIND_ORDER.indexOf(b.operation.kind);
+}
+
+// Each item with the fixes found for it, best first. Errors are worked on
+// before warnings; once the cell searches run out, the rest get only the
+// cheap fixes (RED days and overrides).
+export function quickFixes(week: FixWeek, items: ValidationItem[]): ValidationItem[] {
+  const searches = new Map<string, QuickFix[]>();
+  const searchCell = (showId: string, role: Role): QuickFix[] => {
+    const key = `${showId}:${role}`;
+    if (!searches.has(key)) {
+      if (searches.size >= CELL_SEARCHES) return [];
+      searches.set(key, suggestSwaps(week, showId, role).map(s => ({
+        operation: s.operations.length === 1 ? { kind: "reassign", ...s.operations[0] } : { kind: "swap", operations: s.operations },
+        delta: s.delta
+      })));
+    }
+    return searches.get(key)!;
+  };
+  const tryFix = (operation: FixOperation): QuickFix => ({
+    operation,
+    delta: compareItems(items, week.validate(applyFix(week.shows, week.assignments, operation)))
+  });
+
+  const fixesFor = (item: ValidationItem): QuickFix[] => {
+    const clears = (fix: QuickFix) => fix.delta.resolved.some(i => itemKey(i) === itemKey(item));
+    const found: QuickFix[] = [];
+
+    for (const cell of issueCells(week, item)) {
+      // Filling an empty role is progress even while others stay empty.
+      found.push(...searchCell(cell.showId, cell.role).filter(fix =>
+        clears(fix) || fix.delta.errors < 0 || item.code === "CASTING_INCOMPLETE"
+      ));
+    }
+
+    // The RED day rules.
+    if (item.performer && ruleFor(item.code).category === "special_days") {
+      const dates = [...new Set(week.shows.filter(s => s.status === "show").map(s => s.date))];
+      for (const date of dates) {
+        const playing = week.assignments.some(a =>
+          a.performer === item.performer && a.role !== "OFF" && week.shows.find(s => s.id === a.showId)?.date === date
+        );
+        if (!playing) found.push(tryFix({ kind: "move_red_day", performer: item.performer, date }));
+      }
+    }
+
+    if (item.performer && item.severity === "error" && ruleFor(item.code).overridable) {
+      found.push(tryFix({ kind: "override", performer: item.performer }));
+    }
+
+    return found
+      .filter(fix => !fix.delta.introduced.some(i => i.severity === "error"))
+      .filter(fix => fix.operation.kind === "reassign" || fix.operation.kind === "swap" || clears(fix))
+      .sort(compareFixes)
+      .slice(0, MAX_FIXES_PER_ISSUE);
+  };
+
+  const byUrgency = [...items.keys()].sort((a, b) =>
+    Number(items[a].severity === "warning") - Number(items[b].severity === "warning")
+  );
+  const fixed = [...items];
+  for (const i of byUrgency) {
+    if (items[i].carriedOver) continue;
+    const fixes = fixesFor(items[i]);
+    if (fixes.length > 0) fixed[i] = { ...items[i], fixes };
+  }
+  return fixed;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { scheduleDB } from './db';
+import { autoGenerate } from './auto_generate';
+import { getGeneration, listGenerations, replayGeneration } from './generations';
+import { create } from './create';
+import { deleteSchedule } from './delete';
+import { Show } from './types';
+
+const WEEK: Show[] = [
+  { id: 'tue', date: '2024-01-02', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'wed', date: '2024-01-03', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'thu', date: '2024-01-04', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'fri', date: '2024-01-05', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sat', date: '2024-01-06', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sun', date: '2024-01-07', time: '14:00', callTime: '12:30', status: 'show' },
+];
+
+// Runs as 'system' in its own company, like venues.test.ts.
+describe('Generation log', () => {
+  const scheduleIds: string[] = [];
+  const generationIds: string[] = [];
+
+  afterEach(async () => {
+    for (const id of generationIds) {
+      await scheduleDB.exec`DELETE FROM generation_runs WHERE id = ${id}`;
+    }
+    for (const id of scheduleIds) {
+      try { await deleteSchedule({ id }); } catch { /* already gone */ }
+    }
+    generationIds.length = 0;
+    scheduleIds.length = 0;
+  });
+
+  it('records a run with its seed, lists it under the week and replays it exactly', async () => {
+    const { schedule } = await create({ location: 'Leeds', week: '', shows: WEEK });
+    scheduleIds.push(schedule.id);
+
+    const result = await autoGenerate({ shows: WEEK, scheduleId: schedule.id, seed: 42 });
+    generationIds.push(result.generationId!);
+    expect(result.seed).toBe(42);
+
+    const { generation } = await getGeneration({ id: result.generationId! });
+    expect(generation).toMatchObject({ scheduleId: schedule.id, seed: 42, success: result.success });
+    expect(generation.inputs.shows).toEqual(WEEK);
+    expect(generation.inputs.castMembers.length).toBeGreaterThan(0);
+    expect(generation.outcome.assignments).toEqual(result.assignments);
+    expect(result.solver?.status).toBeDefined();
+    expect(generation.outcome.solver).toEqual(result.solver);
+
+    const listed = await listGenerations({ id: schedule.id });
+    expect(listed.generations.map(g => g.id)).toEqual([result.generationId]);
+
+    const replay = await replayGeneration({ id: result.generationId! });
+    expect(replay.seed).toBe(42);
+    expect(replay.identical).toBe(true);
+    expect(replay.diff.assignments).toEqual([]);
+  });
+
+  it('gives the same week for the same seed', async () => {
+    const first = await autoGenerate({ shows: WEEK, seed: 7 });
+    const second = await autoGenerate({ shows: WEEK, seed: 7 });
+    generationIds.push(first.generationId!, second.generationId!);
+    expect(second.assignments).toEqual(first.assignments);
+  });
+
+  it('rejects a seed that is not a 32-bit whole number', async () => {
+    await expect(autoGenerate({ shows: WEEK, seed: -1 })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(autoGenerate({ shows: WEEK, seed: 1.5 })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(replayGeneration({ id: 'no-such-run' })).rejects.toMatchObject({ code: 'not_found' });
+  });
+});
@@ -0,0 +1,260 @@
+// Generation log.
+//
+// Every Auto-Generate run (a week from the editor, each week of a tour, or each
+// candidate offered for a week) is recorded with everything the algorithm was
+// given, the seed its random choices were drawn from, and what it returned.
+// The algorithm is deterministic in those, so any run can be replayed exactly:
+// to reproduce a reported week, or to check that a change to the algorithm
+// leaves a past result alone. runGeneration is the one place a run is built from its
+// inputs; the rest reads or writes generation_runs.
+
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "encore.dev/internal/codegen/auth";
+import type { AuthData } from "../auth/encore_auth";
+import { scheduleDB } from "./db";
+import { requireCompanyRole, scheduleCompanyId } from "./companies";
+import { SchedulingAlgorithm, AutoGenerateResult, newSeed } from "./algorithm";
+import { ScheduleDiff, diffSnapshots } from "./revisions";
+import {
+  Assignment,
+  CastMember,
+  RoleDefinition,
+  RuleSettings,
+  Show,
+  TourBalance,
+  UnavailableWindow,
+  WeekCarryOver
+} from "./types";
+
+// Everything a run was given. Replaying it needs nothing else.
+export interface GenerationInputs {
+  shows: Show[];
+  // The picks it kept (AutoGenerateRequest.existingAssignments).
+  existingAssignments: Assignment[];
+  // The roster at the time, with each member's eligible roles.
+  castMembers: CastMember[];
+  roles: RoleDefinition[];
+  unavailability: UnavailableWindow[];
+  carryOver?: WeekCarryOver;
+  tourBalance?: TourBalance;
+  // Undefined: the built-in rules.
+  rules?: RuleSettings;
+  // Earlier candidates' weeks, when the run was one of several (see
+  // candidates.ts).
+  avoid?: Assignment[];
+}
+
+export interface GenerationOutcome {
+  success: boolean;
+  assignments: Assignment[];
+  errors?: string[];
+  warnings?: string[];
+  // How the exact solver settled the week (AutoGenerateResult.solver).
+  solver?: AutoGenerateResult["solver"];
+}
+
+export interface GenerationSummary {
+  id: string;
+  scheduleId?: string;
+  tourId?: string;
+  seed: number;
+  success: boolean;
+  userId: string;
+  createdAt: Date;
+}
+
+export interface GenerationRun extends GenerationSummary {
+  inputs: GenerationInputs;
+  outcome: GenerationOutcome;
+}
+
+export interface ListGenerationsResponse {
+  // Newest first.
+  generations: GenerationSummary[];
+}
+
+export interface GetGenerationResponse {
+  generation: GenerationRun;
+}
+
+export interface ReplayGenerationRequest {
+  id: string;
+  // Replays with this seed instead of the run's own, to see the same inputs
+  // cast another way.
+  seed?: number;
+}
+
+export interface ReplayGenerationResponse {
+  generation: GenerationRun;
+  seed: number;
+  replay: GenerationOutcome;
+  // How the replay's casting and RED days differ from the recorded outcome.
+  diff: ScheduleDiff;
+  // The replay returned the recorded outcome exactly: same success, same
+  // assignments, same errors and warnings.
+  identical: boolean;
+}
+
+// A seed from a request: a whole number that fits in 32 bits, or omitted.
+export function checkedSeed(seed: number | undefined): number | undefined {
+  if (seed === undefined) return undefined;
+  if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    throw APIError.invalidArgument("seed must be a whole number from 0 to 4294967295");
+  }
+  return seed;
+}
+
+// Runs the algorithm on recorded or freshly loaded inputs. Without a seed it
+// draws a new one; the result carries whichever was used.
+export function runGeneration(inputs: GenerationInputs, seed?: number): Promise<AutoGenerateResult> {
+  const algorithm = new SchedulingAlgorithm(inputs.shows, inputs.castMembers, inputs.existingAssignments, {
+    unavailability: inputs.unavailability,
+    carryOver: inputs.carryOver,
+    tourBalance: inputs.tourBalance,
+    roles: inputs.roles,
+    rules: inputs.rules,
+    avoid: inputs.avoid,
+    seed: seed ?? newSeed()
+  });
+  return algorithm.autoGenerate();
+}
+
+function outcomeOf(result: AutoGenerateResult): GenerationOutcome {
+  return {
+    success: result.success,
+    assignments: result.assignments,
+    errors: result.errors,
+    warnings: result.warnings,
+    solver: result.solver
+  };
+}
+
+// Records a run just made and returns its id: the algorithm's generationId,
+// so the id a caller was shown finds the run. A scheduleId that isn't a saved
+// week of the company is recorded as none.
+export async function recordGeneration(
+  companyId: string,
+  scope: { scheduleId?: string; tourId?: string },
+  inputs: GenerationInputs,
+  result: AutoGenerateResult
+): Promise<string> {
+  const authData = await getAuthData<AuthData>();
+  const userId = authData?.userID ?? 'system';
+  const id = result.generationId ?? generateId();
+
+  await scheduleDB.exec`
+    INSERT INTO generation_runs (id, company_id, schedule_id, tour_id, seed, inputs, outcome, user_id, created_at)
+    VALUES (
+      ${id}, ${companyId},
+      (SELECT id FROM schedules WHERE id = ${scope.scheduleId ?? null} AND company_id = ${companyId}),
+      ${scope.tourId ?? null}, ${result.seed ?? 0},
+      ${JSON.stringify(inputs)}, ${JSON.stringify(outcomeOf(result))}, ${userId}, ${new Date()}
+    )
+  `;
+  return id;
+}
+
+// inputs and outcome are written as JSON.stringify(...); read them
+// defensively like rule profile limits (see parseJson in rule_profiles.ts).
+function parseJson<T>(raw: unknown): T {
+  return (typeof raw === "string" ? JSON.parse(raw) : raw) as T;
+}
+
+// JSON with object keys sorted. JSONB doesn't keep key order, so a stored
+// outcome and a fresh one are compared in this form.
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]))
+      : v
+  );
+}
+
+function summaryFromRow(row: Record<string, any>): GenerationSummary {
+  return {
+    id: row.id,
+    scheduleId: row.schedule_id ?? undefined,
+    tourId: row.tour_id ?? undefined,
+    // BIGINT may come back as a string.
+    seed: Number(row.seed),
+    success: parseJson<GenerationOutcome>(row.outcome).success,
+    userId: row.user_id,
+    createdAt: row.created_at
+  };
+}
+
+function runFromRow(row: Record<string, any>): GenerationRun {
+  return {
+    ...summaryFromRow(row),
+    inputs: parseJson<GenerationInputs>(row.inputs),
+    outcome: parseJson<GenerationOutcome>(row.outcome)
+  };
+}
+
+async function loadRun(id: string): Promise<GenerationRun> {
+  const companyId = await requireCompanyRole("manager");
+  const row = await scheduleDB.queryRow`
+    SELECT * FROM generation_runs WHERE id = ${id} AND company_id = ${companyId}
+  `;
+  if (!row) {
+    throw APIError.notFound("generation not found");
+  }
+  return runFromRow(row);
+}
+
+// Lists the runs that generated a schedule, newest first.
+export const listGenerations = api<{ id: string }, ListGenerationsResponse>(
+  { expose: true, method: "GET", path: "/schedules/:id/generations", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager", await scheduleCompanyId(req.id));
+
+    const rows = await scheduleDB.queryAll`
+      SELECT id, schedule_id, tour_id, seed, outcome, user_id, created_at
+      FROM generation_runs
+      WHERE schedule_id = ${req.id} AND company_id = ${companyId}
+      ORDER BY created_at DESC
+    `;
+    return { generations: rows.map(summaryFromRow) };
+  }
+);
+
+// Retrieves one run with its inputs and outcome.
+export const getGeneration = api<{ id: string }, GetGenerationResponse>(
+  { expose: true, method: "GET", path: "/generations/:id", auth: true },
+  async (req) => {
+    return { generation: await loadRun(req.id) };
+  }
+);
+
+// Runs a recorded generation again on its recorded inputs and compares the
+// result with what it returned then. Nothing is saved.
+export const replayGeneration = api<ReplayGenerationRequest, ReplayGenerationResponse>(
+  { expose: true, method: "POST", path: "/generations/:id/replay", auth: true },
+  async (req) => {
+    const generation = await loadRun(req.id);
+    const seed = checkedSeed(req.seed) ?? generation.seed;
+
+    const replay = outcomeOf(await runGeneration(generation.inputs, seed));
+    const content = (outcome: GenerationOutcome) => ({
+      location: "",
+      week: "",
+      shows: generation.inputs.shows,
+      assignments: outcome.assignments
+    });
+
+    // Runs logged before outcomes held the solver's status are compared without it.
+    const compared = generation.outcome.solver ? replay : { ...replay, solver: undefined };
+
+    return {
+      generation,
+      seed,
+      replay,
+      diff: diffSnapshots(content(generation.outcome), content(replay)),
+      identical: canonical(compared) === canonical(generation.outcome)
+    };
+  }
+);
+
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
@@ -1,7 +1,6 @@
 import { api, APIError } from "encore.dev/api";
-import { getAuthData } from "encore.dev/internal/codegen/auth";
-import type { AuthData } from "../auth/encore_auth";
 import { scheduleDB } from "./db";
+import { canSeeDrafts, currentCompanyId } from "./companies";
 import { Schedule, Show, Assignment } from "./types";
 
 export interface GetScheduleRequest {
@@ -12,34 +11,41 @@ export interface GetScheduleResponse {
   schedule: Schedule;
 }
 
+// A schedules row as the API returns it. template_id and venue_id may be
+// absent from the select (list leaves them out).
+export function scheduleFromRow(row: Record<string, any>): Schedule {
+  return {
+    id: row.id,
+    location: row.location,
+    week: row.week,
+    shows: JSON.parse(row.shows_data) as Show[],
+    assignments: JSON.parse(row.assignments_data) as Assignment[],
+    templateId: row.template_id ?? undefined,
+    venueId: row.venue_id ?? undefined,
+    published: row.published,
+    version: row.version,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
 // Retrieves a schedule by ID.
 export const get = api<GetScheduleRequest, GetScheduleResponse>(
   { expose: true, method: "GET", path: "/schedules/:id", auth: true },
   async (req) => {
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? 'system';
+    const companyId = await currentCompanyId();
 
     const row = await scheduleDB.queryRow`
-      SELECT id, location, week, shows_data, assignments_data, template_id, created_at, updated_at
+      SELECT id, location, week, shows_data, assignments_data, template_id, venue_id, published, version, created_at, updated_at
       FROM schedules
-      WHERE id = ${req.id} AND user_id = ${userId}
+      WHERE id = ${req.id} AND company_id = ${companyId}
     `;
 
-    if (!row) {
+    // A viewer can't tell a draft from a schedule that doesn't exist.
+    if (!row || (!row.published && !(await canSeeDrafts(companyId)))) {
       throw APIError.notFound("schedule not found");
     }
 
-    const schedule: Schedule = {
-      id: row.id,
-      location: row.location,
-      week: row.week,
-      shows: JSON.parse(row.shows_data) as Show[],
-      assignments: JSON.parse(row.assignments_data) as Assignment[],
-      templateId: row.template_id ?? undefined,
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at)
-    };
-
-    return { schedule };
+    return { schedule: scheduleFromRow(row) };
   }
 );
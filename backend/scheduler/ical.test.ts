@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { companyEvents, performerEvents, renderCalendar } from './ical';
+import { Schedule } from './types';
+
+const week: Pick<Schedule, 'id' | 'location' | 'shows' | 'assignments' | 'version' | 'updatedAt'> = {
+  id: 'sched_1',
+  location: 'London',
+  version: 3,
+  updatedAt: new Date('2026-03-01T12:00:00Z'),
+  shows: [
+    { id: 'tue', date: '2026-03-03', time: '19:30', callTime: '18:00', status: 'show' },
+    { id: 'wed', date: '2026-03-04', time: 'TBC', callTime: 'TBC', status: 'show' },
+    { id: 'thu', date: '2026-03-05', time: 'Travel', callTime: '', status: 'travel' },
+    { id: 'fri', date: '2026-03-06', time: '20:00', callTime: '19:00', status: 'show', location: 'Paris' },
+    { id: 'sun', date: '2026-03-08', time: '', callTime: '', status: 'dayoff' },
+  ],
+  assignments: [
+    { showId: 'tue', role: 'Sarge', performer: 'PHIL' },
+    { showId: 'tue', role: 'Potato', performer: 'JAMIE' },
+    { showId: 'tue', role: 'OFF', performer: 'SEAN', isRedDay: true },
+    { showId: 'wed', role: 'Sarge', performer: 'PHIL' },
+    { showId: 'fri', role: 'OFF', performer: 'PHIL' },
+    { showId: 'fri', role: 'Sarge', performer: 'SEAN' },
+  ],
+};
+
+describe('performerEvents', () => {
+  it('lists the shows a performer is cast in, from call to curtain down, with an alarm', () => {
+    const events = performerEvents(week, 'PHIL');
+    const tue = events.find(e => e.uid === 'sched_1-tue-p-PHIL');
+    expect(tue).toMatchObject({
+      summary: 'Show: Sarge (London)',
+      start: '2026-03-03T18:00',
+      end: '2026-03-03T21:30',
+      location: 'London',
+      alarm: { minutesBefore: 60 },
+      sequence: 3,
+    });
+    // Sat out on Friday.
+    expect(events.some(e => e.uid.startsWith('sched_1-fri'))).toBe(false);
+  });
+
+  it('ends a show after the rule profile\'s show length', () => {
+    const tue = performerEvents(week, 'PHIL', 150).find(e => e.uid === 'sched_1-tue-p-PHIL');
+    expect(tue).toMatchObject({ start: '2026-03-03T18:00', end: '2026-03-03T22:00' });
+  });
+
+  it('makes a show with no time yet an all-day entry', () => {
+    const wed = performerEvents(week, 'PHIL').find(e => e.uid === 'sched_1-wed-p-PHIL');
+    expect(wed).toMatchObject({ summary: 'Show: Sarge (London) (time TBC)', start: '2026-03-04', end: '2026-03-05' });
+    expect(wed?.alarm).toBeUndefined();
+  });
+
+  it('adds travel, days off and the performer\'s own RED day as all-day events', () => {
+    const events = performerEvents(week, 'SEAN');
+    expect(events.find(e => e.uid === 'sched_1-thu-p-SEAN')).toMatchObject({
+      summary: 'Travel: London → Paris',
+      location: 'Paris',
+      start: '2026-03-05',
+    });
+    expect(events.find(e => e.uid === 'sched_1-sun-p-SEAN')?.summary).toBe('Day off');
+    expect(events.find(e => e.summary === 'RED day')).toMatchObject({ start: '2026-03-03', end: '2026-03-04' });
+  });
+
+  it('gives everyone the company RED day instead of their own', () => {
+    const companyRed = {
+      ...week,
+      shows: week.shows.map(s => (s.id === 'sun' ? { ...s, isCompanyRedDay: true } : s)),
+    };
+    const events = performerEvents(companyRed, 'SEAN');
+    expect(events.find(e => e.uid === 'sched_1-sun-p-SEAN')?.summary).toBe('RED day (company)');
+    expect(events.some(e => e.summary === 'RED day')).toBe(false);
+  });
+});
+
+describe('companyEvents', () => {
+  it('lists every show with its cast, and who is on a RED day', () => {
+    const events = companyEvents(week);
+    expect(events.find(e => e.uid === 'sched_1-tue-company')?.description).toBe(
+      'Call 18:00, curtain 19:30\nSarge: PHIL\nPotato: JAMIE'
+    );
+    expect(events.find(e => e.summary.startsWith('RED:'))).toMatchObject({ summary: 'RED: SEAN', start: '2026-03-03' });
+  });
+});
+
+describe('renderCalendar', () => {
+  const ics = renderCalendar('STOMP: PHIL', performerEvents(week, 'PHIL'));
+  const lines = ics.split('\r\n');
+
+  it('writes CRLF-terminated lines no longer than 75 octets', () => {
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    for (const line of lines) expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+  });
+
+  it('writes floating times, all-day dates and the alarm', () => {
+    expect(lines).toContain('DTSTART:20260303T180000');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260304');
+    expect(lines).toContain('TRIGGER:-PT60M');
+    expect(lines).toContain('SEQUENCE:3');
+    expect(lines).toContain('DTSTAMP:20260301T120000Z');
+  });
+
+  it('writes a show with a time zone in UTC', () => {
+    const zoned = { ...week, shows: week.shows.map(s => (s.id === 'fri' ? { ...s, timeZone: 'Europe/Paris' } : s)) };
+    const zonedLines = renderCalendar('STOMP: SEAN', performerEvents(zoned, 'SEAN')).split('\r\n');
+    // 19:00 call in Paris (CET, UTC+1) is 18:00 UTC; curtain down at 22:00 is 21:00 UTC.
+    expect(zonedLines).toContain('DTSTART:20260306T180000Z');
+    expect(zonedLines).toContain('DTEND:20260306T210000Z');
+  });
+
+  it('escapes text and folds long lines', () => {
+    const long = renderCalendar('Company, One; Two', [{
+      uid: 'x',
+      summary: 'a'.repeat(100),
+      start: '2026-03-03',
+      end: '2026-03-04',
+      sequence: 1,
+      stamp: new Date('2026-03-01T00:00:00Z'),
+    }]);
+    expect(long).toContain('X-WR-CALNAME:Company\\, One\\; Two');
+    const unfolded = long.replace(/\r\n /g, '');
+    expect(unfolded).toContain(`SUMMARY:${'a'.repeat(100)}`);
+  });
+});
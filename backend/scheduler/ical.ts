@@ -0,0 +1,257 @@
+/**
+ * iCalendar (RFC 5545) rendering of schedules, for cast members' phone
+ * calendars. Pure: calendar.ts loads the schedules and serves the text.
+ *
+ * A show with a time zone (Show.timeZone) is written in UTC, so a phone shows
+ * it at the right moment in its own zone: a performer flying ahead of the tour
+ * sees the real call. A show without one is written as a floating local time,
+ * the venue's wall clock wherever the phone is. Each event's UID is stable per
+ * schedule, show and audience, and its SEQUENCE is the schedule's version, so
+ * a subscribed calendar updates an event in place when the schedule changes
+ * instead of adding a second one.
+ *
+ * A show ends `showMinutes` after curtain up: the show length in the week's
+ * rule profile, the same one the rest checks measure with.
+ */
+
+import { Assignment, Schedule, Show } from "./types";
+import { SHOW_MINUTES, isKnownTime, parseShowDateTime } from "./time";
+
+// The alarm on a show goes off this long before the call.
+export const CALL_ALARM_MINUTES = 60;
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  // "YYYY-MM-DD" for an all-day event, otherwise "YYYY-MM-DDTHH:MM".
+  start: string;
+  end: string;
+  // The IANA zone start and end are wall-clock times in; floating when absent.
+  timeZone?: string;
+  alarm?: { minutesBefore: number; description: string };
+  sequence: number;
+  stamp: Date;
+}
+
+type CalendarSchedule = Pick<Schedule, "id" | "location" | "shows" | "assignments" | "version" | "updatedAt">;
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function addMinutes(date: string, time: string, minutes: number): string {
+  const d = new Date(`${date}T${time}:00Z`);
+  d.setUTCMinutes(d.getUTCMinutes() + minutes);
+  return d.toISOString().slice(0, 16);
+}
+
+function minutesBetween(from: string, to: string): number {
+  const [fh, fm] = from.split(":").map(Number);
+  const [th, tm] = to.split(":").map(Number);
+  return th * 60 + tm - (fh * 60 + fm);
+}
+
+const byDate = (a: Show, b: Show) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time);
+
+// The city a column is in: its own when the week spans several, else the week's.
+const cityOf = (show: Show, schedule: CalendarSchedule) => show.location || schedule.location;
+
+// A travel day carries the city being left; the destination is on the next
+// column that names a different one (see setDestination in the frontend).
+function travelEvent(show: Show, schedule: CalendarSchedule, uid: string): CalendarEvent {
+  const from = cityOf(show, schedule);
+  const to = [...schedule.shows]
+    .sort(byDate)
+    .find(s => s.date > show.date && s.location && s.location !== from)?.location;
+  return {
+    uid,
+    summary: to ? `Travel: ${from} → ${to}` : `Travel day`,
+    location: to ?? from,
+    start: show.date,
+    end: addDays(show.date, 1),
+    sequence: schedule.version,
+    stamp: schedule.updatedAt,
+  };
+}
+
+function allDay(uid: string, summary: string, date: string, schedule: CalendarSchedule, location?: string): CalendarEvent {
+  return { uid, summary, location, start: date, end: addDays(date, 1), sequence: schedule.version, stamp: schedule.updatedAt };
+}
+
+// A show from call to curtain down, alarmed ahead of the call. An unknown
+// (TBC) time can't be placed in the day, so it becomes an all-day entry.
+function showEvent(show: Show, schedule: CalendarSchedule, showMinutes: number, uid: string, summary: string, description?: string): CalendarEvent {
+  const location = cityOf(show, schedule);
+  if (!isKnownTime(show.time)) {
+    return { ...allDay(uid, `${summary} (time TBC)`, show.date, schedule, location), description };
+  }
+  const call = isKnownTime(show.callTime) && minutesBetween(show.callTime, show.time) >= 0 ? show.callTime : show.time;
+  return {
+    uid,
+    summary,
+    description: [isKnownTime(show.callTime) ? `Call ${show.callTime}, curtain ${show.time}` : `Curtain ${show.time}`, description]
+      .filter(Boolean)
+      .join("\n"),
+    location,
+    start: `${show.date}T${call}`,
+    end: addMinutes(show.date, show.time, showMinutes),
+    timeZone: show.timeZone || undefined,
+    alarm: { minutesBefore: CALL_ALARM_MINUTES, description: `Call at ${call}` },
+    sequence: schedule.version,
+    stamp: schedule.updatedAt,
+  };
+}
+
+function companyRedDate(shows: Show[]): string | null {
+  return shows.filter(s => s.status === "dayoff" && s.isCompanyRedDay === true).map(s => s.date).sort()[0] ?? null;
+}
+
+// Each performer's RED date. A company RED day is everyone's, and while the
+// week has one the individual flags are dormant.
+function redDates(schedule: CalendarSchedule): Map<string, string> {
+  const dates = new Map(schedule.shows.map(s => [s.id, s.date]));
+  const map = new Map<string, string>();
+  if (companyRedDate(schedule.shows)) return map;
+  for (const a of schedule.assignments) {
+    const date = dates.get(a.showId);
+    if (a.isRedDay && date && !map.has(a.performer)) map.set(a.performer, date);
+  }
+  return map;
+}
+
+// Travel, days off and the company RED day: the same for everyone.
+function dayEvent(show: Show, schedule: CalendarSchedule, audience: string): CalendarEvent | null {
+  const uid = `${schedule.id}-${show.id}-${audience}`;
+  if (show.status === "travel") return travelEvent(show, schedule, uid);
+  if (show.status === "dayoff") {
+    return allDay(uid, show.isCompanyRedDay ? "RED day (company)" : "Day off", show.date, schedule, cityOf(show, schedule));
+  }
+  return null;
+}
+
+/** One performer's week: the shows they are cast in (with their track), their
+ *  RED day, days off and travel. Shows they sit out are left off. */
+export function performerEvents(schedule: CalendarSchedule, performer: string, showMinutes = SHOW_MINUTES): CalendarEvent[] {
+  const audience = `p-${performer}`;
+  const events: CalendarEvent[] = [];
+  for (const show of [...schedule.shows].sort(byDate)) {
+    const day = dayEvent(show, schedule, audience);
+    if (day) {
+      events.push(day);
+      continue;
+    }
+    const role = schedule.assignments.find(a => a.showId === show.id && a.performer === performer && a.role !== "OFF")?.role;
+    if (role) {
+      events.push(showEvent(show, schedule, showMinutes, `${schedule.id}-${show.id}-${audience}`, `Show: ${role} (${cityOf(show, schedule)})`));
+    }
+  }
+  const red = redDates(schedule).get(performer);
+  if (red) events.push(allDay(`${schedule.id}-red-${audience}`, "RED day", red, schedule));
+  return events;
+}
+
+function castList(assignments: Assignment[], showId: string): string {
+  const inShow = assignments.filter(a => a.showId === showId);
+  const stage = inShow.filter(a => a.role !== "OFF").map(a => `${a.role}: ${a.performer}`);
+  const off = inShow.filter(a => a.role === "OFF" && !a.isRedDay).map(a => a.performer);
+  return [...stage, ...(off.length ? [`OFF: ${off.join(", ")}`] : [])].join("\n");
+}
+
+/** The whole company's week: every show with its casting, one entry per date
+ *  naming who is on a RED day, days off and travel. */
+export function companyEvents(schedule: CalendarSchedule, showMinutes = SHOW_MINUTES): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  for (const show of [...schedule.shows].sort(byDate)) {
+    const day = dayEvent(show, schedule, "company");
+    if (day) events.push(day);
+    else if (show.status === "show") {
+      const cast = castList(schedule.assignments, show.id);
+      events.push(showEvent(show, schedule, showMinutes, `${schedule.id}-${show.id}-company`, `Show (${cityOf(show, schedule)})`, cast || undefined));
+    }
+  }
+  const byRedDate = new Map<string, string[]>();
+  for (const [performer, date] of redDates(schedule)) {
+    byRedDate.set(date, [...(byRedDate.get(date) ?? []), performer]);
+  }
+  for (const [date, performers] of [...byRedDate].sort(([a], [b]) => a.localeCompare(b))) {
+    events.push(allDay(`${schedule.id}-red-${date}-company`, `RED: ${performers.sort().join(", ")}`, date, schedule));
+  }
+  return events;
+}
+
+// RFC 5545 §3.3.11: backslash, semicolon, comma and newline are escaped.
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space.
+function fold(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  for (const ch of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + ch, "utf8") > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const compact = (value: string) => value.replace(/[-:]/g, "");
+
+function stamp(date: Date): string {
+  return `${compact(date.toISOString().slice(0, 19))}Z`;
+}
+
+function dateValue(name: string, value: string, timeZone?: string): string {
+  if (value.length === 10) return `${name};VALUE=DATE:${compact(value)}`;
+  const instant = timeZone ? parseShowDateTime(value.slice(0, 10), value.slice(11, 16), timeZone) : null;
+  return instant ? `${name}:${stamp(instant)}` : `${name}:${compact(value)}00`;
+}
+
+/** A complete VCALENDAR for `events`, with CRLF line endings. */
+export function renderCalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//STOMP Performance Scheduler//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const e of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${escapeText(e.uid)}@stomp-scheduler`,
+      `DTSTAMP:${stamp(e.stamp)}`,
+      `SEQUENCE:${e.sequence}`,
+      dateValue("DTSTART", e.start, e.timeZone),
+      dateValue("DTEND", e.end, e.timeZone),
+      `SUMMARY:${escapeText(e.summary)}`
+    );
+    if (e.location) lines.push(`LOCATION:${escapeText(e.location)}`);
+    if (e.description) lines.push(`DESCRIPTION:${escapeText(e.description)}`);
+    if (e.start.length === 10) lines.push("TRANSP:TRANSPARENT");
+    if (e.alarm) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(e.alarm.description)}`,
+        `TRIGGER:-PT${e.alarm.minutesBefore}M`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -1,24 +1,24 @@
 import { api } from "encore.dev/api";
-import { getAuthData } from "encore.dev/internal/codegen/auth";
-import type { AuthData } from "../auth/encore_auth";
 import { scheduleDB } from "./db";
+import { canSeeDrafts, currentCompanyId } from "./companies";
 import { Schedule, Show, Assignment } from "./types";
 
 export interface ListSchedulesResponse {
   schedules: Schedule[];
 }
 
-// Retrieves all schedules for the authenticated user, ordered by creation date (latest first).
+// Retrieves all schedules in the current company, ordered by creation date (latest first).
+// Viewers only get published ones.
 export const list = api<void, ListSchedulesResponse>(
   { expose: true, method: "GET", path: "/schedules", auth: true },
   async () => {
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? 'system';
+    const companyId = await currentCompanyId();
+    const drafts = await canSeeDrafts(companyId);
 
     const rows = await scheduleDB.queryAll`
-      SELECT id, location, week, shows_data, assignments_data, created_at, updated_at
+      SELECT id, location, week, shows_data, assignments_data, published, version, created_at, updated_at
       FROM schedules
-      WHERE user_id = ${userId}
+      WHERE company_id = ${companyId} AND (published OR ${drafts})
       ORDER BY created_at DESC
     `;
 
@@ -28,6 +28,8 @@ export const list = api<void, ListSchedulesResponse>(
       week: row.week,
       shows: JSON.parse(row.shows_data) as Show[],
       assignments: JSON.parse(row.assignments_data) as Assignment[],
+      published: row.published,
+      version: row.version,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     }));
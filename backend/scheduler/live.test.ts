@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the in-memory rooms are under test; keep the database and auth runtime out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('encore.dev/api', () => ({
+  api: Object.assign((_options: unknown, fn: unknown) => fn, { streamInOut: (_options: unknown, fn: unknown) => fn }),
+  APIError: {},
+}));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { joinRoom, leaveRoom, publishSaved, receive, LivePeer, LiveServerMessage, LiveClientMessage } from './live';
+
+function peer(connectionId: string): { peer: LivePeer; inbox: LiveServerMessage[]; stream: { send: (m: LiveServerMessage) => Promise<void> } } {
+  const inbox: LiveServerMessage[] = [];
+  return {
+    peer: { connectionId, userId: `user_${connectionId}`, name: connectionId.toUpperCase(), focus: null },
+    inbox,
+    stream: { send: async (m) => { inbox.push(m); } },
+  };
+}
+
+const names = (m: LiveServerMessage | undefined) =>
+  m && (m.type === 'presence' || m.type === 'hello') ? m.peers.map(p => p.name) : undefined;
+
+describe('live schedule rooms', () => {
+  it('greets a joiner with everyone present and tells the others', async () => {
+    const a = peer('a');
+    const b = peer('b');
+    await joinRoom('s1', a.peer, a.stream);
+    await joinRoom('s1', b.peer, b.stream);
+
+    expect(b.inbox[0]).toMatchObject({ type: 'hello', connectionId: 'b' });
+    expect(names(b.inbox[0])).toEqual(['A', 'B']);
+    expect(names(a.inbox.at(-1))).toEqual(['A', 'B']);
+
+    await leaveRoom('s1', 'a');
+    await leaveRoom('s1', 'b');
+  });
+
+  it('relays a patch to everyone but its sender, and only within the schedule', async () => {
+    const a = peer('a');
+    const b = peer('b');
+    const other = peer('c');
+    await joinRoom('s2', a.peer, a.stream);
+    await joinRoom('s2', b.peer, b.stream);
+    await joinRoom('s3', other.peer, other.stream);
+    a.inbox.length = b.inbox.length = other.inbox.length = 0;
+
+    await receive('s2', 'a', { type: 'patch', patch: { kind: 'cell', showId: 'thu', role: 'Potato', performer: 'CADE' } });
+
+    expect(a.inbox).toEqual([]);
+    expect(other.inbox).toEqual([]);
+    expect(b.inbox).toEqual([
+      { type: 'patch', from: 'a', patch: { kind: 'cell', showId: 'thu', role: 'Potato', performer: 'CADE' } },
+    ]);
+
+    for (const [s, id] of [['s2', 'a'], ['s2', 'b'], ['s3', 'c']]) await leaveRoom(s, id);
+  });
+
+  it('drops malformed patches', async () => {
+    const a = peer('a');
+    const b = peer('b');
+    await joinRoom('s4', a.peer, a.stream);
+    await joinRoom('s4', b.peer, b.stream);
+    b.inbox.length = 0;
+
+    await receive('s4', 'a', { type: 'patch', patch: { kind: 'cell', showId: 'thu' } } as unknown as LiveClientMessage);
+    await receive('s4', 'a', { type: 'patch', patch: { kind: 'everything' } } as unknown as LiveClientMessage);
+    expect(b.inbox).toEqual([]);
+
+    await leaveRoom('s4', 'a');
+    await leaveRoom('s4', 'b');
+  });
+
+  it('shares focus as presence and forgets a peer that leaves', async () => {
+    const a = peer('a');
+    const b = peer('b');
+    await joinRoom('s5', a.peer, a.stream);
+    await joinRoom('s5', b.peer, b.stream);
+
+    await receive('s5', 'a', { type: 'focus', cell: { showId: 'fri', role: 'Sarge' } });
+    const seen = b.inbox.at(-1);
+    expect(seen?.type === 'presence' && seen.peers.find(p => p.connectionId === 'a')?.focus).toEqual({ showId: 'fri', role: 'Sarge' });
+
+    await leaveRoom('s5', 'a');
+    expect(names(b.inbox.at(-1))).toEqual(['B']);
+    await leaveRoom('s5', 'b');
+  });
+
+  it('announces saves to everyone in the room, including whoever saved', async () => {
+    const a = peer('a');
+    const b = peer('b');
+    await joinRoom('s6', a.peer, a.stream);
+    await joinRoom('s6', b.peer, b.stream);
+    const content = { location: 'London', week: '', shows: [], assignments: [] };
+
+    await publishSaved('s6', 4, content);
+    expect(a.inbox.at(-1)).toEqual({ type: 'saved', version: 4, content });
+    expect(b.inbox.at(-1)).toEqual({ type: 'saved', version: 4, content });
+
+    await leaveRoom('s6', 'a');
+    await leaveRoom('s6', 'b');
+    // Nobody left to tell.
+    await expect(publishSaved('s6', 5, content)).resolves.toBeUndefined();
+  });
+
+  it('keeps relaying when one peer\'s stream has gone away', async () => {
+    const a = peer('a');
+    const b = peer('b');
+    const gone = { ...peer('g'), stream: { send: async () => { throw new Error('closed'); } } };
+    await joinRoom('s7', a.peer, a.stream);
+    await joinRoom('s7', b.peer, b.stream);
+    // The gone peer's own hello fails; that is its handler's problem.
+    await expect(joinRoom('s7', gone.peer, gone.stream)).rejects.toThrow('closed');
+    b.inbox.length = 0;
+
+    await receive('s7', 'a', { type: 'patch', patch: { kind: 'assignments', assignments: [] } });
+    expect(b.inbox).toHaveLength(1);
+
+    for (const id of ['a', 'b', 'g']) await leaveRoom('s7', id);
+  });
+});
@@ -0,0 +1,175 @@
+// Live collaboration on a schedule.
+//
+// Everyone with a schedule open in the editor holds a stream to
+// /schedules/:id/live. The service keeps, per schedule id, a room of those
+// streams in memory and relays between them: who is there and which cell each
+// has focused (presence), every cell edit as it is made (patches), and every
+// save (so each editor knows the new version to save against). Nothing goes
+// through a message broker, so it works on a plain local Encore instance; the
+// flip side is that peers only see each other when they are connected to the
+// same process. Saving still goes through update, so a relayed patch is never
+// authoritative — it just keeps open editors in step between saves.
+
+import { api, APIError, type StreamInOut } from "encore.dev/api";
+import { getAuthData } from "encore.dev/internal/codegen/auth";
+import type { AuthData } from "../auth/encore_auth";
+import { scheduleDB } from "./db";
+import { requireCompanyRole } from "./companies";
+import type { RevisionContent } from "./revisions";
+import { Assignment, Role, Show } from "./types";
+
+export interface LiveCell {
+  showId: string;
+  role: Role;
+}
+
+// One edit to the week, stated as the result rather than the action so that
+// applying it twice is harmless. "cell" casts (or with an empty performer,
+// uncasts) one role in one show; the others replace the whole list, for edits
+// that touch many cells at once (auto-generate, clear all, RED days, reshaping
+// the week).
+export type LivePatch =
+  | { kind: "cell"; showId: string; role: Role; performer: string }
+  | { kind: "assignments"; assignments: Assignment[] }
+  | { kind: "shows"; shows: Show[] };
+
+export interface LivePeer {
+  connectionId: string;
+  userId: string;
+  name: string;
+  focus: LiveCell | null;
+}
+
+export interface LiveHandshake {
+  id: string;
+}
+
+export type LiveClientMessage =
+  | { type: "focus"; cell: LiveCell | null }
+  | { type: "patch"; patch: LivePatch };
+
+export type LiveServerMessage =
+  // First message on every stream: which of the peers is you.
+  | { type: "hello"; connectionId: string; peers: LivePeer[] }
+  | { type: "presence"; peers: LivePeer[] }
+  | { type: "patch"; from: string; patch: LivePatch }
+  // A write reached the database; `version` is what to save against now.
+  | { type: "saved"; version: number; content: RevisionContent };
+
+type LiveStream = Pick<StreamInOut<LiveClientMessage, LiveServerMessage>, "send">;
+
+interface Connection {
+  peer: LivePeer;
+  stream: LiveStream;
+}
+
+// scheduleId -> connectionId -> connection.
+const rooms = new Map<string, Map<string, Connection>>();
+
+function peersIn(room: Map<string, Connection>): LivePeer[] {
+  return [...room.values()].map(c => c.peer);
+}
+
+// A send to a stream that is closing fails; its own handler cleans it up.
+async function sendAll(room: Map<string, Connection>, msg: LiveServerMessage, except?: string): Promise<void> {
+  await Promise.all(
+    [...room.entries()]
+      .filter(([id]) => id !== except)
+      .map(([, c]) => c.stream.send(msg).catch(() => undefined))
+  );
+}
+
+export async function joinRoom(scheduleId: string, peer: LivePeer, stream: LiveStream): Promise<void> {
+  let room = rooms.get(scheduleId);
+  if (!room) {
+    room = new Map();
+    rooms.set(scheduleId, room);
+  }
+  room.set(peer.connectionId, { peer, stream });
+  await stream.send({ type: "hello", connectionId: peer.connectionId, peers: peersIn(room) });
+  await sendAll(room, { type: "presence", peers: peersIn(room) }, peer.connectionId);
+}
+
+export async function leaveRoom(scheduleId: string, connectionId: string): Promise<void> {
+  const room = rooms.get(scheduleId);
+  if (!room) return;
+  room.delete(connectionId);
+  if (room.size === 0) {
+    rooms.delete(scheduleId);
+    return;
+  }
+  await sendAll(room, { type: "presence", peers: peersIn(room) });
+}
+
+function isPatch(patch: unknown): patch is LivePatch {
+  const p = patch as LivePatch | undefined;
+  switch (p?.kind) {
+    case "cell":
+      return typeof p.showId === "string" && typeof p.role === "string" && typeof p.performer === "string";
+    case "assignments":
+      return Array.isArray(p.assignments);
+    case "shows":
+      return Array.isArray(p.shows);
+    default:
+      return false;
+  }
+}
+
+// Applies one message from a peer: a focus change goes to everyone as
+// presence, a patch to everyone else. Anything malformed is dropped.
+export async function receive(scheduleId: string, connectionId: string, msg: LiveClientMessage): Promise<void> {
+  const room = rooms.get(scheduleId);
+  const self = room?.get(connectionId);
+  if (!room || !self) return;
+
+  if (msg.type === "focus") {
+    self.peer.focus = msg.cell ? { showId: msg.cell.showId, role: msg.cell.role } : null;
+    await sendAll(room, { type: "presence", peers: peersIn(room) });
+  } else if (msg.type === "patch" && isPatch(msg.patch)) {
+    await sendAll(room, { type: "patch", from: connectionId, patch: msg.patch }, connectionId);
+  }
+}
+
+// Tells everyone with the schedule open that a write landed. Called by the
+// endpoints that change a schedule's content after they have written it.
+export async function publishSaved(scheduleId: string, version: number, content: RevisionContent): Promise<void> {
+  const room = rooms.get(scheduleId);
+  if (room) await sendAll(room, { type: "saved", version, content });
+}
+
+async function peerName(userId: string): Promise<string> {
+  const row = await scheduleDB.queryRow<{ email: string | null; first_name: string | null; last_name: string | null }>`
+    SELECT email, first_name, last_name FROM users WHERE id = ${userId}
+  `;
+  const name = [row?.first_name, row?.last_name].filter(Boolean).join(" ");
+  return name || row?.email || userId;
+}
+
+// Joins the live session for a schedule: presence, focused cells, cell edits
+// as they happen and saves. Managers and admins only, like editing.
+export const liveSchedule = api.streamInOut<LiveHandshake, LiveClientMessage, LiveServerMessage>(
+  { expose: true, path: "/schedules/:id/live", auth: true },
+  async (handshake, stream) => {
+    const companyId = await requireCompanyRole("manager");
+    const row = await scheduleDB.queryRow`
+      SELECT id FROM schedules WHERE id = ${handshake.id} AND company_id = ${companyId}
+    `;
+    if (!row) {
+      throw APIError.notFound("schedule not found");
+    }
+
+    const authData = await getAuthData<AuthData>();
+    const userId = authData?.userID ?? "system";
+    const connectionId = Date.now().toString(36) + Math.random().toString(36).slice(2);
+    const peer: LivePeer = { connectionId, userId, name: await peerName(userId), focus: null };
+
+    await joinRoom(handshake.id, peer, stream);
+    try {
+      for await (const msg of stream) {
+        await receive(handshake.id, connectionId, msg);
+      }
+    } finally {
+      await leaveRoom(handshake.id, connectionId);
+    }
+  }
+);
@@ -0,0 +1,18 @@
+-- Dates a cast member cannot work (holiday, medical appointment, visa run).
+-- Each row is an inclusive span of calendar dates; a single day has
+-- start_date = end_date. Dates are stored as "YYYY-MM-DD" TEXT rather than
+-- DATE so they compare directly against Show.date with no timezone
+-- round-trip. Like company_members, the calendar is shared by every user.
+-- Rows go with their member: deleting a member deletes their calendar.
+CREATE TABLE IF NOT EXISTS member_unavailability (
+  id          TEXT PRIMARY KEY,
+  member_id   TEXT NOT NULL REFERENCES company_members(id) ON DELETE CASCADE,
+  start_date  TEXT NOT NULL,
+  end_date    TEXT NOT NULL,
+  reason      TEXT,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_unavailability_member_id ON member_unavailability(member_id);
+CREATE INDEX IF NOT EXISTS idx_member_unavailability_dates ON member_unavailability(start_date, end_date);
@@ -0,0 +1,32 @@
+-- The role catalogue: the stage tracks a show is cast against, replacing the
+-- Role string union and the ROLES / FEMALE_ONLY_ROLES constants. A company
+-- running a different track list edits these rows; a cut-down show for small
+-- venues deactivates a track rather than deleting it, so schedules and
+-- eligibility that name it stay readable.
+--
+-- `name` is what Assignment.role and company_members.eligible_roles store, so
+-- it is unique and never rewritten. `preferred_gender` is a casting
+-- convention (Bin/Cornish are usually cast female): generation honours it,
+-- validation only warns. Like company_members, the catalogue is shared by
+-- every user.
+CREATE TABLE IF NOT EXISTS role_catalogue (
+  id               TEXT PRIMARY KEY,
+  name             TEXT NOT NULL UNIQUE,
+  "order"          INTEGER NOT NULL DEFAULT 0,
+  preferred_gender TEXT CHECK (preferred_gender IN ('male', 'female')),
+  active           BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Seeded with the eight STOMP tracks, matching DEFAULT_ROLE_CATALOGUE in
+-- types.ts id for id.
+INSERT INTO role_catalogue (id, name, "order", preferred_gender) VALUES
+  ('role_seed_0', 'Sarge',    0, NULL),
+  ('role_seed_1', 'Potato',   1, NULL),
+  ('role_seed_2', 'Mozzie',   2, NULL),
+  ('role_seed_3', 'Ringo',    3, NULL),
+  ('role_seed_4', 'Particle', 4, NULL),
+  ('role_seed_5', 'Bin',      5, 'female'),
+  ('role_seed_6', 'Cornish',  6, 'female'),
+  ('role_seed_7', 'Who',      7, NULL)
+ON CONFLICT (id) DO NOTHING;
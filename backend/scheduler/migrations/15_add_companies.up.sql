@@ -0,0 +1,136 @@
+-- Companies: independent rosters under one account (two touring companies and
+-- a sit-down production, say). Cast members (and through them their
+-- unavailability), the role catalogue, schedules, tours and templates each
+-- belong to exactly one company, and only that company's users see them. Our
+-- companies don't all run the same track list, so each has its own catalogue.
+CREATE TABLE IF NOT EXISTS companies (
+  id          TEXT PRIMARY KEY,
+  name        TEXT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Which users belong to which companies. The membership a user selected most
+-- recently is their current company: every list and create is scoped to it.
+CREATE TABLE IF NOT EXISTS company_users (
+  company_id  TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  user_id     TEXT NOT NULL,
+  selected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (company_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_users_user_id ON company_users(user_id, selected_at DESC);
+
+-- Schedules, tours and templates were private to the user who made them, so
+-- every existing user, and every other owner of existing rows, gets a company
+-- of their own and joins only that one: company_<user id>, the same id
+-- companies.ts gives a new user on first use. Nobody sees anyone else's rows
+-- until an admin adds them to a company (addCompanyUser).
+INSERT INTO companies (id, name)
+SELECT 'company_' || owner_id, 'STOMP' FROM (
+  SELECT id AS owner_id FROM users
+  UNION SELECT user_id FROM schedules
+  UNION SELECT user_id FROM tours
+  UNION SELECT user_id FROM templates
+) owners
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO company_users (company_id, user_id)
+SELECT 'company_' || owner_id, owner_id FROM (
+  SELECT id AS owner_id FROM users
+  UNION SELECT user_id FROM schedules
+  UNION SELECT user_id FROM tours
+  UNION SELECT user_id FROM templates
+) owners
+ON CONFLICT DO NOTHING;
+
+-- Added nullable, backfilled from the owner, then required: every new row has
+-- to name its company.
+ALTER TABLE schedules ADD COLUMN company_id TEXT REFERENCES companies(id);
+ALTER TABLE tours ADD COLUMN company_id TEXT REFERENCES companies(id);
+ALTER TABLE templates ADD COLUMN company_id TEXT REFERENCES companies(id);
+
+UPDATE schedules SET company_id = 'company_' || user_id;
+UPDATE tours SET company_id = 'company_' || user_id;
+UPDATE templates SET company_id = 'company_' || user_id;
+
+-- The roster, its calendar and the role catalogue were one global set every
+-- user shared. Each company starts from its own copy, under ids suffixed with
+-- the company's so they stay unique; the global rows go once copied (their
+-- unavailability with them, by cascade).
+ALTER TABLE company_members ADD COLUMN company_id TEXT REFERENCES companies(id);
+
+INSERT INTO company_members (id, company_id, name, eligible_roles, gender, status, date_added, date_archived, "order")
+SELECT m.id || '_' || c.id, c.id, m.name, m.eligible_roles, m.gender, m.status, m.date_added, m.date_archived, m."order"
+FROM company_members m
+CROSS JOIN companies c
+WHERE m.company_id IS NULL;
+
+INSERT INTO member_unavailability (id, member_id, start_date, end_date, reason, created_at)
+SELECT u.id || '_' || m.company_id, m.id, u.start_date, u.end_date, u.reason, u.created_at
+FROM member_unavailability u
+JOIN company_members m ON m.id = u.member_id || '_' || m.company_id;
+
+-- A tour's cast list names members by id (or, for old tours, by name), so the
+-- ids move to the tour's company's copies. Like shows_data (see migration 9),
+-- cast_member_ids may be stored as a jsonb string holding JSON text; each row
+-- leaves in the shape it arrived in, and entries that aren't a global member
+-- id are kept as they are.
+WITH normalized AS (
+  SELECT
+    t.id,
+    t.company_id,
+    jsonb_typeof(t.cast_member_ids) AS original_type,
+    CASE jsonb_typeof(t.cast_member_ids)
+      WHEN 'array' THEN t.cast_member_ids
+      WHEN 'string' THEN (t.cast_member_ids #>> '{}')::jsonb
+      ELSE NULL
+    END AS ids
+  FROM tours t
+),
+rebuilt AS (
+  SELECT
+    n.id,
+    n.original_type,
+    jsonb_agg(
+      CASE WHEN m.id IS NOT NULL THEN to_jsonb(m.id || '_' || n.company_id) ELSE elem.value END
+      ORDER BY elem.ordinality
+    ) AS new_ids
+  FROM normalized n
+       CROSS JOIN LATERAL jsonb_array_elements(n.ids) WITH ORDINALITY AS elem(value, ordinality)
+       LEFT JOIN company_members m ON m.company_id IS NULL AND to_jsonb(m.id) = elem.value
+  WHERE jsonb_typeof(n.ids) = 'array'
+  GROUP BY n.id, n.original_type
+)
+UPDATE tours
+SET cast_member_ids = CASE rebuilt.original_type
+  WHEN 'string' THEN to_jsonb(rebuilt.new_ids::text)
+  ELSE rebuilt.new_ids
+END
+FROM rebuilt
+WHERE tours.id = rebuilt.id;
+
+DELETE FROM company_members WHERE company_id IS NULL;
+
+-- Role names only have to be unique within a company now.
+ALTER TABLE role_catalogue DROP CONSTRAINT IF EXISTS role_catalogue_name_key;
+ALTER TABLE role_catalogue ADD COLUMN company_id TEXT REFERENCES companies(id) ON DELETE CASCADE;
+
+INSERT INTO role_catalogue (id, company_id, name, "order", preferred_gender, active, created_at)
+SELECT r.id || '_' || c.id, c.id, r.name, r."order", r.preferred_gender, r.active, r.created_at
+FROM role_catalogue r
+CROSS JOIN companies c
+WHERE r.company_id IS NULL;
+
+DELETE FROM role_catalogue WHERE company_id IS NULL;
+
+ALTER TABLE company_members ALTER COLUMN company_id SET NOT NULL;
+ALTER TABLE schedules ALTER COLUMN company_id SET NOT NULL;
+ALTER TABLE tours ALTER COLUMN company_id SET NOT NULL;
+ALTER TABLE templates ALTER COLUMN company_id SET NOT NULL;
+ALTER TABLE role_catalogue ALTER COLUMN company_id SET NOT NULL;
+ALTER TABLE role_catalogue ADD CONSTRAINT role_catalogue_company_name_key UNIQUE (company_id, name);
+
+CREATE INDEX IF NOT EXISTS idx_company_members_company_id ON company_members(company_id, "order");
+CREATE INDEX IF NOT EXISTS idx_schedules_company_id ON schedules(company_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tours_company_id ON tours(company_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_templates_company_id ON templates(company_id);
@@ -0,0 +1,15 @@
+-- Roles within a company. An admin manages the company itself (its name, who
+-- belongs to it and as what) and its role catalogue; a manager edits
+-- schedules, tours, templates and the roster; a viewer only reads, and only
+-- schedules that have been published.
+ALTER TABLE company_users ADD COLUMN role TEXT NOT NULL DEFAULT 'viewer'
+  CHECK (role IN ('admin', 'manager', 'viewer'));
+
+-- Every existing membership is a user in the company migration 15 made for
+-- their own data, so they run it.
+UPDATE company_users SET role = 'admin';
+
+-- Viewers see a schedule once a manager publishes it. Existing schedules were
+-- private to their owner, so like new ones they start as drafts: the owner
+-- publishes what any viewer they add later should see.
+ALTER TABLE schedules ADD COLUMN published BOOLEAN NOT NULL DEFAULT FALSE;
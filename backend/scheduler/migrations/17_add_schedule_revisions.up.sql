@@ -0,0 +1,26 @@
+-- Every saved state of a schedule, numbered 1, 2, 3… per schedule. Rows are
+-- only ever inserted: restoring an old revision writes it back to schedules and
+-- records a new revision, so history is never rewritten. shows_data and
+-- assignments_data hold the same JSON as the schedules columns did at the time.
+CREATE TABLE IF NOT EXISTS schedule_revisions (
+  id                TEXT PRIMARY KEY,
+  schedule_id       TEXT NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+  revision          INTEGER NOT NULL,
+  -- What wrote it: create, update, red_day, auto_generate or restore.
+  source            TEXT NOT NULL,
+  -- For source = 'restore', the revision that was brought back.
+  restored_from     INTEGER,
+  user_id           TEXT NOT NULL,
+  location          TEXT NOT NULL,
+  week              TEXT NOT NULL,
+  shows_data        JSONB NOT NULL,
+  assignments_data  JSONB NOT NULL,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (schedule_id, revision)
+);
+
+-- Today's schedules become revision 1, so their first edit has something to
+-- diff against.
+INSERT INTO schedule_revisions (id, schedule_id, revision, source, user_id, location, week, shows_data, assignments_data, created_at)
+SELECT 'rev_' || id || '_1', id, 1, 'create', user_id, location, week, shows_data, assignments_data, updated_at
+FROM schedules;
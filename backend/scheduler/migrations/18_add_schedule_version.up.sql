@@ -0,0 +1,6 @@
+-- Optimistic concurrency for schedule edits. Every write that changes a
+-- schedule's content bumps version; an editor sends back the version it read,
+-- and a write against an older one is refused instead of silently overwriting
+-- someone else's changes. Publishing doesn't change the content, so it doesn't
+-- bump it.
+ALTER TABLE schedules ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,15 @@
+-- Calendar subscription feeds. A feed is a company's published schedules as
+-- iCalendar, served without a login at /ical/:token so a phone's calendar
+-- app can poll it: the token is the whole credential. performer NULL is the
+-- whole-company feed; otherwise one cast member's week. There is at most one
+-- live token per feed, and replacing it cuts off everyone holding the old URL.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  token       TEXT PRIMARY KEY,
+  company_id  TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  performer   TEXT,
+  created_by  TEXT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feeds_company_performer
+  ON calendar_feeds (company_id, COALESCE(performer, ''));
@@ -0,0 +1,44 @@
+-- A company's venue library. A venue carries what a new week there should
+-- start from: its curtain times per weekday (show_times, a JSON list of
+-- {dayOffset, time} with 0 = Monday, as in template slots; a weekday with no
+-- entry keeps the app's built-in times), how long before curtain the call is,
+-- and the IANA time zone its times are local to.
+CREATE TABLE IF NOT EXISTS venues (
+  id                   TEXT PRIMARY KEY,
+  company_id           TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name                 TEXT NOT NULL,
+  city                 TEXT NOT NULL DEFAULT '',
+  country              TEXT NOT NULL DEFAULT '',
+  address              TEXT NOT NULL DEFAULT '',
+  time_zone            TEXT NOT NULL DEFAULT 'UTC',
+  show_times           JSONB NOT NULL DEFAULT '[]',
+  call_offset_minutes  INTEGER NOT NULL DEFAULT 90,
+  created_by           TEXT NOT NULL,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS venues_company ON venues (company_id);
+
+-- The venue a schedule is played at. location stays as the week's label (what
+-- its revisions and calendar feeds show); deleting a venue unlinks its weeks
+-- and leaves that label.
+ALTER TABLE schedules ADD COLUMN venue_id TEXT REFERENCES venues(id) ON DELETE SET NULL;
+
+-- Every location already typed becomes a venue of its company, with no
+-- default times yet, and its weeks are linked to it.
+INSERT INTO venues (id, company_id, name, city, created_by)
+SELECT DISTINCT ON (s.company_id, TRIM(s.location))
+  'venue_' || md5(s.company_id || ':' || TRIM(s.location)),
+  s.company_id,
+  TRIM(s.location),
+  COALESCE(NULLIF(TRIM(s.location_city), ''), TRIM(s.location)),
+  'system'
+FROM schedules s
+WHERE TRIM(COALESCE(s.location, '')) <> ''
+ORDER BY s.company_id, TRIM(s.location), s.created_at
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE schedules s
+SET venue_id = 'venue_' || md5(s.company_id || ':' || TRIM(s.location))
+WHERE TRIM(COALESCE(s.location, '')) <> '';
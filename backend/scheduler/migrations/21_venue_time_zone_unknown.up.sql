@@ -0,0 +1,7 @@
+-- A venue's time zone may be unknown (''), and then its weeks take the zone
+-- of their city instead (see zones.ts). The venues made from typed-in
+-- locations when the library arrived were given UTC only as a placeholder, so
+-- they go back to unknown rather than putting every such week on UTC.
+ALTER TABLE venues ALTER COLUMN time_zone SET DEFAULT '';
+
+UPDATE venues SET time_zone = '' WHERE created_by = 'system' AND time_zone = 'UTC';
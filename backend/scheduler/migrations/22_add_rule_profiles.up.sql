@@ -0,0 +1,22 @@
+-- A company's labour-rule profiles. A profile holds the thresholds weeks are
+-- generated and validated under (limits, a JSON RuleLimits) and which rules
+-- report as errors, as warnings or not at all (severities, a JSON map of rule
+-- code to "error" | "warning" | "off"; a code left out keeps its built-in
+-- severity).
+CREATE TABLE IF NOT EXISTS rule_profiles (
+  id          TEXT PRIMARY KEY,
+  company_id  TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name        TEXT NOT NULL,
+  limits      JSONB NOT NULL,
+  severities  JSONB NOT NULL DEFAULT '{}',
+  created_by  TEXT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rule_profiles_company ON rule_profiles (company_id);
+
+-- The profile a company's weeks use, and the one a tour's weeks use instead.
+-- Neither set means the built-in rules; deleting a profile falls back.
+ALTER TABLE companies ADD COLUMN rule_profile_id TEXT REFERENCES rule_profiles(id) ON DELETE SET NULL;
+ALTER TABLE tours ADD COLUMN rule_profile_id TEXT REFERENCES rule_profiles(id) ON DELETE SET NULL;
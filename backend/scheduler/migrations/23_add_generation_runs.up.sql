@@ -0,0 +1,21 @@
+-- One row per Auto-Generate run, a single week or one week of a tour, kept so
+-- any run can be inspected or replayed. inputs is everything the algorithm was
+-- given (a JSON GenerationInputs: the shows, the picks it kept, the roster and
+-- role catalogue, unavailability, the carried-in week, tour balance and rule
+-- profile), seed the number its random choices were drawn from, and outcome
+-- what it returned. Rows are only ever inserted.
+CREATE TABLE IF NOT EXISTS generation_runs (
+  id           TEXT PRIMARY KEY,
+  company_id   TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  -- The saved week generated, if any; a run outlives its week and tour.
+  schedule_id  TEXT REFERENCES schedules(id) ON DELETE SET NULL,
+  tour_id      TEXT REFERENCES tours(id) ON DELETE SET NULL,
+  seed         BIGINT NOT NULL,
+  inputs       JSONB NOT NULL,
+  outcome      JSONB NOT NULL,
+  user_id      TEXT NOT NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS generation_runs_schedule ON generation_runs (schedule_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS generation_runs_company ON generation_runs (company_id, created_at DESC);
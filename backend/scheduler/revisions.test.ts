@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the pure diff is under test; keep the database and auth runtime out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('./live', () => ({}));
+vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn, APIError: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { diffSnapshots, RevisionContent } from './revisions';
+import type { Assignment, Show } from './types';
+
+const shows: Show[] = [
+  { id: 'thu', date: '2024-03-07', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'fri', date: '2024-03-08', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sat', date: '2024-03-09', time: '', callTime: '', status: 'dayoff' },
+];
+
+const assignments: Assignment[] = [
+  { showId: 'thu', role: 'Potato', performer: 'JAMIE' },
+  { showId: 'thu', role: 'Sarge', performer: 'PHIL' },
+  { showId: 'thu', role: 'OFF', performer: 'SEAN' },
+  { showId: 'fri', role: 'Potato', performer: 'SEAN' },
+  { showId: 'fri', role: 'Sarge', performer: 'PHIL' },
+  { showId: 'fri', role: 'OFF', performer: 'JAMIE', isRedDay: true },
+];
+
+const base: RevisionContent = { location: 'London', week: '', shows, assignments };
+
+describe('diffSnapshots', () => {
+  it('reports nothing for identical states', () => {
+    expect(diffSnapshots(base, structuredClone(base))).toEqual({ shows: [], assignments: [], redDays: [] });
+  });
+
+  it('reports who moved off which role on which show', () => {
+    const after = {
+      ...base,
+      assignments: base.assignments.map(a =>
+        a.showId === 'thu' && a.role === 'Potato' ? { ...a, performer: 'CADE' } : a
+      ),
+    };
+    expect(diffSnapshots(base, after).assignments).toEqual([
+      { showId: 'thu', date: '2024-03-07', role: 'Potato', before: 'JAMIE', after: 'CADE' },
+    ]);
+  });
+
+  it('reports an uncast role with an empty performer', () => {
+    const after = { ...base, assignments: base.assignments.filter(a => !(a.showId === 'fri' && a.role === 'Sarge')) };
+    expect(diffSnapshots(base, after).assignments).toEqual([
+      { showId: 'fri', date: '2024-03-08', role: 'Sarge', before: 'PHIL', after: '' },
+    ]);
+  });
+
+  it('reports RED days by date, ignoring OFF rows that are not RED', () => {
+    const after = {
+      ...base,
+      assignments: base.assignments.map(a => {
+        if (a.performer === 'JAMIE' && a.role === 'OFF') return { ...a, isRedDay: false };
+        if (a.performer === 'SEAN' && a.role === 'OFF') return { ...a, isRedDay: true };
+        return a;
+      }),
+    };
+    expect(diffSnapshots(base, after).redDays).toEqual([
+      { performer: 'JAMIE', before: '2024-03-08', after: null },
+      { performer: 'SEAN', before: null, after: '2024-03-07' },
+    ]);
+  });
+
+  it('reports added, removed and edited show columns in date order', () => {
+    const after = {
+      ...base,
+      location: 'Paris',
+      shows: [
+        { ...shows[0], time: '20:00' },
+        { ...shows[2], isCompanyRedDay: true },
+        { id: 'sun', date: '2024-03-10', time: '15:00', callTime: '13:30', status: 'show' as const },
+      ],
+    };
+    const diff = diffSnapshots(base, after);
+    expect(diff.location).toEqual({ before: 'London', after: 'Paris' });
+    expect(diff.week).toBeUndefined();
+    expect(diff.shows.map(s => [s.showId, s.kind, s.fields])).toEqual([
+      ['thu', 'changed', ['time']],
+      ['fri', 'removed', undefined],
+      ['sat', 'changed', ['isCompanyRedDay']],
+      ['sun', 'added', undefined],
+    ]);
+  });
+
+  it('treats a missing company RED day flag as false', () => {
+    const after = { ...base, shows: base.shows.map(s => ({ ...s, isCompanyRedDay: false })) };
+    expect(diffSnapshots(base, after).shows).toEqual([]);
+  });
+});
@@ -0,0 +1,391 @@
+// Schedule revision history.
+//
+// Every write to a schedule (create, update, a RED-day toggle, a generated
+// week saved by a tour, a week moved by a tour edit, a restore) records the
+// state it left behind as the next numbered revision. Revisions are
+// immutable: restoring one writes it back to the schedule and records it again
+// as a new revision. diffSnapshots is pure; the rest reads or writes
+// schedule_revisions.
+
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "encore.dev/internal/codegen/auth";
+import type { AuthData } from "../auth/encore_auth";
+import type { Transaction } from "encore.dev/storage/sqldb";
+import { inTransaction, scheduleDB } from "./db";
+import { requireCompanyRole } from "./companies";
+import { publishSaved } from "./live";
+import { Assignment, Role, Schedule, Show } from "./types";
+
+export type RevisionSource = "create" | "update" | "red_day" | "auto_generate" | "restore" | "tour_edit";
+
+// The parts of a schedule a revision keeps.
+export interface RevisionContent {
+  location: string;
+  week: string;
+  shows: Show[];
+  assignments: Assignment[];
+}
+
+export interface RevisionSummary {
+  revision: number;
+  source: RevisionSource;
+  restoredFrom?: number;
+  userId: string;
+  // The author's email, when they have an account (seeded rows say "system").
+  userEmail?: string;
+  createdAt: Date;
+}
+
+export interface ScheduleRevision extends RevisionSummary, RevisionContent {
+  scheduleId: string;
+}
+
+// A stage role whose performer changed. An empty before/after means the role
+// was uncast on that side.
+export interface AssignmentChange {
+  showId: string;
+  date: string;
+  role: Role;
+  before: string;
+  after: string;
+}
+
+// A performer whose RED day moved, appeared or went away. null = none that week.
+export interface RedDayChange {
+  performer: string;
+  before: string | null;
+  after: string | null;
+}
+
+export type ShowField = "date" | "time" | "callTime" | "status" | "location" | "isCompanyRedDay";
+
+// A show column that was added, removed, or had any of `fields` edited.
+export interface ShowChange {
+  showId: string;
+  date: string;
+  kind: "added" | "removed" | "changed";
+  fields?: ShowField[];
+  before?: Show;
+  after?: Show;
+}
+
+export interface ScheduleDiff {
+  location?: { before: string; after: string };
+  week?: { before: string; after: string };
+  shows: ShowChange[];
+  assignments: AssignmentChange[];
+  redDays: RedDayChange[];
+}
+
+export interface ListRevisionsResponse {
+  // Newest first.
+  revisions: RevisionSummary[];
+}
+
+export interface GetRevisionResponse {
+  revision: ScheduleRevision;
+}
+
+export interface DiffRevisionsRequest {
+  id: string;
+  from: number;
+  to: number;
+}
+
+export interface DiffRevisionsResponse {
+  from: number;
+  to: number;
+  diff: ScheduleDiff;
+}
+
+export interface RestoreRevisionRequest {
+  id: string;
+  revision: number;
+  // The version the restore was chosen against. When the schedule has been
+  // saved since, the restore is refused rather than overwriting that save.
+  version: number;
+}
+
+export interface RestoreRevisionResponse {
+  schedule: Schedule;
+  // The new revision the restore was recorded as.
+  revision: number;
+}
+
+const SHOW_FIELDS: ShowField[] = ["date", "time", "callTime", "status", "location", "isCompanyRedDay"];
+
+// Stage casting keyed by show and role; OFF rows are the bench, not a role.
+function castingOf(assignments: Assignment[]): Map<string, Assignment> {
+  const map = new Map<string, Assignment>();
+  for (const a of assignments) {
+    if (a.role !== "OFF") map.set(`${a.showId}\u0000${a.role}`, a);
+  }
+  return map;
+}
+
+// Each performer's RED day as a date (a RED day covers a whole date, so every
+// OFF row on it carries the flag).
+function redDaysOf(assignments: Assignment[], shows: Show[]): Map<string, string> {
+  const dates = new Map(shows.map(s => [s.id, s.date]));
+  const map = new Map<string, string>();
+  for (const a of assignments) {
+    const date = dates.get(a.showId);
+    if (a.isRedDay && date && !map.has(a.performer)) map.set(a.performer, date);
+  }
+  return map;
+}
+
+// An absent flag and a false one are the same column.
+function fieldValue(show: Show, field: ShowField): string | boolean | undefined {
+  return field === "isCompanyRedDay" ? Boolean(show.isCompanyRedDay) : show[field];
+}
+
+// What changed between two states of a schedule: show columns, stage casting
+// (showId/role/performer) and RED days. Listed in date order, then role order
+// as first seen.
+export function diffSnapshots(before: RevisionContent, after: RevisionContent): ScheduleDiff {
+  const diff: ScheduleDiff = { shows: [], assignments: [], redDays: [] };
+  if (before.location !== after.location) diff.location = { before: before.location, after: after.location };
+  if (before.week !== after.week) diff.week = { before: before.week, after: after.week };
+
+  const beforeShows = new Map(before.shows.map(s => [s.id, s]));
+  const afterShows = new Map(after.shows.map(s => [s.id, s]));
+  for (const show of after.shows) {
+    const old = beforeShows.get(show.id);
+    if (!old) {
+      diff.shows.push({ showId: show.id, date: show.date, kind: "added", after: show });
+      continue;
+    }
+    const fields = SHOW_FIELDS.filter(f => fieldValue(old, f) !== fieldValue(show, f));
+    if (fields.length > 0) {
+      diff.shows.push({ showId: show.id, date: show.date, kind: "changed", fields, before: old, after: show });
+    }
+  }
+  for (const show of before.shows) {
+    if (!afterShows.has(show.id)) {
+      diff.shows.push({ showId: show.id, date: show.date, kind: "removed", before: show });
+    }
+  }
+  diff.shows.sort((a, b) => a.date.localeCompare(b.date));
+
+  const dateOf = (showId: string) => afterShows.get(showId)?.date ?? beforeShows.get(showId)?.date ?? "";
+  const beforeCast = castingOf(before.assignments);
+  const afterCast = castingOf(after.assignments);
+  const keys = new Set([...beforeCast.keys(), ...afterCast.keys()]);
+  for (const key of keys) {
+    const was = beforeCast.get(key)?.performer ?? "";
+    const now = afterCast.get(key)?.performer ?? "";
+    if (was === now) continue;
+    const [showId, role] = key.split("\u0000");
+    diff.assignments.push({ showId, date: dateOf(showId), role, before: was, after: now });
+  }
+  diff.assignments.sort((a, b) => a.date.localeCompare(b.date));
+
+  const beforeRed = redDaysOf(before.assignments, before.shows);
+  const afterRed = redDaysOf(after.assignments, after.shows);
+  const performers = new Set([...beforeRed.keys(), ...afterRed.keys()]);
+  for (const performer of performers) {
+    const was = beforeRed.get(performer) ?? null;
+    const now = afterRed.get(performer) ?? null;
+    if (was !== now) diff.redDays.push({ performer, before: was, after: now });
+  }
+  diff.redDays.sort((a, b) => a.performer.localeCompare(b.performer));
+
+  return diff;
+}
+
+// Records the state a write just left behind as the schedule's next revision.
+// Call it in the write's transaction, after the write, with what was written:
+// a save then never sticks without its revision, nor its revision without it.
+export async function recordRevision(
+  tx: Transaction,
+  scheduleId: string,
+  content: RevisionContent,
+  source: RevisionSource,
+  restoredFrom?: number
+): Promise<number> {
+  const authData = await getAuthData<AuthData>();
+  const userId = authData?.userID ?? 'system';
+
+  // The schedule row's lock (already held after an UPDATE) keeps any other
+  // save of the schedule waiting until this one commits, so two saves never
+  // read the same MAX.
+  await tx.exec`SELECT id FROM schedules WHERE id = ${scheduleId} FOR UPDATE`;
+  const last = await tx.queryRow<{ revision: number | null }>`
+    SELECT MAX(revision) AS revision FROM schedule_revisions WHERE schedule_id = ${scheduleId}
+  `;
+  const revision = (last?.revision ?? 0) + 1;
+
+  await tx.exec`
+    INSERT INTO schedule_revisions
+      (id, schedule_id, revision, source, restored_from, user_id, location, week, shows_data, assignments_data, created_at)
+    VALUES (
+      ${`rev_${scheduleId}_${revision}`},
+      ${scheduleId},
+      ${revision},
+      ${source},
+      ${restoredFrom ?? null},
+      ${userId},
+      ${content.location},
+      ${content.week},
+      ${JSON.stringify(content.shows)},
+      ${JSON.stringify(content.assignments)},
+      ${new Date()}
+    )
+  `;
+  return revision;
+}
+
+interface RevisionRow {
+  schedule_id: string;
+  revision: number;
+  source: RevisionSource;
+  restored_from: number | null;
+  user_id: string;
+  email: string | null;
+  location: string;
+  week: string;
+  shows_data: string;
+  assignments_data: string;
+  created_at: string;
+}
+
+function toSummary(row: RevisionRow): RevisionSummary {
+  return {
+    revision: row.revision,
+    source: row.source,
+    restoredFrom: row.restored_from ?? undefined,
+    userId: row.user_id,
+    userEmail: row.email ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function toRevision(row: RevisionRow): ScheduleRevision {
+  return {
+    ...toSummary(row),
+    scheduleId: row.schedule_id,
+    location: row.location,
+    week: row.week,
+    shows: JSON.parse(row.shows_data) as Show[],
+    assignments: JSON.parse(row.assignments_data) as Assignment[],
+  };
+}
+
+// History is for the people who edit: a viewer only ever sees the published
+// current state. Another company's schedule reads as not-found.
+async function assertScheduleEditable(scheduleId: string): Promise<string> {
+  const companyId = await requireCompanyRole("manager");
+  const row = await scheduleDB.queryRow`
+    SELECT id FROM schedules WHERE id = ${scheduleId} AND company_id = ${companyId}
+  `;
+  if (!row) {
+    throw APIError.notFound("schedule not found");
+  }
+  return companyId;
+}
+
+async function loadRevision(scheduleId: string, revision: number): Promise<ScheduleRevision> {
+  const row = await scheduleDB.queryRow<RevisionRow>`
+    SELECT r.schedule_id, r.revision, r.source, r.restored_from, r.user_id, u.email,
+           r.location, r.week, r.shows_data, r.assignments_data, r.created_at
+    FROM schedule_revisions r
+    LEFT JOIN users u ON u.id = r.user_id
+    WHERE r.schedule_id = ${scheduleId} AND r.revision = ${revision}
+  `;
+  if (!row) {
+    throw APIError.notFound("revision not found");
+  }
+  return toRevision(row);
+}
+
+// Lists a schedule's revisions, newest first.
+export const listRevisions = api<{ id: string }, ListRevisionsResponse>(
+  { expose: true, method: "GET", path: "/schedules/:id/revisions", auth: true },
+  async (req) => {
+    await assertScheduleEditable(req.id);
+
+    const rows = await scheduleDB.queryAll<RevisionRow>`
+      SELECT r.schedule_id, r.revision, r.source, r.restored_from, r.user_id, u.email,
+             r.location, r.week, r.shows_data, r.assignments_data, r.created_at
+      FROM schedule_revisions r
+      LEFT JOIN users u ON u.id = r.user_id
+      WHERE r.schedule_id = ${req.id}
+      ORDER BY r.revision DESC
+    `;
+
+    return { revisions: rows.map(toSummary) };
+  }
+);
+
+// Retrieves one revision of a schedule in full.
+export const getRevision = api<{ id: string; revision: number }, GetRevisionResponse>(
+  { expose: true, method: "GET", path: "/schedules/:id/revisions/:revision", auth: true },
+  async (req) => {
+    await assertScheduleEditable(req.id);
+    return { revision: await loadRevision(req.id, req.revision) };
+  }
+);
+
+// Compares two revisions of a schedule: show columns, casting and RED days.
+export const diffRevisions = api<DiffRevisionsRequest, DiffRevisionsResponse>(
+  { expose: true, method: "GET", path: "/schedules/:id/diff", auth: true },
+  async (req) => {
+    await assertScheduleEditable(req.id);
+
+    const [from, to] = await Promise.all([loadRevision(req.id, req.from), loadRevision(req.id, req.to)]);
+    return { from: req.from, to: req.to, diff: diffSnapshots(from, to) };
+  }
+);
+
+// Writes an old revision back to the schedule, recording it as a new revision.
+export const restoreRevision = api<RestoreRevisionRequest, RestoreRevisionResponse>(
+  { expose: true, method: "POST", path: "/schedules/:id/revisions/:revision/restore", auth: true },
+  async (req) => {
+    const companyId = await assertScheduleEditable(req.id);
+    const old = await loadRevision(req.id, req.revision);
+
+    const now = new Date();
+    const { row, revision } = await inTransaction(async tx => {
+      const row = await tx.queryRow`
+        UPDATE schedules
+        SET location = ${old.location},
+            week = ${old.week},
+            shows_data = ${JSON.stringify(old.shows)},
+            assignments_data = ${JSON.stringify(old.assignments)},
+            version = version + 1,
+            updated_at = ${now}
+        WHERE id = ${req.id} AND company_id = ${companyId} AND version = ${req.version}
+        RETURNING template_id, published, version, created_at
+      `;
+      return { row, revision: row ? await recordRevision(tx, req.id, old, "restore", req.revision) : 0 };
+    });
+    if (!row) {
+      const { staleScheduleError } = await import("./update");
+      throw await staleScheduleError(req.id, companyId);
+    }
+
+    await publishSaved(req.id, row.version, {
+      location: old.location,
+      week: old.week,
+      shows: old.shows,
+      assignments: old.assignments,
+    });
+
+    return {
+      schedule: {
+        id: req.id,
+        location: old.location,
+        week: old.week,
+        shows: old.shows,
+        assignments: old.assignments,
+        templateId: row.template_id ?? undefined,
+        published: row.published,
+        version: row.version,
+        createdAt: new Date(row.created_at),
+        updatedAt: now,
+      },
+      revision,
+    };
+  }
+);
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { addMember, deleteMember, getCompany, updateMember } from './company';
+import { addRole, deleteRole, listRoles, updateRole } from './roles';
+import { createCompany, currentCompanyId, switchCompany } from './companies';
+import { scheduleDB } from './db';
+
+describe('Role catalogue', () => {
+  it('is seeded with the eight STOMP tracks in order', async () => {
+    const { roles } = await listRoles();
+    const seeded = roles.filter(r => r.id.startsWith('role_seed_')).map(r => r.name);
+    expect(seeded).toEqual(['Sarge', 'Potato', 'Mozzie', 'Ringo', 'Particle', 'Bin', 'Cornish', 'Who']);
+    expect(roles.find(r => r.name === 'Bin')?.preferredGender).toBe('female');
+  });
+
+  it('adds a role at the end, and getCompany only lists it while active', async () => {
+    const { role } = await addRole({ name: 'TempTrack', preferredGender: 'male' });
+    try {
+      const { roles } = await listRoles();
+      expect(roles[roles.length - 1]).toMatchObject({ name: 'TempTrack', preferredGender: 'male', active: true });
+      expect((await getCompany()).roles).toContain('TempTrack');
+
+      const updated = await updateRole({ id: role.id, active: false, preferredGender: null });
+      expect(updated.role).toMatchObject({ active: false, preferredGender: undefined });
+      const company = await getCompany();
+      expect(company.roles).not.toContain('TempTrack');
+      expect(company.roleCatalogue.some(r => r.name === 'TempTrack')).toBe(true);
+    } finally {
+      await deleteRole({ id: role.id });
+    }
+  });
+
+  it('rejects a blank, reserved or duplicate name', async () => {
+    await expect(addRole({ name: '  ' })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(addRole({ name: 'off' })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(addRole({ name: 'sarge' })).rejects.toMatchObject({ code: 'already_exists' });
+  });
+
+  it('refuses to delete a role someone is eligible for', async () => {
+    const { role } = await addRole({ name: 'TempInUse' });
+    const { member } = await addMember({ name: 'TEMP ROLE USER', eligibleRoles: ['TempInUse'] });
+    try {
+      await expect(deleteRole({ id: role.id })).rejects.toMatchObject({ code: 'failed_precondition' });
+    } finally {
+      await deleteMember({ id: member.id });
+      await deleteRole({ id: role.id });
+    }
+  });
+
+  it('rejects eligibility for a role the catalogue does not know', async () => {
+    await expect(addMember({ name: 'TEMP UNKNOWN', eligibleRoles: ['Juggler'] }))
+      .rejects.toMatchObject({ code: 'invalid_argument' });
+
+    const { member } = await addMember({ name: 'TEMP KNOWN', eligibleRoles: ['Sarge'] });
+    try {
+      await expect(updateMember({ id: member.id, eligibleRoles: ['Juggler'] }))
+        .rejects.toMatchObject({ code: 'invalid_argument' });
+    } finally {
+      await deleteMember({ id: member.id });
+    }
+  });
+
+  it("only lets an admin edit their own company's catalogue", async () => {
+    const home = await currentCompanyId();
+    const sarge = (await listRoles()).roles.find(r => r.name === 'Sarge')!;
+
+    // Anyone can make a company and be its admin; that gives them no say over
+    // the roles another company casts against.
+    const { company } = await createCompany({ name: 'TEMP Role admin' });
+    try {
+      await expect(updateRole({ id: sarge.id, active: false })).rejects.toMatchObject({ code: 'not_found' });
+      await expect(deleteRole({ id: sarge.id })).rejects.toMatchObject({ code: 'not_found' });
+    } finally {
+      await switchCompany({ id: home });
+      await scheduleDB.exec`DELETE FROM companies WHERE id = ${company.id}`;
+    }
+    expect((await listRoles()).roles.find(r => r.id === sarge.id)).toMatchObject({ active: true });
+  });
+});
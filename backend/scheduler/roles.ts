@@ -0,0 +1,201 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { currentCompanyId, requireCompanyRole } from "./companies";
+import { DEFAULT_ROLE_CATALOGUE, RoleDefinition } from "./types";
+
+export interface ListRolesResponse {
+  // Every role, active or not, in catalogue order.
+  roles: RoleDefinition[];
+}
+
+export interface AddRoleRequest {
+  name: string;
+  preferredGender?: "male" | "female";
+  // Omitted -> active.
+  active?: boolean;
+}
+
+export interface UpdateRoleRequest {
+  id: string;
+  // The name is deliberately not editable: it is stored verbatim in every
+  // assignment and eligibility list that uses the role.
+  order?: number;
+  // null clears the convention.
+  preferredGender?: "male" | "female" | null;
+  active?: boolean;
+}
+
+export interface RoleResponse {
+  role: RoleDefinition;
+}
+
+interface RoleRow {
+  id: string;
+  name: string;
+  order: number;
+  preferred_gender: string | null;
+  active: boolean;
+}
+
+function mapRow(row: RoleRow): RoleDefinition {
+  return {
+    id: row.id,
+    name: row.name,
+    order: row.order,
+    preferredGender: (row.preferred_gender as "male" | "female" | null) ?? undefined,
+    active: row.active,
+  };
+}
+
+// A company's whole catalogue in order. Endpoints that cast or validate read
+// this once per request (via loadCastMembers) and hand it to the algorithm.
+export async function loadRoleCatalogue(companyId: string): Promise<RoleDefinition[]> {
+  const rows = await scheduleDB.queryAll<RoleRow>`
+    SELECT id, name, "order", preferred_gender, active
+    FROM role_catalogue
+    WHERE company_id = ${companyId}
+    ORDER BY "order" ASC, name ASC
+  `;
+  return rows.map(mapRow);
+}
+
+// Gives a new company the STOMP tracks to edit from. Ids are the defaults'
+// suffixed with the company's, as migration 15 copied them, so a repeat call
+// changes nothing.
+export async function seedRoleCatalogue(companyId: string): Promise<void> {
+  for (const role of DEFAULT_ROLE_CATALOGUE) {
+    await scheduleDB.exec`
+      INSERT INTO role_catalogue (id, company_id, name, "order", preferred_gender, active)
+      VALUES (${`${role.id}_${companyId}`}, ${companyId}, ${role.name}, ${role.order}, ${role.preferredGender ?? null}, ${role.active})
+      ON CONFLICT DO NOTHING
+    `;
+  }
+}
+
+// A show with no stage roles can't be cast, so a company's last active role
+// can be neither deactivated nor deleted.
+async function assertNotLastActiveRole(companyId: string, roleId: string, action: string): Promise<void> {
+  const others = await scheduleDB.queryRow<{ n: number }>`
+    SELECT COUNT(*)::int AS n FROM role_catalogue
+    WHERE company_id = ${companyId} AND active = TRUE AND id != ${roleId}
+  `;
+  if ((others?.n ?? 0) === 0) {
+    throw APIError.failedPrecondition(`cannot ${action} the last active role`);
+  }
+}
+
+// Lists the current company's role catalogue.
+export const listRoles = api<void, ListRolesResponse>(
+  { expose: true, method: "GET", path: "/company/roles", auth: true },
+  async () => {
+    return { roles: await loadRoleCatalogue(await currentCompanyId()) };
+  }
+);
+
+// Adds a role to the end of the current company's catalogue.
+export const addRole = api<AddRoleRequest, RoleResponse>(
+  { expose: true, method: "POST", path: "/company/roles", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("admin");
+    const name = req.name.trim();
+    if (!name) {
+      throw APIError.invalidArgument("role name is required");
+    }
+    // OFF is the bench marker in Assignment.role, not a track.
+    if (name.toUpperCase() === "OFF") {
+      throw APIError.invalidArgument("OFF is reserved and cannot be a role");
+    }
+
+    const clash = await scheduleDB.queryRow<{ id: string }>`
+      SELECT id FROM role_catalogue WHERE company_id = ${companyId} AND LOWER(name) = LOWER(${name})
+    `;
+    if (clash) {
+      throw APIError.alreadyExists(`role "${name}" already exists`);
+    }
+
+    const orderRow = await scheduleDB.queryRow<{ next: number }>`
+      SELECT COALESCE(MAX("order"), -1) + 1 AS next FROM role_catalogue WHERE company_id = ${companyId}
+    `;
+
+    const role: RoleDefinition = {
+      id: `role_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      order: orderRow?.next ?? 0,
+      preferredGender: req.preferredGender,
+      active: req.active ?? true,
+    };
+
+    await scheduleDB.exec`
+      INSERT INTO role_catalogue (id, company_id, name, "order", preferred_gender, active)
+      VALUES (${role.id}, ${companyId}, ${role.name}, ${role.order}, ${role.preferredGender ?? null}, ${role.active})
+    `;
+
+    return { role };
+  }
+);
+
+// Updates a role's order, casting convention or active flag. Admins edit only
+// their current company's catalogue; another company's role reads as not found.
+export const updateRole = api<UpdateRoleRequest, RoleResponse>(
+  { expose: true, method: "PUT", path: "/company/roles/:id", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("admin");
+    const existing = await scheduleDB.queryRow<RoleRow>`
+      SELECT id, name, "order", preferred_gender, active
+      FROM role_catalogue WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!existing) {
+      throw APIError.notFound("role not found");
+    }
+
+    const role = mapRow(existing);
+    if (req.order !== undefined) role.order = req.order;
+    if (req.preferredGender !== undefined) role.preferredGender = req.preferredGender ?? undefined;
+    if (req.active !== undefined && req.active !== role.active) {
+      if (!req.active) {
+        await assertNotLastActiveRole(companyId, req.id, "deactivate");
+      }
+      role.active = req.active;
+    }
+
+    await scheduleDB.exec`
+      UPDATE role_catalogue SET
+        "order" = ${role.order},
+        preferred_gender = ${role.preferredGender ?? null},
+        active = ${role.active}
+      WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+
+    return { role };
+  }
+);
+
+// Deletes a role nobody is eligible for. A role still on someone's eligibility
+// list is in use — deactivate it instead.
+export const deleteRole = api<{ id: string }, void>(
+  { expose: true, method: "DELETE", path: "/company/roles/:id", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("admin");
+    const existing = await scheduleDB.queryRow<RoleRow>`
+      SELECT id, name, "order", preferred_gender, active
+      FROM role_catalogue WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!existing) {
+      throw APIError.notFound("role not found");
+    }
+
+    const inUse = await scheduleDB.queryRow<{ n: number }>`
+      SELECT COUNT(*)::int AS n FROM company_members
+      WHERE company_id = ${companyId} AND eligible_roles @> ${JSON.stringify([existing.name])}::jsonb
+    `;
+    if ((inUse?.n ?? 0) > 0) {
+      throw APIError.failedPrecondition(`role "${existing.name}" is in use by ${inUse!.n} member(s) - deactivate it instead`);
+    }
+
+    if (existing.active) {
+      await assertNotLastActiveRole(companyId, req.id, "delete");
+    }
+
+    await scheduleDB.exec`DELETE FROM role_catalogue WHERE id = ${req.id} AND company_id = ${companyId}`;
+  }
+);
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach, beforeAll } from 'vitest';
+import { scheduleDB } from './db';
+import { DEFAULT_RULE_LIMITS } from './algorithm';
+import {
+  listRuleProfiles,
+  createRuleProfile,
+  updateRuleProfile,
+  deleteRuleProfile,
+  setCompanyRuleProfile,
+  loadScheduleRules,
+} from './rule_profiles';
+import { currentCompanyId } from './companies';
+import { create } from './create';
+import { deleteSchedule } from './delete';
+import type { RuleSeverity } from './types';
+
+// Runs as 'system' in its own company, like venues.test.ts.
+describe('Labour-rule profiles', () => {
+  const profileIds: string[] = [];
+  const scheduleIds: string[] = [];
+  let companyId: string;
+
+  beforeAll(async () => {
+    companyId = await currentCompanyId();
+  });
+
+  afterEach(async () => {
+    await setCompanyRuleProfile({ id: companyId });
+    for (const id of scheduleIds) {
+      try { await deleteSchedule({ id }); } catch { /* already gone */ }
+    }
+    for (const id of profileIds) {
+      try { await deleteRuleProfile({ id }); } catch { /* already gone */ }
+    }
+    await scheduleDB.exec`DELETE FROM rule_profiles WHERE company_id = 'other-company'`;
+    await scheduleDB.exec`DELETE FROM companies WHERE id = 'other-company'`;
+    scheduleIds.length = 0;
+    profileIds.length = 0;
+  });
+
+  it('creates, lists, updates and deletes a profile, storing only the severities it changes', async () => {
+    const created = await createRuleProfile({
+      name: ' US sit-down ',
+      limits: { ...DEFAULT_RULE_LIMITS, maxShowsPerWeek: 8 },
+      severities: { WEEKLY_LIMIT_EXCEEDED: 'error', BACK_TO_BACK_DOUBLES: 'warning' },
+    });
+    profileIds.push(created.profile.id);
+    expect(created.profile.name).toBe('US sit-down');
+    expect(created.profile.limits.maxShowsPerWeek).toBe(8);
+    expect(created.profile.severities).toEqual({ BACK_TO_BACK_DOUBLES: 'warning' });
+
+    const listed = await listRuleProfiles();
+    expect(listed.profiles.some((p) => p.id === created.profile.id)).toBe(true);
+    expect(listed.builtIn.limits).toEqual(DEFAULT_RULE_LIMITS);
+
+    const updated = await updateRuleProfile({ id: created.profile.id, name: 'Festival run' });
+    expect(updated.profile).toMatchObject({ name: 'Festival run', severities: { BACK_TO_BACK_DOUBLES: 'warning' } });
+
+    await deleteRuleProfile({ id: created.profile.id });
+    expect((await listRuleProfiles()).profiles.some((p) => p.id === created.profile.id)).toBe(false);
+  });
+
+  it('rejects a bad limit, an unknown rule code or severity', async () => {
+    await expect(createRuleProfile({ name: 'X', limits: { ...DEFAULT_RULE_LIMITS, maxShowsPerWeek: 0 } })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(createRuleProfile({ name: 'X', limits: { ...DEFAULT_RULE_LIMITS, minRestMinutes: 1.5 } })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(createRuleProfile({ name: 'X', severities: { CASTING_INCOMPLETE: 'off' } })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(createRuleProfile({ name: 'X', severities: { MINIMUM_REST: 'loud' as unknown as RuleSeverity } })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(createRuleProfile({ name: '  ' })).rejects.toMatchObject({ code: 'invalid_argument' });
+  });
+
+  it("holds a week to the company's profile, and to the built-in rules once it is deleted", async () => {
+    const { profile } = await createRuleProfile({ name: 'UK touring', limits: { ...DEFAULT_RULE_LIMITS, minRestMinutes: 12 * 60 } });
+    profileIds.push(profile.id);
+    const { schedule } = await create({ location: 'London', week: '', shows: [] });
+    scheduleIds.push(schedule.id);
+
+    expect(await loadScheduleRules(companyId, schedule.id)).toBeUndefined();
+    await setCompanyRuleProfile({ id: companyId, profileId: profile.id });
+    expect((await listRuleProfiles()).companyProfileId).toBe(profile.id);
+    expect((await loadScheduleRules(companyId, schedule.id))?.limits.minRestMinutes).toBe(12 * 60);
+
+    await deleteRuleProfile({ id: profile.id });
+    expect(await loadScheduleRules(companyId, schedule.id)).toBeUndefined();
+  });
+
+  it("refuses another company's profile", async () => {
+    await scheduleDB.exec`INSERT INTO companies (id, name) VALUES ('other-company', 'Elsewhere')`;
+    await scheduleDB.exec`
+      INSERT INTO rule_profiles (id, company_id, name, limits, created_by)
+      VALUES ('foreign-profile', 'other-company', 'Theirs', ${JSON.stringify(DEFAULT_RULE_LIMITS)}, 'other-user')
+    `;
+
+    expect((await listRuleProfiles()).profiles.some((p) => p.id === 'foreign-profile')).toBe(false);
+    await expect(updateRuleProfile({ id: 'foreign-profile', name: 'hacked' })).rejects.toMatchObject({ code: 'not_found' });
+    await expect(setCompanyRuleProfile({ id: companyId, profileId: 'foreign-profile' })).rejects.toMatchObject({ code: 'invalid_argument' });
+  });
+});
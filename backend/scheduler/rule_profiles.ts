@@ -0,0 +1,254 @@
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "encore.dev/internal/codegen/auth";
+import type { AuthData } from "../auth/encore_auth";
+import { scheduleDB } from "./db";
+import { currentCompanyId, requireCompanyRole } from "./companies";
+import { DEFAULT_RULE_LIMITS, BUILT_IN_SEVERITY, PROFILE_RULE_CODES, RuleCode } from "./algorithm";
+import { RuleLimits, RuleProfile, RuleSettings, RuleSeverity } from "./types";
+
+export interface ListRuleProfilesResponse {
+  profiles: RuleProfile[];
+  // The profile the company's weeks use when their tour names none.
+  companyProfileId?: string;
+  // What a week is held to with no profile at all, and the codes a profile
+  // may set the severity of.
+  builtIn: RuleSettings;
+  ruleCodes: RuleCode[];
+}
+
+export interface CreateRuleProfileRequest {
+  name: string;
+  // Omitted -> the built-in limits.
+  limits?: RuleLimits;
+  severities?: Record<string, RuleSeverity>;
+}
+
+export interface UpdateRuleProfileRequest {
+  id: string;
+  name?: string;
+  limits?: RuleLimits;
+  // Replaces the whole map.
+  severities?: Record<string, RuleSeverity>;
+}
+
+export interface RuleProfileResponse {
+  profile: RuleProfile;
+}
+
+export interface SetCompanyRuleProfileRequest {
+  id: string;
+  // "" or omitted goes back to the built-in rules.
+  profileId?: string;
+}
+
+const SEVERITIES: readonly RuleSeverity[] = ["error", "warning", "off"];
+
+// limits and severities are written as JSON.stringify(...); read them
+// defensively like venue show times (see parseShowTimes in venues.ts).
+function parseJson<T extends object>(raw: unknown): Partial<T> {
+  if (typeof raw === "string") return JSON.parse(raw) as Partial<T>;
+  if (raw && typeof raw === "object") return raw as Partial<T>;
+  return {};
+}
+
+export function ruleProfileFromRow(row: Record<string, any>): RuleProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    // A limit added after the profile was saved takes its built-in value.
+    limits: { ...DEFAULT_RULE_LIMITS, ...parseJson<RuleLimits>(row.limits) },
+    severities: parseJson<Record<string, RuleSeverity>>(row.severities) as Record<string, RuleSeverity>
+  };
+}
+
+// A profile's fields trimmed and checked.
+function checkedProfile(profile: Omit<RuleProfile, "id">): Omit<RuleProfile, "id"> {
+  const name = profile.name.trim();
+  if (!name) {
+    throw APIError.invalidArgument("a rule profile needs a name");
+  }
+  const limits = { ...DEFAULT_RULE_LIMITS };
+  for (const key of Object.keys(DEFAULT_RULE_LIMITS) as (keyof RuleLimits)[]) {
+    const value = profile.limits[key];
+    if (!Number.isInteger(value) || value < 0) {
+      throw APIError.invalidArgument(`${key} must be a whole number from 0 up`);
+    }
+    limits[key] = value;
+  }
+  if (limits.maxConsecutiveShows < 1 || limits.maxShowsPerWeek < 1 || limits.maxDaysBetweenRedDays < 1) {
+    throw APIError.invalidArgument("maxConsecutiveShows, maxShowsPerWeek and maxDaysBetweenRedDays must be at least 1");
+  }
+  const severities: Record<string, RuleSeverity> = {};
+  for (const [code, severity] of Object.entries(profile.severities)) {
+    if (!PROFILE_RULE_CODES.includes(code as RuleCode)) {
+      throw APIError.invalidArgument(`${code} is not a rule a profile can set`);
+    }
+    if (!SEVERITIES.includes(severity)) {
+      throw APIError.invalidArgument(`${code}: severity must be error, warning or off`);
+    }
+    // Stored only where it differs, so a later change to the built-in
+    // severity reaches every profile that didn't pick its own.
+    if (severity !== BUILT_IN_SEVERITY[code as RuleCode]) severities[code] = severity;
+  }
+  return { name, limits, severities };
+}
+
+async function loadProfile(companyId: string, profileId: string | null | undefined): Promise<RuleProfile | undefined> {
+  if (!profileId) return undefined;
+  const row = await scheduleDB.queryRow`
+    SELECT id, name, limits, severities FROM rule_profiles WHERE id = ${profileId} AND company_id = ${companyId}
+  `;
+  return row ? ruleProfileFromRow(row) : undefined;
+}
+
+// The current company's profile with this id. A tour or company naming a
+// profile from another company, or one since deleted, is refused.
+export async function requireRuleProfile(companyId: string, profileId: string): Promise<RuleProfile> {
+  const profile = await loadProfile(companyId, profileId);
+  if (!profile) {
+    throw APIError.invalidArgument("rule profile not found");
+  }
+  return profile;
+}
+
+// The rules a tour's weeks are held to: the tour's profile, else the
+// company's. Undefined means the built-in rules.
+export async function loadTourRules(companyId: string, tourId: string | undefined): Promise<RuleSettings | undefined> {
+  const row = await scheduleDB.queryRow<{ tour_profile: string | null; company_profile: string | null }>`
+    SELECT t.rule_profile_id AS tour_profile, c.rule_profile_id AS company_profile
+    FROM companies c
+    LEFT JOIN tours t ON t.id = ${tourId ?? null} AND t.company_id = c.id
+    WHERE c.id = ${companyId}
+  `;
+  return loadProfile(companyId, row?.tour_profile ?? row?.company_profile);
+}
+
+// The rules a week is generated and validated under: its tour's profile when
+// it belongs to a tour that has one, else its company's.
+export async function loadScheduleRules(companyId: string, scheduleId: string | undefined): Promise<RuleSettings | undefined> {
+  const row = scheduleId
+    ? await scheduleDB.queryRow<{ tour_id: string | null }>`
+        SELECT tour_id FROM schedules WHERE id = ${scheduleId} AND company_id = ${companyId}
+      `
+    : null;
+  return loadTourRules(companyId, row?.tour_id ?? undefined);
+}
+
+// Lists the current company's rule profiles by name.
+export const listRuleProfiles = api<void, ListRuleProfilesResponse>(
+  { expose: true, method: "GET", path: "/rule-profiles", auth: true },
+  async () => {
+    const companyId = await currentCompanyId();
+
+    const rows = await scheduleDB.queryAll`
+      SELECT id, name, limits, severities
+      FROM rule_profiles
+      WHERE company_id = ${companyId}
+      ORDER BY LOWER(name)
+    `;
+    const company = await scheduleDB.queryRow<{ rule_profile_id: string | null }>`
+      SELECT rule_profile_id FROM companies WHERE id = ${companyId}
+    `;
+
+    return {
+      profiles: rows.map(ruleProfileFromRow),
+      companyProfileId: company?.rule_profile_id ?? undefined,
+      builtIn: {
+        limits: DEFAULT_RULE_LIMITS,
+        severities: Object.fromEntries(PROFILE_RULE_CODES.map(code => [code, BUILT_IN_SEVERITY[code]]))
+      },
+      ruleCodes: [...PROFILE_RULE_CODES]
+    };
+  }
+);
+
+// Adds a rule profile to the current company's library.
+export const createRuleProfile = api<CreateRuleProfileRequest, RuleProfileResponse>(
+  { expose: true, method: "POST", path: "/rule-profiles", auth: true },
+  async (req) => {
+    const authData = await getAuthData<AuthData>();
+    const userId = authData?.userID ?? "system";
+    const companyId = await requireCompanyRole("manager");
+
+    const profile = checkedProfile({
+      name: req.name,
+      limits: req.limits ?? DEFAULT_RULE_LIMITS,
+      severities: req.severities ?? {}
+    });
+    const id = generateId();
+    const now = new Date();
+
+    await scheduleDB.exec`
+      INSERT INTO rule_profiles (id, company_id, name, limits, severities, created_by, created_at, updated_at)
+      VALUES (${id}, ${companyId}, ${profile.name}, ${JSON.stringify(profile.limits)}, ${JSON.stringify(profile.severities)}, ${userId}, ${now}, ${now})
+    `;
+
+    return { profile: { id, ...profile } };
+  }
+);
+
+// Updates a rule profile in place. Every week using it is held to the new
+// rules from its next generation or validation on.
+export const updateRuleProfile = api<UpdateRuleProfileRequest, RuleProfileResponse>(
+  { expose: true, method: "PUT", path: "/rule-profiles/:id", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager");
+
+    const existing = await loadProfile(companyId, req.id);
+    if (!existing) {
+      throw APIError.notFound("rule profile not found");
+    }
+
+    const profile = checkedProfile({
+      name: req.name ?? existing.name,
+      limits: req.limits ?? existing.limits,
+      severities: req.severities ?? existing.severities
+    });
+
+    await scheduleDB.exec`
+      UPDATE rule_profiles
+      SET name = ${profile.name}, limits = ${JSON.stringify(profile.limits)},
+          severities = ${JSON.stringify(profile.severities)}, updated_at = ${new Date()}
+      WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+
+    return { profile: { id: req.id, ...profile } };
+  }
+);
+
+// Deletes a rule profile. The company and tours that used it go back to the
+// company's profile or the built-in rules.
+export const deleteRuleProfile = api<{ id: string }, void>(
+  { expose: true, method: "DELETE", path: "/rule-profiles/:id", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager");
+
+    const existing = await scheduleDB.queryRow`
+      SELECT id FROM rule_profiles WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!existing) {
+      throw APIError.notFound("rule profile not found");
+    }
+
+    await scheduleDB.exec`
+      DELETE FROM rule_profiles WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+  }
+);
+
+// Sets the profile a company's weeks use when their tour names none.
+export const setCompanyRuleProfile = api<SetCompanyRuleProfileRequest, void>(
+  { expose: true, method: "PUT", path: "/companies/:id/rule-profile", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager", req.id);
+    const profileId = req.profileId ? (await requireRuleProfile(companyId, req.profileId)).id : null;
+
+    await scheduleDB.exec`
+      UPDATE companies SET rule_profile_id = ${profileId} WHERE id = ${companyId}
+    `;
+  }
+);
+
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
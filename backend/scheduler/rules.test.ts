@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the registry and the two validators over it are under test; keep the
+// database and auth runtime out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('./live', () => ({}));
+vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn, APIError: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { BUILT_IN_SEVERITY, PROFILE_RULE_CODES, RULES, ruleFor } from './rules';
+import { DEFAULT_RULE_LIMITS, SchedulingAlgorithm } from './algorithm';
+import { analyzeComprehensive } from './validate_comprehensive';
+import { CAST_MEMBERS, DEFAULT_ROLE_CATALOGUE } from './types';
+import type { Assignment, RuleSettings, Show } from './types';
+
+const tue: Show = { id: 'tue', date: '2024-01-02', time: '19:30', callTime: '18:00', status: 'show' };
+const wed: Show = { id: 'wed', date: '2024-01-03', time: '19:30', callTime: '18:00', status: 'show' };
+
+// Everyone in their first role but SEAN, who plays Potato, and JAMIE, who
+// plays Ringo; ADAM, JOE, CADE and SERENA are OFF.
+function cast(showId: string): Assignment[] {
+  const stage: Array<[string, string]> = [
+    ['Sarge', 'PHIL'], ['Potato', 'SEAN'], ['Mozzie', 'JOSE'], ['Ringo', 'JAMIE'],
+    ['Particle', 'CARY'], ['Bin', 'MOLLY'], ['Cornish', 'JASMINE'], ['Who', 'JOSH'],
+  ];
+  return [
+    ...stage.map(([role, performer]) => ({ showId, role, performer })),
+    ...['ADAM', 'JOE', 'CADE', 'SERENA'].map(performer => ({ showId, role: 'OFF', performer, isRedDay: false })),
+  ];
+}
+
+const weeklyLimitOf = (maxShowsPerWeek: number, severities: RuleSettings['severities'] = {}): RuleSettings =>
+  ({ limits: { ...DEFAULT_RULE_LIMITS, maxShowsPerWeek }, severities });
+
+describe('the rule registry', () => {
+  it('registers each code once, with the severities and profile codes taken from it', () => {
+    const codes = RULES.map(r => r.code);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(Object.keys(BUILT_IN_SEVERITY).sort()).toEqual([...codes].sort());
+    expect(PROFILE_RULE_CODES).not.toContain('CASTING_INCOMPLETE');
+    expect(ruleFor('MINIMUM_REST')).toMatchObject({ category: 'rest', defaultSeverity: 'error', configurable: true });
+  });
+});
+
+describe('validateSchedule over the registry', () => {
+  it('reports a rule at the profile\'s severity, and not at all when it is off', () => {
+    const week = [...cast('tue'), ...cast('wed')];
+    const items = (rules: RuleSettings) =>
+      new SchedulingAlgorithm([tue, wed], CAST_MEMBERS, undefined, { rules }).validateSchedule(week).items
+        .filter(i => i.code === 'WEEKLY_LIMIT_EXCEEDED');
+
+    expect(items(weeklyLimitOf(1))).toHaveLength(8);
+    expect(items(weeklyLimitOf(1)).every(i => i.severity === 'error')).toBe(true);
+    expect(items(weeklyLimitOf(1, { WEEKLY_LIMIT_EXCEEDED: 'warning' })).every(i => i.severity === 'warning')).toBe(true);
+    expect(items(weeklyLimitOf(1, { WEEKLY_LIMIT_EXCEEDED: 'off' }))).toEqual([]);
+  });
+
+  it('reports an overridden finding as a warning', () => {
+    const week = [...cast('tue'), ...cast('wed')].map(a => a.performer === 'PHIL' && a.showId === 'wed' ? { ...a, isOverride: true } : a);
+    const result = new SchedulingAlgorithm([tue, wed], CAST_MEMBERS, undefined, { rules: weeklyLimitOf(1) }).validateSchedule(week);
+
+    expect(result.items.find(i => i.code === 'WEEKLY_LIMIT_EXCEEDED' && i.performer === 'PHIL')?.severity).toBe('warning');
+    expect(result.warnings.some(w => w.includes('PHIL') && w.includes('manual override'))).toBe(true);
+  });
+});
+
+describe('validateComprehensive over the registry', () => {
+  it('gives one issue per item, coded and filed under its rule\'s category', () => {
+    const shows = [tue, wed];
+    const assignments = [...cast('tue'), ...cast('wed').filter(a => a.role !== 'Ringo')];
+    const context = {
+      shows,
+      castMembers: CAST_MEMBERS,
+      roles: DEFAULT_ROLE_CATALOGUE.map(r => r.name),
+      roleCatalogue: DEFAULT_ROLE_CATALOGUE,
+      unavailability: [],
+    };
+    const items = new SchedulingAlgorithm(shows, CAST_MEMBERS).validateSchedule(assignments, { ignoreUnstartedShows: true }).items;
+    const { issues } = analyzeComprehensive(context, assignments);
+
+    expect(issues.map(i => [i.code, i.message])).toEqual(items.map(i => [i.code, i.message]));
+    for (const issue of issues) expect(issue.category).toBe(ruleFor(issue.code).category);
+    expect(issues.find(i => i.code === 'CASTING_INCOMPLETE')?.suggestion).toMatch(/^Assign Ringo \(eligible: /);
+  });
+});
@@ -0,0 +1,634 @@
+// The rule registry: every check a week is validated against, in one place.
+//
+// Each rule declares its code, the category the comprehensive view files it
+// under, how it reports without a profile saying otherwise, and an evaluator
+// that finds its violations in a week. validateSchedule runs the registry and
+// validateComprehensive is a view over the same items, so a rule is written
+// once and both endpoints, rule profiles and quick fixes pick it up by code.
+
+import { Assignment, CastMember, PerformerCarryOver, Role, RuleLimits, RuleSettings, RuleSeverity, Show, UnavailableWindow } from "./types";
+import type { RuleCode, ValidationItem } from "./algorithm";
+import { areDatesConsecutive, dayDiff } from "./date_rules";
+import { SHOW_MINUTES, TBC, compareShows, isKnownTime } from "./time";
+
+export type RuleCategory =
+  | "completeness" | "conflicts" | "role_eligibility" | "availability"
+  | "rest" | "consecutive_shows" | "load_balancing" | "special_days";
+
+// The week a rule is evaluated against, as SchedulingAlgorithm sees it.
+export interface RuleWeek {
+  // Every day of the week, travel days and days off included.
+  shows: Show[];
+  // The shows with status "show", in running order.
+  activeShows: Show[];
+  assignments: Assignment[];
+  castMembers: CastMember[];
+  // The active roles, each filled once per show.
+  roles: Role[];
+  limits: RuleLimits;
+  carryOver: Map<string, PerformerCarryOver>;
+  // Skip the casting checks for a show nobody is cast in yet (see
+  // validateSchedule).
+  ignoreUnstartedShows: boolean;
+  // Each performer's effective RED dates: the company RED date when the week
+  // has one, otherwise the dates of their own isRedDay OFF rows.
+  redDays: Record<string, string[]>;
+  preferredGender: (role: Role) => "male" | "female" | undefined;
+  performerGender: (performer: string) => "male" | "female" | undefined;
+  unavailabilityOn: (performer: string, date: string) => UnavailableWindow | undefined;
+  // Minutes off between two of a performer's shows on different days, or null
+  // while either time is TBC.
+  restBetween: (from: Show, to: Show) => number | null;
+  keepsRedDaySpacing: (performer: string, date: string) => boolean;
+}
+
+// One violation, before the registry gives it a severity. `overridden` marks
+// one the RD has signed off with an isOverride pick: it reports as a warning
+// whatever the rule's severity.
+export interface RuleFinding {
+  message: string;
+  performer?: string;
+  showId?: string;
+  carriedOver?: boolean;
+  overridden?: boolean;
+}
+
+export interface RuleDefinition {
+  code: RuleCode;
+  category: RuleCategory;
+  // How it reports without a profile saying otherwise.
+  defaultSeverity: "error" | "warning";
+  // Whether a rule profile may re-grade it or switch it off. A show cast in
+  // full by eligible performers is what makes a week a schedule at all, so the
+  // casting rules always stand.
+  configurable: boolean;
+  // Whether an isOverride pick softens it to a warning (see Assignment.isOverride).
+  overridable: boolean;
+  evaluate: (week: RuleWeek) => RuleFinding[];
+}
+
+// The limits a week is held to without a rule profile (see RuleSettings).
+export const DEFAULT_RULE_LIMITS: RuleLimits = {
+  maxConsecutiveShows: 6,
+  maxShowsPerWeek: 6,
+  // One RED day per week puts a performer's RED days about 7 days apart. The
+  // RED day is free to move between weeks (Tue one week, Fri the next is 10
+  // days), but beyond this the performer is going too long without a rest day.
+  maxDaysBetweenRedDays: 10,
+  // Eleven hours from curtain down to the next day's call: the daily rest of
+  // the Working Time Regulations, and comfortably met by an evening show
+  // followed by the next day's matinee at the default times.
+  minRestMinutes: 11 * 60,
+  showMinutes: SHOW_MINUTES
+};
+
+// formatShowDate's strings by "date time". Formatting goes through Intl, which
+// is slow next to the rules themselves, and a week is validated on every edit
+// and many times over while generating; the dates are few. Cleared when it
+// grows past FORMATTED_DATES_LIMIT so a long-lived process can't hoard them.
+const formattedDates = new Map<string, string>();
+const FORMATTED_DATES_LIMIT = 2000;
+
+// "Mon Aug 4 7:30 PM", or "Mon Aug 4 TBC" while the time is unknown.
+export function formatShowDate(date: string, time: string): string {
+  const key = `${date} ${time}`;
+  let formatted = formattedDates.get(key);
+  if (formatted === undefined) {
+    if (formattedDates.size >= FORMATTED_DATES_LIMIT) formattedDates.clear();
+    formatted = renderShowDate(date, time);
+    formattedDates.set(key, formatted);
+  }
+  return formatted;
+}
+
+function renderShowDate(date: string, time: string): string {
+  try {
+    // Noon-UTC anchor + explicit UTC formatting so the weekday/date match the
+    // calendar date in every timezone.
+    const dateObj = new Date(date + "T12:00:00Z");
+    const dayName = dateObj.toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
+    const monthDay = dateObj.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+    // An unknown time must not be parsed: parseInt("TBC") is NaN, setHours(NaN)
+    // makes an Invalid Date, and toLocaleTimeString then renders the literal
+    // string "Invalid Date" straight into a user-facing error. No throw, so the
+    // catch below never fires.
+    if (!isKnownTime(time)) return `${dayName} ${monthDay} ${TBC}`;
+
+    const [hours, minutes] = time.split(':');
+    const timeObj = new Date();
+    timeObj.setHours(parseInt(hours), parseInt(minutes));
+    const timeStr = timeObj.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+    return `${dayName} ${monthDay} ${timeStr}`;
+  } catch (error) {
+    return `${date} ${time}`;
+  }
+}
+
+// "10h 30m", "11h"; a negative rest (shows overlapping) reads as none.
+export function formatRest(minutes: number): string {
+  const m = Math.max(0, minutes);
+  return m % 60 ? `${Math.floor(m / 60)}h ${m % 60}m` : `${m / 60}h`;
+}
+
+/**
+ * A run, plus the shows it spans. `showIds` stays internal: it is what lets
+ * `getConsecutiveShowSuggestions` name a real show without re-deriving the run from
+ * `startDate`/`endDate`, which are *display* strings and must never be parsed.
+ */
+export interface ConsecutiveSequenceInternal {
+  startDate: string;
+  endDate: string;
+  count: number;
+  severity: "ok" | "warning" | "critical";
+  showIds: string[];
+  carriedIn?: number;
+}
+
+export interface ConsecutiveShowAnalysisInternal {
+  performer: string;
+  maxConsecutive: number;
+  sequences: ConsecutiveSequenceInternal[];
+}
+
+// Each performer's runs of shows on consecutive dates: every run of three or
+// more, and any shorter one over the limit. With `carryOver`, a performer
+// whose run from the previous week reaches this week's first show starts
+// their first sequence already `trailingRun` long. A run longer than
+// `maxConsecutiveShows` (the rule profile's) is critical.
+export function analyzeConsecutiveShows(assignments: Assignment[], activeShows: Show[], castMembers: Pick<CastMember, "name">[], formatDate: (date: string, time: string) => string, carryOver?: { performers: PerformerCarryOver[] }, maxConsecutiveShows = DEFAULT_RULE_LIMITS.maxConsecutiveShows): ConsecutiveShowAnalysisInternal[] {
+  const analysis: ConsecutiveShowAnalysisInternal[] = [];
+
+  castMembers.forEach(member => {
+    const memberShows = new Set<string>();
+    assignments.forEach(assignment => {
+      // An OFF show is not a performance. Counting one toward a burnout run inflates
+      // `count`, and `count > maxConsecutiveShows` is the only gate that marks a run critical — so an OFF
+      // day could manufacture a false burnout violation. The frontend's
+      // analyzeFatigue excludes OFF too; this is the rule, not an optimisation.
+      if (assignment.performer === member.name && assignment.role !== "OFF") {
+        memberShows.add(assignment.showId);
+      }
+    });
+
+    if (memberShows.size === 0) {
+      analysis.push({
+        performer: member.name,
+        maxConsecutive: 0,
+        sequences: []
+      });
+      return;
+    }
+
+    // Sort shows by date and time
+    // compareShows, not a raw time compare: "TBC" sorts after every digit and
+    // would drop a timeless show into the wrong slot of the sequence, and a
+    // week crossing time zones is ordered by real time.
+    const sortedShows = [...activeShows]
+      .filter(show => memberShows.has(show.id))
+      .sort(compareShows);
+
+    const sequences: ConsecutiveSequenceInternal[] = [];
+
+    // Dates are formatted only for the runs recorded: formatting is slow, and
+    // validateSchedule runs this for every performer on every edit.
+    let currentSequence: { start: Show; end: Show; count: number; showIds: string[]; carriedIn?: number } | null = null;
+    let maxConsecutive = 0;
+    let lastShowDateStr: string | null = null;
+
+    // A run is recorded once it is three long, or sooner when the limit is
+    // lower than that. A run AT the limit is LEGAL; only one past it is a
+    // burnout violation.
+    const closeSequence = () => {
+      const seq = currentSequence;
+      currentSequence = null;
+      if (!seq || (seq.count < 3 && seq.count <= maxConsecutiveShows)) return;
+      sequences.push({
+        startDate: formatDate(seq.start.date, seq.start.time),
+        endDate: formatDate(seq.end.date, seq.end.time),
+        count: seq.count,
+        showIds: seq.showIds,
+        severity: seq.count > maxConsecutiveShows ? "critical" : "ok",
+        ...(seq.carriedIn ? { carriedIn: seq.carriedIn } : {})
+      });
+      maxConsecutive = Math.max(maxConsecutive, seq.count);
+    };
+
+    // Seed the walk with last week's run when it reaches the first show, so
+    // that show extends it instead of starting afresh. startDate stays this
+    // week's first show: the display strings only ever name this week's shows.
+    const carry = carryOver?.performers.find(p => p.performer === member.name);
+    const firstShow = sortedShows[0];
+    if (firstShow && carry?.runEndDate && carry.trailingRun > 0 && carry.runEndDate < firstShow.date && areDatesConsecutive(carry.runEndDate, firstShow.date)) {
+      currentSequence = {
+        start: firstShow,
+        end: firstShow,
+        count: carry.trailingRun,
+        showIds: [],
+        carriedIn: carry.trailingRun
+      };
+      lastShowDateStr = carry.runEndDate;
+    }
+
+    sortedShows.forEach((show, index) => {
+      if (lastShowDateStr) {
+        // DATES ONLY: a gap day resets the run; a same-day matinee+evening
+        // pair stays consecutive. See date_rules.ts.
+        if (areDatesConsecutive(lastShowDateStr, show.date)) {
+          if (currentSequence) {
+            currentSequence.count++;
+            currentSequence.end = show;
+            currentSequence.showIds.push(show.id);
+          } else {
+            // Start new sequence
+            const prevShow = sortedShows[index - 1];
+            currentSequence = {
+              start: prevShow ?? show,
+              end: show,
+              count: 2,
+              showIds: [prevShow?.id || show.id, show.id]
+            };
+          }
+        } else {
+          closeSequence();
+        }
+      }
+
+      lastShowDateStr = show.date;
+    });
+
+    closeSequence();
+
+    // sequences keep their showIds here; toPublicAnalysis strips them at the response.
+    analysis.push({
+      performer: member.name,
+      maxConsecutive,
+      sequences
+    });
+  });
+
+  return analysis;
+}
+
+// Each performer's stage picks.
+function stageByPerformer(week: RuleWeek): Map<string, Assignment[]> {
+  const byPerformer = new Map<string, Assignment[]>();
+  for (const a of week.assignments) {
+    if (a.role === "OFF") continue;
+    const list = byPerformer.get(a.performer) ?? [];
+    list.push(a);
+    byPerformer.set(a.performer, list);
+  }
+  return byPerformer;
+}
+
+// How many active shows each performer is on stage in.
+function showCounts(week: RuleWeek): Map<string, number> {
+  const active = new Set(week.activeShows.map(s => s.id));
+  const counts = new Map<string, number>();
+  for (const [performer, stage] of stageByPerformer(week)) {
+    counts.set(performer, new Set(stage.filter(a => active.has(a.showId)).map(a => a.showId)).size);
+  }
+  return counts;
+}
+
+// Each active show with its stage picks. `started` is false for a show nobody
+// is cast in yet when the caller asked to ignore those: it is a to-do, not a
+// defect.
+function castShows(week: RuleWeek): Array<{ show: Show; stage: Assignment[]; started: boolean }> {
+  return week.activeShows.map(show => {
+    const stage = week.assignments.filter(a => a.showId === show.id && a.role !== "OFF");
+    return { show, stage, started: !(week.ignoreUnstartedShows && stage.length === 0) };
+  });
+}
+
+// A show's date as messages give it.
+function showDateOf(show: Show): string {
+  return formatShowDate(show.date, show.time);
+}
+
+// The registry, in the order items are reported.
+export const RULES: readonly RuleDefinition[] = [
+  {
+    code: "CASTING_INCOMPLETE",
+    category: "completeness",
+    defaultSeverity: "error",
+    configurable: false,
+    overridable: false,
+    // Exactly one performer per active role on stage.
+    evaluate: week => castShows(week).filter(s => s.started).flatMap(({ show, stage }) => {
+      const findings: RuleFinding[] = [];
+      const onStage = week.roles.length;
+      const uniquePerformers = new Set(stage.map(a => a.performer));
+      if (uniquePerformers.size < onStage) {
+        const missingCount = onStage - uniquePerformers.size;
+        findings.push({ message: `Show ${showDateOf(show)}: Missing ${missingCount} performer${missingCount > 1 ? 's' : ''} - must have exactly ${onStage} on stage`, showId: show.id });
+      }
+      const filledRoles = new Set(stage.map(a => a.role));
+      const missingRoles = week.roles.filter(role => !filledRoles.has(role));
+      if (missingRoles.length > 0) {
+        findings.push({ message: `Show ${showDateOf(show)}: Missing roles: ${missingRoles.join(", ")} - assign performers to these roles`, showId: show.id });
+      }
+      return findings;
+    })
+  },
+  {
+    code: "CASTING_DUPLICATE",
+    category: "conflicts",
+    defaultSeverity: "error",
+    configurable: false,
+    overridable: false,
+    // More performers than roles, or one performer in several roles of a show.
+    evaluate: week => castShows(week).flatMap(({ show, stage, started }) => {
+      const findings: RuleFinding[] = [];
+      const uniquePerformers = new Set(stage.map(a => a.performer));
+      if (started && uniquePerformers.size > week.roles.length) {
+        findings.push({ message: `Show ${showDateOf(show)}: Has ${uniquePerformers.size} performers but can only have ${week.roles.length} - remove duplicate assignments`, showId: show.id });
+      }
+      for (const performer of uniquePerformers) {
+        const roles = stage.filter(a => a.performer === performer).map(a => a.role);
+        if (roles.length > 1) {
+          findings.push({ message: `Show ${showDateOf(show)}: ${performer} assigned to multiple roles (${roles.join(", ")}) - each performer can only have one role per show`, performer, showId: show.id });
+        }
+      }
+      return findings;
+    })
+  },
+  {
+    code: "ROLE_INELIGIBLE",
+    category: "role_eligibility",
+    defaultSeverity: "error",
+    configurable: false,
+    overridable: false,
+    evaluate: week => castShows(week).flatMap(({ show, stage }) => stage.flatMap(assignment => {
+      const castMember = week.castMembers.find(m => m.name === assignment.performer);
+      if (!castMember) {
+        return [{ message: `Show ${showDateOf(show)}: Unknown performer "${assignment.performer}" assigned to ${assignment.role}`, performer: assignment.performer, showId: assignment.showId }];
+      }
+      if (!castMember.eligibleRoles.includes(assignment.role as Role)) {
+        return [{ message: `Show ${showDateOf(show)}: ${assignment.performer} cannot perform ${assignment.role} - not in eligible roles`, performer: assignment.performer, showId: assignment.showId }];
+      }
+      return [];
+    }))
+  },
+  {
+    code: "GENDER_VIOLATION",
+    category: "role_eligibility",
+    defaultSeverity: "warning",
+    configurable: true,
+    overridable: false,
+    // A casting convention, not a hard rule: flagged, never blocking.
+    evaluate: week => castShows(week).flatMap(({ show, stage }) => stage.flatMap(assignment => {
+      const castMember = week.castMembers.find(m => m.name === assignment.performer);
+      const preferred = week.preferredGender(assignment.role as Role);
+      if (!castMember || !castMember.eligibleRoles.includes(assignment.role as Role) || !preferred) return [];
+      if (week.performerGender(assignment.performer) === preferred) return [];
+      return [{ message: `Show ${showDateOf(show)}: ${assignment.performer} is assigned to ${assignment.role}, which is usually cast with a ${preferred} performer - double-check this assignment`, performer: assignment.performer, showId: assignment.showId }];
+    }))
+  },
+  {
+    code: "PERFORMER_UNAVAILABLE",
+    category: "availability",
+    defaultSeverity: "error",
+    configurable: true,
+    overridable: true,
+    // An isOverride pick means the RD has confirmed they are available after all.
+    evaluate: week => castShows(week).flatMap(({ show, stage }) => stage.flatMap(assignment => {
+      const window = week.unavailabilityOn(assignment.performer, show.date);
+      if (!window) return [];
+      const why = window.reason ? ` (${window.reason})` : '';
+      const meta = { performer: assignment.performer, showId: assignment.showId };
+      return [assignment.isOverride
+        ? { message: `⚠ Show ${showDateOf(show)}: ${assignment.performer} is marked unavailable${why} — manual override`, ...meta, overridden: true }
+        : { message: `Show ${showDateOf(show)}: ${assignment.performer} is unavailable on this date${why} - assign someone else to ${assignment.role}`, ...meta }];
+    }))
+  },
+  {
+    code: "CONSECUTIVE_EXCEEDED",
+    category: "consecutive_shows",
+    defaultSeverity: "error",
+    configurable: true,
+    overridable: false,
+    // A run continuing last week's is flagged as carried over when this week's
+    // part alone would have been legal.
+    evaluate: week => {
+      const { maxConsecutiveShows } = week.limits;
+      const carryOver = { performers: [...week.carryOver.values()] };
+      return analyzeConsecutiveShows(week.assignments, week.activeShows, week.castMembers, formatShowDate, carryOver, maxConsecutiveShows)
+        .flatMap(({ performer, sequences }) => sequences
+          .filter(sequence => sequence.severity === "critical")
+          .map(sequence => sequence.carriedIn
+            ? { message: `${performer} has ${sequence.count} consecutive shows (${sequence.carriedIn} at the end of last week, then ${sequence.startDate} to ${sequence.endDate}) - exceeds maximum of ${maxConsecutiveShows} consecutive shows`, performer, carriedOver: sequence.count - sequence.carriedIn <= maxConsecutiveShows }
+            : { message: `${performer} has ${sequence.count} consecutive shows (${sequence.startDate} to ${sequence.endDate}) - exceeds maximum of ${maxConsecutiveShows} consecutive shows`, performer }));
+    }
+  },
+  {
+    code: "BACK_TO_BACK_DOUBLES",
+    category: "rest",
+    defaultSeverity: "error",
+    configurable: true,
+    overridable: true,
+    // Two double-show days in a row (§0 rule 3).
+    evaluate: week => {
+      const stage = stageByPerformer(week);
+      const showById = new Map(week.activeShows.map(s => [s.id, s]));
+      return week.castMembers.flatMap(member => {
+        const showsByDate: Record<string, Assignment[]> = {};
+        for (const a of stage.get(member.name) ?? []) {
+          const show = showById.get(a.showId);
+          if (show) (showsByDate[show.date] ??= []).push(a);
+        }
+        const dates = Object.keys(showsByDate).sort();
+        const findings: RuleFinding[] = [];
+        for (let i = 0; i < dates.length - 1; i++) {
+          const d1 = dates[i], d2 = dates[i + 1];
+          if (showsByDate[d1].length !== 2 || showsByDate[d2].length !== 2 || !areDatesConsecutive(d1, d2)) continue;
+          findings.push([...showsByDate[d1], ...showsByDate[d2]].some(a => a.isOverride)
+            ? { message: `⚠ ${member.name}: 4 shows across ${d1}/${d2} — manual override (injury cover)`, performer: member.name, overridden: true }
+            : { message: `${member.name} has 4 shows across 2 consecutive days (${d1} and ${d2}) - violates back-to-back double days rule`, performer: member.name });
+        }
+        return findings;
+      });
+    }
+  },
+  {
+    code: "WEEKLY_LIMIT_EXCEEDED",
+    category: "load_balancing",
+    defaultSeverity: "error",
+    configurable: true,
+    overridable: true,
+    // maxShowsPerWeek per performer (§0 rule 5).
+    evaluate: week => {
+      const stage = stageByPerformer(week);
+      const { maxShowsPerWeek } = week.limits;
+      return week.castMembers.flatMap(member => {
+        const memberStage = stage.get(member.name) ?? [];
+        if (memberStage.length <= maxShowsPerWeek) return [];
+        return [memberStage.some(a => a.isOverride)
+          ? { message: `⚠ ${member.name}: ${memberStage.length} shows this week — manual override (injury cover)`, performer: member.name, overridden: true }
+          : { message: `${member.name} has ${memberStage.length} shows this week - exceeds maximum of ${maxShowsPerWeek} shows per week`, performer: member.name }];
+      });
+    }
+  },
+  {
+    code: "MINIMUM_REST",
+    category: "rest",
+    defaultSeverity: "error",
+    configurable: true,
+    overridable: true,
+    // Rest on the clock between a performer's shows on different days,
+    // reported on the later show.
+    evaluate: week => {
+      const { minRestMinutes } = week.limits;
+      if (minRestMinutes <= 0) return [];
+      const stage = stageByPerformer(week);
+      const showById = new Map(week.activeShows.map(s => [s.id, s]));
+      return week.castMembers.flatMap(member => {
+        const memberStage = (stage.get(member.name) ?? [])
+          .filter(a => showById.has(a.showId))
+          .sort((a, b) => compareShows(showById.get(a.showId)!, showById.get(b.showId)!));
+        const findings: RuleFinding[] = [];
+        for (let i = 1; i < memberStage.length; i++) {
+          const from = showById.get(memberStage[i - 1].showId)!;
+          const to = showById.get(memberStage[i].showId)!;
+          if (from.date === to.date) continue;
+          const rest = week.restBetween(from, to);
+          if (rest === null || rest >= minRestMinutes) continue;
+          const showDate = showDateOf(to);
+          findings.push(memberStage[i - 1].isOverride || memberStage[i].isOverride
+            ? { message: `⚠ Show ${showDate}: ${member.name} has only ${formatRest(rest)} off before the call — manual override (injury cover)`, performer: member.name, showId: to.id, overridden: true }
+            : { message: `Show ${showDate}: ${member.name} has only ${formatRest(rest)} off before the call - needs at least ${formatRest(minRestMinutes)} between curtain down (or the end of a travel day) and the next call`, performer: member.name, showId: to.id });
+        }
+        return findings;
+      });
+    }
+  },
+  {
+    code: "RED_DAY_MULTIPLE",
+    category: "special_days",
+    defaultSeverity: "error",
+    configurable: true,
+    overridable: false,
+    evaluate: week => Object.entries(week.redDays)
+      .filter(([, dates]) => dates.length > 1)
+      .map(([performer]) => ({ message: `${performer} has more than one RED day assigned.`, performer }))
+  },
+  {
+    code: "RED_DAY_MISSING",
+    category: "special_days",
+    defaultSeverity: "warning",
+    configurable: true,
+    overridable: false,
+    evaluate: week => Object.entries(week.redDays)
+      .filter(([performer, dates]) => dates.length === 0 && week.castMembers.some(m => m.name === performer))
+      .map(([performer]) => ({ message: `${performer} does not have a RED day assigned.`, performer }))
+  },
+  {
+    code: "RED_DAY_SPACING",
+    category: "special_days",
+    defaultSeverity: "warning",
+    configurable: true,
+    overridable: false,
+    // Across the week boundary: too long since last week's RED day. Only a
+    // warning by default — this week's pick may be the best the week allows.
+    evaluate: week => Object.entries(week.redDays).flatMap(([performer, dates]) => {
+      const lastRedDate = week.carryOver.get(performer)?.lastRedDate;
+      const firstRedDate = [...dates].sort()[0];
+      if (!lastRedDate || !firstRedDate || week.keepsRedDaySpacing(performer, firstRedDate)) return [];
+      return [{ message: `${performer} has ${dayDiff(lastRedDate, firstRedDate)} days between RED days (${lastRedDate} last week, ${firstRedDate} this week) - more than ${week.limits.maxDaysBetweenRedDays}`, performer, carriedOver: true }];
+    })
+  },
+  {
+    code: "RED_DAY_NOT_FULL_DAY",
+    category: "special_days",
+    defaultSeverity: "error",
+    configurable: true,
+    overridable: false,
+    evaluate: week => Object.entries(week.redDays).flatMap(([performer, dates]) => dates.flatMap(redDate => {
+      const onStage = week.assignments.some(a =>
+        a.performer === performer && a.role !== "OFF" && week.activeShows.some(s => s.id === a.showId && s.date === redDate)
+      );
+      return onStage ? [{ message: `${performer} has a RED day on ${redDate} but is also assigned to a role on that day.`, performer }] : [];
+    }))
+  },
+  {
+    code: "UNDERUTILIZED",
+    category: "load_balancing",
+    defaultSeverity: "warning",
+    configurable: true,
+    overridable: false,
+    evaluate: week => {
+      if (week.activeShows.length < 4) return [];
+      const counts = showCounts(week);
+      return week.castMembers
+        .filter(member => counts.get(member.name) === 1)
+        .map(member => ({ message: `${member.name} only has 1 show (underutilized)`, performer: member.name }));
+    }
+  },
+  {
+    code: "OVERWORKED",
+    category: "load_balancing",
+    defaultSeverity: "warning",
+    configurable: true,
+    overridable: false,
+    // The fair share is per STAGE SLOT, not per show: every show puts
+    // roles.length performers on stage, so a 12-strong company covering an
+    // 8-show week averages 8 * 8 / 12 = 5.33 shows each. Dividing shows by cast
+    // size instead (8 / 12 = 0.67) put the threshold at 2 shows and warned that
+    // all twelve performers were "potentially overworked" in a perfectly legal,
+    // evenly-balanced week.
+    //
+    // Derived from the week's SHAPE rather than from `assignments`, so the
+    // threshold doesn't drift while a schedule is being filled in and flag an
+    // early pick as overworked. The hard weekly cap (WEEKLY_LIMIT_EXCEEDED) is
+    // the real protection; this only speaks to lopsided distribution, so with
+    // a full 12/8 company it correctly stays silent.
+    evaluate: week => {
+      if (week.activeShows.length <= 4 || week.castMembers.length === 0) return [];
+      const averageShows = (week.activeShows.length * week.roles.length) / week.castMembers.length;
+      const counts = showCounts(week);
+      return week.castMembers.flatMap(member => {
+        const count = counts.get(member.name) ?? 0;
+        return count > Math.ceil(averageShows * 1.5) ? [{ message: `${member.name} has ${count} shows (potentially overworked)`, performer: member.name }] : [];
+      });
+    }
+  }
+];
+
+const RULE_BY_CODE = new Map(RULES.map(rule => [rule.code, rule]));
+
+// The registered rule for a code.
+export function ruleFor(code: RuleCode): RuleDefinition {
+  return RULE_BY_CODE.get(code)!;
+}
+
+// How each rule reports without a profile saying otherwise.
+export const BUILT_IN_SEVERITY = Object.fromEntries(
+  RULES.map(rule => [rule.code, rule.defaultSeverity])
+) as Readonly<Record<RuleCode, "error" | "warning">>;
+
+// The rules a profile may re-grade or switch off.
+export const PROFILE_RULE_CODES: readonly RuleCode[] = RULES.filter(rule => rule.configurable).map(rule => rule.code);
+
+// A rule's severity under `rules`: the profile's, for a code it may set,
+// otherwise the built-in one.
+export function ruleSeverity(rules: RuleSettings | undefined, code: RuleCode): RuleSeverity {
+  const set = PROFILE_RULE_CODES.includes(code) ? rules?.severities[code] : undefined;
+  return set ?? BUILT_IN_SEVERITY[code];
+}
+
+// Runs every rule over the week at its severity under `rules`. A rule that is
+// off reports nothing; an overridden finding of an error-level rule reports as
+// a warning.
+export function evaluateRules(week: RuleWeek, rules: RuleSettings | undefined): ValidationItem[] {
+  const items: ValidationItem[] = [];
+  for (const rule of RULES) {
+    const severity = ruleSeverity(rules, rule.code);
+    if (severity === "off") continue;
+    for (const { overridden, ...finding } of rule.evaluate(week)) {
+      items.push({ code: rule.code, severity: overridden ? "warning" : severity, ...finding });
+    }
+  }
+  return items;
+}
@@ -0,0 +1,64 @@
+import { bench, describe, vi } from 'vitest';
+
+// Heuristic restarts against the exact solver on weeks that are hard to cast:
+// thin dates, doubles, performers away. Run with `npm run bench`; whether the
+// exact solver casts them, and as evenly, is checked in solver.test.ts.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('./live', () => ({}));
+vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn, APIError: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { SchedulingAlgorithm } from './algorithm';
+import { CAST_MEMBERS } from './types';
+import type { Assignment, Show, UnavailableWindow } from './types';
+
+const week: Show[] = [
+  { id: 'tue', date: '2024-01-02', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'wed', date: '2024-01-03', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'thu', date: '2024-01-04', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'fri', date: '2024-01-05', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sat_mat', date: '2024-01-06', time: '14:00', callTime: '12:30', status: 'show' },
+  { id: 'sat_eve', date: '2024-01-06', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sun_mat', date: '2024-01-07', time: '14:00', callTime: '12:30', status: 'show' },
+  { id: 'sun_eve', date: '2024-01-07', time: '19:30', callTime: '18:00', status: 'show' },
+];
+const sparse: Show[] = [
+  { id: 'tue1', date: '2024-01-02', time: '15:00', callTime: '13:30', status: 'show' },
+  { id: 'tue2', date: '2024-01-02', time: '20:00', callTime: '18:00', status: 'show' },
+  { id: 'thu1', date: '2024-01-04', time: '20:00', callTime: '18:00', status: 'show' },
+  { id: 'fri1', date: '2024-01-05', time: '15:00', callTime: '13:30', status: 'show' },
+  { id: 'fri2', date: '2024-01-05', time: '20:00', callTime: '18:00', status: 'show' },
+  { id: 'sat1', date: '2024-01-06', time: '15:00', callTime: '13:30', status: 'show' },
+  { id: 'sat2', date: '2024-01-06', time: '20:00', callTime: '18:00', status: 'show' },
+];
+const away: UnavailableWindow[] = [
+  { performer: 'PHIL', startDate: '2024-01-06', endDate: '2024-01-06' },
+  { performer: 'MOLLY', startDate: '2024-01-03', endDate: '2024-01-03' },
+  { performer: 'JASMINE', startDate: '2024-01-07', endDate: '2024-01-07' },
+];
+const locked: Assignment[] = [
+  { showId: 'wed', role: 'Who', performer: 'CADE', isRedDay: false },
+  { showId: 'tue', role: 'OFF', performer: 'SEAN', isRedDay: true },
+];
+const weeks: Array<{ name: string; shows: Show[]; existing: Assignment[]; unavailability: UnavailableWindow[] }> = [
+  { name: 'sparse doubles', shows: sparse, existing: [], unavailability: [] },
+  { name: 'three away', shows: week, existing: [], unavailability: away },
+  { name: 'locked picks', shows: week, existing: locked, unavailability: [] },
+];
+
+for (const w of weeks) {
+  describe(w.name, () => {
+    for (const method of ['heuristic', 'exact'] as const) {
+      let seed = 0;
+      bench(method, async () => {
+        seed++;
+        await new SchedulingAlgorithm(w.shows, CAST_MEMBERS, w.existing, {
+          seed,
+          unavailability: w.unavailability,
+          solver: method
+        }).autoGenerate();
+      }, { iterations: 5 });
+    }
+  });
+}
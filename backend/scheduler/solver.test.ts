@@ -0,0 +1,247 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The solver is pure; the algorithm only needs the database and auth runtime
+// kept out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('./live', () => ({}));
+vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn, APIError: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { CastingModel, SolverRules, blockingConstraints, solveCasting } from './solver';
+import { AutoGenerateResult, DEFAULT_RULE_LIMITS, SchedulingAlgorithm } from './algorithm';
+import { CAST_MEMBERS } from './types';
+import type { Assignment, Show, UnavailableWindow } from './types';
+
+const noRules: SolverRules = {
+  maxConsecutiveShows: null,
+  maxShowsPerWeek: null,
+  backToBackDoubles: false,
+  minimumRest: false,
+  unavailability: false,
+  genderConvention: false,
+  redDays: 'none'
+};
+
+// One show a day on consecutive dates, each with the given roles, every
+// performer eligible for every role.
+function model(performers: string[], days: number, roles: string[], rules: Partial<SolverRules> = {}): CastingModel {
+  const dates = Array.from({ length: days }, (_, i) => `2024-01-0${i + 2}`);
+  return {
+    dates,
+    nextAdjacent: dates.slice(1).map(() => true),
+    shows: dates.map((date, i) => ({ id: `show${i}`, date: i, label: date })),
+    slots: dates.flatMap((_, show) =>
+      roles.map(role => ({ show, role, candidates: performers.map((_, performer) => ({ performer })) }))
+    ),
+    performers: performers.map(name => ({
+      name,
+      tourShows: 0,
+      unavailable: [],
+      redDates: dates.map((_, i) => i),
+      carriedRun: dates.map(() => 0)
+    })),
+    restConflicts: dates.map(() => []),
+    rules: { ...noRules, ...rules },
+    limits: { maxConsecutiveShows: 6, maxShowsPerWeek: 6 }
+  };
+}
+
+function loads(m: CastingModel, picks: number[]): number[] {
+  const counts = m.performers.map(() => 0);
+  for (const p of picks) counts[p]++;
+  return counts;
+}
+
+describe('solveCasting', () => {
+  it('proves the most even cast optimal', () => {
+    const m = model(['A', 'B', 'C'], 3, ['Lead', 'Second']);
+    const result = solveCasting(m);
+
+    expect(result.status).toBe('optimal');
+    expect(loads(m, result.picks!)).toEqual([2, 2, 2]);
+    expect(result.objective).toEqual({ missingRedDays: 0, squaredLoad: 12 });
+  });
+
+  it('counts earlier tour shows toward the load', () => {
+    const m = model(['A', 'B'], 4, ['Lead']);
+    m.performers[0].tourShows = 2;
+    const result = solveCasting(m);
+
+    expect(result.status).toBe('optimal');
+    expect(loads(m, result.picks!)).toEqual([1, 3]);
+  });
+
+  it('never puts one performer in two roles of a show', () => {
+    const m = model(['A', 'B'], 2, ['Lead', 'Second']);
+    const result = solveCasting(m);
+
+    expect(result.status).toBe('optimal');
+    for (let show = 0; show < 2; show++) {
+      expect(new Set([result.picks![show * 2], result.picks![show * 2 + 1]]).size).toBe(2);
+    }
+  });
+
+  it('keeps locked picks', () => {
+    const m = model(['A', 'B'], 2, ['Lead']);
+    m.slots[0].fixed = 1;
+    m.slots[1].fixed = 1;
+    const result = solveCasting(m);
+
+    expect(result.status).toBe('optimal');
+    expect(result.picks).toEqual([1, 1]);
+  });
+
+  it('proves a week infeasible and names the weekly limit as the blocker', () => {
+    const m = model(['A', 'B'], 3, ['Lead'], { maxShowsPerWeek: 1 });
+    m.limits.maxShowsPerWeek = 1;
+    const result = solveCasting(m);
+
+    expect(result.status).toBe('infeasible');
+    expect(result.picks).toBeUndefined();
+    const blocking = blockingConstraints(m);
+    expect(blocking.map(b => b.code)).toEqual(['WEEKLY_LIMIT_EXCEEDED']);
+    expect(blocking[0].message).toContain('1 shows per week');
+  });
+
+  it('names shows short of eligible performers when no rule is to blame', () => {
+    const m = model(['A'], 1, ['Lead', 'Second']);
+
+    expect(solveCasting(m).status).toBe('infeasible');
+    expect(blockingConstraints(m)).toEqual([
+      { code: 'CASTING_INCOMPLETE', message: '2024-01-02 has 2 roles to cast but only 1 eligible performers' }
+    ]);
+  });
+
+  it('leaves everyone a free date when RED days are required', () => {
+    const m = model(['A', 'B'], 2, ['Lead'], { redDays: 'required' });
+    const result = solveCasting(m);
+
+    expect(result.status).toBe('optimal');
+    expect(loads(m, result.picks!)).toEqual([1, 1]);
+  });
+
+  it('leaves as few without a free date as it can when RED days are preferred', () => {
+    const required = model(['A'], 2, ['Lead'], { redDays: 'required' });
+    expect(solveCasting(required).status).toBe('infeasible');
+    expect(blockingConstraints(required).map(b => b.code)).toEqual(['RED_DAY_MISSING']);
+
+    const preferred = solveCasting({ ...required, rules: { ...required.rules, redDays: 'preferred' } });
+    expect(preferred.status).toBe('optimal');
+    expect(preferred.objective).toEqual({ missingRedDays: 1, squaredLoad: 4 });
+  });
+
+  it('holds runs to the consecutive limit, counting the run carried in', () => {
+    const m = model(['A', 'B'], 3, ['Lead'], { maxConsecutiveShows: 2 });
+    m.performers[0].carriedRun = [2, 0, 0];
+    const result = solveCasting(m);
+
+    expect(result.status).toBe('optimal');
+    expect(result.picks![0]).toBe(1);
+  });
+
+  it('settles for the best found when the node budget runs out', () => {
+    const m = model(['A', 'B', 'C', 'D', 'E'], 6, ['Lead', 'Second', 'Third']);
+    const result = solveCasting(m, { nodeLimit: 5 });
+
+    expect(['feasible', 'unknown']).toContain(result.status);
+    expect(result.nodes).toBeLessThanOrEqual(5);
+  });
+});
+
+const week: Show[] = [
+  { id: 'tue', date: '2024-01-02', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'wed', date: '2024-01-03', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'thu', date: '2024-01-04', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'fri', date: '2024-01-05', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sat_mat', date: '2024-01-06', time: '14:00', callTime: '12:30', status: 'show' },
+  { id: 'sat_eve', date: '2024-01-06', time: '19:30', callTime: '18:00', status: 'show' },
+  { id: 'sun_mat', date: '2024-01-07', time: '14:00', callTime: '12:30', status: 'show' },
+  { id: 'sun_eve', date: '2024-01-07', time: '19:30', callTime: '18:00', status: 'show' },
+];
+
+describe('autoGenerate with the exact solver', () => {
+  it('reports the cast optimal', async () => {
+    const result = await new SchedulingAlgorithm(week, CAST_MEMBERS, [], { seed: 1 }).autoGenerate();
+
+    expect(result.success).toBe(true);
+    expect(result.solver?.status).toBe('optimal');
+  });
+
+  it('names the blocking rule when no valid cast exists', async () => {
+    const result = await new SchedulingAlgorithm(week, CAST_MEMBERS, [], {
+      seed: 1,
+      rules: { limits: { ...DEFAULT_RULE_LIMITS, maxShowsPerWeek: 4 }, severities: {} }
+    }).autoGenerate();
+
+    expect(result.solver?.status).toBe('infeasible');
+    expect(result.solver?.blocking?.map(b => b.code)).toEqual(['WEEKLY_LIMIT_EXCEEDED']);
+    expect(result.errors?.[0]).toContain('4 shows per week');
+  });
+
+  it('leaves the restarts to it when asked', async () => {
+    const result = await new SchedulingAlgorithm(week, CAST_MEMBERS, [], { seed: 1, solver: 'heuristic' }).autoGenerate();
+
+    expect(result.success).toBe(true);
+    expect(result.solver).toBeUndefined();
+  });
+});
+
+// The exact solver against the heuristic restarts on weeks that are hard to
+// cast: thin dates, doubles, performers away. Timings are in solver.bench.ts.
+describe('exact against heuristic on hard weeks', () => {
+  const sparse: Show[] = [
+    { id: 'tue1', date: '2024-01-02', time: '15:00', callTime: '13:30', status: 'show' },
+    { id: 'tue2', date: '2024-01-02', time: '20:00', callTime: '18:00', status: 'show' },
+    { id: 'thu1', date: '2024-01-04', time: '20:00', callTime: '18:00', status: 'show' },
+    { id: 'fri1', date: '2024-01-05', time: '15:00', callTime: '13:30', status: 'show' },
+    { id: 'fri2', date: '2024-01-05', time: '20:00', callTime: '18:00', status: 'show' },
+    { id: 'sat1', date: '2024-01-06', time: '15:00', callTime: '13:30', status: 'show' },
+    { id: 'sat2', date: '2024-01-06', time: '20:00', callTime: '18:00', status: 'show' },
+  ];
+  const away: UnavailableWindow[] = [
+    { performer: 'PHIL', startDate: '2024-01-06', endDate: '2024-01-06' },
+    { performer: 'MOLLY', startDate: '2024-01-03', endDate: '2024-01-03' },
+    { performer: 'JASMINE', startDate: '2024-01-07', endDate: '2024-01-07' },
+  ];
+  const locked: Assignment[] = [
+    { showId: 'wed', role: 'Who', performer: 'CADE', isRedDay: false },
+    { showId: 'tue', role: 'OFF', performer: 'SEAN', isRedDay: true },
+  ];
+  const weeks: Array<{ name: string; shows: Show[]; existing: Assignment[]; unavailability: UnavailableWindow[] }> = [
+    { name: 'sparse doubles', shows: sparse, existing: [], unavailability: [] },
+    { name: 'three away', shows: week, existing: [], unavailability: away },
+    { name: 'locked picks', shows: week, existing: locked, unavailability: [] },
+  ];
+  const SEEDS = [1, 2, 3, 4, 5];
+
+  // Σ squares of each performer's stage shows: lower is more even.
+  function squaredLoad(result: AutoGenerateResult): number {
+    const counts = new Map<string, number>();
+    for (const a of result.assignments) {
+      if (a.role !== 'OFF' && a.performer) counts.set(a.performer, (counts.get(a.performer) ?? 0) + 1);
+    }
+    return [...counts.values()].reduce((sum, n) => sum + n * n, 0);
+  }
+
+  it('casts every week on every seed, at least as evenly', async () => {
+    for (const w of weeks) {
+      const squares = { heuristic: [] as number[], exact: [] as number[] };
+      for (const method of ['heuristic', 'exact'] as const) {
+        for (const seed of SEEDS) {
+          const result = await new SchedulingAlgorithm(w.shows, CAST_MEMBERS, w.existing, {
+            seed,
+            unavailability: w.unavailability,
+            solver: method
+          }).autoGenerate();
+          // The restarts report success with slots left empty; only a full
+          // cast counts.
+          if (result.success && !result.errors?.length) squares[method].push(squaredLoad(result));
+        }
+      }
+
+      expect(squares.exact).toHaveLength(SEEDS.length);
+      expect(Math.max(...squares.exact)).toBeLessThanOrEqual(Math.min(...squares.heuristic, Infinity));
+    }
+  }, 30000);
+});
@@ -0,0 +1,731 @@
+// Exact casting solver.
+//
+// Casts a week's stage roles by depth-first search with constraint
+// propagation, in place of randomised restarts. Within its node budget it
+// either finds the cast that is best under the objective below and proves
+// nothing beats it, or proves no cast satisfies the rules and names the ones
+// in the way (blockingConstraints).
+//
+// Objective, lexicographic:
+//   1. fewest performers left without a show date free for a RED day (only
+//      while RED days are "preferred"; "required" makes it a hard rule);
+//   2. the most even load: the smallest sum over performers of the square of
+//      their stage shows, counting the tour's earlier weeks. With the total
+//      fixed by the week, that is the smallest variance.
+//
+// The search is pure over a CastingModel, which SchedulingAlgorithm builds
+// from the week (see castingModel in algorithm.ts), and deterministic given
+// its `random` tiebreak, so a seeded run replays exactly.
+
+import type { RuleCode } from "./algorithm";
+
+export interface SolverRules {
+  // null: not enforced.
+  maxConsecutiveShows: number | null;
+  maxShowsPerWeek: number | null;
+  backToBackDoubles: boolean;
+  minimumRest: boolean;
+  unavailability: boolean;
+  genderConvention: boolean;
+  // "required": everyone keeps a show date free for their RED day;
+  // "preferred": as many as possible do; "none": not considered (a company
+  // RED day covers everyone, or the policy is off).
+  redDays: "required" | "preferred" | "none";
+}
+
+export interface SolverShow {
+  id: string;
+  // Index into CastingModel.dates.
+  date: number;
+  // For messages, e.g. "Tue Jan 2 7:30 PM".
+  label: string;
+}
+
+export interface SolverSlot {
+  // Index into CastingModel.shows.
+  show: number;
+  role: string;
+  // Performers eligible for the role; genderBlocked ones only while the
+  // convention is off.
+  candidates: Array<{ performer: number; genderBlocked?: boolean }>;
+  // A locked pick (existingAssignments), kept as is.
+  fixed?: number;
+  // How often earlier candidates cast each performer here (index-aligned with
+  // CastingModel.performers); a tiebreak only.
+  avoided?: number[];
+}
+
+export interface SolverPerformer {
+  name: string;
+  // Stage shows in the tour's earlier weeks.
+  tourShows: number;
+  // Dates (indices) they cannot work.
+  unavailable: number[];
+  // Their hand-picked RED date, which they are never cast on.
+  lockedRedDate?: number;
+  // Dates their RED day may go on.
+  redDates: number[];
+  // carriedRun[i]: shows of last week's run that continue into a first show
+  // this week on dates[i].
+  carriedRun: number[];
+}
+
+export interface CastingModel {
+  // The week's show dates, ascending.
+  dates: string[];
+  // nextAdjacent[i]: dates[i + 1] is the day after dates[i].
+  nextAdjacent: boolean[];
+  // Active shows in order.
+  shows: SolverShow[];
+  slots: SolverSlot[];
+  performers: SolverPerformer[];
+  // restConflicts[i]: shows too close to show i on the clock for one performer
+  // to play both, whatever else they play.
+  restConflicts: number[][];
+  rules: SolverRules;
+  limits: { maxConsecutiveShows: number; maxShowsPerWeek: number };
+}
+
+export interface SolveOptions {
+  // Search nodes to spend before settling for the best found ("feasible") or
+  // giving up ("unknown").
+  nodeLimit?: number;
+  // Tiebreak between equally good performers. Defaults to none.
+  random?: () => number;
+  // Stop at the first cast that satisfies the rules.
+  firstSolution?: boolean;
+  // A final check of a complete cast against every rule; a cast it rejects is
+  // skipped. The propagation above is sound but not complete (TBC times, say),
+  // so SchedulingAlgorithm passes validateSchedule here.
+  verify?: (picks: number[]) => boolean;
+}
+
+export type SolveStatus = "optimal" | "feasible" | "infeasible" | "unknown";
+
+export interface SolveResult {
+  status: SolveStatus;
+  // The performer (index) in each slot, when a cast was found.
+  picks?: number[];
+  objective?: { missingRedDays: number; squaredLoad: number };
+  nodes: number;
+}
+
+// A rule that stands between the week and any valid cast.
+export interface BlockingConstraint {
+  code: RuleCode;
+  message: string;
+}
+
+export const DEFAULT_NODE_LIMIT = 20000;
+
+// Mutable search state for one solve.
+class Search {
+  private readonly m: CastingModel;
+  private readonly rules: SolverRules;
+  private readonly nPerf: number;
+  private readonly pick: number[];
+  private readonly plays: boolean[][];
+  private readonly dateCount: number[][];
+  private readonly count: number[];
+  private readonly isRedDate: boolean[][];
+  private readonly freeRed: number[];
+  private readonly allowed: boolean[][];
+  private missingRed = 0;
+  private unfilled: number;
+  private readonly weight: number;
+  // For flowBound: each slot's role as an index, and per performer and show
+  // the last call that counted it.
+  private readonly slotRole: number[];
+  private readonly roleCount: number;
+  private readonly seen: number[][];
+  private stamp = 0;
+
+  nodes = 0;
+  best: { picks: number[]; missingRedDays: number; squaredLoad: number } | null = null;
+  exhausted = true;
+
+  constructor(
+    model: CastingModel,
+    private readonly options: SolveOptions,
+    // The best cast of an earlier restart, to beat.
+    incumbent: Search["best"] = null
+  ) {
+    this.best = incumbent;
+    this.m = model;
+    this.rules = model.rules;
+    this.nPerf = model.performers.length;
+    this.pick = model.slots.map(() => -1);
+    this.plays = model.performers.map(() => model.shows.map(() => false));
+    this.dateCount = model.performers.map(() => model.dates.map(() => 0));
+    this.count = model.performers.map(() => 0);
+    this.isRedDate = model.performers.map(p => {
+      const dates = model.dates.map(() => false);
+      for (const d of p.redDates) dates[d] = true;
+      return dates;
+    });
+    this.freeRed = model.performers.map(p => p.redDates.length);
+    this.unfilled = model.slots.length;
+    for (let p = 0; p < this.nPerf; p++) {
+      if (this.owedRedDay(p) && this.freeRed[p] === 0) this.missingRed++;
+    }
+
+    // Who may ever take each slot: role, convention, availability and a
+    // hand-picked RED date.
+    this.allowed = model.slots.map(slot => {
+      const row = model.performers.map(() => false);
+      const date = model.shows[slot.show].date;
+      for (const c of slot.candidates) {
+        const performer = model.performers[c.performer];
+        if (c.genderBlocked && this.rules.genderConvention) continue;
+        if (this.cannotWork(c.performer, date)) continue;
+        if (performer.lockedRedDate === date) continue;
+        row[c.performer] = true;
+      }
+      return row;
+    });
+
+    const roleIndex = new Map<string, number>();
+    this.slotRole = model.slots.map(slot => {
+      if (!roleIndex.has(slot.role)) roleIndex.set(slot.role, roleIndex.size);
+      return roleIndex.get(slot.role)!;
+    });
+    this.roleCount = roleIndex.size;
+    this.seen = model.performers.map(() => model.shows.map(() => 0));
+
+    // Missing a RED day must always cost more than any spread of the load.
+    const most = model.slots.length + Math.max(0, ...model.performers.map(p => p.tourShows));
+    this.weight = most * most * Math.max(1, this.nPerf) + 1;
+  }
+
+  private cannotWork(p: number, d: number): boolean {
+    return this.rules.unavailability && this.m.performers[p].unavailable.includes(d);
+  }
+
+  // Whether the performer still needs a free date for a RED day.
+  private owedRedDay(p: number): boolean {
+    return this.rules.redDays !== "none" && this.m.performers[p].lockedRedDate === undefined;
+  }
+
+  private load(p: number): number {
+    return this.m.performers[p].tourShows + this.count[p];
+  }
+
+  // Whether the performer can take the slot on top of what they already play.
+  feasible(p: number, s: number): boolean {
+    if (!this.allowed[s][p]) return false;
+    const show = this.m.slots[s].show;
+    if (this.plays[p][show]) return false;
+    if (this.rules.maxShowsPerWeek !== null && this.count[p] >= this.rules.maxShowsPerWeek) return false;
+
+    const d = this.m.shows[show].date;
+    const counts = this.dateCount[p];
+
+    if (this.rules.maxConsecutiveShows !== null) {
+      let l = d;
+      while (l > 0 && this.m.nextAdjacent[l - 1] && counts[l - 1] > 0) l--;
+      let r = d;
+      while (r < counts.length - 1 && this.m.nextAdjacent[r] && counts[r + 1] > 0) r++;
+      let run = 1;
+      for (let i = l; i <= r; i++) run += counts[i];
+      // A run carried in counts only from the week's first date: any later
+      // start could still be undone by an earlier show, so leave it to verify.
+      if (l === 0) run += this.m.performers[p].carriedRun[0] ?? 0;
+      if (run > this.rules.maxConsecutiveShows) return false;
+    }
+
+    if (this.rules.backToBackDoubles && counts[d] === 1) {
+      if (d > 0 && this.m.nextAdjacent[d - 1] && counts[d - 1] >= 2) return false;
+      if (d < counts.length - 1 && this.m.nextAdjacent[d] && counts[d + 1] >= 2) return false;
+    }
+
+    if (this.rules.minimumRest) {
+      for (const other of this.m.restConflicts[show]) {
+        if (this.plays[p][other]) return false;
+      }
+    }
+
+    // Their last free RED date can't be worked when a RED day is required.
+    if (this.rules.redDays === "required" && this.owedRedDay(p) && this.isRedDate[p][d] && counts[d] === 0 && this.freeRed[p] === 1) {
+      return false;
+    }
+    return true;
+  }
+
+  assign(s: number, p: number): void {
+    const show = this.m.slots[s].show;
+    const d = this.m.shows[show].date;
+    this.pick[s] = p;
+    this.plays[p][show] = true;
+    if (this.dateCount[p][d] === 0 && this.isRedDate[p][d]) {
+      this.freeRed[p]--;
+      if (this.owedRedDay(p) && this.freeRed[p] === 0) this.missingRed++;
+    }
+    this.dateCount[p][d]++;
+    this.count[p]++;
+    this.unfilled--;
+  }
+
+  unassign(s: number): void {
+    const p = this.pick[s];
+    const show = this.m.slots[s].show;
+    const d = this.m.shows[show].date;
+    this.pick[s] = -1;
+    this.plays[p][show] = false;
+    this.dateCount[p][d]--;
+    if (this.dateCount[p][d] === 0 && this.isRedDate[p][d]) {
+      if (this.owedRedDay(p) && this.freeRed[p] === 0) this.missingRed--;
+      this.freeRed[p]++;
+    }
+    this.count[p]--;
+    this.unfilled++;
+  }
+
+  // The least the open slots could still add to the load score: a min-cost
+  // flow from roles to the performers able to take them, each performer's
+  // next show costing the rise in their squared load. It ignores dates and
+  // lets one performer take two roles in a show, so no cast below this node
+  // does better. With keepFreeDates, only among casts that leave everyone a
+  // free date for a RED day. Null when not even that can fill the open slots.
+  private flowBound(domains: Map<number, number[]>, keepFreeDates: boolean): number | null {
+    const nRoles = this.roleCount;
+    const supply = new Array<number>(nRoles).fill(0);
+    const cap = Array.from({ length: nRoles }, () => new Array<number>(this.nPerf).fill(0));
+    // Distinct open shows each performer could still take, in all and by date.
+    const shows = new Array<number>(this.nPerf).fill(0);
+    const byDate = this.m.performers.map(() => new Array<number>(this.m.dates.length).fill(0));
+    const stamp = ++this.stamp;
+    for (const [s, domain] of domains) {
+      const r = this.slotRole[s];
+      const show = this.m.slots[s].show;
+      supply[r]++;
+      for (const p of domain) {
+        cap[r][p]++;
+        if (this.seen[p][show] !== stamp) {
+          this.seen[p][show] = stamp;
+          shows[p]++;
+          byDate[p][this.m.shows[show].date]++;
+        }
+      }
+    }
+    const room = shows.map((_, p) => {
+      const most = this.mostMoreShows(p, byDate[p], keepFreeDates && this.owedRedDay(p));
+      return Math.min(most, this.rules.maxShowsPerWeek === null ? Infinity : this.rules.maxShowsPerWeek - this.count[p]);
+    });
+    // Who each role can go to, and the roles each performer might take.
+    const performersFor: number[][] = cap.map(row => row.flatMap((c, p) => (c > 0 ? [p] : [])));
+    const rolesOf: number[][] = this.m.performers.map(() => []);
+    performersFor.forEach((ps, r) => ps.forEach(p => rolesOf[p].push(r)));
+
+    const sent = new Array<number>(nRoles).fill(0);
+    const flow = Array.from({ length: nRoles }, () => new Array<number>(this.nPerf).fill(0));
+    const taken = new Array<number>(this.nPerf).fill(0);
+
+    // Successive shortest paths. Every cost sits on a performer's own edge to
+    // the sink, so the shortest path ends at the cheapest performer reachable
+    // from a role with slots left, through edges with room or flow to undo.
+    // Augmenting never makes anyone newly reachable, so a path takes as many
+    // units as it can carry while its performer stays the cheapest.
+    const fromRole = new Array<number>(this.nPerf);
+    const fromPerformer = new Array<number>(nRoles);
+    const queue = new Array<number>(nRoles);
+    let left = this.unfilled;
+    while (left > 0) {
+      fromRole.fill(-1);
+      fromPerformer.fill(-2);
+      let head = 0;
+      let tail = 0;
+      for (let r = 0; r < nRoles; r++) {
+        if (sent[r] < supply[r]) {
+          fromPerformer[r] = -1;
+          queue[tail++] = r;
+        }
+      }
+      while (head < tail) {
+        const r = queue[head++];
+        for (const p of performersFor[r]) {
+          if (fromRole[p] >= 0 || flow[r][p] >= cap[r][p]) continue;
+          fromRole[p] = r;
+          for (const back of rolesOf[p]) {
+            if (fromPerformer[back] === -2 && flow[back][p] > 0) {
+              fromPerformer[back] = p;
+              queue[tail++] = back;
+            }
+          }
+        }
+      }
+
+      let cheapest = -1;
+      let runnerUp = Infinity;
+      for (let p = 0; p < this.nPerf; p++) {
+        if (fromRole[p] < 0 || taken[p] >= room[p]) continue;
+        const cost = this.load(p) + taken[p];
+        if (cheapest < 0 || cost < this.load(cheapest) + taken[cheapest]) {
+          if (cheapest >= 0) runnerUp = Math.min(runnerUp, this.load(cheapest) + taken[cheapest]);
+          cheapest = p;
+        } else {
+          runnerUp = Math.min(runnerUp, cost);
+        }
+      }
+      if (cheapest < 0) return null;
+
+      let units = Math.min(left, room[cheapest] - taken[cheapest], runnerUp - (this.load(cheapest) + taken[cheapest]) + 1);
+      for (let p = cheapest; ;) {
+        const r = fromRole[p];
+        units = Math.min(units, cap[r][p] - flow[r][p]);
+        const previous = fromPerformer[r];
+        if (previous < 0) {
+          units = Math.min(units, supply[r] - sent[r]);
+          break;
+        }
+        units = Math.min(units, flow[r][previous]);
+        p = previous;
+      }
+
+      taken[cheapest] += units;
+      left -= units;
+      for (let p = cheapest; ;) {
+        const r = fromRole[p];
+        flow[r][p] += units;
+        const previous = fromPerformer[r];
+        if (previous < 0) {
+          sent[r] += units;
+          break;
+        }
+        flow[r][previous] -= units;
+        p = previous;
+      }
+    }
+
+    let bound = 0;
+    for (let p = 0; p < this.nPerf; p++) bound += (this.load(p) + taken[p]) ** 2;
+    return bound;
+  }
+
+  // The most shows the performer could still add, open[d] at most on each
+  // date, within the run limit and without back-to-back doubles, and keeping
+  // a date free for a RED day when freeDate. A walk through the dates keeping
+  // the best total for each (run so far, double the day before, date kept
+  // free); -Infinity when nothing fits.
+  private mostMoreShows(p: number, open: number[], freeDate: boolean): number {
+    const limit = this.rules.maxConsecutiveShows;
+    const runs = (limit ?? 0) + 1;
+    const index = (run: number, double: number, free: number) => (run * 2 + double) * 2 + free;
+    let best = new Array<number>(runs * 4).fill(-Infinity);
+    best[index(0, 0, 0)] = 0;
+
+    for (let d = 0; d < open.length; d++) {
+      const next = new Array<number>(runs * 4).fill(-Infinity);
+      const adjacent = d > 0 && this.m.nextAdjacent[d - 1];
+      for (let run = 0; run < runs; run++) {
+        for (let double = 0; double < 2; double++) {
+          for (let free = 0; free < 2; free++) {
+            const sofar = best[index(run, double, free)];
+            if (sofar === -Infinity) continue;
+            for (let added = 0; added <= open[d]; added++) {
+              const shows = this.dateCount[p][d] + added;
+              let state: number;
+              if (shows === 0) {
+                state = index(0, 0, free || (this.isRedDate[p][d] ? 1 : 0));
+              } else {
+                const before = adjacent ? run : d === 0 ? this.m.performers[p].carriedRun[0] ?? 0 : 0;
+                const length = limit === null ? 0 : before + shows;
+                if (limit !== null && length > limit) break;
+                if (this.rules.backToBackDoubles && shows >= 2 && adjacent && double) break;
+                state = index(length, shows >= 2 ? 1 : 0, free);
+              }
+              next[state] = Math.max(next[state], sofar + added);
+            }
+          }
+        }
+      }
+      best = next;
+    }
+
+    let most = -Infinity;
+    for (let run = 0; run < runs; run++) {
+      for (let double = 0; double < 2; double++) {
+        most = Math.max(most, best[index(run, double, 1)]);
+        if (!freeDate) most = Math.max(most, best[index(run, double, 0)]);
+      }
+    }
+    return most;
+  }
+
+  // The objective as one number, lower is better.
+  private value(score: { missingRedDays: number; squaredLoad: number }): number {
+    return score.missingRedDays * this.weight + score.squaredLoad;
+  }
+
+  private score(): { missingRedDays: number; squaredLoad: number } {
+    let squaredLoad = 0;
+    for (let p = 0; p < this.nPerf; p++) squaredLoad += this.load(p) ** 2;
+    return { missingRedDays: this.missingRed, squaredLoad };
+  }
+
+  // Whether each show's open slots can still go to distinct performers
+  // (a bipartite matching per show).
+  private showsMatchable(domains: Map<number, number[]>): boolean {
+    const byShow = new Map<number, number[]>();
+    for (const s of domains.keys()) {
+      const show = this.m.slots[s].show;
+      byShow.set(show, [...(byShow.get(show) ?? []), s]);
+    }
+    for (const slots of byShow.values()) {
+      if (slots.length < 2) continue;
+      const holder = new Map<number, number>();
+      const tryPlace = (s: number, seen: Set<number>): boolean => {
+        for (const p of domains.get(s)!) {
+          if (seen.has(p)) continue;
+          seen.add(p);
+          const current = holder.get(p);
+          if (current === undefined || tryPlace(current, seen)) {
+            holder.set(p, s);
+            return true;
+          }
+        }
+        return false;
+      };
+      for (const s of slots) {
+        if (!tryPlace(s, new Set())) return false;
+      }
+    }
+    return true;
+  }
+
+  run(limit: number): void {
+    // Locked picks first, checked like any other.
+    for (let s = 0; s < this.m.slots.length; s++) {
+      const fixed = this.m.slots[s].fixed;
+      if (fixed === undefined) continue;
+      if (!this.feasible(fixed, s)) return;
+      this.assign(s, fixed);
+    }
+    this.descend(limit);
+  }
+
+  // Returns true to stop the search: out of budget, or a first solution was
+  // all that was asked for.
+  private descend(limit: number): boolean {
+    if (this.nodes >= limit) {
+      this.exhausted = false;
+      return true;
+    }
+    this.nodes++;
+
+    if (this.rules.redDays === "required" && this.missingRed > 0) return false;
+    if (this.unfilled === 0) {
+      const score = this.score();
+      if (this.best && this.value(score) >= this.value(this.best)) return false;
+      const picks = [...this.pick];
+      if (this.options.verify && !this.options.verify(picks)) return false;
+      this.best = { picks, ...score };
+      return Boolean(this.options.firstSolution);
+    }
+
+    // Every open slot's domain; fail on an empty one, branch on the smallest.
+    const domains = new Map<number, number[]>();
+    let branch = -1;
+    for (let s = 0; s < this.m.slots.length; s++) {
+      if (this.pick[s] >= 0) continue;
+      const domain: number[] = [];
+      for (let p = 0; p < this.nPerf; p++) {
+        if (this.feasible(p, s)) domain.push(p);
+      }
+      if (domain.length === 0) return false;
+      domains.set(s, domain);
+      if (branch < 0 || domain.length < domains.get(branch)!.length) branch = s;
+    }
+    if (!this.showsMatchable(domains)) return false;
+
+    // A better cast than one giving everyone a RED day must give everyone one too.
+    const keepFreeDates = this.rules.redDays === "required" || (this.rules.redDays === "preferred" && this.best?.missingRedDays === 0);
+    const load = this.flowBound(domains, keepFreeDates);
+    if (load === null) return false;
+    if (this.best && this.value({ missingRedDays: this.missingRed, squaredLoad: load }) >= this.value(this.best)) {
+      return false;
+    }
+
+    // Someone already working that date first, so everyone keeps as many
+    // free dates for a RED day as they can; then the lightest load, then
+    // someone earlier candidates didn't cast here, then the seeded tiebreak.
+    const date = this.m.shows[this.m.slots[branch].show].date;
+    const avoided = this.m.slots[branch].avoided;
+    const random = this.options.random;
+    const order = domains.get(branch)!
+      .map(p => ({
+        p,
+        newDate: this.owedRedDay(p) && this.isRedDate[p][date] && this.dateCount[p][date] === 0 ? 1 : 0,
+        load: this.load(p),
+        avoided: avoided?.[p] ?? 0,
+        tie: random ? random() : 0
+      }))
+      .sort((a, b) => a.newDate - b.newDate || a.load - b.load || a.avoided - b.avoided || a.tie - b.tie);
+
+    for (const { p } of order) {
+      this.assign(branch, p);
+      const stop = this.descend(limit);
+      this.unassign(branch);
+      if (stop) return true;
+    }
+    return false;
+  }
+}
+
+// The Luby sequence (1, 1, 2, 1, 1, 2, 4, 1, ...): restart budgets that waste
+// at most a log factor against the best fixed budget, unknown in advance.
+function luby(i: number): number {
+  for (let k = 1; ; k++) {
+    if (i === (1 << k) - 1) return 1 << (k - 1);
+    if (i < (1 << k) - 1) return luby(i - (1 << (k - 1)) + 1);
+  }
+}
+
+// Nodes in the shortest restart.
+const RESTART_NODES = 1000;
+
+// Searches the model for the best cast (or, with firstSolution, any cast).
+//
+// While RED days are only preferred, a cast giving everyone one beats any
+// that doesn't, and holding the search to those prunes far more: so it looks
+// for one of those first, on half the budget, and only when there is none (or
+// none found) for the cast leaving the fewest without.
+export function solveCasting(model: CastingModel, options: SolveOptions = {}): SolveResult {
+  const budget = options.nodeLimit ?? DEFAULT_NODE_LIMIT;
+  if (model.rules.redDays !== "preferred") return search(model, options, budget);
+
+  const everyone = search({ ...model, rules: { ...model.rules, redDays: "required" } }, options, Math.ceil(budget / 2));
+  if (everyone.picks) return everyone;
+  const fewest = search(model, options, budget - everyone.nodes);
+  return { ...fewest, nodes: everyone.nodes + fewest.nodes };
+}
+
+// A search that goes wrong near the top can spend any budget below it, so
+// with a random tiebreak it restarts on growing budgets (luby), each time in
+// a new order and keeping the best cast so far to beat. Any restart that runs
+// out of tree rather than budget has settled the week.
+function search(model: CastingModel, options: SolveOptions, budget: number): SolveResult {
+  let nodes = 0;
+  let best: Search["best"] = null;
+  let exhausted = false;
+  for (let restart = 1; nodes < budget && !exhausted; restart++) {
+    const limit = options.random ? Math.min(budget - nodes, RESTART_NODES * luby(restart)) : budget;
+    const attempt: Search = new Search(model, options, best);
+    attempt.run(limit);
+    nodes += attempt.nodes;
+    best = attempt.best;
+    exhausted = attempt.exhausted;
+    if (best && options.firstSolution) break;
+  }
+
+  if (!best) {
+    return { status: exhausted ? "infeasible" : "unknown", nodes };
+  }
+  const proven = exhausted && !options.firstSolution;
+  return {
+    status: proven ? "optimal" : "feasible",
+    picks: best.picks,
+    objective: { missingRedDays: best.missingRedDays, squaredLoad: best.squaredLoad },
+    nodes
+  };
+}
+
+// Each rule generation enforces, how to lift it, and how to name it.
+const RELAXATIONS: Array<{
+  code: RuleCode;
+  applies: (rules: SolverRules) => boolean;
+  lift: (rules: SolverRules) => SolverRules;
+  describe: (model: CastingModel) => string;
+}> = [
+  {
+    code: "WEEKLY_LIMIT_EXCEEDED",
+    applies: r => r.maxShowsPerWeek !== null,
+    lift: r => ({ ...r, maxShowsPerWeek: null }),
+    describe: m => `the limit of ${m.limits.maxShowsPerWeek} shows per week`
+  },
+  {
+    code: "CONSECUTIVE_EXCEEDED",
+    applies: r => r.maxConsecutiveShows !== null,
+    lift: r => ({ ...r, maxConsecutiveShows: null }),
+    describe: m => `the limit of ${m.limits.maxConsecutiveShows} consecutive shows`
+  },
+  {
+    code: "BACK_TO_BACK_DOUBLES",
+    applies: r => r.backToBackDoubles,
+    lift: r => ({ ...r, backToBackDoubles: false }),
+    describe: () => "no back-to-back double-show days"
+  },
+  {
+    code: "MINIMUM_REST",
+    applies: r => r.minimumRest,
+    lift: r => ({ ...r, minimumRest: false }),
+    describe: () => "the minimum rest between shows"
+  },
+  {
+    code: "PERFORMER_UNAVAILABLE",
+    applies: r => r.unavailability,
+    lift: r => ({ ...r, unavailability: false }),
+    describe: () => "performers' unavailable dates"
+  },
+  {
+    code: "GENDER_VIOLATION",
+    applies: r => r.genderConvention,
+    lift: r => ({ ...r, genderConvention: false }),
+    describe: () => "the roles' casting conventions"
+  },
+  {
+    code: "RED_DAY_MISSING",
+    applies: r => r.redDays === "required",
+    lift: r => ({ ...r, redDays: "none" }),
+    describe: () => "a RED day for everyone"
+  }
+];
+
+// The rules that stand between the week and any cast, for a model
+// solveCasting found infeasible: each rule whose lifting alone lets the week
+// be cast. When none does on its own, every rule in force is named together;
+// when the week can't be cast even with them all lifted, the shows short of
+// eligible performers are.
+export function blockingConstraints(model: CastingModel, options: SolveOptions = {}): BlockingConstraint[] {
+  // Without verify: it checks a cast against every rule, the lifted one too.
+  const attempt = (rules: SolverRules) =>
+    solveCasting({ ...model, rules }, { ...options, verify: undefined, firstSolution: true });
+
+  const inForce = RELAXATIONS.filter(r => r.applies(model.rules));
+  const blocking: BlockingConstraint[] = [];
+  for (const relaxation of inForce) {
+    const status = attempt(relaxation.lift(model.rules)).status;
+    if (status === "feasible") {
+      blocking.push({
+        code: relaxation.code,
+        message: `The week can't be cast within ${relaxation.describe(model)}; lifting it alone would let it be`
+      });
+    }
+  }
+  if (blocking.length > 0) return blocking;
+
+  const lifted = inForce.reduce((rules, r) => r.lift(rules), model.rules);
+  if (inForce.length > 0 && attempt(lifted).status === "feasible") {
+    return inForce.map(r => ({
+      code: r.code,
+      message: `The week can't be cast within ${r.describe(model)} together with the other rules in force`
+    }));
+  }
+
+  // Not a labour rule: some show has more roles than performers who can play them.
+  const shortShows = model.shows.flatMap((show, index) => {
+    const slots = model.slots.filter(s => s.show === index);
+    const free = slots.filter(s => s.fixed === undefined);
+    const eligible = new Set(free.flatMap(s => s.candidates.map(c => c.performer)));
+    const lockedAway = new Set(slots.filter(s => s.fixed !== undefined).map(s => s.fixed));
+    const available = [...eligible].filter(p => !lockedAway.has(p) && model.performers[p].lockedRedDate !== show.date);
+    const empty = free.filter(s => s.candidates.every(c => lockedAway.has(c.performer) || model.performers[c.performer].lockedRedDate === show.date));
+    if (empty.length > 0) {
+      return empty.map(s => `No one eligible is left to play ${s.role} in ${show.label}`);
+    }
+    return available.length < free.length ? [`${show.label} has ${free.length} roles to cast but only ${available.length} eligible performers`] : [];
+  });
+  const messages = shortShows.length > 0
+    ? shortShows
+    : ["The locked picks and RED days leave no way to cast the week"];
+  return messages.map(message => ({ code: "CASTING_INCOMPLETE" as RuleCode, message }));
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the suggestions and the algorithm are under test; keep the database and
+// auth runtime out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('./live', () => ({}));
+vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn, APIError: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { applySwap, suggestSwaps } from './swaps';
+import type { SwapWeek } from './swaps';
+import { DEFAULT_RULE_LIMITS, SchedulingAlgorithm } from './algorithm';
+import { CAST_MEMBERS } from './types';
+import type { Assignment, CastMember, RoleDefinition, RuleSettings, Show } from './types';
+
+const tue: Show = { id: 'tue', date: '2024-01-02', time: '19:30', callTime: '18:00', status: 'show' };
+const wed: Show = { id: 'wed', date: '2024-01-03', time: '19:30', callTime: '18:00', status: 'show' };
+
+// One show's stage picks; everyone else is listed OFF.
+function cast(showId: string, stage: Record<string, string>, members: CastMember[] = CAST_MEMBERS): Assignment[] {
+  const on = new Set(Object.values(stage));
+  return [
+    ...Object.entries(stage).map(([role, performer]) => ({ showId, role, performer })),
+    ...members.filter(m => !on.has(m.name)).map(m => ({ showId, role: 'OFF', performer: m.name, isRedDay: false })),
+  ];
+}
+
+const STAGE = {
+  Sarge: 'PHIL', Potato: 'JAMIE', Mozzie: 'JOSE', Ringo: 'CADE',
+  Particle: 'CARY', Bin: 'MOLLY', Cornish: 'JASMINE', Who: 'JOSH',
+};
+
+function swapWeek(shows: Show[], assignments: Assignment[], options: { rules?: RuleSettings; roles?: RoleDefinition[]; members?: CastMember[] } = {}): SwapWeek {
+  const members = options.members ?? CAST_MEMBERS;
+  const algorithm = new SchedulingAlgorithm(shows, members, undefined, { rules: options.rules, roles: options.roles });
+  return { shows, assignments, castMembers: members, validate: a => algorithm.validateSchedule(a).items };
+}
+
+describe('applySwap', () => {
+  it('puts each performer in their cell and off the OFF list', () => {
+    const week = cast('tue', STAGE);
+    const after = applySwap(week, [{ showId: 'tue', role: 'Potato', from: 'JAMIE', to: 'SEAN' }]);
+
+    expect(after).toContainEqual({ showId: 'tue', role: 'Potato', performer: 'SEAN' });
+    expect(after.some(a => a.performer === 'SEAN' && a.role === 'OFF')).toBe(false);
+    expect(after.some(a => a.performer === 'JAMIE')).toBe(false);
+  });
+});
+
+describe('suggestSwaps', () => {
+  it('offers someone OFF first, then a trade of roles within the show', () => {
+    const suggestions = suggestSwaps(swapWeek([tue], cast('tue', STAGE)), 'tue', 'Potato');
+
+    expect(suggestions[0]).toMatchObject({
+      kind: 'replace',
+      operations: [{ showId: 'tue', role: 'Potato', from: 'JAMIE', to: 'SEAN' }],
+      delta: { errors: 0, warnings: 0, introduced: [] },
+    });
+    expect(suggestions).toContainEqual(expect.objectContaining({
+      kind: 'swap',
+      operations: [
+        { showId: 'tue', role: 'Potato', from: 'JAMIE', to: 'CADE' },
+        { showId: 'tue', role: 'Ringo', from: 'CADE', to: 'JAMIE' },
+      ],
+    }));
+  });
+
+  it('rotates three roles when nobody can trade', () => {
+    const members: CastMember[] = [
+      { name: 'ANN', eligibleRoles: ['Sarge', 'Potato'] },
+      { name: 'BEN', eligibleRoles: ['Potato', 'Ringo'] },
+      { name: 'CAL', eligibleRoles: ['Ringo', 'Sarge'] },
+    ];
+    const roles: RoleDefinition[] = ['Sarge', 'Potato', 'Ringo'].map((name, order) => ({ id: name, name, order, active: true }));
+    const week = swapWeek([tue], cast('tue', { Sarge: 'ANN', Potato: 'BEN', Ringo: 'CAL' }, members), { roles, members });
+
+    expect(suggestSwaps(week, 'tue', 'Sarge')).toEqual([expect.objectContaining({
+      kind: 'three_way',
+      operations: [
+        { showId: 'tue', role: 'Sarge', from: 'ANN', to: 'CAL' },
+        { showId: 'tue', role: 'Ringo', from: 'CAL', to: 'BEN' },
+        { showId: 'tue', role: 'Potato', from: 'BEN', to: 'ANN' },
+      ],
+    })]);
+  });
+
+  it('trades shows where a straight replacement would break the weekly limit', () => {
+    const rules: RuleSettings = { limits: { ...DEFAULT_RULE_LIMITS, maxShowsPerWeek: 1 }, severities: {} };
+    const week = swapWeek([tue, wed], [
+      ...cast('tue', { Sarge: 'PHIL' }),
+      ...cast('wed', { Sarge: 'SEAN' }),
+    ], { rules });
+
+    expect(suggestSwaps(week, 'tue', 'Sarge')).toEqual([expect.objectContaining({
+      kind: 'swap',
+      operations: [
+        { showId: 'tue', role: 'Sarge', from: 'PHIL', to: 'SEAN' },
+        { showId: 'wed', role: 'Sarge', from: 'SEAN', to: 'PHIL' },
+      ],
+    })]);
+  });
+
+  it('fills an empty cell and counts the error it clears', () => {
+    const { Ringo: _empty, ...stage } = STAGE;
+    const suggestions = suggestSwaps(swapWeek([tue], cast('tue', stage)), 'tue', 'Ringo');
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    for (const s of suggestions) {
+      expect(s.operations[0]).toMatchObject({ role: 'Ringo', from: '' });
+      expect(s.delta.errors).toBeLessThan(0);
+      expect(s.delta.resolved.some(i => i.severity === 'error')).toBe(true);
+    }
+  });
+
+  it('never brings someone in on their RED day', () => {
+    const week = cast('tue', STAGE).map(a => a.performer === 'SEAN' ? { ...a, isRedDay: true } : a);
+    const suggestions = suggestSwaps(swapWeek([tue], week), 'tue', 'Potato');
+
+    expect(suggestions.flatMap(s => s.operations).some(op => op.to === 'SEAN')).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+// Swap suggestions for one cell of the grid.
+//
+// "Who could take this role here?": someone OFF steps in, or the cell's
+// performer trades with someone (in the same show, or across two shows so
+// neither plays more), or three cells rotate. Each suggestion is a list of
+// cell operations the editor can apply as they are, with what it does to the
+// week's validation. A suggestion that adds an error is never offered.
+
+import { api, APIError } from "encore.dev/api";
+import { Assignment, CastMember, Role, Show } from "./types";
+import type { ValidationItem } from "./algorithm";
+
+export interface SwapRequest {
+  shows: Show[];
+  // The grid as it stands, saved or not.
+  assignments: Assignment[];
+  scheduleId?: string;
+  // The cell asked about.
+  showId: string;
+  role: Role;
+}
+
+// Put `to` in a cell; `from` is who holds it now ("" when empty). A performer
+// moved out of the show is OFF, as the grid shows anyone without a role.
+export interface SwapOperation {
+  showId: string;
+  role: Role;
+  from: string;
+  to: string;
+}
+
+// What a suggestion does to the week's validation: the change in error and
+// warning counts (negative is better), and the items it clears and adds.
+export interface SwapDelta {
+  errors: number;
+  warnings: number;
+  resolved: ValidationItem[];
+  introduced: ValidationItem[];
+}
+
+export interface SwapSuggestion {
+  // By the cells it changes: one (replace), two (swap) or three (three_way).
+  kind: "replace" | "swap" | "three_way";
+  operations: SwapOperation[];
+  delta: SwapDelta;
+}
+
+export interface SwapResponse {
+  // Most errors cleared first, then fewest warnings added, then fewest cells.
+  suggestions: SwapSuggestion[];
+}
+
+// The week a cell's swaps are looked for in.
+export interface SwapWeek {
+  shows: Show[];
+  assignments: Assignment[];
+  castMembers: CastMember[];
+  // validateSchedule's items for a version of the week.
+  validate: (assignments: Assignment[]) => ValidationItem[];
+}
+
+export const MAX_SUGGESTIONS = 8;
+
+const KINDS: SwapSuggestion["kind"][] = ["replace", "swap", "three_way"];
+
+// An item's identity across versions of the week; messages carry counts.
+export function itemKey(item: ValidationItem): string {
+  return `${item.severity}|${item.code}|${item.performer ?? ""}|${item.showId ?? ""}`;
+}
+
+// Applies operations the way the editor does: each cell gets its new
+// performer, who leaves the show's OFF list. Anyone moved out of a role is left
+// without one, which the grid shows as OFF.
+export function applySwap(assignments: Assignment[], operations: SwapOperation[]): Assignment[] {
+  let result = [...assignments];
+  for (const op of operations) {
+    result = result.filter(a =>
+      !(a.showId === op.showId && a.role === op.role) &&
+      !(a.showId === op.showId && a.role === "OFF" && !a.isRedDay && a.performer === op.to)
+    );
+    result.push({ showId: op.showId, role: op.role, performer: op.to });
+  }
+  return result;
+}
+
+// What items a version of the week clears and adds against the one it came
+// from, matched by identity.
+export function compareItems(before: ValidationItem[], after: ValidationItem[]): SwapDelta {
+  const remaining = new Map<string, number>();
+  for (const item of before) remaining.set(itemKey(item), (remaining.get(itemKey(item)) ?? 0) + 1);
+  const introduced: ValidationItem[] = [];
+  for (const item of after) {
+    const left = remaining.get(itemKey(item)) ?? 0;
+    if (left > 0) remaining.set(itemKey(item), left - 1);
+    else introduced.push(item);
+  }
+  const resolved: ValidationItem[] = [];
+  for (const item of before) {
+    const left = remaining.get(itemKey(item)) ?? 0;
+    if (left > 0) {
+      remaining.set(itemKey(item), left - 1);
+      resolved.push(item);
+    }
+  }
+  const count = (items: ValidationItem[], severity: ValidationItem["severity"]) => items.filter(i => i.severity === severity).length;
+  return {
+    errors: count(after, "error") - count(before, "error"),
+    warnings: count(after, "warning") - count(before, "warning"),
+    resolved,
+    introduced
+  };
+}
+
+// Every way to put someone else in the cell, as operations on the week.
+function swapOperations(week: SwapWeek, showId: string, role: Role): SwapOperation[][] {
+  const shows = new Map(week.shows.map(s => [s.id, s]));
+  const plays = (name: string, r: Role) => week.castMembers.find(m => m.name === name)?.eligibleRoles.includes(r) ?? false;
+  const stageOf = (id: string) => new Map(
+    week.assignments.filter(a => a.showId === id && a.role !== "OFF" && a.performer).map(a => [a.performer, a.role as Role])
+  );
+  // Who could be brought into a show: not on stage in it, and not on their
+  // RED day that date.
+  const freeIn = (id: string) => {
+    const stage = stageOf(id);
+    const date = shows.get(id)?.date;
+    const resting = new Set(
+      week.assignments.filter(a => a.isRedDay && shows.get(a.showId)?.date === date).map(a => a.performer)
+    );
+    return week.castMembers.map(m => m.name).filter(name => !stage.has(name) && !resting.has(name));
+  };
+
+  const stage = stageOf(showId);
+  const free = freeIn(showId);
+  const holder = week.assignments.find(a => a.showId === showId && a.role === role)?.performer ?? "";
+  const cell = (r: Role, to: string): SwapOperation => ({
+    showId,
+    role: r,
+    from: week.assignments.find(a => a.showId === showId && a.role === r)?.performer ?? "",
+    to
+  });
+
+  const found: SwapOperation[][] = [];
+  // Someone OFF steps in.
+  for (const name of free) {
+    if (plays(name, role)) found.push([cell(role, name)]);
+  }
+  for (const [moved, theirRole] of stage) {
+    if (moved === holder || !plays(moved, role)) continue;
+    // The two trade roles.
+    if (holder && plays(holder, theirRole)) found.push([cell(role, moved), cell(theirRole, holder)]);
+    // They move over and someone OFF takes their role.
+    for (const name of free) {
+      if (plays(name, theirRole)) found.push([cell(role, moved), cell(theirRole, name)]);
+    }
+    // Three roles rotate: they move over, a third takes their role, and the
+    // cell's performer takes the third's.
+    if (!holder) continue;
+    for (const [third, thirdRole] of stage) {
+      if (third === holder || third === moved || !plays(third, theirRole) || !plays(holder, thirdRole)) continue;
+      found.push([cell(role, moved), cell(theirRole, third), cell(thirdRole, holder)]);
+    }
+  }
+  // Trade shows: someone OFF here plays a show the cell's performer is OFF
+  // for, in a role the performer can take. Neither plays more than before.
+  if (holder) {
+    for (const other of week.shows) {
+      if (other.id === showId || other.status !== "show" || !freeIn(other.id).includes(holder)) continue;
+      for (const [name, theirRole] of stageOf(other.id)) {
+        if (!free.includes(name) || !plays(name, role) || !plays(holder, theirRole)) continue;
+        found.push([cell(role, name), { showId: other.id, role: theirRole, from: name, to: holder }]);
+      }
+    }
+  }
+  return found;
+}
+
+// The swaps for one cell that keep the week free of new errors, best first.
+export function suggestSwaps(week: SwapWeek, showId: string, role: Role): SwapSuggestion[] {
+  const before = week.validate(week.assignments);
+  return swapOperations(week, showId, role)
+    .map(operations => ({
+      kind: KINDS[operations.length - 1],
+      operations,
+      delta: compareItems(before, week.validate(applySwap(week.assignments, operations)))
+    }))
+    .filter(s => !s.delta.introduced.some(i => i.severity === "error"))
+    .sort((a, b) =>
+      a.delta.errors - b.delta.errors
+      || a.delta.warnings - b.delta.warnings
+      || a.operations.length - b.operations.length
+    )
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// Suggests who could take a role in a show: direct replacements and two- or
+// three-way swaps, each with its validation delta. Nothing is saved.
+export const suggestCellSwaps = api<SwapRequest, SwapResponse>(
+  { expose: true, method: "POST", path: "/schedules/swaps", auth: true },
+  async (req) => {
+    const show = req.shows.find(s => s.id === req.showId);
+    if (!show || show.status !== "show") {
+      throw APIError.invalidArgument(`${req.showId} isn't a show in this week`);
+    }
+
+    const { requireCompanyRole, scheduleCompanyId } = await import("./companies");
+    const companyId = await requireCompanyRole("manager", await scheduleCompanyId(req.scheduleId));
+    const { loadComprehensiveContext } = await import("./validate_comprehensive");
+    const context = await loadComprehensiveContext(companyId, req.shows, req.scheduleId);
+    if (!context.roles.includes(req.role)) {
+      throw APIError.invalidArgument(`${req.role} isn't one of this week's roles`);
+    }
+
+    const { SchedulingAlgorithm } = await import("./algorithm");
+    const algorithm = new SchedulingAlgorithm(req.shows, context.castMembers, undefined, {
+      unavailability: context.unavailability,
+      carryOver: context.carryOver,
+      roles: context.roleCatalogue,
+      rules: context.rules
+    });
+    const week: SwapWeek = {
+      shows: req.shows,
+      assignments: req.assignments,
+      castMembers: context.castMembers,
+      validate: a => algorithm.validateSchedule(a).items
+    };
+    return { suggestions: suggestSwaps(week, req.showId, req.role) };
+  }
+);
@@ -5,8 +5,9 @@ import { TemplateSlot } from './types';
 
 // The endpoints run as 'system' here (no auth context in tests, so getAuthData
 // returns undefined and userId falls back to 'system' — same as the other
-// endpoint tests). Owner-scoping is exercised by inserting a row owned by a
-// *different* user directly and asserting the 'system' caller can't reach it.
+// endpoint tests), whose current company is the default one. Company scoping
+// is exercised by inserting a row in a *different* company directly and
+// asserting the 'system' caller can't reach it.
 describe('Templates CRUD', () => {
   const createdIds: string[] = [];
 
@@ -22,7 +23,8 @@ describe('Templates CRUD', () => {
     for (const id of createdIds) {
       try { await deleteTemplate({ id }); } catch { /* already gone */ }
     }
-    await scheduleDB.exec`DELETE FROM templates WHERE user_id = 'other-user'`;
+    await scheduleDB.exec`DELETE FROM templates WHERE company_id = 'other-company'`;
+    await scheduleDB.exec`DELETE FROM companies WHERE id = 'other-company'`;
     createdIds.length = 0;
   });
 
@@ -54,11 +56,12 @@ describe('Templates CRUD', () => {
     expect(after.templates.some((t) => t.id === created.template.id)).toBe(false);
   });
 
-  it("does not expose or mutate another user's templates (owner scoping)", async () => {
-    const foreignId = 'foreign-tmpl-owner-scoping';
+  it("does not expose or mutate another company's templates (company scoping)", async () => {
+    const foreignId = 'foreign-tmpl-company-scoping';
+    await scheduleDB.exec`INSERT INTO companies (id, name) VALUES ('other-company', 'Elsewhere')`;
     await scheduleDB.exec`
-      INSERT INTO templates (id, user_id, name, slots, created_at, updated_at)
-      VALUES (${foreignId}, 'other-user', 'Their template', ${JSON.stringify(slots)}, NOW(), NOW())
+      INSERT INTO templates (id, user_id, company_id, name, slots, created_at, updated_at)
+      VALUES (${foreignId}, 'other-user', 'other-company', 'Their template', ${JSON.stringify(slots)}, NOW(), NOW())
     `;
 
     const listed = await listTemplates();
@@ -2,6 +2,7 @@ import { api, APIError } from "encore.dev/api";
 import { getAuthData } from "encore.dev/internal/codegen/auth";
 import type { AuthData } from "../auth/encore_auth";
 import { scheduleDB } from "./db";
+import { currentCompanyId, requireCompanyRole } from "./companies";
 import { Template, TemplateSlot } from "./types";
 
 export interface ListTemplatesResponse {
@@ -33,17 +34,16 @@ function parseSlots(raw: unknown): TemplateSlot[] {
   return [];
 }
 
-// Lists the authenticated user's templates, most-recently-updated first.
+// Lists the current company's templates, most-recently-updated first.
 export const listTemplates = api<void, ListTemplatesResponse>(
   { expose: true, method: "GET", path: "/templates", auth: true },
   async () => {
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? "system";
+    const companyId = await currentCompanyId();
 
     const rows = await scheduleDB.queryAll`
       SELECT id, name, slots
       FROM templates
-      WHERE user_id = ${userId}
+      WHERE company_id = ${companyId}
       ORDER BY updated_at DESC
     `;
 
@@ -57,37 +57,37 @@ export const listTemplates = api<void, ListTemplatesResponse>(
   }
 );
 
-// Creates a template owned by the authenticated user. Slots are stored verbatim.
+// Creates a template in the current company. Slots are stored verbatim.
 export const createTemplate = api<CreateTemplateRequest, TemplateResponse>(
   { expose: true, method: "POST", path: "/templates", auth: true },
   async (req) => {
     const authData = await getAuthData<AuthData>();
     const userId = authData?.userID ?? "system";
+    const companyId = await requireCompanyRole("manager");
 
     const id = generateId();
     const now = new Date();
 
     await scheduleDB.exec`
-      INSERT INTO templates (id, user_id, name, slots, created_at, updated_at)
-      VALUES (${id}, ${userId}, ${req.name}, ${JSON.stringify(req.slots)}, ${now}, ${now})
+      INSERT INTO templates (id, user_id, company_id, name, slots, created_at, updated_at)
+      VALUES (${id}, ${userId}, ${companyId}, ${req.name}, ${JSON.stringify(req.slots)}, ${now}, ${now})
     `;
 
     return { template: { id, name: req.name, slots: req.slots } };
   }
 );
 
-// Updates a template in place (rename and/or reshape). Scoped to the owner: a
-// template belonging to another user reads as not-found.
+// Updates a template in place (rename and/or reshape). Scoped to the current
+// company: a template belonging to another company reads as not-found.
 export const updateTemplate = api<UpdateTemplateRequest, TemplateResponse>(
   { expose: true, method: "PUT", path: "/templates/:id", auth: true },
   async (req) => {
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? "system";
+    const companyId = await requireCompanyRole("manager");
 
     const existing = await scheduleDB.queryRow`
       SELECT id, name, slots
       FROM templates
-      WHERE id = ${req.id} AND user_id = ${userId}
+      WHERE id = ${req.id} AND company_id = ${companyId}
     `;
     if (!existing) {
       throw APIError.notFound("template not found");
@@ -100,29 +100,28 @@ export const updateTemplate = api<UpdateTemplateRequest, TemplateResponse>(
     await scheduleDB.exec`
       UPDATE templates
       SET name = ${name}, slots = ${JSON.stringify(slots)}, updated_at = ${now}
-      WHERE id = ${req.id} AND user_id = ${userId}
+      WHERE id = ${req.id} AND company_id = ${companyId}
     `;
 
     return { template: { id: req.id, name, slots } };
   }
 );
 
-// Deletes a template owned by the authenticated user.
+// Deletes a template from the current company.
 export const deleteTemplate = api<{ id: string }, void>(
   { expose: true, method: "DELETE", path: "/templates/:id", auth: true },
   async (req) => {
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? "system";
+    const companyId = await requireCompanyRole("manager");
 
     const existing = await scheduleDB.queryRow`
-      SELECT id FROM templates WHERE id = ${req.id} AND user_id = ${userId}
+      SELECT id FROM templates WHERE id = ${req.id} AND company_id = ${companyId}
     `;
     if (!existing) {
       throw APIError.notFound("template not found");
     }
 
     await scheduleDB.exec`
-      DELETE FROM templates WHERE id = ${req.id} AND user_id = ${userId}
+      DELETE FROM templates WHERE id = ${req.id} AND company_id = ${companyId}
     `;
   }
 );
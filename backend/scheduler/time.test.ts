@@ -1,5 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { TBC, isKnownTime, normalizeTime, parseShowDateTime, showSortKey } from './time';
+import {
+  TBC,
+  compareShows,
+  isKnownTime,
+  minutesBetweenShows,
+  normalizeTime,
+  parseShowDateTime,
+  restMinutesBetween,
+  showOrderTime,
+  showSortKey,
+  zoneOffsetMinutes,
+} from './time';
 
 describe('isKnownTime', () => {
   it('accepts HH:MM', () => {
@@ -64,3 +75,57 @@ describe('parseShowDateTime', () => {
     }
   });
 });
+
+describe('zone-aware show times', () => {
+  it('reads a time as the wall clock in its zone', () => {
+    // London is on BST (UTC+1) in July and GMT in January.
+    expect(parseShowDateTime('2025-07-15', '19:30', 'Europe/London')!.toISOString()).toBe('2025-07-15T18:30:00.000Z');
+    expect(parseShowDateTime('2025-01-14', '19:30', 'Europe/London')!.toISOString()).toBe('2025-01-14T19:30:00.000Z');
+    expect(parseShowDateTime('2025-07-15', '19:30', 'America/New_York')!.toISOString()).toBe('2025-07-15T23:30:00.000Z');
+  });
+
+  it('reads a show without a zone, or with an unknown one, as UTC', () => {
+    expect(parseShowDateTime('2025-07-15', '19:30')!.toISOString()).toBe('2025-07-15T19:30:00.000Z');
+    expect(parseShowDateTime('2025-07-15', '19:30', 'Mars/Olympus')!.toISOString()).toBe('2025-07-15T19:30:00.000Z');
+  });
+
+  it('settles a show on the day the clocks change', () => {
+    // 30 March 2025: London goes to BST at 01:00 UTC.
+    expect(parseShowDateTime('2025-03-30', '15:00', 'Europe/London')!.toISOString()).toBe('2025-03-30T14:00:00.000Z');
+    expect(zoneOffsetMinutes('Europe/London', new Date('2025-03-30T00:30:00Z'))).toBe(0);
+    expect(zoneOffsetMinutes('Europe/London', new Date('2025-03-30T01:30:00Z'))).toBe(60);
+  });
+
+  it('measures the gap between shows in real time across zones', () => {
+    const london = { date: '2025-07-15', time: '20:00', timeZone: 'Europe/London' };
+    const paris = { date: '2025-07-16', time: '14:00', timeZone: 'Europe/Paris' };
+    // 20:00 BST is 19:00 UTC; 14:00 CEST is 12:00 UTC: 17 hours, not 18.
+    expect(minutesBetweenShows(london, paris)).toBe(17 * 60);
+    expect(minutesBetweenShows(london, { ...paris, time: TBC })).toBeNull();
+  });
+
+  it('orders shows by real time, parking an unknown time at the end of its day', () => {
+    const shows = [
+      { id: 'ny', date: '2025-07-15', time: '19:00', timeZone: 'America/New_York' }, // 23:00 UTC
+      { id: 'tbc', date: '2025-07-15', time: TBC, timeZone: 'Europe/London' }, // end of the London day
+      { id: 'ldn', date: '2025-07-15', time: '20:00', timeZone: 'Europe/London' }, // 19:00 UTC
+    ];
+    expect([...shows].sort(compareShows).map((s) => s.id)).toEqual(['ldn', 'tbc', 'ny']);
+    expect(showOrderTime(shows[1])).toBeGreaterThan(showOrderTime(shows[2]));
+  });
+});
+
+describe('restMinutesBetween', () => {
+  it('runs from curtain down to the next call', () => {
+    const evening = { date: '2025-07-15', time: '19:30' };
+    const matinee = { date: '2025-07-16', callTime: '12:30' };
+    // Down at 21:30 after a 2-hour show; 15 hours to a 12:30 call.
+    expect(restMinutesBetween(evening, matinee)).toBe(15 * 60);
+    expect(restMinutesBetween(evening, matinee, 150)).toBe(14 * 60 + 30);
+  });
+
+  it('is null when the curtain or the call is TBC', () => {
+    expect(restMinutesBetween({ date: '2025-07-15', time: TBC }, { date: '2025-07-16', callTime: '12:30' })).toBeNull();
+    expect(restMinutesBetween({ date: '2025-07-15', time: '19:30' }, { date: '2025-07-16', callTime: TBC })).toBeNull();
+  });
+});
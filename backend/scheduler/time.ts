@@ -11,6 +11,11 @@
  * arbitrary order *without throwing* — the consecutive-show and fatigue checks
  * would then read a week that never existed.
  *
+ * A time is the wall clock where the show is played. On a tour that crosses
+ * time zones each show carries its IANA zone (Show.timeZone), and anything
+ * that measures between shows goes through the zone-aware helpers at the end
+ * of this file, so the gaps are real elapsed time.
+ *
  * This module imports nothing so the frontend can import it at runtime through
  * the `~backend` alias.
  */
@@ -33,14 +38,117 @@ export function normalizeTime(t: string): string {
  *
  * An unknown time parks at `99:99`: **TBC sorts to the end of its own day**, the
  * same convention `sortShows` already uses for travel columns.
+ *
+ * Only within one zone: for a week that crosses zones, order with `compareShows`.
  */
 export function showSortKey(date: string, time: string): string {
   return `${date}T${isKnownTime(time) ? time : "99:99"}`;
 }
 
-/** The show's instant, or null when its time isn't known. Never an Invalid Date. */
-export function parseShowDateTime(date: string, time: string): Date | null {
+// One formatter per zone: building an Intl.DateTimeFormat is far slower than
+// using one, and a sort asks for the same few zones thousands of times.
+const zoneFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  if (!zoneFormatters.has(timeZone)) {
+    let formatter: Intl.DateTimeFormat | null = null;
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+    } catch {
+      formatter = null;
+    }
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return zoneFormatters.get(timeZone) ?? null;
+}
+
+/**
+ * How far `timeZone`'s wall clock runs ahead of UTC at `at`, in minutes
+ * (negative west of Greenwich). An unknown zone reads as UTC, so a bad value
+ * that slipped past validation can't turn a week's maths into NaN.
+ */
+export function zoneOffsetMinutes(timeZone: string, at: Date): number {
+  const formatter = timeZone && timeZone !== "UTC" ? zoneFormatter(timeZone) : null;
+  if (!formatter) return 0;
+  const parts = formatter.formatToParts(at);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return Math.round((wall - Math.floor(at.getTime() / 1000) * 1000) / 60_000);
+}
+
+/**
+ * The show's instant, or null when its time isn't known. Never an Invalid Date.
+ *
+ * `time` is the wall clock in `timeZone` (a show's own zone; see Show.timeZone).
+ * A show without one is read as UTC rather than as the server's local time, so
+ * the same week gives the same answer wherever it is computed.
+ */
+export function parseShowDateTime(date: string, time: string, timeZone = "UTC"): Date | null {
   if (!isKnownTime(time)) return null;
-  const d = new Date(`${date}T${time}`);
-  return Number.isNaN(d.getTime()) ? null : d;
+  const wall = new Date(`${date}T${time}:00Z`);
+  if (Number.isNaN(wall.getTime())) return null;
+  // The offset is looked up at the wall time read as UTC, then again at the
+  // instant that gives; the second look settles a show near a DST change.
+  const first = zoneOffsetMinutes(timeZone, wall);
+  const second = zoneOffsetMinutes(timeZone, new Date(wall.getTime() - first * 60_000));
+  return new Date(wall.getTime() - second * 60_000);
+}
+
+/**
+ * A show's place in absolute time, for ordering a week that crosses zones:
+ * its instant, or for an unknown time the last minute of its own local day —
+ * the same "TBC sorts to the end of its day" rule as `showSortKey`.
+ */
+export function showOrderTime(show: { date: string; time: string; timeZone?: string }): number {
+  const at = parseShowDateTime(show.date, show.time, show.timeZone) ?? parseShowDateTime(show.date, "23:59", show.timeZone);
+  return at ? at.getTime() + (isKnownTime(show.time) ? 0 : 59_999) : Number.MAX_SAFE_INTEGER;
+}
+
+/** Chronological in absolute time; a comparator for `Array.sort`. */
+export function compareShows(
+  a: { date: string; time: string; timeZone?: string },
+  b: { date: string; time: string; timeZone?: string },
+): number {
+  return showOrderTime(a) - showOrderTime(b);
+}
+
+/**
+ * Minutes from one show's curtain to another's, across zones. Null when either
+ * time isn't known: a gap to a TBC show can't be measured, and guessing one
+ * would pass or fail a rest check on a week that doesn't exist.
+ */
+export function minutesBetweenShows(
+  from: { date: string; time: string; timeZone?: string },
+  to: { date: string; time: string; timeZone?: string },
+): number | null {
+  const a = parseShowDateTime(from.date, from.time, from.timeZone);
+  const b = parseShowDateTime(to.date, to.time, to.timeZone);
+  return a && b ? Math.round((b.getTime() - a.getTime()) / 60_000) : null;
+}
+
+// A show's running time isn't recorded; this covers the show and curtain call.
+export const SHOW_MINUTES = 120;
+
+/**
+ * Minutes off between two shows: from the first's curtain down (its curtain up
+ * plus `showMinutes`) to the second's call. Null when the first's time or the
+ * second's call isn't known, for the same reason as `minutesBetweenShows`.
+ */
+export function restMinutesBetween(
+  from: { date: string; time: string; timeZone?: string },
+  to: { date: string; callTime: string; timeZone?: string },
+  showMinutes = SHOW_MINUTES,
+): number | null {
+  const up = parseShowDateTime(from.date, from.time, from.timeZone);
+  const call = parseShowDateTime(to.date, to.callTime, to.timeZone);
+  return up && call ? Math.round((call.getTime() - up.getTime()) / 60_000) - showMinutes : null;
 }
@@ -1,36 +1,43 @@
 import { api, APIError } from "encore.dev/api";
-import { getAuthData } from "encore.dev/internal/codegen/auth";
-import type { AuthData } from "../auth/encore_auth";
-import { scheduleDB } from "./db";
+import { inTransaction, scheduleDB } from "./db";
+import { requireCompanyRole } from "./companies";
+import { recordRevision } from "./revisions";
+import { staleScheduleError } from "./update";
+import { publishSaved } from "./live";
 import { Assignment, Show } from "./types";
 
 export interface ToggleRedDayRequest {
   id: string; // scheduleId
   performer: string;
   date: string;
+  // The version the toggle was made against; see UpdateScheduleRequest.
+  version?: number;
 }
 
 export interface ToggleRedDayResponse {
   assignments: Assignment[];
+  version: number;
 }
 
 // Toggles the RED day status for a performer for an entire date.
 export const toggleRedDay = api<ToggleRedDayRequest, ToggleRedDayResponse>(
   { expose: true, method: "PUT", path: "/schedules/:id/toggle-red-day", auth: true },
   async (req) => {
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? 'system';
+    const companyId = await requireCompanyRole("manager");
 
-    // First, get the existing schedule (scoped to the authenticated user)
+    // First, get the existing schedule (scoped to the current company)
     const existingRow = await scheduleDB.queryRow`
-      SELECT id, assignments_data, shows_data, updated_at
+      SELECT id, location, week, assignments_data, shows_data, version, updated_at
       FROM schedules
-      WHERE id = ${req.id} AND user_id = ${userId}
+      WHERE id = ${req.id} AND company_id = ${companyId}
     `;
 
     if (!existingRow) {
       throw APIError.notFound("schedule not found");
     }
+    if (req.version !== undefined && req.version !== existingRow.version) {
+      throw await staleScheduleError(req.id, companyId);
+    }
 
     const assignments: Assignment[] = JSON.parse(existingRow.assignments_data);
     const shows: Show[] = JSON.parse(existingRow.shows_data);
@@ -84,13 +91,27 @@ export const toggleRedDay = api<ToggleRedDayRequest, ToggleRedDayResponse>(
 
     // Update the database
     const now = new Date();
-    await scheduleDB.exec`
-      UPDATE schedules
-      SET assignments_data = ${JSON.stringify(assignments)},
-          updated_at = ${now}
-      WHERE id = ${req.id} AND user_id = ${userId}
-    `;
+    const version: number = existingRow.version + 1;
+    const content = { location: existingRow.location, week: existingRow.week, shows, assignments };
+    const written = await inTransaction(async tx => {
+      const row = await tx.queryRow`
+        UPDATE schedules
+        SET assignments_data = ${JSON.stringify(assignments)},
+            version = ${version},
+            updated_at = ${now}
+        WHERE id = ${req.id} AND company_id = ${companyId} AND version = ${existingRow.version}
+        RETURNING id
+      `;
+      if (row) {
+        await recordRevision(tx, req.id, content, "red_day");
+      }
+      return row;
+    });
+    if (!written) {
+      throw await staleScheduleError(req.id, companyId);
+    }
+    await publishSaved(req.id, version, content);
 
-    return { assignments };
+    return { assignments, version };
   }
 );
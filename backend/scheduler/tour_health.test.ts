@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the report is under test; keep the database and auth runtime out.
+vi.mock('./db', () => ({ scheduleDB: {} }));
+vi.mock('./companies', () => ({}));
+vi.mock('./live', () => ({}));
+vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn, APIError: {} }));
+vi.mock('encore.dev/internal/codegen/auth', () => ({ getAuthData: () => null }));
+
+import { summarizeHealth } from './tour_health';
+import type { HealthWeek } from './tour_health';
+import { CAST_MEMBERS, DEFAULT_ROLE_CATALOGUE } from './types';
+import type { Assignment, Show } from './types';
+
+const show = (id: string, date: string, time = '19:30'): Show => ({ id, date, time, callTime: '18:00', status: 'show' });
+
+// Everyone in their first role but SEAN, who plays Potato, and JAMIE, who
+// plays Ringo; ADAM, JOE, CADE and SERENA are OFF.
+function cast(showId: string): Assignment[] {
+  const stage: Array<[string, string]> = [
+    ['Sarge', 'PHIL'], ['Potato', 'SEAN'], ['Mozzie', 'JOSE'], ['Ringo', 'JAMIE'],
+    ['Particle', 'CARY'], ['Bin', 'MOLLY'], ['Cornish', 'JASMINE'], ['Who', 'JOSH'],
+  ];
+  return [
+    ...stage.map(([role, performer]) => ({ showId, role, performer })),
+    ...['ADAM', 'JOE', 'CADE', 'SERENA'].map(performer => ({ showId, role: 'OFF', performer, isRedDay: false })),
+  ];
+}
+
+function week(scheduleId: string, shows: Show[], assignments: Assignment[], items: HealthWeek['items'] = []): HealthWeek {
+  return {
+    scheduleId,
+    week: '',
+    locationCity: 'London',
+    published: true,
+    shows,
+    assignments,
+    castMembers: CAST_MEMBERS,
+    roles: DEFAULT_ROLE_CATALOGUE.map(r => r.name),
+    maxShowsPerWeek: 8,
+    items,
+  };
+}
+
+// JOE's RED day is the week's first show.
+const joeRed = (a: Assignment, firstShow: string) =>
+  a.performer === 'JOE' && a.showId === firstShow ? { ...a, isRedDay: true } : a;
+
+const first = [show('a1', '2024-01-02'), show('a2', '2024-01-03', 'TBC'), show('a3', '2024-01-04')];
+const second = [show('b1', '2024-01-09'), show('b2', '2024-01-10'), show('b3', '2024-01-11')];
+const firstWeek = week(
+  'one',
+  first,
+  first.flatMap(s => cast(s.id)).filter(a => !(a.showId === 'a3' && a.role === 'Ringo')).map(a => joeRed(a, 'a1')),
+  [{ code: 'CASTING_INCOMPLETE', severity: 'error', message: 'Ringo is empty', showId: 'a3' }]
+);
+// PHIL sits the second week out; ADAM plays Sarge.
+const secondWeek = week(
+  'two',
+  second,
+  second.flatMap(s => cast(s.id))
+    .map(a => a.performer === 'PHIL' ? { ...a, performer: 'ADAM' } : a.performer === 'ADAM' ? { ...a, performer: 'PHIL' } : a)
+    .map(a => joeRed(a, 'b1'))
+);
+
+describe('summarizeHealth', () => {
+  it('counts each week\'s issues, empty cells and TBC times', () => {
+    const { weeks, totals } = summarizeHealth([firstWeek, secondWeek]);
+
+    expect(weeks[0]).toMatchObject({
+      scheduleId: 'one', startDate: '2024-01-02', endDate: '2024-01-04',
+      healthy: false, errors: 1, warnings: 0, issues: ['Ringo is empty'], unfilledCells: 1, tbcTimes: 1,
+    });
+    expect(weeks[0].showCounts.PHIL).toBe(3);
+    expect(weeks[1]).toMatchObject({ healthy: true, errors: 0, unfilledCells: 0, tbcTimes: 0 });
+    expect(totals).toEqual({ errors: 1, warnings: 0, unfilledCells: 1, tbcTimes: 1, problemWeeks: 1 });
+  });
+
+  it('reports who plays more than their share in more than one week', () => {
+    const { overworked } = summarizeHealth([firstWeek, secondWeek]);
+    const names = overworked.map(o => o.performer);
+
+    expect(names).toContain('SEAN');
+    expect(names).not.toContain('PHIL');
+    expect(names).not.toContain('ADAM');
+    expect(overworked.find(o => o.performer === 'SEAN')).toMatchObject({ showsPerWeek: [3, 3], weeksOver: 2 });
+  });
+
+  it('spreads RED days over weekdays and counts the weeks played without one', () => {
+    const { redDays, redWeekdays } = summarizeHealth([firstWeek, secondWeek]);
+
+    expect(redDays.find(r => r.performer === 'JOE')).toEqual({ performer: 'JOE', weekdays: [0, 0, 2, 0, 0, 0, 0], weeksWithout: 0 });
+    expect(redDays.find(r => r.performer === 'PHIL')?.weeksWithout).toBe(1);
+    expect(redWeekdays).toEqual([0, 0, 2, 0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,318 @@
+// Tour health.
+//
+// Checking a tour used to mean opening every week and reading its banner.
+// tourHealth validates every week of a tour segment, or every schedule in a
+// date range, the way the banner does, and sums it up: errors and warnings
+// per week, the cells still empty and the times still TBC, who keeps playing
+// more than their share week after week, and which weekdays the RED days fall
+// on. Nothing is saved.
+
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { canSeeDrafts, currentCompanyId } from "./companies";
+import { effectiveRedDates } from "./continuity";
+import { isKnownTime } from "./time";
+import { FEATURE_FLAGS } from "../config/features";
+import { Assignment, CastMember, Role, Show } from "./types";
+import type { ValidationItem } from "./algorithm";
+
+export interface TourHealthRequest {
+  // A tour segment's weeks, or with startDate and endDate alone every
+  // schedule of the company with a show in that range.
+  tourId?: string;
+  // YYYY-MM-DD, inclusive. With a tourId they narrow it to those weeks.
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface TourWeekHealth {
+  scheduleId: string;
+  startDate: string;
+  endDate: string;
+  locationCity: string;
+  week: string;
+  published: boolean;
+  // Nothing to look at: no errors, warnings, empty cells or TBC times.
+  healthy: boolean;
+  errors: number;
+  warnings: number;
+  // The week's errors, then its warnings, up to MAX_LISTED_ISSUES.
+  issues: string[];
+  // Roles with nobody in them, over all the week's shows; the banner leaves
+  // out shows nobody is cast in yet, this doesn't.
+  unfilledCells: number;
+  // Shows whose show or call time is still TBC.
+  tbcTimes: number;
+  // Stage shows per performer.
+  showCounts: Record<string, number>;
+  // Each performer's RED date this week.
+  redDays: Record<string, string>;
+}
+
+// A performer who keeps playing more than their share.
+export interface OverworkTrend {
+  performer: string;
+  // Their stage shows in each week of the report, in order.
+  showsPerWeek: number[];
+  // Weeks they played more than their share (the week's filled cells over its
+  // cast), or reached the weekly limit.
+  weeksOver: number;
+  // Shows above their share, summed over those weeks.
+  excess: number;
+}
+
+export interface RedDaySpread {
+  performer: string;
+  // RED days on each weekday, Sunday first.
+  weekdays: number[];
+  // Weeks they played without a RED day.
+  weeksWithout: number;
+}
+
+export interface TourHealthResponse {
+  // Chronological; weeks without shows are left out.
+  weeks: TourWeekHealth[];
+  totals: {
+    errors: number;
+    warnings: number;
+    unfilledCells: number;
+    tbcTimes: number;
+    // Weeks that aren't healthy.
+    problemWeeks: number;
+  };
+  // Over their share in OVERWORK_WEEKS weeks or more; most weeks first.
+  overworked: OverworkTrend[];
+  // Everyone who played or had a RED day, by name.
+  redDays: RedDaySpread[];
+  // All RED days on each weekday, Sunday first.
+  redWeekdays: number[];
+  error?: string;
+}
+
+// A week as the report takes it: the saved schedule, the cast and roles it is
+// worked against, and validateSchedule's items for it.
+export interface HealthWeek {
+  scheduleId: string;
+  week: string;
+  locationCity: string;
+  published: boolean;
+  shows: Show[];
+  assignments: Assignment[];
+  castMembers: CastMember[];
+  roles: Role[];
+  maxShowsPerWeek: number;
+  items: ValidationItem[];
+}
+
+export const MAX_LISTED_ISSUES = 3;
+// A year of weeks; each one is validated.
+export const MAX_HEALTH_WEEKS = 52;
+// Weeks over their share before a performer is reported.
+export const OVERWORK_WEEKS = 2;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T12:00:00Z`).getUTCDay();
+}
+
+function weekHealth(week: HealthWeek): TourWeekHealth {
+  const dates = week.shows.map(s => s.date).filter(Boolean).sort();
+  const active = week.shows.filter(s => s.status === "show");
+  const activeIds = new Set(active.map(s => s.id));
+  const stage = week.assignments.filter(a => a.role !== "OFF" && a.performer && activeIds.has(a.showId));
+
+  const showCounts: Record<string, number> = {};
+  for (const a of stage) showCounts[a.performer] = (showCounts[a.performer] ?? 0) + 1;
+
+  const filled = new Set(stage.map(a => `${a.showId}:${a.role}`));
+  const unfilledCells = active.reduce((sum, s) => sum + week.roles.filter(r => !filled.has(`${s.id}:${r}`)).length, 0);
+
+  const errors = week.items.filter(i => i.severity === "error");
+  const warnings = week.items.filter(i => i.severity === "warning");
+  const tbcTimes = active.filter(s => !isKnownTime(s.time) || !isKnownTime(s.callTime)).length;
+
+  return {
+    scheduleId: week.scheduleId,
+    startDate: dates[0] ?? '',
+    endDate: dates[dates.length - 1] ?? '',
+    locationCity: week.locationCity,
+    week: week.week,
+    published: week.published,
+    healthy: week.items.length === 0 && unfilledCells === 0 && tbcTimes === 0,
+    errors: errors.length,
+    warnings: warnings.length,
+    issues: [...errors, ...warnings].slice(0, MAX_LISTED_ISSUES).map(i => i.message),
+    unfilledCells,
+    tbcTimes,
+    showCounts,
+    redDays: Object.fromEntries(effectiveRedDates({
+      id: week.scheduleId,
+      week: week.week,
+      location: week.locationCity,
+      shows: week.shows,
+      assignments: week.assignments
+    }))
+  };
+}
+
+// The report for weeks already in order.
+export function summarizeHealth(weeks: HealthWeek[]): TourHealthResponse {
+  const report = weeks.map(weekHealth);
+  const performers = [...new Set(report.flatMap(w => [...Object.keys(w.showCounts), ...Object.keys(w.redDays)]))].sort();
+
+  const overworked: OverworkTrend[] = [];
+  for (const performer of performers) {
+    const showsPerWeek = report.map(w => w.showCounts[performer] ?? 0);
+    let weeksOver = 0;
+    let excess = 0;
+    for (const [i, week] of weeks.entries()) {
+      const cells = Object.values(report[i].showCounts).reduce((sum, n) => sum + n, 0);
+      const share = week.castMembers.length > 0 ? cells / week.castMembers.length : 0;
+      const shows = showsPerWeek[i];
+      if (shows > Math.ceil(share) || (shows > 0 && shows >= week.maxShowsPerWeek)) {
+        weeksOver++;
+        excess += Math.max(0, shows - share);
+      }
+    }
+    if (weeksOver >= OVERWORK_WEEKS) {
+      overworked.push({ performer, showsPerWeek, weeksOver, excess: Math.round(excess * 10) / 10 });
+    }
+  }
+  overworked.sort((a, b) => b.weeksOver - a.weeksOver || b.excess - a.excess);
+
+  const redWeekdays = [0, 0, 0, 0, 0, 0, 0];
+  const redDays: RedDaySpread[] = performers.map(performer => {
+    const weekdays = [0, 0, 0, 0, 0, 0, 0];
+    let weeksWithout = 0;
+    for (const week of report) {
+      const date = week.redDays[performer];
+      if (date) {
+        weekdays[weekdayOf(date)]++;
+        redWeekdays[weekdayOf(date)]++;
+      } else if (week.showCounts[performer]) {
+        weeksWithout++;
+      }
+    }
+    return { performer, weekdays, weeksWithout };
+  });
+
+  return {
+    weeks: report,
+    totals: {
+      errors: report.reduce((sum, w) => sum + w.errors, 0),
+      warnings: report.reduce((sum, w) => sum + w.warnings, 0),
+      unfilledCells: report.reduce((sum, w) => sum + w.unfilledCells, 0),
+      tbcTimes: report.reduce((sum, w) => sum + w.tbcTimes, 0),
+      problemWeeks: report.filter(w => !w.healthy).length
+    },
+    overworked,
+    redDays,
+    redWeekdays
+  };
+}
+
+// Validates every week of a tour segment, or every schedule in a date range,
+// and reports on them together. Viewers get the published weeks only.
+export const tourHealth = api<TourHealthRequest, TourHealthResponse>(
+  { expose: true, method: "GET", path: "/api/tours/health", auth: true },
+  async (req) => {
+    if (!FEATURE_FLAGS.MULTI_COUNTRY_TOURS) {
+      return { ...summarizeHealth([]), error: "Tours feature is not available" };
+    }
+
+    if (!req.tourId && !(req.startDate && req.endDate)) {
+      throw APIError.invalidArgument("give a tourId, or a startDate and an endDate");
+    }
+    for (const date of [req.startDate, req.endDate]) {
+      if (date !== undefined && !ISO_DATE.test(date)) {
+        throw APIError.invalidArgument("dates must be YYYY-MM-DD");
+      }
+    }
+    if (req.startDate && req.endDate && req.startDate > req.endDate) {
+      throw APIError.invalidArgument("startDate is after endDate");
+    }
+
+    const companyId = await currentCompanyId();
+    const drafts = await canSeeDrafts(companyId);
+
+    if (req.tourId) {
+      const tour = await scheduleDB.queryRow`
+        SELECT id FROM tours WHERE id = ${req.tourId} AND company_id = ${companyId}
+      `;
+      if (!tour) {
+        throw APIError.notFound("tour not found");
+      }
+    }
+
+    // A week is in the range when any of its shows is. shows_data may be a
+    // jsonb string holding JSON text (see migration 9), so it is unwrapped
+    // first. One row past the cap is enough to refuse the request.
+    const start = req.startDate ?? null;
+    const end = req.endDate ?? null;
+    const rows = await scheduleDB.queryAll`
+      SELECT id, location, location_city, week, shows_data, assignments_data, published
+      FROM schedules
+      WHERE company_id = ${companyId}
+        AND (${req.tourId ?? null}::text IS NULL OR tour_id = ${req.tourId ?? null})
+        AND (published OR ${drafts})
+        AND EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(
+            CASE jsonb_typeof(shows_data)
+              WHEN 'string' THEN (shows_data #>> '{}')::jsonb
+              ELSE shows_data
+            END
+          ) AS s
+          WHERE s->>'status' = 'show'
+            AND (${start}::text IS NULL OR s->>'date' >= ${start})
+            AND (${end}::text IS NULL OR s->>'date' <= ${end})
+        )
+      LIMIT ${MAX_HEALTH_WEEKS + 1}
+    `;
+    if (rows.length > MAX_HEALTH_WEEKS) {
+      throw APIError.invalidArgument(`that covers more than ${MAX_HEALTH_WEEKS} weeks; ask for fewer`);
+    }
+
+    const saved = rows
+      .map(row => {
+        const shows = JSON.parse(row.shows_data) as Show[];
+        return {
+          row,
+          shows,
+          assignments: JSON.parse(row.assignments_data) as Assignment[],
+          startDate: shows.map(s => s.date).filter(Boolean).sort()[0] ?? ''
+        };
+      })
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    // Each week is validated against what its banner uses: its own cast,
+    // rule profile, unavailability and the week before it.
+    const { loadComprehensiveContext } = await import("./validate_comprehensive");
+    const { DEFAULT_RULE_LIMITS, SchedulingAlgorithm } = await import("./algorithm");
+    const weeks: HealthWeek[] = [];
+    for (const w of saved) {
+      const context = await loadComprehensiveContext(companyId, w.shows, w.row.id);
+      const algorithm = new SchedulingAlgorithm(w.shows, context.castMembers, undefined, {
+        unavailability: context.unavailability,
+        carryOver: context.carryOver,
+        roles: context.roleCatalogue,
+        rules: context.rules
+      });
+      weeks.push({
+        scheduleId: w.row.id,
+        week: w.row.week ?? '',
+        locationCity: w.row.location_city || w.row.location,
+        published: w.row.published,
+        shows: w.shows,
+        assignments: w.assignments,
+        castMembers: context.castMembers,
+        roles: context.roles,
+        maxShowsPerWeek: context.rules?.limits.maxShowsPerWeek ?? DEFAULT_RULE_LIMITS.maxShowsPerWeek,
+        items: algorithm.validateSchedule(w.assignments, { ignoreUnstartedShows: true }).items
+      });
+    }
+
+    return summarizeHealth(weeks);
+  }
+);
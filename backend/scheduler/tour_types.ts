@@ -1,6 +1,6 @@
 // Re-export existing types from main types.ts
-export type { Show, Assignment, Role, DayStatus, CastMember } from "./types";
-export { CAST_MEMBERS, ROLES, FEMALE_ONLY_ROLES } from "./types";
+export type { Show, Assignment, Role, RoleDefinition, DayStatus, CastMember } from "./types";
+export { CAST_MEMBERS, DEFAULT_ROLE_CATALOGUE } from "./types";
 
 // Import Show type for use in interfaces
 import { Show } from "./types";
@@ -13,6 +13,9 @@ export interface Tour {
   startDate: string;
   endDate: string;
   castMemberIds: string[];
+  // The labour-rule profile the segment's weeks use instead of the company's
+  // (see rule_profiles.ts).
+  ruleProfileId?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -21,6 +24,8 @@ export interface TourWeek {
   startDate: string; // the week's Monday (YYYY-MM-DD)
   endDate: string;
   locationCity: string;
+  // The venue library entry the week is played at.
+  venueId?: string;
   // Optional free-text week label (default ""). Week numbers were dropped —
   // identity is venue + date range.
   week?: string;
@@ -35,6 +40,9 @@ export interface BulkCreateRequest {
   segmentName: string; // e.g., "France"
   castMemberIds: string[];
   weeks: TourWeek[];
+  // Adds the segment to an existing tour. By default the parent is the part
+  // of tourName before " - ".
+  parentTourName?: string;
 }
 
 export interface TourWithWeeks extends Tour {
@@ -76,6 +84,123 @@ export interface DeleteTourResponse {
   deletedWeeks?: number;
 }
 
+export interface DeleteTourWeekRequest {
+  tourId: string;
+  weekId: string;
+  // Pull the weeks after the removed one a week earlier, so the segment has
+  // no empty week in it.
+  closeGap?: boolean;
+}
+
 export interface DeleteTourWeekResponse {
   success: boolean;
-}
\ No newline at end of file
+  // Weeks whose show dates moved to close the gap.
+  movedWeeks?: number;
+}
+
+export interface GenerateTourRequest {
+  id: string;
+  // Regenerate every week from a blank grid. By default each week keeps what
+  // is already assigned and only the gaps are filled, exactly like
+  // existingAssignments on a single-week auto-generate.
+  replaceExisting?: boolean;
+  // Seeds the first week's run; each later week takes the next number, so the
+  // same seed regenerates the same tour. Omitted -> a fresh seed per week.
+  seed?: number;
+}
+
+export interface TourWeekGenerationResult {
+  scheduleId: string;
+  startDate: string;
+  endDate: string;
+  locationCity: string;
+  week: string;
+  success: boolean;
+  // Stage picks kept from the saved week (0 with replaceExisting).
+  keptAssignments: number;
+  errors?: string[];
+  warnings?: string[];
+  // The week's run in the generation log and the seed it used; unset for a
+  // week with no shows.
+  generationId?: string;
+  seed?: number;
+}
+
+export interface GenerateTourResponse {
+  // True only when every week generated.
+  success: boolean;
+  weeks: TourWeekGenerationResult[];
+  // Stage shows per performer across the whole tour afterwards.
+  showCounts: Record<string, number>;
+  errors?: string[];
+}
+
+export interface UpdateTourCastRequest {
+  id: string;
+  // Company member ids, like BulkCreateRequest.castMemberIds.
+  castMemberIds: string[];
+  // Report the weeks the change would affect without saving it.
+  dryRun?: boolean;
+}
+
+// A week of the tour that casts someone the new cast list leaves out. Those
+// picks stay until the week is edited or regenerated, and fail validation.
+export interface TourCastImpact {
+  scheduleId: string;
+  startDate: string;
+  endDate: string;
+  locationCity: string;
+  week: string;
+  // Performers cast on stage this week who are not in the new cast list.
+  performers: string[];
+  // Their stage picks, across the week.
+  assignments: number;
+}
+
+export interface UpdateTourCastResponse {
+  castMemberIds: string[];
+  // False for a dry run.
+  saved: boolean;
+  affectedWeeks: TourCastImpact[];
+}
+
+export interface UpdateTourRequest {
+  id: string;
+  name?: string;
+  segmentName?: string;
+  // Moves the segment under another tour (or a new one).
+  parentTourName?: string;
+  // Moves the whole segment so its first week starts on this date. Every show
+  // moves by the same number of days, so the weeks keep their shape.
+  startDate?: string;
+  // The segment's own rule profile; "" goes back to the company's.
+  ruleProfileId?: string;
+}
+
+export interface TourEditResponse {
+  tour: TourWithWeeks;
+  // Weeks whose show dates moved.
+  movedWeeks: number;
+}
+
+export interface AddTourWeekRequest {
+  id: string;
+  // Shows resolved client-side from a template, as for createTourBulk.
+  week: TourWeek;
+  // Push the weeks starting on or after the new one a week later. Without it,
+  // a new week that overlaps another is refused.
+  shiftFollowing?: boolean;
+}
+
+export interface AddTourWeekResponse extends TourEditResponse {
+  weekId: string;
+  // Assignment problems; the week is saved either way.
+  errors?: string[];
+}
+
+export interface ReorderTourWeeksRequest {
+  id: string;
+  // Every dated week of the segment, in the new order. The segment keeps its
+  // dates: each week takes the start date of the week now at its position.
+  weekIds: string[];
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyMoves,
+  findOverlap,
+  insertionMoves,
+  removalMoves,
+  reorderMoves,
+  shiftShows,
+  weekSpan,
+  WeekSpan,
+} from './tour_weeks';
+import { Show } from './types';
+
+const weeks: WeekSpan[] = [
+  { id: 'london', startDate: '2026-08-03', endDate: '2026-08-09' },
+  { id: 'paris', startDate: '2026-08-10', endDate: '2026-08-16' },
+  { id: 'berlin', startDate: '2026-08-17', endDate: '2026-08-23' },
+  { id: 'empty', startDate: '', endDate: '' },
+];
+
+describe('shiftShows', () => {
+  const shows: Show[] = [
+    { id: 'mon', date: '2026-08-31', time: 'Travel', callTime: 'Travel', status: 'travel' },
+    { id: 'tue', date: '2026-09-01', time: '19:30', callTime: '18:30', status: 'show', location: 'Paris' },
+  ];
+
+  it('moves every date and keeps everything else', () => {
+    const moved = shiftShows(shows, 7);
+    expect(moved.map(s => s.date)).toEqual(['2026-09-07', '2026-09-08']);
+    expect(moved[1]).toMatchObject({ id: 'tue', time: '19:30', location: 'Paris' });
+    expect(weekSpan(moved)).toEqual({ startDate: '2026-09-07', endDate: '2026-09-08' });
+  });
+
+  it('leaves the shows alone for a zero move', () => {
+    expect(shiftShows(shows, 0)).toBe(shows);
+  });
+});
+
+describe('insertionMoves', () => {
+  it('pushes the weeks on or after the new week back a week', () => {
+    const moves = insertionMoves(weeks, '2026-08-10');
+    expect([...moves]).toEqual([['paris', 7], ['berlin', 7]]);
+    const after = [...applyMoves(weeks, moves), { id: 'new', startDate: '2026-08-10', endDate: '2026-08-16' }];
+    expect(findOverlap(after)).toBeNull();
+  });
+
+  it('moves nothing when the week goes on the end', () => {
+    expect(insertionMoves(weeks, '2026-08-24').size).toBe(0);
+  });
+});
+
+describe('removalMoves', () => {
+  it('pulls the later weeks forward into the gap', () => {
+    expect([...removalMoves(weeks, weeks[0])]).toEqual([['paris', -7], ['berlin', -7]]);
+    expect(removalMoves(weeks, weeks[3]).size).toBe(0);
+  });
+});
+
+describe('reorderMoves', () => {
+  it('gives each week the date slot of its new position', () => {
+    const moves = reorderMoves(weeks, ['berlin', 'london', 'paris']);
+    expect(Object.fromEntries(moves)).toEqual({ berlin: -14, london: 7, paris: 7 });
+    const after = applyMoves(weeks, moves);
+    expect(after.find(w => w.id === 'berlin')).toMatchObject({ startDate: '2026-08-03', endDate: '2026-08-09' });
+    expect(findOverlap(after)).toBeNull();
+  });
+});
+
+describe('findOverlap', () => {
+  it('reports two weeks that share a date', () => {
+    const clash = [...weeks, { id: 'extra', startDate: '2026-08-16', endDate: '2026-08-18' }];
+    expect(findOverlap(clash)?.map(w => w.id)).toEqual(['paris', 'extra']);
+  });
+});
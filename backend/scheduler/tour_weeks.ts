@@ -0,0 +1,85 @@
+// Date planning for tour edits that move weeks about. A tour week has no dates
+// of its own: its span is the span of its shows (see getTours), so moving a
+// week means moving every show date by the same number of days. The helpers
+// here work out how far each week moves; tours.ts saves the moved shows.
+
+import { addDays, dayDiff } from "./date_rules";
+import type { Show } from "./types";
+
+export interface WeekSpan {
+  id: string;
+  // "" for a week with no shows yet; such a week never moves.
+  startDate: string;
+  endDate: string;
+}
+
+// A week's first and last show dates ("" for both when it has none).
+export function weekSpan(shows: Show[]): { startDate: string; endDate: string } {
+  const dates = shows.map(s => s.date).filter(Boolean).sort();
+  return { startDate: dates[0] ?? "", endDate: dates[dates.length - 1] ?? "" };
+}
+
+// The same shows, `days` calendar days later. Ids, times and statuses stay, so
+// the week's assignments and RED days move with their shows.
+export function shiftShows(shows: Show[], days: number): Show[] {
+  if (days === 0) return shows;
+  return shows.map(s => (s.date ? { ...s, date: addDays(s.date, days) } : s));
+}
+
+// Dated weeks in start-date order.
+function dated<T extends WeekSpan>(weeks: T[]): T[] {
+  return weeks.filter(w => w.startDate).sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+// Making room for a new week starting on `startDate`: every week starting on
+// or after it moves `days` later. Returns week id → days moved.
+export function insertionMoves(weeks: WeekSpan[], startDate: string, days = 7): Map<string, number> {
+  return new Map(dated(weeks).filter(w => w.startDate >= startDate).map(w => [w.id, days]));
+}
+
+// Closing the gap a removed week leaves: every week after it moves `days`
+// earlier. Returns week id → days moved.
+export function removalMoves(weeks: WeekSpan[], removed: WeekSpan, days = 7): Map<string, number> {
+  if (!removed.startDate) return new Map();
+  return new Map(
+    dated(weeks)
+      .filter(w => w.id !== removed.id && w.startDate > removed.startDate)
+      .map(w => [w.id, -days])
+  );
+}
+
+// Putting the weeks in a new order while the tour keeps its dates: the week
+// at position i of `order` takes the start date the i-th week has now.
+// `order` must name every dated week exactly once. Returns week id → days
+// moved, for the weeks that move.
+export function reorderMoves(weeks: WeekSpan[], order: string[]): Map<string, number> {
+  const slots = dated(weeks).map(w => w.startDate);
+  const byId = new Map(weeks.map(w => [w.id, w]));
+  const moves = new Map<string, number>();
+  order.forEach((id, i) => {
+    const week = byId.get(id);
+    if (!week?.startDate || slots[i] === undefined) return;
+    const days = dayDiff(week.startDate, slots[i]);
+    if (days !== 0) moves.set(id, days);
+  });
+  return moves;
+}
+
+// The weeks after applying `moves`.
+export function applyMoves<T extends WeekSpan>(weeks: T[], moves: Map<string, number>): T[] {
+  return weeks.map(w => {
+    const days = moves.get(w.id);
+    return days && w.startDate
+      ? { ...w, startDate: addDays(w.startDate, days), endDate: addDays(w.endDate, days) }
+      : w;
+  });
+}
+
+// The first two weeks whose show dates overlap, or null.
+export function findOverlap<T extends WeekSpan>(weeks: T[]): [T, T] | null {
+  const sorted = dated(weeks);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startDate <= sorted[i - 1].endDate) return [sorted[i - 1], sorted[i]];
+  }
+  return null;
+}
@@ -1,5 +1,16 @@
 import { describe, it, expect, afterEach } from 'vitest';
-import { createTourBulk, getTours, deleteTour } from './tours';
+import {
+  createTourBulk,
+  getTours,
+  deleteTour,
+  deleteTourWeek,
+  generateTour,
+  updateTourCast,
+  updateTour,
+  addTourWeek,
+  reorderTourWeeks,
+} from './tours';
+import { get } from './get';
 import { CAST_MEMBERS, Show } from './types';
 
 function addDays(iso: string, n: number): string {
@@ -85,3 +96,225 @@ describe('Tour bulk-create from explicit shows', () => {
     expect(tour!.weeks[0].week).toBe('');
   });
 });
+
+describe('Whole-tour generation', () => {
+  const createdTourIds: string[] = [];
+
+  afterEach(async () => {
+    for (const id of createdTourIds) {
+      try { await deleteTour({ id }); } catch { /* already gone */ }
+    }
+    createdTourIds.length = 0;
+  });
+
+  it('generates every week in order and keeps picks already on a week', async () => {
+    const mons = ['2026-09-07', '2026-09-14', '2026-09-21'];
+    const res = await createTourBulk({
+      tourName: 'Generate All Tour',
+      segmentName: 'Seg',
+      castMemberIds: CAST_MEMBERS.map((m) => m.name),
+      weeks: mons.map((mon) => ({
+        startDate: mon,
+        endDate: addDays(mon, 6),
+        locationCity: `City ${mon}`,
+        shows: standardMonTravelWeek(mon),
+      })),
+    });
+    createdTourIds.push(res.tour!.id);
+
+    const result = await generateTour({ id: res.tour!.id });
+    expect(result.weeks.map((w) => w.startDate)).toEqual(mons.map((m) => addDays(m, 0)));
+    expect(result.success).toBe(true);
+    // 3 weeks x 8 shows x 8 roles, spread over the company.
+    expect(Object.values(result.showCounts).reduce((n, c) => n + c, 0)).toBe(3 * 8 * 8);
+
+    // A second run keeps every saved pick: nothing to fill, nothing moved.
+    const firstWeekId = result.weeks[0].scheduleId;
+    const before = (await get({ id: firstWeekId })).schedule.assignments;
+    const again = await generateTour({ id: res.tour!.id });
+    expect(again.weeks[0].keptAssignments).toBe(64);
+    const after = (await get({ id: firstWeekId })).schedule.assignments;
+    expect(after.filter((a) => a.role !== 'OFF')).toEqual(expect.arrayContaining(before.filter((a) => a.role !== 'OFF')));
+  });
+
+  it('rejects a tour the caller does not own', async () => {
+    await expect(generateTour({ id: 'no-such-tour' })).rejects.toMatchObject({ code: 'not_found' });
+  });
+});
+
+describe('Tour cast lists', () => {
+  const createdTourIds: string[] = [];
+
+  afterEach(async () => {
+    for (const id of createdTourIds) {
+      try { await deleteTour({ id }); } catch { /* already gone */ }
+    }
+    createdTourIds.length = 0;
+  });
+
+  async function generatedTour(name: string, mons: string[]) {
+    const res = await createTourBulk({
+      tourName: name,
+      segmentName: 'Seg',
+      castMemberIds: CAST_MEMBERS.map((m) => m.name),
+      weeks: mons.map((mon) => ({
+        startDate: mon,
+        endDate: addDays(mon, 6),
+        locationCity: `City ${mon}`,
+        shows: standardMonTravelWeek(mon),
+      })),
+    });
+    createdTourIds.push(res.tour!.id);
+    await generateTour({ id: res.tour!.id });
+    return res.tour!.id;
+  }
+
+  it('reports the weeks a cast change affects without saving on a dry run', async () => {
+    const id = await generatedTour('Cast Preview Tour', ['2026-10-05', '2026-10-12']);
+    const without = CAST_MEMBERS.map((m) => m.name).filter((n) => n !== 'JOE');
+
+    const preview = await updateTourCast({ id, castMemberIds: without, dryRun: true });
+    expect(preview.saved).toBe(false);
+    expect(preview.affectedWeeks.length).toBeGreaterThan(0);
+    expect(preview.affectedWeeks.every((w) => w.performers.join() === 'JOE')).toBe(true);
+
+    const unchanged = (await getTours({})).tours.find((t) => t.id === id)!;
+    expect(unchanged.castMemberIds).toHaveLength(CAST_MEMBERS.length);
+
+    const saved = await updateTourCast({ id, castMemberIds: without });
+    expect(saved.saved).toBe(true);
+    expect((await getTours({})).tours.find((t) => t.id === id)!.castMemberIds).toEqual(without);
+  });
+
+  it('generates a tour from its own cast list only, recasting anyone dropped from it', async () => {
+    const id = await generatedTour('Cast Subset Tour', ['2026-10-19']);
+    await updateTourCast({ id, castMemberIds: CAST_MEMBERS.map((m) => m.name).filter((n) => n !== 'JOE') });
+
+    // Keeps the saved week's other picks and fills JOE's from the new cast.
+    const result = await generateTour({ id });
+    expect(result.success).toBe(true);
+    const week = (await get({ id: result.weeks[0].scheduleId })).schedule;
+    expect(week.assignments.some((a) => a.performer === 'JOE')).toBe(false);
+    expect(result.showCounts.JOE ?? 0).toBe(0);
+  });
+
+  it('rejects someone who is not in the company', async () => {
+    const id = await generatedTour('Cast Guest Tour', ['2026-10-26']);
+    await expect(updateTourCast({ id, castMemberIds: ['NOBODY'] })).rejects.toMatchObject({ code: 'invalid_argument' });
+  });
+});
+
+describe('Tour editing', () => {
+  const createdTourIds: string[] = [];
+
+  afterEach(async () => {
+    for (const id of createdTourIds) {
+      try { await deleteTour({ id }); } catch { /* already gone */ }
+    }
+    createdTourIds.length = 0;
+  });
+
+  async function tourOf(name: string, cities: Record<string, string>) {
+    const res = await createTourBulk({
+      tourName: name,
+      segmentName: 'Seg',
+      castMemberIds: CAST_MEMBERS.map((m) => m.name),
+      weeks: Object.entries(cities).map(([mon, city]) => ({
+        startDate: mon,
+        endDate: addDays(mon, 6),
+        locationCity: city,
+        shows: standardMonTravelWeek(mon),
+      })),
+    });
+    createdTourIds.push(res.tour!.id);
+    return res.tour!;
+  }
+
+  it('renames a segment, moves it under another tour and re-dates every show', async () => {
+    const tour = await tourOf('Edit Rename Tour - Seg', { '2026-11-02': 'London', '2026-11-09': 'Paris' });
+    const before = (await get({ id: tour.weeks[0].id })).schedule;
+
+    const res = await updateTour({
+      id: tour.id,
+      name: 'Winter Tour - Nordics',
+      segmentName: 'Nordics',
+      parentTourName: 'Winter Tour',
+      startDate: '2026-11-16',
+    });
+    expect(res.movedWeeks).toBe(2);
+    expect(res.tour).toMatchObject({
+      name: 'Winter Tour - Nordics',
+      segmentName: 'Nordics',
+      parentTourName: 'Winter Tour',
+      startDate: '2026-11-16',
+      endDate: '2026-11-29',
+    });
+    expect(res.tour.weeks.map((w) => [w.locationCity, w.startDate])).toEqual([
+      ['London', '2026-11-16'],
+      ['Paris', '2026-11-23'],
+    ]);
+
+    // Same shows a fortnight later, with their picks; a new version and revision.
+    const after = (await get({ id: tour.weeks[0].id })).schedule;
+    expect(after.shows.map((s) => s.date)).toEqual(before.shows.map((s) => addDays(s.date, 14)));
+    expect(after.assignments).toEqual(before.assignments);
+    expect(after.version).toBe(before.version + 1);
+  });
+
+  it('inserts a week and pushes the later weeks back', async () => {
+    const tour = await tourOf('Edit Insert Tour', { '2026-12-07': 'Berlin', '2026-12-14': 'Vienna' });
+
+    const res = await addTourWeek({
+      id: tour.id,
+      shiftFollowing: true,
+      week: {
+        startDate: '2026-12-14',
+        endDate: '2026-12-20',
+        locationCity: 'Prague',
+        shows: standardMonTravelWeek('2026-12-14'),
+      },
+    });
+    expect(res.movedWeeks).toBe(1);
+    expect(res.tour.weeks.map((w) => [w.locationCity, w.startDate])).toEqual([
+      ['Berlin', '2026-12-07'],
+      ['Prague', '2026-12-14'],
+      ['Vienna', '2026-12-21'],
+    ]);
+    expect(res.tour.endDate).toBe('2026-12-27');
+    expect((await get({ id: res.weekId })).schedule.assignments.length).toBeGreaterThan(0);
+  });
+
+  it('refuses a new week that lands on another without shiftFollowing', async () => {
+    const tour = await tourOf('Edit Clash Tour', { '2027-01-04': 'Madrid' });
+    await expect(addTourWeek({
+      id: tour.id,
+      week: { startDate: '2027-01-04', endDate: '2027-01-10', locationCity: 'Lisbon', shows: standardMonTravelWeek('2027-01-04') },
+    })).rejects.toMatchObject({ code: 'failed_precondition' });
+  });
+
+  it('reorders weeks into the same dates, and closes the gap a removed week leaves', async () => {
+    const tour = await tourOf('Edit Order Tour', {
+      '2027-02-01': 'Oslo',
+      '2027-02-08': 'Bergen',
+      '2027-02-15': 'Stockholm',
+    });
+    const [oslo, bergen, stockholm] = tour.weeks.sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    const reordered = await reorderTourWeeks({ id: tour.id, weekIds: [stockholm.id, oslo.id, bergen.id] });
+    expect(reordered.tour.weeks.map((w) => [w.locationCity, w.startDate])).toEqual([
+      ['Stockholm', '2027-02-01'],
+      ['Oslo', '2027-02-08'],
+      ['Bergen', '2027-02-15'],
+    ]);
+    await expect(reorderTourWeeks({ id: tour.id, weekIds: [oslo.id] })).rejects.toMatchObject({ code: 'invalid_argument' });
+
+    const removed = await deleteTourWeek({ tourId: tour.id, weekId: stockholm.id, closeGap: true });
+    expect(removed).toEqual({ success: true, movedWeeks: 2 });
+    const left = (await getTours({})).tours.find((t) => t.id === tour.id)!;
+    expect(left.weeks.map((w) => [w.locationCity, w.startDate])).toEqual([
+      ['Oslo', '2027-02-01'],
+      ['Bergen', '2027-02-08'],
+    ]);
+    expect([left.startDate, left.endDate]).toEqual(['2027-02-01', '2027-02-14']);
+  });
+});
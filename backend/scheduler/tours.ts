@@ -1,8 +1,25 @@
 import { api, APIError } from "encore.dev/api";
 import { getAuthData } from "encore.dev/internal/codegen/auth";
 import type { AuthData } from "../auth/encore_auth";
-import { scheduleDB } from "./db";
+import { inTransaction, scheduleDB } from "./db";
+import { canSeeDrafts, currentCompanyId, requireCompanyRole } from "./companies";
 import { autoGenerate } from "./auto_generate";
+import { ScheduleSnapshot, addWeekToBalance, buildCarryOver, loadCarryOver } from "./continuity";
+import { RevisionContent, recordRevision } from "./revisions";
+import { publishSaved } from "./live";
+import { requireVenue } from "./venues";
+import { unknownShowZone, withShowZones } from "./zones";
+import { dayDiff } from "./date_rules";
+import {
+  WeekSpan,
+  applyMoves,
+  findOverlap,
+  insertionMoves,
+  removalMoves,
+  reorderMoves,
+  shiftShows,
+  weekSpan
+} from "./tour_weeks";
 import { FEATURE_FLAGS } from "../config/features";
 import {
   Tour,
@@ -12,9 +29,24 @@ import {
   BulkCreateResponse,
   GetToursResponse,
   DeleteTourResponse,
+  DeleteTourWeekRequest,
   DeleteTourWeekResponse,
-  Show
+  GenerateTourRequest,
+  GenerateTourResponse,
+  TourWeekGenerationResult,
+  TourCastImpact,
+  UpdateTourCastRequest,
+  UpdateTourCastResponse,
+  UpdateTourRequest,
+  TourWeek,
+  TourEditResponse,
+  AddTourWeekRequest,
+  AddTourWeekResponse,
+  ReorderTourWeeksRequest,
+  Show,
+  Assignment
 } from "./tour_types";
+import type { TourBalance, WeekCarryOver } from "./types";
 
 // Creates a tour with bulk schedule generation
 export const createTourBulk = api<BulkCreateRequest, BulkCreateResponse>(
@@ -30,11 +62,12 @@ export const createTourBulk = api<BulkCreateRequest, BulkCreateResponse>(
 
     const tourId = generateId();
     const now = new Date();
-    // Tour week schedules must be owned by the creating user, or the
-    // user-scoped get()/list() endpoints can't open them (they filter on
-    // user_id). Mirrors create.ts.
+    // Tour week schedules belong to the caller's current company, or the
+    // company-scoped get()/list() endpoints can't open them; user_id records
+    // who created them. Mirrors create.ts.
     const authData = await getAuthData<AuthData>();
     const userId = authData?.userID ?? 'system';
+    const companyId = await requireCompanyRole("manager");
 
     try {
       // Validate request
@@ -60,17 +93,20 @@ export const createTourBulk = api<BulkCreateRequest, BulkCreateResponse>(
       const startDate = req.weeks.reduce((min, w) => (w.startDate < min ? w.startDate : min), req.weeks[0].startDate);
       const endDate = req.weeks.reduce((max, w) => (w.endDate > max ? w.endDate : max), req.weeks[0].endDate);
 
-      // Extract parent tour name (everything before " - ")
-      const parentTourName = req.tourName.includes(" - ")
-        ? req.tourName.split(" - ")[0]
-        : req.tourName;
+      // Extract parent tour name (everything before " - "), unless the segment
+      // is being added to a tour that already exists
+      const parentTourName = req.parentTourName?.trim()
+        ? req.parentTourName.trim()
+        : req.tourName.includes(" - ")
+          ? req.tourName.split(" - ")[0]
+          : req.tourName;
 
       console.log(`Creating tour ${tourId} with name: ${req.tourName}`);
 
       // Create tour record with new structure
       await scheduleDB.exec`
-        INSERT INTO tours (id, name, segment_name, parent_tour_name, start_date, end_date, cast_member_ids, user_id, created_at, updated_at)
-        VALUES (${tourId}, ${req.tourName}, ${req.segmentName}, ${parentTourName}, ${startDate}, ${endDate}, ${JSON.stringify(req.castMemberIds)}, ${userId}, ${now}, ${now})
+        INSERT INTO tours (id, name, segment_name, parent_tour_name, start_date, end_date, cast_member_ids, user_id, company_id, created_at, updated_at)
+        VALUES (${tourId}, ${req.tourName}, ${req.segmentName}, ${parentTourName}, ${startDate}, ${endDate}, ${JSON.stringify(req.castMemberIds)}, ${userId}, ${companyId}, ${now}, ${now})
       `;
 
       console.log(`Tour ${tourId} created successfully with parent: ${parentTourName}`);
@@ -88,61 +124,13 @@ export const createTourBulk = api<BulkCreateRequest, BulkCreateResponse>(
 
       // Generate schedules for each week
       for (const tourWeek of req.weeks) {
-        // A week is identified by its venue + date range, so label failures by
-        // city rather than an arbitrary week number.
-        const weekTag = `${tourWeek.locationCity} (${tourWeek.startDate})`;
         try {
-          // Shows are resolved client-side from the chosen template; the backend
-          // persists them like a normal create and does no offset math.
-          const shows: Show[] = tourWeek.shows ?? [];
-          const weekLabel = tourWeek.week ?? "";
-
-          console.log(`Creating week for tour ${tourId} in ${tourWeek.locationCity}`);
-
-          // Create schedule entry with location_city
-          const scheduleId = generateId();
-
-          await scheduleDB.exec`
-            INSERT INTO schedules (id, location, location_city, week, shows_data, assignments_data, tour_id, tour_segment, user_id, created_at, updated_at)
-            VALUES (${scheduleId}, ${tourWeek.locationCity}, ${tourWeek.locationCity}, ${weekLabel}, ${JSON.stringify(shows)}, ${JSON.stringify([])}, ${tourId}, ${req.segmentName}, ${userId}, ${now}, ${now})
-          `;
-
-          console.log(`Week schedule ${scheduleId} created for ${weekTag}`);
-
-          // Track created week data
-          createdWeekData.push({
-            id: scheduleId,
-            startDate: tourWeek.startDate,
-            endDate: tourWeek.endDate,
-            showCount: shows.filter((s) => s.status === "show").length,
-            locationCity: tourWeek.locationCity,
-            week: weekLabel
-          });
-
-          // Auto-generate assignments for this week
-          try {
-            const autoGenResult = await autoGenerate({
-              shows: shows
-            });
-
-            if (autoGenResult.success && autoGenResult.assignments.length > 0) {
-              // Update schedule with generated assignments
-              await scheduleDB.exec`
-                UPDATE schedules
-                SET assignments_data = ${JSON.stringify(autoGenResult.assignments)}, updated_at = ${now}
-                WHERE id = ${scheduleId}
-              `;
-              console.log(`Auto-generated assignments for ${weekTag}`);
-            } else if (autoGenResult.errors) {
-              errors.push(`${weekTag}: ${autoGenResult.errors.join(", ")}`);
-            }
-          } catch (autoGenError) {
-            console.error(`Auto-generation failed for ${weekTag}:`, autoGenError);
-            errors.push(`${weekTag}: Failed to generate assignments - ${autoGenError}`);
-          }
-
+          createdWeekData.push(await createTourWeek(tourId, req.segmentName, tourWeek, userId, companyId, now, errors));
           createdWeeks++;
         } catch (weekError) {
+          // A week is identified by its venue + date range, so label failures by
+          // city rather than an arbitrary week number.
+          const weekTag = `${tourWeek.locationCity} (${tourWeek.startDate})`;
           console.error(`Failed to create week ${weekTag}:`, weekError);
           errors.push(`${weekTag}: Failed to create schedule - ${weekError}`);
         }
@@ -187,6 +175,84 @@ export const createTourBulk = api<BulkCreateRequest, BulkCreateResponse>(
   }
 );
 
+// Saves one week of a tour segment and fills it from the segment's cast.
+// Generation problems are added to `errors`; the week is kept either way.
+async function createTourWeek(
+  tourId: string,
+  segmentName: string,
+  tourWeek: TourWeek,
+  userId: string,
+  companyId: string,
+  now: Date,
+  errors: string[]
+): Promise<TourWithWeeks["weeks"][number]> {
+  const weekTag = `${tourWeek.locationCity} (${tourWeek.startDate})`;
+  // Shows are resolved client-side from the chosen template; the backend
+  // persists them like a normal create and does no offset math.
+  const weekLabel = tourWeek.week ?? "";
+  const venueId = tourWeek.venueId || null;
+  const venue = venueId ? await requireVenue(companyId, venueId) : undefined;
+  const badZone = unknownShowZone(tourWeek.shows ?? []);
+  if (badZone) {
+    throw APIError.invalidArgument(`${badZone} is not a time zone`);
+  }
+  const shows: Show[] = withShowZones(tourWeek.shows ?? [], tourWeek.locationCity, venue?.timeZone);
+
+  console.log(`Creating week for tour ${tourId} in ${tourWeek.locationCity}`);
+
+  // Create schedule entry with location_city
+  const scheduleId = generateId();
+
+  await inTransaction(async tx => {
+    await tx.exec`
+      INSERT INTO schedules (id, location, location_city, venue_id, week, shows_data, assignments_data, tour_id, tour_segment, user_id, company_id, created_at, updated_at)
+      VALUES (${scheduleId}, ${tourWeek.locationCity}, ${tourWeek.locationCity}, ${venueId}, ${weekLabel}, ${JSON.stringify(shows)}, ${JSON.stringify([])}, ${tourId}, ${segmentName}, ${userId}, ${companyId}, ${now}, ${now})
+    `;
+    await recordRevision(tx, scheduleId, { location: tourWeek.locationCity, week: weekLabel, shows, assignments: [] }, "create");
+  });
+
+  console.log(`Week schedule ${scheduleId} created for ${weekTag}`);
+
+  // Auto-generate assignments for this week, from the segment's cast
+  // (autoGenerate finds the tour through the saved week)
+  try {
+    const autoGenResult = await autoGenerate({
+      shows: shows,
+      scheduleId
+    });
+
+    if (autoGenResult.success && autoGenResult.assignments.length > 0) {
+      // Saved over the week as created (version 1), unless someone has
+      // already saved it meanwhile.
+      const saved = await saveGeneratedWeek(scheduleId, companyId, 1, {
+        location: tourWeek.locationCity,
+        week: weekLabel,
+        shows,
+        assignments: autoGenResult.assignments
+      });
+      if (saved) {
+        console.log(`Auto-generated assignments for ${weekTag}`);
+      } else {
+        errors.push(`${weekTag}: ${EDITED_DURING_GENERATION}`);
+      }
+    } else if (autoGenResult.errors) {
+      errors.push(`${weekTag}: ${autoGenResult.errors.join(", ")}`);
+    }
+  } catch (autoGenError) {
+    console.error(`Auto-generation failed for ${weekTag}:`, autoGenError);
+    errors.push(`${weekTag}: Failed to generate assignments - ${autoGenError}`);
+  }
+
+  return {
+    id: scheduleId,
+    startDate: tourWeek.startDate,
+    endDate: tourWeek.endDate,
+    showCount: shows.filter((s) => s.status === "show").length,
+    locationCity: tourWeek.locationCity,
+    week: weekLabel
+  };
+}
+
 // Gets all tours with their weeks, optionally grouped by parent tour
 export const getTours = api<{ grouped?: boolean }, GetToursResponse>(
   { expose: true, method: "GET", path: "/api/tours", auth: true },
@@ -200,8 +266,9 @@ export const getTours = api<{ grouped?: boolean }, GetToursResponse>(
     }
 
     console.log("getTours called with params:", req);
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? 'system';
+    const companyId = await currentCompanyId();
+    // Viewers see a tour's published weeks only.
+    const drafts = await canSeeDrafts(companyId);
     try {
       // Only the caller's own tours (mirrors the user scoping on list.ts/get.ts)
       const rows = await scheduleDB.query`
@@ -213,10 +280,11 @@ export const getTours = api<{ grouped?: boolean }, GetToursResponse>(
           start_date,
           end_date,
           cast_member_ids,
+          rule_profile_id,
           created_at,
           updated_at
         FROM tours
-        WHERE user_id = ${userId}
+        WHERE company_id = ${companyId}
         ORDER BY created_at DESC
       `;
 
@@ -255,7 +323,7 @@ export const getTours = api<{ grouped?: boolean }, GetToursResponse>(
         const weekRows = await scheduleDB.query`
           SELECT id, location_city, week, shows_data
           FROM schedules
-          WHERE tour_id = ${row.id} AND user_id = ${userId}
+          WHERE tour_id = ${row.id} AND company_id = ${companyId} AND (published OR ${drafts})
         `;
 
         // Convert weekRows AsyncGenerator to array
@@ -317,6 +385,7 @@ export const getTours = api<{ grouped?: boolean }, GetToursResponse>(
           startDate: row.start_date,
           endDate: row.end_date,
           castMemberIds: castMemberIds,
+          ruleProfileId: row.rule_profile_id ?? undefined,
           createdAt: row.created_at,
           updatedAt: row.updated_at,
           weeks: weeks
@@ -371,11 +440,10 @@ export const deleteTour = api<{ id: string }, DeleteTourResponse>(
       };
     }
 
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? 'system';
+    const companyId = await requireCompanyRole("manager");
 
     const existingTour = await scheduleDB.queryRow`
-      SELECT id FROM tours WHERE id = ${req.id} AND user_id = ${userId}
+      SELECT id FROM tours WHERE id = ${req.id} AND company_id = ${companyId}
     `;
     if (!existingTour) {
       throw APIError.notFound("tour not found");
@@ -384,7 +452,7 @@ export const deleteTour = api<{ id: string }, DeleteTourResponse>(
     try {
       // Count schedules that will be deleted
       const countResult = await scheduleDB.query`
-        SELECT COUNT(*) as count FROM schedules WHERE tour_id = ${req.id} AND user_id = ${userId}
+        SELECT COUNT(*) as count FROM schedules WHERE tour_id = ${req.id} AND company_id = ${companyId}
       `;
 
       // Convert AsyncGenerator to array
@@ -399,9 +467,9 @@ export const deleteTour = api<{ id: string }, DeleteTourResponse>(
       const deletedWeeks = countArray[0]?.count || 0;
 
       // Delete tour (cascades to schedules due to foreign key), only if the
-      // caller owns it — mirrors the user scoping on delete.ts.
+      // caller's company owns it — mirrors the company scoping on delete.ts.
       const result = await scheduleDB.exec`
-        DELETE FROM tours WHERE id = ${req.id} AND user_id = ${userId}
+        DELETE FROM tours WHERE id = ${req.id} AND company_id = ${companyId}
       `;
 
       return {
@@ -416,8 +484,9 @@ export const deleteTour = api<{ id: string }, DeleteTourResponse>(
   }
 );
 
-// Deletes a specific week from a tour
-export const deleteTourWeek = api<{ tourId: string; weekId: string }, DeleteTourWeekResponse>(
+// Deletes a specific week from a tour, optionally moving the later weeks up
+// to close the gap
+export const deleteTourWeek = api<DeleteTourWeekRequest, DeleteTourWeekResponse>(
   { expose: true, method: "DELETE", path: "/api/tours/:tourId/weeks/:weekId", auth: true },
   async (req) => {
     // Feature flag check
@@ -427,26 +496,572 @@ export const deleteTourWeek = api<{ tourId: string; weekId: string }, DeleteTour
       };
     }
 
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? 'system';
+    const companyId = await requireCompanyRole("manager");
 
     const existingWeek = await scheduleDB.queryRow`
-      SELECT id FROM schedules WHERE id = ${req.weekId} AND tour_id = ${req.tourId} AND user_id = ${userId}
+      SELECT id FROM schedules WHERE id = ${req.weekId} AND tour_id = ${req.tourId} AND company_id = ${companyId}
     `;
     if (!existingWeek) {
       throw APIError.notFound("tour week not found");
     }
 
+    const weeks = req.closeGap ? await loadTourWeeks(req.tourId, companyId) : [];
+
+    await scheduleDB.exec`
+      DELETE FROM schedules
+      WHERE id = ${req.weekId} AND tour_id = ${req.tourId} AND company_id = ${companyId}
+    `;
+
+    // The week is gone whatever happens next: a move that fails (a week
+    // edited meanwhile, see moveWeek) is reported as the error it is, and the
+    // weeks already moved stay moved.
+    let movedWeeks = 0;
     try {
+      if (req.closeGap) {
+        const removed = weeks.find(w => w.id === req.weekId);
+        const rest = weeks.filter(w => w.id !== req.weekId);
+        movedWeeks = removed ? await moveWeeks(removalMoves(rest, removed), companyId) : 0;
+      }
+    } finally {
+      await refreshTourSpan(req.tourId, companyId);
+    }
+
+    return { success: true, movedWeeks };
+  }
+);
+
+// Auto-generates every week of a tour in chronological order. Each week sees
+// the one before it (runs and RED days carry over) and the tour's running
+// totals (show counts and RED weekdays are balanced across the whole tour).
+// A week that fails is left as it was and reported; the rest still run.
+export const generateTour = api<GenerateTourRequest, GenerateTourResponse>(
+  { expose: true, method: "POST", path: "/api/tours/:id/generate", auth: true },
+  async (req) => {
+    // Feature flag check
+    if (!FEATURE_FLAGS.MULTI_COUNTRY_TOURS) {
+      return {
+        success: false,
+        weeks: [],
+        showCounts: {},
+        errors: ["Tours feature is not available"]
+      };
+    }
+
+    const companyId = await requireCompanyRole("manager");
+
+    const tour = await scheduleDB.queryRow`
+      SELECT id, cast_member_ids FROM tours WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!tour) {
+      throw APIError.notFound("tour not found");
+    }
+
+    const rows = await scheduleDB.queryAll`
+      SELECT id, location, location_city, week, shows_data, assignments_data, version
+      FROM schedules
+      WHERE tour_id = ${req.id} AND company_id = ${companyId}
+    `;
+
+    // Chronological by first show date (YYYY-MM-DD, so a string compare is
+    // chronological); weeks with no shows sort last and are skipped below.
+    const weeks = rows
+      .map(row => {
+        const shows = JSON.parse(row.shows_data) as Show[];
+        const dates = shows.map(s => s.date).filter(Boolean).sort();
+        return {
+          row,
+          shows,
+          saved: JSON.parse(row.assignments_data) as Assignment[],
+          startDate: dates[0] ?? '',
+          endDate: dates[dates.length - 1] ?? ''
+        };
+      })
+      .sort((a, b) => (a.startDate || '9999').localeCompare(b.startDate || '9999'));
+
+    // Every week is cast from the segment's own cast list.
+    const { castMemberIdsOf, loadCastMembers } = await import("./cast_members");
+    const castData = await loadCastMembers(companyId, castMemberIdsOf(tour.cast_member_ids));
+    const castNames = new Set(castData.castMembers.map(m => m.name));
+    const { loadUnavailabilityForShows } = await import("./availability");
+    const { loadTourRules } = await import("./rule_profiles");
+    const rules = await loadTourRules(companyId, req.id);
+    const { checkedSeed, recordGeneration, runGeneration } = await import("./generations");
+    const seed = checkedSeed(req.seed);
+
+    const results: TourWeekGenerationResult[] = [];
+    let balance: TourBalance = { showCounts: {}, redWeekdays: {} };
+    let previous: ScheduleSnapshot | null = null;
+
+    for (const [index, week] of weeks.entries()) {
+      const result: TourWeekGenerationResult = {
+        scheduleId: week.row.id,
+        startDate: week.startDate,
+        endDate: week.endDate,
+        locationCity: week.row.location_city || week.row.location,
+        week: week.row.week ?? '',
+        success: false,
+        keptAssignments: 0
+      };
+      results.push(result);
+
+      if (!week.shows.some(s => s.status === "show")) {
+        result.success = true;
+        result.warnings = ["No shows to cast"];
+        continue;
+      }
+
+      // The first week looks outside the tour (an earlier segment of the same
+      // parent tour); later ones use the week just generated, in memory.
+      const carryOver: WeekCarryOver | undefined = previous
+        ? buildCarryOver(previous)
+        : await loadCarryOver(week.row.id, week.shows, companyId);
+
+      // Picks of anyone since dropped from the cast list are recast.
+      const existingAssignments = req.replaceExisting ? [] : week.saved.filter(a => castNames.has(a.performer));
+      result.keptAssignments = existingAssignments.filter(a => a.role !== "OFF" && a.performer).length;
+
+      let assignments = week.saved;
+      try {
+        const unavailability = await loadUnavailabilityForShows(week.shows, companyId);
+        const inputs = {
+          shows: week.shows,
+          existingAssignments,
+          castMembers: castData.castMembers,
+          roles: castData.roleCatalogue,
+          unavailability,
+          carryOver,
+          tourBalance: balance,
+          rules
+        };
+        const generated = await runGeneration(inputs, seed === undefined ? undefined : (seed + index) >>> 0);
+        result.generationId = await recordGeneration(companyId, { scheduleId: week.row.id, tourId: req.id }, inputs, generated);
+        result.seed = generated.seed;
+        result.success = generated.success;
+        result.errors = generated.errors;
+        result.warnings = generated.warnings;
+
+        if (generated.success) {
+          // Saved over the week as read above. A save that landed since wins:
+          // the week is reported and hands on what that save holds.
+          const saved = await saveGeneratedWeek(week.row.id, companyId, week.row.version, {
+            location: week.row.location,
+            week: week.row.week ?? '',
+            shows: week.shows,
+            assignments: generated.assignments
+          });
+          if (saved) {
+            assignments = generated.assignments;
+          } else {
+            result.success = false;
+            result.errors = [EDITED_DURING_GENERATION];
+            assignments = await currentAssignments(week.row.id, companyId) ?? week.saved;
+          }
+        }
+      } catch (error) {
+        console.error(`Tour generation failed for week ${week.row.id}:`, error);
+        result.success = false;
+        result.errors = [`Failed to generate assignments - ${error}`];
+      }
+
+      // A failed week still hands on whatever it holds, so the next week
+      // continues from the truth on disk.
+      previous = {
+        id: week.row.id,
+        week: week.row.week ?? '',
+        location: week.row.location,
+        shows: week.shows,
+        assignments
+      };
+      balance = addWeekToBalance(balance, previous);
+    }
+
+    const failed = results.filter(r => !r.success);
+    return {
+      success: failed.length === 0,
+      weeks: results,
+      showCounts: balance.showCounts,
+      errors: failed.length > 0
+        ? failed.map(r => `${r.locationCity} (${r.startDate}): ${(r.errors ?? ["generation failed"]).join(", ")}`)
+        : undefined
+    };
+  }
+);
+
+// The tour's weeks that cast someone outside `cast`, with who and how often.
+function castImpact(rows: Record<string, any>[], cast: Set<string>): TourCastImpact[] {
+  return rows
+    .map(row => {
+      const shows = JSON.parse(row.shows_data) as Show[];
+      const dates = shows.map(s => s.date).filter(Boolean).sort();
+      const outside = (JSON.parse(row.assignments_data) as Assignment[])
+        .filter(a => a.role !== "OFF" && a.performer && !cast.has(a.performer));
+      return {
+        scheduleId: row.id,
+        startDate: dates[0] ?? '',
+        endDate: dates[dates.length - 1] ?? '',
+        locationCity: row.location_city || row.location,
+        week: row.week ?? '',
+        performers: [...new Set(outside.map(a => a.performer))].sort(),
+        assignments: outside.length
+      };
+    })
+    .filter(w => w.assignments > 0)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+// Changes a tour segment's cast list, or with dryRun reports which of its
+// weeks cast someone the new list leaves out. Saved picks are never changed
+// here: those weeks fail validation until they're edited, and generating the
+// tour recasts them.
+export const updateTourCast = api<UpdateTourCastRequest, UpdateTourCastResponse>(
+  { expose: true, method: "PUT", path: "/api/tours/:id/cast", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager");
+
+    const tour = await scheduleDB.queryRow`
+      SELECT id FROM tours WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!tour) {
+      throw APIError.notFound("tour not found");
+    }
+
+    const castMemberIds = [...new Set(req.castMemberIds)];
+    if (castMemberIds.length === 0) {
+      throw APIError.invalidArgument("a tour needs at least one cast member");
+    }
+
+    // Every entry must be one of the company's members, archived ones included.
+    const { loadCompany } = await import("./company");
+    const company = await loadCompany(companyId);
+    const members = [...company.currentCompany, ...company.archive];
+    const unknown = castMemberIds.find(id => !members.some(m => m.id === id || m.name === id));
+    if (unknown !== undefined) {
+      throw APIError.invalidArgument(`${unknown} is not a member of this company`);
+    }
+
+    const { loadCastMembers } = await import("./cast_members");
+    const cast = await loadCastMembers(companyId, castMemberIds);
+
+    const rows = await scheduleDB.queryAll`
+      SELECT id, location, location_city, week, shows_data, assignments_data
+      FROM schedules
+      WHERE tour_id = ${req.id} AND company_id = ${companyId}
+    `;
+    const affectedWeeks = castImpact(rows, new Set(cast.castMembers.map(m => m.name)));
+
+    if (!req.dryRun) {
       await scheduleDB.exec`
-        DELETE FROM schedules
-        WHERE id = ${req.weekId} AND tour_id = ${req.tourId} AND user_id = ${userId}
+        UPDATE tours SET cast_member_ids = ${JSON.stringify(castMemberIds)}, updated_at = ${new Date()}
+        WHERE id = ${req.id} AND company_id = ${companyId}
       `;
+    }
 
-      return { success: true };
-    } catch (error) {
-      return { success: false };
+    return { castMemberIds, saved: !req.dryRun, affectedWeeks };
+  }
+);
+
+// A tour's weeks as getTours shows them, spanning their show dates.
+type TourWeekSpan = TourWithWeeks["weeks"][number] & WeekSpan;
+
+async function loadTourWeeks(tourId: string, companyId: string): Promise<TourWeekSpan[]> {
+  const rows = await scheduleDB.queryAll`
+    SELECT id, location, location_city, week, shows_data
+    FROM schedules
+    WHERE tour_id = ${tourId} AND company_id = ${companyId}
+  `;
+  return rows
+    .map(row => {
+      const shows = JSON.parse(row.shows_data) as Show[];
+      return {
+        id: row.id,
+        ...weekSpan(shows),
+        showCount: shows.filter(s => s.status === "show").length,
+        locationCity: row.location_city || row.location,
+        week: row.week ?? ''
+      };
+    })
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+async function loadTour(tourId: string, companyId: string): Promise<TourWithWeeks> {
+  const row = await scheduleDB.queryRow`
+    SELECT id, name, segment_name, parent_tour_name, start_date, end_date, cast_member_ids, rule_profile_id, created_at, updated_at
+    FROM tours WHERE id = ${tourId} AND company_id = ${companyId}
+  `;
+  if (!row) {
+    throw APIError.notFound("tour not found");
+  }
+  const { castMemberIdsOf } = await import("./cast_members");
+  return {
+    id: row.id,
+    name: row.name,
+    segmentName: row.segment_name,
+    parentTourName: row.parent_tour_name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    castMemberIds: castMemberIdsOf(row.cast_member_ids),
+    ruleProfileId: row.rule_profile_id ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    weeks: (await loadTourWeeks(tourId, companyId)).map(({ id, startDate, endDate, showCount, locationCity, week }) =>
+      ({ id, startDate, endDate, showCount, locationCity, week }))
+  };
+}
+
+// Stores the tour's span again after its weeks have moved, been added or
+// been removed. A tour left with no dated weeks keeps the span it had.
+async function refreshTourSpan(tourId: string, companyId: string): Promise<void> {
+  const weeks = (await loadTourWeeks(tourId, companyId)).filter(w => w.startDate);
+  if (weeks.length === 0) return;
+  const startDate = weeks.reduce((min, w) => (w.startDate < min ? w.startDate : min), weeks[0].startDate);
+  const endDate = weeks.reduce((max, w) => (w.endDate > max ? w.endDate : max), weeks[0].endDate);
+  await scheduleDB.exec`
+    UPDATE tours SET start_date = ${startDate}, end_date = ${endDate}, updated_at = ${new Date()}
+    WHERE id = ${tourId} AND company_id = ${companyId}
+  `;
+}
+
+const EDITED_DURING_GENERATION = "the week was saved by someone else while it was being generated; generate it again";
+
+// Saves generated picks over a week as it stood at `version`, as a new
+// revision, and tells anyone editing it. Saves nothing and returns false when
+// the week has been saved since.
+async function saveGeneratedWeek(scheduleId: string, companyId: string, version: number, content: RevisionContent): Promise<boolean> {
+  const saved = await inTransaction(async tx => {
+    const written = await tx.queryRow<{ version: number }>`
+      UPDATE schedules
+      SET assignments_data = ${JSON.stringify(content.assignments)}, version = version + 1, updated_at = ${new Date()}
+      WHERE id = ${scheduleId} AND company_id = ${companyId} AND version = ${version}
+      RETURNING version
+    `;
+    if (written) {
+      await recordRevision(tx, scheduleId, content, "auto_generate");
+    }
+    return written;
+  });
+  if (!saved) return false;
+  await publishSaved(scheduleId, saved.version, content);
+  return true;
+}
+
+async function currentAssignments(scheduleId: string, companyId: string): Promise<Assignment[] | null> {
+  const row = await scheduleDB.queryRow`
+    SELECT assignments_data FROM schedules WHERE id = ${scheduleId} AND company_id = ${companyId}
+  `;
+  return row ? JSON.parse(row.assignments_data) as Assignment[] : null;
+}
+
+// Moves one week's show dates by `days`, as a new revision of the week, and
+// tells anyone editing it. The week is read afresh for the write, and an edit
+// saved in between is moved too rather than overwritten.
+async function moveWeek(scheduleId: string, days: number, companyId: string): Promise<boolean> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const row = await scheduleDB.queryRow`
+      SELECT location, week, shows_data, assignments_data, version
+      FROM schedules WHERE id = ${scheduleId} AND company_id = ${companyId}
+    `;
+    if (!row) return false;
+    const shows = shiftShows(JSON.parse(row.shows_data) as Show[], days);
+    const content = {
+      location: row.location,
+      week: row.week ?? '',
+      shows,
+      assignments: JSON.parse(row.assignments_data) as Assignment[]
+    };
+    const saved = await inTransaction(async tx => {
+      const written = await tx.queryRow<{ version: number }>`
+        UPDATE schedules
+        SET shows_data = ${JSON.stringify(shows)}, version = version + 1, updated_at = ${new Date()}
+        WHERE id = ${scheduleId} AND company_id = ${companyId} AND version = ${row.version}
+        RETURNING version
+      `;
+      if (written) {
+        await recordRevision(tx, scheduleId, content, "tour_edit");
+      }
+      return written;
+    });
+    if (!saved) continue;
+    await publishSaved(scheduleId, saved.version, content);
+    return true;
+  }
+  throw APIError.aborted("a tour week was changed by someone else while it was being moved");
+}
+
+// Applies week id → days moved; returns how many weeks moved.
+async function moveWeeks(moves: Map<string, number>, companyId: string): Promise<number> {
+  let moved = 0;
+  for (const [scheduleId, days] of moves) {
+    if (days !== 0 && await moveWeek(scheduleId, days, companyId)) moved++;
+  }
+  return moved;
+}
+
+function overlapError(weeks: TourWeekSpan[]): APIError | null {
+  const clash = findOverlap(weeks);
+  if (!clash) return null;
+  const [a, b] = clash;
+  return APIError.failedPrecondition(
+    `the ${a.locationCity} week (${a.startDate} to ${a.endDate}) would overlap the ${b.locationCity} week (${b.startDate} to ${b.endDate})`
+  ).withDetails({ weekIds: [a.id, b.id] });
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Renames a tour segment, moves it under another tour, moves all its weeks
+// to a new start date, or sets its rule profile. Moving keeps each show's day
+// within its week, so the segment's assignments and RED days go with it.
+export const updateTour = api<UpdateTourRequest, TourEditResponse>(
+  { expose: true, method: "PUT", path: "/api/tours/:id", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager");
+
+    const tour = await scheduleDB.queryRow`
+      SELECT id, name, segment_name, parent_tour_name, rule_profile_id FROM tours WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!tour) {
+      throw APIError.notFound("tour not found");
+    }
+
+    const name = req.name === undefined ? tour.name : req.name.trim();
+    const segmentName = req.segmentName === undefined ? tour.segment_name : req.segmentName.trim();
+    if (!name) {
+      throw APIError.invalidArgument("a tour needs a name");
+    }
+    if (!segmentName) {
+      throw APIError.invalidArgument("a tour segment needs a name");
+    }
+    // A segment under no other tour groups under its own name, as on create.
+    const parentTourName = req.parentTourName === undefined
+      ? tour.parent_tour_name
+      : req.parentTourName.trim() || name;
+    let ruleProfileId: string | null = tour.rule_profile_id;
+    if (req.ruleProfileId !== undefined) {
+      const { requireRuleProfile } = await import("./rule_profiles");
+      ruleProfileId = req.ruleProfileId ? (await requireRuleProfile(companyId, req.ruleProfileId)).id : null;
     }
+
+    let movedWeeks = 0;
+    if (req.startDate !== undefined) {
+      if (!ISO_DATE.test(req.startDate)) {
+        throw APIError.invalidArgument("startDate must be YYYY-MM-DD");
+      }
+      const weeks = (await loadTourWeeks(req.id, companyId)).filter(w => w.startDate);
+      if (weeks.length === 0) {
+        throw APIError.failedPrecondition("the tour has no shows to move");
+      }
+      const days = dayDiff(weeks[0].startDate, req.startDate);
+      movedWeeks = await moveWeeks(new Map(weeks.map(w => [w.id, days])), companyId);
+    }
+
+    await scheduleDB.exec`
+      UPDATE tours
+      SET name = ${name}, segment_name = ${segmentName}, parent_tour_name = ${parentTourName},
+          rule_profile_id = ${ruleProfileId}, updated_at = ${new Date()}
+      WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (segmentName !== tour.segment_name) {
+      await scheduleDB.exec`
+        UPDATE schedules SET tour_segment = ${segmentName} WHERE tour_id = ${req.id} AND company_id = ${companyId}
+      `;
+    }
+    await refreshTourSpan(req.id, companyId);
+
+    return { tour: await loadTour(req.id, companyId), movedWeeks };
+  }
+);
+
+// Adds a week to a tour segment from client-resolved shows, filled from the
+// segment's cast like a bulk-created week. With shiftFollowing the weeks from
+// its start date on move a week later to make room.
+export const addTourWeek = api<AddTourWeekRequest, AddTourWeekResponse>(
+  { expose: true, method: "POST", path: "/api/tours/:id/weeks", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager");
+    const authData = await getAuthData<AuthData>();
+
+    const tour = await scheduleDB.queryRow`
+      SELECT id, segment_name FROM tours WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!tour) {
+      throw APIError.notFound("tour not found");
+    }
+
+    const locationCity = req.week.locationCity?.trim();
+    if (!locationCity) {
+      throw APIError.invalidArgument("a tour week needs a city");
+    }
+    if (!ISO_DATE.test(req.week.startDate) || !ISO_DATE.test(req.week.endDate)) {
+      throw APIError.invalidArgument("a tour week needs a start and end date (YYYY-MM-DD)");
+    }
+
+    // The new week spans its shows; a blank week spans the dates it was given.
+    const shows = req.week.shows ?? [];
+    const span = shows.length ? weekSpan(shows) : { startDate: req.week.startDate, endDate: req.week.endDate };
+    const added: TourWeekSpan = { id: '', ...span, showCount: 0, locationCity, week: req.week.week ?? '' };
+
+    const weeks = await loadTourWeeks(req.id, companyId);
+    // Whole weeks, so the weeks that move keep their weekdays.
+    const days = 7 * Math.max(1, Math.ceil((dayDiff(span.startDate, span.endDate) + 1) / 7));
+    const moves = req.shiftFollowing ? insertionMoves(weeks, span.startDate, days) : new Map<string, number>();
+    const clash = overlapError([...applyMoves(weeks, moves), added]);
+    if (clash) {
+      throw clash;
+    }
+
+    const movedWeeks = await moveWeeks(moves, companyId);
+    const errors: string[] = [];
+    const week = await createTourWeek(
+      req.id,
+      tour.segment_name,
+      { ...req.week, locationCity, shows },
+      authData?.userID ?? 'system',
+      companyId,
+      new Date(),
+      errors
+    );
+    await refreshTourSpan(req.id, companyId);
+
+    return {
+      tour: await loadTour(req.id, companyId),
+      weekId: week.id,
+      movedWeeks,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  }
+);
+
+// Puts a segment's weeks in a new order. The segment keeps its dates: each
+// week's shows move to the dates of the week now in its place.
+export const reorderTourWeeks = api<ReorderTourWeeksRequest, TourEditResponse>(
+  { expose: true, method: "PUT", path: "/api/tours/:id/week-order", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager");
+
+    const tour = await scheduleDB.queryRow`
+      SELECT id FROM tours WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!tour) {
+      throw APIError.notFound("tour not found");
+    }
+
+    const weeks = await loadTourWeeks(req.id, companyId);
+    const dated = weeks.filter(w => w.startDate).map(w => w.id);
+    const order = [...new Set(req.weekIds)];
+    if (order.length !== dated.length || !order.every(id => dated.includes(id))) {
+      throw APIError.invalidArgument("weekIds must list every week of the tour that has shows, once each");
+    }
+
+    // Weeks of different lengths can collide in their new places.
+    const moves = reorderMoves(weeks, order);
+    const clash = overlapError(applyMoves(weeks, moves));
+    if (clash) {
+      throw clash;
+    }
+
+    const movedWeeks = await moveWeeks(moves, companyId);
+    await refreshTourSpan(req.id, companyId);
+
+    return { tour: await loadTour(req.id, companyId), movedWeeks };
   }
 );
 
@@ -1,4 +1,24 @@
-export type Role = "Sarge" | "Potato" | "Mozzie" | "Ringo" | "Particle" | "Bin" | "Cornish" | "Who";
+/**
+ * A track name from the company's role catalogue (see roles.ts), e.g. "Sarge".
+ * Stored verbatim in CastMember.eligibleRoles and Assignment.role, which is why
+ * a catalogue entry can be deactivated but never renamed.
+ */
+export type Role = string;
+
+/**
+ * One entry in the role catalogue. Active roles, in `order`, are the stage
+ * tracks every show must fill; an inactive one (a track cut for small venues)
+ * is neither cast nor checked.
+ */
+export interface RoleDefinition {
+  id: string;
+  name: Role;
+  order: number;
+  // Casting convention, not a rule: generation only casts a performer of this
+  // gender, and validation reports a mismatch as a GENDER_VIOLATION warning.
+  preferredGender?: "male" | "female";
+  active: boolean;
+}
 
 export type DayStatus = "show" | "travel" | "dayoff";
 
@@ -6,7 +26,8 @@ export interface CastMember {
   name: string;
   eligibleRoles: Role[];
   // Optional so legacy/company-loaded records still typecheck. When absent,
-  // gender is inferred from eligibility for a female-only role (see algorithm).
+  // gender is inferred from eligibility for a role conventionally cast female
+  // (see algorithm).
   gender?: "male" | "female";
 }
 
@@ -23,6 +44,12 @@ export interface Show {
    * days after it — see `setDestination` in frontend/components/domain/week.ts.
    */
   location?: string;
+  /**
+   * The IANA zone `time` and `callTime` are wall-clock times in, e.g.
+   * "Europe/London". Filled on save from the venue or the city when left out
+   * (see withShowZones in zones.ts); a show without one is read as UTC.
+   */
+  timeZone?: string;
   /**
    * This day off carries the whole company's RED day. At most one show in a
    * schedule may set it, and only when status === "dayoff".
@@ -36,9 +63,10 @@ export interface Assignment {
   performer: string;
   isRedDay?: boolean;
   // RD-sanctioned exception (injury/sickness cover). When set, a back-to-back
-  // double-days or weekly >6 violation involving this assignment is reported as
-  // a warning instead of an error. Never softens casting/eligibility/
-  // >6-consecutive/RED-day errors. (Gender-role mismatches are already
+  // double-days, weekly-cap or minimum-rest violation involving this
+  // assignment, or casting a performer on a date marked unavailable, is
+  // reported as a warning instead of an error. Never softens casting/
+  // eligibility/consecutive-run/RED-day errors. (Gender-role mismatches are already
   // reported as a warning, not an error — see GENDER_VIOLATION.)
   isOverride?: boolean;
 }
@@ -52,6 +80,15 @@ export interface Schedule {
   // The template this schedule was created from, if any — lets the editor offer
   // "Update template". May dangle if that template was later deleted.
   templateId?: string;
+  // The venue library entry the week is played at. location stays the week's
+  // label either way.
+  venueId?: string;
+  // Drafts are visible only to the company's managers and admins; viewers see
+  // a schedule once it's published.
+  published: boolean;
+  // Bumped by every write that changes the content. Send it back with an edit
+  // so a write against a copy someone else has since changed is refused.
+  version: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -70,6 +107,147 @@ export interface TemplateSlot {
   isCompanyRedDay?: boolean;
 }
 
+/**
+ * An inclusive span of calendar dates ("YYYY-MM-DD") a performer cannot work —
+ * holiday, medical appointment, visa run. Keyed by performer name, the same
+ * identity Assignment.performer uses, so the algorithm needs no id lookup.
+ * Every show on a covered date is forced OFF for that performer.
+ */
+export interface UnavailableWindow {
+  performer: string;
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}
+
+/** How a rule reports, or "off" to drop it (see RuleSettings). */
+export type RuleSeverity = "error" | "warning" | "off";
+
+/** The thresholds of a labour-rule profile. */
+export interface RuleLimits {
+  // Most shows in a row without a day off; both shows of a double count.
+  maxConsecutiveShows: number;
+  // Most shows a performer plays in a week.
+  maxShowsPerWeek: number;
+  // Most days from one RED day to the next, across the week boundary.
+  maxDaysBetweenRedDays: number;
+  // The least time off between a performer's show and their next one on a
+  // later day, on the clock: from curtain down to the next call. A travel day
+  // in between isn't rest, so after one the time counts from the end of the
+  // travel day instead. Two shows on the same day are a double, governed by
+  // the show-count rules, not this one.
+  minRestMinutes: number;
+  // Curtain up to curtain down, for the rest rule.
+  showMinutes: number;
+}
+
+/**
+ * The labour rules a week is generated and validated under: its tour's
+ * profile, else its company's, else the built-in limits (DEFAULT_RULE_LIMITS
+ * in algorithm.ts). Generation only works around a rule reporting as an
+ * error; one lowered to a warning is reported but may be broken, and one set
+ * "off" is neither. Turning RED_DAY_MISSING off drops the RED-day-per-week
+ * policy, so generation gives out no RED days.
+ */
+export interface RuleSettings {
+  limits: RuleLimits;
+  // RuleCode -> severity, for the codes a profile may set (PROFILE_RULE_CODES
+  // in algorithm.ts). A code left out keeps its built-in severity.
+  severities: Record<string, RuleSeverity>;
+}
+
+/** A named set of labour rules in a company's library, e.g. "UK touring". */
+export interface RuleProfile extends RuleSettings {
+  id: string;
+  name: string;
+}
+
+/**
+ * What one performer brings into a week from the week before it. A run that
+ * ended on the day before this week's first show (or on the same day) keeps
+ * counting toward the consecutive-show limit; one that ended earlier has
+ * already been broken by a gap day and carries nothing.
+ */
+export interface PerformerCarryOver {
+  performer: string;
+  // Shows in the run the performer closed the previous week on (0 = none),
+  // spanning runStartDate..runEndDate (YYYY-MM-DD).
+  trailingRun: number;
+  runStartDate?: string;
+  runEndDate?: string;
+  // Their most recent effective RED date before this week, if any.
+  lastRedDate?: string;
+}
+
+/**
+ * The chronologically preceding schedule (same tour, else same venue) reduced
+ * to what the week-scoped rules need to see across the boundary.
+ */
+export interface WeekCarryOver {
+  scheduleId: string;
+  week: string;
+  location: string;
+  performers: PerformerCarryOver[];
+}
+
+/**
+ * Running totals across the weeks of a tour already generated, so the next
+ * week can even them out instead of starting fresh: stage shows played, and
+ * how often each performer's RED day has landed on each weekday
+ * (redWeekdays[performer][0] = Sunday … [6] = Saturday).
+ */
+export interface TourBalance {
+  showCounts: Record<string, number>;
+  redWeekdays: Record<string, number[]>;
+}
+
+/**
+ * A check generation makes before casting a performer in a slot, in the order
+ * it makes them: the role isn't theirs, the slot was locked to someone else,
+ * it is their hand-picked RED date, they are unavailable, they are already in
+ * the show, it would break the run limit, it would make back-to-back doubles,
+ * they are at the weekly limit, the role's casting convention, or it would cut
+ * their rest between shows short.
+ */
+export type CastingCheck =
+  | "role"
+  | "locked"
+  | "red_date"
+  | "unavailable"
+  | "same_show"
+  | "consecutive"
+  | "back_to_back_doubles"
+  | "weekly_limit"
+  | "gender"
+  | "minimum_rest";
+
+/** One performer as generation saw them for a slot. */
+export interface CandidateTrace {
+  performer: string;
+  // The first check that ruled them out; undefined when they could play it.
+  rejectedBy?: CastingCheck;
+  // In words, e.g. "already 6 shows this week".
+  detail: string;
+  // Stage shows they play this week besides this one.
+  shows: number;
+}
+
+/**
+ * Why a stage slot holds who it does after Auto-Generate, or why it is empty:
+ * everyone in the company with the check that ruled them out.
+ */
+export interface SlotExplanation {
+  showId: string;
+  role: Role;
+  // Who was cast; undefined when the slot was left empty.
+  performer?: string;
+  // Why they were picked, or why nobody was.
+  reason: string;
+  // The performer cast first, then the others who could have been, then the
+  // ones ruled out.
+  candidates: CandidateTrace[];
+}
+
 /** A saved, owner-scoped week template: a captured Monday-relative day pattern. */
 export interface Template {
   id: string;
@@ -77,6 +255,32 @@ export interface Template {
   slots: TemplateSlot[];
 }
 
+/** A venue's usual curtain time on one weekday; a double-show day has two. */
+export interface VenueShowTime {
+  dayOffset: number; // 0 = Monday … 6 = Sunday, as in TemplateSlot
+  time: string; // "HH:MM", local to the venue
+}
+
+/**
+ * A theatre in the company's venue library. Its show times and call offset
+ * seed the times of a new week played there; a weekday it has no time for
+ * keeps the built-in default (getDefaultShowTimes in
+ * frontend/components/domain/week.ts).
+ */
+export interface Venue {
+  id: string;
+  name: string;
+  city: string;
+  country: string;
+  address: string;
+  // IANA zone name, e.g. "Europe/London", or "" when not known; its weeks
+  // then take their city's zone.
+  timeZone: string;
+  showTimes: VenueShowTime[];
+  // Minutes between the call and curtain up.
+  callOffsetMinutes: number;
+}
+
 export const CAST_MEMBERS: CastMember[] = [
   { name: "PHIL", eligibleRoles: ["Sarge"], gender: "male" },
   { name: "SEAN", eligibleRoles: ["Sarge", "Potato"], gender: "male" },
@@ -92,6 +296,18 @@ export const CAST_MEMBERS: CastMember[] = [
   { name: "SERENA", eligibleRoles: ["Bin", "Cornish"], gender: "female" }
 ];
 
-export const ROLES: Role[] = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
-
-export const FEMALE_ONLY_ROLES: Role[] = ["Bin", "Cornish"];
+/**
+ * The STOMP track list every company's catalogue is seeded with (migration
+ * 14, and seedRoleCatalogue for new companies). Used wherever the catalogue
+ * can't be read: the algorithm's default and the loadCastMembers fallback.
+ */
+export const DEFAULT_ROLE_CATALOGUE: RoleDefinition[] = [
+  { id: "role_seed_0", name: "Sarge", order: 0, active: true },
+  { id: "role_seed_1", name: "Potato", order: 1, active: true },
+  { id: "role_seed_2", name: "Mozzie", order: 2, active: true },
+  { id: "role_seed_3", name: "Ringo", order: 3, active: true },
+  { id: "role_seed_4", name: "Particle", order: 4, active: true },
+  { id: "role_seed_5", name: "Bin", order: 5, preferredGender: "female", active: true },
+  { id: "role_seed_6", name: "Cornish", order: 6, preferredGender: "female", active: true },
+  { id: "role_seed_7", name: "Who", order: 7, active: true }
+];
@@ -1,54 +1,118 @@
 import { api, APIError } from "encore.dev/api";
-import { getAuthData } from "encore.dev/internal/codegen/auth";
-import type { AuthData } from "../auth/encore_auth";
-import { scheduleDB } from "./db";
+import { inTransaction, scheduleDB } from "./db";
+import { requireCompanyRole } from "./companies";
+import { recordRevision } from "./revisions";
+import { scheduleFromRow } from "./get";
+import { publishSaved } from "./live";
+import { requireVenue } from "./venues";
+import { unknownShowZone, withShowZones } from "./zones";
 import { Schedule, Show, Assignment } from "./types";
 
 export interface UpdateScheduleRequest {
   id: string;
   location?: string;
+  // The venue library entry the week is played at; "" unlinks it.
+  venueId?: string;
   week?: string;
   shows?: Show[];
   assignments?: Assignment[];
+  // Publishing makes the schedule visible to the company's viewers.
+  published?: boolean;
+  // The version the edit was made against. When it is no longer current the
+  // write is refused; leave it out to write regardless.
+  version?: number;
 }
 
 export interface UpdateScheduleResponse {
   schedule: Schedule;
 }
 
+// The error a write gets when the schedule changed after the client read it.
+// details.schedule is the server's current copy, for the client to merge its
+// edits against before trying again with that copy's version.
+export async function staleScheduleError(id: string, companyId: string): Promise<APIError> {
+  const row = await scheduleDB.queryRow`
+    SELECT id, location, week, shows_data, assignments_data, template_id, venue_id, published, version, created_at, updated_at
+    FROM schedules
+    WHERE id = ${id} AND company_id = ${companyId}
+  `;
+  if (!row) {
+    return APIError.notFound("schedule not found");
+  }
+  return APIError.aborted("schedule was changed by someone else").withDetails({ schedule: scheduleFromRow(row) });
+}
+
 // Updates a schedule.
 export const update = api<UpdateScheduleRequest, UpdateScheduleResponse>(
   { expose: true, method: "PUT", path: "/schedules/:id", auth: true },
   async (req) => {
-    const authData = await getAuthData<AuthData>();
-    const userId = authData?.userID ?? 'system';
+    const companyId = await requireCompanyRole("manager");
 
-    // First, get the existing schedule (scoped to the authenticated user)
+    // First, get the existing schedule (scoped to the current company)
     const existingRow = await scheduleDB.queryRow`
-      SELECT id, location, week, shows_data, assignments_data, created_at, updated_at
+      SELECT id, location, week, shows_data, assignments_data, template_id, venue_id, published, version, created_at, updated_at
       FROM schedules
-      WHERE id = ${req.id} AND user_id = ${userId}
+      WHERE id = ${req.id} AND company_id = ${companyId}
     `;
 
     if (!existingRow) {
       throw APIError.notFound("schedule not found");
     }
 
+    if (req.version !== undefined && req.version !== existingRow.version) {
+      throw await staleScheduleError(req.id, companyId);
+    }
+
     const now = new Date();
+    const contentChanged =
+      req.location !== undefined ||
+      req.venueId !== undefined ||
+      req.week !== undefined ||
+      req.shows !== undefined ||
+      req.assignments !== undefined;
+    const version: number = existingRow.version + (contentChanged ? 1 : 0);
     const location = req.location ?? existingRow.location;
+    const venueId: string | null = req.venueId === undefined ? existingRow.venue_id : req.venueId || null;
+    const venue = venueId ? await requireVenue(companyId, venueId) : undefined;
     const week = req.week ?? existingRow.week;
-    const shows = req.shows ?? JSON.parse(existingRow.shows_data);
+    const badZone = req.shows && unknownShowZone(req.shows);
+    if (badZone) {
+      throw APIError.invalidArgument(`${badZone} is not a time zone`);
+    }
+    // Shows sent without a zone take the venue's or their city's.
+    const shows: Show[] = req.shows
+      ? withShowZones(req.shows, location, venue?.timeZone)
+      : JSON.parse(existingRow.shows_data);
     const assignments = req.assignments ?? JSON.parse(existingRow.assignments_data);
+    const published: boolean = req.published ?? existingRow.published;
 
-    await scheduleDB.exec`
-      UPDATE schedules
-      SET location = ${location},
-          week = ${week},
-          shows_data = ${JSON.stringify(shows)},
-          assignments_data = ${JSON.stringify(assignments)},
-          updated_at = ${now}
-      WHERE id = ${req.id} AND user_id = ${userId}
-    `;
+    // The version guard also catches a write that lands between the read
+    // above and this one.
+    const written = await inTransaction(async tx => {
+      const row = await tx.queryRow`
+        UPDATE schedules
+        SET location = ${location},
+            venue_id = ${venueId},
+            week = ${week},
+            shows_data = ${JSON.stringify(shows)},
+            assignments_data = ${JSON.stringify(assignments)},
+            published = ${published},
+            version = ${version},
+            updated_at = ${now}
+        WHERE id = ${req.id} AND company_id = ${companyId} AND version = ${existingRow.version}
+        RETURNING id
+      `;
+      if (row && contentChanged) {
+        await recordRevision(tx, req.id, { location, week, shows, assignments }, "update");
+      }
+      return row;
+    });
+    if (!written) {
+      throw await staleScheduleError(req.id, companyId);
+    }
+    if (contentChanged) {
+      await publishSaved(req.id, version, { location, week, shows, assignments });
+    }
 
     const schedule: Schedule = {
       id: req.id,
@@ -56,6 +120,10 @@ export const update = api<UpdateScheduleRequest, UpdateScheduleResponse>(
       week,
       shows,
       assignments,
+      templateId: existingRow.template_id ?? undefined,
+      venueId: venueId ?? undefined,
+      published,
+      version,
       createdAt: new Date(existingRow.created_at),
       updatedAt: now
     };
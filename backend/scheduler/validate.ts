@@ -10,6 +10,13 @@ export type { ValidationItem } from "./algorithm";
 export interface ValidateScheduleRequest {
   shows: Show[];
   assignments: Assignment[];
+  // The saved schedule being validated, if any. Its previous week (same tour,
+  // else same venue) is loaded so runs and RED days are checked across the
+  // boundary. Omitted -> the week is validated in isolation.
+  scheduleId?: string;
+  // Work out quick fixes for the items (see fixes.ts). Slower: each is checked
+  // by validating the week with it applied.
+  withFixes?: boolean;
 }
 
 export interface ValidateScheduleResponse {
@@ -22,24 +29,54 @@ export interface ValidateScheduleResponse {
    * `severity`, and (where known) the `performer` and/or `showId` it concerns.
    */
   items: ValidationItem[];
+  // The week whose tail was carried into this one, when one was found. Items
+  // with `carriedOver` exist only because of how that week ended.
+  previousSchedule?: { scheduleId: string; week: string; location: string };
 }
 
 // Validates a schedule against all constraints and business rules.
 export const validate = api<ValidateScheduleRequest, ValidateScheduleResponse>(
-  { expose: true, method: "POST", path: "/schedules/validate" },
+  { expose: true, method: "POST", path: "/schedules/validate", auth: true },
   async (req) => {
-    // Get current cast members from company system
-    const { getCastMembers } = await import("./cast_members");
-    const castData = await getCastMembers();
-    
-    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers);
+    // Get cast members from the schedule's own company (its tour segment's
+    // cast when it is a tour week)
+    const { scheduleCompanyId } = await import("./companies");
+    const companyId = await scheduleCompanyId(req.scheduleId);
+    const { loadScheduleCast } = await import("./cast_members");
+    const castData = await loadScheduleCast(companyId, req.scheduleId);
+
+    const { loadUnavailabilityForShows } = await import("./availability");
+    const unavailability = await loadUnavailabilityForShows(req.shows, companyId);
+
+    const { loadCarryOver } = await import("./continuity");
+    const carryOver = await loadCarryOver(req.scheduleId, req.shows, companyId);
+
+    const { loadScheduleRules } = await import("./rule_profiles");
+    const rules = await loadScheduleRules(companyId, req.scheduleId);
+
+    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers, undefined, { unavailability, carryOver, roles: castData.roleCatalogue, rules });
     const result = algorithm.validateSchedule(req.assignments, { ignoreUnstartedShows: true });
+
+    let items = result.items;
+    if (req.withFixes) {
+      const { quickFixes } = await import("./fixes");
+      items = quickFixes({
+        shows: req.shows,
+        assignments: req.assignments,
+        castMembers: castData.castMembers,
+        roles: castData.roles,
+        validate: a => algorithm.validateSchedule(a, { ignoreUnstartedShows: true }).items
+      }, result.items);
+    }
     
     return {
       isValid: result.isValid,
       errors: result.errors,
       warnings: result.warnings,
-      items: result.items
+      items,
+      previousSchedule: carryOver
+        ? { scheduleId: carryOver.scheduleId, week: carryOver.week, location: carryOver.location }
+        : undefined
     };
   }
 );
@@ -6,12 +6,14 @@ import { describe, it, expect, vi } from 'vitest';
 // stub the module rather than boot Encore to test a sort.
 vi.mock('encore.dev/api', () => ({ api: (_options: unknown, fn: unknown) => fn }));
 
-import { analyzeConsecutiveShows, getConsecutiveShowSuggestions, toPublicAnalysis } from './validate_comprehensive';
+import { getConsecutiveShowSuggestions, toPublicAnalysis } from './validate_comprehensive';
+import { analyzeConsecutiveShows } from './rules';
 import type { Assignment, Show } from './types';
 
-// The two helpers under test take `formatDateForDisplay` and `getAlternativePerformers`
-// as parameters — inside the API handler they are closures over the request. These are
-// faithful copies, so a test exercises the same strings production builds.
+// The helpers under test take `formatDateForDisplay` (and the suggestions
+// `getAlternativePerformers`) as parameters — inside the API handler they are
+// rules.ts's formatShowDate and a closure over the request. These are faithful
+// copies, so a test exercises the same strings production builds.
 function formatDateForDisplay(date: string, time: string): string {
   const dateObj = new Date(date + "T12:00:00Z");
   const dayName = dateObj.toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
@@ -64,7 +66,7 @@ const assignments: Assignment[] = [
 
 const analyseAlice = (shows = activeShows, asgn = assignments) => {
   const analysis = analyzeConsecutiveShows(
-    asgn, shows, castMembers, formatDateForDisplay, makeGetAlternativePerformers(asgn),
+    asgn, shows, castMembers, formatDateForDisplay,
   );
   return analysis.find(a => a.performer === "ALICE")!;
 };
@@ -135,7 +137,7 @@ describe('toPublicAnalysis', () => {
   // assignable to the public one. Only this test stands between showIds and the wire.
   it('keeps showIds out of the API response', () => {
     const published = toPublicAnalysis(analyzeConsecutiveShows(
-      assignments, activeShows, castMembers, formatDateForDisplay, makeGetAlternativePerformers(assignments),
+      assignments, activeShows, castMembers, formatDateForDisplay,
     ));
     const sequences = published.flatMap(a => a.sequences);
     expect(sequences.length).toBeGreaterThan(0);
@@ -146,7 +148,7 @@ describe('toPublicAnalysis', () => {
 
   it('leaves every other field untouched', () => {
     const internal = analyzeConsecutiveShows(
-      assignments, activeShows, castMembers, formatDateForDisplay, makeGetAlternativePerformers(assignments),
+      assignments, activeShows, castMembers, formatDateForDisplay,
     );
     const alice = toPublicAnalysis(internal).find(a => a.performer === "ALICE")!;
     expect(alice.maxConsecutive).toBe(7);
@@ -190,3 +192,31 @@ describe('getConsecutiveShowSuggestions', () => {
     expect(suggestFor(alice.sequences[0], assignments, shows)).toContain("Thu Aug 7 TBC");
   });
 });
+
+describe('analyzeConsecutiveShows with a carried-in run', () => {
+  // BOB plays the first two dates of the week after closing the previous one
+  // on five shows in a row, ending the day before.
+  const bobShows = DATES.slice(0, 2).map((d, i) => show(`b${i}`, d));
+  const bobAssignments = bobShows.map(s => cast(s.id, "BOB", "Potato"));
+  const carryOver = {
+    scheduleId: "prev", week: "Week 1", location: "London",
+    performers: [{ performer: "BOB", trailingRun: 5, runStartDate: "2025-07-30", runEndDate: "2025-08-03" }],
+  };
+
+  const analyseBob = (carry?: typeof carryOver) =>
+    analyzeConsecutiveShows(
+      bobAssignments, bobShows, castMembers, formatDateForDisplay, carry,
+    ).find(a => a.performer === "BOB")!;
+
+  it('extends the first sequence by the carried run and records how much was carried', () => {
+    const bob = analyseBob(carryOver);
+    expect(bob.maxConsecutive).toBe(7);
+    expect(bob.sequences[0]).toMatchObject({ count: 7, carriedIn: 5, severity: "critical", showIds: ["b0", "b1"] });
+    expect(bob.sequences[0].startDate).toBe("Mon Aug 4 7:30 PM");
+  });
+
+  it('publishes carriedIn but only when something was carried', () => {
+    expect(Object.keys(toPublicAnalysis([analyseBob(carryOver)])[0].sequences[0])).toContain("carriedIn");
+    expect(analyseBob().sequences).toEqual([]);
+  });
+});
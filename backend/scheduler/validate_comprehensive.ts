@@ -1,23 +1,36 @@
 import { api } from "encore.dev/api";
-import { Show, Assignment } from "./types";
-import { SchedulingAlgorithm, ConstraintResult } from "./algorithm";
-import { areDatesConsecutive } from "./date_rules";
-import { TBC, isKnownTime, showSortKey } from "./time";
+import { Show, Assignment, CastMember, Role, RoleDefinition, RuleSettings, UnavailableWindow, WeekCarryOver } from "./types";
+import { SchedulingAlgorithm, RuleCode, DEFAULT_RULE_LIMITS, ValidationItem } from "./algorithm";
+import { ConsecutiveSequenceInternal, ConsecutiveShowAnalysisInternal, RuleCategory, analyzeConsecutiveShows, formatShowDate, ruleFor } from "./rules";
+import { compareShows } from "./time";
+import type { QuickFix } from "./fixes";
 
 export interface ValidateComprehensiveRequest {
   shows: Show[];
   assignments: Assignment[];
+  // The saved schedule being validated, if any — see ValidateScheduleRequest.
+  scheduleId?: string;
+  // As ValidateScheduleRequest.withFixes.
+  withFixes?: boolean;
 }
 
+// A rule's item (see rules.ts) as the comprehensive view shows it.
 export interface ValidationIssue {
-  type: "error" | "warning" | "info";
-  category: "role_eligibility" | "consecutive_shows" | "load_balancing" | "special_days" | "completeness" | "conflicts";
+  type: "error" | "warning";
+  category: RuleCategory;
+  // The rule behind the issue.
+  code: RuleCode;
   message: string;
   performer?: string;
   showId?: string;
   role?: string;
   severity: "critical" | "high" | "medium" | "low";
   suggestion?: string;
+  // Only an issue because of how the previous week ended.
+  carriedOver?: boolean;
+  // The suggestion as edits the editor can apply, when asked for with
+  // withFixes (see fixes.ts).
+  fixes?: QuickFix[];
 }
 
 export interface LoadBalancingStats {
@@ -36,28 +49,11 @@ export interface ConsecutiveShowAnalysis {
     endDate: string;
     count: number;
     severity: "ok" | "warning" | "critical";
+    // Shows of `count` played at the end of the previous week (absent = none).
+    carriedIn?: number;
   }>;
 }
 
-/**
- * A run, plus the shows it spans. `showIds` stays internal: it is what lets
- * `getConsecutiveShowSuggestions` name a real show without re-deriving the run from
- * `startDate`/`endDate`, which are *display* strings and must never be parsed.
- */
-interface ConsecutiveSequenceInternal {
-  startDate: string;
-  endDate: string;
-  count: number;
-  severity: "ok" | "warning" | "critical";
-  showIds: string[];
-}
-
-export interface ConsecutiveShowAnalysisInternal {
-  performer: string;
-  maxConsecutive: number;
-  sequences: ConsecutiveSequenceInternal[];
-}
-
 /**
  * Drop `showIds` on the way to the API response, keeping the wire format unchanged.
  *
@@ -98,364 +94,241 @@ export interface ValidateComprehensiveResponse {
     impactOnScheduling: string;
   };
   recommendations: string[];
+  // The week whose tail was carried into this one, when one was found.
+  previousSchedule?: { scheduleId: string; week: string; location: string };
+}
+
+// What a week is scored against: its cast, roles, unavailability, carried-in
+// tail and rule profile. Loaded once, so candidates.ts can score several
+// weeks of assignments against the same shows.
+export interface ComprehensiveContext {
+  shows: Show[];
+  castMembers: CastMember[];
+  roles: Role[];
+  roleCatalogue: RoleDefinition[];
+  unavailability: UnavailableWindow[];
+  carryOver?: WeekCarryOver;
+  rules?: RuleSettings;
+}
+
+export async function loadComprehensiveContext(companyId: string, shows: Show[], scheduleId: string | undefined): Promise<ComprehensiveContext> {
+  // The cast from the schedule's own company (its tour segment's cast when it
+  // is a tour week)
+  const { loadScheduleCast } = await import("./cast_members");
+  const castData = await loadScheduleCast(companyId, scheduleId);
+
+  const { loadUnavailabilityForShows } = await import("./availability");
+  const unavailability = await loadUnavailabilityForShows(shows, companyId);
+
+  const { loadCarryOver } = await import("./continuity");
+  const carryOver = await loadCarryOver(scheduleId, shows, companyId);
+
+  const { loadScheduleRules } = await import("./rule_profiles");
+  const rules = await loadScheduleRules(companyId, scheduleId);
+
+  return {
+    shows,
+    castMembers: castData.castMembers,
+    roles: castData.roles,
+    roleCatalogue: castData.roleCatalogue,
+    unavailability,
+    carryOver,
+    rules
+  };
 }
 
 // Provides comprehensive validation of schedule with detailed business logic analysis.
 export const validateComprehensive = api<ValidateComprehensiveRequest, ValidateComprehensiveResponse>(
-  { expose: true, method: "POST", path: "/schedules/validate-comprehensive" },
+  { expose: true, method: "POST", path: "/schedules/validate-comprehensive", auth: true },
   async (req) => {
-    // Get current cast members from company system
-    const { getCastMembers } = await import("./cast_members");
-    const castData = await getCastMembers();
-    
-    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers);
-    const basicValidation = algorithm.validateSchedule(req.assignments, { ignoreUnstartedShows: true });
-    
-    const issues: ValidationIssue[] = [];
-    const recommendations: string[] = [];
-    
-    // Filter active shows for analysis
-    const activeShows = req.shows.filter(show => show.status === "show");
-    const specialDays = req.shows.filter(show => show.status !== "show");
-    
-    // Helper function to format dates
-    const formatDateForDisplay = (date: string, time: string): string => {
-      try {
-        // Noon-UTC anchor + explicit UTC formatting so the weekday/date match
-        // the calendar date in every timezone.
-        const dateObj = new Date(date + "T12:00:00Z");
-        const dayName = dateObj.toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
-        const monthDay = dateObj.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
-
-        // An unknown time must not be parsed — see formatDateForValidation in
-        // algorithm.ts. It renders "Invalid Date" into the message and never throws.
-        if (!isKnownTime(time)) return `${dayName} ${monthDay} ${TBC}`;
-
-        const [hours, minutes] = time.split(':');
-        const timeObj = new Date();
-        timeObj.setHours(parseInt(hours), parseInt(minutes));
-        const timeStr = timeObj.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
-
-        return `${dayName} ${monthDay} ${timeStr}`;
-      } catch (error) {
-        return `${date} ${time}`;
-      }
-    };
-
-    // Helper function to get alternative performers
-    const getAlternativePerformers = (role: string, excludePerformer?: string, showId?: string): string[] => {
-      const showAssignments = showId ? req.assignments.filter(a => a.showId === showId) : [];
-      const assignedPerformers = new Set(showAssignments.map(a => a.performer));
-      
-      return castData.castMembers
-        .filter(member => 
-          member.eligibleRoles.includes(role as any) && 
-          member.name !== excludePerformer &&
-          (!showId || !assignedPerformers.has(member.name))
-        )
-        .map(member => member.name);
-    };
-    
-    // 1. Role Eligibility Validation with specific suggestions
-    const roleEligibilityIssues = validateRoleEligibilityWithSuggestions(req.assignments, castData.castMembers, activeShows, formatDateForDisplay, getAlternativePerformers);
-    issues.push(...roleEligibilityIssues);
-    
-    // 2. Consecutive Shows Analysis with specific suggestions
-    const consecutiveAnalysis = analyzeConsecutiveShows(req.assignments, activeShows, castData.castMembers, formatDateForDisplay, getAlternativePerformers);
-    consecutiveAnalysis.forEach(analysis => {
-      analysis.sequences.forEach(sequence => {
-        if (sequence.severity === "critical") {
-          const suggestions = getConsecutiveShowSuggestions(analysis.performer, sequence, req.assignments, activeShows, formatDateForDisplay, getAlternativePerformers);
-          issues.push({
-            type: "error",
-            category: "consecutive_shows",
-            message: `${analysis.performer} has ${sequence.count} consecutive shows from ${sequence.startDate} to ${sequence.endDate} (critical burnout risk)`,
-            performer: analysis.performer,
-            severity: "critical",
-            suggestion: suggestions
-          });
-        } else if (sequence.severity === "warning") {
-          const suggestions = getConsecutiveShowSuggestions(analysis.performer, sequence, req.assignments, activeShows, formatDateForDisplay, getAlternativePerformers);
-          issues.push({
-            type: "warning",
-            category: "consecutive_shows",
-            message: `${analysis.performer} has ${sequence.count} consecutive shows from ${sequence.startDate} to ${sequence.endDate}`,
-            performer: analysis.performer,
-            severity: "medium",
-            suggestion: suggestions
-          });
-        }
-      });
-    });
-    
-    // 3. Load Balancing Analysis with specific suggestions
-    const loadBalancing = analyzeLoadBalancing(req.assignments, activeShows, castData.castMembers);
-    loadBalancing.forEach(stats => {
-      if (stats.status === "critical") {
-        const suggestions = getOverworkedSuggestions(stats.performer, req.assignments, activeShows, formatDateForDisplay, getAlternativePerformers);
-        issues.push({
-          type: "error",
-          category: "load_balancing",
-          message: `${stats.performer} has ${stats.showCount} shows (extremely overworked)`,
-          performer: stats.performer,
-          severity: "critical",
-          suggestion: suggestions
-        });
-      } else if (stats.status === "overworked") {
-        const suggestions = getOverworkedSuggestions(stats.performer, req.assignments, activeShows, formatDateForDisplay, getAlternativePerformers);
-        issues.push({
-          type: "warning",
-          category: "load_balancing",
-          message: `${stats.performer} has ${stats.showCount} shows (above optimal range)`,
-          performer: stats.performer,
-          severity: "high",
-          suggestion: suggestions
-        });
-      } else if (stats.status === "underutilized") {
-        const suggestions = getUnderutilizedSuggestions(stats.performer, req.assignments, activeShows, castData.castMembers, formatDateForDisplay);
-        issues.push({
-          type: "warning",
-          category: "load_balancing",
-          message: `${stats.performer} has only ${stats.showCount} shows (underutilized)`,
-          performer: stats.performer,
-          severity: "low",
-          suggestion: suggestions
-        });
-      }
-    });
-    
-    // 4. Role Completeness Analysis with specific suggestions
-    const roleCompleteness = analyzeRoleCompleteness(req.assignments, activeShows);
-    roleCompleteness.forEach(roleStats => {
-      if (roleStats.completionPercentage < 100) {
-        const severity = roleStats.completionPercentage < 50 ? "critical" : 
-                        roleStats.completionPercentage < 80 ? "high" : "medium";
-        
-        const eligiblePerformers = castData.castMembers
-          .filter(member => member.eligibleRoles.includes(roleStats.role as any))
-          .map(member => member.name);
-        
-        let suggestion = `Assign ${roleStats.role} for remaining shows: ${roleStats.missingShows.join(", ")}`;
-        if (eligiblePerformers.length > 0) {
-          suggestion += `. Eligible performers: ${eligiblePerformers.slice(0, 3).join(", ")}${eligiblePerformers.length > 3 ? ` and ${eligiblePerformers.length - 3} others` : ""}`;
-        }
-        
-        issues.push({
-          type: roleStats.completionPercentage < 100 ? "error" : "warning",
-          category: "completeness",
-          message: `Role ${roleStats.role} is only ${roleStats.completionPercentage}% complete (${roleStats.filledShows}/${roleStats.totalShows} shows)`,
-          role: roleStats.role,
-          severity: severity as "critical" | "high" | "medium",
-          suggestion: suggestion
-        });
-      }
-    });
-    
-    // 5. Conflict Detection with specific suggestions
-    const conflictIssues = detectConflictsWithSuggestions(req.assignments, activeShows, formatDateForDisplay, getAlternativePerformers);
-    issues.push(...conflictIssues);
-    
-    // 6. Special Day Handling
-    const specialDayHandling = analyzeSpecialDayHandling(specialDays, req.assignments);
-    if (specialDayHandling.impactOnScheduling === "high") {
-      issues.push({
-        type: "info",
-        category: "special_days",
-        message: `${specialDayHandling.totalSpecialDays} special days may impact cast availability`,
-        severity: "low",
-        suggestion: "Ensure adequate cast coverage around travel and day-off periods"
-      });
-    }
-    
-    // 7. Generate Smart Recommendations
-    const smartRecommendations = generateSmartRecommendations(issues, loadBalancing, consecutiveAnalysis, roleCompleteness, activeShows.length);
-    recommendations.push(...smartRecommendations);
-    
-    // 8. Calculate Overall Score
-    const completionPercentage = calculateCompletionPercentage(req.assignments, activeShows);
-    const overallScore = calculateOverallScore(issues, completionPercentage, activeShows.length);
-    
-    // 9. Categorize Issues by Severity
-    const criticalErrors = issues.filter(i => i.type === "error" && i.severity === "critical").length;
-    const warnings = issues.filter(i => i.type === "warning").length;
-    
-    return {
-      isValid: criticalErrors === 0 && completionPercentage === 100,
-      overallScore,
-      summary: {
-        totalIssues: issues.length,
-        criticalErrors,
-        warnings,
-        completionPercentage
-      },
-      issues,
-      loadBalancing,
-      consecutiveAnalysis: toPublicAnalysis(consecutiveAnalysis),
-      roleCompleteness,
-      specialDayHandling,
-      recommendations
-    };
+    const { scheduleCompanyId } = await import("./companies");
+    const companyId = await scheduleCompanyId(req.scheduleId);
+    const context = await loadComprehensiveContext(companyId, req.shows, req.scheduleId);
+    const response = analyzeComprehensive(context, req.assignments);
+    return req.withFixes ? await withQuickFixes(context, req.assignments, response) : response;
   }
 );
 
-function validateRoleEligibilityWithSuggestions(assignments: Assignment[], castMembers: any[], activeShows: Show[], formatDateForDisplay: Function, getAlternativePerformers: Function): ValidationIssue[] {
-  const issues: ValidationIssue[] = [];
-  
-  assignments.forEach(assignment => {
-    // OFF is bench bookkeeping, not a stage role — no one is "eligible" for it.
-    if (assignment.role === "OFF") return;
-
-    const show = activeShows.find(s => s.id === assignment.showId);
-    if (!show) return;
+// Gives each issue the quick fixes for its item.
+async function withQuickFixes(context: ComprehensiveContext, assignments: Assignment[], response: ValidateComprehensiveResponse): Promise<ValidateComprehensiveResponse> {
+  const { shows, castMembers, roles, roleCatalogue, unavailability, carryOver, rules } = context;
+  const algorithm = new SchedulingAlgorithm(shows, castMembers, undefined, { unavailability, carryOver, roles: roleCatalogue, rules });
+  const validate = (a: Assignment[]) => algorithm.validateSchedule(a, { ignoreUnstartedShows: true }).items;
 
-    const showDate = formatDateForDisplay(show.date, show.time);
-    const castMember = castMembers.find(m => m.name === assignment.performer);
-    
-    if (!castMember) {
-      issues.push({
-        type: "error",
-        category: "role_eligibility",
-        message: `Unknown performer: ${assignment.performer} assigned to ${assignment.role} on ${showDate}`,
-        performer: assignment.performer,
-        showId: assignment.showId,
-        role: assignment.role,
-        severity: "critical",
-        suggestion: "Verify performer name in cast list or remove this assignment"
-      });
-    } else if (!castMember.eligibleRoles.includes(assignment.role)) {
-      const alternatives = getAlternativePerformers(assignment.role, assignment.performer, assignment.showId);
-      let suggestion = `${assignment.performer} cannot perform ${assignment.role}`;
-      
-      if (alternatives.length > 0) {
-        suggestion += ` - replace with ${alternatives.slice(0, 2).join(" or ")}`;
-      } else {
-        suggestion += " - no eligible performers available for this role";
-      }
-      
-      issues.push({
-        type: "error",
-        category: "role_eligibility",
-        message: `${assignment.performer} is not eligible for role ${assignment.role} on ${showDate}`,
-        performer: assignment.performer,
-        showId: assignment.showId,
-        role: assignment.role,
-        severity: "critical",
-        suggestion: suggestion
-      });
-    }
-  });
-  
-  return issues;
+  const { quickFixes } = await import("./fixes");
+  const fixed = quickFixes({ shows, assignments, castMembers, roles, validate }, validate(assignments));
+  const fixesOf = new Map(fixed.filter(i => i.fixes).map(i => [`${i.code}|${i.performer ?? ""}|${i.showId ?? ""}`, i.fixes!]));
+  return {
+    ...response,
+    issues: response.issues.map(issue => {
+      const fixes = fixesOf.get(`${issue.code}|${issue.performer ?? ""}|${issue.showId ?? ""}`);
+      return fixes ? { ...issue, fixes } : issue;
+    })
+  };
 }
 
-export function analyzeConsecutiveShows(assignments: Assignment[], activeShows: Show[], castMembers: any[], formatDateForDisplay: Function, getAlternativePerformers: Function): ConsecutiveShowAnalysisInternal[] {
-  const analysis: ConsecutiveShowAnalysisInternal[] = [];
+// The comprehensive analysis of one week of assignments. Its issues are the
+// rule registry's items (see rules.ts), each filed under its rule's category
+// with a suggestion for putting it right; the rest is the week's statistics.
+export function analyzeComprehensive(context: ComprehensiveContext, assignments: Assignment[]): ValidateComprehensiveResponse {
+  const { shows, castMembers, roles, roleCatalogue, unavailability, carryOver, rules } = context;
+  const maxConsecutiveShows = rules?.limits.maxConsecutiveShows ?? DEFAULT_RULE_LIMITS.maxConsecutiveShows;
+
+  const algorithm = new SchedulingAlgorithm(shows, castMembers, undefined, { unavailability, carryOver, roles: roleCatalogue, rules });
+  const basicValidation = algorithm.validateSchedule(assignments, { ignoreUnstartedShows: true });
   
-  castMembers.forEach(member => {
-    const memberShows = new Set<string>();
-    assignments.forEach(assignment => {
-      // An OFF show is not a performance. Counting one toward a burnout run inflates
-      // `count`, and `count > 6` is the only gate that marks a run critical — so an OFF
-      // day could manufacture a false burnout violation. algorithm.ts:1748 and the
-      // frontend's analyzeFatigue both exclude OFF; this is the rule, not an optimisation.
-      if (assignment.performer === member.name && assignment.role !== "OFF") {
-        memberShows.add(assignment.showId);
-      }
-    });
-    
-    if (memberShows.size === 0) {
-      analysis.push({
-        performer: member.name,
-        maxConsecutive: 0,
-        sequences: []
-      });
-      return;
-    }
-    
-    // Sort shows by date and time
-    // showSortKey, not a raw time compare: "TBC" sorts after every digit and
-    // would drop a timeless show into the wrong slot of the sequence.
-    const sortedShows = [...activeShows]
-      .filter(show => memberShows.has(show.id))
-      .sort((a, b) => showSortKey(a.date, a.time).localeCompare(showSortKey(b.date, b.time)));
-    
-    const sequences: Array<{
-      startDate: string;
-      endDate: string;
-      count: number;
-      severity: "ok" | "warning" | "critical";
-      showIds: string[];
-    }> = [];
-    
-    let currentSequence: { startDate: string; endDate: string; count: number; showIds: string[]; severity?: "ok" | "warning" | "critical" } | null = null;
-    let maxConsecutive = 0;
-    let lastShowDateStr: string | null = null;
-
-    sortedShows.forEach((show, index) => {
-      if (lastShowDateStr) {
-        // DATES ONLY: a gap day resets the run; a same-day matinee+evening
-        // pair stays consecutive. See date_rules.ts.
-        if (areDatesConsecutive(lastShowDateStr, show.date)) {
-          if (currentSequence) {
-            currentSequence.count++;
-            currentSequence.endDate = formatDateForDisplay(show.date, show.time);
-            currentSequence.showIds.push(show.id);
-          } else {
-            // Start new sequence
-            const prevShow = sortedShows[index - 1];
-            currentSequence = {
-              startDate: formatDateForDisplay(prevShow?.date || show.date, prevShow?.time || show.time),
-              endDate: formatDateForDisplay(show.date, show.time),
-              count: 2,
-              showIds: [prevShow?.id || show.id, show.id]
-            };
-          }
-        } else {
-          // End current sequence
-          if (currentSequence && currentSequence.count >= 3) {
-            const seq = currentSequence as { startDate: string; endDate: string; count: number; showIds: string[] };
-            // 6 consecutive shows is LEGAL; only 7+ is a burnout violation.
-            const severity = seq.count > 6 ? "critical" : "ok";
-            sequences.push({
-              startDate: seq.startDate,
-              endDate: seq.endDate,
-              count: seq.count,
-              showIds: seq.showIds,
-              severity
-            });
-            maxConsecutive = Math.max(maxConsecutive, seq.count);
-          }
-          currentSequence = null;
-        }
-      }
+  const recommendations: string[] = [];
+  
+  // Filter active shows for analysis
+  const activeShows = shows.filter(show => show.status === "show");
+  const specialDays = shows.filter(show => show.status !== "show");
 
-      lastShowDateStr = show.date;
-    });
+  // Helper function to get alternative performers
+  const getAlternativePerformers = (role: string, excludePerformer?: string, showId?: string): string[] => {
+    const showAssignments = showId ? assignments.filter(a => a.showId === showId) : [];
+    const assignedPerformers = new Set(showAssignments.map(a => a.performer));
     
-    // Handle final sequence
-    if (currentSequence && (currentSequence as any).count >= 3) {
-      const seq = currentSequence as { startDate: string; endDate: string; count: number; showIds: string[] };
-      // 6 consecutive shows is LEGAL; only 7+ is a burnout violation.
-      const severity = seq.count > 6 ? "critical" : "ok";
-      sequences.push({ 
-        startDate: seq.startDate,
-        endDate: seq.endDate,
-        count: seq.count,
-        showIds: seq.showIds,
-        severity 
-      });
-      maxConsecutive = Math.max(maxConsecutive, seq.count);
+    return castMembers
+      .filter(member => 
+        member.eligibleRoles.includes(role as any) && 
+        member.name !== excludePerformer &&
+        (!showId || !assignedPerformers.has(member.name))
+      )
+      .map(member => member.name);
+  };
+
+  const consecutiveAnalysis = analyzeConsecutiveShows(assignments, activeShows, castMembers, formatShowDate, carryOver, maxConsecutiveShows);
+  // CONSECUTIVE_EXCEEDED reports a performer's critical runs in order.
+  const criticalRuns = new Map(consecutiveAnalysis.map(a => [a.performer, a.sequences.filter(s => s.severity === "critical")]));
+
+  const suggestionFor = (item: ValidationItem, role: string | undefined): string | undefined => {
+    const performer = item.performer ?? "";
+    const showId = item.showId;
+    switch (item.code) {
+      case "CASTING_INCOMPLETE": {
+        const filled = new Set(assignments.filter(a => a.showId === showId && a.role !== "OFF").map(a => a.role));
+        const missing = roles.filter(r => !filled.has(r));
+        if (missing.length === 0) return "Give each role its own performer";
+        return missing.map(r => {
+          const eligible = getAlternativePerformers(r, undefined, showId);
+          return eligible.length > 0 ? `Assign ${r} (eligible: ${eligible.slice(0, 3).join(", ")})` : `Assign ${r}`;
+        }).join("; ");
+      }
+      case "CASTING_DUPLICATE": {
+        if (!item.performer) return "Remove the extra assignments so each role has one performer";
+        const doubled = assignments.filter(a => a.showId === showId && a.performer === performer && a.role !== "OFF").map(a => a.role);
+        // Suggest reassigning the second role
+        const alternatives = getAlternativePerformers(doubled[1], performer, showId);
+        return alternatives.length > 0
+          ? `Reassign ${doubled[1]} to ${alternatives[0]}`
+          : "Reassign one role to another available performer";
+      }
+      case "ROLE_INELIGIBLE": {
+        if (!castMembers.some(m => m.name === performer)) return "Verify performer name in cast list or remove this assignment";
+        const alternatives = role ? getAlternativePerformers(role, performer, showId) : [];
+        return alternatives.length > 0
+          ? `Replace with ${alternatives.slice(0, 2).join(" or ")}`
+          : "No eligible performers available for this role";
+      }
+      case "GENDER_VIOLATION": {
+        const alternatives = role ? getAlternativePerformers(role, performer, showId).slice(0, 3) : [];
+        return alternatives.length > 0 ? `Consider ${alternatives.join(", ")} for ${role} instead` : undefined;
+      }
+      case "PERFORMER_UNAVAILABLE": {
+        const date = shows.find(s => s.id === showId)?.date ?? "";
+        const alternatives = role
+          ? getAlternativePerformers(role, performer, showId)
+              .filter(name => !unavailability.some(w => w.performer === name && w.startDate <= date && date <= w.endDate))
+              .slice(0, 3)
+          : [];
+        return alternatives.length > 0 ? `Consider ${alternatives.join(", ")} for ${role} instead` : undefined;
+      }
+      case "MINIMUM_REST": {
+        const alternatives = role ? getAlternativePerformers(role, performer, showId).slice(0, 3) : [];
+        return alternatives.length > 0
+          ? `Consider ${alternatives.join(", ")} for ${role} in this show, or move the call later`
+          : "Move the call later, or the show before it earlier";
+      }
+      case "CONSECUTIVE_EXCEEDED": {
+        const sequence = criticalRuns.get(performer)?.shift();
+        return sequence
+          ? getConsecutiveShowSuggestions(performer, sequence, assignments, activeShows, formatShowDate, getAlternativePerformers)
+          : `Give ${performer} a break by reassigning 1-2 shows in this sequence to other cast members`;
+      }
+      case "BACK_TO_BACK_DOUBLES":
+      case "WEEKLY_LIMIT_EXCEEDED":
+      case "OVERWORKED":
+        return getOverworkedSuggestions(performer, assignments, activeShows, formatShowDate, getAlternativePerformers);
+      case "UNDERUTILIZED":
+        return getUnderutilizedSuggestions(performer, assignments, activeShows, castMembers, formatShowDate);
+      case "RED_DAY_MISSING":
+        return `Give ${performer} a RED day on a date they aren't performing`;
+      case "RED_DAY_MULTIPLE":
+        return `Keep one of ${performer}'s RED days and clear the others`;
+      case "RED_DAY_NOT_FULL_DAY":
+        return `Take ${performer} out of every show on their RED day, or move it`;
+      case "RED_DAY_SPACING":
+        return `Move ${performer}'s RED day earlier in the week`;
     }
-    
-    // sequences keep their showIds here; toPublicAnalysis strips them at the response.
-    analysis.push({
-      performer: member.name,
-      maxConsecutive,
-      sequences
-    });
+  };
+
+  const issues: ValidationIssue[] = basicValidation.items.map(item => {
+    const role = item.showId && item.performer
+      ? assignments.find(a => a.showId === item.showId && a.performer === item.performer && a.role !== "OFF")?.role
+      : undefined;
+    return {
+      type: item.severity,
+      category: ruleFor(item.code).category,
+      code: item.code,
+      message: item.message,
+      performer: item.performer,
+      showId: item.showId,
+      role,
+      severity: item.severity === "error" ? "critical" : "medium",
+      suggestion: suggestionFor(item, role),
+      ...(item.carriedOver ? { carriedOver: true } : {})
+    };
   });
 
-  return analysis;
+  // Load balancing and role completeness, for the summary
+  const loadBalancing = analyzeLoadBalancing(assignments, activeShows, castMembers, roles.length);
+  const roleCompleteness = analyzeRoleCompleteness(assignments, activeShows, roles);
+  const specialDayHandling = analyzeSpecialDayHandling(specialDays, assignments);
+  
+  // Generate Smart Recommendations
+  const smartRecommendations = generateSmartRecommendations(issues, loadBalancing, consecutiveAnalysis, roleCompleteness, activeShows.length);
+  recommendations.push(...smartRecommendations);
+  if (specialDayHandling.impactOnScheduling === "high") {
+    recommendations.push(`🧳 ${specialDayHandling.totalSpecialDays} special days may impact cast availability - ensure adequate cover around travel and day-off periods`);
+  }
+  
+  // Calculate Overall Score
+  const completionPercentage = calculateCompletionPercentage(assignments, activeShows, roles);
+  const overallScore = calculateOverallScore(issues, completionPercentage, activeShows.length);
+  
+  // Categorize Issues by Severity
+  const criticalErrors = issues.filter(i => i.type === "error" && i.severity === "critical").length;
+  const warnings = issues.filter(i => i.type === "warning").length;
+  
+  return {
+    isValid: criticalErrors === 0 && completionPercentage === 100,
+    overallScore,
+    summary: {
+      totalIssues: issues.length,
+      criticalErrors,
+      warnings,
+      completionPercentage
+    },
+    issues,
+    loadBalancing,
+    consecutiveAnalysis: toPublicAnalysis(consecutiveAnalysis),
+    roleCompleteness,
+    specialDayHandling,
+    recommendations,
+    previousSchedule: carryOver
+      ? { scheduleId: carryOver.scheduleId, week: carryOver.week, location: carryOver.location }
+      : undefined
+  };
 }
 
 export function getConsecutiveShowSuggestions(performer: string, sequence: ConsecutiveSequenceInternal, assignments: Assignment[], activeShows: Show[], formatDateForDisplay: Function, getAlternativePerformers: Function): string {
@@ -512,10 +385,9 @@ function getOverworkedSuggestions(performer: string, assignments: Assignment[],
       const show = activeShows.find(s => s.id === assignment.showId);
       return { assignment, show };
     }).filter(item => item.show)
-      // Most recent first. showSortKey rather than a Date difference: a TBC show
+      // Most recent first. compareShows rather than a Date difference: a TBC show
       // yields NaN, and a NaN comparator silently scrambles the whole order.
-      .sort((a, b) =>
-        showSortKey(b.show!.date, b.show!.time).localeCompare(showSortKey(a.show!.date, a.show!.time)));
+      .sort((a, b) => compareShows(b.show!, a.show!));
     
     // Suggest redistributing 1-2 recent assignments
     for (let i = 0; i < Math.min(2, sortedAssignments.length); i++) {
@@ -570,7 +442,7 @@ function getUnderutilizedSuggestions(performer: string, assignments: Assignment[
   return suggestions.join(", ");
 }
 
-function analyzeLoadBalancing(assignments: Assignment[], activeShows: Show[], castMembers: any[]): LoadBalancingStats[] {
+function analyzeLoadBalancing(assignments: Assignment[], activeShows: Show[], castMembers: any[], rolesPerShow: number): LoadBalancingStats[] {
   const stats: LoadBalancingStats[] = [];
   
   // Calculate show counts per performer
@@ -599,12 +471,12 @@ function analyzeLoadBalancing(assignments: Assignment[], activeShows: Show[], ca
     }
   }
   
-  // Calculate expected range. Every show fields 8 performers, so the expected
-  // per-performer load is (shows × 8 stage slots) / cast size — dividing raw
+  // Calculate expected range. Every show fields one performer per active role,
+  // so the expected per-performer load is (shows × roles) / cast size — dividing raw
   // show count by cast size would flag a normal 4-of-6-shows load as critical.
   const totalShows = activeShows.length;
   const totalPerformers = castMembers.length;
-  const averageShows = totalShows > 0 && totalPerformers > 0 ? (totalShows * 8) / totalPerformers : 0;
+  const averageShows = totalShows > 0 && totalPerformers > 0 ? (totalShows * rolesPerShow) / totalPerformers : 0;
   const expectedMin = Math.max(0, Math.floor(averageShows * 0.7));
   const expectedMax = Math.ceil(averageShows * 1.3);
   
@@ -635,9 +507,7 @@ function analyzeLoadBalancing(assignments: Assignment[], activeShows: Show[], ca
   return stats;
 }
 
-function analyzeRoleCompleteness(assignments: Assignment[], activeShows: Show[]) {
-  const roles = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
-  
+function analyzeRoleCompleteness(assignments: Assignment[], activeShows: Show[], roles: Role[]) {
   return roles.map(role => {
     const roleAssignments = assignments.filter(a => 
       a.role === role && activeShows.some(show => show.id === a.showId)
@@ -671,66 +541,6 @@ function analyzeRoleCompleteness(assignments: Assignment[], activeShows: Show[])
   });
 }
 
-function detectConflictsWithSuggestions(assignments: Assignment[], activeShows: Show[], formatDateForDisplay: Function, getAlternativePerformers: Function): ValidationIssue[] {
-  const issues: ValidationIssue[] = [];
-  
-  // Group assignments by show
-  const showAssignments = new Map<string, Assignment[]>();
-  assignments.forEach(assignment => {
-    if (activeShows.some(show => show.id === assignment.showId)) {
-      if (!showAssignments.has(assignment.showId)) {
-        showAssignments.set(assignment.showId, []);
-      }
-      showAssignments.get(assignment.showId)!.push(assignment);
-    }
-  });
-  
-  // Check for duplicate performers in same show
-  for (const [showId, showAssigns] of showAssignments) {
-    const show = activeShows.find(s => s.id === showId);
-    if (!show) continue;
-    
-    const showDate = formatDateForDisplay(show.date, show.time);
-    const performerCounts = new Map<string, Assignment[]>();
-    
-    showAssigns.forEach(assignment => {
-      if (!performerCounts.has(assignment.performer)) {
-        performerCounts.set(assignment.performer, []);
-      }
-      performerCounts.get(assignment.performer)!.push(assignment);
-    });
-    
-    for (const [performer, duplicateAssignments] of performerCounts) {
-      if (duplicateAssignments.length > 1) {
-        const roles = duplicateAssignments.map(a => a.role);
-        
-        // Suggest alternatives for one of the roles
-        const roleToReassign = roles[1]; // Suggest reassigning the second role
-        const alternatives = getAlternativePerformers(roleToReassign, performer, showId);
-        
-        let suggestion = `${performer} is assigned to multiple roles (${roles.join(", ")})`;
-        if (alternatives.length > 0) {
-          suggestion += ` - reassign ${roleToReassign} to ${alternatives[0]}`;
-        } else {
-          suggestion += " - reassign one role to another available performer";
-        }
-        
-        issues.push({
-          type: "error",
-          category: "conflicts",
-          message: `${performer} is assigned multiple roles in show on ${showDate}`,
-          performer,
-          showId,
-          severity: "critical",
-          suggestion: suggestion
-        });
-      }
-    }
-  }
-  
-  return issues;
-}
-
 function analyzeSpecialDayHandling(specialDays: Show[], assignments: Assignment[]) {
   const travelDays = specialDays.filter(day => day.status === "travel").length;
   const dayOffs = specialDays.filter(day => day.status === "dayoff").length;
@@ -800,12 +610,13 @@ function generateSmartRecommendations(issues: ValidationIssue[], loadBalancing:
   return recommendations;
 }
 
-function calculateCompletionPercentage(assignments: Assignment[], activeShows: Show[]): number {
-  const totalSlots = activeShows.length * 8; // 8 stage roles per show
+function calculateCompletionPercentage(assignments: Assignment[], activeShows: Show[], roles: Role[]): number {
+  const totalSlots = activeShows.length * roles.length; // one slot per active role per show
   // OFF rows are bench bookkeeping, not filled stage slots — counting them
-  // pushes a fully-cast show past 100% (12/8) and breaks the isValid gate.
+  // pushes a fully-cast show past 100% (12/8) and breaks the isValid gate. The
+  // same goes for a leftover cast in a role that has since been deactivated.
   const filledSlots = assignments.filter(assignment =>
-    assignment.role !== "OFF" &&
+    roles.includes(assignment.role) &&
     activeShows.some(show => show.id === assignment.showId)
   ).length;
 
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { scheduleDB } from './db';
+import { listVenues, createVenue, updateVenue, deleteVenue } from './venues';
+import { create } from './create';
+import { get } from './get';
+import { update } from './update';
+import { deleteSchedule } from './delete';
+
+// Runs as 'system' in its own company, like templates.test.ts.
+describe('Venue library', () => {
+  const venueIds: string[] = [];
+  const scheduleIds: string[] = [];
+
+  afterEach(async () => {
+    for (const id of scheduleIds) {
+      try { await deleteSchedule({ id }); } catch { /* already gone */ }
+    }
+    for (const id of venueIds) {
+      try { await deleteVenue({ id }); } catch { /* already gone */ }
+    }
+    await scheduleDB.exec`DELETE FROM venues WHERE company_id = 'other-company'`;
+    await scheduleDB.exec`DELETE FROM companies WHERE id = 'other-company'`;
+    scheduleIds.length = 0;
+    venueIds.length = 0;
+  });
+
+  it('creates, lists, updates and deletes a venue, keeping show times in weekday order', async () => {
+    const created = await createVenue({
+      name: ' Ambassadors Theatre ',
+      city: 'London',
+      country: 'UK',
+      timeZone: 'Europe/London',
+      showTimes: [
+        { dayOffset: 5, time: '20:00' },
+        { dayOffset: 1, time: '19:30' },
+        { dayOffset: 5, time: '15:00' },
+      ],
+      callOffsetMinutes: 75,
+    });
+    venueIds.push(created.venue.id);
+    expect(created.venue).toMatchObject({ name: 'Ambassadors Theatre', address: '', callOffsetMinutes: 75 });
+    expect(created.venue.showTimes).toEqual([
+      { dayOffset: 1, time: '19:30' },
+      { dayOffset: 5, time: '15:00' },
+      { dayOffset: 5, time: '20:00' },
+    ]);
+    expect((await listVenues()).venues.some((v) => v.id === created.venue.id)).toBe(true);
+
+    // A partial update leaves the rest alone.
+    const updated = await updateVenue({ id: created.venue.id, address: '32 West St' });
+    expect(updated.venue).toMatchObject({ address: '32 West St', timeZone: 'Europe/London' });
+    expect(updated.venue.showTimes).toHaveLength(3);
+
+    await deleteVenue({ id: created.venue.id });
+    expect((await listVenues()).venues.some((v) => v.id === created.venue.id)).toBe(false);
+  });
+
+  it('rejects a bad time zone, show time or call offset', async () => {
+    await expect(createVenue({ name: 'X', timeZone: 'Mars/Olympus' })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(createVenue({ name: 'X', showTimes: [{ dayOffset: 7, time: '19:30' }] })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(createVenue({ name: 'X', showTimes: [{ dayOffset: 1, time: '25:00' }] })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(createVenue({ name: 'X', callOffsetMinutes: -5 })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(createVenue({ name: '  ' })).rejects.toMatchObject({ code: 'invalid_argument' });
+  });
+
+  it('links a schedule to a venue, and leaves its label when the venue is deleted', async () => {
+    const venue = (await createVenue({ name: 'Teatro Lope', city: 'Madrid', timeZone: 'Europe/Madrid' })).venue;
+    venueIds.push(venue.id);
+
+    const { schedule } = await create({ location: 'Madrid — Teatro Lope', week: '', shows: [], venueId: venue.id });
+    scheduleIds.push(schedule.id);
+    expect((await get({ id: schedule.id })).schedule.venueId).toBe(venue.id);
+
+    const unlinked = await update({ id: schedule.id, venueId: '' });
+    expect(unlinked.schedule.venueId).toBeUndefined();
+    await update({ id: schedule.id, venueId: venue.id });
+
+    await deleteVenue({ id: venue.id });
+    const after = (await get({ id: schedule.id })).schedule;
+    expect(after.venueId).toBeUndefined();
+    expect(after.location).toBe('Madrid — Teatro Lope');
+  });
+
+  it("gives a linked week's shows the venue's time zone, and a show in another city that city's", async () => {
+    const venue = (await createVenue({ name: 'Teatro Lope', city: 'Madrid', timeZone: 'Europe/Madrid' })).venue;
+    venueIds.push(venue.id);
+
+    const { schedule } = await create({
+      location: 'Madrid — Teatro Lope',
+      week: '',
+      venueId: venue.id,
+      shows: [
+        { id: 'a', date: '2025-07-15', time: '20:00', callTime: '18:30', status: 'show' },
+        { id: 'b', date: '2025-07-17', time: '20:00', callTime: '18:30', status: 'show', location: 'Lisbon' },
+      ],
+    });
+    scheduleIds.push(schedule.id);
+    expect(schedule.shows.map((s) => s.timeZone)).toEqual(['Europe/Madrid', 'Europe/Lisbon']);
+
+    await expect(update({ id: schedule.id, shows: [{ ...schedule.shows[0], timeZone: 'Mars/Olympus' }] }))
+      .rejects.toMatchObject({ code: 'invalid_argument' });
+  });
+
+  it("refuses another company's venue", async () => {
+    await scheduleDB.exec`INSERT INTO companies (id, name) VALUES ('other-company', 'Elsewhere')`;
+    await scheduleDB.exec`
+      INSERT INTO venues (id, company_id, name, created_by) VALUES ('foreign-venue', 'other-company', 'Their venue', 'other-user')
+    `;
+
+    expect((await listVenues()).venues.some((v) => v.id === 'foreign-venue')).toBe(false);
+    await expect(updateVenue({ id: 'foreign-venue', name: 'hacked' })).rejects.toMatchObject({ code: 'not_found' });
+    await expect(create({ location: 'X', week: '', shows: [], venueId: 'foreign-venue' })).rejects.toMatchObject({ code: 'invalid_argument' });
+  });
+});
@@ -0,0 +1,217 @@
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "encore.dev/internal/codegen/auth";
+import type { AuthData } from "../auth/encore_auth";
+import { scheduleDB } from "./db";
+import { currentCompanyId, requireCompanyRole } from "./companies";
+import { isKnownTime } from "./time";
+import { isTimeZone } from "./zones";
+import { Venue, VenueShowTime } from "./types";
+
+export interface ListVenuesResponse {
+  venues: Venue[];
+}
+
+export interface CreateVenueRequest {
+  name: string;
+  city?: string;
+  country?: string;
+  address?: string;
+  timeZone?: string;
+  showTimes?: VenueShowTime[];
+  callOffsetMinutes?: number;
+}
+
+export interface UpdateVenueRequest {
+  id: string;
+  name?: string;
+  city?: string;
+  country?: string;
+  address?: string;
+  timeZone?: string;
+  showTimes?: VenueShowTime[];
+  callOffsetMinutes?: number;
+}
+
+export interface VenueResponse {
+  venue: Venue;
+}
+
+const DEFAULT_CALL_OFFSET_MINUTES = 90;
+
+// show_times is written as JSON.stringify(...), like template slots; read it
+// defensively for the same reason (see parseSlots in templates.ts).
+function parseShowTimes(raw: unknown): VenueShowTime[] {
+  if (Array.isArray(raw)) return raw as VenueShowTime[];
+  if (typeof raw === "string") return JSON.parse(raw) as VenueShowTime[];
+  return [];
+}
+
+export function venueFromRow(row: Record<string, any>): Venue {
+  return {
+    id: row.id,
+    name: row.name,
+    city: row.city,
+    country: row.country,
+    address: row.address,
+    timeZone: row.time_zone,
+    showTimes: parseShowTimes(row.show_times),
+    callOffsetMinutes: row.call_offset_minutes
+  };
+}
+
+// A venue's fields trimmed and checked, with its show times in weekday order.
+function checkedVenue(venue: Omit<Venue, "id">): Omit<Venue, "id"> {
+  const name = venue.name.trim();
+  if (!name) {
+    throw APIError.invalidArgument("a venue needs a name");
+  }
+  const timeZone = venue.timeZone.trim();
+  if (timeZone && !isTimeZone(timeZone)) {
+    throw APIError.invalidArgument(`${timeZone} is not a time zone`);
+  }
+  for (const t of venue.showTimes) {
+    if (!Number.isInteger(t.dayOffset) || t.dayOffset < 0 || t.dayOffset > 6) {
+      throw APIError.invalidArgument("a show time's dayOffset must be 0 (Monday) to 6 (Sunday)");
+    }
+    if (!isKnownTime(t.time) || t.time > "23:59" || t.time.slice(3) > "59") {
+      throw APIError.invalidArgument(`${t.time} is not a time of day (HH:MM)`);
+    }
+  }
+  const offset = venue.callOffsetMinutes;
+  if (!Number.isInteger(offset) || offset < 0 || offset > 600) {
+    throw APIError.invalidArgument("callOffsetMinutes must be a whole number of minutes from 0 to 600");
+  }
+  const showTimes = venue.showTimes
+    .filter((t, i, all) => all.findIndex(o => o.dayOffset === t.dayOffset && o.time === t.time) === i)
+    .sort((a, b) => a.dayOffset - b.dayOffset || a.time.localeCompare(b.time))
+    .map(({ dayOffset, time }) => ({ dayOffset, time }));
+  return {
+    name,
+    city: venue.city.trim(),
+    country: venue.country.trim(),
+    address: venue.address.trim(),
+    timeZone,
+    showTimes,
+    callOffsetMinutes: offset
+  };
+}
+
+// The current company's venue with this id. A schedule or tour week naming a
+// venue from another company, or one since deleted, is refused.
+export async function requireVenue(companyId: string, venueId: string): Promise<Venue> {
+  const row = await scheduleDB.queryRow`
+    SELECT id, name, city, country, address, time_zone, show_times, call_offset_minutes
+    FROM venues WHERE id = ${venueId} AND company_id = ${companyId}
+  `;
+  if (!row) {
+    throw APIError.invalidArgument("venue not found");
+  }
+  return venueFromRow(row);
+}
+
+// Lists the current company's venues by name.
+export const listVenues = api<void, ListVenuesResponse>(
+  { expose: true, method: "GET", path: "/venues", auth: true },
+  async () => {
+    const companyId = await currentCompanyId();
+
+    const rows = await scheduleDB.queryAll`
+      SELECT id, name, city, country, address, time_zone, show_times, call_offset_minutes
+      FROM venues
+      WHERE company_id = ${companyId}
+      ORDER BY LOWER(name)
+    `;
+
+    return { venues: rows.map(venueFromRow) };
+  }
+);
+
+// Adds a venue to the current company's library.
+export const createVenue = api<CreateVenueRequest, VenueResponse>(
+  { expose: true, method: "POST", path: "/venues", auth: true },
+  async (req) => {
+    const authData = await getAuthData<AuthData>();
+    const userId = authData?.userID ?? "system";
+    const companyId = await requireCompanyRole("manager");
+
+    const venue = checkedVenue({
+      name: req.name,
+      city: req.city ?? "",
+      country: req.country ?? "",
+      address: req.address ?? "",
+      timeZone: req.timeZone ?? "",
+      showTimes: req.showTimes ?? [],
+      callOffsetMinutes: req.callOffsetMinutes ?? DEFAULT_CALL_OFFSET_MINUTES
+    });
+    const id = generateId();
+    const now = new Date();
+
+    await scheduleDB.exec`
+      INSERT INTO venues (id, company_id, name, city, country, address, time_zone, show_times, call_offset_minutes, created_by, created_at, updated_at)
+      VALUES (${id}, ${companyId}, ${venue.name}, ${venue.city}, ${venue.country}, ${venue.address}, ${venue.timeZone}, ${JSON.stringify(venue.showTimes)}, ${venue.callOffsetMinutes}, ${userId}, ${now}, ${now})
+    `;
+
+    return { venue: { id, ...venue } };
+  }
+);
+
+// Updates a venue in place. Weeks already set up there keep their times; the
+// new defaults seed weeks made from now on.
+export const updateVenue = api<UpdateVenueRequest, VenueResponse>(
+  { expose: true, method: "PUT", path: "/venues/:id", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager");
+
+    const row = await scheduleDB.queryRow`
+      SELECT id, name, city, country, address, time_zone, show_times, call_offset_minutes
+      FROM venues WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!row) {
+      throw APIError.notFound("venue not found");
+    }
+    const existing = venueFromRow(row);
+
+    const venue = checkedVenue({
+      name: req.name ?? existing.name,
+      city: req.city ?? existing.city,
+      country: req.country ?? existing.country,
+      address: req.address ?? existing.address,
+      timeZone: req.timeZone ?? existing.timeZone,
+      showTimes: req.showTimes ?? existing.showTimes,
+      callOffsetMinutes: req.callOffsetMinutes ?? existing.callOffsetMinutes
+    });
+
+    await scheduleDB.exec`
+      UPDATE venues
+      SET name = ${venue.name}, city = ${venue.city}, country = ${venue.country}, address = ${venue.address},
+          time_zone = ${venue.timeZone}, show_times = ${JSON.stringify(venue.showTimes)},
+          call_offset_minutes = ${venue.callOffsetMinutes}, updated_at = ${new Date()}
+      WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+
+    return { venue: { id: req.id, ...venue } };
+  }
+);
+
+// Deletes a venue. Its weeks stay, unlinked, under the label they already have.
+export const deleteVenue = api<{ id: string }, void>(
+  { expose: true, method: "DELETE", path: "/venues/:id", auth: true },
+  async (req) => {
+    const companyId = await requireCompanyRole("manager");
+
+    const existing = await scheduleDB.queryRow`
+      SELECT id FROM venues WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+    if (!existing) {
+      throw APIError.notFound("venue not found");
+    }
+
+    await scheduleDB.exec`
+      DELETE FROM venues WHERE id = ${req.id} AND company_id = ${companyId}
+    `;
+  }
+);
+
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { unknownShowZone, withShowZones, zoneForCity } from './zones';
+import type { Show } from './types';
+
+const show = (id: string, extra: Partial<Show> = {}): Show =>
+  ({ id, date: '2025-07-15', time: '19:30', callTime: '18:00', status: 'show', ...extra });
+
+describe('zoneForCity', () => {
+  it('reads the city from a week label', () => {
+    expect(zoneForCity('London')).toBe('Europe/London');
+    expect(zoneForCity('London — Ambassadors Theatre')).toBe('Europe/London');
+    expect(zoneForCity('paris, France')).toBe('Europe/Paris');
+  });
+
+  it('knows nothing of a city outside its table', () => {
+    expect(zoneForCity('Hebden Bridge')).toBeUndefined();
+  });
+});
+
+describe('withShowZones', () => {
+  it("gives the week's own shows the venue's zone, and another city's shows that city's", () => {
+    const shows = withShowZones([show('a'), show('b', { location: 'Paris' })], 'London', 'Europe/Dublin');
+    expect(shows.map(s => s.timeZone)).toEqual(['Europe/Dublin', 'Europe/Paris']);
+  });
+
+  it("falls back to the city's zone without a venue zone, and keeps a zone already set", () => {
+    const shows = withShowZones([show('a'), show('b', { timeZone: 'Asia/Tokyo' })], 'London', '');
+    expect(shows.map(s => s.timeZone)).toEqual(['Europe/London', 'Asia/Tokyo']);
+  });
+
+  it('leaves a show zoneless when nothing says where it is', () => {
+    expect(withShowZones([show('a')], 'Hebden Bridge')[0].timeZone).toBeUndefined();
+  });
+});
+
+describe('unknownShowZone', () => {
+  it('names the first zone that is not one', () => {
+    expect(unknownShowZone([show('a', { timeZone: 'Europe/London' }), show('b', { timeZone: 'Mars/Olympus' })])).toBe('Mars/Olympus');
+    expect(unknownShowZone([show('a'), show('b', { timeZone: '' })])).toBeUndefined();
+  });
+});
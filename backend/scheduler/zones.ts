@@ -0,0 +1,119 @@
+/**
+ * Which time zone a show is played in.
+ *
+ * A show's times are the wall clock where it is played, and Show.timeZone
+ * names that zone. A show saved without one takes its venue's zone, or failing
+ * that its city's from the table below; a city the table doesn't know leaves
+ * the show zoneless, which the time maths reads as UTC. Within one zone that
+ * is harmless, and the editor asks for the zone of every city in the week.
+ *
+ * Like time.ts, this module has no runtime imports, so the frontend can use it
+ * through the `~backend` alias.
+ */
+
+import type { Show } from "./types";
+
+// Cities the company tours to most, by lower-case name. Not exhaustive: a
+// venue's own zone always wins, and the editor can set any other.
+const CITY_ZONES: Record<string, string> = {
+  amsterdam: "Europe/Amsterdam",
+  antwerp: "Europe/Brussels",
+  athens: "Europe/Athens",
+  auckland: "Pacific/Auckland",
+  barcelona: "Europe/Madrid",
+  belfast: "Europe/London",
+  berlin: "Europe/Berlin",
+  birmingham: "Europe/London",
+  boston: "America/New_York",
+  brighton: "Europe/London",
+  brisbane: "Australia/Brisbane",
+  bristol: "Europe/London",
+  brussels: "Europe/Brussels",
+  budapest: "Europe/Budapest",
+  cardiff: "Europe/London",
+  chicago: "America/Chicago",
+  cologne: "Europe/Berlin",
+  copenhagen: "Europe/Copenhagen",
+  dubai: "Asia/Dubai",
+  dublin: "Europe/Dublin",
+  edinburgh: "Europe/London",
+  frankfurt: "Europe/Berlin",
+  geneva: "Europe/Zurich",
+  glasgow: "Europe/London",
+  hamburg: "Europe/Berlin",
+  helsinki: "Europe/Helsinki",
+  "hong kong": "Asia/Hong_Kong",
+  istanbul: "Europe/Istanbul",
+  lisbon: "Europe/Lisbon",
+  liverpool: "Europe/London",
+  london: "Europe/London",
+  "los angeles": "America/Los_Angeles",
+  luxembourg: "Europe/Luxembourg",
+  lyon: "Europe/Paris",
+  madrid: "Europe/Madrid",
+  manchester: "Europe/London",
+  melbourne: "Australia/Melbourne",
+  milan: "Europe/Rome",
+  montreal: "America/Toronto",
+  munich: "Europe/Berlin",
+  "new york": "America/New_York",
+  newcastle: "Europe/London",
+  oslo: "Europe/Oslo",
+  paris: "Europe/Paris",
+  prague: "Europe/Prague",
+  rome: "Europe/Rome",
+  rotterdam: "Europe/Amsterdam",
+  "san francisco": "America/Los_Angeles",
+  seoul: "Asia/Seoul",
+  shanghai: "Asia/Shanghai",
+  singapore: "Asia/Singapore",
+  stockholm: "Europe/Stockholm",
+  sydney: "Australia/Sydney",
+  "tel aviv": "Asia/Jerusalem",
+  tokyo: "Asia/Tokyo",
+  toronto: "America/Toronto",
+  vancouver: "America/Vancouver",
+  vienna: "Europe/Vienna",
+  warsaw: "Europe/Warsaw",
+  washington: "America/New_York",
+  zurich: "Europe/Zurich",
+};
+
+/** Whether the runtime knows `zone` as an IANA time zone. */
+export function isTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The first zone named on a show that isn't one, for the save to refuse. */
+export function unknownShowZone(shows: Show[]): string | undefined {
+  return shows.find(show => show.timeZone && !isTimeZone(show.timeZone))?.timeZone;
+}
+
+/**
+ * The zone of a city as a week names it: "London", "London — Ambassadors
+ * Theatre" or "Paris, France" all read as their first part. Undefined for a
+ * city the table doesn't know.
+ */
+export function zoneForCity(city: string): string | undefined {
+  const name = city.split(/\s+[—–-]\s+|,/)[0].trim().toLowerCase();
+  return CITY_ZONES[name];
+}
+
+/**
+ * The week's shows with a zone on each that lacks one. A show in the week's
+ * own city takes the venue's zone, then the city's; a show in another city
+ * (see Show.location) takes that city's. A zone already set is kept.
+ */
+export function withShowZones(shows: Show[], location: string, venueZone?: string): Show[] {
+  return shows.map(show => {
+    if (show.timeZone) return show;
+    const elsewhere = show.location?.trim();
+    const timeZone = elsewhere ? zoneForCity(elsewhere) : venueZone || zoneForCity(location);
+    return timeZone ? { ...show, timeZone } : show;
+  });
+}
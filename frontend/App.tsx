@@ -8,6 +8,8 @@ import { ScheduleEditorScreen } from '@/screens/ScheduleEditorScreen';
 import { CompanyScreen } from '@/screens/CompanyScreen';
 import { ToursScreen } from '@/screens/ToursScreen';
 import { TemplatesScreen } from '@/screens/TemplatesScreen';
+import { VenuesScreen } from '@/screens/VenuesScreen';
+import { RulesScreen } from '@/screens/RulesScreen';
 import { ResetPasswordScreen } from '@/screens/ResetPasswordScreen';
 import { FEATURE_FLAGS } from '@/config/features';
 
@@ -47,6 +49,8 @@ function AppRoutes() {
         <Route path="/schedule/new" element={<ScheduleEditorScreen />} />
         <Route path="/schedule/:id" element={<ScheduleEditorScreen />} />
         <Route path="/templates" element={<TemplatesScreen />} />
+        <Route path="/venues" element={<VenuesScreen />} />
+        <Route path="/rules" element={<RulesScreen />} />
         <Route path="/company" element={<CompanyScreen />} />
         {FEATURE_FLAGS.MULTI_COUNTRY_TOURS && (
           <Route path="/tours" element={<ToursScreen />} />
@@ -216,7 +216,31 @@ export namespace auth {
  * Import the endpoint handlers to derive the types for the client.
  */
 import { autoGenerate as api_scheduler_auto_generate_autoGenerate } from "~backend/scheduler/auto_generate";
-import { getCastMembers as api_scheduler_cast_members_getCastMembers } from "~backend/scheduler/cast_members";
+import {
+    addUnavailability as api_scheduler_availability_addUnavailability,
+    deleteUnavailability as api_scheduler_availability_deleteUnavailability,
+    listUnavailability as api_scheduler_availability_listUnavailability,
+    updateUnavailability as api_scheduler_availability_updateUnavailability
+} from "~backend/scheduler/availability";
+import {
+    calendarFeed as api_scheduler_calendar_calendarFeed,
+    downloadCalendar as api_scheduler_calendar_downloadCalendar,
+    rotateCalendarFeed as api_scheduler_calendar_rotateCalendarFeed
+} from "~backend/scheduler/calendar";
+import { generateCandidates as api_scheduler_candidates_generateCandidates } from "~backend/scheduler/candidates";
+import {
+    getCastMembers as api_scheduler_cast_members_getCastMembers,
+    getScheduleCast as api_scheduler_cast_members_getScheduleCast
+} from "~backend/scheduler/cast_members";
+import {
+    addCompanyUser as api_scheduler_companies_addCompanyUser,
+    createCompany as api_scheduler_companies_createCompany,
+    listCompanies as api_scheduler_companies_listCompanies,
+    listCompanyUsers as api_scheduler_companies_listCompanyUsers,
+    renameCompany as api_scheduler_companies_renameCompany,
+    setCompanyUserRole as api_scheduler_companies_setCompanyUserRole,
+    switchCompany as api_scheduler_companies_switchCompany
+} from "~backend/scheduler/companies";
 import {
     addMember as api_scheduler_company_addMember,
     deleteMember as api_scheduler_company_deleteMember,
@@ -224,10 +248,37 @@ import {
     reorderMembers as api_scheduler_company_reorderMembers,
     updateMember as api_scheduler_company_updateMember
 } from "~backend/scheduler/company";
+import { coverAbsences as api_scheduler_cover_coverAbsences } from "~backend/scheduler/cover";
 import { create as api_scheduler_create_create } from "~backend/scheduler/create";
 import { deleteSchedule as api_scheduler_delete_deleteSchedule } from "~backend/scheduler/delete";
+import {
+    getGeneration as api_scheduler_generations_getGeneration,
+    listGenerations as api_scheduler_generations_listGenerations,
+    replayGeneration as api_scheduler_generations_replayGeneration
+} from "~backend/scheduler/generations";
 import { get as api_scheduler_get_get } from "~backend/scheduler/get";
 import { list as api_scheduler_list_list } from "~backend/scheduler/list";
+import { liveSchedule as api_scheduler_live_liveSchedule } from "~backend/scheduler/live";
+import {
+    diffRevisions as api_scheduler_revisions_diffRevisions,
+    getRevision as api_scheduler_revisions_getRevision,
+    listRevisions as api_scheduler_revisions_listRevisions,
+    restoreRevision as api_scheduler_revisions_restoreRevision
+} from "~backend/scheduler/revisions";
+import {
+    createRuleProfile as api_scheduler_rule_profiles_createRuleProfile,
+    deleteRuleProfile as api_scheduler_rule_profiles_deleteRuleProfile,
+    listRuleProfiles as api_scheduler_rule_profiles_listRuleProfiles,
+    setCompanyRuleProfile as api_scheduler_rule_profiles_setCompanyRuleProfile,
+    updateRuleProfile as api_scheduler_rule_profiles_updateRuleProfile
+} from "~backend/scheduler/rule_profiles";
+import {
+    addRole as api_scheduler_roles_addRole,
+    deleteRole as api_scheduler_roles_deleteRole,
+    listRoles as api_scheduler_roles_listRoles,
+    updateRole as api_scheduler_roles_updateRole
+} from "~backend/scheduler/roles";
+import { suggestCellSwaps as api_scheduler_swaps_suggestCellSwaps } from "~backend/scheduler/swaps";
 import {
     createTemplate as api_scheduler_templates_createTemplate,
     deleteTemplate as api_scheduler_templates_deleteTemplate,
@@ -235,15 +286,27 @@ import {
     updateTemplate as api_scheduler_templates_updateTemplate
 } from "~backend/scheduler/templates";
 import { toggleRedDay as api_scheduler_toggle_red_day_toggleRedDay } from "~backend/scheduler/toggle_red_day";
+import { tourHealth as api_scheduler_tour_health_tourHealth } from "~backend/scheduler/tour_health";
 import {
+    addTourWeek as api_scheduler_tours_addTourWeek,
     createTourBulk as api_scheduler_tours_createTourBulk,
     deleteTour as api_scheduler_tours_deleteTour,
     deleteTourWeek as api_scheduler_tours_deleteTourWeek,
-    getTours as api_scheduler_tours_getTours
+    generateTour as api_scheduler_tours_generateTour,
+    getTours as api_scheduler_tours_getTours,
+    reorderTourWeeks as api_scheduler_tours_reorderTourWeeks,
+    updateTour as api_scheduler_tours_updateTour,
+    updateTourCast as api_scheduler_tours_updateTourCast
 } from "~backend/scheduler/tours";
 import { update as api_scheduler_update_update } from "~backend/scheduler/update";
 import { validate as api_scheduler_validate_validate } from "~backend/scheduler/validate";
 import { validateComprehensive as api_scheduler_validate_comprehensive_validateComprehensive } from "~backend/scheduler/validate_comprehensive";
+import {
+    createVenue as api_scheduler_venues_createVenue,
+    deleteVenue as api_scheduler_venues_deleteVenue,
+    listVenues as api_scheduler_venues_listVenues,
+    updateVenue as api_scheduler_venues_updateVenue
+} from "~backend/scheduler/venues";
 
 export namespace scheduler {
 
@@ -252,31 +315,90 @@ export namespace scheduler {
 
         constructor(baseClient: BaseClient) {
             this.baseClient = baseClient
+            this.addCompanyUser = this.addCompanyUser.bind(this)
             this.addMember = this.addMember.bind(this)
+            this.addRole = this.addRole.bind(this)
+            this.addTourWeek = this.addTourWeek.bind(this)
+            this.addUnavailability = this.addUnavailability.bind(this)
             this.autoGenerate = this.autoGenerate.bind(this)
+            this.calendarFeed = this.calendarFeed.bind(this)
+            this.coverAbsences = this.coverAbsences.bind(this)
             this.create = this.create.bind(this)
+            this.createCompany = this.createCompany.bind(this)
+            this.createRuleProfile = this.createRuleProfile.bind(this)
             this.createTemplate = this.createTemplate.bind(this)
             this.createTourBulk = this.createTourBulk.bind(this)
+            this.createVenue = this.createVenue.bind(this)
             this.deleteMember = this.deleteMember.bind(this)
+            this.deleteRole = this.deleteRole.bind(this)
+            this.deleteRuleProfile = this.deleteRuleProfile.bind(this)
             this.deleteSchedule = this.deleteSchedule.bind(this)
             this.deleteTemplate = this.deleteTemplate.bind(this)
             this.deleteTour = this.deleteTour.bind(this)
             this.deleteTourWeek = this.deleteTourWeek.bind(this)
+            this.deleteUnavailability = this.deleteUnavailability.bind(this)
+            this.deleteVenue = this.deleteVenue.bind(this)
+            this.diffRevisions = this.diffRevisions.bind(this)
+            this.downloadCalendar = this.downloadCalendar.bind(this)
+            this.generateCandidates = this.generateCandidates.bind(this)
+            this.generateTour = this.generateTour.bind(this)
             this.get = this.get.bind(this)
             this.getCastMembers = this.getCastMembers.bind(this)
             this.getCompany = this.getCompany.bind(this)
+            this.getGeneration = this.getGeneration.bind(this)
+            this.getRevision = this.getRevision.bind(this)
+            this.getScheduleCast = this.getScheduleCast.bind(this)
             this.getTours = this.getTours.bind(this)
             this.list = this.list.bind(this)
+            this.listCompanies = this.listCompanies.bind(this)
+            this.listCompanyUsers = this.listCompanyUsers.bind(this)
+            this.listGenerations = this.listGenerations.bind(this)
+            this.listRevisions = this.listRevisions.bind(this)
+            this.listRoles = this.listRoles.bind(this)
+            this.listRuleProfiles = this.listRuleProfiles.bind(this)
             this.listTemplates = this.listTemplates.bind(this)
+            this.listUnavailability = this.listUnavailability.bind(this)
+            this.listVenues = this.listVenues.bind(this)
+            this.liveSchedule = this.liveSchedule.bind(this)
+            this.renameCompany = this.renameCompany.bind(this)
             this.reorderMembers = this.reorderMembers.bind(this)
+            this.reorderTourWeeks = this.reorderTourWeeks.bind(this)
+            this.replayGeneration = this.replayGeneration.bind(this)
+            this.restoreRevision = this.restoreRevision.bind(this)
+            this.rotateCalendarFeed = this.rotateCalendarFeed.bind(this)
+            this.setCompanyRuleProfile = this.setCompanyRuleProfile.bind(this)
+            this.setCompanyUserRole = this.setCompanyUserRole.bind(this)
+            this.subscribeCalendar = this.subscribeCalendar.bind(this)
+            this.suggestCellSwaps = this.suggestCellSwaps.bind(this)
+            this.switchCompany = this.switchCompany.bind(this)
             this.toggleRedDay = this.toggleRedDay.bind(this)
+            this.tourHealth = this.tourHealth.bind(this)
             this.update = this.update.bind(this)
             this.updateMember = this.updateMember.bind(this)
+            this.updateRole = this.updateRole.bind(this)
+            this.updateRuleProfile = this.updateRuleProfile.bind(this)
             this.updateTemplate = this.updateTemplate.bind(this)
+            this.updateTour = this.updateTour.bind(this)
+            this.updateTourCast = this.updateTourCast.bind(this)
+            this.updateUnavailability = this.updateUnavailability.bind(this)
+            this.updateVenue = this.updateVenue.bind(this)
             this.validate = this.validate.bind(this)
             this.validateComprehensive = this.validateComprehensive.bind(this)
         }
 
+        /**
+         * Gives another account access to a company. Admins only.
+         */
+        public async addCompanyUser(params: RequestType<typeof api_scheduler_companies_addCompanyUser>): Promise<void> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                email: params.email,
+                role:  params.role,
+            }
+
+            await this.baseClient.callTypedAPI(`/companies/${encodeURIComponent(params.id)}/users`, {method: "POST", body: JSON.stringify(body)})
+        }
+
         /**
          * Adds a new cast member to the company.
          */
@@ -286,6 +408,49 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_company_addMember>
         }
 
+        /**
+         * Adds a role to the end of the catalogue. The catalogue is shared by every
+         * company, so editing it takes an admin.
+         */
+        public async addRole(params: RequestType<typeof api_scheduler_roles_addRole>): Promise<ResponseType<typeof api_scheduler_roles_addRole>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/roles`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_roles_addRole>
+        }
+
+        /**
+         * Adds a week to a tour segment from client-resolved shows, filled from the
+         * segment's cast like a bulk-created week. With shiftFollowing the weeks from
+         * its start date on move a week later to make room.
+         */
+        public async addTourWeek(params: RequestType<typeof api_scheduler_tours_addTourWeek>): Promise<ResponseType<typeof api_scheduler_tours_addTourWeek>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                shiftFollowing: params.shiftFollowing,
+                week:           params.week,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/api/tours/${encodeURIComponent(params.id)}/weeks`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_tours_addTourWeek>
+        }
+
+        /**
+         * Records dates a cast member cannot work.
+         */
+        public async addUnavailability(params: RequestType<typeof api_scheduler_availability_addUnavailability>): Promise<ResponseType<typeof api_scheduler_availability_addUnavailability>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                endDate:   params.endDate,
+                reason:    params.reason,
+                startDate: params.startDate,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/members/${encodeURIComponent(params.memberId)}/unavailability`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_availability_addUnavailability>
+        }
+
         /**
          * Generates optimal cast assignments for the given shows using constraint satisfaction.
          */
@@ -295,6 +460,31 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_auto_generate_autoGenerate>
         }
 
+        /**
+         * Returns the subscription feed for a performer or the company, creating it on first use.
+         */
+        public async calendarFeed(params: RequestType<typeof api_scheduler_calendar_calendarFeed>): Promise<ResponseType<typeof api_scheduler_calendar_calendarFeed>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/calendar/feeds`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_calendar_calendarFeed>
+        }
+
+        /**
+         * Plans ranked minimal-change patches covering performers who are out for some
+         * of a saved week's shows. Nothing is saved.
+         */
+        public async coverAbsences(params: RequestType<typeof api_scheduler_cover_coverAbsences>): Promise<ResponseType<typeof api_scheduler_cover_coverAbsences>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                absences: params.absences,
+                count:    params.count,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/cover`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_cover_coverAbsences>
+        }
+
         /**
          * Creates a new schedule.
          */
@@ -305,7 +495,26 @@ export namespace scheduler {
         }
 
         /**
-         * Creates a template owned by the authenticated user. Slots are stored verbatim.
+         * Creates a company with an empty roster, makes the caller its admin and
+         * switches them to it.
+         */
+        public async createCompany(params: RequestType<typeof api_scheduler_companies_createCompany>): Promise<ResponseType<typeof api_scheduler_companies_createCompany>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/companies`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_companies_createCompany>
+        }
+
+        /**
+         * Adds a rule profile to the current company's library.
+         */
+        public async createRuleProfile(params: RequestType<typeof api_scheduler_rule_profiles_createRuleProfile>): Promise<ResponseType<typeof api_scheduler_rule_profiles_createRuleProfile>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/rule-profiles`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_rule_profiles_createRuleProfile>
+        }
+
+        /**
+         * Creates a template in the current company. Slots are stored verbatim.
          */
         public async createTemplate(params: RequestType<typeof api_scheduler_templates_createTemplate>): Promise<ResponseType<typeof api_scheduler_templates_createTemplate>> {
             // Now make the actual call to the API
@@ -322,6 +531,15 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_tours_createTourBulk>
         }
 
+        /**
+         * Adds a venue to the current company's library.
+         */
+        public async createVenue(params: RequestType<typeof api_scheduler_venues_createVenue>): Promise<ResponseType<typeof api_scheduler_venues_createVenue>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/venues`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_venues_createVenue>
+        }
+
         /**
          * Deletes a cast member permanently.
          */
@@ -329,6 +547,22 @@ export namespace scheduler {
             await this.baseClient.callTypedAPI(`/company/members/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
         }
 
+        /**
+         * Deletes a role nobody is eligible for. A role still on someone's eligibility
+         * list is in use — deactivate it instead.
+         */
+        public async deleteRole(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/company/roles/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Deletes a rule profile. The company and tours that used it go back to the
+         * company's profile or the built-in rules.
+         */
+        public async deleteRuleProfile(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/rule-profiles/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
         /**
          * Deletes a schedule.
          */
@@ -337,7 +571,7 @@ export namespace scheduler {
         }
 
         /**
-         * Deletes a template owned by the authenticated user.
+         * Deletes a template from the current company.
          */
         public async deleteTemplate(params: { id: string }): Promise<void> {
             await this.baseClient.callTypedAPI(`/templates/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
@@ -353,14 +587,91 @@ export namespace scheduler {
         }
 
         /**
-         * Deletes a specific week from a tour
+         * Deletes a specific week from a tour, optionally moving the later weeks up
+         * to close the gap
          */
-        public async deleteTourWeek(params: { tourId: string, weekId: string }): Promise<ResponseType<typeof api_scheduler_tours_deleteTourWeek>> {
+        public async deleteTourWeek(params: RequestType<typeof api_scheduler_tours_deleteTourWeek>): Promise<ResponseType<typeof api_scheduler_tours_deleteTourWeek>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                closeGap: params.closeGap === undefined ? undefined : String(params.closeGap),
+            })
+
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI(`/api/tours/${encodeURIComponent(params.tourId)}/weeks/${encodeURIComponent(params.weekId)}`, {method: "DELETE", body: undefined})
+            const resp = await this.baseClient.callTypedAPI(`/api/tours/${encodeURIComponent(params.tourId)}/weeks/${encodeURIComponent(params.weekId)}`, {query, method: "DELETE", body: undefined})
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_tours_deleteTourWeek>
         }
 
+        /**
+         * Deletes an unavailability window.
+         */
+        public async deleteUnavailability(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/company/unavailability/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Deletes a venue. Its weeks stay, unlinked, under the label they already have.
+         */
+        public async deleteVenue(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/venues/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Compares two revisions of a schedule: show columns, casting and RED days.
+         */
+        public async diffRevisions(params: RequestType<typeof api_scheduler_revisions_diffRevisions>): Promise<ResponseType<typeof api_scheduler_revisions_diffRevisions>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                from: params.from === undefined ? undefined : String(params.from),
+                to:   params.to === undefined ? undefined : String(params.to),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/diff`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_revisions_diffRevisions>
+        }
+
+        /**
+         * Downloads the current company's published schedules as an .ics file.
+         */
+        public async downloadCalendar(params: RequestType<typeof api_scheduler_calendar_downloadCalendar>): Promise<ResponseType<typeof api_scheduler_calendar_downloadCalendar>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                performer: params.performer === undefined ? undefined : String(params.performer),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/calendar/download`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_calendar_downloadCalendar>
+        }
+
+        /**
+         * Generates several different weeks for the same shows, each scored like
+         * validateComprehensive, so one can be picked and applied. Nothing is saved.
+         */
+        public async generateCandidates(params: RequestType<typeof api_scheduler_candidates_generateCandidates>): Promise<ResponseType<typeof api_scheduler_candidates_generateCandidates>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/candidates`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_candidates_generateCandidates>
+        }
+
+        /**
+         * Auto-generates every week of a tour in chronological order. Each week sees
+         * the one before it (runs and RED days carry over) and the tour's running
+         * totals (show counts and RED weekdays are balanced across the whole tour).
+         * A week that fails is left as it was and reported; the rest still run.
+         */
+        public async generateTour(params: RequestType<typeof api_scheduler_tours_generateTour>): Promise<ResponseType<typeof api_scheduler_tours_generateTour>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                replaceExisting: params.replaceExisting,
+                seed: params.seed,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/api/tours/${encodeURIComponent(params.id)}/generate`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_tours_generateTour>
+        }
+
         /**
          * Retrieves a schedule by ID.
          */
@@ -388,6 +699,33 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_company_getCompany>
         }
 
+        /**
+         * Retrieves one run with its inputs and outcome.
+         */
+        public async getGeneration(params: { id: string }): Promise<ResponseType<typeof api_scheduler_generations_getGeneration>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/generations/${encodeURIComponent(params.id)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_generations_getGeneration>
+        }
+
+        /**
+         * Retrieves one revision of a schedule in full.
+         */
+        public async getRevision(params: RequestType<typeof api_scheduler_revisions_getRevision>): Promise<ResponseType<typeof api_scheduler_revisions_getRevision>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/revisions/${encodeURIComponent(params.revision)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_revisions_getRevision>
+        }
+
+        /**
+         * Retrieves the cast a schedule is worked against: its tour segment's, or the company's.
+         */
+        public async getScheduleCast(params: { id: string }): Promise<ResponseType<typeof api_scheduler_cast_members_getScheduleCast>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/cast`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_cast_members_getScheduleCast>
+        }
+
         /**
          * Gets all tours with their weeks, optionally grouped by parent tour
          */
@@ -403,7 +741,8 @@ export namespace scheduler {
         }
 
         /**
-         * Retrieves all schedules for the authenticated user, ordered by creation date (latest first).
+         * Retrieves all schedules in the current company, ordered by creation date (latest first).
+         * Viewers only get published ones.
          */
         public async list(): Promise<ResponseType<typeof api_scheduler_list_list>> {
             // Now make the actual call to the API
@@ -412,7 +751,61 @@ export namespace scheduler {
         }
 
         /**
-         * Lists the authenticated user's templates, most-recently-updated first.
+         * Lists the companies the caller belongs to.
+         */
+        public async listCompanies(): Promise<ResponseType<typeof api_scheduler_companies_listCompanies>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/companies`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_companies_listCompanies>
+        }
+
+        /**
+         * Lists who belongs to a company and as what.
+         */
+        public async listCompanyUsers(params: { id: string }): Promise<ResponseType<typeof api_scheduler_companies_listCompanyUsers>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/companies/${encodeURIComponent(params.id)}/users`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_companies_listCompanyUsers>
+        }
+
+        /**
+         * Lists the runs that generated a schedule, newest first.
+         */
+        public async listGenerations(params: { id: string }): Promise<ResponseType<typeof api_scheduler_generations_listGenerations>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/generations`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_generations_listGenerations>
+        }
+
+        /**
+         * Lists a schedule's revisions, newest first.
+         */
+        public async listRevisions(params: { id: string }): Promise<ResponseType<typeof api_scheduler_revisions_listRevisions>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/revisions`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_revisions_listRevisions>
+        }
+
+        /**
+         * Lists the role catalogue.
+         */
+        public async listRoles(): Promise<ResponseType<typeof api_scheduler_roles_listRoles>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/roles`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_roles_listRoles>
+        }
+
+        /**
+         * Lists the current company's rule profiles by name.
+         */
+        public async listRuleProfiles(): Promise<ResponseType<typeof api_scheduler_rule_profiles_listRuleProfiles>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/rule-profiles`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_rule_profiles_listRuleProfiles>
+        }
+
+        /**
+         * Lists the current company's templates, most-recently-updated first.
          */
         public async listTemplates(): Promise<ResponseType<typeof api_scheduler_templates_listTemplates>> {
             // Now make the actual call to the API
@@ -420,6 +813,46 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_templates_listTemplates>
         }
 
+        /**
+         * Lists every recorded unavailability window, earliest first.
+         */
+        public async listUnavailability(): Promise<ResponseType<typeof api_scheduler_availability_listUnavailability>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/unavailability`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_availability_listUnavailability>
+        }
+
+        /**
+         * Lists the current company's venues by name.
+         */
+        public async listVenues(): Promise<ResponseType<typeof api_scheduler_venues_listVenues>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/venues`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_venues_listVenues>
+        }
+
+        /**
+         * Joins the live session for a schedule: presence, focused cells, cell edits
+         * as they happen and saves. Managers and admins only, like editing.
+         */
+        public async liveSchedule(params: { id: string }): Promise<StreamInOut<StreamRequest<typeof api_scheduler_live_liveSchedule>, StreamResponse<typeof api_scheduler_live_liveSchedule>>> {
+            return await this.baseClient.createStreamInOut(`/schedules/${encodeURIComponent(params.id)}/live`)
+        }
+
+        /**
+         * Renames a company. Admins only.
+         */
+        public async renameCompany(params: RequestType<typeof api_scheduler_companies_renameCompany>): Promise<ResponseType<typeof api_scheduler_companies_renameCompany>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                name: params.name,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/companies/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_companies_renameCompany>
+        }
+
         /**
          * Reorders the current company members.
          */
@@ -427,6 +860,110 @@ export namespace scheduler {
             await this.baseClient.callTypedAPI(`/company/reorder`, {method: "PUT", body: JSON.stringify(params)})
         }
 
+        /**
+         * Puts a segment's weeks in a new order. The segment keeps its dates: each
+         * week's shows move to the dates of the week now in its place.
+         */
+        public async reorderTourWeeks(params: RequestType<typeof api_scheduler_tours_reorderTourWeeks>): Promise<ResponseType<typeof api_scheduler_tours_reorderTourWeeks>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                weekIds: params.weekIds,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/api/tours/${encodeURIComponent(params.id)}/week-order`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_tours_reorderTourWeeks>
+        }
+
+        /**
+         * Runs a recorded generation again on its recorded inputs and compares the
+         * result with what it returned then. Nothing is saved.
+         */
+        public async replayGeneration(params: RequestType<typeof api_scheduler_generations_replayGeneration>): Promise<ResponseType<typeof api_scheduler_generations_replayGeneration>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                seed: params.seed,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/generations/${encodeURIComponent(params.id)}/replay`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_generations_replayGeneration>
+        }
+
+        /**
+         * Writes an old revision back to the schedule, recording it as a new revision.
+         */
+        public async restoreRevision(params: RequestType<typeof api_scheduler_revisions_restoreRevision>): Promise<ResponseType<typeof api_scheduler_revisions_restoreRevision>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                version: params.version,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/revisions/${encodeURIComponent(params.revision)}/restore`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_revisions_restoreRevision>
+        }
+
+        /**
+         * Replaces a feed's token, so the old subscription URL stops working.
+         */
+        public async rotateCalendarFeed(params: RequestType<typeof api_scheduler_calendar_rotateCalendarFeed>): Promise<ResponseType<typeof api_scheduler_calendar_rotateCalendarFeed>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/calendar/feeds/rotate`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_calendar_rotateCalendarFeed>
+        }
+
+        /**
+         * Sets the profile a company's weeks use when their tour names none.
+         */
+        public async setCompanyRuleProfile(params: RequestType<typeof api_scheduler_rule_profiles_setCompanyRuleProfile>): Promise<void> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                profileId: params.profileId,
+            }
+
+            await this.baseClient.callTypedAPI(`/companies/${encodeURIComponent(params.id)}/rule-profile`, {method: "PUT", body: JSON.stringify(body)})
+        }
+
+        /**
+         * Changes a user's role in a company. Admins only; a company always keeps at least
+         * one admin.
+         */
+        public async setCompanyUserRole(params: RequestType<typeof api_scheduler_companies_setCompanyUserRole>): Promise<void> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                role: params.role,
+            }
+
+            await this.baseClient.callTypedAPI(`/companies/${encodeURIComponent(params.id)}/users/${encodeURIComponent(params.userId)}`, {method: "PUT", body: JSON.stringify(body)})
+        }
+
+        /**
+         * Serves a subscription feed. The token in the URL is the only credential.
+         */
+        public async subscribeCalendar(method: "GET", token: string, body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(`/ical/${encodeURIComponent(token)}`, {headers: options?.headers, query: options?.query, method, body})
+        }
+
+        /**
+         * Suggests who could take a role in a show: direct replacements and two- or
+         * three-way swaps, each with its validation delta. Nothing is saved.
+         */
+        public async suggestCellSwaps(params: RequestType<typeof api_scheduler_swaps_suggestCellSwaps>): Promise<ResponseType<typeof api_scheduler_swaps_suggestCellSwaps>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/swaps`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_swaps_suggestCellSwaps>
+        }
+
+        /**
+         * Makes a company the caller's current one.
+         */
+        public async switchCompany(params: { id: string }): Promise<ResponseType<typeof api_scheduler_companies_switchCompany>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/companies/${encodeURIComponent(params.id)}/switch`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_companies_switchCompany>
+        }
+
         /**
          * Toggles the RED day status for a performer for an entire date.
          */
@@ -435,6 +972,7 @@ export namespace scheduler {
             const body: Record<string, any> = {
                 date:      params.date,
                 performer: params.performer,
+                version:   params.version,
             }
 
             // Now make the actual call to the API
@@ -442,6 +980,23 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_toggle_red_day_toggleRedDay>
         }
 
+        /**
+         * Validates every week of a tour segment, or every schedule in a date range,
+         * and reports on them together. Viewers get the published weeks only.
+         */
+        public async tourHealth(params: RequestType<typeof api_scheduler_tour_health_tourHealth>): Promise<ResponseType<typeof api_scheduler_tour_health_tourHealth>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                endDate:   params.endDate,
+                startDate: params.startDate,
+                tourId:    params.tourId,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/api/tours/health`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_tour_health_tourHealth>
+        }
+
         /**
          * Updates a schedule.
          */
@@ -450,7 +1005,10 @@ export namespace scheduler {
             const body: Record<string, any> = {
                 assignments: params.assignments,
                 location:    params.location,
+                published:   params.published,
                 shows:       params.shows,
+                venueId:     params.venueId,
+                version:     params.version,
                 week:        params.week,
             }
 
@@ -478,8 +1036,41 @@ export namespace scheduler {
         }
 
         /**
-         * Updates a template in place (rename and/or reshape). Scoped to the owner: a
-         * template belonging to another user reads as not-found.
+         * Updates a role's order, casting convention or active flag.
+         */
+        public async updateRole(params: RequestType<typeof api_scheduler_roles_updateRole>): Promise<ResponseType<typeof api_scheduler_roles_updateRole>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                active:          params.active,
+                order:           params.order,
+                preferredGender: params.preferredGender,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/roles/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_roles_updateRole>
+        }
+
+        /**
+         * Updates a rule profile in place. Every week using it is held to the new
+         * rules from its next generation or validation on.
+         */
+        public async updateRuleProfile(params: RequestType<typeof api_scheduler_rule_profiles_updateRuleProfile>): Promise<ResponseType<typeof api_scheduler_rule_profiles_updateRuleProfile>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                limits:     params.limits,
+                name:       params.name,
+                severities: params.severities,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/rule-profiles/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_rule_profiles_updateRuleProfile>
+        }
+
+        /**
+         * Updates a template in place (rename and/or reshape). Scoped to the current
+         * company: a template belonging to another company reads as not-found.
          */
         public async updateTemplate(params: RequestType<typeof api_scheduler_templates_updateTemplate>): Promise<ResponseType<typeof api_scheduler_templates_updateTemplate>> {
             // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
@@ -493,6 +1084,81 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_templates_updateTemplate>
         }
 
+        /**
+         * Renames a tour segment, moves it under another tour, moves all its weeks
+         * to a new start date, or sets its rule profile. Moving keeps each show's day
+         * within its week, so the segment's assignments and RED days go with it.
+         */
+        public async updateTour(params: RequestType<typeof api_scheduler_tours_updateTour>): Promise<ResponseType<typeof api_scheduler_tours_updateTour>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                name:           params.name,
+                parentTourName: params.parentTourName,
+                ruleProfileId:  params.ruleProfileId,
+                segmentName:    params.segmentName,
+                startDate:      params.startDate,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/api/tours/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_tours_updateTour>
+        }
+
+        /**
+         * Changes a tour segment's cast list, or with dryRun reports which of its
+         * weeks cast someone the new list leaves out. Saved picks are never changed
+         * here: those weeks fail validation until they're edited, and generating the
+         * tour recasts them.
+         */
+        public async updateTourCast(params: RequestType<typeof api_scheduler_tours_updateTourCast>): Promise<ResponseType<typeof api_scheduler_tours_updateTourCast>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                castMemberIds: params.castMemberIds,
+                dryRun:        params.dryRun,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/api/tours/${encodeURIComponent(params.id)}/cast`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_tours_updateTourCast>
+        }
+
+        /**
+         * Updates the dates or reason of an unavailability window.
+         */
+        public async updateUnavailability(params: RequestType<typeof api_scheduler_availability_updateUnavailability>): Promise<ResponseType<typeof api_scheduler_availability_updateUnavailability>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                endDate:   params.endDate,
+                reason:    params.reason,
+                startDate: params.startDate,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/unavailability/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_availability_updateUnavailability>
+        }
+
+        /**
+         * Updates a venue in place. Weeks already set up there keep their times; the
+         * new defaults seed weeks made from now on.
+         */
+        public async updateVenue(params: RequestType<typeof api_scheduler_venues_updateVenue>): Promise<ResponseType<typeof api_scheduler_venues_updateVenue>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                address:           params.address,
+                callOffsetMinutes: params.callOffsetMinutes,
+                city:              params.city,
+                country:           params.country,
+                name:              params.name,
+                showTimes:         params.showTimes,
+                timeZone:          params.timeZone,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/venues/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_venues_updateVenue>
+        }
+
         /**
          * Validates a schedule against all constraints and business rules.
          */
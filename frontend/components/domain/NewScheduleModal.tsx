@@ -11,9 +11,13 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { DayStrip } from "./DayStrip";
+import { VenueSelect } from "./venues/VenueSelect";
 import { useTemplates } from "@/hooks/useTemplates";
+import { useVenues } from "@/hooks/useVenues";
+import { venueLabel } from "./format";
 import {
   applyTemplate,
+  applyVenueTimes,
   mondayOf,
   nextMondayFrom,
   BUILTIN_TEMPLATE_CHOICES,
@@ -32,7 +36,9 @@ function todayIso(): string {
  * The deliberate setup step before the editor. Collects venue + week-start
  * (Monday) + a starting template, resolves them into Show[] via applyTemplate,
  * and hands the editor a seed through router state — replacing the old
- * jump-straight-into-a-hardcoded-London-week behavior.
+ * jump-straight-into-a-hardcoded-London-week behavior. A venue from the library
+ * links the schedule to it and re-times the template's shows from the venue's
+ * curtain times; any other venue is typed in as before.
  */
 export function NewScheduleModal({
   open,
@@ -43,14 +49,17 @@ export function NewScheduleModal({
 }) {
   const navigate = useNavigate();
   const { templates } = useTemplates();
+  const { venues } = useVenues();
 
   const [venue, setVenue] = useState("");
+  const [venueId, setVenueId] = useState<string | undefined>(undefined);
   const [weekStart, setWeekStart] = useState("");
   const [choiceId, setChoiceId] = useState<string>(STANDARD_TEMPLATE_ID);
 
   useEffect(() => {
     if (!open) return;
     setVenue("");
+    setVenueId(undefined);
     setWeekStart(nextMondayFrom(todayIso()));
     setChoiceId(STANDARD_TEMPLATE_ID);
   }, [open]);
@@ -61,9 +70,14 @@ export function NewScheduleModal({
     [templates],
   );
   const selected = choices.find((c) => c.id === choiceId) ?? choices[0];
+  const libraryVenue = venues.find((v) => v.id === venueId);
+  const seedShows = (start: string) => {
+    const shows = applyTemplate(selected?.slots ?? [], start);
+    return libraryVenue ? applyVenueTimes(shows, libraryVenue) : shows;
+  };
 
   const effectiveStart = weekStart || nextMondayFrom(todayIso());
-  const previewShows = selected ? applyTemplate(selected.slots, effectiveStart) : [];
+  const previewShows = selected ? seedShows(effectiveStart) : [];
   const showCount = previewShows.filter((s) => s.status === "show").length;
 
   const canCreate = venue.trim().length > 0 && weekStart.length > 0 && !!selected;
@@ -75,8 +89,9 @@ export function NewScheduleModal({
       state: {
         seed: {
           location: venue.trim(),
+          venueId: libraryVenue?.id,
           weekStart,
-          shows: applyTemplate(selected.slots, weekStart),
+          shows: seedShows(weekStart),
           // Built-ins aren't stored rows, so they don't record a template_id.
           templateId: isBuiltin ? undefined : selected.id,
         },
@@ -96,12 +111,25 @@ export function NewScheduleModal({
         <div className="stack" style={{ gap: 14 }}>
           <div className="stack" style={{ gap: 6 }}>
             <Label htmlFor="ns-venue">Venue</Label>
-            <Input
-              id="ns-venue"
-              value={venue}
-              onChange={(e) => setVenue(e.target.value)}
-              placeholder="London — Ambassadors Theatre"
-            />
+            {venues.length > 0 ? (
+              <VenueSelect
+                id="ns-venue-library"
+                venues={venues}
+                value={venueId}
+                onChange={(v) => {
+                  setVenueId(v?.id);
+                  setVenue(v ? venueLabel(v) : "");
+                }}
+              />
+            ) : null}
+            {libraryVenue ? null : (
+              <Input
+                id="ns-venue"
+                value={venue}
+                onChange={(e) => setVenue(e.target.value)}
+                placeholder="London — Ambassadors Theatre"
+              />
+            )}
           </div>
 
           <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
@@ -51,6 +51,7 @@ export function ScheduleCard({ schedule }: { schedule: Schedule }) {
         <SchedulePill variant="show" dot>{showCount} Show</SchedulePill>
         {travel > 0 ? <SchedulePill variant="travel" dot>{travel} Travel</SchedulePill> : null}
         {off > 0 ? <SchedulePill variant="off" dot>{off} Off</SchedulePill> : null}
+        {schedule.published ? null : <SchedulePill variant="accent">Draft</SchedulePill>}
       </div>
     </Link>
   );
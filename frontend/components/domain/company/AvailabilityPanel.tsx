@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { CalendarOff, Plus, Trash2 } from "lucide-react";
+import type { CompanyMember } from "~backend/scheduler/company";
+import type { MemberUnavailability } from "~backend/scheduler/availability";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { UnavailabilityInput } from "@/hooks/useAvailability";
+import { isoDate, shortDate } from "@/components/domain/format";
+import { useSettings } from "@/providers/SettingsProvider";
+
+interface AvailabilityPanelProps {
+  members: CompanyMember[];
+  entries: MemberUnavailability[];
+  onAdd: (input: UnavailabilityInput) => void;
+  onDelete: (id: string) => void;
+  isSubmitting?: boolean;
+  /** lists the calendar without the add form or remove buttons (viewers) */
+  readOnly?: boolean;
+}
+
+/** Dates each performer can't work. Auto-Generate forces them OFF for every
+ *  show on a covered date; casting them there anyway fails validation. */
+export function AvailabilityPanel({ members, entries, onAdd, onDelete, isSubmitting, readOnly }: AvailabilityPanelProps) {
+  const { dateStyle } = useSettings();
+  const [memberId, setMemberId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const effectiveMemberId = memberId || members[0]?.id || "";
+  const effectiveEnd = endDate || startDate;
+  const canAdd = !!effectiveMemberId && !!startDate && effectiveEnd >= startDate;
+
+  const submit = () => {
+    if (!canAdd) return;
+    onAdd({
+      memberId: effectiveMemberId,
+      startDate,
+      endDate: effectiveEnd,
+      reason: reason.trim() || undefined,
+    });
+    setStartDate("");
+    setEndDate("");
+    setReason("");
+  };
+
+  // The client's dateReviver may hand these back as Dates — see isoDate.
+  const span = (e: MemberUnavailability) => {
+    const start = isoDate(e.startDate);
+    const end = isoDate(e.endDate);
+    return start === end ? shortDate(start, dateStyle) : `${shortDate(start, dateStyle)} – ${shortDate(end, dateStyle)}`;
+  };
+
+  return (
+    <div className="card">
+      {readOnly ? null : (
+        <div style={{ display: "grid", gridTemplateColumns: "1.2fr 1fr 1fr 1.5fr auto", gap: 12, alignItems: "end" }}>
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="ua-member">Performer</Label>
+            <select
+              id="ua-member"
+              className="travel-select"
+              value={effectiveMemberId}
+              onChange={(e) => setMemberId(e.target.value)}
+            >
+              {members.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="ua-start">From</Label>
+            <Input id="ua-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="ua-end">To</Label>
+            <Input
+              id="ua-end"
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="ua-reason">Reason</Label>
+            <Input
+              id="ua-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. holiday, visa run"
+            />
+          </div>
+          <button className="btn btn-primary btn-sm" onClick={submit} disabled={!canAdd || isSubmitting}>
+            <Plus /> Add
+          </button>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className={readOnly ? "text-muted" : "text-muted mt-16"}>Everyone is available — no dates recorded.</p>
+      ) : (
+        <div className={readOnly ? "stack" : "stack mt-16"} style={{ gap: 6 }}>
+          {entries.map((e) => (
+            <div key={e.id} className="between">
+              <div className="row" style={{ gap: 10 }}>
+                <CalendarOff className="text-muted" size={14} />
+                <b>{e.performer}</b>
+                <span>{span(e)}</span>
+                {e.reason ? <span className="text-muted">· {e.reason}</span> : null}
+              </div>
+              {readOnly ? null : (
+                <button className="btn btn-ghost btn-sm btn-icon" title="Remove" onClick={() => onDelete(e.id)}>
+                  <Trash2 />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { CalendarDays, Copy, Download, RefreshCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { useCalendar } from "@/hooks/useCalendar";
+
+/**
+ * A performer's calendar (or the whole company's, with `performer` null) for
+ * their phone: published weeks only, shows with a call-time alarm, RED days,
+ * days off and travel. Subscribing keeps it current as schedules change; the
+ * download is a snapshot. Managers can replace the subscription link if it was
+ * shared too widely.
+ */
+export function CalendarDialog({
+  open,
+  onOpenChange,
+  performer,
+  canRotate,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  performer: string | null;
+  canRotate: boolean;
+}) {
+  const { toast } = useToast();
+  const { urls, isLoading, download, rotate } = useCalendar(performer, open);
+
+  const copy = async () => {
+    if (!urls) return;
+    try {
+      await navigator.clipboard.writeText(urls.https);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Couldn't copy the link", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            <CalendarDays style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            {performer ? `${performer}'s calendar` : "Company calendar"}
+          </DialogTitle>
+          <DialogDescription>
+            {performer
+              ? `Every published show ${performer} is cast in, with an alarm before the call, plus RED days, days off and travel.`
+              : "Every published show with its cast, plus RED days, days off and travel."}{" "}
+            Drafts are left out until they're published.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="stack" style={{ gap: 14 }}>
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="calendar-url">Subscription link</Label>
+            <div className="row" style={{ gap: 6 }}>
+              <Input id="calendar-url" readOnly value={isLoading ? "Loading…" : urls?.https ?? ""} onFocus={(e) => e.target.select()} />
+              <button className="btn btn-ghost btn-sm btn-icon" title="Copy link" onClick={copy} disabled={!urls}>
+                <Copy />
+              </button>
+            </div>
+            <p className="text-muted" style={{ fontSize: 12 }}>
+              Add it to a calendar app as a subscription and it updates whenever a schedule changes. Anyone with the
+              link can read it.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          {canRotate ? (
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => rotate.mutate()}
+              disabled={!urls || rotate.isPending}
+              title="Stops the current link working for everyone subscribed to it"
+            >
+              <RefreshCw /> New link
+            </button>
+          ) : null}
+          <button className="btn btn-subtle btn-sm" onClick={() => download.mutate()} disabled={download.isPending}>
+            <Download /> {download.isPending ? "Preparing…" : "Download .ics"}
+          </button>
+          {urls ? (
+            <a className="btn btn-primary btn-sm" href={urls.webcal}>
+              <CalendarDays /> Subscribe
+            </a>
+          ) : null}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
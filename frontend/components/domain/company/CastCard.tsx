@@ -1,4 +1,4 @@
-import { Pencil, Archive, ArchiveRestore, Trash2 } from "lucide-react";
+import { Pencil, Archive, ArchiveRestore, Trash2, CalendarDays } from "lucide-react";
 import type { CompanyMember } from "~backend/scheduler/company";
 
 interface CastCardProps {
@@ -6,9 +6,13 @@ interface CastCardProps {
   onEdit: (m: CompanyMember) => void;
   onArchiveToggle: (m: CompanyMember) => void;
   onDelete: (m: CompanyMember) => void;
+  /** opens the performer's calendar feed; shown to everyone */
+  onCalendar: (m: CompanyMember) => void;
+  /** hides the edit, archive and delete actions (viewers) */
+  readOnly?: boolean;
 }
 
-export function CastCard({ member, onEdit, onArchiveToggle, onDelete }: CastCardProps) {
+export function CastCard({ member, onEdit, onArchiveToggle, onDelete, onCalendar, readOnly }: CastCardProps) {
   const initials = member.name.slice(0, 2).toUpperCase();
   const archived = member.status === "archived";
 
@@ -40,19 +44,26 @@ export function CastCard({ member, onEdit, onArchiveToggle, onDelete }: CastCard
           gender
         </div>
         <div className="row" style={{ marginLeft: "auto", gap: 6 }}>
-          <button className="btn btn-ghost btn-sm btn-icon" title="Edit" onClick={() => onEdit(member)}>
-            <Pencil />
-          </button>
-          <button
-            className="btn btn-ghost btn-sm btn-icon"
-            title={archived ? "Reactivate" : "Archive"}
-            onClick={() => onArchiveToggle(member)}
-          >
-            {archived ? <ArchiveRestore /> : <Archive />}
-          </button>
-          <button className="btn btn-danger btn-sm btn-icon" title="Delete" onClick={() => onDelete(member)}>
-            <Trash2 />
+          <button className="btn btn-ghost btn-sm btn-icon" title="Calendar" onClick={() => onCalendar(member)}>
+            <CalendarDays />
           </button>
+          {readOnly ? null : (
+            <>
+              <button className="btn btn-ghost btn-sm btn-icon" title="Edit" onClick={() => onEdit(member)}>
+                <Pencil />
+              </button>
+              <button
+                className="btn btn-ghost btn-sm btn-icon"
+                title={archived ? "Reactivate" : "Archive"}
+                onClick={() => onArchiveToggle(member)}
+              >
+                {archived ? <ArchiveRestore /> : <Archive />}
+              </button>
+              <button className="btn btn-danger btn-sm btn-icon" title="Delete" onClick={() => onDelete(member)}>
+                <Trash2 />
+              </button>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,42 @@
+import type { CompanyRole, CompanyUser } from "~backend/scheduler/companies";
+import { COMPANY_ROLES } from "@/hooks/useCompanies";
+
+interface CompanyUsersPanelProps {
+  users: CompanyUser[];
+  onSetRole: (vars: { userId: string; role: CompanyRole }) => void;
+}
+
+/** Who can open this company and what they may do there. New people are added
+ *  from the sidebar's share button; the server refuses to demote the last
+ *  admin. */
+export function CompanyUsersPanel({ users, onSetRole }: CompanyUsersPanelProps) {
+  return (
+    <div className="card">
+      <div className="stack" style={{ gap: 6 }}>
+        {users.map((u) => {
+          const name = [u.firstName, u.lastName].filter(Boolean).join(" ");
+          return (
+            <div key={u.userId} className="between">
+              <div className="stack" style={{ gap: 2 }}>
+                <span>{name || u.email}</span>
+                {name ? <span className="text-muted" style={{ fontSize: 12 }}>{u.email}</span> : null}
+              </div>
+              <select
+                aria-label={`Role for ${u.email}`}
+                className="travel-select"
+                value={u.role}
+                onChange={(e) => onSetRole({ userId: u.userId, role: e.target.value as CompanyRole })}
+              >
+                {COMPANY_ROLES.map((r) => (
+                  <option key={r.value} value={r.value}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
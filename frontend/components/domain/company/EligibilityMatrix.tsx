@@ -1,22 +1,32 @@
 import { Check } from "lucide-react";
-import type { Role } from "~backend/scheduler/types";
+import type { Role, RoleDefinition } from "~backend/scheduler/types";
 import type { CompanyMember } from "~backend/scheduler/company";
 
 interface EligibilityMatrixProps {
   members: CompanyMember[];
   roles: Role[];
+  // When given, headers mark each role's casting convention (♀ / ♂).
+  catalogue?: RoleDefinition[];
 }
 
-export function EligibilityMatrix({ members, roles }: EligibilityMatrixProps) {
+export function EligibilityMatrix({ members, roles, catalogue }: EligibilityMatrixProps) {
+  const convention = (role: Role) => catalogue?.find((r) => r.name === role)?.preferredGender;
+
   return (
     <div className="grid-scroll card">
       <table className="matrix">
         <thead>
           <tr>
             <th>Performer</th>
-            {roles.map((r) => (
-              <th key={r}>{r}</th>
-            ))}
+            {roles.map((r) => {
+              const preferred = convention(r);
+              return (
+                <th key={r} title={preferred ? `Usually cast ${preferred}` : undefined}>
+                  {r}
+                  {preferred ? <span className="text-muted"> {preferred === "female" ? "♀" : "♂"}</span> : null}
+                </th>
+              );
+            })}
           </tr>
         </thead>
         <tbody>
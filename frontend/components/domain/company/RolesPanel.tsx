@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import type { RoleDefinition } from "~backend/scheduler/types";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CastingConvention, RoleInput } from "@/hooks/useRoles";
+
+interface RolesPanelProps {
+  roles: RoleDefinition[];
+  onAdd: (input: RoleInput) => void;
+  onUpdate: (vars: { id: string; preferredGender?: CastingConvention; active?: boolean }) => void;
+  onSwap: (a: RoleDefinition, b: RoleDefinition) => void;
+  onDelete: (id: string) => void;
+  isSubmitting?: boolean;
+}
+
+const CONVENTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Anyone" },
+  { value: "female", label: "Usually female" },
+  { value: "male", label: "Usually male" },
+];
+
+/** The tracks each show casts, top to bottom in grid order. An inactive role
+ *  is skipped by Auto-Generate and validation but stays on performers'
+ *  eligibility, so switching it back on needs no re-entry. */
+export function RolesPanel({ roles, onAdd, onUpdate, onSwap, onDelete, isSubmitting }: RolesPanelProps) {
+  const [name, setName] = useState("");
+  const [convention, setConvention] = useState("");
+
+  const canAdd = name.trim().length > 0;
+
+  const submit = () => {
+    if (!canAdd) return;
+    onAdd({
+      name: name.trim(),
+      preferredGender: (convention || undefined) as "male" | "female" | undefined,
+    });
+    setName("");
+    setConvention("");
+  };
+
+  return (
+    <div className="card">
+      <div style={{ display: "grid", gridTemplateColumns: "1.5fr 1fr auto", gap: 12, alignItems: "end" }}>
+        <div className="stack" style={{ gap: 6 }}>
+          <Label htmlFor="role-name">Role</Label>
+          <Input id="role-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Sarge" />
+        </div>
+        <div className="stack" style={{ gap: 6 }}>
+          <Label htmlFor="role-convention">Casting</Label>
+          <select
+            id="role-convention"
+            className="travel-select"
+            value={convention}
+            onChange={(e) => setConvention(e.target.value)}
+          >
+            {CONVENTIONS.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button className="btn btn-primary btn-sm" onClick={submit} disabled={!canAdd || isSubmitting}>
+          <Plus /> Add
+        </button>
+      </div>
+
+      <div className="stack mt-16" style={{ gap: 6 }}>
+        {roles.map((r, i) => (
+          <div key={r.id} className="between">
+            <div className="row" style={{ gap: 10 }}>
+              <label className="row" style={{ gap: 8, cursor: "pointer" }} title={r.active ? "Cast every show" : "Not cast"}>
+                <Checkbox checked={r.active} onCheckedChange={(c) => onUpdate({ id: r.id, active: c === true })} />
+                <span className={r.active ? "role-chip" : "role-chip text-muted"}>{r.name}</span>
+              </label>
+              <select
+                aria-label={`Casting convention for ${r.name}`}
+                className="travel-select"
+                value={r.preferredGender ?? ""}
+                onChange={(e) => onUpdate({ id: r.id, preferredGender: (e.target.value || null) as CastingConvention })}
+              >
+                {CONVENTIONS.map((c) => (
+                  <option key={c.value} value={c.value}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="row" style={{ gap: 4 }}>
+              <button
+                className="btn btn-ghost btn-sm btn-icon"
+                title="Move up"
+                disabled={i === 0}
+                onClick={() => onSwap(r, roles[i - 1])}
+              >
+                <ArrowUp />
+              </button>
+              <button
+                className="btn btn-ghost btn-sm btn-icon"
+                title="Move down"
+                disabled={i === roles.length - 1}
+                onClick={() => onSwap(r, roles[i + 1])}
+              >
+                <ArrowDown />
+              </button>
+              <button className="btn btn-ghost btn-sm btn-icon" title="Remove" onClick={() => onDelete(r.id)}>
+                <Trash2 />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { isoDate, dateRange, shortDate, splitLocation, fmtTime, sortByName } from "./format";
+import { isoDate, dateRange, shortDate, splitLocation, venueLabel, zoneAbbrev, fmtTime, sortByName } from "./format";
 import type { Show } from "~backend/scheduler/types";
 
 const show = (date: string | Date, time = "19:30"): Show =>
@@ -75,6 +75,29 @@ describe("splitLocation", () => {
   });
 });
 
+describe("zoneAbbrev", () => {
+  it("names the zone as it stands on the date", () => {
+    expect(zoneAbbrev("Europe/London", "2025-07-15")).toBe("BST");
+    expect(zoneAbbrev("Europe/London", "2025-01-14")).toBe("GMT");
+  });
+  it("is blank without a zone or for an unknown one", () => {
+    expect(zoneAbbrev(undefined, "2025-07-15")).toBe("");
+    expect(zoneAbbrev("Mars/Olympus", "2025-07-15")).toBe("");
+  });
+});
+
+describe("venueLabel", () => {
+  it("labels a venue the way splitLocation reads it back", () => {
+    const label = venueLabel({ name: "Ambassadors Theatre", city: "London" });
+    expect(label).toBe("London — Ambassadors Theatre");
+    expect(splitLocation(label)).toEqual(["London", "Ambassadors Theatre"]);
+  });
+  it("uses the bare name when the city adds nothing", () => {
+    expect(venueLabel({ name: "Tokyo", city: "Tokyo" })).toBe("Tokyo");
+    expect(venueLabel({ name: "The Barn", city: "" })).toBe("The Barn");
+  });
+});
+
 describe("fmtTime", () => {
   it("formats 24h to 12h", () => {
     expect(fmtTime("19:30")).toBe("7:30 PM");
@@ -2,7 +2,7 @@ import { formatDistanceToNow } from "date-fns";
 import type { Show } from "~backend/scheduler/types";
 
 const MON = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-const DOW = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+export const DOW = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
 /**
  * The generated Encore client's dateReviver parses any ISO-date-looking string
@@ -32,6 +32,29 @@ export function splitLocation(loc: string): [string, string] {
   return [parts[0]?.trim() ?? loc, parts.slice(1).join(" - ").trim()];
 }
 
+/** A venue as a week's location label, "City — Venue", which `splitLocation` reads back. */
+export function venueLabel(venue: { name: string; city: string }): string {
+  return venue.city && venue.city !== venue.name ? `${venue.city} — ${venue.name}` : venue.name;
+}
+
+/** The IANA zones the browser knows, for time-zone fields to suggest. */
+export const TIME_ZONES: string[] =
+  typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+
+/** A zone's short name on a date, "BST" or "GMT-4"; "" for no zone or an unknown one. */
+export function zoneAbbrev(timeZone: string | undefined, date: string | Date): string {
+  if (!timeZone) return "";
+  try {
+    return (
+      new Intl.DateTimeFormat("en-GB", { timeZone, timeZoneName: "short" })
+        .formatToParts(new Date(`${isoDate(date)}T12:00:00Z`))
+        .find((p) => p.type === "timeZoneName")?.value ?? ""
+    );
+  } catch {
+    return "";
+  }
+}
+
 export function dowShort(d: string | Date): string {
   return DOW[parseLocalDate(d).getDay()];
 }
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { Scale } from "lucide-react";
+import type { RuleLimits, RuleProfile, RuleSettings, RuleSeverity } from "~backend/scheduler/types";
+import type { CreateRuleProfileRequest } from "~backend/scheduler/rule_profiles";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/** The thresholds a profile sets, in the order the dialog shows them. */
+export const LIMIT_FIELDS: { key: keyof RuleLimits; label: string; unit: string }[] = [
+  { key: "maxShowsPerWeek", label: "Most shows a week", unit: "shows" },
+  { key: "maxConsecutiveShows", label: "Most shows in a row", unit: "shows" },
+  { key: "maxDaysBetweenRedDays", label: "Most days between RED days", unit: "days" },
+  { key: "minRestMinutes", label: "Least rest between shows", unit: "min" },
+  { key: "showMinutes", label: "Show length, for rest", unit: "min" },
+];
+
+/** What each rule a profile can set checks, for people rather than logs. */
+export const RULE_LABELS: Record<string, string> = {
+  CONSECUTIVE_EXCEEDED: "Too many shows in a row",
+  BACK_TO_BACK_DOUBLES: "Double-show days back to back",
+  WEEKLY_LIMIT_EXCEEDED: "Over the weekly cap",
+  MINIMUM_REST: "Too little rest between shows",
+  PERFORMER_UNAVAILABLE: "Cast on a day marked unavailable",
+  GENDER_VIOLATION: "Track's casting convention",
+  RED_DAY_MISSING: "A RED day every week",
+  RED_DAY_MULTIPLE: "More than one RED day",
+  RED_DAY_NOT_FULL_DAY: "RED day that isn't a full day off",
+  RED_DAY_SPACING: "RED days too far apart",
+  UNDERUTILIZED: "Performer underused",
+  OVERWORKED: "Performer overworked",
+};
+
+const SEVERITIES: { value: RuleSeverity; label: string }[] = [
+  { value: "error", label: "Error" },
+  { value: "warning", label: "Warning" },
+  { value: "off", label: "Off" },
+];
+
+/**
+ * Adds a labour-rule profile or edits one. Each threshold is a whole number;
+ * each rule reports as an error (generation works around it), a warning
+ * (reported but may be broken) or not at all. Turning "A RED day every week"
+ * off also stops generation giving out RED days.
+ */
+export function RuleProfileDialog({
+  open,
+  profile,
+  builtIn,
+  ruleCodes,
+  onOpenChange,
+  onSave,
+  isSaving,
+}: {
+  open: boolean;
+  /** The profile being edited, or null for a new one. */
+  profile: RuleProfile | null;
+  /** What a new profile starts from. */
+  builtIn: RuleSettings | undefined;
+  ruleCodes: string[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (profile: CreateRuleProfileRequest) => void;
+  isSaving?: boolean;
+}) {
+  const [name, setName] = useState("");
+  const [limits, setLimits] = useState<Record<keyof RuleLimits, string>>(() => blankLimits());
+  const [severities, setSeverities] = useState<Record<string, RuleSeverity>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    const start = profile?.limits ?? builtIn?.limits;
+    setName(profile?.name ?? "");
+    setLimits(
+      Object.fromEntries(LIMIT_FIELDS.map(({ key }) => [key, start ? String(start[key]) : ""])) as Record<
+        keyof RuleLimits,
+        string
+      >,
+    );
+    setSeverities({ ...builtIn?.severities, ...profile?.severities });
+  }, [open, profile, builtIn]);
+
+  const parsed = LIMIT_FIELDS.map(({ key }) => {
+    const n = Number(limits[key]);
+    return limits[key].trim() !== "" && Number.isInteger(n) && n >= 0 ? n : null;
+  });
+  const canSave = name.trim().length > 0 && parsed.every((n) => n !== null);
+
+  const save = () => {
+    if (!canSave) return;
+    onSave({
+      name: name.trim(),
+      limits: Object.fromEntries(LIMIT_FIELDS.map(({ key }, i) => [key, parsed[i]])) as unknown as RuleLimits,
+      severities,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            <Scale style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            {profile ? `Edit ${profile.name}` : "New rule profile"}
+          </DialogTitle>
+          <DialogDescription>
+            Weeks are generated and checked against these limits. A rule set to warning is reported but may be broken.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="stack" style={{ gap: 14 }}>
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="rule-profile-name">Name</Label>
+            <Input
+              id="rule-profile-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="UK touring agreement"
+            />
+          </div>
+
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+            {LIMIT_FIELDS.map(({ key, label, unit }, i) => (
+              <div key={key} className="stack" style={{ gap: 6 }}>
+                <Label htmlFor={`rule-limit-${key}`}>
+                  {label} ({unit})
+                </Label>
+                <Input
+                  id={`rule-limit-${key}`}
+                  type="number"
+                  min={0}
+                  value={limits[key]}
+                  aria-invalid={parsed[i] === null}
+                  onChange={(e) => setLimits((prev) => ({ ...prev, [key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="stack" style={{ gap: 6 }}>
+            <Label>Rules</Label>
+            {ruleCodes.map((code) => (
+              <div key={code} className="between" style={{ gap: 12 }}>
+                <span style={{ fontSize: 13 }}>{RULE_LABELS[code] ?? code}</span>
+                <select
+                  aria-label={RULE_LABELS[code] ?? code}
+                  className="travel-select"
+                  value={severities[code] ?? "error"}
+                  onChange={(e) => setSeverities((prev) => ({ ...prev, [code]: e.target.value as RuleSeverity }))}
+                >
+                  {SEVERITIES.map((s) => (
+                    <option key={s.value} value={s.value}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <button className="btn btn-ghost btn-sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </button>
+          <button className="btn btn-primary btn-sm" onClick={save} disabled={!canSave || isSaving}>
+            {isSaving ? "Saving…" : profile ? "Save" : "Add profile"}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function blankLimits(): Record<keyof RuleLimits, string> {
+  return Object.fromEntries(LIMIT_FIELDS.map(({ key }) => [key, ""])) as Record<keyof RuleLimits, string>;
+}
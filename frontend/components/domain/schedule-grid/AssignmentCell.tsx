@@ -1,4 +1,8 @@
-import type { CastMember, Role } from "~backend/scheduler/types";
+import { ArrowLeftRight } from "lucide-react";
+import type { CastMember, Role, SlotExplanation } from "~backend/scheduler/types";
+import type { LiveCell, LivePeer } from "~backend/scheduler/live";
+import { peerColor } from "./live";
+import { explainSlot } from "./logic";
 
 interface AssignmentCellProps {
   showId: string;
@@ -7,20 +11,45 @@ interface AssignmentCellProps {
   value: string;
   isConflict: boolean;
   onChange: (showId: string, role: Role, performer: string) => void;
+  /** Other editors whose cursor is on this cell. */
+  peers?: LivePeer[];
+  onFocusCell?: (cell: LiveCell | null) => void;
+  /** Why Auto-Generate left the cell as it is, shown on hover. */
+  explanation?: SlotExplanation;
+  /** Asks who else could take the cell; omitted, the cell offers no swaps. */
+  onSuggest?: (showId: string, role: Role) => void;
 }
 
 /**
  * Native select scoped to eligible performers — this is what structurally
  * prevents role-eligibility / gender violations from ever entering the grid.
  */
-export function AssignmentCell({ showId, role, eligible, value, isConflict, onChange }: AssignmentCellProps) {
+export function AssignmentCell({
+  showId,
+  role,
+  eligible,
+  value,
+  isConflict,
+  onChange,
+  peers,
+  onFocusCell,
+  explanation,
+  onSuggest,
+}: AssignmentCellProps) {
+  const peer = peers?.[0];
   return (
-    <td className="cell-assign">
+    <td
+      className={`cell-assign${peer ? " peer-focus" : ""}${onSuggest ? " has-swaps" : ""}`}
+      style={peer ? { ["--peer" as string]: peerColor(peer) } : undefined}
+      title={explanation ? explainSlot(explanation) : undefined}
+    >
       <select
         className={`assign-select${value ? " filled" : ""}${isConflict ? " conflict" : ""}`}
         value={value}
         aria-label={`${role} assignment`}
         onChange={(e) => onChange(showId, role, e.target.value)}
+        onFocus={onFocusCell ? () => onFocusCell({ showId, role }) : undefined}
+        onBlur={onFocusCell ? () => onFocusCell(null) : undefined}
       >
         <option value="">—</option>
         {eligible.map((m) => (
@@ -29,6 +58,23 @@ export function AssignmentCell({ showId, role, eligible, value, isConflict, onCh
           </option>
         ))}
       </select>
+      {onSuggest ? (
+        <button
+          type="button"
+          className="swap-btn"
+          title="Who could take this role here?"
+          aria-label={`Suggest swaps for ${role}`}
+          onClick={() => onSuggest(showId, role)}
+        >
+          <ArrowLeftRight />
+        </button>
+      ) : null}
+      {peer ? (
+        <span className="peer-tag" title={peers!.map((p) => p.name).join(", ")}>
+          {peer.name}
+          {peers!.length > 1 ? ` +${peers!.length - 1}` : ""}
+        </span>
+      ) : null}
     </td>
   );
 }
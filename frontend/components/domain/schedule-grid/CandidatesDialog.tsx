@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { Check, Layers, RefreshCw } from "lucide-react";
+import type { ScheduleCandidate } from "~backend/scheduler/candidates";
+import type { Assignment, Show } from "~backend/scheduler/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useCandidates } from "@/hooks/useCandidates";
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+const COUNTS = [2, 3, 4, 5, 6];
+
+function Metric({ label, value, title }: { label: string; value: string | number; title?: string }) {
+  return (
+    <div className="between" style={{ gap: 8 }} title={title}>
+      <span className="text-muted">{label}</span>
+      <span className="mono">{value}</span>
+    </div>
+  );
+}
+
+function CandidateCard({
+  candidate,
+  index,
+  onApply,
+}: {
+  candidate: ScheduleCandidate;
+  index: number;
+  onApply: () => void;
+}) {
+  const m = candidate.metrics;
+  return (
+    <div className="card card-pad stack" style={{ gap: 10, fontSize: 13 }}>
+      <div className="between">
+        <div className="h3">Candidate {String.fromCharCode(65 + index)}</div>
+        {m.isValid ? <span className="pill pill-show">Valid</span> : <span className="pill pill-red">Issues</span>}
+      </div>
+      <div>
+        <span className="h1 mono">{m.overallScore}</span>
+        <span className="text-muted"> / 100</span>
+      </div>
+
+      <div className="stack" style={{ gap: 4 }}>
+        <Metric label="Errors" value={m.criticalErrors} />
+        <Metric label="Warnings" value={m.warnings} />
+        <Metric label="Complete" value={`${m.completionPercentage}%`} />
+        <Metric label="Shows each" value={m.showRange.min === m.showRange.max ? m.showRange.min : `${m.showRange.min}–${m.showRange.max}`} />
+        <Metric label="Off fair share" value={m.unbalanced} title="Performers under or over their expected show count" />
+        <Metric label="Longest run" value={m.longestRun} title="Most shows in a row, counting last week's" />
+      </div>
+
+      <div className="stack" style={{ gap: 4 }}>
+        <div className="kicker">RED days by weekday</div>
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(7, 1fr)", gap: 2, textAlign: "center" }}>
+          {m.redDayWeekdays.map((n, day) => (
+            <div key={day} title={`${n} resting`}>
+              <div className="text-muted">{WEEKDAYS[day]}</div>
+              <div className="mono" style={{ fontWeight: n === m.busiestRedDay && n > 0 ? 600 : undefined }}>
+                {n}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {candidate.errors?.length ? (
+        <div className="text-muted" style={{ fontSize: 12 }}>
+          {candidate.errors[0]}
+        </div>
+      ) : null}
+      <div className="text-muted" style={{ fontSize: 12 }}>
+        {candidate.differences > 0 ? `${candidate.differences} picks differ from the nearest · ` : ""}seed {candidate.seed}
+      </div>
+
+      <button className="btn btn-primary btn-sm" onClick={onApply} disabled={!candidate.success}>
+        <Check /> Apply
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Generates several different weeks from the grid as it stands and shows them
+ * side by side with their validation scores. Every candidate keeps the picks
+ * already on the grid. Applying one puts it on the grid (Undo takes it back);
+ * it is saved with the week as usual.
+ */
+export function CandidatesDialog({
+  open,
+  onOpenChange,
+  shows,
+  assignments,
+  scheduleId,
+  onApply,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shows: Show[];
+  assignments: Assignment[];
+  scheduleId?: string;
+  onApply: (assignments: Assignment[]) => void;
+}) {
+  const [count, setCount] = useState(3);
+  const { generate, candidates, isGenerating, reset } = useCandidates();
+
+  const run = (n = count) => generate({ shows, existingAssignments: assignments, scheduleId, count: n });
+
+  // A fresh set each time the dialog opens, from the grid as it is then.
+  useEffect(() => {
+    if (open) run();
+    else reset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent style={{ maxWidth: 1080 }}>
+        <DialogHeader>
+          <DialogTitle>
+            <Layers style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            Compare candidates
+          </DialogTitle>
+          <DialogDescription>
+            Different ways to cast this week, best score first. Each keeps the picks already on the grid.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isGenerating ? (
+          <p className="text-muted">Generating…</p>
+        ) : candidates.length === 0 ? (
+          <p className="text-muted">No candidates.</p>
+        ) : (
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: `repeat(${candidates.length}, minmax(170px, 1fr))`,
+              gap: 12,
+              overflowX: "auto",
+            }}
+          >
+            {candidates.map((c, i) => (
+              <CandidateCard
+                key={c.generationId}
+                candidate={c}
+                index={i}
+                onApply={() => {
+                  onApply(c.assignments);
+                  onOpenChange(false);
+                }}
+              />
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <select
+            aria-label="How many candidates"
+            className="travel-select"
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+          >
+            {COUNTS.map((n) => (
+              <option key={n} value={n}>
+                {n} candidates
+              </option>
+            ))}
+          </select>
+          <button className="btn btn-ghost btn-sm" onClick={() => run()} disabled={isGenerating}>
+            <RefreshCw /> Generate again
+          </button>
+          <button className="btn btn-ghost btn-sm" onClick={() => onOpenChange(false)}>
+            Close
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
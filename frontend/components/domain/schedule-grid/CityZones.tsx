@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { Globe } from "lucide-react";
+import { isTimeZone } from "~backend/scheduler/zones";
+import { TIME_ZONES } from "../format";
+import type { CityZone } from "../week";
+
+/** One city's zone, committed on blur or Enter so Undo gets one step per change. */
+function ZoneInput({ zone, onChange, readOnly }: { zone: CityZone; onChange: (timeZone: string) => void; readOnly?: boolean }) {
+  const [draft, setDraft] = useState(zone.timeZone);
+  useEffect(() => setDraft(zone.timeZone), [zone.timeZone]);
+
+  const valid = !draft.trim() || isTimeZone(draft.trim());
+  const commit = () => {
+    const next = draft.trim();
+    if (next !== zone.timeZone && valid) onChange(next);
+    else if (!valid) setDraft(zone.timeZone);
+  };
+
+  return (
+    <label className="row" style={{ gap: 6, fontSize: 13 }}>
+      <span className="text-muted">{zone.city}</span>
+      <input
+        list="city-zone-options"
+        value={draft}
+        readOnly={readOnly}
+        placeholder="UTC"
+        aria-label={`Time zone in ${zone.city}`}
+        aria-invalid={!valid}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        style={{
+          width: 170,
+          fontSize: 13,
+          background: "transparent",
+          border: `1px solid ${valid ? "var(--border)" : "var(--red)"}`,
+          borderRadius: 8,
+          padding: "3px 8px",
+        }}
+      />
+    </label>
+  );
+}
+
+/**
+ * The time zone of each city in the week. Show and call times are that city's
+ * wall clock; the zone is what lets rest gaps and calendar feeds count real
+ * hours when the week crosses zones. A city with no zone is read as UTC.
+ */
+export function CityZones({
+  zones,
+  onChange,
+  readOnly,
+}: {
+  zones: CityZone[];
+  onChange: (city: string, timeZone: string) => void;
+  readOnly?: boolean;
+}) {
+  if (zones.length === 0) return null;
+  return (
+    <div className="row-wrap mt-8" style={{ gap: 12, alignItems: "center" }}>
+      <Globe style={{ width: 14, height: 14 }} aria-hidden />
+      {zones.map((z) => (
+        <ZoneInput key={z.city} zone={z} readOnly={readOnly} onChange={(timeZone) => onChange(z.city, timeZone)} />
+      ))}
+      <datalist id="city-zone-options">
+        {TIME_ZONES.map((tz) => (
+          <option key={tz} value={tz} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { Check, LifeBuoy } from "lucide-react";
+import type { CoverPatch } from "~backend/scheduler/cover";
+import type { Assignment, CastMember, Show } from "~backend/scheduler/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useCover } from "@/hooks/useCover";
+import { useSettings } from "@/providers/SettingsProvider";
+import { dowShort, fmtTime, shortDate } from "../format";
+
+function PatchCard({
+  patch,
+  index,
+  showLabel,
+  onApply,
+}: {
+  patch: CoverPatch;
+  index: number;
+  showLabel: (showId: string) => string;
+  onApply: () => void;
+}) {
+  const errors = patch.items.filter((i) => i.severity === "error");
+  const warnings = patch.items.filter((i) => i.severity === "warning");
+  return (
+    <div className="card card-pad stack" style={{ gap: 10, fontSize: 13 }}>
+      <div className="between">
+        <div className="h3">Option {index + 1}</div>
+        {patch.newErrors === 0 ? (
+          <span className="pill pill-show">Clean</span>
+        ) : (
+          <span className="pill pill-red">{patch.newErrors} new error{patch.newErrors === 1 ? "" : "s"}</span>
+        )}
+      </div>
+
+      <div className="stack" style={{ gap: 4 }}>
+        {patch.changes.map((c) => (
+          <div key={`${c.showId}:${c.role}`} className="between" style={{ gap: 8 }}>
+            <span>
+              <span className="text-muted">{showLabel(c.showId)}</span> <span className="role-chip">{c.role}</span>
+            </span>
+            <span className="mono">
+              {c.from || "—"} → {c.to}
+              {c.isOverride ? (
+                <>
+                  {" "}
+                  <span className="pill pill-accent" title="A fatigue rule bends for this pick; it is marked as an override">
+                    Override
+                  </span>
+                </>
+              ) : null}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-muted" style={{ fontSize: 12 }}>
+        {patch.changes.length} change{patch.changes.length === 1 ? "" : "s"} · {errors.length} error
+        {errors.length === 1 ? "" : "s"} · {warnings.length} warning{warnings.length === 1 ? "" : "s"}
+      </div>
+      {patch.items.length > 0 ? (
+        <ul className="text-muted" style={{ fontSize: 12, margin: 0, paddingLeft: 16 }}>
+          {[...errors, ...warnings].slice(0, 4).map((item, i) => (
+            <li key={i}>{item.message}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      <button className="btn btn-primary btn-sm" onClick={onApply}>
+        <Check /> Apply
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Emergency cover: pick who is out and for which shows, and get a few ways to
+ * recast just the roles they leave, each changing as few other cells as it
+ * can, with the validation it would get. Planned against the week as last
+ * saved. Applying one puts it on the grid (Undo takes it back); it is saved
+ * with the week as usual.
+ */
+export function CoverDialog({
+  open,
+  onOpenChange,
+  scheduleId,
+  shows,
+  castMembers,
+  onApply,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scheduleId: string;
+  shows: Show[];
+  castMembers: CastMember[];
+  onApply: (assignments: Assignment[]) => void;
+}) {
+  const { dateStyle } = useSettings();
+  const [performer, setPerformer] = useState("");
+  const [showIds, setShowIds] = useState<Set<string>>(new Set());
+  const { plan, vacated, patches, isPlanning, hasPlanned, reset } = useCover();
+
+  const stageShows = shows.filter((s) => s.status === "show");
+  const showLabel = (showId: string) => {
+    const show = shows.find((s) => s.id === showId);
+    return show ? `${dowShort(show.date)} ${shortDate(show.date, dateStyle)} ${fmtTime(show.time)}` : showId;
+  };
+
+  // Start over each time the dialog opens.
+  useEffect(() => {
+    if (!open) {
+      setPerformer("");
+      setShowIds(new Set());
+      reset();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const toggleShow = (showId: string, on: boolean) => {
+    const next = new Set(showIds);
+    if (on) next.add(showId);
+    else next.delete(showId);
+    setShowIds(next);
+  };
+
+  const run = () =>
+    plan({ id: scheduleId, absences: [{ performer, showIds: stageShows.filter((s) => showIds.has(s.id)).map((s) => s.id) }] });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent style={{ maxWidth: 900 }}>
+        <DialogHeader>
+          <DialogTitle>
+            <LifeBuoy style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            Cover an absence
+          </DialogTitle>
+          <DialogDescription>
+            Recast the roles someone leaves, changing as little else as possible. Works from the saved week: unsaved edits
+            on the grid are replaced by the option you apply.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="stack" style={{ gap: 12 }}>
+          <div className="stack" style={{ gap: 8 }}>
+            <Label htmlFor="cover-performer">Who is out</Label>
+            <select
+              id="cover-performer"
+              className="travel-select"
+              value={performer}
+              onChange={(e) => {
+                setPerformer(e.target.value);
+                reset();
+              }}
+            >
+              <option value="">Choose a performer</option>
+              {castMembers.map((m) => (
+                <option key={m.name} value={m.name}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="stack" style={{ gap: 8 }}>
+            <Label>Shows they miss</Label>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 8 }}>
+              {stageShows.map((s) => (
+                <label key={s.id} className="row" style={{ gap: 8, cursor: "pointer", fontSize: 13 }}>
+                  <Checkbox checked={showIds.has(s.id)} onCheckedChange={(c) => toggleShow(s.id, c === true)} />
+                  {showLabel(s.id)}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {isPlanning ? (
+          <p className="text-muted">Planning…</p>
+        ) : !hasPlanned ? null : vacated.length === 0 ? (
+          <p className="text-muted">{performer} isn't cast in any of those shows.</p>
+        ) : patches.length === 0 ? (
+          <p className="text-muted">Nobody can cover those roles.</p>
+        ) : (
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: `repeat(${patches.length}, minmax(220px, 1fr))`,
+              gap: 12,
+              overflowX: "auto",
+            }}
+          >
+            {patches.map((p, i) => (
+              <PatchCard
+                key={i}
+                patch={p}
+                index={i}
+                showLabel={showLabel}
+                onApply={() => {
+                  onApply(p.assignments);
+                  onOpenChange(false);
+                }}
+              />
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <button className="btn btn-primary btn-sm" onClick={run} disabled={!performer || showIds.size === 0 || isPlanning}>
+            Plan cover
+          </button>
+          <button className="btn btn-ghost btn-sm" onClick={() => onOpenChange(false)}>
+            Close
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
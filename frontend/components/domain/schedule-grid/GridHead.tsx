@@ -1,9 +1,9 @@
 import { useEffect, useRef, useState } from "react";
 import type { Show, DayStatus } from "~backend/scheduler/types";
 import { isKnownTime } from "~backend/scheduler/time";
-import { shortDate, dowShort, fmtTime, isoDate } from "../format";
+import { shortDate, dowShort, fmtTime, isoDate, zoneAbbrev } from "../format";
 import { useSettings } from "@/providers/SettingsProvider";
-import { citySegments, resolveCities, type Column } from "../week";
+import { citySegments, crossesZones, resolveCities, type Column } from "../week";
 import { DayEditor } from "./DayEditor";
 import { TimeEditor } from "./TimeEditor";
 import { StatusDetailEditor } from "./StatusDetailEditor";
@@ -50,6 +50,9 @@ export function GridHead({
   const timeAnchors = useRef(new Map<string, HTMLElement>());
   const statusAnchors = useRef(new Map<string, HTMLElement>());
   const { dateStyle } = useSettings();
+  // Times are each city's wall clock; only a week that crosses zones needs the
+  // zone beside every time to read right.
+  const showZones = crossesZones(columns.flatMap((c) => (c.show ? [c.show] : [])));
 
   // Every editor is positioned from a viewport rect, so a scroll or resize would
   // leave it stranded beside its column.
@@ -257,6 +260,11 @@ export function GridHead({
                   onClick={() => openTimeCell(cellKey)}
                 >
                   {known ? fmtTime(value) : <span className="tbc-chip">TBC</span>}
+                  {known && showZones && show.timeZone ? (
+                    <span className="text-muted" style={{ display: "block", fontSize: 10 }}>
+                      {zoneAbbrev(show.timeZone, column.date)}
+                    </span>
+                  ) : null}
                 </button>
               </th>
             );
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import type { RevisionSource, RevisionSummary, ScheduleDiff, ShowChange } from "~backend/scheduler/revisions";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useRevisions } from "@/hooks/useRevisions";
+import { useSettings } from "@/providers/SettingsProvider";
+import { dowShort, fmtTime, shortDate, type DateStyle } from "../format";
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  create: "Created",
+  update: "Saved",
+  red_day: "RED day toggled",
+  auto_generate: "Auto-generated",
+  restore: "Restored",
+  tour_edit: "Moved with its tour",
+};
+
+function sourceLabel(r: RevisionSummary): string {
+  return r.source === "restore" && r.restoredFrom ? `Restored revision ${r.restoredFrom}` : SOURCE_LABELS[r.source];
+}
+
+function dayLabel(date: string | Date, style: DateStyle): string {
+  return `${dowShort(date)} ${shortDate(date, style)}`;
+}
+
+function showLabel(change: ShowChange, style: DateStyle): string {
+  const show = change.after ?? change.before;
+  const time = show?.status === "show" ? ` ${fmtTime(show.time)}` : "";
+  return `${dayLabel(change.date, style)}${time}`;
+}
+
+function DiffView({ diff, style }: { diff: ScheduleDiff; style: DateStyle }) {
+  const empty =
+    !diff.location && !diff.week && !diff.shows.length && !diff.assignments.length && !diff.redDays.length;
+  if (empty) return <p className="text-muted">No changes from the revision before.</p>;
+
+  return (
+    <div className="stack" style={{ gap: 14, fontSize: 13 }}>
+      {diff.location || diff.week ? (
+        <div className="stack" style={{ gap: 4 }}>
+          <div className="kicker">Week</div>
+          {diff.location ? (
+            <div>
+              Venue: {diff.location.before || "—"} → {diff.location.after || "—"}
+            </div>
+          ) : null}
+          {diff.week ? (
+            <div>
+              Week: {diff.week.before || "—"} → {diff.week.after || "—"}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+      {diff.shows.length ? (
+        <div className="stack" style={{ gap: 4 }}>
+          <div className="kicker">Shows</div>
+          {diff.shows.map((s) => (
+            <div key={`${s.showId}-${s.kind}`}>
+              {showLabel(s, style)}:{" "}
+              {s.kind === "changed" ? `${s.fields?.join(", ")} changed` : s.kind}
+            </div>
+          ))}
+        </div>
+      ) : null}
+      {diff.assignments.length ? (
+        <div className="stack" style={{ gap: 4 }}>
+          <div className="kicker">Casting</div>
+          {diff.assignments.map((a) => (
+            <div key={`${a.showId}-${a.role}`}>
+              <span className="mono">{a.before || "—"}</span> → <span className="mono">{a.after || "—"}</span>
+              <span className="text-muted">
+                {" "}
+                · {a.role}, {dayLabel(a.date, style)}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : null}
+      {diff.redDays.length ? (
+        <div className="stack" style={{ gap: 4 }}>
+          <div className="kicker">RED days</div>
+          {diff.redDays.map((r) => (
+            <div key={r.performer}>
+              <span className="mono">{r.performer}</span>:{" "}
+              {r.before ? dayLabel(r.before, style) : "none"} → {r.after ? dayLabel(r.after, style) : "none"}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Every saved state of this schedule, newest first, with what each one changed
+ * from the revision before it. Restoring writes the chosen revision back as a
+ * new revision (nothing is ever overwritten), and the editor reloads from it —
+ * unsaved edits in the grid are dropped.
+ */
+export function HistoryDialog({
+  open,
+  onOpenChange,
+  scheduleId,
+  version,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scheduleId: string;
+  /** The version the editor last loaded or saved. */
+  version: () => number | undefined;
+}) {
+  const { dateStyle } = useSettings();
+  const [selected, setSelected] = useState<number | null>(null);
+  const { revisions, isLoading, diff, isDiffLoading, restore } = useRevisions(scheduleId, selected, open);
+
+  // Open on the newest revision; the list refetches after a restore.
+  useEffect(() => {
+    if (open) setSelected(revisions[0]?.revision ?? null);
+  }, [open, revisions]);
+
+  const current = revisions[0]?.revision;
+  const chosen = revisions.find((r) => r.revision === selected);
+
+  const doRestore = () => {
+    if (selected === null) return;
+    restore.mutate({ revision: selected, version: version() ?? 0 }, { onSuccess: () => onOpenChange(false) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent style={{ maxWidth: 760 }}>
+        <DialogHeader>
+          <DialogTitle>
+            <History style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            History
+          </DialogTitle>
+          <DialogDescription>
+            Every save, RED-day toggle and generated week is kept. Restoring one saves it again as the newest
+            revision and discards unsaved edits.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-muted">Loading…</p>
+        ) : (
+          <div className="revision-layout">
+            <ul className="revision-list">
+              {revisions.map((r) => (
+                <li key={r.revision}>
+                  <button
+                    type="button"
+                    className={`revision-item${r.revision === selected ? " active" : ""}`}
+                    onClick={() => setSelected(r.revision)}
+                  >
+                    <span className="between">
+                      <strong>#{r.revision}</strong>
+                      <span className="text-muted">{new Date(r.createdAt).toLocaleString()}</span>
+                    </span>
+                    <span>{sourceLabel(r)}</span>
+                    <span className="text-muted">{r.userEmail ?? r.userId}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="revision-diff">
+              {chosen === undefined ? null : chosen.revision === 1 ? (
+                <p className="text-muted">The schedule as first saved.</p>
+              ) : isDiffLoading || !diff ? (
+                <p className="text-muted">Loading…</p>
+              ) : (
+                <DiffView diff={diff} style={dateStyle} />
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <button className="btn btn-ghost btn-sm" onClick={() => onOpenChange(false)}>
+            Close
+          </button>
+          <button
+            className="btn btn-primary btn-sm"
+            onClick={doRestore}
+            disabled={selected === null || selected === current || restore.isPending}
+            title={selected === current ? "This is the current revision" : undefined}
+          >
+            <RotateCcw /> {restore.isPending ? "Restoring…" : `Restore #${selected ?? ""}`}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,26 @@
+import type { LivePeer } from "~backend/scheduler/live";
+import { peerColor } from "./live";
+
+function initials(name: string): string {
+  const parts = name.split(/[\s@.]+/).filter(Boolean);
+  return ((parts[0]?.[0] ?? "") + (parts[1]?.[0] ?? "")).toUpperCase() || "?";
+}
+
+/** Who else has this week open, in the colour of their cursor in the grid. */
+export function LivePresence({ peers }: { peers: LivePeer[] }) {
+  if (peers.length === 0) return null;
+  return (
+    <span className="peer-list" aria-label={`Also editing: ${peers.map((p) => p.name).join(", ")}`}>
+      {peers.map((p) => (
+        <span
+          key={p.connectionId}
+          className="peer-dot"
+          style={{ ["--peer" as string]: peerColor(p) }}
+          title={`${p.name} is editing this week`}
+        >
+          {initials(p.name)}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useSettings } from "@/providers/SettingsProvider";
+import { dowShort, shortDate, type DateStyle } from "../format";
+import type { MergeConflict, MergeSide } from "./merge";
+
+function cellLabel(c: MergeConflict, style: DateStyle): string {
+  const day = c.date ? `${dowShort(c.date)} ${shortDate(c.date, style)}` : "";
+  switch (c.kind) {
+    case "cast":
+      return `${c.role} · ${day}`;
+    case "red":
+      return `${c.performer}'s RED day`;
+    case "location":
+      return "Venue";
+    case "week":
+      return "Week label";
+    case "shows":
+      return "Days, times and statuses";
+  }
+}
+
+function valueLabel(c: MergeConflict, side: MergeSide, style: DateStyle): string {
+  const value = side === "mine" ? c.mine : c.theirs;
+  if (c.kind === "shows") return side === "mine" ? "Yours" : "Theirs";
+  if (c.kind === "red") return value ? `${dowShort(value)} ${shortDate(value, style)}` : "None";
+  return value || "Empty";
+}
+
+/**
+ * Shown when a save is refused because someone else saved this week first.
+ * Changes only one of you made are combined automatically; each cell you both
+ * changed is listed with a choice between your value and theirs. Either way
+ * Undo brings back the week as it was before the prompt.
+ */
+export function MergeDialog({
+  conflicts,
+  onMerge,
+  onDiscard,
+  onDismiss,
+}: {
+  conflicts: MergeConflict[] | null;
+  onMerge: (choices: Record<string, MergeSide>) => void;
+  onDiscard: () => void;
+  onDismiss: () => void;
+}) {
+  const { dateStyle } = useSettings();
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  useEffect(() => {
+    if (conflicts) setChoices({});
+  }, [conflicts]);
+
+  const choose = (key: string, side: MergeSide) => setChoices((prev) => ({ ...prev, [key]: side }));
+
+  return (
+    <Dialog open={conflicts !== null} onOpenChange={(o) => !o && onDismiss()}>
+      <DialogContent style={{ maxWidth: 620 }}>
+        <DialogHeader>
+          <DialogTitle>Someone else saved this week</DialogTitle>
+          <DialogDescription>
+            {conflicts?.length
+              ? "Changes only one of you made will be combined. Pick whose version to keep where you both changed the same thing."
+              : "None of your changes clash with theirs, so both sets can be combined."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts?.length ? (
+          <div className="stack" style={{ gap: 6, maxHeight: "50vh", overflowY: "auto" }}>
+            {conflicts.map((c) => {
+              const side = choices[c.key] ?? "mine";
+              return (
+                <div key={c.key} className="between" style={{ fontSize: 13 }}>
+                  <span>{cellLabel(c, dateStyle)}</span>
+                  <div className="row" style={{ gap: 6 }}>
+                    {(["mine", "theirs"] as const).map((s) => (
+                      <button
+                        key={s}
+                        type="button"
+                        className={`btn btn-sm ${side === s ? "btn-primary" : "btn-ghost"}`}
+                        aria-pressed={side === s}
+                        onClick={() => choose(c.key, s)}
+                      >
+                        {s === "mine" ? "Mine" : "Theirs"}: <span className="mono">{valueLabel(c, s, dateStyle)}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <button className="btn btn-ghost btn-sm" onClick={onDiscard}>
+            Discard mine, load theirs
+          </button>
+          <button className="btn btn-primary btn-sm" onClick={() => onMerge(choices)}>
+            Merge and save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
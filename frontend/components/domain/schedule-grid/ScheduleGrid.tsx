@@ -1,5 +1,6 @@
 import { CircleSlash } from "lucide-react";
-import type { Show, Assignment, CastMember, Role } from "~backend/scheduler/types";
+import type { Show, Assignment, CastMember, Role, SlotExplanation } from "~backend/scheduler/types";
+import type { LiveCell, LivePeer } from "~backend/scheduler/live";
 import { GridHead } from "./GridHead";
 import { AssignmentCell } from "./AssignmentCell";
 import { SpecialDayCell } from "./SpecialDayCell";
@@ -24,6 +25,13 @@ interface ScheduleGridProps {
   onRestoreDate: (date: string) => void;
   onSetDestination: (travelShowId: string, city: string) => void;
   onSetCompanyRedDay: (showId: string, on: boolean) => void;
+  /** Other editors in the live session, for their cursors. */
+  peers?: LivePeer[];
+  onFocusCell?: (cell: LiveCell | null) => void;
+  /** From the last Auto-Generate, for the cells still as it left them. */
+  explanations?: SlotExplanation[];
+  /** Opens swap suggestions for a cell (see SwapDialog). */
+  onSuggestSwap?: (showId: string, role: Role) => void;
 }
 
 export function ScheduleGrid({
@@ -42,6 +50,10 @@ export function ScheduleGrid({
   onRestoreDate,
   onSetDestination,
   onSetCompanyRedDay,
+  peers = [],
+  onFocusCell,
+  explanations = [],
+  onSuggestSwap,
 }: ScheduleGridProps) {
   const showShows = shows.filter((s) => s.status === "show");
   const assignedShowIds = new Set(assignments.filter((a) => a.role !== "OFF").map((a) => a.showId));
@@ -51,6 +63,9 @@ export function ScheduleGrid({
     ? Math.max(0, ...showShows.map((s) => offPerformers(assignments, castMembers, s.id).length))
     : 0;
   const city = splitLocation(location)[0] || "—";
+  const peersAt = (showId: string, role: Role) =>
+    peers.filter((p) => p.focus?.showId === showId && p.focus.role === role);
+  const explained = new Map(explanations.map((e) => [`${e.showId}:${e.role}`, e]));
 
   // While a company RED day exists it IS everyone's RED day, so the per-performer
   // toggle has nothing left to say: every OFF chip reads as RED and the chips go
@@ -133,6 +148,8 @@ export function ScheduleGrid({
                     const show = column.show;
                     const cur = assignedPerformer(assignments, show.id, role);
                     const isConf = !!cur && conflictsByShow.get(show.id)!.has(cur);
+                    // Once the cell is changed by hand the explanation no longer holds.
+                    const why = explained.get(`${show.id}:${role}`);
                     return (
                       <AssignmentCell
                         key={key}
@@ -142,6 +159,10 @@ export function ScheduleGrid({
                         value={cur}
                         isConflict={isConf}
                         onChange={onAssignmentChange}
+                        peers={peersAt(show.id, role)}
+                        onFocusCell={onFocusCell}
+                        explanation={why && (why.performer ?? "") === cur ? why : undefined}
+                        onSuggest={onSuggestSwap}
                       />
                     );
                   })}
@@ -0,0 +1,141 @@
+import { useEffect } from "react";
+import { ArrowLeftRight, Check } from "lucide-react";
+import type { SwapDelta, SwapOperation, SwapSuggestion } from "~backend/scheduler/swaps";
+import type { Assignment, Role, Show } from "~backend/scheduler/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useSwaps } from "@/hooks/useSwaps";
+import { useSettings } from "@/providers/SettingsProvider";
+import { dowShort, fmtTime, shortDate } from "../format";
+import { assignedPerformer } from "./logic";
+
+const KIND_LABELS: Record<SwapSuggestion["kind"], string> = {
+  replace: "Replace",
+  swap: "Swap",
+  three_way: "Three-way",
+};
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+// "clears 1 error · adds 2 warnings", or "no change to validation".
+function deltaSummary(delta: SwapDelta): string {
+  const parts: string[] = [];
+  if (delta.errors < 0) parts.push(`clears ${plural(-delta.errors, "error")}`);
+  if (delta.warnings < 0) parts.push(`clears ${plural(-delta.warnings, "warning")}`);
+  if (delta.warnings > 0) parts.push(`adds ${plural(delta.warnings, "warning")}`);
+  return parts.length > 0 ? parts.join(" · ") : "no change to validation";
+}
+
+/**
+ * Who else could take one cell: direct replacements and two- or three-way
+ * swaps, each with what it does to the week's validation. None adds an error.
+ * Applying one changes just its cells on the grid (Undo takes it back); it is
+ * saved with the week as usual.
+ */
+export function SwapDialog({
+  cell,
+  onClose,
+  shows,
+  assignments,
+  scheduleId,
+  onApply,
+}: {
+  cell: { showId: string; role: Role } | null;
+  onClose: () => void;
+  shows: Show[];
+  assignments: Assignment[];
+  scheduleId?: string;
+  onApply: (operations: SwapOperation[]) => void;
+}) {
+  const { dateStyle } = useSettings();
+  const { suggest, suggestions, isSuggesting, reset } = useSwaps();
+
+  const showLabel = (showId: string) => {
+    const show = shows.find((s) => s.id === showId);
+    return show ? `${dowShort(show.date)} ${shortDate(show.date, dateStyle)} ${fmtTime(show.time)}` : showId;
+  };
+
+  // Fresh suggestions for each cell asked about, from the grid as it is then.
+  useEffect(() => {
+    if (cell) suggest({ shows, assignments, scheduleId, showId: cell.showId, role: cell.role });
+    else reset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cell?.showId, cell?.role]);
+
+  const holder = cell ? assignedPerformer(assignments, cell.showId, cell.role) : "";
+
+  return (
+    <Dialog open={cell !== null} onOpenChange={(open) => (open ? undefined : onClose())}>
+      <DialogContent style={{ maxWidth: 620 }}>
+        <DialogHeader>
+          <DialogTitle>
+            <ArrowLeftRight style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            Who could take {cell?.role} here?
+          </DialogTitle>
+          <DialogDescription>
+            {cell ? `${showLabel(cell.showId)} · ${holder ? `${holder} plays it now` : "empty"}` : null}. Each keeps the
+            week free of new errors.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isSuggesting ? (
+          <p className="text-muted">Looking…</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-muted">Nobody can take it without breaking a rule.</p>
+        ) : (
+          <div className="stack" style={{ gap: 8, maxHeight: 420, overflowY: "auto" }}>
+            {suggestions.map((s, i) => (
+              <div key={i} className="card card-pad between" style={{ gap: 12, fontSize: 13 }}>
+                <div className="stack" style={{ gap: 4, minWidth: 0 }}>
+                  <div className="row" style={{ gap: 8 }}>
+                    <span className="pill pill-accent">{KIND_LABELS[s.kind]}</span>
+                    <span className="text-muted" style={{ fontSize: 12 }}>
+                      {deltaSummary(s.delta)}
+                    </span>
+                  </div>
+                  {s.operations.map((op) => (
+                    <div key={`${op.showId}:${op.role}`}>
+                      {op.showId !== cell?.showId ? <span className="text-muted">{showLabel(op.showId)} </span> : null}
+                      <span className="role-chip">{op.role}</span>{" "}
+                      <span className="mono">
+                        {op.from || "—"} → {op.to}
+                      </span>
+                    </div>
+                  ))}
+                  {s.delta.introduced.map((item, j) => (
+                    <div key={j} className="text-muted" style={{ fontSize: 12 }}>
+                      ⚠ {item.message}
+                    </div>
+                  ))}
+                </div>
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={() => {
+                    onApply(s.operations);
+                    onClose();
+                  }}
+                >
+                  <Check /> Apply
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <button className="btn btn-ghost btn-sm" onClick={onClose}>
+            Close
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,7 @@
-import { AlertCircle, AlertTriangle, Flag, ShieldCheck } from "lucide-react";
+import { AlertCircle, AlertTriangle, Flag, ShieldCheck, Wrench } from "lucide-react";
 import type { ValidationItem } from "~backend/scheduler/validate";
+import type { FixOperation, QuickFix } from "~backend/scheduler/fixes";
+import type { Show } from "~backend/scheduler/types";
 import {
   AlertDialog,
   AlertDialogTrigger,
@@ -11,7 +13,7 @@ import {
   AlertDialogAction,
   AlertDialogCancel,
 } from "@/components/ui/alert-dialog";
-import type { FatigueIssue, RosterEntry } from "./logic";
+import { describeFix, type FatigueIssue, type RosterEntry } from "./logic";
 
 export interface ValidationResult {
   isValid: boolean;
@@ -19,6 +21,8 @@ export interface ValidationResult {
   warnings: string[];
   /** Structured, per-issue attribution — present once the client is regenerated. */
   items: ValidationItem[];
+  /** The week carried into this one; items flagged `carriedOver` stem from it. */
+  previousSchedule?: { scheduleId: string; week: string; location: string };
 }
 
 interface ViolationBannerProps {
@@ -27,6 +31,9 @@ interface ViolationBannerProps {
   fatigueIssues: FatigueIssue[];
   roster: RosterEntry[];
   onToggleOverride: (performer: string) => void;
+  /** Applies an item's quick fix; omitted, no Fix buttons are shown. */
+  onApplyFix?: (operation: FixOperation) => void;
+  shows?: Show[];
 }
 
 const KIND_LABEL: Record<FatigueIssue["kind"], string> = {
@@ -34,10 +41,21 @@ const KIND_LABEL: Record<FatigueIssue["kind"], string> = {
   "back-to-back": "back-to-back double days",
 };
 
-export function ViolationBanner({ result, isValidating, fatigueIssues, roster, onToggleOverride }: ViolationBannerProps) {
+export function ViolationBanner({
+  result,
+  isValidating,
+  fatigueIssues,
+  roster,
+  onToggleOverride,
+  onApplyFix,
+  shows = [],
+}: ViolationBannerProps) {
   const errors = result?.errors ?? [];
   const warnings = result?.warnings ?? [];
   const items = result?.items ?? [];
+  const previousWeek = result?.previousSchedule
+    ? `${result.previousSchedule.week} (${result.previousSchedule.location})`
+    : "last week";
 
   // Collapse fatigue issues to one entry per performer (client-side, override-aware).
   const fatigueByPerformer = new Map<string, { kinds: Set<string>; overridden: boolean }>();
@@ -54,6 +72,12 @@ export function ViolationBanner({ result, isValidating, fatigueIssues, roster, o
   const rosterNames = new Set(roster.map((r) => r.name));
   const scheduleIssues = items.filter((it) => !it.performer || !rosterNames.has(it.performer));
 
+  // A performer with a fatigue row already has its Override button.
+  const fixesFor = (it: ValidationItem) =>
+    onApplyFix
+      ? (it.fixes ?? []).filter((f) => f.operation.kind !== "override" || !fatigueByPerformer.has(f.operation.performer))
+      : [];
+
   const summary = isValidating
     ? "checking…"
     : `${errors.length} error${errors.length === 1 ? "" : "s"} · ${warnings.length} warning${warnings.length === 1 ? "" : "s"}`;
@@ -90,7 +114,15 @@ export function ViolationBanner({ result, isValidating, fatigueIssues, roster, o
                     ) : (
                       <>
                         {perfItems.map((it, i) => (
-                          <IssueLine key={`i${i}`} severity={it.severity} message={it.message} />
+                          <IssueLine
+                            key={`i${i}`}
+                            severity={it.severity}
+                            message={it.message}
+                            carriedFrom={it.carriedOver ? previousWeek : undefined}
+                            fixes={fixesFor(it)}
+                            shows={shows}
+                            onApplyFix={onApplyFix}
+                          />
                         ))}
                         {fatigue ? (
                           <div className="vt-issue warn">
@@ -129,7 +161,14 @@ export function ViolationBanner({ result, isValidating, fatigueIssues, roster, o
                 {scheduleIssues.map((it, i) => (
                   <tr key={`s${i}`} className="vt-group-row">
                     <td colSpan={3} className="vt-issues">
-                      <IssueLine severity={it.severity} message={it.message} />
+                      <IssueLine
+                        severity={it.severity}
+                        message={it.message}
+                        carriedFrom={it.carriedOver ? previousWeek : undefined}
+                        fixes={fixesFor(it)}
+                        shows={shows}
+                        onApplyFix={onApplyFix}
+                      />
                     </td>
                   </tr>
                 ))}
@@ -142,11 +181,46 @@ export function ViolationBanner({ result, isValidating, fatigueIssues, roster, o
   );
 }
 
-function IssueLine({ severity, message }: { severity: ValidationItem["severity"]; message: string }) {
+/** `carriedFrom` names the previous week when the issue only exists because of
+ *  how it ended — nothing in this week alone is wrong. Each quick fix gets a
+ *  button; an override still asks first. */
+function IssueLine({
+  severity,
+  message,
+  carriedFrom,
+  fixes = [],
+  shows = [],
+  onApplyFix,
+}: {
+  severity: ValidationItem["severity"];
+  message: string;
+  carriedFrom?: string;
+  fixes?: QuickFix[];
+  shows?: Show[];
+  onApplyFix?: (operation: FixOperation) => void;
+}) {
   return (
     <div className={`vt-issue ${severity === "error" ? "error" : "warn"}`}>
       {severity === "error" ? <AlertCircle className="v-ico" /> : <AlertTriangle className="v-ico" />}
-      <div className="vt-issue-body">{message}</div>
+      <div className="vt-issue-body">
+        {message}
+        {carriedFrom ? (
+          <span className="v-sub">Carried over from {carriedFrom} — this week alone is within the rules.</span>
+        ) : null}
+        {fixes.length > 0 && onApplyFix ? (
+          <div className="vt-fixes">
+            {fixes.map((f, i) =>
+              f.operation.kind === "override" ? (
+                <OverrideConfirm key={i} performer={f.operation.performer} onConfirm={() => onApplyFix(f.operation)} />
+              ) : (
+                <button key={i} className="btn btn-ghost btn-sm" onClick={() => onApplyFix(f.operation)}>
+                  <Wrench /> Fix: {describeFix(f.operation, shows)}
+                </button>
+              ),
+            )}
+          </div>
+        ) : null}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { applyAssignmentPatch, assignmentPatch, peerColor } from "./live";
+import type { Assignment } from "~backend/scheduler/types";
+
+const week: Assignment[] = [
+  { showId: "thu", role: "Potato", performer: "JAMIE" },
+  { showId: "thu", role: "Sarge", performer: "PHIL" },
+];
+
+describe("assignmentPatch", () => {
+  it("sends a recast as a single cell", () => {
+    const next = [week[1], { showId: "thu", role: "Potato", performer: "CADE" }];
+    expect(assignmentPatch(week, next)).toEqual({ kind: "cell", showId: "thu", role: "Potato", performer: "CADE" });
+  });
+
+  it("sends an uncast as a cell with no performer", () => {
+    expect(assignmentPatch(week, [week[1]])).toEqual({ kind: "cell", showId: "thu", role: "Potato", performer: "" });
+  });
+
+  it("sends the whole list when more than one cell moved", () => {
+    const next = [{ showId: "thu", role: "Potato", performer: "CADE" }, { showId: "thu", role: "Sarge", performer: "LUKE" }];
+    expect(assignmentPatch(week, next)).toEqual({ kind: "assignments", assignments: next });
+  });
+
+  it("sends the whole list for a RED day change", () => {
+    const next = [...week, { showId: "thu", role: "OFF", performer: "SEAN", isRedDay: true }];
+    expect(assignmentPatch(week, next).kind).toBe("assignments");
+  });
+});
+
+describe("applyAssignmentPatch", () => {
+  it("round-trips what assignmentPatch produced", () => {
+    const next = [week[1], { showId: "thu", role: "Potato", performer: "CADE" }];
+    const applied = applyAssignmentPatch(week, assignmentPatch(week, next));
+    expect(applied).toEqual(expect.arrayContaining(next));
+    expect(applied).toHaveLength(next.length);
+  });
+
+  it("leaves assignments alone for a shows patch", () => {
+    expect(applyAssignmentPatch(week, { kind: "shows", shows: [] })).toBe(week);
+  });
+});
+
+describe("peerColor", () => {
+  it("gives the same peer the same colour every time", () => {
+    expect(peerColor({ connectionId: "abc" })).toBe(peerColor({ connectionId: "abc" }));
+  });
+});
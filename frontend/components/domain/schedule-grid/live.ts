@@ -0,0 +1,51 @@
+import type { Assignment, Show } from "~backend/scheduler/types";
+import type { LivePatch, LivePeer } from "~backend/scheduler/live";
+import { isoDate } from "@/components/domain/format";
+
+/** Applies a peer's patch to this editor's assignments. Show patches replace
+ *  the columns wholesale and are applied by the caller. */
+export function applyAssignmentPatch(assignments: Assignment[], patch: LivePatch): Assignment[] {
+  if (patch.kind === "assignments") return patch.assignments;
+  if (patch.kind !== "cell") return assignments;
+  const next = assignments.filter((a) => !(a.showId === patch.showId && a.role === patch.role));
+  if (patch.performer) next.push({ showId: patch.showId, role: patch.role, performer: patch.performer });
+  return next;
+}
+
+/** Shows from the stream carry revived Dates; the editor keeps plain dates. */
+export function normalizeShows(shows: Show[]): Show[] {
+  return shows.map((s) => ({ ...s, date: isoDate(s.date) }));
+}
+
+const key = (a: Assignment) => `${a.showId}|${a.role}|${a.performer}|${a.isRedDay ? 1 : 0}|${a.isOverride ? 1 : 0}`;
+
+/**
+ * The patch that takes a peer from `prev` to `next`: a single cell when that
+ * is all that changed (the common case, picking a performer from a select), or
+ * the whole list otherwise.
+ */
+export function assignmentPatch(prev: Assignment[], next: Assignment[]): LivePatch {
+  const before = new Set(prev.map(key));
+  const after = new Set(next.map(key));
+  const removed = prev.filter((a) => !after.has(key(a)));
+  const added = next.filter((a) => !before.has(key(a)));
+  const touched = [...removed, ...added];
+  const cell = touched[0];
+  const single =
+    cell &&
+    cell.role !== "OFF" &&
+    added.length <= 1 &&
+    removed.length <= 1 &&
+    touched.every((a) => a.showId === cell.showId && a.role === cell.role && !a.isRedDay && !a.isOverride);
+  if (single) return { kind: "cell", showId: cell.showId, role: cell.role, performer: added[0]?.performer ?? "" };
+  return { kind: "assignments", assignments: next };
+}
+
+const PEER_HUES = [25, 145, 300, 200, 85, 340];
+
+/** A stable colour per peer, so their focus ring and name tag match. */
+export function peerColor(peer: Pick<LivePeer, "connectionId">): string {
+  let hash = 0;
+  for (const ch of peer.connectionId) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return `oklch(62% 0.16 ${PEER_HUES[Math.abs(hash) % PEER_HUES.length]})`;
+}
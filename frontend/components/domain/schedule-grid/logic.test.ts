@@ -7,8 +7,12 @@ import {
   splitByCurtain,
   companyRedDate,
   isRedDayFor,
+  explainSlot,
+  applySwap,
+  applyFix,
+  describeFix,
 } from "./logic";
-import type { Show, Assignment, CastMember } from "~backend/scheduler/types";
+import type { Show, Assignment, CastMember, SlotExplanation } from "~backend/scheduler/types";
 
 const show = (id: string, date: string): Show => ({ id, date, time: "19:30", callTime: "18:00", status: "show" });
 const dayOff = (id: string, date: string, nominated: boolean): Show => ({
@@ -216,3 +220,103 @@ describe("splitByCurtain", () => {
     });
   });
 });
+
+describe("explainSlot", () => {
+  it("lists the pick, the others who could play it, and who was ruled out", () => {
+    const explanation: SlotExplanation = {
+      showId: "tue",
+      role: "Sarge",
+      performer: "ALEX",
+      reason: "ALEX has 2 other shows this week; the other who could play it has 3.",
+      candidates: [
+        { performer: "ALEX", detail: "cast", shows: 2 },
+        { performer: "JO", detail: "could play it", shows: 3 },
+        { performer: "KIM", rejectedBy: "weekly_limit", detail: "already 6 shows this week", shows: 6 },
+        { performer: "SAM", rejectedBy: "role", detail: "doesn't play Sarge", shows: 4 },
+        { performer: "LEE", rejectedBy: "role", detail: "doesn't play Sarge", shows: 5 },
+      ],
+    };
+    expect(explainSlot(explanation).split("\n")).toEqual([
+      "ALEX has 2 other shows this week; the other who could play it has 3.",
+      "",
+      "✓ ALEX: cast, 2 other shows",
+      "· JO: could play it, 3 other shows",
+      "✗ KIM: already 6 shows this week",
+      "Don't play Sarge: SAM, LEE",
+    ]);
+  });
+});
+
+describe("applySwap", () => {
+  it("trades two performers' roles and takes the newcomer off the OFF list", () => {
+    const assigns: Assignment[] = [
+      { showId: "tue", role: "Sarge", performer: "ALEX" },
+      { showId: "tue", role: "Potato", performer: "SAM" },
+      { showId: "tue", role: "OFF", performer: "JO", isRedDay: false },
+      { showId: "tue", role: "OFF", performer: "KIM", isRedDay: true },
+    ];
+    const next = applySwap(assigns, [
+      { showId: "tue", role: "Sarge", from: "ALEX", to: "JO" },
+      { showId: "tue", role: "Potato", from: "SAM", to: "ALEX" },
+    ]);
+
+    expect(next).toEqual([
+      { showId: "tue", role: "OFF", performer: "KIM", isRedDay: true },
+      { showId: "tue", role: "Sarge", performer: "JO" },
+      { showId: "tue", role: "Potato", performer: "ALEX" },
+    ]);
+  });
+});
+
+describe("applyFix", () => {
+  const shows = [show("tue", "2024-01-02"), show("wed", "2024-01-03")];
+
+  it("moves a performer's RED day to the first show of the new date", () => {
+    const assigns: Assignment[] = [
+      { showId: "tue", role: "OFF", performer: "SAM", isRedDay: true },
+      { showId: "tue", role: "Sarge", performer: "ALEX" },
+    ];
+
+    expect(applyFix(shows, assigns, { kind: "move_red_day", performer: "SAM", date: "2024-01-03" })).toEqual([
+      { showId: "tue", role: "Sarge", performer: "ALEX" },
+      { showId: "wed", role: "OFF", performer: "SAM", isRedDay: true },
+    ]);
+  });
+
+  it("flags every stage pick of the performer as an override", () => {
+    const assigns: Assignment[] = [
+      { showId: "tue", role: "Sarge", performer: "ALEX" },
+      { showId: "wed", role: "OFF", performer: "ALEX", isRedDay: true },
+    ];
+
+    expect(applyFix(shows, assigns, { kind: "override", performer: "ALEX" })).toEqual([
+      { showId: "tue", role: "Sarge", performer: "ALEX", isOverride: true },
+      { showId: "wed", role: "OFF", performer: "ALEX", isRedDay: true },
+    ]);
+  });
+});
+
+describe("describeFix", () => {
+  const shows = [show("tue", "2024-01-02"), show("wed", "2024-01-03")];
+
+  it("names the cells, the show and the date", () => {
+    expect(describeFix({ kind: "reassign", showId: "tue", role: "Sarge", from: "ALEX", to: "JO" }, shows)).toBe(
+      "JO for ALEX as Sarge, Tue 2 Jan 7:30 PM",
+    );
+    expect(
+      describeFix(
+        {
+          kind: "swap",
+          operations: [
+            { showId: "tue", role: "Sarge", from: "ALEX", to: "JO" },
+            { showId: "wed", role: "Sarge", from: "JO", to: "ALEX" },
+          ],
+        },
+        shows,
+      ),
+    ).toBe("JO for ALEX as Sarge, Tue 2 Jan 7:30 PM; ALEX for JO as Sarge, Wed 3 Jan 7:30 PM");
+    expect(describeFix({ kind: "move_red_day", performer: "SAM", date: "2024-01-03" }, shows)).toBe(
+      "SAM's RED day on Wed 3 Jan",
+    );
+  });
+});
@@ -1,6 +1,8 @@
-import type { Show, Assignment, CastMember, Role } from "~backend/scheduler/types";
+import type { Show, Assignment, CastMember, Role, SlotExplanation } from "~backend/scheduler/types";
+import type { SwapOperation } from "~backend/scheduler/swaps";
+import type { FixOperation } from "~backend/scheduler/fixes";
 import { isKnownTime } from "~backend/scheduler/time";
-import { isoDate, parseLocalDate } from "@/components/domain/format";
+import { dowShort, fmtTime, isoDate, parseLocalDate, shortDate } from "@/components/domain/format";
 
 /** Performer currently filling a role in a show ("" if empty). */
 export function assignedPerformer(assignments: Assignment[], showId: string, role: Role): string {
@@ -219,3 +221,90 @@ export function gridAnalytics(
     redCovered,
   };
 }
+
+/**
+ * Hover text for a slot Auto-Generate explained: the reason, then everyone who
+ * could play it with their other shows, then who was ruled out and by what.
+ * Performers who don't play the role share one line.
+ */
+export function explainSlot(explanation: SlotExplanation): string {
+  const lines = [explanation.reason, ""];
+  const notTheirs: string[] = [];
+  for (const c of explanation.candidates) {
+    if (c.rejectedBy === "role") {
+      notTheirs.push(c.performer);
+    } else if (c.rejectedBy) {
+      lines.push(`✗ ${c.performer}: ${c.detail}`);
+    } else {
+      const mark = c.performer === explanation.performer ? "✓" : "·";
+      lines.push(`${mark} ${c.performer}: ${c.detail}, ${c.shows} other ${c.shows === 1 ? "show" : "shows"}`);
+    }
+  }
+  if (notTheirs.length > 0) lines.push(`Don't play ${explanation.role}: ${notTheirs.join(", ")}`);
+  return lines.join("\n");
+}
+
+/**
+ * A suggested swap put on the grid, as the backend validated it: each cell
+ * gets its new performer, who leaves that show's OFF list. Anyone moved out of
+ * a role is left without one, so the grid shows them OFF.
+ */
+export function applySwap(assignments: Assignment[], operations: SwapOperation[]): Assignment[] {
+  let next = [...assignments];
+  for (const op of operations) {
+    next = next.filter(
+      (a) =>
+        !(a.showId === op.showId && a.role === op.role) &&
+        !(a.showId === op.showId && a.role === "OFF" && !a.isRedDay && a.performer === op.to),
+    );
+    next.push({ showId: op.showId, role: op.role, performer: op.to });
+  }
+  return next;
+}
+
+/**
+ * A validation quick fix put on the grid, as the backend checked it (applyFix
+ * in backend/scheduler/fixes.ts). A RED day goes on the date's first show, as
+ * the RED toggle puts it, replacing the performer's other one.
+ */
+export function applyFix(shows: Show[], assignments: Assignment[], operation: FixOperation): Assignment[] {
+  switch (operation.kind) {
+    case "reassign":
+      return applySwap(assignments, [operation]);
+    case "swap":
+      return applySwap(assignments, operation.operations);
+    case "move_red_day": {
+      const first = shows.find((s) => isoDate(s.date) === isoDate(operation.date) && s.status === "show");
+      const cleared = assignments.filter((a) => !(a.performer === operation.performer && a.isRedDay));
+      return first ? [...cleared, { showId: first.id, role: "OFF", performer: operation.performer, isRedDay: true }] : cleared;
+    }
+    case "override":
+      return assignments.map((a) =>
+        a.performer === operation.performer && a.role !== "OFF" ? { ...a, isOverride: true } : a,
+      );
+  }
+}
+
+/** A quick fix in words for its button, e.g. "SEAN for PHIL as Sarge, Wed 3 Jan 7:30 PM". */
+export function describeFix(operation: FixOperation, shows: Show[]): string {
+  const day = (date: string) => `${dowShort(date)} ${shortDate(date, "short")}`;
+  const show = (showId: string) => {
+    const s = shows.find((x) => x.id === showId);
+    return s ? `${day(s.date)} ${fmtTime(s.time)}` : showId;
+  };
+  const cell = (op: SwapOperation) => (op.from ? `${op.to} for ${op.from} as ${op.role}` : `${op.to} as ${op.role}`);
+  switch (operation.kind) {
+    case "reassign":
+      return `${cell(operation)}, ${show(operation.showId)}`;
+    case "swap": {
+      const showIds = [...new Set(operation.operations.map((op) => op.showId))];
+      return showIds.length === 1
+        ? `${operation.operations.map(cell).join("; ")}, ${show(showIds[0])}`
+        : operation.operations.map((op) => `${cell(op)}, ${show(op.showId)}`).join("; ");
+    }
+    case "move_red_day":
+      return `${operation.performer}'s RED day on ${day(operation.date)}`;
+    case "override":
+      return `Override for ${operation.performer}`;
+  }
+}
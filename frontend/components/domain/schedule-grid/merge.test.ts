@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { mergeWeeks, type WeekContent } from "./merge";
+import type { Assignment, Show } from "~backend/scheduler/types";
+
+const show = (id: string, date: string): Show => ({ id, date, time: "19:30", callTime: "18:00", status: "show" });
+
+const base: WeekContent = {
+  location: "London",
+  week: "",
+  shows: [show("thu", "2024-03-07"), show("fri", "2024-03-08")],
+  assignments: [
+    { showId: "thu", role: "Potato", performer: "JAMIE" },
+    { showId: "thu", role: "Sarge", performer: "PHIL" },
+    { showId: "fri", role: "Potato", performer: "SEAN" },
+  ],
+};
+
+const recast = (content: WeekContent, showId: string, role: string, performer: string): WeekContent => ({
+  ...content,
+  assignments: [
+    ...content.assignments.filter((a) => !(a.showId === showId && a.role === role)),
+    ...(performer ? [{ showId, role, performer }] : []),
+  ],
+});
+
+const cell = (assignments: Assignment[], showId: string, role: string) =>
+  assignments.find((a) => a.showId === showId && a.role === role)?.performer ?? "";
+
+describe("mergeWeeks", () => {
+  it("keeps both editors' changes when they touched different cells", () => {
+    const mine = recast(base, "thu", "Potato", "CADE");
+    const theirs = { ...recast(base, "fri", "Potato", "LUKE"), location: "Paris" };
+    const { merged, conflicts } = mergeWeeks(base, mine, theirs);
+    expect(conflicts).toEqual([]);
+    expect(cell(merged.assignments, "thu", "Potato")).toBe("CADE");
+    expect(cell(merged.assignments, "fri", "Potato")).toBe("LUKE");
+    expect(cell(merged.assignments, "thu", "Sarge")).toBe("PHIL");
+    expect(merged.location).toBe("Paris");
+  });
+
+  it("does not count the same change made twice as a conflict", () => {
+    const mine = recast(base, "thu", "Potato", "CADE");
+    expect(mergeWeeks(base, mine, recast(base, "thu", "Potato", "CADE")).conflicts).toEqual([]);
+  });
+
+  it("lists a cell both changed differently and keeps mine unless told otherwise", () => {
+    const mine = recast(base, "thu", "Potato", "CADE");
+    const theirs = recast(base, "thu", "Potato", "");
+    const { merged, conflicts } = mergeWeeks(base, mine, theirs);
+    expect(conflicts).toEqual([
+      { key: "cast|thu|Potato", kind: "cast", showId: "thu", date: "2024-03-07", role: "Potato", mine: "CADE", theirs: "" },
+    ]);
+    expect(cell(merged.assignments, "thu", "Potato")).toBe("CADE");
+
+    const taken = mergeWeeks(base, mine, theirs, { "cast|thu|Potato": "theirs" });
+    expect(cell(taken.merged.assignments, "thu", "Potato")).toBe("");
+  });
+
+  it("merges RED days per performer", () => {
+    const red = (content: WeekContent, performer: string, showId: string): WeekContent => ({
+      ...content,
+      assignments: [...content.assignments, { showId, role: "OFF", performer, isRedDay: true }],
+    });
+    const mine = red(base, "LUKE", "thu");
+    const theirs = red(red(base, "LUKE", "fri"), "CADE", "fri");
+    const { merged, conflicts } = mergeWeeks(base, mine, theirs);
+    expect(conflicts.map((c) => [c.key, c.mine, c.theirs])).toEqual([["red|LUKE", "2024-03-07", "2024-03-08"]]);
+    expect(merged.assignments.filter((a) => a.isRedDay).map((a) => [a.performer, a.showId])).toEqual([
+      ["LUKE", "thu"],
+      ["CADE", "fri"],
+    ]);
+  });
+
+  it("drops a RED day on a date the merged casting puts the performer on stage", () => {
+    const mine = recast(base, "fri", "Sarge", "LUKE");
+    const theirs = { ...base, assignments: [...base.assignments, { showId: "fri", role: "OFF", performer: "LUKE", isRedDay: true }] };
+    const { merged } = mergeWeeks(base, mine, theirs);
+    expect(cell(merged.assignments, "fri", "Sarge")).toBe("LUKE");
+    expect(merged.assignments.some((a) => a.isRedDay)).toBe(false);
+  });
+
+  it("takes the other side's show columns and drops casting on a show that is gone", () => {
+    const mine = recast(base, "fri", "Sarge", "CADE");
+    const theirs = { ...base, shows: [base.shows[0], { ...base.shows[1], status: "travel" as const }] };
+    const { merged, conflicts } = mergeWeeks(base, mine, theirs);
+    expect(conflicts).toEqual([]);
+    expect(merged.shows[1].status).toBe("travel");
+    expect(merged.assignments.some((a) => a.showId === "fri")).toBe(false);
+  });
+
+  it("reports show columns both edited as one conflict", () => {
+    const mine = { ...base, shows: [{ ...base.shows[0], time: "20:00" }, base.shows[1]] };
+    const theirs = { ...base, shows: [base.shows[0], { ...base.shows[1], time: "15:00" }] };
+    const { merged, conflicts } = mergeWeeks(base, mine, theirs, { shows: "theirs" });
+    expect(conflicts.map((c) => c.key)).toEqual(["shows"]);
+    expect(merged.shows[1].time).toBe("15:00");
+  });
+});
@@ -0,0 +1,174 @@
+import type { Show, Assignment } from "~backend/scheduler/types";
+import { isoDate } from "@/components/domain/format";
+
+/** What two editors can both change about a week. */
+export interface WeekContent {
+  location: string;
+  week: string;
+  shows: Show[];
+  assignments: Assignment[];
+}
+
+export type MergeSide = "mine" | "theirs";
+
+/**
+ * A cell both editors changed, to different values. `key` identifies it across
+ * calls so a choice can be passed back in; `mine`/`theirs` are the performer
+ * (cast), the RED date (red) or the text (location/week), "" meaning empty.
+ * The show columns merge as one unit, so a `shows` conflict carries no values.
+ */
+export interface MergeConflict {
+  key: string;
+  kind: "cast" | "red" | "shows" | "location" | "week";
+  showId?: string;
+  date?: string;
+  role?: string;
+  performer?: string;
+  mine: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  merged: WeekContent;
+  conflicts: MergeConflict[];
+}
+
+/** Three-way pick: a side that left the base alone yields to the one that
+ *  didn't. Only when both moved it, to different values, is it a conflict. */
+function resolve(base: string, mine: string, theirs: string): MergeSide | "conflict" {
+  if (mine === base) return "theirs";
+  if (theirs === base || theirs === mine) return "mine";
+  return "conflict";
+}
+
+const castKey = (showId: string, role: string) => `cast|${showId}|${role}`;
+
+function castingOf(assignments: Assignment[]): Map<string, Assignment> {
+  const map = new Map<string, Assignment>();
+  for (const a of assignments) {
+    if (a.role !== "OFF" && a.performer) map.set(castKey(a.showId, a.role), a);
+  }
+  return map;
+}
+
+function redDatesOf(content: WeekContent): Map<string, string> {
+  const dates = new Map(content.shows.map((s) => [s.id, isoDate(s.date)]));
+  const map = new Map<string, string>();
+  for (const a of content.assignments) {
+    const date = dates.get(a.showId);
+    if (a.isRedDay && date && !map.has(a.performer)) map.set(a.performer, date);
+  }
+  return map;
+}
+
+// Show columns compare as a whole, independent of order and of Date vs string.
+function showsKey(shows: Show[]): string {
+  return JSON.stringify(
+    [...shows]
+      .map((s) => ({ ...s, date: isoDate(s.date), isCompanyRedDay: Boolean(s.isCompanyRedDay) }))
+      .sort((a, b) => a.id.localeCompare(b.id)),
+  );
+}
+
+/**
+ * Combines my unsaved edits with what someone else saved since we both loaded
+ * `base`. Works cell by cell: each stage role in each show, each performer's
+ * RED day, the venue and week label, and the show columns as one unit. A
+ * change only one side made is kept; a cell both changed differently is listed
+ * in `conflicts` and resolved by `choices` (mine unless told otherwise).
+ *
+ * The result is made consistent again afterwards: casting on a show that is
+ * gone or no longer a show day is dropped, and so is a RED day on a date the
+ * performer now holds a role.
+ */
+export function mergeWeeks(
+  base: WeekContent,
+  mine: WeekContent,
+  theirs: WeekContent,
+  choices: Record<string, MergeSide> = {},
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const sides = { mine, theirs };
+
+  const pickText = (kind: "location" | "week"): string => {
+    const side = resolve(base[kind], mine[kind], theirs[kind]);
+    if (side !== "conflict") return sides[side][kind];
+    conflicts.push({ key: kind, kind, mine: mine[kind], theirs: theirs[kind] });
+    return sides[choices[kind] ?? "mine"][kind];
+  };
+  const location = pickText("location");
+  const week = pickText("week");
+
+  let showSide = resolve(showsKey(base.shows), showsKey(mine.shows), showsKey(theirs.shows));
+  if (showSide === "conflict") {
+    conflicts.push({ key: "shows", kind: "shows", mine: "", theirs: "" });
+    showSide = choices.shows ?? "mine";
+  }
+  const shows = sides[showSide].shows;
+  const liveShows = new Map(shows.filter((s) => s.status === "show").map((s) => [s.id, isoDate(s.date)]));
+  const dateOf = (showId: string) =>
+    liveShows.get(showId) ??
+    [mine, theirs, base].map((c) => c.shows.find((s) => s.id === showId)?.date).find(Boolean);
+
+  // Stage casting.
+  const baseCast = castingOf(base.assignments);
+  const cast = { mine: castingOf(mine.assignments), theirs: castingOf(theirs.assignments) };
+  const keys = new Set([...baseCast.keys(), ...cast.mine.keys(), ...cast.theirs.keys()]);
+  const stage: Assignment[] = [];
+  for (const key of keys) {
+    const [, showId, role] = key.split("|");
+    const was = baseCast.get(key)?.performer ?? "";
+    const m = cast.mine.get(key)?.performer ?? "";
+    const t = cast.theirs.get(key)?.performer ?? "";
+    let side = resolve(was, m, t);
+    if (side === "conflict") {
+      const date = dateOf(showId);
+      conflicts.push({ key, kind: "cast", showId, date: date ? isoDate(date) : undefined, role, mine: m, theirs: t });
+      side = choices[key] ?? "mine";
+    }
+    const chosen = cast[side].get(key);
+    if (chosen && liveShows.has(showId)) stage.push(chosen);
+  }
+
+  // Who is on stage on which date, for the RED and OFF clean-up below.
+  const onStage = new Set(stage.map((a) => `${a.performer}|${liveShows.get(a.showId)}`));
+  const inShow = new Set(stage.map((a) => `${a.performer}|${a.showId}`));
+
+  // RED days, one per performer per week.
+  const baseRed = redDatesOf(base);
+  const red = { mine: redDatesOf(mine), theirs: redDatesOf(theirs) };
+  const performers = new Set([...baseRed.keys(), ...red.mine.keys(), ...red.theirs.keys()]);
+  const redRows: Assignment[] = [];
+  for (const performer of performers) {
+    const m = red.mine.get(performer) ?? "";
+    const t = red.theirs.get(performer) ?? "";
+    let side = resolve(baseRed.get(performer) ?? "", m, t);
+    if (side === "conflict") {
+      conflicts.push({ key: `red|${performer}`, kind: "red", performer, date: m || t, mine: m, theirs: t });
+      side = choices[`red|${performer}`] ?? "mine";
+    }
+    const date = side === "mine" ? m : t;
+    if (!date || onStage.has(`${performer}|${date}`)) continue;
+    const showIds = [...liveShows].filter(([, d]) => d === date).map(([id]) => id);
+    if (showIds.length === 0) continue;
+    const rows = sides[side].assignments.filter((a) => a.performer === performer && a.isRedDay && showIds.includes(a.showId));
+    redRows.push(...(rows.length ? rows : [{ showId: showIds[0], role: "OFF", performer, isRedDay: true }]));
+  }
+
+  // Plain OFF rows (the generator writes them) from either side, once each.
+  const taken = new Set([...inShow, ...redRows.map((a) => `${a.performer}|${a.showId}`)]);
+  const offRows: Assignment[] = [];
+  for (const a of [...mine.assignments, ...theirs.assignments]) {
+    const k = `${a.performer}|${a.showId}`;
+    if (a.role !== "OFF" || a.isRedDay || !liveShows.has(a.showId) || taken.has(k)) continue;
+    taken.add(k);
+    offRows.push({ showId: a.showId, role: "OFF", performer: a.performer });
+  }
+
+  conflicts.sort((a, b) => (a.date ?? "").localeCompare(b.date ?? "") || a.key.localeCompare(b.key));
+
+  return {
+    merged: { location, week, shows, assignments: [...stage, ...redRows, ...offRows] },
+    conflicts,
+  };
+}
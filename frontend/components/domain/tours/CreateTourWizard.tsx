@@ -13,21 +13,27 @@ import { Label } from "@/components/ui/label";
 import { NumberStepper } from "@/components/ui/number-stepper";
 import { useCompany } from "@/hooks/useCompany";
 import { useTemplates } from "@/hooks/useTemplates";
+import { useVenues } from "@/hooks/useVenues";
 import { parseLocalDate, isoDate } from "@/components/domain/format";
 import {
   applyTemplate,
+  applyVenueTimes,
   mondayOf,
   nextMondayFrom,
   BUILTIN_TEMPLATE_CHOICES,
   STANDARD_TEMPLATE_ID,
   type TemplateChoice,
 } from "@/components/domain/week";
+import { TourCastPicker } from "./TourCastPicker";
+import { VenueSelect } from "../venues/VenueSelect";
 
 interface CreateTourWizardProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onCreate: (req: BulkCreateRequest) => void;
   isSubmitting?: boolean;
+  /** Tours already in use, so a new segment can be added to one. */
+  parents?: string[];
 }
 
 function addDays(iso: string, n: number): string {
@@ -45,14 +51,22 @@ function todayIso(): string {
   return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
 }
 
-export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }: CreateTourWizardProps) {
-  const { currentCompany } = useCompany();
+export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting, parents = [] }: CreateTourWizardProps) {
+  const { currentCompany, archive } = useCompany();
   const { templates } = useTemplates();
+  const { venues } = useVenues();
   const [tourName, setTourName] = useState("");
   const [segmentName, setSegmentName] = useState("");
+  // Blank: the segment is grouped by the part of its tour name before " - ".
+  const [parentTourName, setParentTourName] = useState("");
   const [startDate, setStartDate] = useState("");
   const [weekCount, setWeekCount] = useState(4);
   const [cities, setCities] = useState<string[]>(["", "", "", ""]);
+  // The library venue per week, if one was picked; it fills the city and the
+  // week's curtain times.
+  const [weekVenues, setWeekVenues] = useState<(string | undefined)[]>([]);
+  // The segment's cast once someone edits it; until then, the whole active company.
+  const [pickedCast, setPickedCast] = useState<string[] | null>(null);
   // Each week picks a template; default to the built-in Standard week.
   const [weekTemplates, setWeekTemplates] = useState<string[]>([
     STANDARD_TEMPLATE_ID,
@@ -65,10 +79,13 @@ export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }:
     if (!open) return;
     setTourName("");
     setSegmentName("");
+    setParentTourName("");
     setStartDate(nextMondayFrom(todayIso()));
     setWeekCount(4);
     setCities(["", "", "", ""]);
+    setWeekVenues([]);
     setWeekTemplates([STANDARD_TEMPLATE_ID, STANDARD_TEMPLATE_ID, STANDARD_TEMPLATE_ID, STANDARD_TEMPLATE_ID]);
+    setPickedCast(null);
   }, [open]);
 
   // Built-in choices (Standard, Blank) first, then the user's own templates.
@@ -77,6 +94,12 @@ export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }:
     [templates],
   );
   const slotsFor = (choiceId: string) => choices.find((c) => c.id === choiceId)?.slots ?? [];
+  const venueOf = (i: number) => venues.find((v) => v.id === weekVenues[i]);
+  const showsFor = (i: number, wStart: string) => {
+    const shows = applyTemplate(slotsFor(weekTemplates[i] ?? STANDARD_TEMPLATE_ID), wStart);
+    const venue = venueOf(i);
+    return venue ? applyVenueTimes(shows, venue) : shows;
+  };
 
   // Clamping lives in NumberStepper, which only ever emits an in-range integer.
   const setCount = (n: number) => {
@@ -91,9 +114,10 @@ export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }:
       while (next.length < n) next.push(STANDARD_TEMPLATE_ID);
       return next;
     });
+    setWeekVenues((prev) => prev.slice(0, n));
   };
 
-  const castMemberIds = currentCompany.map((m) => m.id);
+  const castMemberIds = pickedCast ?? currentCompany.map((m) => m.id);
   const canSave =
     tourName.trim().length > 0 &&
     segmentName.trim().length > 0 &&
@@ -106,16 +130,22 @@ export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }:
     const weeks: TourWeek[] = Array.from({ length: weekCount }, (_, i) => {
       const wStart = addDays(startDate, 7 * i);
       const wEnd = addDays(startDate, 7 * i + 6);
-      const slots = slotsFor(weekTemplates[i] ?? STANDARD_TEMPLATE_ID);
       return {
         startDate: wStart,
         endDate: wEnd,
         locationCity: cities[i].trim(),
+        venueId: venueOf(i)?.id,
         week: "", // week numbers dropped; identity is venue + date range
-        shows: applyTemplate(slots, wStart),
+        shows: showsFor(i, wStart),
       };
     });
-    onCreate({ tourName: tourName.trim(), segmentName: segmentName.trim(), castMemberIds, weeks });
+    onCreate({
+      tourName: tourName.trim(),
+      segmentName: segmentName.trim(),
+      parentTourName: parentTourName.trim() || undefined,
+      castMemberIds,
+      weeks,
+    });
   };
 
   return (
@@ -125,8 +155,8 @@ export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }:
           <DialogTitle>Create tour segment</DialogTitle>
           <DialogDescription>
             Configure 1–12 weeks. Each is bulk-generated with role assignments and RED-day fairness for the{" "}
-            {castMemberIds.length} active cast. Pick a template per week to set its shape, or reshape any week in detail
-            later in its editor.
+            {castMemberIds.length} performers on this segment. Pick a template per week to set its shape, or reshape any
+            week in detail later in its editor.
           </DialogDescription>
         </DialogHeader>
 
@@ -142,6 +172,24 @@ export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }:
             </div>
           </div>
 
+          {parents.length ? (
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="parent-tour">Add to tour (optional)</Label>
+              <Input
+                id="parent-tour"
+                list="parent-tours"
+                value={parentTourName}
+                onChange={(e) => setParentTourName(e.target.value)}
+                placeholder="A new tour"
+              />
+              <datalist id="parent-tours">
+                {parents.map((p) => (
+                  <option key={p} value={p} />
+                ))}
+              </datalist>
+            </div>
+          ) : null}
+
           <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
             <div className="stack" style={{ gap: 6 }}>
               <Label htmlFor="start-date">Week 1 start (Mon)</Label>
@@ -169,7 +217,7 @@ export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }:
               {Array.from({ length: weekCount }).map((_, i) => {
                 const wStart = startDate ? addDays(startDate, 7 * i) : "";
                 const choiceId = weekTemplates[i] ?? STANDARD_TEMPLATE_ID;
-                const shows = wStart ? applyTemplate(slotsFor(choiceId), wStart).filter((s) => s.status === "show").length : 0;
+                const shows = wStart ? showsFor(i, wStart).filter((s) => s.status === "show").length : 0;
                 return (
                   <div key={i} className="row" style={{ gap: 10, minHeight: 36, flexShrink: 0 }}>
                     <span className="week-num" style={{ width: 44 }}>
@@ -186,6 +234,26 @@ export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }:
                       }
                       placeholder={`City for week ${i + 1}`}
                     />
+                    {venues.length ? (
+                      <VenueSelect
+                        venues={venues}
+                        value={weekVenues[i]}
+                        emptyLabel="No library venue"
+                        onChange={(v) => {
+                          setWeekVenues((prev) => {
+                            const next = [...prev];
+                            next[i] = v?.id;
+                            return next;
+                          });
+                          if (v)
+                            setCities((prev) => {
+                              const next = [...prev];
+                              next[i] = v.city || v.name;
+                              return next;
+                            });
+                        }}
+                      />
+                    ) : null}
                     <select
                       className="travel-select"
                       value={choiceId}
@@ -212,6 +280,11 @@ export function CreateTourWizard({ open, onOpenChange, onCreate, isSubmitting }:
               })}
             </div>
           </div>
+
+          <div className="stack" style={{ gap: 8 }}>
+            <Label>Cast on this segment</Label>
+            <TourCastPicker members={currentCompany} guests={archive} selected={castMemberIds} onChange={setPickedCast} />
+          </div>
         </div>
 
         <DialogFooter>
@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from "react";
+import { CalendarPlus } from "lucide-react";
+import type { AddTourWeekRequest, TourWithWeeks } from "~backend/scheduler/tour_types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useTemplates } from "@/hooks/useTemplates";
+import { useVenues } from "@/hooks/useVenues";
+import { VenueSelect } from "../venues/VenueSelect";
+import { isoDate } from "../format";
+import {
+  addDaysIso,
+  applyTemplate,
+  applyVenueTimes,
+  mondayOf,
+  BUILTIN_TEMPLATE_CHOICES,
+  STANDARD_TEMPLATE_ID,
+  type TemplateChoice,
+} from "../week";
+
+/**
+ * Adds a week to a tour segment from a template, after its last week by
+ * default. A week picked earlier than that is slotted in: the weeks from that
+ * date on move back a week to make room, unless the manager opts out.
+ */
+export function TourAddWeekDialog({
+  tour,
+  onOpenChange,
+  onAdd,
+  isSaving,
+}: {
+  tour: TourWithWeeks | null;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (req: AddTourWeekRequest) => void;
+  isSaving?: boolean;
+}) {
+  const { templates } = useTemplates();
+  const { venues } = useVenues();
+  const [city, setCity] = useState("");
+  const [venueId, setVenueId] = useState<string | undefined>(undefined);
+  const [weekOf, setWeekOf] = useState("");
+  const [templateId, setTemplateId] = useState(STANDARD_TEMPLATE_ID);
+  const [shiftFollowing, setShiftFollowing] = useState(true);
+
+  const starts = tour?.weeks.map((w) => isoDate(w.startDate)).filter(Boolean).sort() ?? [];
+  const lastMonday = starts.length ? mondayOf(starts[starts.length - 1]) : "";
+
+  useEffect(() => {
+    if (!tour) return;
+    setCity("");
+    setVenueId(undefined);
+    setWeekOf(lastMonday ? addDaysIso(lastMonday, 7) : mondayOf(isoDate(tour.startDate)));
+    setTemplateId(STANDARD_TEMPLATE_ID);
+    setShiftFollowing(true);
+  }, [tour, lastMonday]);
+
+  // Built-in choices (Standard, Blank) first, then the user's own templates.
+  const choices: TemplateChoice[] = useMemo(
+    () => [...BUILTIN_TEMPLATE_CHOICES, ...templates.map((t) => ({ id: t.id, name: t.name, slots: t.slots }))],
+    [templates],
+  );
+  const venue = venues.find((v) => v.id === venueId);
+  const templateShows = weekOf ? applyTemplate(choices.find((c) => c.id === templateId)?.slots ?? [], weekOf) : [];
+  const shows = venue ? applyVenueTimes(templateShows, venue) : templateShows;
+  const later = weekOf ? starts.filter((d) => d >= weekOf).length : 0;
+  const canSave = city.trim().length > 0 && weekOf.length > 0;
+
+  const add = () => {
+    if (!tour || !canSave) return;
+    onAdd({
+      id: tour.id,
+      shiftFollowing: later > 0 && shiftFollowing,
+      week: {
+        startDate: weekOf,
+        endDate: addDaysIso(weekOf, 6),
+        locationCity: city.trim(),
+        venueId: venue?.id,
+        week: "",
+        shows,
+      },
+    });
+  };
+
+  return (
+    <Dialog open={tour !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            <CalendarPlus style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            Add a week to {tour?.segmentName || tour?.name}
+          </DialogTitle>
+          <DialogDescription>
+            The new week is cast from this segment's cast list, like the weeks made with the tour.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="stack" style={{ gap: 14 }}>
+          {venues.length ? (
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="add-week-venue">Venue</Label>
+              <VenueSelect
+                id="add-week-venue"
+                venues={venues}
+                value={venueId}
+                emptyLabel="No library venue"
+                onChange={(v) => {
+                  setVenueId(v?.id);
+                  if (v) setCity(v.city || v.name);
+                }}
+              />
+            </div>
+          ) : null}
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="add-week-city">City</Label>
+              <Input id="add-week-city" value={city} onChange={(e) => setCity(e.target.value)} placeholder="Amsterdam" />
+            </div>
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="add-week-of">Week of (Mon)</Label>
+              {/* Templates lay shows out from the Monday, as in the tour wizard. */}
+              <Input
+                id="add-week-of"
+                type="date"
+                value={weekOf}
+                onChange={(e) => setWeekOf(e.target.value ? mondayOf(e.target.value) : "")}
+              />
+            </div>
+          </div>
+
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="add-week-template">Template</Label>
+            <select
+              id="add-week-template"
+              className="travel-select"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+            >
+              {choices.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-muted" style={{ fontSize: 12 }}>
+              {shows.filter((s) => s.status === "show").length} shows
+            </p>
+          </div>
+
+          {later > 0 ? (
+            <label className="row" style={{ gap: 8, cursor: "pointer", fontSize: 13 }}>
+              <Checkbox checked={shiftFollowing} onCheckedChange={(c) => setShiftFollowing(c === true)} />
+              Move the {later} week{later === 1 ? "" : "s"} from this date on back a week
+            </label>
+          ) : null}
+        </div>
+
+        <DialogFooter>
+          <button className="btn btn-ghost btn-sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </button>
+          <button className="btn btn-primary btn-sm" onClick={add} disabled={!canSave || isSaving}>
+            {isSaving ? "Adding…" : "Add week"}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Users } from "lucide-react";
+import type { TourWithWeeks } from "~backend/scheduler/tour_types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useCompany } from "@/hooks/useCompany";
+import { useTourCastPreview } from "@/hooks/useTours";
+import { useSettings } from "@/providers/SettingsProvider";
+import { shortDate } from "../format";
+import { TourCastPicker } from "./TourCastPicker";
+
+/**
+ * Changes who goes out on a tour segment. Every week of the segment is
+ * generated and validated against this list. Before saving, it lists the
+ * weeks that cast someone the new list leaves out. Saving doesn't touch those
+ * picks; generating the tour again recasts them.
+ */
+export function TourCastDialog({
+  tour,
+  onOpenChange,
+  onSave,
+  isSaving,
+}: {
+  tour: TourWithWeeks | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (castMemberIds: string[]) => void;
+  isSaving?: boolean;
+}) {
+  const { currentCompany, archive } = useCompany();
+  const { dateStyle } = useSettings();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (tour) setSelected(tour.castMemberIds ?? []);
+  }, [tour]);
+
+  const { affectedWeeks, isLoading } = useTourCastPreview(tour?.id, selected, Boolean(tour));
+
+  return (
+    <Dialog open={tour !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" style={{ maxHeight: "88vh", overflowY: "auto" }}>
+        <DialogHeader>
+          <DialogTitle>
+            <Users style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            Cast for {tour?.segmentName || tour?.name}
+          </DialogTitle>
+          <DialogDescription>
+            This segment's weeks are generated and checked against these performers only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="stack" style={{ gap: 14 }}>
+          <TourCastPicker members={currentCompany} guests={archive} selected={selected} onChange={setSelected} />
+
+          <div className="stack" style={{ gap: 6, fontSize: 13 }}>
+            <div className="kicker">Affected weeks</div>
+            {isLoading ? (
+              <p className="text-muted">Checking…</p>
+            ) : affectedWeeks.length === 0 ? (
+              <p className="text-muted">No week casts anyone outside this list.</p>
+            ) : (
+              affectedWeeks.map((w) => (
+                <div key={w.scheduleId}>
+                  {w.locationCity} · {shortDate(w.startDate, dateStyle)}: <span className="mono">{w.performers.join(", ")}</span>
+                  <span className="text-muted">
+                    {" "}
+                    ({w.assignments} pick{w.assignments === 1 ? "" : "s"} to recast)
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <button className="btn btn-ghost btn-sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </button>
+          <button
+            className="btn btn-primary btn-sm"
+            onClick={() => onSave(selected)}
+            disabled={selected.length === 0 || isSaving}
+          >
+            {isSaving ? "Saving…" : `Save cast (${selected.length})`}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
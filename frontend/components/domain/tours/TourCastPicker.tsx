@@ -0,0 +1,49 @@
+import type { CompanyMember } from "~backend/scheduler/company";
+import { Checkbox } from "@/components/ui/checkbox";
+
+/**
+ * Which company members go out on a tour segment. Archived members are offered
+ * as guests: someone who isn't on the company's roster can join one segment.
+ * `selected` holds member ids, as tours store them; an older tour may name
+ * performers instead, so a member also counts as picked by name.
+ */
+export function TourCastPicker({
+  members,
+  guests,
+  selected,
+  onChange,
+}: {
+  members: CompanyMember[];
+  guests: CompanyMember[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  const isPicked = (m: CompanyMember) => selected.includes(m.id) || selected.includes(m.name);
+  const toggle = (m: CompanyMember, on: boolean) => {
+    const rest = selected.filter((id) => id !== m.id && id !== m.name);
+    onChange(on ? [...rest, m.id] : rest);
+  };
+
+  const list = (people: CompanyMember[]) => (
+    <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(140px, 1fr))", gap: 6 }}>
+      {people.map((m) => (
+        <label key={m.id} className="row" style={{ gap: 8, cursor: "pointer" }} title={m.eligibleRoles.join(", ")}>
+          <Checkbox checked={isPicked(m)} onCheckedChange={(c) => toggle(m, c === true)} />
+          <span className="mono">{m.name}</span>
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="stack" style={{ gap: 10 }}>
+      {list(members)}
+      {guests.length ? (
+        <>
+          <div className="kicker">Guests from the archive</div>
+          {list(guests)}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { Pencil } from "lucide-react";
+import type { TourWithWeeks, UpdateTourRequest } from "~backend/scheduler/tour_types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useSettings } from "@/providers/SettingsProvider";
+import { useRuleProfiles } from "@/hooks/useRuleProfiles";
+import { isoDate, shortDate } from "../format";
+import { addDaysIso, dayDiffIso, mondayOf } from "../week";
+
+/**
+ * Renames a tour segment, files it under another tour, moves the whole
+ * segment to another week, or picks the labour rules its weeks use. Moving
+ * keeps every show on its weekday: the first week lands in the week picked,
+ * the rest follow at the same spacing, and their casting and RED days go
+ * with them.
+ */
+export function TourEditDialog({
+  tour,
+  parents,
+  onOpenChange,
+  onSave,
+  isSaving,
+}: {
+  tour: TourWithWeeks | null;
+  /** Tours already in use, offered as the segment's parent. */
+  parents: string[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (req: UpdateTourRequest) => void;
+  isSaving?: boolean;
+}) {
+  const { dateStyle } = useSettings();
+  const { profiles, companyProfileId } = useRuleProfiles();
+  const [name, setName] = useState("");
+  const [segmentName, setSegmentName] = useState("");
+  const [parentTourName, setParentTourName] = useState("");
+  const [weekOf, setWeekOf] = useState("");
+  const [ruleProfileId, setRuleProfileId] = useState("");
+
+  const firstShow = tour?.weeks.map((w) => isoDate(w.startDate)).filter(Boolean).sort()[0] ?? "";
+  const firstMonday = firstShow ? mondayOf(firstShow) : "";
+
+  useEffect(() => {
+    if (!tour) return;
+    setName(tour.name);
+    setSegmentName(tour.segmentName);
+    setParentTourName(tour.parentTourName ?? "");
+    setWeekOf(firstMonday);
+    setRuleProfileId(tour.ruleProfileId ?? "");
+  }, [tour, firstMonday]);
+
+  const shift = weekOf && firstMonday ? dayDiffIso(weekOf, firstMonday) : 0;
+  const canSave = name.trim().length > 0 && segmentName.trim().length > 0;
+
+  const save = () => {
+    if (!tour || !canSave) return;
+    onSave({
+      id: tour.id,
+      name: name.trim(),
+      segmentName: segmentName.trim(),
+      parentTourName: parentTourName.trim(),
+      startDate: shift ? addDaysIso(firstShow, shift) : undefined,
+      ruleProfileId,
+    });
+  };
+
+  return (
+    <Dialog open={tour !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            <Pencil style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            Edit {tour?.segmentName || tour?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Moving the segment moves every one of its weeks by the same amount, shows and casting included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="stack" style={{ gap: 14 }}>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="edit-tour-name">Tour name</Label>
+              <Input id="edit-tour-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="edit-segment-name">Segment</Label>
+              <Input id="edit-segment-name" value={segmentName} onChange={(e) => setSegmentName(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="edit-parent-tour">Part of tour</Label>
+            <Input
+              id="edit-parent-tour"
+              list="edit-parent-tours"
+              value={parentTourName}
+              onChange={(e) => setParentTourName(e.target.value)}
+              placeholder={name || "Tour name"}
+            />
+            <datalist id="edit-parent-tours">
+              {parents.map((p) => (
+                <option key={p} value={p} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="edit-week-of">First week (Mon)</Label>
+            <Input
+              id="edit-week-of"
+              type="date"
+              value={weekOf}
+              disabled={!firstMonday}
+              onChange={(e) => setWeekOf(e.target.value ? mondayOf(e.target.value) : firstMonday)}
+            />
+            <p className="text-muted" style={{ fontSize: 12 }}>
+              {!firstMonday
+                ? "This segment has no shows to move yet."
+                : shift === 0
+                  ? `Starts ${shortDate(firstShow, dateStyle)}.`
+                  : `Moves ${tour?.weeks.length ?? 0} week(s) ${Math.abs(shift / 7)} week(s) ${shift > 0 ? "later" : "earlier"}: starts ${shortDate(addDaysIso(firstShow, shift), dateStyle)}.`}
+            </p>
+          </div>
+
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="edit-rule-profile">Labour rules</Label>
+            <select
+              id="edit-rule-profile"
+              className="travel-select"
+              value={ruleProfileId}
+              onChange={(e) => setRuleProfileId(e.target.value)}
+            >
+              <option value="">
+                Company's ({profiles.find((p) => p.id === companyProfileId)?.name ?? "built-in"})
+              </option>
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <button className="btn btn-ghost btn-sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </button>
+          <button className="btn btn-primary btn-sm" onClick={save} disabled={!canSave || isSaving}>
+            {isSaving ? "Saving…" : "Save"}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { ChevronRight, Trash2 } from "lucide-react";
+import { CalendarPlus, ChevronRight, Pencil, Trash2, Users, Wand2 } from "lucide-react";
 import type { TourWithWeeks } from "~backend/scheduler/tour_types";
 import { weekStatus, type TourWeekView } from "@/hooks/useTours";
 import { RouteTimeline } from "./RouteTimeline";
@@ -13,9 +13,27 @@ interface TourFolderProps {
   defaultOpen?: boolean;
   onDeleteTour: (tour: TourWithWeeks) => void;
   onDeleteWeek: (tour: TourWithWeeks, week: TourWeekView) => void;
+  onGenerate: (tour: TourWithWeeks) => void;
+  onEditCast: (tour: TourWithWeeks) => void;
+  onEdit: (tour: TourWithWeeks) => void;
+  onAddWeek: (tour: TourWithWeeks) => void;
+  /** The segment's dated weeks in their new order; the segment keeps its dates. */
+  onReorder: (tour: TourWithWeeks, weekIds: string[]) => void;
+  isGenerating?: boolean;
 }
 
-export function TourFolder({ tour, defaultOpen, onDeleteTour, onDeleteWeek }: TourFolderProps) {
+export function TourFolder({
+  tour,
+  defaultOpen,
+  onDeleteTour,
+  onDeleteWeek,
+  onGenerate,
+  onEditCast,
+  onEdit,
+  onAddWeek,
+  onReorder,
+  isGenerating,
+}: TourFolderProps) {
   const [open, setOpen] = useState(!!defaultOpen);
   const { dateStyle } = useSettings();
   const weeks = tour.weeks;
@@ -23,6 +41,13 @@ export function TourFolder({ tour, defaultOpen, onDeleteTour, onDeleteWeek }: To
   const pct = weeks.length ? Math.round((ready / weeks.length) * 100) : 0;
   const totalShows = weeks.reduce((n, w) => n + w.showCount, 0);
   const castCount = tour.castMemberIds?.length ?? 0;
+  // Weeks with no shows have no dates to trade, so only dated weeks reorder.
+  const dated = weeks.filter((w) => w.startDate).map((w) => w.id);
+  const swap = (i: number, j: number) => () => {
+    const order = [...dated];
+    [order[i], order[j]] = [order[j], order[i]];
+    onReorder(tour, order);
+  };
 
   return (
     <div className={`tour-folder${open ? " open" : ""}`}>
@@ -52,6 +77,23 @@ export function TourFolder({ tour, defaultOpen, onDeleteTour, onDeleteWeek }: To
           <span className="pill-dot" />
           {ready}/{weeks.length} ready
         </span>
+        <button
+          className="btn btn-ghost btn-sm"
+          title="Fill every week in date order, carrying runs and RED days from week to week"
+          onClick={() => onGenerate(tour)}
+          disabled={isGenerating || weeks.length === 0}
+        >
+          <Wand2 /> {isGenerating ? "Generating…" : "Generate all weeks"}
+        </button>
+        <button className="btn btn-ghost btn-sm" title="Who goes out on this segment" onClick={() => onEditCast(tour)}>
+          <Users /> Cast ({castCount})
+        </button>
+        <button className="btn btn-ghost btn-sm btn-icon" title="Add a week" onClick={() => onAddWeek(tour)}>
+          <CalendarPlus />
+        </button>
+        <button className="btn btn-ghost btn-sm btn-icon" title="Rename or move this segment" onClick={() => onEdit(tour)}>
+          <Pencil />
+        </button>
         <button className="btn btn-ghost btn-sm btn-icon" title="Delete tour" onClick={() => onDeleteTour(tour)}>
           <Trash2 />
         </button>
@@ -60,9 +102,19 @@ export function TourFolder({ tour, defaultOpen, onDeleteTour, onDeleteWeek }: To
       <div className="tour-weeks">
         <RouteTimeline weeks={weeks} />
         <TourSummaryBar castCount={castCount} totalShows={totalShows} weekCount={weeks.length} />
-        {weeks.map((w, i) => (
-          <TourWeekRow key={w.id} week={w} index={i} onDelete={(week) => onDeleteWeek(tour, week)} />
-        ))}
+        {weeks.map((w, i) => {
+          const at = dated.indexOf(w.id);
+          return (
+            <TourWeekRow
+              key={w.id}
+              week={w}
+              index={i}
+              onDelete={(week) => onDeleteWeek(tour, week)}
+              onMoveUp={at > 0 ? swap(at, at - 1) : undefined}
+              onMoveDown={at >= 0 && at < dated.length - 1 ? swap(at, at + 1) : undefined}
+            />
+          );
+        })}
       </div>
     </div>
   );
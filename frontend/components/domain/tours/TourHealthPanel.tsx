@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ChevronRight } from "lucide-react";
+import type { TourWithWeeks } from "~backend/scheduler/tour_types";
+import type { TourHealthRequest } from "~backend/scheduler/tour_health";
+import { Input } from "@/components/ui/input";
+import { useTourHealth } from "@/hooks/useTours";
+import { DOW, shortDate } from "../format";
+import { useSettings } from "@/providers/SettingsProvider";
+
+interface TourHealthPanelProps {
+  tours: TourWithWeeks[];
+}
+
+const RANGE = "range";
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+/** One tour segment's weeks, or every week in a date range, checked together:
+ *  the weeks with something to fix (each opens in the editor), who keeps
+ *  playing more than their share, and which weekdays the RED days land on. */
+export function TourHealthPanel({ tours }: TourHealthPanelProps) {
+  const { dateStyle } = useSettings();
+  const [scope, setScope] = useState(tours[0]?.id ?? RANGE);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  const request: TourHealthRequest | null =
+    scope !== RANGE ? { tourId: scope } : startDate && endDate ? { startDate, endDate } : null;
+  const { report, isLoading, error } = useTourHealth(request);
+  const problems = report?.weeks.filter((w) => !w.healthy) ?? [];
+  const withoutRed = report?.redDays.filter((r) => r.weeksWithout > 0) ?? [];
+
+  return (
+    <div className="card stack" style={{ gap: 16 }}>
+      <div className="row" style={{ gap: 12, flexWrap: "wrap" }}>
+        <select
+          aria-label="Weeks to check"
+          className="travel-select"
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+        >
+          {tours.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+              {t.segmentName ? ` — ${t.segmentName}` : ""}
+            </option>
+          ))}
+          <option value={RANGE}>Every week in a date range</option>
+        </select>
+        {scope === RANGE ? (
+          <>
+            <Input aria-label="From" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} style={{ width: "auto" }} />
+            <Input aria-label="To" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} style={{ width: "auto" }} />
+          </>
+        ) : null}
+      </div>
+
+      {!request ? (
+        <p className="text-muted">Pick the first and last dates to check.</p>
+      ) : isLoading ? (
+        <p className="text-muted">Checking every week…</p>
+      ) : error || report?.error ? (
+        <p className="text-muted">Couldn't check these weeks: {error?.message ?? report?.error}</p>
+      ) : report ? (
+        <>
+          <div className="row" style={{ gap: 8, flexWrap: "wrap" }}>
+            <span className={`pill ${problems.length ? "pill-red" : "pill-show"}`}>
+              <span className="pill-dot" />
+              {problems.length} of {plural(report.weeks.length, "week")} to look at
+            </span>
+            <span className="pill pill-red">{plural(report.totals.errors, "error")}</span>
+            <span className="pill pill-travel">{plural(report.totals.warnings, "warning")}</span>
+            <span className="pill pill-off">{plural(report.totals.unfilledCells, "empty cell")}</span>
+            <span className="pill pill-off">{plural(report.totals.tbcTimes, "TBC time")}</span>
+          </div>
+
+          {problems.length === 0 ? (
+            <p className="text-muted">Every week is clean.</p>
+          ) : (
+            <div className="stack" style={{ gap: 10 }}>
+              {problems.map((w) => (
+                <Link key={w.scheduleId} to={`/schedule/${w.scheduleId}`} className="week-row row" style={{ gap: 14 }}>
+                  <div className="week-info grow" style={{ minWidth: 0 }}>
+                    <div className="week-loc">
+                      {w.locationCity} · {shortDate(w.startDate, dateStyle)}
+                    </div>
+                    {w.issues.map((issue) => (
+                      <div key={issue} className="week-date">
+                        {issue}
+                      </div>
+                    ))}
+                  </div>
+                  {w.errors ? <span className="pill pill-red">{plural(w.errors, "error")}</span> : null}
+                  {w.warnings ? <span className="pill pill-travel">{plural(w.warnings, "warning")}</span> : null}
+                  {w.unfilledCells ? <span className="pill pill-off">{w.unfilledCells} empty</span> : null}
+                  {w.tbcTimes ? <span className="pill pill-off">{w.tbcTimes} TBC</span> : null}
+                  <ChevronRight style={{ width: 16, height: 16, color: "var(--muted)" }} />
+                </Link>
+              ))}
+            </div>
+          )}
+
+          <div className="stack" style={{ gap: 6 }}>
+            <div className="h3">Playing more than their share</div>
+            {report.overworked.length === 0 ? (
+              <p className="text-muted">Nobody is over their share in more than one week.</p>
+            ) : (
+              report.overworked.map((o) => (
+                <div key={o.performer} className="between">
+                  <span>{o.performer}</span>
+                  <span className="text-muted" style={{ fontSize: 13 }}>
+                    {o.showsPerWeek.join(" · ")} shows a week — over in {plural(o.weeksOver, "week")}, +{o.excess}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="stack" style={{ gap: 6 }}>
+            <div className="h3">RED days by weekday</div>
+            <div className="row" style={{ gap: 8, flexWrap: "wrap" }}>
+              {report.redWeekdays.map((n, day) => (
+                <span key={DOW[day]} className={`pill ${n ? "pill-accent" : "pill-off"}`}>
+                  {DOW[day]} {n}
+                </span>
+              ))}
+            </div>
+            {withoutRed.length ? (
+              <p className="text-muted" style={{ fontSize: 13 }}>
+                Played a week without a RED day:{" "}
+                {withoutRed.map((r) => `${r.performer} (${plural(r.weeksWithout, "week")})`).join(", ")}
+              </p>
+            ) : null}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { Link } from "react-router-dom";
-import { Trash2, ChevronRight } from "lucide-react";
+import { Trash2, ChevronRight, ArrowUp, ArrowDown } from "lucide-react";
 import { weekStatus, type TourWeekView } from "@/hooks/useTours";
 import { shortDate, isoDate } from "../format";
 import { useSettings } from "@/providers/SettingsProvider";
@@ -9,11 +9,15 @@ interface TourWeekRowProps {
   /** Position within the (date-sorted) segment — weeks are no longer numbered. */
   index: number;
   onDelete: (week: TourWeekView) => void;
+  /** Swap with the neighbouring week; omitted where the week can't move that way. */
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
 }
 
 /** A week row opens its schedule in the editor (week.id IS a schedule id).
- *  The delete control is a sibling of the link so it never triggers navigation. */
-export function TourWeekRow({ week, index, onDelete }: TourWeekRowProps) {
+ *  The move and delete controls are siblings of the link so they never
+ *  trigger navigation. */
+export function TourWeekRow({ week, index, onDelete, onMoveUp, onMoveDown }: TourWeekRowProps) {
   const status = weekStatus(week);
   const { dateStyle } = useSettings();
   // week.startDate is derived from the week's shows_data; only render one if real.
@@ -37,6 +41,12 @@ export function TourWeekRow({ week, index, onDelete }: TourWeekRowProps) {
         </span>
         <ChevronRight style={{ width: 16, height: 16, color: "var(--muted)" }} />
       </Link>
+      <button className="btn btn-ghost btn-sm btn-icon" title="Move a week earlier" onClick={onMoveUp} disabled={!onMoveUp}>
+        <ArrowUp />
+      </button>
+      <button className="btn btn-ghost btn-sm btn-icon" title="Move a week later" onClick={onMoveDown} disabled={!onMoveDown}>
+        <ArrowDown />
+      </button>
       <button
         className="btn btn-danger btn-sm btn-icon"
         title="Delete week"
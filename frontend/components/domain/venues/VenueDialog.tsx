@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from "react";
+import { MapPin } from "lucide-react";
+import type { Venue, VenueShowTime } from "~backend/scheduler/types";
+import type { CreateVenueRequest } from "~backend/scheduler/venues";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TIME_ZONES } from "../format";
+import { callTimeBefore } from "../week";
+
+// Monday first, as dayOffset counts.
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** "15:00, 20:00" as times, or null when an entry isn't a time of day. */
+function parseTimes(text: string): string[] | null {
+  const times: string[] = [];
+  for (const part of text.split(/[,\s]+/).filter(Boolean)) {
+    const m = /^(\d{1,2})[:.]?(\d{2})$/.exec(part);
+    if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) return null;
+    times.push(`${m[1].padStart(2, "0")}:${m[2]}`);
+  }
+  return times;
+}
+
+/**
+ * Adds a venue to the library or edits one. Curtain times are typed per
+ * weekday; a weekday left blank keeps the app's built-in times when a week is
+ * set up there. Editing a venue changes what new weeks start from, not the
+ * weeks already scheduled.
+ */
+export function VenueDialog({
+  open,
+  venue,
+  onOpenChange,
+  onSave,
+  isSaving,
+}: {
+  open: boolean;
+  /** The venue being edited, or null for a new one. */
+  venue: Venue | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (venue: CreateVenueRequest) => void;
+  isSaving?: boolean;
+}) {
+  const [name, setName] = useState("");
+  const [city, setCity] = useState("");
+  const [country, setCountry] = useState("");
+  const [address, setAddress] = useState("");
+  const [timeZone, setTimeZone] = useState("");
+  const [callOffset, setCallOffset] = useState("90");
+  const [dayTimes, setDayTimes] = useState<string[]>(WEEKDAYS.map(() => ""));
+
+  useEffect(() => {
+    if (!open) return;
+    setName(venue?.name ?? "");
+    setCity(venue?.city ?? "");
+    setCountry(venue?.country ?? "");
+    setAddress(venue?.address ?? "");
+    setTimeZone(venue?.timeZone ?? "");
+    setCallOffset(String(venue?.callOffsetMinutes ?? 90));
+    setDayTimes(
+      WEEKDAYS.map((_, day) =>
+        (venue?.showTimes ?? [])
+          .filter((t) => t.dayOffset === day)
+          .map((t) => t.time)
+          .join(", "),
+      ),
+    );
+  }, [open, venue]);
+
+  const parsed = useMemo(() => dayTimes.map(parseTimes), [dayTimes]);
+  const offset = Number(callOffset);
+  const offsetOk = callOffset.trim() !== "" && Number.isInteger(offset) && offset >= 0 && offset <= 600;
+  const canSave = name.trim().length > 0 && offsetOk && parsed.every((t) => t !== null);
+
+  const save = () => {
+    if (!canSave) return;
+    const showTimes: VenueShowTime[] = parsed.flatMap((times, dayOffset) =>
+      (times ?? []).map((time) => ({ dayOffset, time })),
+    );
+    onSave({
+      name: name.trim(),
+      city: city.trim(),
+      country: country.trim(),
+      address: address.trim(),
+      timeZone: timeZone.trim(),
+      showTimes,
+      callOffsetMinutes: offset,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            <MapPin style={{ display: "inline", width: 18, height: 18, marginRight: 6 }} />
+            {venue ? `Edit ${venue.name}` : "New venue"}
+          </DialogTitle>
+          <DialogDescription>
+            A week set up at this venue starts from its curtain times, with calls the offset before each.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="stack" style={{ gap: 14 }}>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="venue-name">Venue</Label>
+              <Input id="venue-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ambassadors Theatre" />
+            </div>
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="venue-city">City</Label>
+              <Input id="venue-city" value={city} onChange={(e) => setCity(e.target.value)} placeholder="London" />
+            </div>
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="venue-country">Country</Label>
+              <Input id="venue-country" value={country} onChange={(e) => setCountry(e.target.value)} />
+            </div>
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="venue-zone">Time zone</Label>
+              <Input
+                id="venue-zone"
+                list="venue-zones"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                placeholder="From the city"
+              />
+              <datalist id="venue-zones">
+                {TIME_ZONES.map((z) => (
+                  <option key={z} value={z} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="venue-address">Address</Label>
+            <Input id="venue-address" value={address} onChange={(e) => setAddress(e.target.value)} />
+          </div>
+
+          <div className="stack" style={{ gap: 6 }}>
+            <Label>Curtain times</Label>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(7, 1fr)", gap: 6 }}>
+              {WEEKDAYS.map((day, i) => (
+                <div key={day} className="stack" style={{ gap: 4 }}>
+                  <span className="text-muted" style={{ fontSize: 12 }}>
+                    {day}
+                  </span>
+                  <Input
+                    aria-label={`${day} curtain times`}
+                    value={dayTimes[i]}
+                    onChange={(e) => setDayTimes((prev) => prev.map((t, j) => (j === i ? e.target.value : t)))}
+                    aria-invalid={parsed[i] === null}
+                    placeholder="—"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-muted" style={{ fontSize: 12 }}>
+              {parsed.some((t) => t === null)
+                ? "Times are 24-hour, like 19:30; separate a matinee and evening with a comma."
+                : "Leave a day blank to keep the usual times there."}
+            </p>
+          </div>
+
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="venue-call-offset">Call (minutes before curtain)</Label>
+            <Input
+              id="venue-call-offset"
+              type="number"
+              min={0}
+              max={600}
+              step={5}
+              value={callOffset}
+              onChange={(e) => setCallOffset(e.target.value)}
+              style={{ maxWidth: 120 }}
+            />
+            {offsetOk ? (
+              <p className="text-muted" style={{ fontSize: 12 }}>
+                A 19:30 curtain is called at {callTimeBefore("19:30", offset)}.
+              </p>
+            ) : null}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <button className="btn btn-ghost btn-sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </button>
+          <button className="btn btn-primary btn-sm" onClick={save} disabled={!canSave || isSaving}>
+            {isSaving ? "Saving…" : venue ? "Save" : "Add venue"}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import type { Venue } from "~backend/scheduler/types";
+import { venueLabel } from "../format";
+
+/** Picks a venue from the library; the empty option means "not a library venue". */
+export function VenueSelect({
+  id,
+  venues,
+  value,
+  onChange,
+  emptyLabel = "Other (type it in)",
+}: {
+  id?: string;
+  venues: Venue[];
+  value: string | undefined;
+  onChange: (venue: Venue | null) => void;
+  emptyLabel?: string;
+}) {
+  return (
+    <select
+      id={id}
+      className="travel-select"
+      value={value ?? ""}
+      onChange={(e) => onChange(venues.find((v) => v.id === e.target.value) ?? null)}
+    >
+      <option value="">{emptyLabel}</option>
+      {venues.map((v) => (
+        <option key={v.id} value={v.id}>
+          {venueLabel(v)}
+        </option>
+      ))}
+    </select>
+  );
+}
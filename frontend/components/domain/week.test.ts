@@ -4,8 +4,12 @@ import {
   addShowToDate,
   applyShowStatus,
   applyTemplate,
+  applyVenueTimes,
+  callTimeBefore,
   citySegments,
+  cityZones,
   columnsForWeek,
+  crossesZones,
   getDefaultShowTimes,
   mondayOf,
   nextMondayFrom,
@@ -13,6 +17,7 @@ import {
   resetShowTimes,
   restoreDate,
   setCompanyRedDay,
+  setCityZone,
   setDestination,
   showsOnDate,
   showsToSlots,
@@ -86,6 +91,54 @@ describe("getDefaultShowTimes", () => {
   });
 });
 
+// A venue with an early Tuesday, a Saturday double, and nothing said about the
+// other days; calls are an hour before curtain.
+const venue = {
+  showTimes: [
+    { dayOffset: 1, time: "19:00" },
+    { dayOffset: 5, time: "14:30" },
+    { dayOffset: 5, time: "19:30" },
+  ],
+  callOffsetMinutes: 60,
+};
+
+describe("getDefaultShowTimes with a venue", () => {
+  it("takes the venue's time and counts the call back from it", () => {
+    expect(getDefaultShowTimes("2025-07-15", 0, 1, venue)).toEqual({ time: "19:00", callTime: "18:00" });
+  });
+  it("gives a lone show the venue's last curtain of the day", () => {
+    expect(getDefaultShowTimes("2025-07-19", 0, 1, venue)).toEqual({ time: "19:30", callTime: "18:30" });
+  });
+  it("falls back to the built-in times where the venue has none", () => {
+    expect(getDefaultShowTimes("2025-07-16", 0, 1, venue)).toEqual({ time: "20:00", callTime: "18:00" });
+    // A two-show Tuesday: the evening is the venue's, the matinee the built-in one.
+    expect(getDefaultShowTimes("2025-07-15", 0, 2, venue)).toEqual({ time: "15:00", callTime: "13:30" });
+    expect(getDefaultShowTimes("2025-07-15", 1, 2, venue)).toEqual({ time: "19:00", callTime: "18:00" });
+  });
+});
+
+describe("callTimeBefore", () => {
+  it("subtracts across the hour and stops at midnight", () => {
+    expect(callTimeBefore("19:30", 90)).toBe("18:00");
+    expect(callTimeBefore("00:30", 90)).toBe("00:00");
+  });
+});
+
+describe("applyVenueTimes", () => {
+  it("re-times only the weekdays the venue has times for", () => {
+    const week = standardWeek();
+    const seeded = applyVenueTimes(week, venue);
+    expect(showsOnDate(seeded, "2025-07-15").map((s) => s.time)).toEqual(["19:00"]);
+    expect(showsOnDate(seeded, "2025-07-19").map((s) => `${s.time}/${s.callTime}`)).toEqual([
+      "14:30/13:30",
+      "19:30/18:30",
+    ]);
+    // Wednesday and Sunday keep the template's times.
+    expect(showsOnDate(seeded, "2025-07-16")).toEqual(showsOnDate(week, "2025-07-16"));
+    expect(showsOnDate(seeded, "2025-07-20")).toEqual(showsOnDate(week, "2025-07-20"));
+  });
+});
+
 describe("resetShowTimes", () => {
   it("keeps a two-show day's matinee and evening distinct", () => {
     // Regression: keying only on the date returned the matinee for both Saturday
@@ -126,6 +179,12 @@ describe("resetShowTimes", () => {
     expect(reset[2]).toEqual(week[2]);
     expect(reset[0].time).toBe("20:00");
   });
+
+  it("uses the venue's times where it has them", () => {
+    const reset = resetShowTimes(standardWeek(), venue);
+    expect(showsOnDate(reset, "2025-07-15").map((s) => s.time)).toEqual(["19:00"]);
+    expect(showsOnDate(reset, "2025-07-20").map((s) => s.time)).toEqual(["15:00", "18:00"]);
+  });
 });
 
 describe("sortShows", () => {
@@ -439,6 +498,30 @@ describe("restoreDate", () => {
   });
 });
 
+describe("time zones by city", () => {
+  it("lists each city of the week with its zone", () => {
+    const week = setDestination(splitWeek(), splitWeek()[3].id, "Paris");
+    expect(cityZones(week, "-")).toEqual([
+      { city: "Toulouse", timeZone: "" },
+      { city: "Paris", timeZone: "Europe/Paris" },
+    ]);
+  });
+
+  it("sets one city's zone without touching the other's", () => {
+    const week = setDestination(splitWeek(), splitWeek()[3].id, "Paris");
+    const zoned = setCityZone(week, "-", "Toulouse", "Europe/Paris");
+    expect(zoned.every((s) => s.timeZone === "Europe/Paris")).toBe(true);
+    expect(crossesZones(zoned)).toBe(false);
+    expect(crossesZones(setCityZone(zoned, "-", "Paris", "Europe/London"))).toBe(true);
+  });
+
+  it("leaves a city the table doesn't know without a zone, not the old city's", () => {
+    const week = setCityZone(splitWeek(), "-", "Toulouse", "Europe/Paris");
+    const out = setDestination(week, week[3].id, "Hebden Bridge");
+    expect(out.filter((s) => s.location === "Hebden Bridge").every((s) => s.timeZone === undefined)).toBe(true);
+  });
+});
+
 describe("setDestination", () => {
   it("writes the city onto every column after the travel day", () => {
     const week = splitWeek();
@@ -1,5 +1,6 @@
-import type { Show, DayStatus, TemplateSlot } from "~backend/scheduler/types";
+import type { Show, DayStatus, TemplateSlot, Venue } from "~backend/scheduler/types";
 import { isKnownTime, normalizeTime } from "~backend/scheduler/time";
+import { zoneForCity } from "~backend/scheduler/zones";
 import { isoDate } from "./format";
 
 /**
@@ -46,6 +47,27 @@ export function sortShows(list: Show[]): Show[] {
   return [...list].sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
 }
 
+/** What a venue contributes to a week's times: its curtain times and call offset. */
+export type VenueTimes = Pick<Venue, "showTimes" | "callOffsetMinutes">;
+
+/** The call `minutes` before an HH:MM curtain, held at 00:00 rather than wrapping to the day before. */
+export function callTimeBefore(time: string, minutes: number): string {
+  const [h, m] = time.split(":").map(Number);
+  const at = Math.max(0, h * 60 + m - minutes);
+  return `${String(Math.floor(at / 60)).padStart(2, "0")}:${String(at % 60).padStart(2, "0")}`;
+}
+
+/** Monday-relative weekday of a date, as template slots and venue times count it. */
+function dayOffsetOf(date: string): number {
+  return (new Date(`${isoDate(date)}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+/** A venue's curtain times on a date's weekday, earliest first. */
+export function venueTimesOn(venue: VenueTimes, date: string): string[] {
+  const day = dayOffsetOf(date);
+  return venue.showTimes.filter((t) => t.dayOffset === day).map((t) => t.time).sort();
+}
+
 /**
  * Default times for a show by weekday. `occurrence` disambiguates two-show
  * days: 0 is the matinee, 1 the evening. Without it a single date cannot tell
@@ -55,7 +77,21 @@ export function sortShows(list: Show[]): Show[] {
  * holds more than one show (tour weeks put a matinee on Wednesday), otherwise
  * both shows on that date would land on the same time.
  */
-export function getDefaultShowTimes(date: string, occurrence = 0, showsOnDay = 1): { time: string; callTime: string } {
+export function getDefaultShowTimes(
+  date: string,
+  occurrence = 0,
+  showsOnDay = 1,
+  venue?: VenueTimes,
+): { time: string; callTime: string } {
+  // A venue's times for the weekday win, counted back from its last curtain:
+  // a lone show takes the evening, a double takes the last two. A show the
+  // venue has no time for (a third show, or a weekday it leaves blank) falls
+  // through to the built-in times below.
+  const venueTimes = venue ? venueTimesOn(venue, date) : [];
+  const venueTime = venueTimes[occurrence + venueTimes.length - Math.max(showsOnDay, occurrence + 1)];
+  if (venue && venueTime) {
+    return { time: venueTime, callTime: callTimeBefore(venueTime, venue.callOffsetMinutes) };
+  }
   const weekdayMatinee = showsOnDay >= 2 && occurrence === 0;
   switch (new Date(`${isoDate(date)}T00:00:00Z`).getUTCDay()) {
     case 2: // Tuesday
@@ -69,8 +105,11 @@ export function getDefaultShowTimes(date: string, occurrence = 0, showsOnDay = 1
   }
 }
 
-/** Re-time every show column, leaving travel and day-off columns untouched. */
-export function resetShowTimes(shows: Show[]): Show[] {
+/**
+ * Re-time every show column, leaving travel and day-off columns untouched.
+ * With a venue, its times stand in for the built-in ones where it has them.
+ */
+export function resetShowTimes(shows: Show[], venue?: VenueTimes): Show[] {
   const showsPerDate = new Map<string, number>();
   for (const show of shows) {
     if (show.status !== "show") continue;
@@ -84,10 +123,21 @@ export function resetShowTimes(shows: Show[]): Show[] {
     const date = isoDate(show.date);
     const occurrence = seenPerDate.get(date) ?? 0;
     seenPerDate.set(date, occurrence + 1);
-    return { ...show, ...getDefaultShowTimes(date, occurrence, showsPerDate.get(date)) };
+    return { ...show, ...getDefaultShowTimes(date, occurrence, showsPerDate.get(date), venue) };
   });
 }
 
+/**
+ * Seed a week with a venue's times: the shows on weekdays the venue has
+ * times for are re-timed from them; every other column keeps what it had, so
+ * a template's own times survive on the days the venue leaves open.
+ */
+export function applyVenueTimes(shows: Show[], venue: VenueTimes): Show[] {
+  const days = new Set(venue.showTimes.map((t) => t.dayOffset));
+  const reset = resetShowTimes(shows, venue);
+  return shows.map((show, i) => (show.status === "show" && days.has(dayOffsetOf(show.date)) ? reset[i] : show));
+}
+
 const MATINEE = { time: "15:00", callTime: "13:30" };
 const EVENING = { time: "20:00", callTime: "18:00" };
 
@@ -256,10 +306,40 @@ export function setDestination(shows: Show[], travelShowId: string, city: string
   return ordered.map((show, i) => {
     if (i <= start) return show;
     const previousWasTravel = ordered.slice(start + 1, i).some((s) => s.status === "travel");
-    return previousWasTravel ? show : { ...show, location: city };
+    // The new city's zone goes with it; one the table doesn't know is left
+    // for the editor to ask for rather than carried over from the old city.
+    return previousWasTravel ? show : { ...show, location: city, timeZone: zoneForCity(city) };
   });
 }
 
+/** A city of the week and the zone its shows are in ("" while none is set). */
+export interface CityZone {
+  city: string;
+  timeZone: string;
+}
+
+/** The week's cities in order, each with the zone its columns carry. */
+export function cityZones(shows: Show[], location: string): CityZone[] {
+  const zones: CityZone[] = [];
+  for (const show of sortShows(shows)) {
+    const city = cityOf(show, location);
+    const entry = zones.find((z) => z.city === city);
+    if (!entry) zones.push({ city, timeZone: show.timeZone ?? "" });
+    else if (!entry.timeZone && show.timeZone) entry.timeZone = show.timeZone;
+  }
+  return zones;
+}
+
+/** Put every column in `city` on `timeZone`; "" clears it for the server to fill. */
+export function setCityZone(shows: Show[], location: string, city: string, timeZone: string): Show[] {
+  return shows.map((show) => (cityOf(show, location) === city ? { ...show, timeZone: timeZone || undefined } : show));
+}
+
+/** Whether the week's shows are in more than one time zone, so times need their zone beside them. */
+export function crossesZones(shows: Show[]): boolean {
+  return new Set(shows.filter((s) => s.status === "show" && s.timeZone).map((s) => s.timeZone)).size > 1;
+}
+
 /**
  * The show "Add Show" should add next, without an id.
  *
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Plus, UserPlus } from "lucide-react";
+import type { CompanyRole } from "~backend/scheduler/companies";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { COMPANY_ROLES, useCompanies } from "@/hooks/useCompanies";
+
+type DialogMode = "create" | "share" | null;
+
+/** Picks the company the whole app works in: its cast, schedules, tours and
+ *  templates. Sits under the brand in the sidebar. */
+export function CompanySwitcher() {
+  const { companies, currentCompanyId, currentCompany, isAdmin, switchCompany, createCompany, addUser } = useCompanies();
+  const [mode, setMode] = useState<DialogMode>(null);
+  const [value, setValue] = useState("");
+  const [role, setRole] = useState<CompanyRole>("viewer");
+
+  const open = (next: DialogMode) => {
+    setValue("");
+    setRole("viewer");
+    setMode(next);
+  };
+
+  const submit = () => {
+    const text = value.trim();
+    if (!text) return;
+    if (mode === "create") createCompany.mutate(text);
+    else if (mode === "share" && currentCompanyId) addUser.mutate({ id: currentCompanyId, email: text, role });
+    setMode(null);
+  };
+
+  if (!currentCompanyId) return null;
+
+  return (
+    <div className="company-switch">
+      <label className="nav-section" htmlFor="company-switch">
+        Company
+      </label>
+      <div className="row" style={{ gap: 6 }}>
+        <select
+          id="company-switch"
+          className="company-select"
+          value={currentCompanyId}
+          disabled={switchCompany.isPending}
+          onChange={(e) => switchCompany.mutate(e.target.value)}
+        >
+          {companies.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+        <button type="button" className="icon-btn" title="New company" aria-label="New company" onClick={() => open("create")}>
+          <Plus />
+        </button>
+        {isAdmin ? (
+          <button
+            type="button"
+            className="icon-btn"
+            title="Give someone access"
+            aria-label="Give someone access"
+            onClick={() => open("share")}
+          >
+            <UserPlus />
+          </button>
+        ) : null}
+      </div>
+
+      <Dialog open={mode !== null} onOpenChange={(o) => !o && setMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{mode === "create" ? "New company" : `Share ${currentCompany?.name ?? "company"}`}</DialogTitle>
+            <DialogDescription>
+              {mode === "create"
+                ? "A company has its own cast, schedules, tours and templates. You'll switch to it straight away."
+                : "Enter the email of an existing account. They can switch to this company from their sidebar."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="stack" style={{ gap: 6 }}>
+            <Label htmlFor="company-dialog-value">{mode === "create" ? "Name" : "Email"}</Label>
+            <Input
+              id="company-dialog-value"
+              type={mode === "share" ? "email" : "text"}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && submit()}
+              placeholder={mode === "create" ? "e.g. STOMP UK Tour" : "name@example.com"}
+              autoFocus
+            />
+          </div>
+          {mode === "share" ? (
+            <div className="stack" style={{ gap: 6 }}>
+              <Label htmlFor="company-dialog-role">Role</Label>
+              <select
+                id="company-dialog-role"
+                className="travel-select"
+                value={role}
+                onChange={(e) => setRole(e.target.value as CompanyRole)}
+              >
+                {COMPANY_ROLES.map((r) => (
+                  <option key={r.value} value={r.value}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null}
+          <DialogFooter>
+            <button className="btn btn-ghost btn-sm" onClick={() => setMode(null)}>
+              Cancel
+            </button>
+            <button className="btn btn-primary btn-sm" onClick={submit} disabled={!value.trim()}>
+              {mode === "create" ? "Create" : "Add"}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
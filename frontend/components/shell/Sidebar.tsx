@@ -1,7 +1,8 @@
 import { NavLink, useLocation } from "react-router-dom";
-import { LayoutDashboard, CalendarRange, LayoutTemplate, Map, Users, LogOut } from "lucide-react";
+import { LayoutDashboard, CalendarRange, LayoutTemplate, MapPin, Map, Scale, Users, LogOut } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { FEATURE_FLAGS } from "@/config/features";
+import { CompanySwitcher } from "./CompanySwitcher";
 
 interface NavItem {
   id: string;
@@ -30,6 +31,7 @@ const NAV_ITEMS: NavItem[] = [
     icon: <LayoutTemplate />,
     matchPrefix: "/templates",
   },
+  { id: "venues", label: "Venues", to: "/venues", icon: <MapPin />, matchPrefix: "/venues" },
   {
     id: "tours",
     label: "Tours",
@@ -38,6 +40,7 @@ const NAV_ITEMS: NavItem[] = [
     matchPrefix: "/tours",
     enabled: FEATURE_FLAGS.MULTI_COUNTRY_TOURS,
   },
+  { id: "rules", label: "Labour rules", to: "/rules", icon: <Scale />, matchPrefix: "/rules" },
   { id: "company", label: "Cast", to: "/company", icon: <Users />, matchPrefix: "/company" },
 ];
 
@@ -76,6 +79,8 @@ export function Sidebar({ open, onNavigate }: { open?: boolean; onNavigate?: ()
         </div>
       </div>
 
+      <CompanySwitcher />
+
       <nav className="nav" aria-label="Primary navigation">
         <div className="nav-section">Scheduling</div>
         {NAV_ITEMS.filter((it) => it.enabled !== false).map((it) => (
@@ -32,6 +32,17 @@ async function setupMockBackend(page: Page) {
     });
   });
 
+  await page.route('**/schedules/*/cast', async route => {
+    await route.fulfill({
+      status: 200,
+      contentType: 'application/json',
+      body: JSON.stringify({
+        castMembers: mockCastMembers,
+        roles: mockRoles
+      })
+    });
+  });
+
   await page.route('**/company', async route => {
     await route.fulfill({
       status: 200,
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import backend from "~backend/client";
+import { useToast } from "@/components/ui/use-toast";
+
+export interface UnavailabilityInput {
+  memberId: string;
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}
+
+/** The company's unavailability calendar (holidays, appointments, visa runs)
+ *  plus add/remove mutations. Auto-Generate and validation read it server-side,
+ *  so an edit here only needs to refresh this list. */
+export function useAvailability() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+
+  const query = useQuery({
+    queryKey: ["unavailability"],
+    queryFn: () => backend.scheduler.listUnavailability(),
+  });
+
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["unavailability"] });
+
+  const addUnavailability = useMutation({
+    mutationFn: (input: UnavailabilityInput) => backend.scheduler.addUnavailability(input),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Unavailability recorded" });
+    },
+    onError: (err) =>
+      toast({
+        title: "Couldn't record unavailability",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
+  const deleteUnavailability = useMutation({
+    mutationFn: (id: string) => backend.scheduler.deleteUnavailability({ id }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Unavailability removed" });
+    },
+    onError: () => toast({ title: "Couldn't remove unavailability", variant: "destructive" }),
+  });
+
+  return {
+    entries: query.data?.entries ?? [],
+    isLoading: query.isLoading,
+    addUnavailability,
+    deleteUnavailability,
+  };
+}
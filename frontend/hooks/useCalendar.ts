@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import backend, { backendBaseUrl } from "~backend/client";
+import type { CalendarFeed } from "~backend/scheduler/calendar";
+import { useToast } from "@/components/ui/use-toast";
+
+/** The address a calendar app subscribes to. webcal:// makes phones and
+ *  desktop calendars offer to subscribe rather than download once. */
+export function feedUrls(feed: CalendarFeed, base = backendBaseUrl) {
+  const https = new URL(feed.path, base).toString();
+  return { https, webcal: https.replace(/^https?:/, "webcal:") };
+}
+
+/** Saves `text` as a file through a temporary link. */
+function saveFile(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/calendar" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** One calendar — a performer's, or the company's with `performer` null: a
+ *  one-off .ics download, its subscription feed (created the first time anyone
+ *  asks for it), and replacing the feed's address. */
+export function useCalendar(performer: string | null, enabled = true) {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  const params = performer ? { performer } : {};
+
+  const feed = useQuery({
+    queryKey: ["calendar-feed", performer],
+    queryFn: () => backend.scheduler.calendarFeed(params),
+    enabled,
+  });
+
+  const download = useMutation({
+    mutationFn: () => backend.scheduler.downloadCalendar(params),
+    onSuccess: ({ filename, ics }) => saveFile(filename, ics),
+    onError: () => toast({ title: "Couldn't download the calendar", variant: "destructive" }),
+  });
+
+  const rotate = useMutation({
+    mutationFn: () => backend.scheduler.rotateCalendarFeed(params),
+    onSuccess: (response) => {
+      qc.setQueryData(["calendar-feed", performer], response);
+      toast({ title: "New subscription link", description: "The old link no longer works." });
+    },
+    onError: (err) =>
+      toast({
+        title: "Couldn't replace the link",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
+  return {
+    feed: feed.data?.feed,
+    urls: feed.data ? feedUrls(feed.data.feed) : undefined,
+    isLoading: feed.isLoading,
+    download,
+    rotate,
+  };
+}
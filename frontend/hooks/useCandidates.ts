@@ -0,0 +1,32 @@
+import { useMutation } from "@tanstack/react-query";
+import backend from "~backend/client";
+import type { GenerateCandidatesRequest } from "~backend/scheduler/candidates";
+import { useToast } from "@/components/ui/use-toast";
+
+/**
+ * Several generated weeks for the editor to compare side by side, best score
+ * first. Nothing is saved until one is applied to the grid and the week is
+ * saved; like auto-generate, every candidate keeps the grid's current picks.
+ */
+export function useCandidates() {
+  const { toast } = useToast();
+
+  const mutation = useMutation({
+    mutationFn: (vars: GenerateCandidatesRequest) => backend.scheduler.generateCandidates(vars),
+    gcTime: 0,
+    retry: false,
+    onError: (err: unknown) =>
+      toast({
+        title: "Couldn't generate candidates",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
+  return {
+    generate: mutation.mutate,
+    candidates: mutation.data?.candidates ?? [],
+    isGenerating: mutation.isPending,
+    reset: mutation.reset,
+  };
+}
@@ -0,0 +1,111 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import backend from "~backend/client";
+import type { CompanyRole } from "~backend/scheduler/companies";
+import { useToast } from "@/components/ui/use-toast";
+
+export const COMPANY_ROLES: { value: CompanyRole; label: string }[] = [
+  { value: "viewer", label: "Viewer — published schedules only" },
+  { value: "manager", label: "Manager — edits schedules and cast" },
+  { value: "admin", label: "Admin — also manages users and roles" },
+];
+
+/** The companies the signed-in user belongs to, which one is open and what
+ *  they may do there. Every roster, schedule, tour and template query is
+ *  scoped to the open company server-side, so switching (or creating, which
+ *  switches) drops the whole query cache rather than picking keys. */
+export function useCompanies() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+
+  const query = useQuery({
+    queryKey: ["companies"],
+    queryFn: () => backend.scheduler.listCompanies(),
+  });
+
+  const switchCompany = useMutation({
+    mutationFn: (id: string) => backend.scheduler.switchCompany({ id }),
+    onSuccess: ({ company }) => {
+      qc.invalidateQueries();
+      toast({ title: `Switched to ${company.name}` });
+    },
+    onError: () => toast({ title: "Couldn't switch company", variant: "destructive" }),
+  });
+
+  const createCompany = useMutation({
+    mutationFn: (name: string) => backend.scheduler.createCompany({ name }),
+    onSuccess: ({ company }) => {
+      qc.invalidateQueries();
+      toast({ title: `${company.name} created` });
+    },
+    onError: (err) =>
+      toast({
+        title: "Couldn't create company",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
+  const addUser = useMutation({
+    mutationFn: (vars: { id: string; email: string; role?: CompanyRole }) => backend.scheduler.addCompanyUser(vars),
+    onSuccess: (_, vars) => {
+      qc.invalidateQueries({ queryKey: ["company-users", vars.id] });
+      toast({ title: `${vars.email} can now open this company` });
+    },
+    onError: (err) =>
+      toast({
+        title: "Couldn't add user",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
+  const companies = query.data?.companies ?? [];
+  const currentCompanyId = query.data?.currentCompanyId;
+  const currentCompany = companies.find((c) => c.id === currentCompanyId);
+  // The server enforces roles; these only decide what to show. Until the list
+  // loads, assume editing so a manager's screen doesn't flash read-only.
+  const role = currentCompany?.role;
+
+  return {
+    companies,
+    currentCompanyId,
+    currentCompany,
+    role,
+    canEdit: role !== "viewer",
+    isAdmin: role === "admin",
+    isLoading: query.isLoading,
+    switchCompany,
+    createCompany,
+    addUser,
+  };
+}
+
+/** Who belongs to a company and as what, plus the admin-only role change. */
+export function useCompanyUsers(companyId: string | undefined) {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+
+  const query = useQuery({
+    queryKey: ["company-users", companyId],
+    queryFn: () => backend.scheduler.listCompanyUsers({ id: companyId! }),
+    enabled: Boolean(companyId),
+  });
+
+  const setRole = useMutation({
+    mutationFn: (vars: { userId: string; role: CompanyRole }) =>
+      backend.scheduler.setCompanyUserRole({ id: companyId!, ...vars }),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["company-users", companyId] }),
+    onError: (err) =>
+      toast({
+        title: "Couldn't change role",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
+  return {
+    users: query.data?.users ?? [],
+    isLoading: query.isLoading,
+    setRole,
+  };
+}
@@ -95,6 +95,7 @@ export function useCompany() {
     currentCompany: query.data?.currentCompany ?? [],
     archive: query.data?.archive ?? [],
     roles: query.data?.roles ?? [],
+    roleCatalogue: query.data?.roleCatalogue ?? [],
     isLoading: query.isLoading,
     error: query.error as Error | null,
     addMember,
@@ -0,0 +1,34 @@
+import { useMutation } from "@tanstack/react-query";
+import backend from "~backend/client";
+import type { CoverRequest } from "~backend/scheduler/cover";
+import { useToast } from "@/components/ui/use-toast";
+
+/**
+ * Ranked ways to cover performers who are out for some of a saved week's
+ * shows, each changing as few other cells as it can. Planned against the week
+ * as last saved; nothing is saved until a patch is applied and the week saved.
+ */
+export function useCover() {
+  const { toast } = useToast();
+
+  const mutation = useMutation({
+    mutationFn: (vars: CoverRequest) => backend.scheduler.coverAbsences(vars),
+    gcTime: 0,
+    retry: false,
+    onError: (err: unknown) =>
+      toast({
+        title: "Couldn't plan cover",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
+  return {
+    plan: mutation.mutate,
+    vacated: mutation.data?.vacated ?? [],
+    patches: mutation.data?.patches ?? [],
+    isPlanning: mutation.isPending,
+    hasPlanned: mutation.isSuccess,
+    reset: mutation.reset,
+  };
+}
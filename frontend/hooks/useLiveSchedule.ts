@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import backend from "~backend/client";
+import type { LiveCell, LiveClientMessage, LivePatch, LivePeer, LiveServerMessage } from "~backend/scheduler/live";
+
+const RECONNECT_MS = 3000;
+
+interface LiveHandlers {
+  onPatch: (patch: LivePatch) => void;
+  onSaved: (message: Extract<LiveServerMessage, { type: "saved" }>) => void;
+}
+
+/**
+ * This editor's seat in the schedule's live session: who else has the week
+ * open and where their cursor is, their edits as they make them, and saves.
+ * Reconnects while the editor stays open; `scheduleId` undefined (a new,
+ * unsaved schedule, or a viewer) stays offline.
+ */
+export function useLiveSchedule(scheduleId: string | undefined, handlers: LiveHandlers) {
+  const [peers, setPeers] = useState<LivePeer[]>([]);
+  const [connectionId, setConnectionId] = useState<string | null>(null);
+  const stream = useRef<Awaited<ReturnType<typeof backend.scheduler.liveSchedule>> | null>(null);
+
+  // The handlers close over editor state; read them through a ref so the
+  // connection isn't torn down on every render.
+  const latest = useRef(handlers);
+  latest.current = handlers;
+
+  useEffect(() => {
+    if (!scheduleId) return;
+    let stopped = false;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        const s = await backend.scheduler.liveSchedule({ id: scheduleId });
+        if (stopped) {
+          s.close();
+          return;
+        }
+        stream.current = s;
+        for await (const msg of s) {
+          if (msg.type === "hello") {
+            setConnectionId(msg.connectionId);
+            setPeers(msg.peers);
+          } else if (msg.type === "presence") {
+            setPeers(msg.peers);
+          } else if (msg.type === "patch") {
+            latest.current.onPatch(msg.patch);
+          } else if (msg.type === "saved") {
+            latest.current.onSaved(msg);
+          }
+        }
+      } catch {
+        // Connection refused or dropped; retried below.
+      }
+      stream.current = null;
+      setPeers([]);
+      if (!stopped) retry = setTimeout(connect, RECONNECT_MS);
+    };
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retry);
+      stream.current?.close();
+      stream.current = null;
+      setPeers([]);
+      setConnectionId(null);
+    };
+  }, [scheduleId]);
+
+  const send = useCallback((msg: LiveClientMessage) => {
+    stream.current?.send(msg).catch(() => undefined);
+  }, []);
+
+  const sendPatch = useCallback((patch: LivePatch) => send({ type: "patch", patch }), [send]);
+  const focus = useCallback((cell: LiveCell | null) => send({ type: "focus", cell }), [send]);
+
+  return {
+    /** Everyone else in the session. */
+    peers: peers.filter((p) => p.connectionId !== connectionId),
+    sendPatch,
+    focus,
+  };
+}
@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import backend from "~backend/client";
+import { useToast } from "@/components/ui/use-toast";
+
+/** A schedule's saved revisions, what a chosen revision changed from the one
+ *  before it, and restore. Revision numbers run 1, 2, 3… with no gaps, so a
+ *  revision's predecessor is always `revision - 1`; the first has none. A
+ *  restore is made against the version the editor holds, and refused when
+ *  someone has saved since. */
+export function useRevisions(scheduleId: string | undefined, selected: number | null, enabled = true) {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+
+  const list = useQuery({
+    queryKey: ["revisions", scheduleId],
+    queryFn: () => backend.scheduler.listRevisions({ id: scheduleId! }),
+    enabled: enabled && Boolean(scheduleId),
+  });
+
+  const diff = useQuery({
+    queryKey: ["revision-diff", scheduleId, selected],
+    queryFn: () => backend.scheduler.diffRevisions({ id: scheduleId!, from: selected! - 1, to: selected! }),
+    enabled: enabled && Boolean(scheduleId) && selected !== null && selected > 1,
+  });
+
+  const restore = useMutation({
+    mutationFn: ({ revision, version }: { revision: number; version: number }) =>
+      backend.scheduler.restoreRevision({ id: scheduleId!, revision, version }),
+    onSuccess: (response, { revision }) => {
+      // ['schedule', id] reloads the editor's state from the restored week.
+      qc.invalidateQueries({ queryKey: ["schedule", scheduleId] });
+      qc.invalidateQueries({ queryKey: ["revisions", scheduleId] });
+      qc.invalidateQueries({ queryKey: ["schedules"] });
+      qc.invalidateQueries({ queryKey: ["tours"] });
+      toast({ title: `Restored revision ${revision}`, description: `Saved as revision ${response.revision}` });
+    },
+    onError: (err) =>
+      toast({
+        title: "Couldn't restore revision",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
+  return {
+    revisions: list.data?.revisions ?? [],
+    isLoading: list.isLoading,
+    diff: diff.data?.diff,
+    isDiffLoading: diff.isLoading && diff.fetchStatus !== "idle",
+    restore,
+  };
+}
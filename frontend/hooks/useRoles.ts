@@ -0,0 +1,83 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import backend from "~backend/client";
+import type { RoleDefinition } from "~backend/scheduler/types";
+import { useToast } from "@/components/ui/use-toast";
+
+export type CastingConvention = "male" | "female" | null;
+
+export interface RoleInput {
+  name: string;
+  preferredGender?: "male" | "female";
+}
+
+/** The company's role catalogue plus add/edit/remove mutations. Roles shape
+ *  the company view, the eligibility matrix and every schedule grid, so an
+ *  edit refreshes the company and the editor's cast list as well. */
+export function useRoles() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+
+  const query = useQuery({
+    queryKey: ["roles"],
+    queryFn: () => backend.scheduler.listRoles(),
+  });
+
+  const invalidate = () => {
+    qc.invalidateQueries({ queryKey: ["roles"] });
+    qc.invalidateQueries({ queryKey: ["company"] });
+    qc.invalidateQueries({ queryKey: ["cast-members"] });
+  };
+
+  const onError = (title: string) => (err: unknown) => {
+    invalidate();
+    toast({
+      title,
+      description: err instanceof Error ? err.message : undefined,
+      variant: "destructive",
+    });
+  };
+
+  const addRole = useMutation({
+    mutationFn: (input: RoleInput) => backend.scheduler.addRole(input),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Role added" });
+    },
+    onError: onError("Couldn't add role"),
+  });
+
+  const updateRole = useMutation({
+    mutationFn: (vars: { id: string; preferredGender?: CastingConvention; active?: boolean }) =>
+      backend.scheduler.updateRole(vars),
+    onSuccess: () => invalidate(),
+    onError: onError("Couldn't update role"),
+  });
+
+  // Swap two neighbours' order values — the catalogue has no bulk reorder.
+  const swapRoles = useMutation({
+    mutationFn: async ({ a, b }: { a: RoleDefinition; b: RoleDefinition }) => {
+      await backend.scheduler.updateRole({ id: a.id, order: b.order });
+      await backend.scheduler.updateRole({ id: b.id, order: a.order });
+    },
+    onSuccess: () => invalidate(),
+    onError: onError("Couldn't reorder roles"),
+  });
+
+  const deleteRole = useMutation({
+    mutationFn: (id: string) => backend.scheduler.deleteRole({ id }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Role removed" });
+    },
+    onError: onError("Couldn't remove role"),
+  });
+
+  return {
+    roles: query.data?.roles ?? [],
+    isLoading: query.isLoading,
+    addRole,
+    updateRole,
+    swapRoles,
+    deleteRole,
+  };
+}
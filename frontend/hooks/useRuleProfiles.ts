@@ -0,0 +1,75 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import backend from "~backend/client";
+import type { CreateRuleProfileRequest, UpdateRuleProfileRequest } from "~backend/scheduler/rule_profiles";
+import { useToast } from "@/components/ui/use-toast";
+
+/** The company's labour-rule profiles: the list, the one the company uses, the
+ *  built-in rules a profile starts from, and the mutations. Shared by the rules
+ *  screen and the tour edit dialog. */
+export function useRuleProfiles() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+
+  const query = useQuery({
+    queryKey: ["ruleProfiles"],
+    queryFn: () => backend.scheduler.listRuleProfiles(),
+  });
+
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["ruleProfiles"] });
+
+  // The server explains a refused profile (a bad limit or severity), so say why.
+  const onError = (title: string) => (err: unknown) =>
+    toast({ title, description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+
+  const createProfile = useMutation({
+    mutationFn: (vars: CreateRuleProfileRequest) => backend.scheduler.createRuleProfile(vars),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rule profile added" });
+    },
+    onError: onError("Couldn't add rule profile"),
+  });
+
+  const updateProfile = useMutation({
+    mutationFn: (vars: UpdateRuleProfileRequest) => backend.scheduler.updateRuleProfile(vars),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rule profile updated" });
+    },
+    onError: onError("Couldn't update rule profile"),
+  });
+
+  const deleteProfile = useMutation({
+    mutationFn: (id: string) => backend.scheduler.deleteRuleProfile({ id }),
+    onSuccess: () => {
+      invalidate();
+      // Tours that used it fall back server-side.
+      qc.invalidateQueries({ queryKey: ["tours"] });
+      toast({ title: "Rule profile deleted" });
+    },
+    onError: onError("Couldn't delete rule profile"),
+  });
+
+  const setCompanyProfile = useMutation({
+    mutationFn: (vars: { companyId: string; profileId?: string }) =>
+      backend.scheduler.setCompanyRuleProfile({ id: vars.companyId, profileId: vars.profileId ?? "" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Company rules updated" });
+    },
+    onError: onError("Couldn't change the company's rules"),
+  });
+
+  return {
+    profiles: query.data?.profiles ?? [],
+    companyProfileId: query.data?.companyProfileId,
+    builtIn: query.data?.builtIn,
+    ruleCodes: query.data?.ruleCodes ?? [],
+    isLoading: query.isLoading,
+    error: query.error as Error | null,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+    setCompanyProfile,
+  };
+}
@@ -1,22 +1,33 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import backend from '~backend/client';
-import type { Show, Assignment, Role, DayStatus } from '~backend/scheduler/types';
+import backend, { ErrCode, isAPIError } from '~backend/client';
+import type { Show, Assignment, Role, DayStatus, Schedule, Venue, SlotExplanation } from '~backend/scheduler/types';
+import type { ScheduleCastResponse } from '~backend/scheduler/cast_members';
+import type { SwapOperation } from '~backend/scheduler/swaps';
+import type { FixOperation } from '~backend/scheduler/fixes';
 import { normalizeTime } from '~backend/scheduler/time';
 import { useToast } from '@/components/ui/use-toast';
-import { isoDate } from '@/components/domain/format';
-import { companyRedDate } from '@/components/domain/schedule-grid/logic';
+import { useCompanies } from '@/hooks/useCompanies';
+import { useLiveSchedule } from '@/hooks/useLiveSchedule';
+import { useVenues } from '@/hooks/useVenues';
+import { isoDate, venueLabel } from '@/components/domain/format';
+import { zoneForCity } from '~backend/scheduler/zones';
+import { applyFix, applySwap, companyRedDate, describeFix } from '@/components/domain/schedule-grid/logic';
+import { mergeWeeks, type MergeConflict, type MergeSide } from '@/components/domain/schedule-grid/merge';
+import { applyAssignmentPatch, assignmentPatch, normalizeShows } from '@/components/domain/schedule-grid/live';
 import {
   addDaysIso,
   addShowToDate,
   applyShowStatus,
   applyTemplate,
+  cityZones,
   dayDiffIso,
   nextMondayFrom,
   nextShow,
   resetShowTimes,
   restoreDate,
+  setCityZone,
   setCompanyRedDay,
   setDestination,
   sortShows,
@@ -29,11 +40,20 @@ import {
 /** Seed passed from the New Schedule modal via router state. */
 export interface NewScheduleSeed {
   location: string;
+  /** The library venue picked, when the location came from one. */
+  venueId?: string;
   weekStart: string;
   shows: Show[];
   templateId?: string;
 }
 
+/** The server's copy from a save refused as stale (see the backend's
+ *  staleScheduleError), or undefined for any other error. */
+function staleCopy(error: unknown): Schedule | undefined {
+  if (!isAPIError(error) || error.code !== ErrCode.Aborted) return undefined;
+  return error.details?.schedule as Schedule | undefined;
+}
+
 export function useScheduleEditor(id?: string) {
   const navigate = useNavigate();
   const routerLocation = useLocation();
@@ -50,6 +70,11 @@ export function useScheduleEditor(id?: string) {
   // offer "Update template". Set from the seed on a new schedule, from the
   // loaded record when editing, or when "Save as template" mints a new one.
   const [templateId, setTemplateId] = useState<string | undefined>(undefined);
+  // The library venue the week is played at, if any; its curtain times are
+  // what "Reset Times" goes back to.
+  const [venueId, setVenueId] = useState<string | undefined>(undefined);
+  const { venues } = useVenues();
+  const venue = venues.find((v) => v.id === venueId);
   const [weekStartDate, setWeekStartDate] = useState('');
   const [shows, setShows] = useState<Show[]>([]);
   /**
@@ -73,6 +98,16 @@ export function useScheduleEditor(id?: string) {
   const HISTORY_LIMIT = 50;
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  // Why the last Auto-Generate cast each slot as it did (see ScheduleGrid).
+  const [explanations, setExplanations] = useState<SlotExplanation[]>([]);
+
+  /**
+   * The copy of the schedule this editor last loaded or saved. A save is made
+   * against its version, and when the server refuses one as stale it is the
+   * common ancestor the merge compares both sides' edits with.
+   */
+  const serverCopy = useRef<Schedule | null>(null);
+  const [mergePrompt, setMergePrompt] = useState<{ theirs: Schedule; conflicts: MergeConflict[] } | null>(null);
 
   const isEditing = Boolean(id);
 
@@ -83,10 +118,11 @@ export function useScheduleEditor(id?: string) {
     enabled: isEditing
   });
 
-  // Fetch cast members and roles
+  // Fetch cast members and roles: a tour week's segment cast, else the company's
   const { data: castData } = useQuery({
-    queryKey: ['cast-members'],
-    queryFn: () => backend.scheduler.getCastMembers(),
+    queryKey: ['cast-members', id ?? null],
+    queryFn: (): Promise<ScheduleCastResponse> =>
+      id ? backend.scheduler.getScheduleCast({ id }) : backend.scheduler.getCastMembers(),
     refetchInterval: 60000, // Auto-refresh every 60 seconds
     refetchIntervalInBackground: false // Don't refresh when tab is not focused to save resources
   });
@@ -103,7 +139,7 @@ export function useScheduleEditor(id?: string) {
 
   // Create schedule mutation
   const createMutation = useMutation({
-    mutationFn: (data: { location: string; week: string; shows: Show[]; assignments?: Assignment[]; templateId?: string }) =>
+    mutationFn: (data: { location: string; venueId?: string; week: string; shows: Show[]; assignments?: Assignment[]; templateId?: string }) =>
       backend.scheduler.create(data),
     onSuccess: (response) => {
       queryClient.invalidateQueries({ queryKey: ['schedules'] });
@@ -125,9 +161,10 @@ export function useScheduleEditor(id?: string) {
 
   // Update schedule mutation
   const updateMutation = useMutation({
-    mutationFn: (data: { id: string; location?: string; week?: string; shows?: Show[]; assignments?: Assignment[] }) =>
+    mutationFn: (data: { id: string; location: string; venueId?: string; week: string; shows: Show[]; assignments: Assignment[]; version?: number }) =>
       backend.scheduler.update(data),
-    onSuccess: () => {
+    onSuccess: (response) => {
+      serverCopy.current = response.schedule;
       queryClient.invalidateQueries({ queryKey: ['schedules'] });
       queryClient.invalidateQueries({ queryKey: ['schedule', id] });
       // A schedule can also be a tour week (TourWeekRow links to
@@ -138,7 +175,15 @@ export function useScheduleEditor(id?: string) {
         description: "Schedule saved successfully"
       });
     },
-    onError: (error) => {
+    onError: (error, sent) => {
+      // Someone else saved first: offer a merge rather than a dead-end error.
+      const theirs = staleCopy(error);
+      if (theirs) {
+        const normalized = { ...theirs, shows: theirs.shows.map((s) => ({ ...s, date: isoDate(s.date) })) };
+        const { conflicts } = mergeWeeks(serverCopy.current ?? normalized, sent, normalized);
+        setMergePrompt({ theirs: normalized, conflicts });
+        return;
+      }
       console.error('Failed to update schedule:', error);
       toast({
         title: "Error",
@@ -148,13 +193,38 @@ export function useScheduleEditor(id?: string) {
     }
   });
 
+  // Publishing is immediate, not part of Save: it only flips who can see the
+  // saved week, so it must not carry unsaved edits along with it.
+  const publishMutation = useMutation({
+    mutationFn: (published: boolean) => backend.scheduler.update({ id: id!, published }),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule', id] });
+      queryClient.invalidateQueries({ queryKey: ['tours'] });
+      toast({
+        title: response.schedule.published ? "Published" : "Back to draft",
+        description: response.schedule.published
+          ? "Everyone in the company can now see this schedule"
+          : "Only managers and admins can see this schedule"
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to change publishing",
+        variant: "destructive"
+      });
+    }
+  });
+
   // Auto-generate mutation
   const autoGenerateMutation = useMutation({
-    mutationFn: (data: { shows: Show[]; existingAssignments: Assignment[] }) =>
+    mutationFn: (data: { shows: Show[]; existingAssignments: Assignment[]; scheduleId?: string }) =>
       backend.scheduler.autoGenerate(data),
     gcTime: 0, // Don't cache auto-generate results
     retry: false, // Don't retry auto-generate failures
     onSuccess: (response) => {
+      setExplanations(response.explanations ?? []);
       if (response.success) {
         setAssignments(response.assignments);
 
@@ -187,7 +257,9 @@ export function useScheduleEditor(id?: string) {
             variant: "destructive"
           });
         } else {
-          const genInfo = response.generationId ? ` (ID: ${response.generationId.substring(0, 8)})` : '';
+          // The seed reproduces the week (see generations.ts).
+          const seedInfo = response.seed !== undefined ? `, seed ${response.seed}` : '';
+          const genInfo = response.generationId ? ` (ID: ${response.generationId.substring(0, 8)}${seedInfo})` : '';
           toast({
             title: "Success",
             description: `Schedule generated successfully with improved constraints${genInfo}`
@@ -267,29 +339,89 @@ export function useScheduleEditor(id?: string) {
     handleWeekStartDateChange(nextMondayFrom(todayIso()));
   };
 
-  // Load schedule data when editing
+  // Replace the editor's week with a copy from the server.
+  const loadSchedule = (schedule: Schedule) => {
+    setLocation(schedule.location);
+    setWeek(schedule.week);
+    setTemplateId(schedule.templateId);
+    setVenueId(schedule.venueId);
+    // The generated client's dateReviver turns show.date into a Date; if we
+    // send that straight back the client re-serializes it as a full ISO
+    // datetime ("...T00:00:00.000Z"), which breaks the backend's YYYY-MM-DD
+    // date rules (auto-gen avoidance AND validation). Normalize to plain
+    // calendar-date strings on load so every outgoing payload stays clean.
+    const loaded = schedule.shows.map((s) => ({ ...s, date: isoDate(s.date) }));
+    setShows(loaded);
+    baselineShows.current = loaded;
+    setAssignments(schedule.assignments);
+    setExplanations([]);
+    quiet.current = { shows: loaded, assignments: schedule.assignments };
+
+    // The week's Monday comes from the *earliest* show, not shows[0]: nothing
+    // keeps the array sorted once days are reshaped, and an unsorted first
+    // element would slide the seven-day frame by a day.
+    const start = weekStartOf(loaded);
+    if (start) setWeekStartDate(start);
+    serverCopy.current = { ...schedule, shows: loaded };
+  };
+
+  /**
+   * Live session with everyone else who has this week open. Their edits are
+   * applied straight onto local state; ours go out from the effect below.
+   * `quiet` remembers the last state that arrived from outside (a peer's patch,
+   * a load from the server) so that effect doesn't echo it back to the room.
+   */
+  const { canEdit } = useCompanies();
+  const quiet = useRef<{ shows?: Show[]; assignments?: Assignment[] }>({});
+  const broadcast = useRef<{ shows: Show[]; assignments: Assignment[] } | null>(null);
+  const live = useLiveSchedule(isEditing && canEdit ? id : undefined, {
+    onPatch: (patch) => {
+      if (patch.kind === 'shows') {
+        const next = normalizeShows(patch.shows);
+        quiet.current.shows = next;
+        setShows(next);
+        return;
+      }
+      setAssignments(prev => {
+        const next = applyAssignmentPatch(prev, patch);
+        quiet.current.assignments = next;
+        return next;
+      });
+    },
+    // Someone saved (possibly us). Take what the save changed and keep what
+    // this editor has that it didn't include, exactly as the conflict merge
+    // would; then the next save goes against the new version.
+    onSaved: ({ version, content }) => {
+      const base = serverCopy.current;
+      if (!base || version <= base.version) return;
+      const saved = { ...base, ...content, shows: normalizeShows(content.shows), version };
+      const { merged } = mergeWeeks(base, { location, week, shows, assignments }, saved);
+      serverCopy.current = saved;
+      quiet.current = { shows: merged.shows, assignments: merged.assignments };
+      setLocation(merged.location);
+      setWeek(merged.week);
+      setShows(merged.shows);
+      setAssignments(merged.assignments);
+    },
+  });
+
   useEffect(() => {
-    if (scheduleData?.schedule) {
-      const schedule = scheduleData.schedule;
-      setLocation(schedule.location);
-      setWeek(schedule.week);
-      setTemplateId(schedule.templateId);
-      // The generated client's dateReviver turns show.date into a Date; if we
-      // send that straight back the client re-serializes it as a full ISO
-      // datetime ("...T00:00:00.000Z"), which breaks the backend's YYYY-MM-DD
-      // date rules (auto-gen avoidance AND validation). Normalize to plain
-      // calendar-date strings on load so every outgoing payload stays clean.
-      const loaded = schedule.shows.map((s) => ({ ...s, date: isoDate(s.date) }));
-      setShows(loaded);
-      baselineShows.current = loaded;
-      setAssignments(schedule.assignments);
-
-      // The week's Monday comes from the *earliest* show, not shows[0]: nothing
-      // keeps the array sorted once days are reshaped, and an unsorted first
-      // element would slide the seven-day frame by a day.
-      const start = weekStartOf(loaded);
-      if (start) setWeekStartDate(start);
+    const prev = broadcast.current;
+    broadcast.current = { shows, assignments };
+    if (!prev) return;
+    if (shows !== prev.shows && shows !== quiet.current.shows) {
+      live.sendPatch({ kind: 'shows', shows });
     }
+    if (assignments !== prev.assignments && assignments !== quiet.current.assignments) {
+      live.sendPatch(assignmentPatch(prev.assignments, assignments));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shows, assignments]);
+
+  // Load schedule data when editing
+  useEffect(() => {
+    if (scheduleData?.schedule) loadSchedule(scheduleData.schedule);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [scheduleData]);
 
   // Initialize a new schedule from the modal's seed (venue + week-start +
@@ -303,6 +435,7 @@ export function useScheduleEditor(id?: string) {
     setWeek(''); // free-text label, blank by default
     setWeekStartDate(start);
     setTemplateId(seed?.templateId);
+    setVenueId(seed?.venueId);
 
     // A seed always wins — even an empty shows array (the "Blank week" choice).
     // Only a seedless visit falls back to Standard.
@@ -341,9 +474,12 @@ export function useScheduleEditor(id?: string) {
         await updateMutation.mutateAsync({
           id,
           location,
+          // "" unlinks a week whose venue was cleared.
+          venueId: venueId ?? '',
           week,
           shows,
-          assignments
+          assignments,
+          version: serverCopy.current?.version
         });
       } else {
         // Include assignments so casting done before the first save (e.g.
@@ -351,6 +487,7 @@ export function useScheduleEditor(id?: string) {
         // templateId records which template this week came from.
         await createMutation.mutateAsync({
           location,
+          venueId,
           week,
           shows,
           assignments,
@@ -400,16 +537,45 @@ export function useScheduleEditor(id?: string) {
       // Pass the current grid so Auto-Generate fills only empty slots and keeps
       // the user's manual picks (and any toggled RED day). The backend returns
       // the full merged set, so setAssignments(response.assignments) and the
-      // pre-generate Undo snapshot both remain correct.
-      await autoGenerateMutation.mutateAsync({ shows, existingAssignments: assignments });
+      // pre-generate Undo snapshot both remain correct. The schedule id lets the
+      // backend carry runs and RED days in from the previous week.
+      await autoGenerateMutation.mutateAsync({ shows, existingAssignments: assignments, scheduleId: id });
     } catch (error) {
       // Error handling is done in mutation onError
     }
   };
 
+  // Put a chosen candidate (see CandidatesDialog) on the grid. It already
+  // holds the grid's own picks, so it replaces the assignments wholesale.
+  const handleApplyCandidate = (candidate: Assignment[]) => {
+    snapshot();
+    setAssignments(candidate);
+    toast({ title: 'Candidate applied', description: 'Save to keep it, or Undo to go back.' });
+  };
+
+  const handleApplySwap = (operations: SwapOperation[]) => {
+    snapshot();
+    setAssignments(prev => applySwap(prev, operations));
+    toast({ title: 'Swap applied', description: 'Save to keep it, or Undo to go back.' });
+  };
+
+  // A validation quick fix; the week re-validates once it is on the grid.
+  const handleApplyFix = (operation: FixOperation) => {
+    snapshot();
+    setAssignments(prev => applyFix(shows, prev, operation));
+    toast({ title: 'Fix applied', description: describeFix(operation, shows) });
+  };
+
+  const handleApplyCover = (patched: Assignment[]) => {
+    snapshot();
+    setAssignments(patched);
+    toast({ title: 'Cover applied', description: 'Save to keep it, or Undo to go back.' });
+  };
+
   const handleClearAll = () => {
     snapshot();
     setAssignments([]);
+    setExplanations([]);
     toast({
       title: 'Cleared',
       description: 'All assignments have been cleared. Undo to bring them back.',
@@ -522,6 +688,31 @@ export function useScheduleEditor(id?: string) {
     setCanUndo(true);
   };
 
+  // Merge prompt actions. Both snapshot first, so Undo gets my pre-merge week
+  // back even after taking theirs.
+  const handleResolveMerge = (choices: Record<string, MergeSide>) => {
+    if (!mergePrompt || !id) return;
+    const base = serverCopy.current ?? mergePrompt.theirs;
+    const { merged } = mergeWeeks(base, { location, week, shows, assignments }, mergePrompt.theirs, choices);
+    snapshot();
+    setLocation(merged.location);
+    setWeek(merged.week);
+    setShows(merged.shows);
+    setAssignments(merged.assignments);
+    serverCopy.current = mergePrompt.theirs;
+    setMergePrompt(null);
+    updateMutation.mutate({ id, ...merged, version: mergePrompt.theirs.version });
+  };
+
+  const handleDiscardMine = () => {
+    if (!mergePrompt) return;
+    snapshot();
+    loadSchedule(mergePrompt.theirs);
+    setMergePrompt(null);
+  };
+
+  const handleDismissMerge = () => setMergePrompt(null);
+
   const handleUndo = () => {
     const previous = history.current.pop();
     if (!previous) return;
@@ -598,10 +789,29 @@ export function useScheduleEditor(id?: string) {
     setAssignments(prev => prev.filter(a => a.showId !== showId));
   };
 
-  /** Resets times only; travel and day-off columns keep their status. */
+  /** Resets times only; travel and day-off columns keep their status. With a
+   *  venue linked, its curtain times stand in for the built-in ones. */
   const handleResetShowTimes = () => {
     snapshot();
-    setShows(resetShowTimes);
+    setShows(prev => resetShowTimes(prev, venue));
+  };
+
+  /** Links the week to a library venue and relabels it, or unlinks it and
+   *  leaves the label to edit by hand. Show times stay as they are, but the
+   *  week's own columns move to the venue's time zone (or its city's). */
+  const handleVenueChange = (picked: Venue | null) => {
+    setVenueId(picked?.id);
+    if (!picked) return;
+    setLocation(venueLabel(picked));
+    const timeZone = picked.timeZone || zoneForCity(picked.city || picked.name);
+    if (timeZone) setShows(prev => prev.map(show => (show.location ? show : { ...show, timeZone })));
+  };
+
+  /** Puts every column in one of the week's cities on a time zone. The times
+   *  stay as typed: they are that city's wall clock. */
+  const handleCityZoneChange = (city: string, timeZone: string) => {
+    snapshot();
+    setShows(prev => setCityZone(prev, location, city, timeZone));
   };
 
   // Handle assignment updates from the grid (for RED day toggles)
@@ -609,9 +819,16 @@ export function useScheduleEditor(id?: string) {
     setAssignments(updatedAssignments);
   };
 
+  const published = scheduleData?.schedule.published ?? false;
+  const handleTogglePublished = () => {
+    if (isEditing) publishMutation.mutate(!published);
+  };
+
   return {
     isEditing,
     isLoading,
+    // Read at call time: serverCopy moves on every save without a render.
+    serverVersion: () => serverCopy.current?.version,
     castData,
     location,
     setLocation,
@@ -619,17 +836,36 @@ export function useScheduleEditor(id?: string) {
     setWeek,
     templateId,
     setTemplateId,
+    venueId,
+    venues,
+    handleVenueChange,
+    cityZones: cityZones(shows, location),
+    handleCityZoneChange,
     weekStartDate,
     shows,
     assignments,
+    explanations,
     isGenerating,
     isSaving: createMutation.isPending || updateMutation.isPending,
+    published,
+    isPublishing: publishMutation.isPending,
+    handleTogglePublished,
+    livePeers: live.peers,
+    handleFocusCell: live.focus,
+    mergeConflicts: mergePrompt?.conflicts ?? null,
+    handleResolveMerge,
+    handleDiscardMine,
+    handleDismissMerge,
     handleWeekStartDateChange,
     navigateToPreviousWeek,
     navigateToNextWeek,
     navigateToCurrentWeek,
     handleSave,
     handleAutoGenerate,
+    handleApplyCandidate,
+    handleApplyCover,
+    handleApplySwap,
+    handleApplyFix,
     handleClearAll,
     handleAssignmentChange,
     handleToggleRedDay,
@@ -6,16 +6,19 @@ import type { Show, Assignment } from "~backend/scheduler/types";
  * Thin wrapper over the backend `validate` endpoint — the authoritative,
  * override-aware verdict (errors[]/warnings[]). Fatigue-issue placement and the
  * ⚑ gating are computed client-side (see schedule-grid/logic.ts); this stays the
- * source of truth for pass/fail.
+ * source of truth for pass/fail. Given the schedule id, the backend also checks
+ * runs and RED days across the boundary with the previous week. Items come
+ * with their quick fixes, for the banner's Fix buttons.
  */
 export function useScheduleValidation() {
   const mutation = useMutation({
-    mutationFn: (vars: { shows: Show[]; assignments: Assignment[] }) =>
-      backend.scheduler.validate(vars),
+    mutationFn: (vars: { shows: Show[]; assignments: Assignment[]; scheduleId?: string }) =>
+      backend.scheduler.validate({ ...vars, withFixes: true }),
   });
 
   return {
-    runValidation: (shows: Show[], assignments: Assignment[]) => mutation.mutate({ shows, assignments }),
+    runValidation: (shows: Show[], assignments: Assignment[], scheduleId?: string) =>
+      mutation.mutate({ shows, assignments, scheduleId }),
     result: mutation.data ?? null,
     isValidating: mutation.isPending,
     hasRun: mutation.isSuccess || mutation.isError,
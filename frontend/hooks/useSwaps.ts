@@ -0,0 +1,32 @@
+import { useMutation } from "@tanstack/react-query";
+import backend from "~backend/client";
+import type { SwapRequest } from "~backend/scheduler/swaps";
+import { useToast } from "@/components/ui/use-toast";
+
+/**
+ * Who else could take one cell of the grid as it stands, saved or not: direct
+ * replacements and two- or three-way swaps, none adding an error. Nothing is
+ * saved until one is applied and the week saved.
+ */
+export function useSwaps() {
+  const { toast } = useToast();
+
+  const mutation = useMutation({
+    mutationFn: (vars: SwapRequest) => backend.scheduler.suggestCellSwaps(vars),
+    gcTime: 0,
+    retry: false,
+    onError: (err: unknown) =>
+      toast({
+        title: "Couldn't suggest swaps",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
+  return {
+    suggest: mutation.mutate,
+    suggestions: mutation.data?.suggestions ?? [],
+    isSuggesting: mutation.isPending,
+    reset: mutation.reset,
+  };
+}
@@ -1,6 +1,15 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import backend from "~backend/client";
-import type { BulkCreateRequest, TourWithWeeks } from "~backend/scheduler/tour_types";
+import type {
+  AddTourWeekRequest,
+  BulkCreateRequest,
+  DeleteTourWeekRequest,
+  ReorderTourWeeksRequest,
+  TourWithWeeks,
+  UpdateTourCastRequest,
+  UpdateTourRequest,
+} from "~backend/scheduler/tour_types";
+import type { TourHealthRequest } from "~backend/scheduler/tour_health";
 import { useToast } from "@/components/ui/use-toast";
 
 export type TourWeekView = TourWithWeeks["weeks"][number];
@@ -23,6 +32,7 @@ export function useTours() {
   const invalidate = () => {
     qc.invalidateQueries({ queryKey: ["tours"] });
     qc.invalidateQueries({ queryKey: ["schedules"] });
+    qc.invalidateQueries({ queryKey: ["tour-health"] });
   };
 
   const createTour = useMutation({
@@ -50,15 +60,92 @@ export function useTours() {
     onError: () => toast({ title: "Couldn't delete tour", variant: "destructive" }),
   });
 
+  // Fills every week of a tour in date order, keeping picks already made.
+  const generateTour = useMutation({
+    mutationFn: (id: string) => backend.scheduler.generateTour({ id }),
+    onSuccess: (res) => {
+      invalidate();
+      const done = res.weeks.filter((w) => w.success).length;
+      if (res.success) {
+        toast({ title: "Tour generated", description: `${done} of ${res.weeks.length} week(s) assigned` });
+      } else {
+        toast({
+          title: `${res.weeks.length - done} week(s) couldn't be generated`,
+          description: res.errors?.[0] ?? "Unknown error",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: () => toast({ title: "Couldn't generate tour", variant: "destructive" }),
+  });
+
+  // Saves a segment's cast list. Its weeks are validated against the new list
+  // from now on, so any open editor's cast is refetched too.
+  const updateCast = useMutation({
+    mutationFn: (req: Omit<UpdateTourCastRequest, "dryRun">) => backend.scheduler.updateTourCast(req),
+    onSuccess: (res) => {
+      invalidate();
+      qc.invalidateQueries({ queryKey: ["cast-members"] });
+      toast({
+        title: "Tour cast saved",
+        description: res.affectedWeeks.length
+          ? `${res.affectedWeeks.length} week(s) still cast someone who left — regenerate or edit them`
+          : undefined,
+      });
+    },
+    onError: (err) =>
+      toast({
+        title: "Couldn't save the tour cast",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      }),
+  });
+
   const deleteWeek = useMutation({
-    mutationFn: (vars: { tourId: string; weekId: string }) => backend.scheduler.deleteTourWeek(vars),
-    onSuccess: () => {
+    mutationFn: (vars: DeleteTourWeekRequest) => backend.scheduler.deleteTourWeek(vars),
+    onSuccess: (res) => {
       invalidate();
-      toast({ title: "Week removed" });
+      qc.invalidateQueries({ queryKey: ["schedule"] });
+      toast({
+        title: "Week removed",
+        description: res.movedWeeks ? `${res.movedWeeks} later week(s) moved up a week` : undefined,
+      });
     },
     onError: () => toast({ title: "Couldn't remove week", variant: "destructive" }),
   });
 
+  // Tour edits that move weeks rewrite their show dates, so any week open in
+  // the editor is refetched too.
+  const afterEdit = (title: string) => (res: { movedWeeks: number; errors?: string[] }) => {
+    invalidate();
+    qc.invalidateQueries({ queryKey: ["schedule"] });
+    toast({
+      title,
+      description: res.errors?.[0] ?? (res.movedWeeks ? `${res.movedWeeks} week(s) moved to new dates` : undefined),
+      variant: res.errors?.length ? "destructive" : undefined,
+    });
+  };
+  const editFailed = (title: string) => (err: Error) =>
+    toast({ title, description: err.message, variant: "destructive" });
+
+  const updateTour = useMutation({
+    mutationFn: (req: UpdateTourRequest) => backend.scheduler.updateTour(req),
+    onSuccess: afterEdit("Tour saved"),
+    onError: editFailed("Couldn't save the tour"),
+  });
+
+  const addWeek = useMutation({
+    mutationFn: (req: AddTourWeekRequest) => backend.scheduler.addTourWeek(req),
+    onSuccess: afterEdit("Week added"),
+    onError: editFailed("Couldn't add the week"),
+  });
+
+  const reorderWeeks = useMutation({
+    mutationFn: (req: ReorderTourWeeksRequest) => backend.scheduler.reorderTourWeeks(req),
+    onSuccess: afterEdit("Weeks reordered"),
+    onError: editFailed("Couldn't reorder the weeks"),
+  });
+
   return {
     tours: query.data?.tours ?? [],
     isLoading: query.isLoading,
@@ -66,5 +153,33 @@ export function useTours() {
     createTour,
     deleteTour,
     deleteWeek,
+    generateTour,
+    updateCast,
+    updateTour,
+    addWeek,
+    reorderWeeks,
   };
 }
+
+/** The weeks of a tour that cast someone `castMemberIds` leaves out: what
+ *  saving that cast list would affect. Nothing is saved. */
+export function useTourCastPreview(tourId: string | undefined, castMemberIds: string[], enabled = true) {
+  const query = useQuery({
+    queryKey: ["tour-cast-preview", tourId, [...castMemberIds].sort()],
+    queryFn: () => backend.scheduler.updateTourCast({ id: tourId!, castMemberIds, dryRun: true }),
+    enabled: enabled && Boolean(tourId) && castMemberIds.length > 0,
+  });
+  return { affectedWeeks: query.data?.affectedWeeks ?? [], isLoading: query.isFetching };
+}
+
+/** Every week of a tour segment, or every schedule in a date range, validated
+ *  the way the editor's banner does and reported on together. Null asks for
+ *  nothing. */
+export function useTourHealth(request: TourHealthRequest | null) {
+  const query = useQuery({
+    queryKey: ["tour-health", request],
+    queryFn: () => backend.scheduler.tourHealth(request!),
+    enabled: request !== null,
+  });
+  return { report: query.data, isLoading: query.isFetching, error: query.error as Error | null };
+}
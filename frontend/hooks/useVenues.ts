@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import backend from "~backend/client";
+import type { CreateVenueRequest, UpdateVenueRequest } from "~backend/scheduler/venues";
+import { useToast } from "@/components/ui/use-toast";
+
+/** The company's venue library: the list plus create/update/delete mutations,
+ *  shared by the venues screen, the New Schedule modal, the editor and the
+ *  tour dialogs. */
+export function useVenues() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+
+  const query = useQuery({
+    queryKey: ["venues"],
+    queryFn: () => backend.scheduler.listVenues(),
+  });
+
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["venues"] });
+
+  // The server explains a refused venue (a bad time zone or time), so say why.
+  const onError = (title: string) => (err: unknown) =>
+    toast({ title, description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+
+  const createVenue = useMutation({
+    mutationFn: (vars: CreateVenueRequest) => backend.scheduler.createVenue(vars),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Venue added" });
+    },
+    onError: onError("Couldn't add venue"),
+  });
+
+  const updateVenue = useMutation({
+    mutationFn: (vars: UpdateVenueRequest) => backend.scheduler.updateVenue(vars),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Venue updated" });
+    },
+    onError: onError("Couldn't update venue"),
+  });
+
+  const deleteVenue = useMutation({
+    mutationFn: (id: string) => backend.scheduler.deleteVenue({ id }),
+    onSuccess: () => {
+      invalidate();
+      // Weeks linked to it are unlinked server-side.
+      qc.invalidateQueries({ queryKey: ["schedule"] });
+      toast({ title: "Venue deleted" });
+    },
+    onError: onError("Couldn't delete venue"),
+  });
+
+  return {
+    venues: query.data?.venues ?? [],
+    isLoading: query.isLoading,
+    error: query.error as Error | null,
+    createVenue,
+    updateVenue,
+    deleteVenue,
+  };
+}
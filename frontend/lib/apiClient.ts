@@ -10,7 +10,7 @@
  * (configured in vite.config.ts / vitest.config.ts), so all scheduler requests
  * are automatically authenticated.
  */
-import { Client, Local, Environment, PreviewEnv } from '../client';
+import { Client, Local, Environment, PreviewEnv, APIError, ErrCode, isAPIError } from '../client';
 import { deriveBackendUrlFromLocation } from './backendUrl';
 
 const TOKEN_KEY = 'stomp_auth_token';
@@ -43,10 +43,19 @@ const authedFetch: typeof fetch = (input, init) => {
 
 const target: string = import.meta.env.VITE_CLIENT_TARGET || deriveBackendUrlFromLocation() || Local;
 
+/** The API's origin, for links opened outside this client (calendar feeds). */
+export const backendBaseUrl = target;
+
 export const backend = new Client(target, {
   fetcher: authedFetch,
+  // Streams open a WebSocket, which never goes through the fetcher; the client
+  // sends the auth generator's header when it connects instead.
+  auth: () => {
+    const token = getToken();
+    return token ? { authorization: `Bearer ${token}` } : undefined;
+  },
   requestInit: { credentials: 'include' },
 });
 
 export default backend;
-export { Client, Local, Environment, PreviewEnv };
+export { Client, Local, Environment, PreviewEnv, APIError, ErrCode, isAPIError };
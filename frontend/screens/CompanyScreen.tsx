@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Plus, Users, Drama, Layers, Venus, LayoutGrid, List, ArrowDownAZ, ArrowDownZA } from "lucide-react";
+import { Plus, Users, Drama, Layers, Venus, LayoutGrid, List, ArrowDownAZ, ArrowDownZA, CalendarDays } from "lucide-react";
 import type { CompanyMember } from "~backend/scheduler/company";
 import {
   AlertDialog,
@@ -17,16 +17,31 @@ import { CastCard } from "@/components/domain/company/CastCard";
 import { CastListRow } from "@/components/domain/company/CastListRow";
 import { EligibilityMatrix } from "@/components/domain/company/EligibilityMatrix";
 import { CastMemberDialog } from "@/components/domain/company/CastMemberDialog";
+import { AvailabilityPanel } from "@/components/domain/company/AvailabilityPanel";
+import { RolesPanel } from "@/components/domain/company/RolesPanel";
+import { CompanyUsersPanel } from "@/components/domain/company/CompanyUsersPanel";
+import { CalendarDialog } from "@/components/domain/company/CalendarDialog";
 import { useCompany, type MemberInput } from "@/hooks/useCompany";
+import { useAvailability } from "@/hooks/useAvailability";
+import { useRoles } from "@/hooks/useRoles";
+import { useCompanies, useCompanyUsers } from "@/hooks/useCompanies";
 import { sortByName } from "@/components/domain/format";
 
 export function CompanyScreen() {
-  const { currentCompany, archive, roles, isLoading, error, addMember, updateMember, setStatus, deleteMember } =
+  const { currentCompany, archive, roles, roleCatalogue, isLoading, error, addMember, updateMember, setStatus, deleteMember } =
     useCompany();
+  const { entries, addUnavailability, deleteUnavailability } = useAvailability();
+  const { roles: catalogue, addRole, updateRole, swapRoles, deleteRole } = useRoles();
+  // Viewers get the roster read-only; the role catalogue and who can open the
+  // company are admin business.
+  const { currentCompanyId, canEdit, isAdmin } = useCompanies();
+  const { users, setRole } = useCompanyUsers(isAdmin ? currentCompanyId : undefined);
 
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editTarget, setEditTarget] = useState<CompanyMember | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<CompanyMember | null>(null);
+  // Whose calendar is open: a performer's name, or null for the whole company.
+  const [calendarFor, setCalendarFor] = useState<{ performer: string | null } | null>(null);
   const [viewMode, setViewMode] = useState<"badge" | "list">("badge");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("asc");
 
@@ -56,9 +71,16 @@ export function CompanyScreen() {
         title="Cast"
         lead="Performers across the STOMP performance roles. Every performer carries exactly one RED day per week."
         actions={
-          <button className="btn btn-primary btn-sm" onClick={openAdd}>
-            <Plus /> Add Cast Member
-          </button>
+          <>
+            <button className="btn btn-ghost btn-sm" onClick={() => setCalendarFor({ performer: null })}>
+              <CalendarDays /> Company calendar
+            </button>
+            {canEdit ? (
+              <button className="btn btn-primary btn-sm" onClick={openAdd}>
+                <Plus /> Add Cast Member
+              </button>
+            ) : null}
+          </>
         }
       />
 
@@ -79,7 +101,7 @@ export function CompanyScreen() {
         <div className="section-head">
           <div>
             <h2 className="h1">Cast</h2>
-            <div className="kicker">Edit eligibility, archive, or remove</div>
+            <div className="kicker">{canEdit ? "Edit eligibility, archive, or remove" : "Read-only — ask a manager to make changes"}</div>
           </div>
           <div className="toolbar">
             <button
@@ -123,9 +145,11 @@ export function CompanyScreen() {
         ) : currentCompany.length === 0 ? (
           <div className="card empty">
             <div className="h2">No cast yet</div>
-            <button className="btn btn-primary btn-sm" onClick={openAdd}>
-              <Plus /> Add the first cast member
-            </button>
+            {canEdit ? (
+              <button className="btn btn-primary btn-sm" onClick={openAdd}>
+                <Plus /> Add the first cast member
+              </button>
+            ) : null}
           </div>
         ) : viewMode === "list" ? (
           <div className="cast-list">
@@ -136,6 +160,8 @@ export function CompanyScreen() {
                 onEdit={openEdit}
                 onArchiveToggle={(mem) => setStatus.mutate({ id: mem.id, status: "archived" })}
                 onDelete={setDeleteTarget}
+                onCalendar={(mem) => setCalendarFor({ performer: mem.name })}
+                readOnly={!canEdit}
               />
             ))}
           </div>
@@ -148,6 +174,8 @@ export function CompanyScreen() {
                 onEdit={openEdit}
                 onArchiveToggle={(mem) => setStatus.mutate({ id: mem.id, status: "archived" })}
                 onDelete={setDeleteTarget}
+                onCalendar={(mem) => setCalendarFor({ performer: mem.name })}
+                readOnly={!canEdit}
               />
             ))}
           </div>
@@ -168,6 +196,8 @@ export function CompanyScreen() {
                     onEdit={openEdit}
                     onArchiveToggle={(mem) => setStatus.mutate({ id: mem.id, status: "active" })}
                     onDelete={setDeleteTarget}
+                    onCalendar={(mem) => setCalendarFor({ performer: mem.name })}
+                    readOnly={!canEdit}
                   />
                 ))}
               </div>
@@ -180,6 +210,8 @@ export function CompanyScreen() {
                     onEdit={openEdit}
                     onArchiveToggle={(mem) => setStatus.mutate({ id: mem.id, status: "active" })}
                     onDelete={setDeleteTarget}
+                    onCalendar={(mem) => setCalendarFor({ performer: mem.name })}
+                    readOnly={!canEdit}
                   />
                 ))}
               </div>
@@ -195,9 +227,57 @@ export function CompanyScreen() {
             <p className="lead mt-8">Which performer can cover which role.</p>
           </div>
         </div>
-        <EligibilityMatrix members={currentCompany} roles={roles} />
+        <EligibilityMatrix members={currentCompany} roles={roles} catalogue={roleCatalogue} />
+      </section>
+
+      {isAdmin ? (
+        <section className="mt-32">
+          <div className="section-head">
+            <div>
+              <h2 className="h1">Roles</h2>
+              <p className="lead mt-8">The tracks every show casts, in grid order. Switch one off to run the show without it.</p>
+            </div>
+          </div>
+          <RolesPanel
+            roles={catalogue}
+            onAdd={(input) => addRole.mutate(input)}
+            onUpdate={(vars) => updateRole.mutate(vars)}
+            onSwap={(a, b) => swapRoles.mutate({ a, b })}
+            onDelete={(id) => deleteRole.mutate(id)}
+            isSubmitting={addRole.isPending}
+          />
+        </section>
+      ) : null}
+
+      <section className="mt-32">
+        <div className="section-head">
+          <div>
+            <h2 className="h1">Unavailability</h2>
+            <p className="lead mt-8">Holidays, appointments and visa runs. Auto-Generate keeps performers OFF on these dates.</p>
+          </div>
+        </div>
+        <AvailabilityPanel
+          members={sortByName(currentCompany)}
+          entries={entries}
+          onAdd={(input) => addUnavailability.mutate(input)}
+          onDelete={(id) => deleteUnavailability.mutate(id)}
+          isSubmitting={addUnavailability.isPending}
+          readOnly={!canEdit}
+        />
       </section>
 
+      {isAdmin ? (
+        <section className="mt-32">
+          <div className="section-head">
+            <div>
+              <h2 className="h1">Users</h2>
+              <p className="lead mt-8">Who can open this company. Viewers see published schedules; managers edit; admins also manage users and roles.</p>
+            </div>
+          </div>
+          <CompanyUsersPanel users={users} onSetRole={(vars) => setRole.mutate(vars)} />
+        </section>
+      ) : null}
+
       <CastMemberDialog
         open={dialogOpen}
         onOpenChange={setDialogOpen}
@@ -207,6 +287,13 @@ export function CompanyScreen() {
         isSubmitting={addMember.isPending || updateMember.isPending}
       />
 
+      <CalendarDialog
+        open={calendarFor !== null}
+        onOpenChange={(o) => !o && setCalendarFor(null)}
+        performer={calendarFor?.performer ?? null}
+        canRotate={canEdit}
+      />
+
       <AlertDialog open={!!deleteTarget} onOpenChange={(o) => !o && setDeleteTarget(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { Scale, Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogFooter,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogAction,
+  AlertDialogCancel,
+} from "@/components/ui/alert-dialog";
+import { PageHeader } from "@/components/shell/PageHeader";
+import { StatCard } from "@/components/domain/StatCard";
+import { RuleProfileDialog, RULE_LABELS } from "@/components/domain/rules/RuleProfileDialog";
+import { useRuleProfiles } from "@/hooks/useRuleProfiles";
+import { useCompanies } from "@/hooks/useCompanies";
+import type { CreateRuleProfileRequest } from "~backend/scheduler/rule_profiles";
+import type { RuleProfile } from "~backend/scheduler/types";
+
+/** "6 shows a week · 6 in a row · 11h rest", then the rules it changes. */
+function profileSummary(p: RuleProfile): string {
+  const { maxShowsPerWeek, maxConsecutiveShows, minRestMinutes } = p.limits;
+  const rest = minRestMinutes > 0 ? `${Math.floor(minRestMinutes / 60)}h${minRestMinutes % 60 ? ` ${minRestMinutes % 60}m` : ""} rest` : "no rest rule";
+  const changed = Object.entries(p.severities).map(([code, s]) => `${RULE_LABELS[code] ?? code}: ${s}`);
+  return [`${maxShowsPerWeek} shows a week`, `${maxConsecutiveShows} in a row`, rest, ...changed].join(" · ");
+}
+
+/** The company's labour-rule profiles: named limits and rule severities that
+ *  weeks are generated and validated under, company-wide or per tour. */
+export function RulesScreen() {
+  const { profiles, companyProfileId, builtIn, ruleCodes, isLoading, error, createProfile, updateProfile, deleteProfile, setCompanyProfile } =
+    useRuleProfiles();
+  const { currentCompanyId } = useCompanies();
+
+  // null: closed; "new": adding; otherwise the profile being edited.
+  const [editing, setEditing] = useState<RuleProfile | "new" | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<RuleProfile | null>(null);
+
+  const save = (req: CreateRuleProfileRequest) => {
+    const close = { onSuccess: () => setEditing(null) };
+    if (editing && editing !== "new") updateProfile.mutate({ id: editing.id, ...req }, close);
+    else createProfile.mutate(req, close);
+  };
+
+  const setCompanyRules = (profileId?: string) => {
+    if (currentCompanyId) setCompanyProfile.mutate({ companyId: currentCompanyId, profileId });
+  };
+
+  const companyProfile = profiles.find((p) => p.id === companyProfileId);
+
+  return (
+    <>
+      <PageHeader
+        eyebrow="How hard the week may work"
+        title="Labour rules"
+        lead="Each profile sets the weekly cap, run length, RED-day spacing and rest, and which rules are errors. The company uses one; a tour can use its own."
+        actions={
+          <button className="btn btn-primary btn-sm" onClick={() => setEditing("new")}>
+            <Plus /> New profile
+          </button>
+        }
+      />
+
+      <section className="stats mt-24">
+        <StatCard label="Profiles" value={profiles.length} tone="accent" icon={<Scale />} delta="company-wide" />
+        <StatCard label="Company rules" value={companyProfile?.name ?? "Built-in"} icon={<Scale />} delta="unless a tour sets its own" />
+      </section>
+
+      <section className="mt-32">
+        <div className="section-head">
+          <h2 className="h1">Your profiles</h2>
+          <div className="kicker">Edit, make the company's, or delete</div>
+        </div>
+
+        {isLoading ? (
+          <div className="card empty">
+            <p className="text-muted">Loading rule profiles…</p>
+          </div>
+        ) : error ? (
+          <div className="card empty">
+            <div className="h3">Couldn't load rule profiles</div>
+            <p className="text-muted">{error.message}</p>
+          </div>
+        ) : profiles.length === 0 ? (
+          <div className="card empty">
+            <Scale />
+            <div className="h2">Built-in rules</div>
+            <p className="text-muted" style={{ maxWidth: "46ch" }}>
+              Weeks are held to at most 6 shows a week and 6 in a row, a RED day every week and 11 hours' rest. Add a
+              profile for an engagement with other limits.
+            </p>
+            <button className="btn btn-primary btn-sm" onClick={() => setEditing("new")}>
+              <Plus /> New profile
+            </button>
+          </div>
+        ) : (
+          <div className="stack" style={{ gap: 12 }}>
+            {profiles.map((p) => (
+              <div key={p.id} className="card card-pad">
+                <div className="between" style={{ gap: 14, flexWrap: "wrap" }}>
+                  <div style={{ minWidth: 220, flex: 1 }}>
+                    <div className="h3">
+                      {p.name}
+                      {p.id === companyProfileId ? <span className="text-muted"> · company rules</span> : null}
+                    </div>
+                    <div className="text-muted" style={{ fontSize: 13, marginTop: 4 }}>
+                      {profileSummary(p)}
+                    </div>
+                  </div>
+
+                  <div className="row-wrap" style={{ gap: 8 }}>
+                    {p.id === companyProfileId ? (
+                      <button className="btn btn-ghost btn-sm" onClick={() => setCompanyRules(undefined)}>
+                        Use built-in
+                      </button>
+                    ) : (
+                      <button className="btn btn-ghost btn-sm" onClick={() => setCompanyRules(p.id)}>
+                        Use for company
+                      </button>
+                    )}
+                    <button className="btn btn-ghost btn-sm btn-icon" title="Edit" onClick={() => setEditing(p)}>
+                      <Pencil />
+                    </button>
+                    <button className="btn btn-danger btn-sm btn-icon" title="Delete" onClick={() => setDeleteTarget(p)}>
+                      <Trash2 />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <RuleProfileDialog
+        open={editing !== null}
+        profile={editing === "new" ? null : editing}
+        builtIn={builtIn}
+        ruleCodes={ruleCodes}
+        onOpenChange={(o) => !o && setEditing(null)}
+        onSave={save}
+        isSaving={createProfile.isPending || updateProfile.isPending}
+      />
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(o) => !o && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &ldquo;{deleteTarget?.name}&rdquo;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tours using this profile go back to the company's rules, and the company to the built-in ones if it used
+              it. Saved weeks are not changed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleteTarget) deleteProfile.mutate(deleteTarget.id);
+                setDeleteTarget(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
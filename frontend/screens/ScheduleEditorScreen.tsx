@@ -1,18 +1,29 @@
 import { useEffect, useState } from "react";
 import { useParams } from "react-router-dom";
-import { ChevronLeft, ChevronRight, Download, Plus, Save, Undo2, Wand2, BookmarkPlus } from "lucide-react";
+import { ChevronLeft, ChevronRight, Download, Eye, EyeOff, History, Layers, LifeBuoy, Plus, Save, Undo2, Wand2, BookmarkPlus } from "lucide-react";
 import { useScheduleEditor } from "@/hooks/useScheduleEditor";
 import { useScheduleValidation } from "@/hooks/useScheduleValidation";
+import { useCompanies } from "@/hooks/useCompanies";
 import { ScheduleGrid } from "@/components/domain/schedule-grid/ScheduleGrid";
 import { FairnessMeter } from "@/components/domain/schedule-grid/FairnessMeter";
 import { AnalyticsStrip } from "@/components/domain/schedule-grid/AnalyticsStrip";
 import { ViolationBanner } from "@/components/domain/schedule-grid/ViolationBanner";
 import { SaveTemplateDialog } from "@/components/domain/SaveTemplateDialog";
+import { HistoryDialog } from "@/components/domain/schedule-grid/HistoryDialog";
+import { CandidatesDialog } from "@/components/domain/schedule-grid/CandidatesDialog";
+import { CoverDialog } from "@/components/domain/schedule-grid/CoverDialog";
+import { SwapDialog } from "@/components/domain/schedule-grid/SwapDialog";
+import { MergeDialog } from "@/components/domain/schedule-grid/MergeDialog";
+import { LivePresence } from "@/components/domain/schedule-grid/LivePresence";
+import { CityZones } from "@/components/domain/schedule-grid/CityZones";
+import { SchedulePill } from "@/components/domain/SchedulePill";
+import { VenueSelect } from "@/components/domain/venues/VenueSelect";
 import { analyzeFatigue, gridAnalytics, rosterShowCounts } from "@/components/domain/schedule-grid/logic";
 import { dateRange, shortDate } from "@/components/domain/format";
 import { SchedulePDFExporter } from "@/utils/pdfExport";
 import { useToast } from "@/components/ui/use-toast";
 import { useSettings } from "@/providers/SettingsProvider";
+import type { Role } from "~backend/scheduler/types";
 
 export function ScheduleEditorScreen() {
   const { id } = useParams();
@@ -20,7 +31,15 @@ export function ScheduleEditorScreen() {
   const validation = useScheduleValidation();
   const { toast } = useToast();
   const { dateStyle } = useSettings();
+  // Viewers get the week read-only: no toolbar, and the grid's controls are
+  // disabled wholesale by the fieldset below. The server refuses their edits
+  // regardless.
+  const { canEdit } = useCompanies();
   const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [candidatesOpen, setCandidatesOpen] = useState(false);
+  const [coverOpen, setCoverOpen] = useState(false);
+  const [swapCell, setSwapCell] = useState<{ showId: string; role: Role } | null>(null);
 
   const castMembers = editor.castData?.castMembers ?? [];
   const roles = editor.castData?.roles ?? [];
@@ -33,10 +52,10 @@ export function ScheduleEditorScreen() {
 
   // Live (debounced) validation against the override-aware backend endpoint.
   useEffect(() => {
-    const t = setTimeout(() => validation.runValidation(editor.shows, editor.assignments), 500);
+    const t = setTimeout(() => validation.runValidation(editor.shows, editor.assignments, id), 500);
     return () => clearTimeout(t);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [editor.shows, editor.assignments]);
+  }, [editor.shows, editor.assignments, id]);
 
   // Cmd/Ctrl+Z undoes the last shaping edit. Ignored while a field has focus so
   // it doesn't fight the browser's own undo inside a time or city input.
@@ -88,6 +107,43 @@ export function ScheduleEditorScreen() {
         templateId={editor.templateId}
         onSaved={editor.setTemplateId}
       />
+      {id && canEdit ? <HistoryDialog open={historyOpen} onOpenChange={setHistoryOpen} scheduleId={id} version={editor.serverVersion} /> : null}
+      {canEdit ? (
+        <CandidatesDialog
+          open={candidatesOpen}
+          onOpenChange={setCandidatesOpen}
+          shows={editor.shows}
+          assignments={editor.assignments}
+          scheduleId={id}
+          onApply={editor.handleApplyCandidate}
+        />
+      ) : null}
+      {id && canEdit ? (
+        <CoverDialog
+          open={coverOpen}
+          onOpenChange={setCoverOpen}
+          scheduleId={id}
+          shows={editor.shows}
+          castMembers={castMembers}
+          onApply={editor.handleApplyCover}
+        />
+      ) : null}
+      {canEdit ? (
+        <SwapDialog
+          cell={swapCell}
+          onClose={() => setSwapCell(null)}
+          shows={editor.shows}
+          assignments={editor.assignments}
+          scheduleId={id}
+          onApply={editor.handleApplySwap}
+        />
+      ) : null}
+      <MergeDialog
+        conflicts={editor.mergeConflicts}
+        onMerge={editor.handleResolveMerge}
+        onDiscard={editor.handleDiscardMine}
+        onDismiss={editor.handleDismissMerge}
+      />
 
       <section className="between" style={{ flexWrap: "wrap", gap: 18 }}>
         <div style={{ minWidth: 0 }}>
@@ -98,13 +154,26 @@ export function ScheduleEditorScreen() {
             onChange={(e) => editor.setLocation(e.target.value)}
             placeholder="Location (e.g. London — Ambassadors Theatre)"
             aria-label="Schedule location"
+            readOnly={!canEdit}
           />
+          {editor.venues.length > 0 && canEdit ? (
+            <div className="mt-8" style={{ width: "min(340px, 100%)" }}>
+              <VenueSelect
+                id="editor-venue"
+                venues={editor.venues}
+                value={editor.venueId}
+                onChange={editor.handleVenueChange}
+                emptyLabel="No library venue"
+              />
+            </div>
+          ) : null}
           <input
             className="mt-8"
             value={editor.week}
             onChange={(e) => editor.setWeek(e.target.value)}
             placeholder="Optional week label (e.g. Preview week)"
             aria-label="Week label"
+            readOnly={!canEdit}
             style={{
               display: "block",
               width: "min(340px, 100%)",
@@ -116,8 +185,16 @@ export function ScheduleEditorScreen() {
               padding: "5px 9px",
             }}
           />
+          <CityZones zones={editor.cityZones} onChange={editor.handleCityZoneChange} readOnly={!canEdit} />
           <p className="text-muted mt-8" style={{ fontSize: 14 }}>
             {dateRange(editor.shows, dateStyle)} · {showCount} show{showCount === 1 ? "" : "s"}
+            {editor.isEditing && canEdit ? (
+              <>
+                {" "}
+                <SchedulePill variant={editor.published ? "show" : "off"}>{editor.published ? "Published" : "Draft"}</SchedulePill>{" "}
+                <LivePresence peers={editor.livePeers} />
+              </>
+            ) : null}
           </p>
         </div>
         <div className="toolbar">
@@ -130,75 +207,129 @@ export function ScheduleEditorScreen() {
           <button className="btn btn-subtle btn-sm btn-icon" title="Next week" onClick={editor.navigateToNextWeek}>
             <ChevronRight />
           </button>
-          <button className="btn btn-ghost btn-sm" onClick={() => setSaveTemplateOpen(true)} title="Save this week's shape as a reusable template">
-            <BookmarkPlus /> Save as template
-          </button>
+          {canEdit ? (
+            <button className="btn btn-ghost btn-sm" onClick={() => setSaveTemplateOpen(true)} title="Save this week's shape as a reusable template">
+              <BookmarkPlus /> Save as template
+            </button>
+          ) : null}
           <button className="btn btn-ghost btn-sm" onClick={handleExport}>
             <Download /> Export PDF
           </button>
-          <button className="btn btn-primary btn-sm" onClick={editor.handleSave} disabled={editor.isSaving}>
-            <Save /> {editor.isSaving ? "Saving…" : "Save Changes"}
-          </button>
+          {canEdit && editor.isEditing ? (
+            <button className="btn btn-ghost btn-sm" onClick={() => setHistoryOpen(true)} title="Earlier versions of this schedule">
+              <History /> History
+            </button>
+          ) : null}
+          {canEdit && editor.isEditing ? (
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={editor.handleTogglePublished}
+              disabled={editor.isPublishing}
+              title={editor.published ? "Hide this schedule from viewers" : "Let everyone in the company see this schedule"}
+            >
+              {editor.published ? <EyeOff /> : <Eye />} {editor.published ? "Unpublish" : "Publish"}
+            </button>
+          ) : null}
+          {canEdit ? (
+            <button className="btn btn-primary btn-sm" onClick={editor.handleSave} disabled={editor.isSaving}>
+              <Save /> {editor.isSaving ? "Saving…" : "Save Changes"}
+            </button>
+          ) : null}
         </div>
       </section>
 
       <section className="card card-head mt-24" style={{ padding: "14px 18px", flexWrap: "wrap" }}>
+        {canEdit ? (
+          <div className="row-wrap">
+            <button className="btn btn-primary btn-sm" onClick={editor.handleAutoGenerate} disabled={editor.isGenerating}>
+              <Wand2 /> {editor.isGenerating ? "Generating…" : "Auto Generate"}
+            </button>
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => setCandidatesOpen(true)}
+              disabled={editor.isGenerating}
+              title="Generate several weeks and pick one"
+            >
+              <Layers /> Compare
+            </button>
+            {editor.isEditing ? (
+              <button
+                className="btn btn-ghost btn-sm"
+                onClick={() => setCoverOpen(true)}
+                disabled={editor.isGenerating}
+                title="Recast around someone who is out, changing as little as possible"
+              >
+                <LifeBuoy /> Cover
+              </button>
+            ) : null}
+            <button className="btn btn-ghost btn-sm" onClick={editor.handleAddShow}>
+              <Plus /> Add Show
+            </button>
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={editor.handleUndo}
+              disabled={!editor.canUndo}
+              title="Undo the last change to the week (Cmd/Ctrl+Z)"
+            >
+              <Undo2 /> Undo
+            </button>
+            <button className="btn btn-ghost btn-sm" onClick={editor.handleClearAll}>
+              Clear All
+            </button>
+            <button className="btn btn-danger btn-sm" onClick={editor.handleResetShowTimes}>
+              Reset Times
+            </button>
+          </div>
+        ) : (
+          <div className="kicker">Read-only</div>
+        )}
         <div className="row-wrap">
-          <button className="btn btn-primary btn-sm" onClick={editor.handleAutoGenerate} disabled={editor.isGenerating}>
-            <Wand2 /> {editor.isGenerating ? "Generating…" : "Auto Generate"}
-          </button>
-          <button className="btn btn-ghost btn-sm" onClick={editor.handleAddShow}>
-            <Plus /> Add Show
-          </button>
-          <button
-            className="btn btn-ghost btn-sm"
-            onClick={editor.handleUndo}
-            disabled={!editor.canUndo}
-            title="Undo the last change to the week (Cmd/Ctrl+Z)"
-          >
-            <Undo2 /> Undo
-          </button>
-          <button className="btn btn-ghost btn-sm" onClick={editor.handleClearAll}>
-            Clear All
-          </button>
-          <button className="btn btn-danger btn-sm" onClick={editor.handleResetShowTimes}>
-            Reset Times
-          </button>
-        </div>
-        <div className="row-wrap">
+          {editor.castData?.tour ? (
+            <span className="pill pill-accent" title={`Cast from the ${editor.castData.tour.name} tour's list for this segment`}>
+              {editor.castData.tour.segmentName} cast · {castMembers.length}
+            </span>
+          ) : null}
           <FairnessMeter covered={analytics.redCovered} target={redTarget} conflicts={analytics.conflicts} />
         </div>
       </section>
 
       <AnalyticsStrip analytics={analytics} shows={editor.shows} redTarget={redTarget} />
 
-      <div className="mt-16">
-        <ScheduleGrid
+      <fieldset className="read-only-fieldset" disabled={!canEdit}>
+        <div className="mt-16">
+          <ScheduleGrid
+            shows={editor.shows}
+            assignments={editor.assignments}
+            castMembers={castMembers}
+            roles={roles}
+            location={editor.location}
+            week={editor.week}
+            onAssignmentChange={editor.handleAssignmentChange}
+            onToggleRedDay={editor.handleToggleRedDay}
+            onShowStatusChange={editor.handleShowStatusChange}
+            onRemoveShow={editor.handleRemoveShow}
+            onShowChange={editor.handleShowChange}
+            onAddShowToDate={editor.handleAddShowToDate}
+            onRestoreDate={editor.handleRestoreDate}
+            onSetDestination={editor.handleSetDestination}
+            onSetCompanyRedDay={editor.handleSetCompanyRedDay}
+            peers={editor.livePeers}
+            onFocusCell={editor.handleFocusCell}
+            explanations={editor.explanations}
+            onSuggestSwap={canEdit ? (showId, role) => setSwapCell({ showId, role }) : undefined}
+          />
+        </div>
+
+        <ViolationBanner
+          result={validation.result}
+          isValidating={validation.isValidating}
+          fatigueIssues={fatigueIssues}
+          roster={roster}
+          onToggleOverride={editor.handleToggleOverride}
+          onApplyFix={canEdit ? editor.handleApplyFix : undefined}
           shows={editor.shows}
-          assignments={editor.assignments}
-          castMembers={castMembers}
-          roles={roles}
-          location={editor.location}
-          week={editor.week}
-          onAssignmentChange={editor.handleAssignmentChange}
-          onToggleRedDay={editor.handleToggleRedDay}
-          onShowStatusChange={editor.handleShowStatusChange}
-          onRemoveShow={editor.handleRemoveShow}
-          onShowChange={editor.handleShowChange}
-          onAddShowToDate={editor.handleAddShowToDate}
-          onRestoreDate={editor.handleRestoreDate}
-          onSetDestination={editor.handleSetDestination}
-          onSetCompanyRedDay={editor.handleSetCompanyRedDay}
         />
-      </div>
-
-      <ViolationBanner
-        result={validation.result}
-        isValidating={validation.isValidating}
-        fatigueIssues={fatigueIssues}
-        roster={roster}
-        onToggleOverride={editor.handleToggleOverride}
-      />
+      </fieldset>
     </>
   );
 }
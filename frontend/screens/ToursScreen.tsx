@@ -15,13 +15,40 @@ import { PageHeader } from "@/components/shell/PageHeader";
 import { StatCard } from "@/components/domain/StatCard";
 import { TourFolder } from "@/components/domain/tours/TourFolder";
 import { CreateTourWizard } from "@/components/domain/tours/CreateTourWizard";
+import { TourCastDialog } from "@/components/domain/tours/TourCastDialog";
+import { TourEditDialog } from "@/components/domain/tours/TourEditDialog";
+import { TourAddWeekDialog } from "@/components/domain/tours/TourAddWeekDialog";
+import { TourHealthPanel } from "@/components/domain/tours/TourHealthPanel";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useTours, weekStatus, type TourWeekView } from "@/hooks/useTours";
 
 export function ToursScreen() {
-  const { tours, isLoading, error, createTour, deleteTour, deleteWeek } = useTours();
+  const {
+    tours,
+    isLoading,
+    error,
+    createTour,
+    deleteTour,
+    deleteWeek,
+    generateTour,
+    updateCast,
+    updateTour,
+    addWeek,
+    reorderWeeks,
+  } = useTours();
   const [wizardOpen, setWizardOpen] = useState(false);
   const [deleteTourTarget, setDeleteTourTarget] = useState<TourWithWeeks | null>(null);
   const [deleteWeekTarget, setDeleteWeekTarget] = useState<{ tour: TourWithWeeks; week: TourWeekView } | null>(null);
+  const [castTarget, setCastTarget] = useState<TourWithWeeks | null>(null);
+  const [editTarget, setEditTarget] = useState<TourWithWeeks | null>(null);
+  const [addWeekTarget, setAddWeekTarget] = useState<TourWithWeeks | null>(null);
+  const [closeGap, setCloseGap] = useState(true);
+
+  const parents = [...new Set(tours.map((t) => t.parentTourName || t.name))].sort();
+  // Later weeks of the segment, which removing this one can pull forward.
+  const laterWeeks = deleteWeekTarget
+    ? deleteWeekTarget.tour.weeks.filter((w) => w.startDate && w.startDate > deleteWeekTarget.week.startDate).length
+    : 0;
 
   const totalWeeks = tours.reduce((n, t) => n + t.weeks.length, 0);
   const readyWeeks = tours.reduce((n, t) => n + t.weeks.filter((w) => weekStatus(w) === "ready").length, 0);
@@ -89,12 +116,29 @@ export function ToursScreen() {
                 defaultOpen={i === 0}
                 onDeleteTour={setDeleteTourTarget}
                 onDeleteWeek={(tour, week) => setDeleteWeekTarget({ tour, week })}
+                onGenerate={(tour) => generateTour.mutate(tour.id)}
+                onEditCast={setCastTarget}
+                onEdit={setEditTarget}
+                onAddWeek={setAddWeekTarget}
+                onReorder={(tour, weekIds) => reorderWeeks.mutate({ id: tour.id, weekIds })}
+                isGenerating={generateTour.isPending && generateTour.variables === t.id}
               />
             ))}
           </div>
         )}
       </section>
 
+      {/* With no tours yet it still checks a date range of weeks. */}
+      {!isLoading && !error ? (
+        <section className="mt-32">
+          <div className="section-head">
+            <h2 className="h1">Tour Health</h2>
+            <div className="kicker">Every week validated at once; a week opens in the editor</div>
+          </div>
+          <TourHealthPanel tours={tours} />
+        </section>
+      ) : null}
+
       <CreateTourWizard
         open={wizardOpen}
         onOpenChange={setWizardOpen}
@@ -103,17 +147,42 @@ export function ToursScreen() {
           setWizardOpen(false);
         }}
         isSubmitting={createTour.isPending}
+        parents={parents}
+      />
+
+      <TourCastDialog
+        tour={castTarget}
+        onOpenChange={(o) => !o && setCastTarget(null)}
+        onSave={(castMemberIds) => {
+          if (!castTarget) return;
+          updateCast.mutate({ id: castTarget.id, castMemberIds }, { onSuccess: () => setCastTarget(null) });
+        }}
+        isSaving={updateCast.isPending}
       />
 
-      {/* Hard destructive confirm: no update endpoint exists, so restructuring a
-          tour means delete + recreate. Deleting cascades to every week schedule. */}
+      <TourEditDialog
+        tour={editTarget}
+        parents={parents}
+        onOpenChange={(o) => !o && setEditTarget(null)}
+        onSave={(req) => updateTour.mutate(req, { onSuccess: () => setEditTarget(null) })}
+        isSaving={updateTour.isPending}
+      />
+
+      <TourAddWeekDialog
+        tour={addWeekTarget}
+        onOpenChange={(o) => !o && setAddWeekTarget(null)}
+        onAdd={(req) => addWeek.mutate(req, { onSuccess: () => setAddWeekTarget(null) })}
+        isSaving={addWeek.isPending}
+      />
+
+      {/* Hard destructive confirm: deleting cascades to every week schedule. */}
       <AlertDialog open={!!deleteTourTarget} onOpenChange={(o) => !o && setDeleteTourTarget(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete &ldquo;{deleteTourTarget?.name}&rdquo;?</AlertDialogTitle>
             <AlertDialogDescription>
               This permanently deletes the tour and all {deleteTourTarget?.weeks.length ?? 0} of its week schedules.
-              This cannot be undone — to change the structure, delete and recreate.
+              This cannot be undone — to rename or move it, edit it instead.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -130,19 +199,38 @@ export function ToursScreen() {
         </AlertDialogContent>
       </AlertDialog>
 
-      <AlertDialog open={!!deleteWeekTarget} onOpenChange={(o) => !o && setDeleteWeekTarget(null)}>
+      <AlertDialog
+        open={!!deleteWeekTarget}
+        onOpenChange={(o) => {
+          if (o) return;
+          setDeleteWeekTarget(null);
+          setCloseGap(true);
+        }}
+      >
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Remove the {deleteWeekTarget?.week.locationCity} week?</AlertDialogTitle>
             <AlertDialogDescription>
               This deletes the {deleteWeekTarget?.week.locationCity} week schedule from this tour. This cannot be undone.
             </AlertDialogDescription>
+            {laterWeeks > 0 ? (
+              <label className="row" style={{ gap: 8, cursor: "pointer", fontSize: 13 }}>
+                <Checkbox checked={closeGap} onCheckedChange={(c) => setCloseGap(c === true)} />
+                Move the {laterWeeks} later week{laterWeeks === 1 ? "" : "s"} up a week to close the gap
+              </label>
+            ) : null}
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
               onClick={() => {
-                if (deleteWeekTarget) deleteWeek.mutate({ tourId: deleteWeekTarget.tour.id, weekId: deleteWeekTarget.week.id });
+                if (deleteWeekTarget) {
+                  deleteWeek.mutate({
+                    tourId: deleteWeekTarget.tour.id,
+                    weekId: deleteWeekTarget.week.id,
+                    closeGap: laterWeeks > 0 && closeGap,
+                  });
+                }
                 setDeleteWeekTarget(null);
               }}
             >
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { MapPin, Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogFooter,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogAction,
+  AlertDialogCancel,
+} from "@/components/ui/alert-dialog";
+import { PageHeader } from "@/components/shell/PageHeader";
+import { StatCard } from "@/components/domain/StatCard";
+import { VenueDialog } from "@/components/domain/venues/VenueDialog";
+import { useVenues } from "@/hooks/useVenues";
+import type { CreateVenueRequest } from "~backend/scheduler/venues";
+import type { Venue } from "~backend/scheduler/types";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** "Tue 19:30 · Sat 15:00, 20:00", or a note that the venue keeps the usual times. */
+function timesSummary(v: Venue): string {
+  const days = WEEKDAYS.map((day, i) => {
+    const times = v.showTimes.filter((t) => t.dayOffset === i).map((t) => t.time);
+    return times.length ? `${day} ${times.join(", ")}` : null;
+  }).filter(Boolean);
+  return days.length ? days.join(" · ") : "Usual times";
+}
+
+/** The venue library: the places a company plays, each with the curtain times,
+ *  call offset and time zone a new week there starts from. */
+export function VenuesScreen() {
+  const { venues, isLoading, error, createVenue, updateVenue, deleteVenue } = useVenues();
+
+  // null: closed; "new": adding; otherwise the venue being edited.
+  const [editing, setEditing] = useState<Venue | "new" | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Venue | null>(null);
+
+  const save = (req: CreateVenueRequest) => {
+    const close = { onSuccess: () => setEditing(null) };
+    if (editing && editing !== "new") updateVenue.mutate({ id: editing.id, ...req }, close);
+    else createVenue.mutate(req, close);
+  };
+
+  return (
+    <>
+      <PageHeader
+        eyebrow="Where the company plays"
+        title="Venues"
+        lead="Pick a venue when you set up a week and its shows start from the venue's curtain times, with calls the venue's offset before them."
+        actions={
+          <button className="btn btn-primary btn-sm" onClick={() => setEditing("new")}>
+            <Plus /> New venue
+          </button>
+        }
+      />
+
+      <section className="stats mt-24">
+        <StatCard label="Venues" value={venues.length} tone="accent" icon={<MapPin />} delta="company-wide" />
+      </section>
+
+      <section className="mt-32">
+        <div className="section-head">
+          <h2 className="h1">Your venues</h2>
+          <div className="kicker">Edit the times a new week starts from, or delete</div>
+        </div>
+
+        {isLoading ? (
+          <div className="card empty">
+            <p className="text-muted">Loading venues…</p>
+          </div>
+        ) : error ? (
+          <div className="card empty">
+            <div className="h3">Couldn't load venues</div>
+            <p className="text-muted">{error.message}</p>
+          </div>
+        ) : venues.length === 0 ? (
+          <div className="card empty">
+            <MapPin />
+            <div className="h2">No venues yet</div>
+            <p className="text-muted" style={{ maxWidth: "46ch" }}>
+              Add the theatres you play with their usual curtain times, and new weeks there will start from them.
+            </p>
+            <button className="btn btn-primary btn-sm" onClick={() => setEditing("new")}>
+              <Plus /> New venue
+            </button>
+          </div>
+        ) : (
+          <div className="stack" style={{ gap: 12 }}>
+            {venues.map((v) => (
+              <div key={v.id} className="card card-pad">
+                <div className="between" style={{ gap: 14, flexWrap: "wrap" }}>
+                  <div style={{ minWidth: 220, flex: 1 }}>
+                    <div className="h3">{v.name}</div>
+                    <div className="text-muted" style={{ fontSize: 13, marginTop: 4 }}>
+                      {[v.city, v.country].filter(Boolean).join(", ") || "No city set"} · {v.timeZone || "zone from the city"}
+                      {v.address ? ` · ${v.address}` : ""}
+                    </div>
+                    <div style={{ fontSize: 13, marginTop: 6 }}>
+                      {timesSummary(v)} · call {v.callOffsetMinutes} min before
+                    </div>
+                  </div>
+
+                  <div className="row-wrap" style={{ gap: 8 }}>
+                    <button className="btn btn-ghost btn-sm btn-icon" title="Edit" onClick={() => setEditing(v)}>
+                      <Pencil />
+                    </button>
+                    <button className="btn btn-danger btn-sm btn-icon" title="Delete" onClick={() => setDeleteTarget(v)}>
+                      <Trash2 />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <VenueDialog
+        open={editing !== null}
+        venue={editing === "new" ? null : editing}
+        onOpenChange={(o) => !o && setEditing(null)}
+        onSave={save}
+        isSaving={createVenue.isPending || updateVenue.isPending}
+      />
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(o) => !o && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &ldquo;{deleteTarget?.name}&rdquo;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the venue from the library. Weeks already set up there keep their location and times. This
+              cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleteTarget) deleteVenue.mutate(deleteTarget.id);
+                setDeleteTarget(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
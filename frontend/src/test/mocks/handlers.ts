@@ -17,12 +17,30 @@ const mockCastMembers = [
 
 const mockRoles = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
 
+const mockRoleCatalogue = mockRoles.map((name, order) => ({
+  id: `role_seed_${order}`,
+  name,
+  order,
+  preferredGender: name === "Bin" || name === "Cornish" ? "female" : undefined,
+  active: true
+}));
+
 export const handlers = [
   // Cast members endpoint
   http.get('/cast-members', () => {
     return HttpResponse.json({
       castMembers: mockCastMembers,
-      roles: mockRoles
+      roles: mockRoles,
+      roleCatalogue: mockRoleCatalogue
+    });
+  }),
+
+  // A schedule's cast: these tests' weeks aren't tour weeks, so the company's
+  http.get('/schedules/:id/cast', () => {
+    return HttpResponse.json({
+      castMembers: mockCastMembers,
+      roles: mockRoles,
+      roleCatalogue: mockRoleCatalogue
     });
   }),
 
@@ -38,10 +56,24 @@ export const handlers = [
         order: index
       })),
       archive: [],
-      roles: mockRoles
+      roles: mockRoles,
+      roleCatalogue: mockRoleCatalogue
     });
   }),
 
+  // Companies endpoint
+  http.get('/companies', () => {
+    return HttpResponse.json({
+      companies: [{ id: "company_user_1", name: "STOMP", role: "admin" }],
+      currentCompanyId: "company_user_1"
+    });
+  }),
+
+  // Role catalogue endpoint
+  http.get('/company/roles', () => {
+    return HttpResponse.json({ roles: mockRoleCatalogue });
+  }),
+
   // Schedules list endpoint
   http.get('/schedules', () => {
     return HttpResponse.json({ schedules: [] });
@@ -59,6 +91,8 @@ export const handlers = [
         week: requestData.week,
         shows: requestData.shows,
         assignments: [],
+        published: false,
+        version: 1,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       }
@@ -137,6 +171,8 @@ export const handlers = [
         week: '42',
         shows: [],
         assignments: [],
+        published: true,
+        version: 1,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       }
@@ -154,6 +190,8 @@ export const handlers = [
         week: updateData.week || '42',
         shows: updateData.shows || [],
         assignments: updateData.assignments || [],
+        published: updateData.published ?? false,
+        version: (updateData.version ?? 1) + 1,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       }
@@ -76,6 +76,28 @@ describe("SchedulePDFExporter main grid head", () => {
   });
 });
 
+describe("SchedulePDFExporter across time zones", () => {
+  const headFor = (zoned: Show[]) => {
+    autoTableCalls.length = 0;
+    new SchedulePDFExporter({ location: "London", week: "32", shows: zoned, assignments, castMembers, roles }).generate();
+    return autoTableCalls[0].head as string[][];
+  };
+
+  it("prints the zone beside each local time when the week crosses zones", () => {
+    const head = headFor([
+      { ...shows[0], timeZone: "Europe/London" },
+      { id: "p", date: "2025-08-06", time: "20:00", callTime: "18:30", status: "show", timeZone: "Europe/Paris" },
+    ]);
+    expect(head[1].slice(1)).toEqual(["19:30 BST", "20:00 CEST"]);
+    expect(head[2].slice(1)).toEqual(["18:00 BST", "18:30 CEST"]);
+  });
+
+  it("prints bare times when the whole week is in one zone", () => {
+    const head = headFor([{ ...shows[0], timeZone: "Europe/London" }]);
+    expect(head[1][1]).toBe("19:30");
+  });
+});
+
 describe("SchedulePDFExporter date column heads", () => {
   const headFor = (dateStyle?: Parameters<typeof shortDate>[1]) => {
     autoTableCalls.length = 0;
@@ -2,7 +2,8 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
 import type { Show, Assignment, Role, CastMember } from '~backend/scheduler/types';
-import { dowShort, shortDate, isoDate, type DateStyle } from '@/components/domain/format';
+import { dowShort, shortDate, isoDate, zoneAbbrev, type DateStyle } from '@/components/domain/format';
+import { crossesZones } from '@/components/domain/week';
 import { isRedDayFor } from '@/components/domain/schedule-grid/logic';
 
 interface PDFExportOptions {
@@ -74,11 +75,13 @@ export class SchedulePDFExporter {
       // Show and Call are two labelled rows of equal weight, as on the printed
       // call sheet. Stacked in one cell the call time read as a footnote to the
       // curtain time, and a TBC in it was easy to miss.
+      // Times are each city's local clock. A week crossing time zones prints
+      // the zone beside each, as the on-screen grid does.
       ['Show', ...shows.map(show =>
-        show.status === 'show' ? this.formatTime(show.time) : show.status.toUpperCase()
+        show.status === 'show' ? this.withZone(this.formatTime(show.time), show) : show.status.toUpperCase()
       )],
       ['Call', ...shows.map(show =>
-        show.status === 'show' ? this.formatCallTime(show.callTime) : ''
+        show.status === 'show' ? this.withZone(this.formatCallTime(show.callTime), show) : ''
       )]
     ];
     
@@ -174,18 +177,20 @@ export class SchedulePDFExporter {
   }
 
   private addOffSection(): void {
-    const { shows, assignments, castMembers } = this.options;
+    const { shows, assignments, castMembers, roles } = this.options;
     const currentY = (this.doc as any).lastAutoTable.finalY + 5;
     
     // Build OFF data with professional styling
     const offRows: any[][] = [];
     const activeShows = shows.filter(show => show.status === 'show');
     
-    // Find maximum OFF performers for any show to determine rows needed
+    // Find maximum OFF performers for any show to determine rows needed. Only
+    // the active roles put someone on stage — a leftover cast in a role since
+    // deactivated leaves that performer OFF, as in the grid above.
     const maxOffCount = Math.max(...activeShows.map(show => {
       const assignedPerformers = new Set(
         assignments
-          .filter(a => a.showId === show.id && a.role !== 'OFF')
+          .filter(a => a.showId === show.id && roles.includes(a.role))
           .map(a => a.performer)
       );
       
@@ -217,7 +222,7 @@ export class SchedulePDFExporter {
         } else {
           const assignedPerformers = new Set(
             assignments
-              .filter(a => a.showId === show.id && a.role !== 'OFF')
+              .filter(a => a.showId === show.id && roles.includes(a.role))
               .map(a => a.performer)
           );
           
@@ -299,6 +304,12 @@ export class SchedulePDFExporter {
     return callTime;
   }
 
+  private withZone(time: string, show: Show): string {
+    if (time === 'TBC' || !crossesZones(this.options.shows)) return time;
+    const zone = zoneAbbrev(show.timeZone, show.date);
+    return zone ? `${time} ${zone}` : time;
+  }
+
   private addNotesSection(): void {
     const currentY = (this.doc as any).lastAutoTable.finalY + 12;
     
@@ -316,6 +327,7 @@ export class SchedulePDFExporter {
     this.doc.text('• RED Day - Performer is not on call and cannot be called in for emergency cover unless compensated', 20, currentY + 6);
     this.doc.text('• TRAVEL/DAY OFF days show special status instead of individual assignments', 20, currentY + 11);
     this.doc.text('• *  (amber) - RD injury/sickness fatigue override; the back-to-back / weekly-cap breach is accepted as cover', 20, currentY + 16);
+    this.doc.text('• All times are local to the city of the show', 20, currentY + 21);
   }
 
   private addFooter(): void {